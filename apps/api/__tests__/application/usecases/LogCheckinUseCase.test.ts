@@ -1,5 +1,6 @@
 import { LogCheckinUseCase } from '../../../src/application/usecases/LogCheckinUseCase';
 import { ICheckinRepository } from '../../../src/domain/repositories/ICheckinRepository';
+import { IProfileRepository } from '../../../src/domain/repositories/IProfileRepository';
 import { Checkin } from '../../../src/domain/entities/Checkin';
 import { UserId } from '../../../src/domain/value-objects/UserId';
 import { Result } from '../../../src/shared/result';
@@ -7,6 +8,7 @@ import { Result } from '../../../src/shared/result';
 describe('LogCheckinUseCase', () => {
   let useCase: LogCheckinUseCase;
   let mockRepository: jest.Mocked<ICheckinRepository>;
+  let mockProfileRepository: jest.Mocked<IProfileRepository>;
 
   beforeEach(() => {
     mockRepository = {
@@ -20,7 +22,11 @@ describe('LogCheckinUseCase', () => {
       findLatestByUser: jest.fn()
     };
 
-    useCase = new LogCheckinUseCase(mockRepository);
+    mockProfileRepository = {
+      getTimezone: jest.fn().mockResolvedValue(Result.ok('UTC'))
+    };
+
+    useCase = new LogCheckinUseCase(mockRepository, mockProfileRepository);
   });
 
   describe('execute', () => {
@@ -107,12 +107,12 @@ describe('Onboarding Integration Tests', () => {
       const result = await repository.completeStep(
         UserId.fromString(testUserId),
         'prayer-calculation',
-        { prayerCalculationMethod: 'ISNA' }
+        { prayerCalculationMethod: 'NorthAmerica' }
       );
 
       expect(result.ok).toBe(true);
       expect(result.value!.prayerCalculationMethodSet).toBe(true);
-      expect(result.value!.dataCollected.prayerCalculationMethod).toBe('ISNA');
+      expect(result.value!.dataCollected.prayerCalculationMethod).toBe('NorthAmerica');
     });
 
     it('should complete notification configuration step', async () => {
@@ -201,7 +201,7 @@ describe('Onboarding Integration Tests', () => {
         location: { lat: 40.7128, lng: -74.0060 }
       });
       await repository.completeStep(UserId.fromString(testUserId), 'prayer-calculation', {
-        prayerCalculationMethod: 'ISNA'
+        prayerCalculationMethod: 'NorthAmerica'
       });
 
       const result = await repository.skipStep(
@@ -350,7 +350,7 @@ describe('Onboarding Integration Tests', () => {
           city: 'Mecca',
           country: 'Saudi Arabia'
         },
-        prayerCalculationMethod: 'Makkah' as const,
+        prayerCalculationMethod: 'UmmAlQura' as const,
         notificationSettings: {
           fajrReminder: true,
           dailyReminder: true,
@@ -8,11 +8,15 @@ import { SubmitReflectionUseCase } from '@/application/usecases/SubmitReflection
 import { GenerateResultsUseCase } from '@/application/usecases/GenerateResultsUseCase';
 import { ValidateSurveyProgressUseCase } from '@/application/usecases/ValidateSurveyProgressUseCase';
 import { CreateHabitsFromSurveyUseCase } from '@/application/usecases/CreateHabitsFromSurveyUseCase';
+import { GetSurveyQuestionBankUseCase } from '@/application/usecases/GetSurveyQuestionBankUseCase';
+import { ExportSurveyResultUseCase } from '@/application/usecases/ExportSurveyResultUseCase';
 import { ISurveyRepository } from '@/domain/repositories/ISurveyRepository';
 import { SurveyProgress } from '@/domain/entities/SurveyProgress';
 import { SurveyResponse } from '@/domain/entities/SurveyResponse';
-import { SurveyResult } from '@/domain/entities/SurveyResult';
+import { SurveyResult, DISEASES } from '@/domain/entities/SurveyResult';
+import { SurveyQuestionBank } from '@/domain/entities/SurveyQuestionBank';
 import { Result } from '@/shared/result';
+import { createAppError, ErrorCode } from '@/shared/errors';
 
 // Mock all use cases
 const mockSubmitPhase1UseCase = {
@@ -40,6 +44,28 @@ const mockCreateHabitsFromSurveyUseCase = {
   execute: vi.fn()
 };
 
+const mockGetSurveyQuestionBankUseCase = {
+  execute: vi.fn()
+};
+
+const mockExportSurveyResultUseCase = {
+  execute: vi.fn()
+};
+
+const questionBank = SurveyQuestionBank.create({
+  version: 1,
+  questions: DISEASES.map((disease, index) => ({
+    id: `question-${index + 1}`,
+    questionId: disease,
+    disease,
+    phase: index < 4 ? 1 : 2,
+    category: index < 4 ? 'inner' : 'behavioral',
+    order: index + 1,
+    title: { en: disease },
+    prompt: { en: `How strongly do you recognise ${disease} in yourself?` }
+  }))
+});
+
 const mockSurveyRepository = {
   getSurveyProgress: vi.fn(),
   saveSurveyProgress: vi.fn(),
@@ -52,6 +78,7 @@ const mockSurveyRepository = {
   deleteSurveyResponse: vi.fn(),
   saveSurveyResult: vi.fn(),
   getSurveyResult: vi.fn(),
+  getSurveyResultHistory: vi.fn(),
   getSurveyResultById: vi.fn(),
   updateSurveyResult: vi.fn(),
   deleteSurveyResult: vi.fn(),
@@ -96,7 +123,8 @@ vi.mock('@/infrastructure/middleware/surveyProgress', () => ({
 
 // Mock validation middleware
 vi.mock('@/infrastructure/middleware/validation', () => ({
-  validateBody: (schema: any) => (_req: any, _res: any, next: any) => next()
+  validateBody: (schema: any) => (_req: any, _res: any, next: any) => next(),
+  validateQuery: (schema: any) => (_req: any, _res: any, next: any) => next()
 }));
 
 describe('Survey Flow Integration Tests', () => {
@@ -111,6 +139,8 @@ describe('Survey Flow Integration Tests', () => {
     // Clear all mocks
     vi.clearAllMocks();
 
+    mockGetSurveyQuestionBankUseCase.execute.mockResolvedValue(Result.ok(questionBank));
+
     // Mock container resolution
     vi.mocked(container.resolve).mockImplementation((token: any) => {
       if (token === SubmitPhase1UseCase) return mockSubmitPhase1UseCase;
@@ -119,6 +149,8 @@ describe('Survey Flow Integration Tests', () => {
       if (token === GenerateResultsUseCase) return mockGenerateResultsUseCase;
       if (token === ValidateSurveyProgressUseCase) return mockValidateSurveyProgressUseCase;
       if (token === CreateHabitsFromSurveyUseCase) return mockCreateHabitsFromSurveyUseCase;
+      if (token === GetSurveyQuestionBankUseCase) return mockGetSurveyQuestionBankUseCase;
+      if (token === ExportSurveyResultUseCase) return mockExportSurveyResultUseCase;
       if (token === 'ISurveyRepository') return mockSurveyRepository;
       throw new Error(`Unknown token: ${token}`);
     });
@@ -887,9 +919,10 @@ describe('Survey Flow Integration Tests', () => {
         generatedAt: new Date()
       };
 
-      mockSurveyRepository.getSurveyResult.mockResolvedValue(
+      mockExportSurveyResultUseCase.execute.mockResolvedValue(
         Result.ok({
-          toDTO: () => mockResult
+          result: { attemptNumber: 1, toDTO: () => mockResult },
+          content: []
         })
       );
 
@@ -897,8 +930,12 @@ describe('Survey Flow Integration Tests', () => {
         .get('/api/v1/onboarding/export/json/result-123')
         .expect(200);
 
+      expect(mockExportSurveyResultUseCase.execute).toHaveBeenCalledWith({
+        userId: testUserId,
+        resultId: 'result-123'
+      });
       expect(response.headers['content-type']).toMatch(/application\/json/);
-      expect(response.headers['content-disposition']).toContain('attachment');
+      expect(response.headers['content-disposition']).toContain('tazkiyah-results-attempt-1.json');
       expect(response.body).toMatchObject({
         metadata: {
           title: 'Tazkiyah Discovery Survey Results',
@@ -911,34 +948,44 @@ describe('Survey Flow Integration Tests', () => {
     });
 
     it('should export results as PDF format', async () => {
-      const mockResult = {
-        id: 'result-123',
-        userId: testUserId,
-        diseaseScores: { anger: 4, envy: 3 },
+      const surveyResult = SurveyResult.create({
+        userId: 'a3bb189e-8bf9-4888-9912-ace4e6543002',
+        attemptNumber: 2,
+        diseaseScores: {
+          envy: 3, arrogance: 2, selfDeception: 1, lust: 2, anger: 4, malice: 1,
+          backbiting: 2, suspicion: 3, loveOfDunya: 4, laziness: 2, despair: 1
+        },
+        reflectionAnswers: {
+          strongestStruggle: 'Controlling my anger at home',
+          dailyHabit: 'Morning adhkar after Fajr'
+        },
         personalizedHabits: [],
-        tazkiyahPlan: {},
-        generatedAt: new Date()
-      };
+        tazkiyahPlan: {
+          criticalDiseases: ['anger', 'loveOfDunya'],
+          planType: 'takhliyah',
+          phases: [],
+          expectedDuration: '8 weeks',
+          milestones: []
+        }
+      });
 
-      mockSurveyRepository.getSurveyResult.mockResolvedValue(
-        Result.ok({
-          toDTO: () => mockResult
-        })
+      mockExportSurveyResultUseCase.execute.mockResolvedValue(
+        Result.ok({ result: surveyResult, content: [] })
       );
 
       const response = await request(app)
-        .get('/api/v1/onboarding/export/pdf/result-123')
+        .get(`/api/v1/onboarding/export/pdf/${surveyResult.id.toString()}`)
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        })
         .expect(200);
 
-      expect(response.headers['content-type']).toMatch(/application\/json/);
-      expect(response.headers['content-disposition']).toContain('attachment');
-      expect(response.body).toMatchObject({
-        title: 'Tazkiyah Discovery Survey Results',
-        user: testUserId,
-        results: expect.objectContaining({
-          diseaseScores: { anger: 4, envy: 3 }
-        })
-      });
+      expect(response.headers['content-type']).toBe('application/pdf');
+      expect(response.headers['content-disposition']).toContain('tazkiyah-results-attempt-2.pdf');
+      expect((response.body as Buffer).toString('latin1').startsWith('%PDF-')).toBe(true);
     });
   });
 
@@ -1009,18 +1056,18 @@ describe('Survey Flow Integration Tests', () => {
     });
 
     it('should handle missing survey results', async () => {
-      mockSurveyRepository.getSurveyResult.mockResolvedValue(
-        Result.error(new Error('Survey results not found'))
+      mockExportSurveyResultUseCase.execute.mockResolvedValue(
+        Result.error(createAppError(ErrorCode.NOT_FOUND, 'Survey result not found'))
       );
 
       const response = await request(app)
         .get('/api/v1/onboarding/export/json/nonexistent-result')
-        .expect(500);
+        .expect(404);
 
       expect(response.body).toMatchObject({
         ok: false,
-        errorCode: 'NOT_FOUND',
-        message: 'Survey results not found'
+        errorCode: ErrorCode.NOT_FOUND,
+        message: 'Survey result not found'
       });
     });
 
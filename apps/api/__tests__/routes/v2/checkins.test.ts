@@ -102,8 +102,8 @@ describe('POST /v2/checkins', () => {
 
   it('should create a new check-in successfully', async () => {
     const checkinData = {
+      session: 'evening',
       mood: 1,
-      intention: 'Be more patient today',
       reflection: 'Had a good day practicing patience',
       gratitude: ['Health', 'Family', 'Peace'],
       improvements: 'Wake up earlier for Fajr'
@@ -113,9 +113,11 @@ describe('POST /v2/checkins', () => {
       id: '550e8400-e29b-41d4-a716-446655440001',
       userId: '550e8400-e29b-41d4-a716-446655440000',
       date: new Date(),
+      session: 'evening',
       mood: 1,
-      intention: 'Be more patient today',
-      reflection: 'Had a good day practicing patience\n\nGratitude:\n1. Health\n2. Family\n3. Peace\n\nImprovements:\nWake up earlier for Fajr'
+      reflection: 'Had a good day practicing patience',
+      gratitude: ['Health', 'Family', 'Peace'],
+      improvements: 'Wake up earlier for Fajr'
     });
 
     mockLogCheckinUseCase.execute.mockResolvedValue(Result.ok(mockCheckin));
@@ -138,21 +140,23 @@ describe('POST /v2/checkins', () => {
     expect(response.body.data).toHaveProperty('streak');
     expect(response.body.data).toHaveProperty('isUpdate');
     expect(response.body.data.data.mood).toBe(1);
-    expect(response.body.data.data.intention).toBe('Be more patient today');
+    expect(response.body.data.data.session).toBe('evening');
     expect(mockLogCheckinUseCase.execute).toHaveBeenCalledWith(
       expect.objectContaining({
+        session: 'evening',
         mood: 1,
-        intention: 'Be more patient today',
-        reflection: 'Had a good day practicing patience\n\nGratitude:\n1. Health\n2. Family\n3. Peace\n\nImprovements:\nWake up earlier for Fajr'
+        reflection: 'Had a good day practicing patience',
+        gratitude: ['Health', 'Family', 'Peace'],
+        improvements: 'Wake up earlier for Fajr'
       })
     );
   });
 
   it('should update existing check-in for the day', async () => {
     const checkinData = {
+      session: 'morning',
       mood: 2,
-      intention: 'Updated intention',
-      reflection: 'Updated reflection'
+      intention: 'Updated intention'
     };
 
     // Test represents updating an existing checkin
@@ -161,9 +165,9 @@ describe('POST /v2/checkins', () => {
       id: '550e8400-e29b-41d4-a716-446655440002',
       userId: '550e8400-e29b-41d4-a716-446655440000',
       date: new Date(),
+      session: 'morning',
       mood: 2,
-      intention: 'Updated intention',
-      reflection: 'Updated reflection'
+      intention: 'Updated intention'
     });
 
     mockLogCheckinUseCase.execute.mockResolvedValue(Result.ok(updatedCheckin));
@@ -352,12 +356,12 @@ describe('GET /v2/checkins/today', () => {
       id: '550e8400-e29b-41d4-a716-446655440006',
       userId: '550e8400-e29b-41d4-a716-446655440000',
       date: new Date(),
+      session: 'morning',
       mood: 1,
-      intention: 'Today\'s intention',
-      reflection: 'Today\'s reflection'
+      intention: 'Today\'s intention'
     });
 
-    mockGetTodaysCheckin.mockResolvedValue(todayCheckin);
+    mockLogCheckinUseCase.getToday.mockResolvedValue(Result.ok({ date: '2024-01-15', morning: todayCheckin, evening: null }));
     mockCalculateCheckinStreak.mockResolvedValue({
       current: 3,
       longest: 7,
@@ -375,11 +379,13 @@ describe('GET /v2/checkins/today', () => {
     expect(response.body.data).toHaveProperty('hasCheckedIn');
     expect(response.body.data).toHaveProperty('streak');
     expect(response.body.data.hasCheckedIn).toBe(true);
-    expect(response.body.data.data.intention).toBe('Today\'s intention');
+    expect(response.body.data.sessions).toEqual({ morning: true, evening: false });
+    expect(response.body.data.data.morning.intention).toBe('Today\'s intention');
+    expect(response.body.data.data.evening).toBeNull();
   });
 
   it('should return null if no check-in exists for today', async () => {
-    mockGetTodaysCheckin.mockResolvedValue(null);
+    mockLogCheckinUseCase.getToday.mockResolvedValue(Result.ok({ date: '2024-01-15', morning: null, evening: null }));
     mockCalculateCheckinStreak.mockResolvedValue({
       current: 0,
       longest: 0,
@@ -391,7 +397,7 @@ describe('GET /v2/checkins/today', () => {
       .get('/v2/checkins/today')
       .expect(200);
 
-    expect(response.body.data.data).toBeNull();
+    expect(response.body.data.data).toEqual({ morning: null, evening: null });
     expect(response.body.data.hasCheckedIn).toBe(false);
     expect(response.body.data.streak.current).toBe(0);
   });
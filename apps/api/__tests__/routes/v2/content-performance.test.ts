@@ -9,6 +9,7 @@ import { ContentType } from '@sakinah/types';
 // Mock the content repository
 const mockContentRepository = {
   findWithFilter: vi.fn(),
+  findTranslations: vi.fn(),
   findById: vi.fn(),
   create: vi.fn(),
   update: vi.fn(),
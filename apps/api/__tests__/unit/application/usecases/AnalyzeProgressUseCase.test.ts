@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AnalyzeProgressUseCase } from '@/application/usecases/progress/AnalyzeProgressUseCase';
+import { IHabitRepository } from '@/domain/repositories/IHabitRepository';
+import { ICheckinRepository } from '@/domain/repositories/ICheckinRepository';
+import { IDhikrRepository } from '@/domain/repositories/IDhikrRepository';
+import { IProfileRepository } from '@/domain/repositories/IProfileRepository';
+import { IProgressRecommender } from '@/domain/providers/IProgressRecommender';
+import { HabitAnalyticsProjection } from '@/infrastructure/events/projections/HabitAnalyticsProjection';
+import { Checkin } from '@/domain/entities/Checkin';
+import { Result } from '@/shared/result';
+import { addDays } from '@/shared/timezone';
+
+const USER_ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+const NOW = new Date('2024-03-11T18:00:00.000Z');
+
+const mockHabitRepository = {
+  findByUserId: vi.fn(),
+  findCompletionDates: vi.fn()
+} as any as IHabitRepository;
+
+const mockCheckinRepository = {
+  findByUser: vi.fn()
+} as any as ICheckinRepository;
+
+const mockDhikrRepository = {
+  getDhikrStatsByUser: vi.fn()
+} as any as IDhikrRepository;
+
+const mockProfileRepository = {
+  getTimezone: vi.fn()
+} as any as IProfileRepository;
+
+const mockHabitAnalytics = {
+  getHabitAnalytics: vi.fn(),
+  getCompletionTimes: vi.fn(),
+  getStreakBreaks: vi.fn()
+} as any as HabitAnalyticsProjection;
+
+const mockRecommender = {
+  recommend: vi.fn()
+} as any as IProgressRecommender;
+
+// A morning and an evening check-in on each of the last seven days, newest first like the repository
+const checkins = Array.from({ length: 7 }, (_, i) => addDays('2024-03-11', -i)).flatMap(date => [
+  Checkin.create({ userId: USER_ID, date: new Date(`${date}T00:00:00.000Z`), session: 'evening', mood: 1 }),
+  Checkin.create({ userId: USER_ID, date: new Date(`${date}T00:00:00.000Z`), session: 'morning', mood: 2 })
+]);
+
+describe('AnalyzeProgressUseCase', () => {
+  let useCase: AnalyzeProgressUseCase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mockProfileRepository.getTimezone).mockResolvedValue(Result.ok('UTC'));
+    vi.mocked(mockHabitRepository.findByUserId).mockResolvedValue(Result.ok([]));
+    vi.mocked(mockHabitAnalytics.getHabitAnalytics).mockResolvedValue([]);
+    vi.mocked(mockHabitAnalytics.getCompletionTimes).mockResolvedValue([]);
+    vi.mocked(mockHabitAnalytics.getStreakBreaks).mockResolvedValue([]);
+    vi.mocked(mockDhikrRepository.getDhikrStatsByUser).mockResolvedValue(Result.ok({ totalCount: 0, totalSessions: 0 } as any));
+    vi.mocked(mockRecommender.recommend).mockResolvedValue([]);
+    vi.mocked(mockCheckinRepository.findByUser).mockImplementation(async (_userId, filters) =>
+      Result.ok(filters?.limit === undefined ? checkins : checkins.slice(0, filters.limit))
+    );
+
+    useCase = new AnalyzeProgressUseCase(
+      mockHabitRepository,
+      mockCheckinRepository,
+      mockDhikrRepository,
+      mockProfileRepository,
+      mockHabitAnalytics,
+      mockRecommender
+    );
+  });
+
+  it('analyzes both check-in sessions on every day of the timeframe', async () => {
+    const result = await useCase.execute({ userId: USER_ID, timeframe: '7d', now: NOW });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (!Result.isOk(result)) return;
+    expect(mockCheckinRepository.findByUser).toHaveBeenCalledWith(expect.anything(), {
+      from: new Date('2024-03-05T00:00:00.000Z'),
+      to: new Date('2024-03-11T00:00:00.000Z')
+    });
+    expect(result.value.metrics.mood.checkins).toBe(14);
+    expect(result.value.metrics.mood.averageMood).toBe(1.5);
+    expect(result.value.dataPoints).toBe(14);
+  });
+});
@@ -21,6 +21,7 @@ const mockSurveyRepository: ISurveyRepository = {
   // Survey Results
   saveSurveyResult: vi.fn(),
   getSurveyResult: vi.fn(),
+  getSurveyResultHistory: vi.fn(),
   getSurveyResultById: vi.fn(),
   updateSurveyResult: vi.fn(),
   deleteSurveyResult: vi.fn(),
@@ -48,10 +49,12 @@ const mockHabitRepository: IHabitRepository = {
   findById: vi.fn(),
   findByUserId: vi.fn(),
   findByPlanId: vi.fn(),
+  findAll: vi.fn(),
   updateStreak: vi.fn(),
   createCompletion: vi.fn(),
   deleteCompletion: vi.fn(),
-  findCompletionByDate: vi.fn()
+  findCompletionByDate: vi.fn(),
+  findCompletionDates: vi.fn()
 };
 
 const mockPlanRepository: IPlanRepository = {
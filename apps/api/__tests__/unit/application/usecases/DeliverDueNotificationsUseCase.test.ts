@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DeliverDueNotificationsUseCase } from '@/application/usecases/notifications/DeliverDueNotificationsUseCase';
+import { INotificationRepository } from '@/domain/repositories/INotificationRepository';
+import { INotificationChannel } from '@/domain/services/INotificationChannel';
+import { Notification } from '@/domain/entities/Notification';
+import { LogNotificationChannel } from '@/infrastructure/notifications/LogNotificationChannel';
+import { Result } from '@/shared/result';
+
+const USER_ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+const NOW = new Date('2024-03-11T17:12:00.000Z');
+
+const mockNotificationRepository: INotificationRepository = {
+  enqueue: vi.fn(),
+  findDue: vi.fn(),
+  findByUserId: vi.fn(),
+  updateDelivery: vi.fn(),
+  findUserIdsWithReminders: vi.fn()
+};
+
+function failingChannel(name: string): INotificationChannel {
+  return {
+    name,
+    deliver: vi.fn().mockResolvedValue(Result.error(new Error('subscription gone')))
+  };
+}
+
+function dueNotification(scheduledFor: Date, attempts = 0): Notification {
+  return Notification.create({
+    id: '6f1c2a8e-0b1d-4c1e-9a55-2d0e4f3b7c11',
+    userId: USER_ID,
+    type: 'prayer',
+    title: 'Dhuhr prayer',
+    body: 'It is time for Dhuhr.',
+    dedupeKey: 'prayer:dhuhr:2024-03-11',
+    scheduledFor,
+    attempts
+  });
+}
+
+describe('DeliverDueNotificationsUseCase', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mockNotificationRepository.updateDelivery).mockResolvedValue(Result.ok(undefined));
+  });
+
+  it('marks a notification sent when any channel accepts it', async () => {
+    const notification = dueNotification(new Date('2024-03-11T17:10:00.000Z'));
+    vi.mocked(mockNotificationRepository.findDue).mockResolvedValue(Result.ok([notification]));
+    const logChannel = new LogNotificationChannel();
+
+    const useCase = new DeliverDueNotificationsUseCase(mockNotificationRepository, [failingChannel('push'), logChannel]);
+    const result = await useCase.execute({ now: NOW });
+
+    expect(Result.isOk(result) && result.value).toEqual({ sent: 1, failed: 0, expired: 0 });
+    expect(logChannel.delivered).toEqual([notification]);
+    expect(notification.status).toBe('sent');
+    expect(notification.channel).toBe('log');
+    expect(notification.sentAt).toEqual(NOW);
+    expect(mockNotificationRepository.updateDelivery).toHaveBeenCalledWith(notification);
+  });
+
+  it('keeps a failed notification pending until its attempts run out', async () => {
+    const retried = dueNotification(new Date('2024-03-11T17:10:00.000Z'));
+    const exhausted = dueNotification(new Date('2024-03-11T17:10:00.000Z'), 2);
+    vi.mocked(mockNotificationRepository.findDue).mockResolvedValue(Result.ok([retried, exhausted]));
+
+    const useCase = new DeliverDueNotificationsUseCase(mockNotificationRepository, [failingChannel('push')]);
+    const result = await useCase.execute({ now: NOW });
+
+    expect(Result.isOk(result) && result.value).toEqual({ sent: 0, failed: 2, expired: 0 });
+    expect(retried.status).toBe('pending');
+    expect(retried.attempts).toBe(1);
+    expect(retried.lastError).toBe('push: subscription gone');
+    expect(exhausted.status).toBe('failed');
+  });
+
+  it('expires notifications that are too late to be useful', async () => {
+    const stale = dueNotification(new Date('2024-03-11T15:00:00.000Z'));
+    vi.mocked(mockNotificationRepository.findDue).mockResolvedValue(Result.ok([stale]));
+    const logChannel = new LogNotificationChannel();
+
+    const useCase = new DeliverDueNotificationsUseCase(mockNotificationRepository, [logChannel]);
+    const result = await useCase.execute({ now: NOW });
+
+    expect(Result.isOk(result) && result.value).toEqual({ sent: 0, failed: 0, expired: 1 });
+    expect(stale.status).toBe('expired');
+    expect(logChannel.delivered).toHaveLength(0);
+  });
+});
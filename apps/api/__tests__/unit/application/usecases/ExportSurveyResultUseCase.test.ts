@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { v4 as uuidv4 } from 'uuid';
+import { ExportSurveyResultUseCase } from '@/application/usecases/ExportSurveyResultUseCase';
+import { ISurveyRepository } from '@/domain/repositories/ISurveyRepository';
+import { IContentRepository } from '@/domain/repositories';
+import { SurveyResult } from '@/domain/entities/SurveyResult';
+import { SurveyResultId } from '@/domain/value-objects/SurveyResultId';
+import { Result } from '@/shared/result';
+import { ErrorCode } from '@/shared/errors';
+
+const TEST_USER_ID = uuidv4();
+
+const mockSurveyRepository = {
+  getSurveyResultById: vi.fn()
+} as any as ISurveyRepository;
+
+const mockContentRepository = {
+  findById: vi.fn(),
+  findTranslations: vi.fn()
+} as any as IContentRepository;
+
+const snippet = (id: string, text: string) => ({
+  id,
+  type: 'ayah' as const,
+  text,
+  ref: `Ref ${id}`,
+  tags: ['anger'],
+  createdAt: '2024-01-01T00:00:00.000Z'
+});
+
+const buildResult = (userId = TEST_USER_ID) =>
+  SurveyResult.create({
+    userId,
+    attemptNumber: 2,
+    diseaseScores: {
+      envy: 4, arrogance: 3, selfDeception: 2, lust: 2, anger: 5, malice: 1,
+      backbiting: 3, suspicion: 2, loveOfDunya: 4, laziness: 3, despair: 1
+    },
+    reflectionAnswers: {
+      strongestStruggle: 'Holding back anger with my family',
+      dailyHabit: 'Dhikr after every prayer'
+    },
+    personalizedHabits: [{
+      id: 'habit-1',
+      title: 'Pause before responding',
+      description: 'Seek refuge in Allah when anger rises',
+      frequency: 'daily',
+      targetDisease: 'anger',
+      difficultyLevel: 'moderate',
+      estimatedDuration: '5 minutes',
+      islamicContentIds: ['content-1', 'content-2']
+    }],
+    tazkiyahPlan: {
+      criticalDiseases: ['anger'],
+      planType: 'takhliyah',
+      phases: [{
+        phaseNumber: 1,
+        title: 'Awareness',
+        description: 'Notice the moments anger begins',
+        targetDiseases: ['anger'],
+        duration: '2 weeks',
+        practices: [{
+          name: 'Evening muhasabah',
+          type: 'reflection',
+          description: 'Review the day before sleeping',
+          frequency: 'daily',
+          islamicContentIds: ['content-2', 'content-3']
+        }],
+        checkpoints: ['Named three triggers']
+      }],
+      expectedDuration: '40 days',
+      milestones: []
+    }
+  });
+
+describe('ExportSurveyResultUseCase', () => {
+  let useCase: ExportSurveyResultUseCase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useCase = new ExportSurveyResultUseCase(mockSurveyRepository, mockContentRepository);
+  });
+
+  it('loads the requested result with its referenced content and Arabic text', async () => {
+    const surveyResult = buildResult();
+    vi.mocked(mockSurveyRepository.getSurveyResultById).mockResolvedValue(Result.ok(surveyResult));
+    vi.mocked(mockContentRepository.findById).mockImplementation(async id =>
+      Result.ok(id === 'content-3' ? null : snippet(id, `Text of ${id}`))
+    );
+    vi.mocked(mockContentRepository.findTranslations).mockResolvedValue(Result.ok([
+      { contentId: 'content-1', locale: 'ar', text: 'نص عربي', ref: null }
+    ]));
+
+    const result = await useCase.execute({ userId: TEST_USER_ID, resultId: surveyResult.id.toString() });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (!Result.isOk(result)) return;
+    expect(result.value.result).toBe(surveyResult);
+    expect(vi.mocked(mockSurveyRepository.getSurveyResultById).mock.calls[0][0]).toBeInstanceOf(SurveyResultId);
+    expect(mockContentRepository.findById).toHaveBeenCalledTimes(3);
+    expect(mockContentRepository.findTranslations).toHaveBeenCalledWith(['content-1', 'content-2'], 'ar');
+    expect(result.value.content.map(item => [item.id, item.arabicText])).toEqual([
+      ['content-1', 'نص عربي'],
+      ['content-2', null]
+    ]);
+  });
+
+  it('reports another user\'s result as not found', async () => {
+    const surveyResult = buildResult(uuidv4());
+    vi.mocked(mockSurveyRepository.getSurveyResultById).mockResolvedValue(Result.ok(surveyResult));
+
+    const result = await useCase.execute({ userId: TEST_USER_ID, resultId: surveyResult.id.toString() });
+
+    expect(Result.isError(result)).toBe(true);
+    if (Result.isError(result)) {
+      expect((result.error as any).code).toBe(ErrorCode.NOT_FOUND);
+    }
+    expect(mockContentRepository.findById).not.toHaveBeenCalled();
+  });
+
+  it('reports a missing result as not found', async () => {
+    vi.mocked(mockSurveyRepository.getSurveyResultById).mockResolvedValue(Result.ok(null));
+
+    const result = await useCase.execute({ userId: TEST_USER_ID, resultId: uuidv4() });
+
+    expect(Result.isError(result) && (result.error as any).code).toBe(ErrorCode.NOT_FOUND);
+  });
+
+  it('rejects a malformed result id without querying', async () => {
+    const result = await useCase.execute({ userId: TEST_USER_ID, resultId: 'not-an-id' });
+
+    expect(Result.isError(result) && (result.error as any).code).toBe(ErrorCode.NOT_FOUND);
+    expect(mockSurveyRepository.getSurveyResultById).not.toHaveBeenCalled();
+  });
+
+  it('still exports when translations cannot be loaded', async () => {
+    const surveyResult = buildResult();
+    vi.mocked(mockSurveyRepository.getSurveyResultById).mockResolvedValue(Result.ok(surveyResult));
+    vi.mocked(mockContentRepository.findById).mockImplementation(async id => Result.ok(snippet(id, `Text of ${id}`)));
+    vi.mocked(mockContentRepository.findTranslations).mockResolvedValue(Result.error(new Error('no such table')));
+
+    const result = await useCase.execute({ userId: TEST_USER_ID, resultId: surveyResult.id.toString() });
+
+    expect(Result.isOk(result) && result.value.content.every(item => item.arabicText === null)).toBe(true);
+  });
+});
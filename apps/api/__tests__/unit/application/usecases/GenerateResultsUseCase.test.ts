@@ -3,7 +3,9 @@ import { container } from 'tsyringe';
 import { GenerateResultsUseCase } from '@/application/usecases/GenerateResultsUseCase';
 import { ISurveyRepository } from '@/domain/repositories/ISurveyRepository';
 import { ISurveyAiProvider } from '@/domain/providers/ISurveyAiProvider';
-import { SurveyResult } from '@/domain/entities/SurveyResult';
+import { ISurveyQuestionRepository } from '@/domain/repositories/ISurveyQuestionRepository';
+import { SurveyResult, DISEASES } from '@/domain/entities/SurveyResult';
+import { SurveyQuestionBank } from '@/domain/entities/SurveyQuestionBank';
 import { UserId } from '@/domain/value-objects/UserId';
 import { Result } from '@/shared/result';
 import { ErrorCode } from '@/shared/errors';
@@ -22,6 +24,25 @@ const mockAiProvider = {
   generateTazkiyahPlan: vi.fn(),
 } as any as ISurveyAiProvider;
 
+const questionBank = SurveyQuestionBank.create({
+  version: 1,
+  questions: DISEASES.map((disease, index) => ({
+    id: `question-${index + 1}`,
+    questionId: disease,
+    disease,
+    phase: index < 4 ? 1 : 2,
+    category: index < 4 ? 'inner' : 'behavioral',
+    order: index + 1,
+    title: { en: disease },
+    prompt: { en: `How strongly do you recognise ${disease} in yourself?` }
+  }))
+});
+
+const mockQuestionRepository = {
+  getActiveBank: vi.fn(),
+  getBank: vi.fn(),
+} as any as ISurveyQuestionRepository;
+
 describe('GenerateResultsUseCase', () => {
   let useCase: GenerateResultsUseCase;
   let userId: string;
@@ -37,8 +58,11 @@ describe('GenerateResultsUseCase', () => {
     container.clearInstances();
     container.register('ISurveyRepository', { useValue: mockSurveyRepository });
     container.register('ISurveyAiProvider', { useValue: mockAiProvider });
+    container.register('ISurveyQuestionRepository', { useValue: mockQuestionRepository });
+
+    (mockQuestionRepository.getActiveBank as any).mockResolvedValue(Result.ok(questionBank));
 
-    useCase = new GenerateResultsUseCase(mockSurveyRepository, mockAiProvider);
+    useCase = new GenerateResultsUseCase(mockSurveyRepository, mockAiProvider, mockQuestionRepository);
 
     userId = 'test-user-id';
 
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GetEveningReviewUseCase } from '@/application/usecases/GetEveningReviewUseCase';
+import { ICheckinRepository, IHabitRepository, IProfileRepository } from '@/domain/repositories';
+import { Checkin } from '@/domain/entities/Checkin';
+import { Habit } from '@/domain/entities/Habit';
+import { Result } from '@/shared/result';
+
+const TEST_USER_ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+const PLAN_ID = '6ba7b810-9dad-41d1-80b4-00c04fd430c8';
+
+const mockCheckinRepository: ICheckinRepository = {
+  create: vi.fn(),
+  findById: vi.fn(),
+  findByUserAndDate: vi.fn(),
+  update: vi.fn(),
+  findByUser: vi.fn(),
+  countByUser: vi.fn(),
+  findAllByUser: vi.fn(),
+  findLatestByUser: vi.fn()
+};
+
+const mockHabitRepository: IHabitRepository = {
+  create: vi.fn(),
+  findById: vi.fn(),
+  findByUserId: vi.fn(),
+  findByPlanId: vi.fn(),
+  findAll: vi.fn(),
+  updateStreak: vi.fn(),
+  createCompletion: vi.fn(),
+  deleteCompletion: vi.fn(),
+  findCompletionByDate: vi.fn(),
+  findCompletionDates: vi.fn()
+};
+
+const mockProfileRepository: IProfileRepository = {
+  getTimezone: vi.fn()
+};
+
+// Monday 2024-01-15 in UTC
+const NOW = new Date('2024-01-15T19:00:00Z');
+
+const habit = (id: string, title: string, days: number[]) =>
+  Habit.create({ id, userId: TEST_USER_ID, planId: PLAN_ID, title, schedule: { freq: 'custom', days } });
+
+describe('GetEveningReviewUseCase', () => {
+  let useCase: GetEveningReviewUseCase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useCase = new GetEveningReviewUseCase(mockCheckinRepository, mockHabitRepository, mockProfileRepository);
+    vi.mocked(mockProfileRepository.getTimezone).mockResolvedValue(Result.ok('UTC'));
+  });
+
+  it('reviews the morning intention and the habits due today', async () => {
+    const morning = Checkin.create({
+      userId: TEST_USER_ID,
+      date: new Date('2024-01-15'),
+      session: 'morning',
+      mood: 1,
+      intention: 'Pray every prayer on time'
+    });
+    vi.mocked(mockCheckinRepository.findByUserAndDate).mockResolvedValue(Result.ok(morning));
+    vi.mocked(mockHabitRepository.findByUserId).mockResolvedValue(Result.ok([
+      habit('550e8400-e29b-41d4-a716-446655440001', 'Read Quran', [1]),
+      habit('550e8400-e29b-41d4-a716-446655440002', 'Morning adhkar', [1, 3]),
+      habit('550e8400-e29b-41d4-a716-446655440003', 'Fast', [4])
+    ]));
+    vi.mocked(mockHabitRepository.findCompletionByDate).mockImplementation(async habitId =>
+      Result.ok(habitId.toString().endsWith('1'))
+    );
+
+    const result = await useCase.execute({ userId: TEST_USER_ID, now: NOW });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (!Result.isOk(result)) return;
+    const [, date, session] = vi.mocked(mockCheckinRepository.findByUserAndDate).mock.calls[0];
+    expect([date, session]).toEqual([new Date('2024-01-15'), 'morning']);
+    expect(result.value.morning).toEqual({ intention: 'Pray every prayer on time', mood: 1 });
+    expect(result.value.habits).toMatchObject({ scheduled: 2, completed: 1 });
+    expect(result.value.habits.items.map(item => item.title)).toEqual(['Read Quran', 'Morning adhkar']);
+    expect(result.value.prompts.slice(0, 2)).toEqual([
+      'This morning you intended: "Pray every prayer on time". How did it go?',
+      'What kept you from Morning adhkar today?'
+    ]);
+  });
+
+  it('falls back to the general prompts without a morning check-in or habits', async () => {
+    vi.mocked(mockCheckinRepository.findByUserAndDate).mockResolvedValue(Result.ok(null));
+    vi.mocked(mockHabitRepository.findByUserId).mockResolvedValue(Result.ok([]));
+
+    const result = await useCase.execute({ userId: TEST_USER_ID, now: NOW });
+
+    expect(Result.isOk(result) && result.value.morning).toBeNull();
+    expect(Result.isOk(result) && result.value.prompts[0]).toBe('What am I most grateful for today?');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GetGratitudeHistoryUseCase, findGratitudeThemes } from '@/application/usecases/GetGratitudeHistoryUseCase';
+import { ICheckinRepository, IProfileRepository } from '@/domain/repositories';
+import { Checkin } from '@/domain/entities/Checkin';
+import { Result } from '@/shared/result';
+
+const TEST_USER_ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+
+const mockCheckinRepository: ICheckinRepository = {
+  create: vi.fn(),
+  findById: vi.fn(),
+  findByUserAndDate: vi.fn(),
+  update: vi.fn(),
+  findByUser: vi.fn(),
+  countByUser: vi.fn(),
+  findAllByUser: vi.fn(),
+  findLatestByUser: vi.fn()
+};
+
+const mockProfileRepository: IProfileRepository = {
+  getTimezone: vi.fn()
+};
+
+const checkin = (date: string, gratitude: string[]) =>
+  Checkin.create({ userId: TEST_USER_ID, date: new Date(date), gratitude });
+
+describe('GetGratitudeHistoryUseCase', () => {
+  let useCase: GetGratitudeHistoryUseCase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useCase = new GetGratitudeHistoryUseCase(mockCheckinRepository, mockProfileRepository);
+    vi.mocked(mockProfileRepository.getTimezone).mockResolvedValue(Result.ok('Pacific/Kiritimati'));
+  });
+
+  it('defaults to the current month in the user\'s timezone', async () => {
+    vi.mocked(mockCheckinRepository.findByUser).mockResolvedValue(Result.ok([]));
+
+    // Still January in UTC, already February 1st in Kiritimati (UTC+14)
+    const result = await useCase.execute({ userId: TEST_USER_ID, now: new Date('2024-01-31T12:00:00Z') });
+
+    expect(Result.isOk(result) && result.value.from).toBe('2024-02-01');
+    const [, filters] = vi.mocked(mockCheckinRepository.findByUser).mock.calls[0];
+    expect(filters).toEqual({ from: new Date('2024-02-01'), to: new Date('2024-02-01') });
+  });
+
+  it('lists entries newest first and skips check-ins without gratitude', async () => {
+    vi.mocked(mockCheckinRepository.findByUser).mockResolvedValue(Result.ok([
+      checkin('2024-01-03', ['Time with my family']),
+      checkin('2024-01-05', ['Good health', 'My family\'s support']),
+      checkin('2024-01-04', [])
+    ]));
+
+    const result = await useCase.execute({ userId: TEST_USER_ID, from: '2024-01-01', to: '2024-01-31' });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (!Result.isOk(result)) return;
+    expect(result.value.entries.map(entry => entry.date)).toEqual(['2024-01-05', '2024-01-03']);
+    expect(result.value.totalItems).toBe(3);
+    expect(result.value.themes[0]).toEqual({ theme: 'family', count: 2, lastMentioned: '2024-01-05' });
+  });
+
+  it('fails when the check-ins cannot be loaded', async () => {
+    vi.mocked(mockCheckinRepository.findByUser).mockResolvedValue(Result.error(new Error('Database unavailable')));
+
+    const result = await useCase.execute({ userId: TEST_USER_ID });
+
+    expect(Result.isError(result)).toBe(true);
+  });
+});
+
+describe('findGratitudeThemes', () => {
+  it('ignores filler words and counts a word once per item', () => {
+    const themes = findGratitudeThemes([
+      { date: '2024-01-02', items: ['Grateful for the rain, the rain!', 'Health'] },
+      { date: '2024-01-01', items: ['health and family'] }
+    ], 2);
+
+    expect(themes).toEqual([
+      { theme: 'health', count: 2, lastMentioned: '2024-01-02' },
+      { theme: 'rain', count: 1, lastMentioned: '2024-01-02' }
+    ]);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GetPrayerTimesUseCase } from '@/application/usecases/GetPrayerTimesUseCase';
+import { IPrayerTimesRepository } from '@/domain/repositories/IPrayerTimesRepository';
+import { ICacheService } from '@/domain/services/ICacheService';
+import { IProfileRepository } from '@/domain/repositories/IProfileRepository';
+import { IUserPreferencesRepository } from '@/infrastructure/repos/UserPreferencesRepository';
+import { UserPreferencesEntity } from '@/domain/entities/UserPreferences';
+import { Result } from '@/shared/result';
+
+const TEST_USER_ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+const LONDON = { latitude: 51.5074, longitude: -0.1278, timezone: 'Europe/London' };
+const TEHRAN = { latitude: 35.6892, longitude: 51.389, timezone: 'Asia/Tehran' };
+const MIDSUMMER = new Date('2024-06-21T00:00:00Z');
+
+const mockPrayerTimesRepository = {
+  save: vi.fn(),
+  findByUserAndDate: vi.fn()
+} as unknown as IPrayerTimesRepository;
+
+const mockCacheService = {
+  get: vi.fn(),
+  set: vi.fn()
+} as unknown as ICacheService;
+
+const mockPreferencesRepository = {
+  getByUserId: vi.fn()
+} as unknown as IUserPreferencesRepository;
+
+const mockProfileRepository = {
+  getTimezone: vi.fn()
+} as unknown as IProfileRepository;
+
+function minutesBetween(later: Date, earlier: Date): number {
+  return Math.round((later.getTime() - earlier.getTime()) / 60000);
+}
+
+describe('GetPrayerTimesUseCase', () => {
+  let useCase: GetPrayerTimesUseCase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useCase = new GetPrayerTimesUseCase(
+      mockPrayerTimesRepository,
+      mockCacheService,
+      mockPreferencesRepository,
+      mockProfileRepository
+    );
+
+    vi.mocked(mockCacheService.get).mockResolvedValue(null);
+    vi.mocked(mockPrayerTimesRepository.findByUserAndDate).mockResolvedValue(null);
+    vi.mocked(mockPreferencesRepository.getByUserId).mockResolvedValue(Result.ok(null));
+    vi.mocked(mockProfileRepository.getTimezone).mockResolvedValue(Result.ok('UTC'));
+  });
+
+  async function calculate(input: Partial<Parameters<GetPrayerTimesUseCase['execute']>[0]> = {}) {
+    const result = await useCase.execute({ userId: TEST_USER_ID, ...LONDON, date: MIDSUMMER, ...input });
+    if (Result.isError(result)) throw result.error;
+    return result.value.prayerTimes;
+  }
+
+  it('should place Hanafi Asr after Shafi Asr', async () => {
+    const shafi = await calculate();
+    const hanafi = await calculate({ asrMadhab: 'Hanafi' });
+
+    expect(minutesBetween(hanafi.prayerTimes.asr, shafi.prayerTimes.asr)).toBeGreaterThan(30);
+    expect(hanafi.prayerTimes.dhuhr).toEqual(shafi.prayerTimes.dhuhr);
+  });
+
+  it('should bound Isha and Fajr above 48° latitude in summer', async () => {
+    const prayerTimes = await calculate();
+
+    expect(prayerTimes.calculationMethod.highLatitudeRule).toBeUndefined();
+    expect(Number.isNaN(prayerTimes.prayerTimes.isha.getTime())).toBe(false);
+    // Seventh of the night: Isha no later than a seventh of the night after Maghrib
+    expect(prayerTimes.prayerTimes.isha.toISOString() < '2024-06-21T22:00:00.000Z').toBe(true);
+  });
+
+  it('should add the per-prayer minute adjustments', async () => {
+    const plain = await calculate();
+    const adjusted = await calculate({ adjustments: { isha: 5, fajr: -3 } });
+
+    expect(minutesBetween(adjusted.prayerTimes.isha, plain.prayerTimes.isha)).toBe(5);
+    expect(minutesBetween(adjusted.prayerTimes.fajr, plain.prayerTimes.fajr)).toBe(-3);
+  });
+
+  it('should use the user\'s stored prayer settings', async () => {
+    const preferences = UserPreferencesEntity.createDefault(TEST_USER_ID);
+    preferences.updatePrayerSettings({ asrMadhab: 'Hanafi', adjustments: { maghrib: 2 } });
+    vi.mocked(mockPreferencesRepository.getByUserId).mockResolvedValue(Result.ok(preferences));
+
+    const prayerTimes = await calculate();
+
+    expect(prayerTimes.calculationMethod.asrMadhab).toBe('Hanafi');
+    expect(prayerTimes.calculationMethod.adjustments).toEqual({ maghrib: 2 });
+  });
+
+  it('should cache each combination of settings separately', async () => {
+    await calculate();
+    await calculate({ asrMadhab: 'Hanafi' });
+
+    const [plainKey, hanafiKey] = vi.mocked(mockCacheService.set).mock.calls.map(call => call[0]);
+    expect(plainKey).not.toBe(hanafiKey);
+    expect(hanafiKey).toContain('Hanafi');
+  });
+
+  it('should not reuse stored times calculated with other settings', async () => {
+    const shafi = await calculate();
+    vi.mocked(mockPrayerTimesRepository.findByUserAndDate).mockResolvedValue(shafi);
+
+    const hanafi = await calculate({ asrMadhab: 'Hanafi' });
+
+    expect(hanafi.prayerTimes.asr).not.toEqual(shafi.prayerTimes.asr);
+    expect(mockPrayerTimesRepository.save).toHaveBeenCalledTimes(2);
+  });
+
+  it('should calculate Jafari times with the Qum angles', async () => {
+    const mwl = await calculate({ ...TEHRAN });
+    const jafari = await calculate({ ...TEHRAN, calculationMethod: 'Jafari' });
+
+    expect(jafari.calculationMethod.method).toBe('Jafari');
+    // Fajr at 16° rather than 18°, and Maghrib once the sun is 4° below the horizon
+    expect(minutesBetween(jafari.prayerTimes.fajr, mwl.prayerTimes.fajr)).toBeGreaterThan(5);
+    expect(minutesBetween(jafari.prayerTimes.maghrib, mwl.prayerTimes.maghrib)).toBeGreaterThan(10);
+  });
+
+  it('should default to the saved location, method and profile timezone', async () => {
+    const preferences = UserPreferencesEntity.createDefault(TEST_USER_ID);
+    preferences.updateLocation({ lat: TEHRAN.latitude, lng: TEHRAN.longitude, city: 'Tehran', country: 'Iran' });
+    preferences.updatePrayerCalculationMethod('Jafari');
+    vi.mocked(mockPreferencesRepository.getByUserId).mockResolvedValue(Result.ok(preferences));
+    vi.mocked(mockProfileRepository.getTimezone).mockResolvedValue(Result.ok('Asia/Tehran'));
+
+    const result = await useCase.execute({ userId: TEST_USER_ID, date: MIDSUMMER });
+    if (Result.isError(result)) throw result.error;
+
+    const { location, calculationMethod } = result.value.prayerTimes;
+    expect(location.latitude).toBe(TEHRAN.latitude);
+    expect(location.city).toBe('Tehran');
+    expect(location.timezone).toBe('Asia/Tehran');
+    expect(calculationMethod.method).toBe('Jafari');
+  });
+
+  it('should require a location when none is saved', async () => {
+    const result = await useCase.execute({ userId: TEST_USER_ID, date: MIDSUMMER });
+
+    expect(Result.isError(result)).toBe(true);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GetPrayerTimetableUseCase } from '@/application/usecases/GetPrayerTimetableUseCase';
+import { GetPrayerTimesUseCase } from '@/application/usecases/GetPrayerTimesUseCase';
+import { GetPrayerTimesRangeUseCase } from '@/application/usecases/GetPrayerTimesRangeUseCase';
+import { IPrayerTimesRepository } from '@/domain/repositories/IPrayerTimesRepository';
+import { IProfileRepository } from '@/domain/repositories/IProfileRepository';
+import { ICacheService } from '@/domain/services/ICacheService';
+import { IUserPreferencesRepository } from '@/infrastructure/repos/UserPreferencesRepository';
+import { UserPreferencesEntity } from '@/domain/entities/UserPreferences';
+import { ValidationError } from '@/shared/errors';
+import { Result } from '@/shared/result';
+
+const TEST_USER_ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+
+const mockPrayerTimesRepository = {
+  save: vi.fn(),
+  findByUserAndDate: vi.fn()
+} as unknown as IPrayerTimesRepository;
+
+const mockCacheService = {
+  get: vi.fn(),
+  set: vi.fn()
+} as unknown as ICacheService;
+
+const mockPreferencesRepository = {
+  getByUserId: vi.fn()
+} as unknown as IUserPreferencesRepository;
+
+const mockProfileRepository = {
+  getTimezone: vi.fn()
+} as unknown as IProfileRepository;
+
+describe('GetPrayerTimetableUseCase', () => {
+  let useCase: GetPrayerTimetableUseCase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    const getPrayerTimesUseCase = new GetPrayerTimesUseCase(
+      mockPrayerTimesRepository,
+      mockCacheService,
+      mockPreferencesRepository,
+      mockProfileRepository
+    );
+    useCase = new GetPrayerTimetableUseCase(
+      mockProfileRepository,
+      mockPreferencesRepository,
+      new GetPrayerTimesRangeUseCase(mockPrayerTimesRepository, getPrayerTimesUseCase)
+    );
+
+    const preferences = UserPreferencesEntity.createDefault(TEST_USER_ID);
+    preferences.updateLocation({ lat: 21.4225, lng: 39.8262, city: 'Makkah', country: 'Saudi Arabia' });
+    preferences.updatePrayerCalculationMethod('UmmAlQura');
+
+    vi.mocked(mockCacheService.get).mockResolvedValue(null);
+    vi.mocked(mockPrayerTimesRepository.findByUserAndDate).mockResolvedValue(null);
+    vi.mocked(mockPreferencesRepository.getByUserId).mockResolvedValue(Result.ok(preferences));
+    vi.mocked(mockProfileRepository.getTimezone).mockResolvedValue(Result.ok('Asia/Riyadh'));
+  });
+
+  it('should cover every day of a 31-day month at the saved location', async () => {
+    const result = await useCase.execute({ userId: TEST_USER_ID, month: '2024-03' });
+    if (Result.isError(result)) throw result.error;
+
+    const { days, location, calculationMethod, timezone } = result.value;
+    expect(days).toHaveLength(31);
+    expect(days[0].date).toBe('2024-03-01');
+    expect(days[30].date).toBe('2024-03-31');
+    expect(location.city).toBe('Makkah');
+    expect(calculationMethod.method).toBe('UmmAlQura');
+    expect(timezone).toBe('Asia/Riyadh');
+  });
+
+  it('should date each day in the Hijri calendar', async () => {
+    const result = await useCase.execute({ userId: TEST_USER_ID, month: '2024-03' });
+    if (Result.isError(result)) throw result.error;
+
+    // 1 Ramadan 1445 fell on 11 March 2024
+    expect(result.value.days[10].hijri).toEqual({ year: 1445, month: 9, day: 1 });
+  });
+
+  it('should handle February in a leap year', async () => {
+    const result = await useCase.execute({ userId: TEST_USER_ID, month: '2024-02' });
+    if (Result.isError(result)) throw result.error;
+
+    expect(result.value.days).toHaveLength(29);
+  });
+
+  it('should require a saved location', async () => {
+    vi.mocked(mockPreferencesRepository.getByUserId)
+      .mockResolvedValue(Result.ok(UserPreferencesEntity.createDefault(TEST_USER_ID)));
+
+    const result = await useCase.execute({ userId: TEST_USER_ID, month: '2024-03' });
+
+    expect(Result.isError(result) && result.error).toBeInstanceOf(ValidationError);
+  });
+});
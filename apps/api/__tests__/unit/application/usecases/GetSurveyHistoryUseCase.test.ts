@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { v4 as uuidv4 } from 'uuid';
+import { GetSurveyHistoryUseCase, compareSurveyResults } from '@/application/usecases/GetSurveyHistoryUseCase';
+import { ISurveyRepository } from '@/domain/repositories/ISurveyRepository';
+import { SurveyResult, Disease, LikertScore } from '@/domain/entities/SurveyResult';
+import { Result } from '@/shared/result';
+
+const TEST_USER_ID = uuidv4();
+
+const BASE_SCORES: Record<Disease, LikertScore> = {
+  envy: 4, arrogance: 3, selfDeception: 2, lust: 2, anger: 5, malice: 1,
+  backbiting: 3, suspicion: 2, loveOfDunya: 4, laziness: 3, despair: 1
+};
+
+const mockSurveyRepository = {
+  getSurveyResultHistory: vi.fn()
+} as any as ISurveyRepository;
+
+const attempt = (attemptNumber: number, scores: Partial<Record<Disease, LikertScore>>, generatedAt: string) =>
+  SurveyResult.create({
+    userId: TEST_USER_ID,
+    attemptNumber,
+    diseaseScores: { ...BASE_SCORES, ...scores },
+    reflectionAnswers: {
+      strongestStruggle: 'Holding back anger with my family',
+      dailyHabit: 'Dhikr after every prayer'
+    },
+    personalizedHabits: [],
+    tazkiyahPlan: { criticalDiseases: [], planType: 'takhliyah', phases: [], expectedDuration: '40 days', milestones: [] },
+    generatedAt: new Date(generatedAt)
+  });
+
+describe('GetSurveyHistoryUseCase', () => {
+  let useCase: GetSurveyHistoryUseCase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useCase = new GetSurveyHistoryUseCase(mockSurveyRepository);
+  });
+
+  it('compares the latest attempt with the one before it by default', async () => {
+    vi.mocked(mockSurveyRepository.getSurveyResultHistory).mockResolvedValue(Result.ok([
+      attempt(1, {}, '2024-01-01T10:00:00Z'),
+      attempt(2, { envy: 2 }, '2024-02-10T10:00:00Z'),
+      attempt(3, { envy: 2, anger: 3, laziness: 4 }, '2024-03-21T10:00:00Z')
+    ]));
+
+    const result = await useCase.execute({ userId: TEST_USER_ID });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (!Result.isOk(result)) return;
+    expect(result.value.attempts.map(a => a.attemptNumber)).toEqual([1, 2, 3]);
+    expect(result.value.comparison).toMatchObject({
+      fromAttempt: 2,
+      toAttempt: 3,
+      daysBetween: 40,
+      improved: ['anger'],
+      worsened: ['laziness']
+    });
+  });
+
+  it('compares the requested attempts', async () => {
+    vi.mocked(mockSurveyRepository.getSurveyResultHistory).mockResolvedValue(Result.ok([
+      attempt(1, {}, '2024-01-01T10:00:00Z'),
+      attempt(2, { envy: 2 }, '2024-02-10T10:00:00Z'),
+      attempt(3, { envy: 3 }, '2024-03-21T10:00:00Z')
+    ]));
+
+    const result = await useCase.execute({ userId: TEST_USER_ID, fromAttempt: 1, toAttempt: 2 });
+
+    expect(Result.isOk(result) && result.value.comparison?.deltas.find(d => d.disease === 'envy'))
+      .toEqual({ disease: 'envy', previous: 4, current: 2, delta: -2 });
+  });
+
+  it('has nothing to compare after a single attempt', async () => {
+    vi.mocked(mockSurveyRepository.getSurveyResultHistory).mockResolvedValue(Result.ok([
+      attempt(1, {}, '2024-01-01T10:00:00Z')
+    ]));
+
+    const result = await useCase.execute({ userId: TEST_USER_ID });
+
+    expect(Result.isOk(result) && result.value.comparison).toBeNull();
+  });
+
+  it('fails when a requested attempt does not exist', async () => {
+    vi.mocked(mockSurveyRepository.getSurveyResultHistory).mockResolvedValue(Result.ok([
+      attempt(1, {}, '2024-01-01T10:00:00Z')
+    ]));
+
+    const result = await useCase.execute({ userId: TEST_USER_ID, fromAttempt: 1, toAttempt: 4 });
+
+    expect(Result.isError(result)).toBe(true);
+  });
+});
+
+describe('compareSurveyResults', () => {
+  it('reports unchanged diseases with a zero delta', () => {
+    const comparison = compareSurveyResults(
+      attempt(1, {}, '2024-01-01T10:00:00Z'),
+      attempt(2, {}, '2024-01-01T10:00:00Z')
+    );
+
+    expect(comparison.deltas).toHaveLength(11);
+    expect(comparison.deltas.every(delta => delta.delta === 0)).toBe(true);
+    expect(comparison.improved).toEqual([]);
+    expect(comparison.worsened).toEqual([]);
+  });
+});
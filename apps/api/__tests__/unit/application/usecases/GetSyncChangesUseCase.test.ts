@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { GetSyncChangesUseCase, generateSyncToken, parseSyncToken } from '@/application/usecases/sync';
+import { ISyncRepository, SyncChangeRecord } from '@/domain/repositories/ISyncRepository';
+import { DevelopmentDatabaseClient } from '@/infrastructure/database/sqlite/development';
+import { SyncRepositoryAdapter } from '@/infrastructure/repos/SyncRepositoryAdapter';
+import { Result } from '@/shared/result';
+
+const TEST_USER_ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+const OTHER_USER_ID = '9b2f3c1e-8f4a-4d6b-9c2e-1a2b3c4d5e6f';
+const TEST_HABIT_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const TEST_JOURNAL_ID = '3d6f4a2b-1c5e-4f7a-8b9c-0d1e2f3a4b5c';
+
+const SINCE = new Date('2024-01-15T10:00:00.000Z');
+const UNTIL = new Date('2024-01-15T12:00:00.000Z');
+
+const mockSyncRepository: ISyncRepository = {
+  recordOperation: vi.fn(),
+  findOperation: vi.fn(),
+  findLatestAppliedForEntity: vi.fn(),
+  saveConflict: vi.fn(),
+  findConflictById: vi.fn(),
+  findPendingConflicts: vi.fn(),
+  markConflictResolved: vi.fn(),
+  recordDeviceSync: vi.fn(),
+  findDevices: vi.fn(),
+  findChanges: vi.fn(),
+  findTombstones: vi.fn(),
+  findEntityUpdatedAt: vi.fn()
+};
+
+function buildChange(overrides: Partial<SyncChangeRecord> = {}): SyncChangeRecord {
+  return {
+    entity: 'habit',
+    entityId: TEST_HABIT_ID,
+    data: { id: TEST_HABIT_ID, title: 'Pray Fajr on time', streakCount: 3 },
+    createdAt: new Date('2024-01-15T11:00:00.000Z'),
+    updatedAt: new Date('2024-01-15T11:00:00.000Z'),
+    ...overrides
+  };
+}
+
+describe('GetSyncChangesUseCase', () => {
+  let useCase: GetSyncChangesUseCase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useCase = new GetSyncChangesUseCase(mockSyncRepository);
+
+    vi.mocked(mockSyncRepository.findChanges).mockResolvedValue(Result.ok([]));
+    vi.mocked(mockSyncRepository.findTombstones).mockResolvedValue(Result.ok([]));
+  });
+
+  it('splits changes into created and updated relative to the since token', async () => {
+    vi.mocked(mockSyncRepository.findChanges).mockImplementation(async (_userId, entity) =>
+      Result.ok(entity === 'habit'
+        ? [
+            buildChange(),
+            buildChange({
+              entityId: 'older-habit',
+              data: { id: 'older-habit', title: 'Read Quran' },
+              createdAt: new Date('2024-01-10T08:00:00.000Z')
+            })
+          ]
+        : [])
+    );
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      since: generateSyncToken(TEST_USER_ID, SINCE),
+      until: generateSyncToken(TEST_USER_ID, UNTIL)
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.changes.habits.created).toEqual([
+        { id: TEST_HABIT_ID, title: 'Pray Fajr on time', streakCount: 3, updatedAt: '2024-01-15T11:00:00.000Z' }
+      ]);
+      expect(result.value.changes.habits.updated.map(habit => habit.id)).toEqual(['older-habit']);
+      expect(result.value.changes.dhikrSessions).toEqual({ created: [], updated: [] });
+      expect(result.value.hasMore).toBe(false);
+    }
+
+    expect(mockSyncRepository.findChanges).toHaveBeenCalledWith(
+      expect.anything(),
+      'habit',
+      { since: SINCE, until: UNTIL, limit: 101, after: null }
+    );
+  });
+
+  it('reports everything as created on a full pull', async () => {
+    vi.mocked(mockSyncRepository.findChanges).mockImplementation(async (_userId, entity) =>
+      Result.ok(entity === 'journal'
+        ? [buildChange({ entity: 'journal', entityId: TEST_JOURNAL_ID, data: { id: TEST_JOURNAL_ID } })]
+        : [])
+    );
+
+    const result = await useCase.execute({ userId: TEST_USER_ID });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.changes.journals.created).toHaveLength(1);
+      expect(result.value.changes.journals.updated).toHaveLength(0);
+      expect(parseSyncToken(result.value.nextSyncToken, TEST_USER_ID)).toBeInstanceOf(Date);
+    }
+
+    const window = vi.mocked(mockSyncRepository.findChanges).mock.calls[0][2];
+    expect(window.since).toBeNull();
+  });
+
+  it('returns tombstones for deleted entities', async () => {
+    vi.mocked(mockSyncRepository.findTombstones).mockResolvedValue(Result.ok([
+      { id: 'tombstone-1', entity: 'journal', entityId: TEST_JOURNAL_ID, deletedAt: new Date('2024-01-15T11:30:00.000Z') }
+    ]));
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      since: generateSyncToken(TEST_USER_ID, SINCE)
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.deleted).toEqual([
+        { entity: 'journal', entityId: TEST_JOURNAL_ID, deletedAt: '2024-01-15T11:30:00.000Z' }
+      ]);
+    }
+  });
+
+  it('pages with a fixed upper bound and continues each stream after its last row', async () => {
+    vi.mocked(mockSyncRepository.findChanges).mockImplementation(async (_userId, entity) =>
+      Result.ok(entity === 'checkin'
+        ? [
+            buildChange({ entity: 'checkin', entityId: 'c1', data: { id: 'c1' } }),
+            buildChange({ entity: 'checkin', entityId: 'c2', data: { id: 'c2' } }),
+            buildChange({ entity: 'checkin', entityId: 'c3', data: { id: 'c3' } })
+          ]
+        : [])
+    );
+
+    const until = generateSyncToken(TEST_USER_ID, UNTIL);
+    const first = await useCase.execute({ userId: TEST_USER_ID, until, limit: 2 });
+
+    expect(Result.isOk(first)).toBe(true);
+    if (!Result.isOk(first)) return;
+    expect(first.value.changes.checkins.created.map(checkin => checkin.id)).toEqual(['c1', 'c2']);
+    expect(first.value.hasMore).toBe(true);
+    expect(first.value.page).toBe(1);
+    expect(first.value.nextSyncToken).toBe(until);
+
+    vi.mocked(mockSyncRepository.findChanges).mockClear();
+    const second = await useCase.execute({ userId: TEST_USER_ID, until, cursor: first.value.nextCursor!, limit: 2 });
+
+    expect(Result.isOk(second) && second.value.page).toBe(2);
+    expect(mockSyncRepository.findChanges).toHaveBeenCalledWith(
+      expect.anything(),
+      'checkin',
+      { since: null, until: UNTIL, limit: 3, after: { changedAt: new Date('2024-01-15T11:00:00.000Z'), id: 'c2' } }
+    );
+    expect(mockSyncRepository.findChanges).toHaveBeenCalledWith(
+      expect.anything(),
+      'habit',
+      { since: null, until: UNTIL, limit: 3, after: null }
+    );
+  });
+
+  it('returns no cursor on the last page', async () => {
+    const result = await useCase.execute({ userId: TEST_USER_ID });
+
+    expect(Result.isOk(result) && result.value.nextCursor).toBeNull();
+  });
+
+  it('rejects a malformed page cursor', async () => {
+    const result = await useCase.execute({ userId: TEST_USER_ID, cursor: 'not-a-cursor' });
+
+    expect(Result.isError(result)).toBe(true);
+    if (Result.isError(result)) {
+      expect(result.error.message).toBe('Invalid page cursor');
+    }
+    expect(mockSyncRepository.findChanges).not.toHaveBeenCalled();
+  });
+
+  it('rejects a token issued to another user', async () => {
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      since: generateSyncToken(OTHER_USER_ID, SINCE)
+    });
+
+    expect(Result.isError(result)).toBe(true);
+    if (Result.isError(result)) {
+      expect(result.error.message).toBe('Invalid sync token');
+    }
+    expect(mockSyncRepository.findChanges).not.toHaveBeenCalled();
+  });
+
+  it('rejects a malformed token', async () => {
+    const result = await useCase.execute({ userId: TEST_USER_ID, since: 'not-a-token' });
+
+    expect(Result.isError(result)).toBe(true);
+  });
+});
+
+describe('GetSyncChangesUseCase (SQLite)', () => {
+  const originalPath = process.env.DATABASE_PATH;
+  let directory: string;
+  let db: DevelopmentDatabaseClient;
+  let useCase: GetSyncChangesUseCase;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'sync-changes-'));
+    process.env.DATABASE_PATH = relative(process.cwd(), join(directory, 'test.sqlite'));
+    db = new DevelopmentDatabaseClient();
+    useCase = new GetSyncChangesUseCase(new SyncRepositoryAdapter(db));
+  });
+
+  afterAll(() => {
+    process.env.DATABASE_PATH = originalPath;
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('does not skip rows when a row of an earlier page is updated between pages', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await db.createUser({ id: TEST_USER_ID });
+    const journalIds: string[] = [];
+    for (const [minute, content] of ['After Fajr', 'After Dhuhr', 'After Asr'].entries()) {
+      vi.setSystemTime(new Date(`2024-01-15T10:0${minute}:00.000Z`));
+      const journal = await db.createJournalEntry({ userId: TEST_USER_ID, content });
+      journalIds.push(journal.data!.id);
+    }
+
+    vi.setSystemTime(new Date('2024-01-15T11:00:00.000Z'));
+    const pulledIds: string[] = [];
+    let page = await useCase.execute({ userId: TEST_USER_ID, limit: 1 });
+    expect(Result.isOk(page)).toBe(true);
+    if (!Result.isOk(page)) return;
+    pulledIds.push(...page.value.changes.journals.created.map(journal => journal.id));
+    const until = page.value.nextSyncToken;
+
+    // The first journal is edited while the device is still paging
+    vi.setSystemTime(new Date('2024-01-15T11:30:00.000Z'));
+    await db.updateJournal(journalIds[0], TEST_USER_ID, { content: 'After Fajr, edited' });
+
+    while (page.value.hasMore) {
+      page = await useCase.execute({ userId: TEST_USER_ID, until, cursor: page.value.nextCursor!, limit: 1 });
+      expect(Result.isOk(page)).toBe(true);
+      if (!Result.isOk(page)) return;
+      pulledIds.push(...page.value.changes.journals.created.map(journal => journal.id));
+    }
+
+    expect(pulledIds).toEqual(journalIds);
+
+    // The edit arrives with the next pull
+    const next = await useCase.execute({ userId: TEST_USER_ID, since: until });
+    expect(Result.isOk(next) && next.value.changes.journals.updated.map(journal => journal.id)).toEqual([journalIds[0]]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { JoinCircleUseCase } from '@/application/usecases/circles/JoinCircleUseCase';
+import { ICircleRepository } from '@/domain/repositories/ICircleRepository';
+import { Circle } from '@/domain/entities/Circle';
+import { Result } from '@/shared/result';
+import { NotFoundError, ValidationError } from '@/shared/errors';
+
+const CREATOR_ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+const JOINER_ID = '6ba7b814-9dad-41d1-80b4-00c04fd430c8';
+const CIRCLE_ID = '3d6f4a2b-1c5e-4f7a-8b9c-0d1e2f3a4b5c';
+
+const mockCircleRepository: ICircleRepository = {
+  create: vi.fn(),
+  findById: vi.fn(),
+  findByInviteCode: vi.fn(),
+  findByUserId: vi.fn(),
+  update: vi.fn(),
+  addMember: vi.fn(),
+  removeMember: vi.fn(),
+  createEncouragement: vi.fn(),
+  findEncouragements: vi.fn(),
+  getProgress: vi.fn()
+};
+
+function buildCircle(members: { userId: string; role: 'creator' | 'member' }[]): Circle {
+  return Circle.create({
+    id: CIRCLE_ID,
+    name: 'Fajr Companions',
+    creatorId: CREATOR_ID,
+    maxMembers: 3,
+    inviteCode: 'ABCD2345',
+    members
+  });
+}
+
+describe('JoinCircleUseCase', () => {
+  let useCase: JoinCircleUseCase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useCase = new JoinCircleUseCase(mockCircleRepository);
+
+    vi.mocked(mockCircleRepository.addMember).mockResolvedValue(Result.ok(undefined));
+  });
+
+  it('joins by invite code regardless of case', async () => {
+    vi.mocked(mockCircleRepository.findByInviteCode).mockResolvedValue(
+      Result.ok(buildCircle([{ userId: CREATOR_ID, role: 'creator' }]))
+    );
+    vi.mocked(mockCircleRepository.findById).mockResolvedValue(Result.ok(buildCircle([
+      { userId: CREATOR_ID, role: 'creator' },
+      { userId: JOINER_ID, role: 'member' }
+    ])));
+
+    const result = await useCase.execute({ userId: JOINER_ID, inviteCode: ' abcd2345 ' });
+
+    expect(Result.isOk(result)).toBe(true);
+    expect(mockCircleRepository.findByInviteCode).toHaveBeenCalledWith('ABCD2345');
+    const [, member] = vi.mocked(mockCircleRepository.addMember).mock.calls[0];
+    expect(member.userId.toString()).toBe(JOINER_ID);
+    expect(member.role).toBe('member');
+  });
+
+  it('reports unknown invite codes as not found', async () => {
+    vi.mocked(mockCircleRepository.findByInviteCode).mockResolvedValue(Result.ok(null));
+
+    const result = await useCase.execute({ userId: JOINER_ID, inviteCode: 'NOPE2345' });
+
+    expect(Result.isError(result)).toBe(true);
+    if (Result.isError(result)) {
+      expect(result.error).toBeInstanceOf(NotFoundError);
+    }
+  });
+
+  it('refuses to join a full circle', async () => {
+    vi.mocked(mockCircleRepository.findByInviteCode).mockResolvedValue(Result.ok(buildCircle([
+      { userId: CREATOR_ID, role: 'creator' },
+      { userId: '7c9e6679-7425-40de-944b-e07fc1f90ae7', role: 'member' },
+      { userId: '3d6f4a2b-1c5e-4f7a-8b9c-0d1e2f3a4b5d', role: 'member' }
+    ])));
+
+    const result = await useCase.execute({ userId: JOINER_ID, inviteCode: 'ABCD2345' });
+
+    expect(Result.isError(result)).toBe(true);
+    if (Result.isError(result)) {
+      expect(result.error).toBeInstanceOf(ValidationError);
+    }
+    expect(mockCircleRepository.addMember).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LogCheckinUseCase } from '@/application/usecases/LogCheckinUseCase';
+import { ICheckinRepository, IProfileRepository } from '@/domain/repositories';
+import { Checkin } from '@/domain/entities/Checkin';
+import { Result } from '@/shared/result';
+
+const TEST_USER_ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+
+const mockCheckinRepository: ICheckinRepository = {
+  create: vi.fn(),
+  findById: vi.fn(),
+  findByUserAndDate: vi.fn(),
+  update: vi.fn(),
+  findByUser: vi.fn(),
+  countByUser: vi.fn(),
+  findAllByUser: vi.fn(),
+  findLatestByUser: vi.fn()
+};
+
+const mockProfileRepository: IProfileRepository = {
+  getTimezone: vi.fn()
+};
+
+describe('LogCheckinUseCase', () => {
+  let useCase: LogCheckinUseCase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Monday 2024-01-15 20:00 UTC: Tuesday morning in Kiritimati (UTC+14),
+    // Monday morning in Pago Pago (UTC-11)
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T20:00:00Z'));
+
+    useCase = new LogCheckinUseCase(mockCheckinRepository, mockProfileRepository);
+
+    vi.mocked(mockCheckinRepository.findByUserAndDate).mockResolvedValue(Result.ok(null));
+    vi.mocked(mockCheckinRepository.create).mockImplementation(async checkin => Result.ok(checkin));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('logs the check-in on the next calendar day east of the date line', async () => {
+    vi.mocked(mockProfileRepository.getTimezone).mockResolvedValue(Result.ok('Pacific/Kiritimati'));
+
+    const result = await useCase.execute({ userId: TEST_USER_ID, mood: 1 });
+
+    expect(Result.isOk(result)).toBe(true);
+    const saved = vi.mocked(mockCheckinRepository.create).mock.calls[0][0] as Checkin;
+    expect(saved.date.toISOString().split('T')[0]).toBe('2024-01-16');
+  });
+
+  it('logs the check-in on the previous calendar day west of the date line', async () => {
+    vi.mocked(mockProfileRepository.getTimezone).mockResolvedValue(Result.ok('Pacific/Pago_Pago'));
+
+    await useCase.execute({ userId: TEST_USER_ID, mood: 1 });
+
+    const saved = vi.mocked(mockCheckinRepository.create).mock.calls[0][0] as Checkin;
+    expect(saved.date.toISOString().split('T')[0]).toBe('2024-01-15');
+  });
+
+  it('looks up today\'s check-ins in the user\'s timezone', async () => {
+    vi.mocked(mockProfileRepository.getTimezone).mockResolvedValue(Result.ok('Pacific/Kiritimati'));
+
+    await useCase.getToday(TEST_USER_ID);
+
+    const calls = vi.mocked(mockCheckinRepository.findByUserAndDate).mock.calls;
+    expect(calls.map(([, date, session]) => [date, session])).toEqual([
+      [new Date('2024-01-16'), 'morning'],
+      [new Date('2024-01-16'), 'evening']
+    ]);
+  });
+
+  it('keeps the morning intention and the evening muhasabah apart', async () => {
+    vi.mocked(mockProfileRepository.getTimezone).mockResolvedValue(Result.ok('UTC'));
+
+    await useCase.execute({ userId: TEST_USER_ID, intention: 'Guard my tongue' });
+    await useCase.execute({ userId: TEST_USER_ID, reflection: 'Mostly did', gratitude: ['Rain'] });
+
+    const [morning, evening] = vi.mocked(mockCheckinRepository.create).mock.calls.map(([checkin]) => checkin);
+    expect(morning.session).toBe('morning');
+    expect(morning.intention).toBe('Guard my tongue');
+    expect(evening.session).toBe('evening');
+    expect(evening.gratitude).toEqual(['Rain']);
+  });
+
+  it('rejects evening fields on the morning check-in', async () => {
+    vi.mocked(mockProfileRepository.getTimezone).mockResolvedValue(Result.ok('UTC'));
+
+    const result = await useCase.execute({ userId: TEST_USER_ID, session: 'morning', reflection: 'Too early' });
+
+    expect(Result.isError(result)).toBe(true);
+    expect(mockCheckinRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('fails when the profile cannot be loaded', async () => {
+    vi.mocked(mockProfileRepository.getTimezone).mockResolvedValue(Result.error(new Error('Database unavailable')));
+
+    const result = await useCase.execute({ userId: TEST_USER_ID, mood: 1 });
+
+    expect(Result.isError(result)).toBe(true);
+    expect(mockCheckinRepository.create).not.toHaveBeenCalled();
+  });
+});
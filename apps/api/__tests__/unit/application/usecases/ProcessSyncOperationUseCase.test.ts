@@ -0,0 +1,889 @@
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { ProcessSyncOperationUseCase, SyncOperation } from '@/application/usecases/sync';
+import { ToggleHabitUseCase } from '@/application/usecases/ToggleHabitUseCase';
+import { ManageJournalUseCase } from '@/application/usecases/ManageJournalUseCase';
+import { LogCheckinUseCase } from '@/application/usecases/LogCheckinUseCase';
+import {
+  CreateIntentionUseCase,
+  UpdateIntentionUseCase,
+  CompleteIntentionUseCase,
+  ArchiveIntentionUseCase
+} from '@/application/usecases/intentions';
+import {
+  CreateDhikrSessionUseCase,
+  IncrementDhikrCountUseCase,
+  CompleteDhikrSessionUseCase
+} from '@/application/usecases/dhikr';
+import { IHabitRepository } from '@/domain/repositories/IHabitRepository';
+import { IJournalRepository } from '@/domain/repositories/IJournalRepository';
+import { ICheckinRepository } from '@/domain/repositories/ICheckinRepository';
+import { ISyncRepository } from '@/domain/repositories/ISyncRepository';
+import { IIntentionRepository } from '@/domain/repositories/IIntentionRepository';
+import { IDhikrRepository } from '@/domain/repositories/IDhikrRepository';
+import { IPlanRepository } from '@/domain/repositories/IPlanRepository';
+import { IProfileRepository } from '@/domain/repositories/IProfileRepository';
+import { IUserPreferencesRepository, UserPreferencesRepository } from '@/infrastructure/repos/UserPreferencesRepository';
+import { DevelopmentDatabaseClient } from '@/infrastructure/database/sqlite/development';
+import { HabitRepositoryAdapter } from '@/infrastructure/repos/HabitRepositoryAdapter';
+import { SyncRepositoryAdapter } from '@/infrastructure/repos/SyncRepositoryAdapter';
+import { ProfileRepositoryAdapter } from '@/infrastructure/repos/ProfileRepositoryAdapter';
+import { Habit } from '@/domain/entities/Habit';
+import { JournalEntry } from '@/domain/entities/JournalEntry';
+import { Checkin } from '@/domain/entities/Checkin';
+import { Intention } from '@/domain/entities/Intention';
+import { DhikrSession } from '@/domain/entities/DhikrSession';
+import { Plan } from '@/domain/entities/Plan';
+import { IEventBus } from '@/domain/events/IEventBus';
+import { PlanCompletedEvent } from '@/domain/events/PlanEvents';
+import { Result } from '@/shared/result';
+
+const TEST_USER_ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+const TEST_HABIT_ID = '550e8400-e29b-41d4-a716-446655440000';
+const TEST_PLAN_ID = '6ba7b814-9dad-41d1-80b4-00c04fd430c8';
+const TEST_JOURNAL_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const TEST_INTENTION_ID = '3d6f4a2b-1c5e-4f7a-8b9c-0d1e2f3a4b5c';
+const TEST_SESSION_ID = '9b2f3c1e-8f4a-4d6b-9c2e-1a2b3c4d5e6f';
+
+const mockHabitRepository: IHabitRepository = {
+  create: vi.fn(),
+  findById: vi.fn(),
+  findByUserId: vi.fn(),
+  findByPlanId: vi.fn(),
+  findAll: vi.fn(),
+  updateStreak: vi.fn(),
+  createCompletion: vi.fn(),
+  deleteCompletion: vi.fn(),
+  findCompletionByDate: vi.fn(),
+  findCompletionDates: vi.fn()
+};
+
+const mockJournalRepository: IJournalRepository = {
+  create: vi.fn(),
+  findById: vi.fn(),
+  findByUserId: vi.fn(),
+  search: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn()
+};
+
+const mockCheckinRepository: ICheckinRepository = {
+  create: vi.fn(),
+  findById: vi.fn(),
+  findByUserAndDate: vi.fn(),
+  update: vi.fn(),
+  findByUser: vi.fn(),
+  countByUser: vi.fn(),
+  findAllByUser: vi.fn(),
+  findLatestByUser: vi.fn()
+};
+
+const mockSyncRepository: ISyncRepository = {
+  recordOperation: vi.fn(),
+  findOperation: vi.fn(),
+  findLatestAppliedForEntity: vi.fn(),
+  saveConflict: vi.fn(),
+  findConflictById: vi.fn(),
+  findPendingConflicts: vi.fn(),
+  markConflictResolved: vi.fn(),
+  recordDeviceSync: vi.fn(),
+  findDevices: vi.fn(),
+  findChanges: vi.fn(),
+  findTombstones: vi.fn(),
+  findEntityUpdatedAt: vi.fn()
+};
+
+const mockIntentionRepository = { findById: vi.fn() } as unknown as IIntentionRepository;
+const mockDhikrRepository = {
+  getDhikrSessionById: vi.fn(),
+  getDhikrSessionsByDate: vi.fn()
+} as unknown as IDhikrRepository;
+const mockPlanRepository: IPlanRepository = {
+  create: vi.fn(),
+  findById: vi.fn(),
+  findByUserId: vi.fn(),
+  updateStatus: vi.fn()
+};
+const mockProfileRepository: IProfileRepository = { getTimezone: vi.fn() };
+const mockPreferencesRepository = { getByUserId: vi.fn() } as unknown as IUserPreferencesRepository;
+const mockEventBus = { publish: vi.fn(), publishEvents: vi.fn() } as unknown as IEventBus;
+
+const mockToggleHabit = { execute: vi.fn() } as unknown as ToggleHabitUseCase;
+const mockManageJournal = { createEntry: vi.fn(), deleteEntry: vi.fn() } as unknown as ManageJournalUseCase;
+const mockLogCheckin = { execute: vi.fn() } as unknown as LogCheckinUseCase;
+const mockCreateIntention = { execute: vi.fn() } as unknown as CreateIntentionUseCase;
+const mockUpdateIntention = { execute: vi.fn() } as unknown as UpdateIntentionUseCase;
+const mockCompleteIntention = { execute: vi.fn() } as unknown as CompleteIntentionUseCase;
+const mockArchiveIntention = { execute: vi.fn() } as unknown as ArchiveIntentionUseCase;
+const mockCreateDhikrSession = { execute: vi.fn() } as unknown as CreateDhikrSessionUseCase;
+const mockIncrementDhikrCount = { execute: vi.fn() } as unknown as IncrementDhikrCountUseCase;
+const mockCompleteDhikrSession = { execute: vi.fn() } as unknown as CompleteDhikrSessionUseCase;
+
+function buildSession(overrides: { count?: number; sessionEnd?: Date } = {}): DhikrSession {
+  return DhikrSession.create({
+    id: TEST_SESSION_ID,
+    userId: TEST_USER_ID,
+    dhikrType: 'subhanallah',
+    dhikrText: 'سبحان الله',
+    targetCount: 33,
+    date: '2024-01-15',
+    ...overrides
+  });
+}
+
+function buildOperation(overrides: Partial<SyncOperation>): SyncOperation {
+  return {
+    id: 'op-1',
+    type: 'journal-create',
+    entity: 'journal',
+    operation: 'create',
+    data: {},
+    clientTimestamp: '2024-01-15T10:00:00.000Z',
+    retryCount: 0,
+    ...overrides
+  };
+}
+
+describe('ProcessSyncOperationUseCase', () => {
+  let useCase: ProcessSyncOperationUseCase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    useCase = new ProcessSyncOperationUseCase(
+      mockHabitRepository,
+      mockJournalRepository,
+      mockCheckinRepository,
+      mockSyncRepository,
+      mockToggleHabit,
+      mockManageJournal,
+      mockLogCheckin,
+      mockIntentionRepository,
+      mockDhikrRepository,
+      mockPlanRepository,
+      mockCreateIntention,
+      mockUpdateIntention,
+      mockCompleteIntention,
+      mockArchiveIntention,
+      mockCreateDhikrSession,
+      mockIncrementDhikrCount,
+      mockCompleteDhikrSession,
+      mockProfileRepository,
+      mockPreferencesRepository,
+      mockEventBus
+    );
+
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T12:30:00.000Z'));
+
+    vi.mocked(mockProfileRepository.getTimezone).mockResolvedValue(Result.ok('UTC'));
+    vi.mocked(mockPreferencesRepository.getByUserId).mockResolvedValue(Result.ok(null));
+
+    vi.mocked(mockSyncRepository.findOperation).mockResolvedValue(Result.ok(null));
+    vi.mocked(mockSyncRepository.findLatestAppliedForEntity).mockResolvedValue(Result.ok(null));
+    vi.mocked(mockSyncRepository.findEntityUpdatedAt).mockResolvedValue(Result.ok(null));
+    vi.mocked(mockSyncRepository.recordOperation).mockImplementation(async (record) =>
+      Result.ok({ ...record, processedAt: new Date() })
+    );
+    vi.mocked(mockSyncRepository.saveConflict).mockImplementation(async (conflict) =>
+      Result.ok({ ...conflict, resolution: null, resolvedData: null, createdAt: new Date(), resolvedAt: null })
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replays the stored result when the operation was already processed', async () => {
+    const stored = {
+      success: true,
+      operationId: 'op-1',
+      serverTimestamp: '2024-01-15T10:00:05.000Z',
+      entityId: TEST_JOURNAL_ID
+    };
+    vi.mocked(mockSyncRepository.findOperation).mockResolvedValue(Result.ok({
+      operationId: 'op-1',
+      userId: TEST_USER_ID,
+      deviceId: 'device-1',
+      type: 'journal-create',
+      entity: 'journal',
+      entityId: TEST_JOURNAL_ID,
+      status: 'applied',
+      result: stored,
+      clientTimestamp: new Date('2024-01-15T10:00:00.000Z'),
+      processedAt: new Date('2024-01-15T10:00:05.000Z')
+    }));
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      operation: buildOperation({ data: { content: 'Alhamdulillah' } })
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value).toEqual({ ...stored, replayed: true });
+    }
+    expect(mockManageJournal.createEntry).not.toHaveBeenCalled();
+    expect(mockSyncRepository.recordOperation).not.toHaveBeenCalled();
+  });
+
+  it('creates a journal entry and records the operation', async () => {
+    const entry = JournalEntry.create({
+      id: TEST_JOURNAL_ID,
+      userId: TEST_USER_ID,
+      content: 'Alhamdulillah',
+      tags: ['gratitude']
+    });
+    vi.mocked(mockManageJournal.createEntry).mockResolvedValue(Result.ok(entry));
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      deviceId: 'device-1',
+      operation: buildOperation({ data: { content: 'Alhamdulillah', tags: ['gratitude'] } })
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.success).toBe(true);
+      expect(result.value.entityId).toBe(TEST_JOURNAL_ID);
+    }
+    expect(mockSyncRepository.recordOperation).toHaveBeenCalledWith(expect.objectContaining({
+      operationId: 'op-1',
+      deviceId: 'device-1',
+      entityId: TEST_JOURNAL_ID,
+      status: 'applied'
+    }));
+  });
+
+  it('returns a timestamp conflict when the habit changed after the client toggle', async () => {
+    const habit = Habit.create({
+      id: TEST_HABIT_ID,
+      userId: TEST_USER_ID,
+      planId: TEST_PLAN_ID,
+      title: 'Morning Dhikr',
+      schedule: { freq: 'daily' }
+    });
+    vi.mocked(mockHabitRepository.findById).mockResolvedValue(Result.ok(habit));
+    vi.mocked(mockHabitRepository.findCompletionByDate).mockResolvedValue(Result.ok(true));
+    vi.mocked(mockSyncRepository.findLatestAppliedForEntity).mockResolvedValue(Result.ok({
+      operationId: 'op-0',
+      userId: TEST_USER_ID,
+      deviceId: 'device-2',
+      type: 'habit-toggle',
+      entity: 'habit',
+      entityId: TEST_HABIT_ID,
+      status: 'applied',
+      result: {},
+      clientTimestamp: new Date('2024-01-15T11:00:00.000Z'),
+      processedAt: new Date('2024-01-15T11:00:01.000Z')
+    }));
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      deviceId: 'device-1',
+      operation: buildOperation({
+        type: 'habit-toggle',
+        entity: 'habit',
+        operation: 'update',
+        data: { habitId: TEST_HABIT_ID, completed: false }
+      })
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.success).toBe(false);
+      expect(result.value.conflict).toMatchObject({
+        entity: 'habit',
+        conflictType: 'timestamp',
+        clientData: { habitId: TEST_HABIT_ID, completed: false },
+        serverData: { id: TEST_HABIT_ID, completed: true },
+        clientTimestamp: '2024-01-15T10:00:00.000Z',
+        serverTimestamp: '2024-01-15T11:00:00.000Z',
+        metadata: { deviceId: 'device-1', operationId: 'op-1' }
+      });
+    }
+    expect(mockToggleHabit.execute).not.toHaveBeenCalled();
+    expect(mockSyncRepository.saveConflict).toHaveBeenCalledWith(expect.objectContaining({
+      deviceId: 'device-1',
+      operationId: 'op-1',
+      operationType: 'habit-toggle',
+      entityId: TEST_HABIT_ID,
+      conflictType: 'timestamp'
+    }));
+    expect(mockSyncRepository.recordOperation).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'conflict' })
+    );
+  });
+
+  it('treats a toggle to the current habit state as applied without re-toggling', async () => {
+    const habit = Habit.create({
+      id: TEST_HABIT_ID,
+      userId: TEST_USER_ID,
+      planId: TEST_PLAN_ID,
+      title: 'Morning Dhikr',
+      schedule: { freq: 'daily' }
+    });
+    vi.mocked(mockHabitRepository.findById).mockResolvedValue(Result.ok(habit));
+    vi.mocked(mockHabitRepository.findCompletionByDate).mockResolvedValue(Result.ok(true));
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      operation: buildOperation({
+        type: 'habit-toggle',
+        entity: 'habit',
+        operation: 'update',
+        data: { habitId: TEST_HABIT_ID, completed: true }
+      })
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.success).toBe(true);
+    }
+    expect(mockToggleHabit.execute).not.toHaveBeenCalled();
+  });
+
+  it('toggles a habit on the day it was ticked off in the user\'s timezone', async () => {
+    const habit = Habit.create({
+      id: TEST_HABIT_ID,
+      userId: TEST_USER_ID,
+      planId: TEST_PLAN_ID,
+      title: 'Witr before sleeping',
+      schedule: { freq: 'daily' }
+    });
+    vi.mocked(mockProfileRepository.getTimezone).mockResolvedValue(Result.ok('America/New_York'));
+    vi.mocked(mockHabitRepository.findById).mockResolvedValue(Result.ok(habit));
+    vi.mocked(mockHabitRepository.findCompletionByDate).mockResolvedValue(Result.ok(false));
+    vi.mocked(mockToggleHabit.execute).mockResolvedValue(Result.ok(undefined));
+
+    // 22:00 on the 14th in New York, synced the next day
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      operation: buildOperation({
+        type: 'habit-toggle',
+        entity: 'habit',
+        operation: 'update',
+        data: { habitId: TEST_HABIT_ID, completed: true },
+        clientTimestamp: '2024-01-15T03:00:00.000Z'
+      })
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    expect(mockHabitRepository.findCompletionByDate).toHaveBeenCalledWith(
+      habit.id,
+      expect.anything(),
+      new Date('2024-01-14T00:00:00.000Z')
+    );
+    expect(mockToggleHabit.execute).toHaveBeenCalledWith({
+      habitId: TEST_HABIT_ID,
+      userId: TEST_USER_ID,
+      completed: true,
+      toggledAt: new Date('2024-01-15T03:00:00.000Z')
+    });
+  });
+
+  it('rejects a habit toggle queued before the grace window', async () => {
+    vi.mocked(mockHabitRepository.findById).mockResolvedValue(Result.ok(Habit.create({
+      id: TEST_HABIT_ID,
+      userId: TEST_USER_ID,
+      planId: TEST_PLAN_ID,
+      title: 'Morning Dhikr',
+      schedule: { freq: 'daily' }
+    })));
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      operation: buildOperation({
+        type: 'habit-toggle',
+        entity: 'habit',
+        operation: 'update',
+        data: { habitId: TEST_HABIT_ID, completed: true },
+        clientTimestamp: '2024-01-12T10:00:00.000Z'
+      })
+    });
+
+    expect(Result.isError(result)).toBe(true);
+    if (Result.isError(result)) {
+      expect(result.error.message).toBe('Habits can only be recorded or undone up to 1 day(s) back');
+    }
+    expect(mockToggleHabit.execute).not.toHaveBeenCalled();
+  });
+
+  it('logs a check-in on the day it was made in the user\'s timezone', async () => {
+    const checkin = Checkin.create({ userId: TEST_USER_ID, date: new Date('2024-01-14T00:00:00.000Z'), mood: 1 });
+    vi.mocked(mockProfileRepository.getTimezone).mockResolvedValue(Result.ok('America/New_York'));
+    vi.mocked(mockCheckinRepository.findByUserAndDate).mockResolvedValue(Result.ok(null));
+    vi.mocked(mockLogCheckin.execute).mockResolvedValue(Result.ok(checkin));
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      operation: buildOperation({
+        type: 'checkin-create',
+        entity: 'checkin',
+        data: { mood: 1, reflection: 'Prayed isha on time' },
+        clientTimestamp: '2024-01-15T03:00:00.000Z'
+      })
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    expect(mockCheckinRepository.findByUserAndDate).toHaveBeenCalledWith(
+      expect.anything(),
+      new Date('2024-01-14T00:00:00.000Z'),
+      'evening'
+    );
+    expect(mockLogCheckin.execute).toHaveBeenCalledWith(
+      expect.objectContaining({ date: new Date('2024-01-14T00:00:00.000Z') })
+    );
+  });
+
+  it('returns a data conflict when a newer server checkin disagrees with the client', async () => {
+    const existing = Checkin.create({
+      userId: TEST_USER_ID,
+      date: new Date(),
+      mood: 2,
+      intention: 'Pray on time',
+      createdAt: new Date('2024-01-15T12:00:00.000Z')
+    });
+    vi.mocked(mockCheckinRepository.findByUserAndDate).mockResolvedValue(Result.ok(existing));
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      operation: buildOperation({
+        type: 'checkin-create',
+        entity: 'checkin',
+        data: { mood: -1 }
+      })
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.conflict).toMatchObject({
+        entity: 'checkin',
+        conflictType: 'data',
+        serverData: { mood: 2, intention: 'Pray on time' },
+        serverTimestamp: '2024-01-15T12:00:00.000Z'
+      });
+    }
+    expect(mockLogCheckin.execute).not.toHaveBeenCalled();
+  });
+
+  it('applies a forced operation even when the server copy is newer', async () => {
+    const existing = Checkin.create({
+      userId: TEST_USER_ID,
+      date: new Date(),
+      mood: 2,
+      createdAt: new Date('2024-01-15T12:00:00.000Z')
+    });
+    vi.mocked(mockCheckinRepository.findByUserAndDate).mockResolvedValue(Result.ok(existing));
+    vi.mocked(mockLogCheckin.execute).mockResolvedValue(Result.ok(existing));
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      force: true,
+      operation: buildOperation({
+        type: 'checkin-create',
+        entity: 'checkin',
+        data: { mood: -1 }
+      })
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.conflict).toBeUndefined();
+    }
+    expect(mockLogCheckin.execute).toHaveBeenCalledWith(expect.objectContaining({ mood: -1 }));
+    expect(mockSyncRepository.saveConflict).not.toHaveBeenCalled();
+  });
+
+  it('returns a timestamp conflict when the entity was written on the server after the client change', async () => {
+    vi.mocked(mockJournalRepository.findById).mockResolvedValue(Result.ok(
+      JournalEntry.create({ id: TEST_JOURNAL_ID, userId: TEST_USER_ID, content: 'Edited on the web' })
+    ));
+    vi.mocked(mockSyncRepository.findEntityUpdatedAt).mockResolvedValue(
+      Result.ok(new Date('2024-01-15T11:30:00.000Z'))
+    );
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      operation: buildOperation({
+        type: 'journal-delete',
+        operation: 'delete',
+        data: { entryId: TEST_JOURNAL_ID }
+      })
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.conflict).toMatchObject({
+        conflictType: 'timestamp',
+        serverData: { content: 'Edited on the web' },
+        serverTimestamp: '2024-01-15T11:30:00.000Z'
+      });
+    }
+    expect(mockSyncRepository.findEntityUpdatedAt).toHaveBeenCalledWith(expect.anything(), 'journal', TEST_JOURNAL_ID);
+    expect(mockManageJournal.deleteEntry).not.toHaveBeenCalled();
+  });
+
+  it('does not record failed operations so they can be retried', async () => {
+    vi.mocked(mockJournalRepository.findById).mockResolvedValue(Result.ok(
+      JournalEntry.create({ id: TEST_JOURNAL_ID, userId: TEST_USER_ID, content: 'Entry' })
+    ));
+    vi.mocked(mockManageJournal.deleteEntry).mockResolvedValue(Result.error(new Error('Unauthorized')));
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      operation: buildOperation({
+        type: 'journal-delete',
+        operation: 'delete',
+        data: { entryId: TEST_JOURNAL_ID }
+      })
+    });
+
+    expect(Result.isError(result)).toBe(true);
+    expect(mockSyncRepository.recordOperation).not.toHaveBeenCalled();
+  });
+
+  it('adds dhikr increments as deltas stamped with the client time', async () => {
+    vi.mocked(mockIncrementDhikrCount.execute).mockResolvedValue(Result.ok(buildSession({ count: 45 })));
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      deviceId: 'phone',
+      operation: buildOperation({
+        type: 'dhikr-increment',
+        entity: 'dhikr',
+        operation: 'update',
+        data: { sessionId: TEST_SESSION_ID, increment: 12 }
+      })
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.success).toBe(true);
+      expect(result.value.data?.count).toBe(45);
+    }
+
+    expect(mockIncrementDhikrCount.execute).toHaveBeenCalledWith({
+      sessionId: TEST_SESSION_ID,
+      userId: TEST_USER_ID,
+      increment: 12,
+      countedAt: new Date('2024-01-15T10:00:00.000Z')
+    });
+  });
+
+  it('resolves a session created offline through its create operation id', async () => {
+    vi.mocked(mockSyncRepository.findOperation).mockImplementation(async (_userId, operationId) =>
+      Result.ok(operationId === 'op-create'
+        ? {
+            operationId,
+            userId: TEST_USER_ID,
+            deviceId: 'phone',
+            type: 'dhikr-create',
+            entity: 'dhikr' as const,
+            entityId: TEST_SESSION_ID,
+            status: 'applied' as const,
+            result: {},
+            clientTimestamp: new Date('2024-01-15T09:00:00.000Z'),
+            processedAt: new Date()
+          }
+        : null)
+    );
+    vi.mocked(mockIncrementDhikrCount.execute).mockResolvedValue(Result.ok(buildSession({ count: 5 })));
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      operation: buildOperation({
+        type: 'dhikr-increment',
+        entity: 'dhikr',
+        operation: 'update',
+        data: { createOperationId: 'op-create', increment: 5 }
+      })
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    expect(mockIncrementDhikrCount.execute).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: TEST_SESSION_ID, increment: 5 })
+    );
+  });
+
+  it('fails an operation whose create operation has not been applied yet', async () => {
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      operation: buildOperation({
+        type: 'dhikr-complete',
+        entity: 'dhikr',
+        operation: 'update',
+        data: { createOperationId: 'op-missing' }
+      })
+    });
+
+    expect(Result.isError(result)).toBe(true);
+    if (Result.isError(result)) {
+      expect(result.error.message).toBe('Create operation op-missing has not been applied');
+    }
+    expect(mockSyncRepository.recordOperation).not.toHaveBeenCalled();
+  });
+
+  it('merges a dhikr session created on two devices into the active one', async () => {
+    vi.mocked(mockDhikrRepository.getDhikrSessionsByDate).mockResolvedValue(Result.ok([buildSession({ count: 20 })]));
+    vi.mocked(mockIncrementDhikrCount.execute).mockResolvedValue(Result.ok(buildSession({ count: 30 })));
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      operation: buildOperation({
+        type: 'dhikr-create',
+        entity: 'dhikr',
+        operation: 'create',
+        data: { dhikrType: 'subhanallah', dhikrText: 'سبحان الله', date: '2024-01-15', count: 10 }
+      })
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.entityId).toBe(TEST_SESSION_ID);
+      expect(result.value.data?.count).toBe(30);
+    }
+
+    expect(mockCreateDhikrSession.execute).not.toHaveBeenCalled();
+    expect(mockIncrementDhikrCount.execute).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: TEST_SESSION_ID, increment: 10 })
+    );
+  });
+
+  it('dates a dhikr session without a date by the client\'s day in the user\'s timezone', async () => {
+    vi.mocked(mockProfileRepository.getTimezone).mockResolvedValue(Result.ok('Asia/Karachi'));
+    vi.mocked(mockDhikrRepository.getDhikrSessionsByDate).mockResolvedValue(Result.ok([]));
+    vi.mocked(mockCreateDhikrSession.execute).mockResolvedValue(Result.ok(buildSession()));
+
+    // 01:30 on the 15th in Karachi, still the 14th in UTC
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      operation: buildOperation({
+        type: 'dhikr-create',
+        entity: 'dhikr',
+        operation: 'create',
+        data: { dhikrType: 'subhanallah', dhikrText: 'سبحان الله', targetCount: 33 },
+        clientTimestamp: '2024-01-14T20:30:00.000Z'
+      })
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    expect(mockDhikrRepository.getDhikrSessionsByDate).toHaveBeenCalledWith(expect.anything(), '2024-01-15');
+    expect(mockCreateDhikrSession.execute).toHaveBeenCalledWith(expect.objectContaining({ date: '2024-01-15' }));
+  });
+
+  it('treats completing an already completed intention as applied', async () => {
+    const intention = Intention.create({
+      id: TEST_INTENTION_ID,
+      userId: TEST_USER_ID,
+      text: 'Pray tahajjud',
+      status: 'completed',
+      completedAt: new Date('2024-01-15T08:00:00.000Z')
+    });
+    vi.mocked(mockIntentionRepository.findById).mockResolvedValue(Result.ok(intention));
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      operation: buildOperation({
+        type: 'intention-complete',
+        entity: 'intention',
+        operation: 'update',
+        data: { intentionId: TEST_INTENTION_ID }
+      })
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.success).toBe(true);
+      expect(result.value.data?.status).toBe('completed');
+    }
+    expect(mockCompleteIntention.execute).not.toHaveBeenCalled();
+  });
+
+  it('returns a data conflict when the intention was edited on the server after the client', async () => {
+    const intention = Intention.create({
+      id: TEST_INTENTION_ID,
+      userId: TEST_USER_ID,
+      text: 'Read Surah Al-Kahf on Friday',
+      updatedAt: new Date('2024-01-15T11:00:00.000Z')
+    });
+    vi.mocked(mockIntentionRepository.findById).mockResolvedValue(Result.ok(intention));
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      operation: buildOperation({
+        type: 'intention-update',
+        entity: 'intention',
+        operation: 'update',
+        data: { intentionId: TEST_INTENTION_ID, text: 'Read Surah Al-Mulk nightly' }
+      })
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.success).toBe(false);
+      expect(result.value.conflict?.conflictType).toBe('data');
+      expect(result.value.conflict?.serverTimestamp).toBe('2024-01-15T11:00:00.000Z');
+    }
+    expect(mockUpdateIntention.execute).not.toHaveBeenCalled();
+  });
+
+  it('activates a plan queued offline', async () => {
+    const plan = Plan.create({
+      id: TEST_PLAN_ID,
+      userId: TEST_USER_ID,
+      kind: 'tahliyah',
+      target: 'patience',
+      microHabits: [],
+      status: 'archived'
+    });
+    vi.mocked(mockPlanRepository.findById).mockResolvedValue(Result.ok(plan));
+    vi.mocked(mockPlanRepository.updateStatus).mockResolvedValue(Result.ok(Plan.create({
+      id: TEST_PLAN_ID,
+      userId: TEST_USER_ID,
+      kind: 'tahliyah',
+      target: 'patience',
+      microHabits: [],
+      status: 'active'
+    })));
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      operation: buildOperation({
+        type: 'plan-activate',
+        entity: 'plan',
+        operation: 'update',
+        data: { planId: TEST_PLAN_ID }
+      })
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.data?.status).toBe('active');
+    }
+    expect(mockPlanRepository.updateStatus).toHaveBeenCalledWith(expect.anything(), 'active');
+    expect(mockEventBus.publish).not.toHaveBeenCalled();
+  });
+
+  it('completes a plan archived offline', async () => {
+    const plan = Plan.create({
+      id: TEST_PLAN_ID,
+      userId: TEST_USER_ID,
+      kind: 'tahliyah',
+      target: 'patience',
+      microHabits: []
+    });
+    vi.mocked(mockPlanRepository.findById).mockResolvedValue(Result.ok(plan));
+    vi.mocked(mockPlanRepository.updateStatus).mockResolvedValue(Result.ok(Plan.create({
+      id: TEST_PLAN_ID,
+      userId: TEST_USER_ID,
+      kind: 'tahliyah',
+      target: 'patience',
+      microHabits: [],
+      status: 'archived'
+    })));
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      operation: buildOperation({
+        type: 'plan-deactivate',
+        entity: 'plan',
+        operation: 'update',
+        data: { planId: TEST_PLAN_ID }
+      })
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    expect(mockEventBus.publish).toHaveBeenCalledWith(expect.any(PlanCompletedEvent));
+    expect(vi.mocked(mockEventBus.publish).mock.calls[0][0]).toMatchObject({ planId: TEST_PLAN_ID, userId: TEST_USER_ID });
+  });
+});
+
+describe('ProcessSyncOperationUseCase with the SQLite client', () => {
+  const originalPath = process.env.DATABASE_PATH;
+  let directory: string;
+  let db: DevelopmentDatabaseClient;
+  let useCase: ProcessSyncOperationUseCase;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'sync-operations-'));
+    process.env.DATABASE_PATH = relative(process.cwd(), join(directory, 'test.sqlite'));
+    db = new DevelopmentDatabaseClient();
+
+    const habitRepository = new HabitRepositoryAdapter(db);
+    const profileRepository = new ProfileRepositoryAdapter(db);
+    const unused = {} as any;
+
+    useCase = new ProcessSyncOperationUseCase(
+      habitRepository,
+      unused,
+      unused,
+      new SyncRepositoryAdapter(db),
+      new ToggleHabitUseCase(habitRepository, profileRepository, mockEventBus),
+      unused,
+      unused,
+      unused,
+      unused,
+      unused,
+      unused,
+      unused,
+      unused,
+      unused,
+      unused,
+      unused,
+      unused,
+      profileRepository,
+      new UserPreferencesRepository(db),
+      mockEventBus
+    );
+  });
+
+  afterAll(() => {
+    process.env.DATABASE_PATH = originalPath;
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('applies two toggles of the same habit queued in one offline batch', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-15T08:00:00.000Z'));
+    await db.createUser({ id: TEST_USER_ID });
+    const plan = await db.createPlan({ userId: TEST_USER_ID, kind: 'tahliyah', target: 'patience', microHabits: [] });
+    const habit = await db.createHabit({
+      userId: TEST_USER_ID,
+      planId: plan.data!.id,
+      title: 'Morning Dhikr',
+      schedule: { freq: 'daily' }
+    });
+    const habitId = habit.data!.id;
+
+    // Both toggles were made offline and reach the server together an hour later
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+    const toggle = (id: string, completed: boolean, clientTimestamp: string) => useCase.execute({
+      userId: TEST_USER_ID,
+      deviceId: 'phone',
+      operation: buildOperation({
+        id,
+        type: 'habit-toggle',
+        entity: 'habit',
+        operation: 'update',
+        data: { habitId, completed },
+        clientTimestamp
+      })
+    });
+
+    const first = await toggle('op-complete', true, '2024-01-15T09:00:00.000Z');
+    const second = await toggle('op-undo', false, '2024-01-15T09:01:00.000Z');
+
+    expect(Result.isOk(first) && first.value.success).toBe(true);
+    expect(Result.isOk(second) && second.value.conflict).toBeUndefined();
+    expect(Result.isOk(second) && second.value.success).toBe(true);
+    const completions = await db.getHabitCompletionsByHabit(habitId);
+    expect(completions.data).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RecalculateHabitStreaksUseCase } from '@/application/usecases/RecalculateHabitStreaksUseCase';
+import { IHabitRepository } from '@/domain/repositories/IHabitRepository';
+import { Habit } from '@/domain/entities/Habit';
+import { Result } from '@/shared/result';
+
+const TEST_USER_ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+const TEST_PLAN_ID = '6ba7b814-9dad-41d1-80b4-00c04fd430c8';
+const FASTING_HABIT_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const DAILY_HABIT_ID = '3d6f4a2b-1c5e-4f7a-8b9c-0d1e2f3a4b5c';
+
+const mockHabitRepository: IHabitRepository = {
+  create: vi.fn(),
+  findById: vi.fn(),
+  findByUserId: vi.fn(),
+  findByPlanId: vi.fn(),
+  findAll: vi.fn(),
+  updateStreak: vi.fn(),
+  createCompletion: vi.fn(),
+  deleteCompletion: vi.fn(),
+  findCompletionByDate: vi.fn(),
+  findCompletionDates: vi.fn()
+};
+
+function buildHabits(): Habit[] {
+  return [
+    Habit.create({
+      id: FASTING_HABIT_ID,
+      userId: TEST_USER_ID,
+      planId: TEST_PLAN_ID,
+      title: 'Fast on Mondays and Thursdays',
+      schedule: { freq: 'weekly', days: [1, 4] },
+      streakCount: 1,
+      lastCompletedOn: new Date('2024-01-18')
+    }),
+    Habit.create({
+      id: DAILY_HABIT_ID,
+      userId: TEST_USER_ID,
+      planId: TEST_PLAN_ID,
+      title: 'Pray Fajr on time',
+      schedule: { freq: 'daily' },
+      streakCount: 2,
+      lastCompletedOn: new Date('2024-01-18')
+    })
+  ];
+}
+
+describe('RecalculateHabitStreaksUseCase', () => {
+  let useCase: RecalculateHabitStreaksUseCase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useCase = new RecalculateHabitStreaksUseCase(mockHabitRepository);
+
+    vi.mocked(mockHabitRepository.findCompletionDates).mockImplementation(async habitId =>
+      Result.ok(habitId.toString() === FASTING_HABIT_ID
+        ? [new Date('2024-01-11'), new Date('2024-01-15'), new Date('2024-01-18')]
+        : [new Date('2024-01-17'), new Date('2024-01-18')])
+    );
+    vi.mocked(mockHabitRepository.updateStreak).mockImplementation(async habit => Result.ok(habit));
+  });
+
+  it('back-fills schedule-aware streaks for every habit', async () => {
+    vi.mocked(mockHabitRepository.findAll).mockResolvedValue(Result.ok(buildHabits()));
+
+    const result = await useCase.execute();
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value).toEqual({ habitsChecked: 2, habitsUpdated: 1 });
+    }
+
+    expect(mockHabitRepository.updateStreak).toHaveBeenCalledTimes(1);
+    const saved = vi.mocked(mockHabitRepository.updateStreak).mock.calls[0][0];
+    expect(saved.id.toString()).toBe(FASTING_HABIT_ID);
+    expect(saved.streakCount).toBe(3);
+  });
+
+  it('only recalculates the given user\'s habits', async () => {
+    vi.mocked(mockHabitRepository.findByUserId).mockResolvedValue(Result.ok(buildHabits()));
+
+    await useCase.execute({ userId: TEST_USER_ID });
+
+    expect(mockHabitRepository.findByUserId).toHaveBeenCalledTimes(1);
+    expect(mockHabitRepository.findAll).not.toHaveBeenCalled();
+  });
+
+  it('stops when completions cannot be loaded', async () => {
+    vi.mocked(mockHabitRepository.findAll).mockResolvedValue(Result.ok(buildHabits()));
+    vi.mocked(mockHabitRepository.findCompletionDates).mockResolvedValue(Result.error(new Error('Database unavailable')));
+
+    const result = await useCase.execute();
+
+    expect(Result.isError(result)).toBe(true);
+    expect(mockHabitRepository.updateStreak).not.toHaveBeenCalled();
+  });
+});
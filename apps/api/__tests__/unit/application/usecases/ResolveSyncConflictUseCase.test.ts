@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ResolveSyncConflictUseCase, ProcessSyncOperationUseCase } from '@/application/usecases/sync';
+import { ManageJournalUseCase } from '@/application/usecases/ManageJournalUseCase';
+import { ISyncRepository, SyncConflictRecord } from '@/domain/repositories/ISyncRepository';
+import { JournalEntry } from '@/domain/entities/JournalEntry';
+import { Result } from '@/shared/result';
+
+const TEST_USER_ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+const TEST_CONFLICT_ID = '9b2f3c1e-8f4a-4d6b-9c2e-1a2b3c4d5e6f';
+const TEST_JOURNAL_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+const mockSyncRepository: ISyncRepository = {
+  recordOperation: vi.fn(),
+  findOperation: vi.fn(),
+  findLatestAppliedForEntity: vi.fn(),
+  saveConflict: vi.fn(),
+  findConflictById: vi.fn(),
+  findPendingConflicts: vi.fn(),
+  markConflictResolved: vi.fn(),
+  recordDeviceSync: vi.fn(),
+  findDevices: vi.fn(),
+  findChanges: vi.fn(),
+  findTombstones: vi.fn(),
+  findEntityUpdatedAt: vi.fn()
+};
+
+const mockProcessSyncOperation = { execute: vi.fn() } as unknown as ProcessSyncOperationUseCase;
+const mockManageJournal = { updateEntry: vi.fn() } as unknown as ManageJournalUseCase;
+
+function buildConflict(overrides: Partial<SyncConflictRecord> = {}): SyncConflictRecord {
+  return {
+    id: TEST_CONFLICT_ID,
+    userId: TEST_USER_ID,
+    deviceId: 'device-1',
+    operationId: 'op-1',
+    operationType: 'checkin-create',
+    entity: 'checkin',
+    entityId: null,
+    conflictType: 'data',
+    clientData: { mood: -1, intention: 'Read Quran' },
+    serverData: { mood: 2, intention: 'Pray on time' },
+    clientTimestamp: new Date('2024-01-15T10:00:00.000Z'),
+    serverTimestamp: new Date('2024-01-15T12:00:00.000Z'),
+    resolution: null,
+    resolvedData: null,
+    createdAt: new Date('2024-01-15T12:30:00.000Z'),
+    resolvedAt: null,
+    ...overrides
+  };
+}
+
+describe('ResolveSyncConflictUseCase', () => {
+  let useCase: ResolveSyncConflictUseCase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    useCase = new ResolveSyncConflictUseCase(
+      mockSyncRepository,
+      mockProcessSyncOperation,
+      mockManageJournal
+    );
+
+    vi.mocked(mockSyncRepository.markConflictResolved).mockImplementation(
+      async (_id, _userId, resolution, resolvedData) =>
+        Result.ok(buildConflict({
+          resolution,
+          resolvedData: resolvedData || null,
+          resolvedAt: new Date('2024-01-15T13:00:00.000Z')
+        }))
+    );
+    vi.mocked(mockProcessSyncOperation.execute).mockResolvedValue(Result.ok({
+      success: true,
+      operationId: `resolve-${TEST_CONFLICT_ID}`,
+      serverTimestamp: '2024-01-15T13:00:00.000Z'
+    }));
+  });
+
+  it('keeps the server copy without re-applying anything', async () => {
+    vi.mocked(mockSyncRepository.findConflictById).mockResolvedValue(Result.ok(buildConflict()));
+
+    const result = await useCase.execute({
+      conflictId: TEST_CONFLICT_ID,
+      userId: TEST_USER_ID,
+      resolution: 'server'
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.appliedData).toEqual({ mood: 2, intention: 'Pray on time' });
+    }
+    expect(mockProcessSyncOperation.execute).not.toHaveBeenCalled();
+    expect(mockSyncRepository.markConflictResolved).toHaveBeenCalledWith(
+      TEST_CONFLICT_ID,
+      expect.anything(),
+      'server',
+      { mood: 2, intention: 'Pray on time' }
+    );
+  });
+
+  it('forces the client operation through when the client wins', async () => {
+    vi.mocked(mockSyncRepository.findConflictById).mockResolvedValue(Result.ok(buildConflict()));
+
+    const result = await useCase.execute({
+      conflictId: TEST_CONFLICT_ID,
+      userId: TEST_USER_ID,
+      resolution: 'client'
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    expect(mockProcessSyncOperation.execute).toHaveBeenCalledWith(expect.objectContaining({
+      userId: TEST_USER_ID,
+      deviceId: 'device-1',
+      force: true,
+      operation: expect.objectContaining({
+        id: `resolve-${TEST_CONFLICT_ID}`,
+        type: 'checkin-create',
+        data: { mood: -1, intention: 'Read Quran' },
+        clientTimestamp: '2024-01-15T10:00:00.000Z'
+      })
+    }));
+  });
+
+  it('applies merged data on top of the client snapshot', async () => {
+    vi.mocked(mockSyncRepository.findConflictById).mockResolvedValue(Result.ok(buildConflict()));
+
+    const result = await useCase.execute({
+      conflictId: TEST_CONFLICT_ID,
+      userId: TEST_USER_ID,
+      resolution: 'merge',
+      mergedData: { intention: 'Pray on time' }
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.appliedData).toEqual({ mood: -1, intention: 'Pray on time' });
+    }
+  });
+
+  it('keeps a journal entry with the merged content when merging a delete', async () => {
+    vi.mocked(mockSyncRepository.findConflictById).mockResolvedValue(Result.ok(buildConflict({
+      operationType: 'journal-delete',
+      entity: 'journal',
+      entityId: TEST_JOURNAL_ID,
+      clientData: { entryId: TEST_JOURNAL_ID },
+      serverData: { id: TEST_JOURNAL_ID, content: 'Edited elsewhere' }
+    })));
+    vi.mocked(mockManageJournal.updateEntry).mockResolvedValue(Result.ok(
+      JournalEntry.create({ id: TEST_JOURNAL_ID, userId: TEST_USER_ID, content: 'Merged' })
+    ));
+
+    const result = await useCase.execute({
+      conflictId: TEST_CONFLICT_ID,
+      userId: TEST_USER_ID,
+      resolution: 'merge',
+      mergedData: { content: 'Merged' }
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    expect(mockManageJournal.updateEntry).toHaveBeenCalledWith(expect.objectContaining({
+      id: TEST_JOURNAL_ID,
+      content: 'Merged'
+    }));
+    expect(mockProcessSyncOperation.execute).not.toHaveBeenCalled();
+  });
+
+  it('rejects merging a delete conflict that has no journal entry id', async () => {
+    vi.mocked(mockSyncRepository.findConflictById).mockResolvedValue(Result.ok(buildConflict({
+      operationType: 'journal-delete',
+      entity: 'journal',
+      entityId: null
+    })));
+
+    const result = await useCase.execute({
+      conflictId: TEST_CONFLICT_ID,
+      userId: TEST_USER_ID,
+      resolution: 'merge',
+      mergedData: { content: 'Merged' }
+    });
+
+    expect(Result.isError(result)).toBe(true);
+    if (Result.isError(result)) {
+      expect(result.error.message).toBe('Sync conflict has no journal entry to merge into');
+    }
+    expect(mockManageJournal.updateEntry).not.toHaveBeenCalled();
+    expect(mockSyncRepository.markConflictResolved).not.toHaveBeenCalled();
+  });
+
+  it('rejects conflicts that were already resolved', async () => {
+    vi.mocked(mockSyncRepository.findConflictById).mockResolvedValue(Result.ok(buildConflict({
+      resolution: 'server',
+      resolvedAt: new Date('2024-01-15T13:00:00.000Z')
+    })));
+
+    const result = await useCase.execute({
+      conflictId: TEST_CONFLICT_ID,
+      userId: TEST_USER_ID,
+      resolution: 'client'
+    });
+
+    expect(Result.isError(result)).toBe(true);
+    if (Result.isError(result)) {
+      expect(result.error.message).toBe('Sync conflict already resolved');
+    }
+  });
+
+  it('does not mark the conflict resolved when applying the data fails', async () => {
+    vi.mocked(mockSyncRepository.findConflictById).mockResolvedValue(Result.ok(buildConflict()));
+    vi.mocked(mockProcessSyncOperation.execute).mockResolvedValue(Result.error(new Error('Database error')));
+
+    const result = await useCase.execute({
+      conflictId: TEST_CONFLICT_ID,
+      userId: TEST_USER_ID,
+      resolution: 'client'
+    });
+
+    expect(Result.isError(result)).toBe(true);
+    expect(mockSyncRepository.markConflictResolved).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { v4 as uuidv4 } from 'uuid';
+import { StartSurveyRetakeUseCase } from '@/application/usecases/StartSurveyRetakeUseCase';
+import { ISurveyRepository } from '@/domain/repositories/ISurveyRepository';
+import { SurveyProgress } from '@/domain/entities/SurveyProgress';
+import { Result } from '@/shared/result';
+import { ErrorCode } from '@/shared/errors';
+
+const TEST_USER_ID = uuidv4();
+
+const mockSurveyRepository = {
+  getSurveyProgress: vi.fn(),
+  getSurveyResult: vi.fn(),
+  updateSurveyProgress: vi.fn()
+} as any as ISurveyRepository;
+
+const completedProgress = () => SurveyProgress.create({
+  userId: TEST_USER_ID,
+  currentPhase: 4,
+  phase1Completed: true,
+  phase2Completed: true,
+  reflectionCompleted: true,
+  resultsGenerated: true,
+  startedAt: new Date('2024-01-01T10:00:00Z')
+});
+
+describe('StartSurveyRetakeUseCase', () => {
+  let useCase: StartSurveyRetakeUseCase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useCase = new StartSurveyRetakeUseCase(mockSurveyRepository);
+    vi.mocked(mockSurveyRepository.getSurveyResult).mockResolvedValue(Result.ok(null));
+    vi.mocked(mockSurveyRepository.updateSurveyProgress).mockImplementation(async progress => Result.ok(progress));
+  });
+
+  it('starts the next attempt from the welcome phase', async () => {
+    vi.mocked(mockSurveyRepository.getSurveyProgress).mockResolvedValue(Result.ok(completedProgress()));
+
+    const result = await useCase.execute({ userId: TEST_USER_ID });
+
+    expect(Result.isOk(result)).toBe(true);
+    const [saved] = vi.mocked(mockSurveyRepository.updateSurveyProgress).mock.calls[0];
+    expect(saved.attemptNumber).toBe(2);
+    expect(saved.currentPhase).toBe(0);
+    expect(saved.isCompleted).toBe(false);
+    expect(saved.startedAt.getTime()).toBeGreaterThan(new Date('2024-01-01T10:00:00Z').getTime());
+  });
+
+  it('refuses a retake while the current survey is unfinished', async () => {
+    const progress = SurveyProgress.create({ userId: TEST_USER_ID, currentPhase: 2, phase1Completed: true });
+    vi.mocked(mockSurveyRepository.getSurveyProgress).mockResolvedValue(Result.ok(progress));
+
+    const result = await useCase.execute({ userId: TEST_USER_ID });
+
+    expect(Result.isError(result)).toBe(true);
+    expect(mockSurveyRepository.updateSurveyProgress).not.toHaveBeenCalled();
+  });
+
+  it('refuses a retake with a bad request when results were never generated', async () => {
+    const progress = SurveyProgress.create({
+      userId: TEST_USER_ID,
+      currentPhase: 3,
+      phase1Completed: true,
+      phase2Completed: true,
+      reflectionCompleted: true,
+      resultsGenerated: false
+    });
+    vi.mocked(mockSurveyRepository.getSurveyProgress).mockResolvedValue(Result.ok(progress));
+
+    const result = await useCase.execute({ userId: TEST_USER_ID });
+
+    expect(Result.isError(result) && (result.error as any).code).toBe(ErrorCode.BAD_REQUEST);
+    expect(mockSurveyRepository.updateSurveyProgress).not.toHaveBeenCalled();
+  });
+});
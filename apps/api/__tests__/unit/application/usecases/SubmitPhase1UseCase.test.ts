@@ -4,13 +4,31 @@ import { ISurveyRepository } from '@/domain/repositories/ISurveyRepository';
 import { SurveyProgress } from '@/domain/entities/SurveyProgress';
 import { SurveyResponse } from '@/domain/entities/SurveyResponse';
 import { Result } from '@/shared/result';
-import { Phase1Request } from '@sakinah/types';
+import { ISurveyQuestionRepository } from '@/domain/repositories/ISurveyQuestionRepository';
+import { SurveyQuestionBank } from '@/domain/entities/SurveyQuestionBank';
+import { DISEASES } from '@/domain/entities/SurveyResult';
+import { PhaseRequest } from '@sakinah/types';
+
+const questionBank = SurveyQuestionBank.create({
+  version: 1,
+  questions: DISEASES.map((disease, index) => ({
+    id: `question-${index + 1}`,
+    questionId: disease,
+    disease,
+    phase: index < 4 ? 1 : 2,
+    category: index < 4 ? 'inner' : 'behavioral',
+    order: index + 1,
+    title: { en: disease },
+    prompt: { en: `How strongly do you recognise ${disease} in yourself?` }
+  }))
+});
 
 describe('SubmitPhase1UseCase', () => {
   let useCase: SubmitPhase1UseCase;
   let mockSurveyRepo: jest.Mocked<ISurveyRepository>;
+  let mockQuestionRepo: ISurveyQuestionRepository;
 
-  const validPhase1Data: Phase1Request = {
+  const validPhase1Data: PhaseRequest = {
     envyScore: 3,
     envyNote: 'Sometimes I feel envious of others',
     arroganceScore: 2,
@@ -38,6 +56,7 @@ describe('SubmitPhase1UseCase', () => {
       deleteSurveyResponse: vi.fn(),
       saveSurveyResult: vi.fn(),
       getSurveyResult: vi.fn(),
+      getSurveyResultHistory: vi.fn(),
       getSurveyResultById: vi.fn(),
       updateSurveyResult: vi.fn(),
       deleteSurveyResult: vi.fn(),
@@ -48,7 +67,12 @@ describe('SubmitPhase1UseCase', () => {
       getSurveyCompletionStats: vi.fn()
     };
 
-    useCase = new SubmitPhase1UseCase(mockSurveyRepo);
+    mockQuestionRepo = {
+      getActiveBank: vi.fn().mockResolvedValue(Result.ok(questionBank)),
+      getBank: vi.fn()
+    };
+
+    useCase = new SubmitPhase1UseCase(mockSurveyRepo, mockQuestionRepo);
   });
 
   describe('execute', () => {
@@ -268,7 +292,7 @@ describe('SubmitPhase1UseCase', () => {
     });
 
     it('should handle responses without notes', async () => {
-      const dataWithoutNotes: Phase1Request = {
+      const dataWithoutNotes: PhaseRequest = {
         envyScore: 3,
         arroganceScore: 2,
         selfDeceptionScore: 4,
@@ -302,7 +326,7 @@ describe('SubmitPhase1UseCase', () => {
   describe('validation', () => {
     it('should accept all valid Likert scores (1-5)', async () => {
       for (let score = 1; score <= 5; score++) {
-        const testData: Phase1Request = {
+        const testData: PhaseRequest = {
           envyScore: score as any,
           arroganceScore: score as any,
           selfDeceptionScore: score as any,
@@ -333,7 +357,7 @@ describe('SubmitPhase1UseCase', () => {
 
     it('should handle maximum length notes', async () => {
       const maxLengthNote = 'a'.repeat(1000);
-      const dataWithMaxNote: Phase1Request = {
+      const dataWithMaxNote: PhaseRequest = {
         ...validPhase1Data,
         envyNote: maxLengthNote
       };
@@ -362,7 +386,7 @@ describe('SubmitPhase1UseCase', () => {
     });
 
     it('should handle empty string notes', async () => {
-      const dataWithEmptyNote: Phase1Request = {
+      const dataWithEmptyNote: PhaseRequest = {
         ...validPhase1Data,
         envyNote: ''
       };
@@ -4,13 +4,31 @@ import { ISurveyRepository } from '@/domain/repositories/ISurveyRepository';
 import { SurveyProgress } from '@/domain/entities/SurveyProgress';
 import { SurveyResponse } from '@/domain/entities/SurveyResponse';
 import { Result } from '@/shared/result';
-import { Phase2Request } from '@sakinah/types';
+import { ISurveyQuestionRepository } from '@/domain/repositories/ISurveyQuestionRepository';
+import { SurveyQuestionBank } from '@/domain/entities/SurveyQuestionBank';
+import { DISEASES } from '@/domain/entities/SurveyResult';
+import { PhaseRequest } from '@sakinah/types';
+
+const questionBank = SurveyQuestionBank.create({
+  version: 1,
+  questions: DISEASES.map((disease, index) => ({
+    id: `question-${index + 1}`,
+    questionId: disease,
+    disease,
+    phase: index < 4 ? 1 : 2,
+    category: index < 4 ? 'inner' : 'behavioral',
+    order: index + 1,
+    title: { en: disease },
+    prompt: { en: `How strongly do you recognise ${disease} in yourself?` }
+  }))
+});
 
 describe('SubmitPhase2UseCase', () => {
   let useCase: SubmitPhase2UseCase;
   let mockSurveyRepo: jest.Mocked<ISurveyRepository>;
+  let mockQuestionRepo: ISurveyQuestionRepository;
 
-  const validPhase2Data: Phase2Request = {
+  const validPhase2Data: PhaseRequest = {
     angerScore: 3,
     angerNote: 'I struggle with anger sometimes',
     maliceScore: 2,
@@ -44,6 +62,7 @@ describe('SubmitPhase2UseCase', () => {
       deleteSurveyResponse: vi.fn(),
       saveSurveyResult: vi.fn(),
       getSurveyResult: vi.fn(),
+      getSurveyResultHistory: vi.fn(),
       getSurveyResultById: vi.fn(),
       updateSurveyResult: vi.fn(),
       deleteSurveyResult: vi.fn(),
@@ -54,7 +73,12 @@ describe('SubmitPhase2UseCase', () => {
       getSurveyCompletionStats: vi.fn()
     };
 
-    useCase = new SubmitPhase2UseCase(mockSurveyRepo);
+    mockQuestionRepo = {
+      getActiveBank: vi.fn().mockResolvedValue(Result.ok(questionBank)),
+      getBank: vi.fn()
+    };
+
+    useCase = new SubmitPhase2UseCase(mockSurveyRepo, mockQuestionRepo);
   });
 
   describe('execute', () => {
@@ -297,7 +321,7 @@ describe('SubmitPhase2UseCase', () => {
     });
 
     it('should handle responses without notes', async () => {
-      const dataWithoutNotes: Phase2Request = {
+      const dataWithoutNotes: PhaseRequest = {
         angerScore: 3,
         maliceScore: 2,
         backbitingScore: 4,
@@ -336,7 +360,7 @@ describe('SubmitPhase2UseCase', () => {
   describe('validation', () => {
     it('should accept all valid Likert scores (1-5)', async () => {
       for (let score = 1; score <= 5; score++) {
-        const testData: Phase2Request = {
+        const testData: PhaseRequest = {
           angerScore: score as any,
           maliceScore: score as any,
           backbitingScore: score as any,
@@ -372,7 +396,7 @@ describe('SubmitPhase2UseCase', () => {
 
     it('should handle maximum length notes', async () => {
       const maxLengthNote = 'a'.repeat(1000);
-      const dataWithMaxNote: Phase2Request = {
+      const dataWithMaxNote: PhaseRequest = {
         ...validPhase2Data,
         angerNote: maxLengthNote
       };
@@ -403,7 +427,7 @@ describe('SubmitPhase2UseCase', () => {
     });
 
     it('should handle empty string notes', async () => {
-      const dataWithEmptyNote: Phase2Request = {
+      const dataWithEmptyNote: PhaseRequest = {
         ...validPhase2Data,
         angerNote: ''
       };
@@ -47,6 +47,7 @@ describe('SubmitReflectionUseCase', () => {
       updateSurveyResponse: vi.fn(),
       deleteSurveyResponse: vi.fn(),
       getSurveyResult: vi.fn(),
+      getSurveyResultHistory: vi.fn(),
       getSurveyResultById: vi.fn(),
       updateSurveyResult: vi.fn(),
       deleteSurveyResult: vi.fn(),
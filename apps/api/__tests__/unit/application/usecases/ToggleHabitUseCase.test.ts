@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ToggleHabitUseCase } from '@/application/usecases/ToggleHabitUseCase';
+import { IHabitRepository } from '@/domain/repositories/IHabitRepository';
+import { IProfileRepository } from '@/domain/repositories/IProfileRepository';
+import { IEventBus } from '@/domain/events/IEventBus';
+import { HabitCompletedEvent, HabitCompletionRevokedEvent } from '@/domain/events/HabitEvents';
+import { Habit } from '@/domain/entities/Habit';
+import { Result } from '@/shared/result';
+
+const TEST_USER_ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+const TEST_HABIT_ID = '4e433974-3e0a-4436-acc9-5ef27b7cf0eb';
+const TEST_PLAN_ID = '7a70ca85-7990-491d-83b4-4c739c3ba681';
+
+const mockHabitRepository = {
+  findById: vi.fn(),
+  findCompletionDates: vi.fn(),
+  updateStreak: vi.fn(),
+  createCompletion: vi.fn(),
+  deleteCompletion: vi.fn()
+} as unknown as IHabitRepository;
+const mockProfileRepository: IProfileRepository = { getTimezone: vi.fn() };
+const mockEventBus = { publish: vi.fn(), publishEvents: vi.fn() } as unknown as IEventBus;
+
+describe('ToggleHabitUseCase', () => {
+  let useCase: ToggleHabitUseCase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useCase = new ToggleHabitUseCase(mockHabitRepository, mockProfileRepository, mockEventBus);
+
+    vi.mocked(mockProfileRepository.getTimezone).mockResolvedValue(Result.ok('UTC'));
+    vi.mocked(mockHabitRepository.findCompletionDates).mockResolvedValue(Result.ok([]));
+    vi.mocked(mockHabitRepository.updateStreak).mockImplementation(async habit => Result.ok(habit));
+    vi.mocked(mockHabitRepository.createCompletion).mockResolvedValue(Result.ok(undefined));
+    vi.mocked(mockHabitRepository.deleteCompletion).mockResolvedValue(Result.ok(undefined));
+  });
+
+  it('publishes the completion event when a habit is ticked off', async () => {
+    const habit = Habit.create({
+      id: TEST_HABIT_ID,
+      userId: TEST_USER_ID,
+      planId: TEST_PLAN_ID,
+      title: 'Morning Dhikr',
+      schedule: { freq: 'daily' }
+    });
+    habit.clearDomainEvents();
+    vi.mocked(mockHabitRepository.findById).mockResolvedValue(Result.ok(habit));
+
+    const result = await useCase.execute({
+      habitId: TEST_HABIT_ID,
+      userId: TEST_USER_ID,
+      completed: true,
+      toggledAt: new Date('2024-01-15T09:00:00.000Z')
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    const events = vi.mocked(mockEventBus.publishEvents).mock.calls[0][0];
+    expect(events).toHaveLength(1);
+    expect(events[0]).toBeInstanceOf(HabitCompletedEvent);
+    expect(events[0]).toMatchObject({ habitId: TEST_HABIT_ID, completedOn: '2024-01-15', newStreakCount: 1 });
+    expect(habit.getDomainEvents()).toEqual([]);
+  });
+
+  it('publishes the revoke event when a completion is undone', async () => {
+    const habit = Habit.create({
+      id: TEST_HABIT_ID,
+      userId: TEST_USER_ID,
+      planId: TEST_PLAN_ID,
+      title: 'Morning Dhikr',
+      schedule: { freq: 'daily' },
+      streakCount: 1,
+      lastCompletedOn: new Date('2024-01-15')
+    });
+    habit.clearDomainEvents();
+    vi.mocked(mockHabitRepository.findById).mockResolvedValue(Result.ok(habit));
+    vi.mocked(mockHabitRepository.findCompletionDates).mockResolvedValue(Result.ok([new Date('2024-01-15')]));
+
+    const result = await useCase.execute({
+      habitId: TEST_HABIT_ID,
+      userId: TEST_USER_ID,
+      completed: false,
+      toggledAt: new Date('2024-01-15T09:00:00.000Z')
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    const events = vi.mocked(mockEventBus.publishEvents).mock.calls[0][0];
+    expect(events).toHaveLength(1);
+    expect(events[0]).toBeInstanceOf(HabitCompletionRevokedEvent);
+    expect(events[0]).toMatchObject({ habitId: TEST_HABIT_ID, revokedOn: '2024-01-15', newStreakCount: 0 });
+  });
+});
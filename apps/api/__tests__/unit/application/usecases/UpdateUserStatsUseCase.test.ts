@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { UpdateUserStatsUseCase } from '@/application/usecases/achievements/UpdateUserStatsUseCase';
+import { IAchievementRepository } from '@/domain/repositories/IAchievementRepository';
+import { Achievement } from '@/domain/entities/Achievement';
+import { UserStats } from '@/domain/entities/UserStats';
+import { Result } from '@/shared/result';
+
+const TEST_USER_ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+
+const mockAchievementRepository: IAchievementRepository = {
+  findAll: vi.fn(),
+  getUserStats: vi.fn(),
+  saveUserStats: vi.fn()
+};
+
+const achievements = [
+  Achievement.create({
+    id: 'first_habit',
+    title: 'First Step',
+    description: 'Complete your first habit',
+    icon: '🌱',
+    conditionType: 'habits_completed',
+    conditionTarget: 1,
+    khayrReward: 50
+  }),
+  Achievement.create({
+    id: 'week_streak',
+    title: 'Weekly Warrior',
+    description: 'Maintain a 7-day streak',
+    icon: '🔥',
+    conditionType: 'streak',
+    conditionTarget: 7,
+    khayrReward: 100
+  }),
+  Achievement.create({
+    id: 'first_plan',
+    title: 'Journey Begins',
+    description: 'Complete your first tazkiyah plan',
+    icon: '🌿',
+    conditionType: 'plans_completed',
+    conditionTarget: 1,
+    khayrReward: 75
+  })
+];
+
+describe('UpdateUserStatsUseCase', () => {
+  let useCase: UpdateUserStatsUseCase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useCase = new UpdateUserStatsUseCase(mockAchievementRepository);
+
+    vi.mocked(mockAchievementRepository.findAll).mockResolvedValue(Result.ok(achievements));
+    vi.mocked(mockAchievementRepository.saveUserStats).mockImplementation(async stats => Result.ok(stats));
+  });
+
+  it('records a completion and unlocks the first achievement', async () => {
+    vi.mocked(mockAchievementRepository.getUserStats).mockResolvedValue(
+      Result.ok(UserStats.create({ userId: TEST_USER_ID }))
+    );
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      event: 'habit_completed',
+      completedOn: '2024-01-15',
+      streakCount: 1
+    });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.unlocked.map(a => a.id)).toEqual(['first_habit']);
+      expect(result.value.stats.totalKhayrPoints).toBe(60);
+      expect(result.value.stats.achievements).toEqual(['first_habit']);
+    }
+    expect(mockAchievementRepository.saveUserStats).toHaveBeenCalledTimes(1);
+  });
+
+  it('unlocks streak achievements when a milestone is reached', async () => {
+    vi.mocked(mockAchievementRepository.getUserStats).mockResolvedValue(
+      Result.ok(UserStats.create({ userId: TEST_USER_ID, habitsCompleted: 7, achievements: ['first_habit'] }))
+    );
+
+    const result = await useCase.execute({ userId: TEST_USER_ID, event: 'milestone_reached', streakCount: 7 });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.unlocked.map(a => a.id)).toEqual(['week_streak']);
+      expect(result.value.stats.longestStreak).toBe(7);
+    }
+  });
+
+  it('takes back points when a completion is revoked', async () => {
+    vi.mocked(mockAchievementRepository.getUserStats).mockResolvedValue(
+      Result.ok(UserStats.create({
+        userId: TEST_USER_ID,
+        totalKhayrPoints: 60,
+        habitsCompleted: 1,
+        achievements: ['first_habit']
+      }))
+    );
+
+    const result = await useCase.execute({ userId: TEST_USER_ID, event: 'completion_revoked', streakCount: 0 });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.stats.totalKhayrPoints).toBe(50);
+      expect(result.value.stats.achievements).toEqual(['first_habit']);
+      expect(result.value.unlocked).toEqual([]);
+    }
+  });
+
+  it('counts a completed plan and unlocks plan achievements', async () => {
+    vi.mocked(mockAchievementRepository.getUserStats).mockResolvedValue(
+      Result.ok(UserStats.create({ userId: TEST_USER_ID }))
+    );
+
+    const result = await useCase.execute({ userId: TEST_USER_ID, event: 'plan_completed' });
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value.stats.plansCompleted).toBe(1);
+      expect(result.value.unlocked.map(a => a.id)).toEqual(['first_plan']);
+      expect(result.value.stats.totalKhayrPoints).toBe(75);
+    }
+  });
+
+  it('requires the completion day for completions', async () => {
+    const result = await useCase.execute({ userId: TEST_USER_ID, event: 'habit_completed', streakCount: 1 });
+
+    expect(Result.isError(result)).toBe(true);
+    expect(mockAchievementRepository.getUserStats).not.toHaveBeenCalled();
+  });
+
+  it('does not save when stats cannot be loaded', async () => {
+    vi.mocked(mockAchievementRepository.getUserStats).mockResolvedValue(Result.error(new Error('Database unavailable')));
+
+    const result = await useCase.execute({
+      userId: TEST_USER_ID,
+      event: 'habit_completed',
+      completedOn: '2024-01-15',
+      streakCount: 1
+    });
+
+    expect(Result.isError(result)).toBe(true);
+    expect(mockAchievementRepository.saveUserStats).not.toHaveBeenCalled();
+  });
+});
@@ -25,6 +25,7 @@ describe('ValidateSurveyProgressUseCase', () => {
       deleteSurveyResponse: vi.fn(),
       saveSurveyResult: vi.fn(),
       getSurveyResult: vi.fn(),
+      getSurveyResultHistory: vi.fn(),
       getSurveyResultById: vi.fn(),
       updateSurveyResult: vi.fn(),
       deleteSurveyResult: vi.fn(),
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeProgress, ProgressInput } from '@/application/usecases/progress/progressAnalysis';
+import { Habit, HabitSchedule } from '@/domain/entities/Habit';
+import { addDays } from '@/shared/timezone';
+
+const USER_ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+const PLAN_ID = '3d6f4a2b-1c5e-4f7a-8b9c-0d1e2f3a4b5c';
+const FAJR_ID = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+const QURAN_ID = 'b2c3d4e5-f6a7-4b8c-9d0e-1f2a3b4c5d6e';
+
+// Tuesday 2024-03-05 to Monday 2024-03-11
+const FROM = '2024-03-05';
+const TO = '2024-03-11';
+
+function habit(id: string, title: string, schedule: HabitSchedule = { freq: 'daily' }, createdAt = '2024-01-01T00:00:00.000Z'): Habit {
+  return Habit.create({ id, userId: USER_ID, planId: PLAN_ID, title, schedule, createdAt: new Date(createdAt) });
+}
+
+function days(from: string, count: number): Date[] {
+  return Array.from({ length: count }, (_, i) => new Date(`${addDays(from, i)}T00:00:00.000Z`));
+}
+
+function input(overrides: Partial<ProgressInput> = {}): ProgressInput {
+  return {
+    from: FROM,
+    to: TO,
+    timezone: 'UTC',
+    habits: [],
+    completionTimes: [],
+    streakBreaks: [],
+    checkins: [],
+    dhikr: {
+      current: { totalCount: 0, sessions: 0 },
+      previous: { totalCount: 0, sessions: 0 }
+    },
+    ...overrides
+  };
+}
+
+describe('analyzeProgress', () => {
+  it('computes completion rates per habit and overall from scheduled slots', () => {
+    const { metrics } = analyzeProgress(input({
+      habits: [
+        { habit: habit(FAJR_ID, 'Pray Fajr on time'), completionDates: days(FROM, 7), longestStreak: 12 },
+        { habit: habit(QURAN_ID, 'Read one page of Quran'), completionDates: days('2024-03-08', 2), longestStreak: 3 }
+      ]
+    }));
+
+    expect(metrics.habits.map(h => [h.title, h.scheduled, h.completed, h.completionRate])).toEqual([
+      ['Pray Fajr on time', 7, 7, 100],
+      ['Read one page of Quran', 7, 2, 29]
+    ]);
+    expect(metrics.completionRate).toBe(64);
+    expect(metrics.consistencyScore).toBe(100);
+    expect(metrics.overallScore).toBe(78);
+  });
+
+  it('counts weekly habits once per week and new habits only from their first day', () => {
+    const { metrics } = analyzeProgress(input({
+      habits: [
+        { habit: habit(FAJR_ID, 'Fast once a week', { freq: 'weekly' }), completionDates: days('2024-03-07', 1), longestStreak: 0 },
+        { habit: habit(QURAN_ID, 'Read one page of Quran', { freq: 'daily' }, '2024-03-10T15:00:00.000Z'), completionDates: [], longestStreak: 0 }
+      ]
+    }));
+
+    // Weeks start on Sunday, so the period touches two of them
+    expect(metrics.habits[0]).toMatchObject({ scheduled: 2, completed: 1 });
+    expect(metrics.habits[1]).toMatchObject({ scheduled: 2, completed: 0 });
+  });
+
+  it('buckets completion times by the local time of day', () => {
+    const { metrics, insights } = analyzeProgress(input({
+      timezone: 'America/New_York',
+      completionTimes: [
+        { habitId: FAJR_ID, completedAt: new Date('2024-03-11T11:00:00.000Z') }, // 07:00
+        { habitId: FAJR_ID, completedAt: new Date('2024-03-10T12:30:00.000Z') }, // 08:30
+        { habitId: QURAN_ID, completedAt: new Date('2024-03-11T22:00:00.000Z') } // 18:00
+      ]
+    }));
+
+    expect(metrics.timeOfDay.buckets.morning).toEqual({ completions: 2, share: 67 });
+    expect(metrics.timeOfDay.buckets.evening).toEqual({ completions: 1, share: 33 });
+    expect(metrics.timeOfDay.peak).toBe('morning');
+    expect(insights).toContain('Most of your completions happen in the morning (67%)');
+  });
+
+  it('compares the completion rate with the previous period', () => {
+    const { metrics, weakAreas, insights } = analyzeProgress(input({
+      habits: [
+        { habit: habit(FAJR_ID, 'Pray Fajr on time'), completionDates: [...days('2024-02-27', 7), ...days(FROM, 3)], longestStreak: 10 }
+      ]
+    }));
+
+    expect(metrics.trend).toMatchObject({ previousCompletionRate: 100, change: -57, direction: 'declining' });
+    expect(weakAreas.map(area => area.area)).toContain('declining_trend');
+    expect(insights).toContain('Your completion rate is down 57 points on the previous 7 days');
+  });
+
+  it('correlates mood with completed habits and ranks the weakest areas', () => {
+    const { metrics, weakAreas, insights } = analyzeProgress(input({
+      habits: [
+        { habit: habit(FAJR_ID, 'Pray Fajr on time'), completionDates: days('2024-03-09', 3), longestStreak: 5 },
+        { habit: habit(QURAN_ID, 'Read one page of Quran'), completionDates: days('2024-03-10', 2), longestStreak: 4 }
+      ],
+      streakBreaks: [
+        { habitId: QURAN_ID, previousStreak: 4 },
+        { habitId: QURAN_ID, previousStreak: 2 }
+      ],
+      checkins: [
+        { date: new Date('2024-03-07T00:00:00.000Z'), mood: -1 },
+        { date: new Date('2024-03-08T00:00:00.000Z'), mood: -1 },
+        { date: new Date('2024-03-09T00:00:00.000Z'), mood: 0 },
+        { date: new Date('2024-03-10T00:00:00.000Z'), mood: 2 },
+        { date: new Date('2024-03-11T00:00:00.000Z'), mood: 1 }
+      ]
+    }));
+
+    expect(metrics.mood).toMatchObject({ checkins: 5, averageMood: 0.2, activeDayMood: 1, inactiveDayMood: -1 });
+    expect(metrics.mood.correlation).toBeGreaterThan(0.3);
+    expect(insights).toContain('Your mood tends to be better on days you complete more habits');
+
+    expect(weakAreas.map(area => area.area)).toEqual(['dhikr', 'habit_completion', 'streak_breaks', 'consistency']);
+    expect(weakAreas.find(area => area.area === 'streak_breaks')?.habits).toEqual(['Read one page of Quran']);
+    expect(weakAreas.find(area => area.area === 'habit_completion')?.habits).toEqual(['Read one page of Quran', 'Pray Fajr on time']);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { planReminders, localDatesBetween } from '@/application/usecases/notifications/reminderPlanner';
+import { Habit } from '@/domain/entities/Habit';
+import { Intention } from '@/domain/entities/Intention';
+import { DailyPrayerTimes } from '@/domain/entities/PrayerTimes';
+
+const USER_ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+const PLAN_ID = '3d6f4a2b-1c5e-4f7a-8b9c-0d1e2f3a4b5c';
+const TIMEZONE = 'America/New_York'; // UTC-4 on 2024-03-11
+
+// Monday 2024-03-11, local midnight to 02:00 the next day
+const FROM = new Date('2024-03-11T04:00:00.000Z');
+const UNTIL = new Date('2024-03-12T06:00:00.000Z');
+
+const PRAYER_DAY: DailyPrayerTimes = {
+  date: new Date('2024-03-11T12:00:00.000Z'),
+  fajr: new Date('2024-03-11T10:30:00.000Z'),
+  sunrise: new Date('2024-03-11T11:10:00.000Z'),
+  dhuhr: new Date('2024-03-11T17:10:00.000Z'),
+  asr: new Date('2024-03-11T20:30:00.000Z'),
+  maghrib: new Date('2024-03-11T23:10:00.000Z'),
+  isha: new Date('2024-03-12T00:25:00.000Z')
+};
+
+function plan(overrides: Partial<Parameters<typeof planReminders>[0]> = {}) {
+  return planReminders({
+    userId: USER_ID,
+    timezone: TIMEZONE,
+    language: 'en',
+    settings: {},
+    prayerDays: [],
+    intentions: [],
+    habits: [],
+    from: FROM,
+    until: UNTIL,
+    ...overrides
+  });
+}
+
+function habit(params: { streakCount: number; lastCompletedOn: string | null; days?: number[] }): Habit {
+  return Habit.create({
+    id: 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d',
+    userId: USER_ID,
+    planId: PLAN_ID,
+    title: 'Morning adhkar',
+    schedule: params.days ? { freq: 'custom', days: params.days } : { freq: 'daily' },
+    streakCount: params.streakCount,
+    lastCompletedOn: params.lastCompletedOn ? new Date(`${params.lastCompletedOn}T00:00:00.000Z`) : null
+  });
+}
+
+describe('planReminders', () => {
+  it('plans a reminder at each prayer time and one before Fajr', () => {
+    const notifications = plan({
+      settings: { prayerTimes: true, fajrReminder: true },
+      prayerDays: [PRAYER_DAY]
+    });
+
+    expect(notifications.map(n => [n.dedupeKey, n.scheduledFor.toISOString()])).toEqual([
+      ['fajr:2024-03-11', '2024-03-11T10:15:00.000Z'],
+      ['prayer:fajr:2024-03-11', '2024-03-11T10:30:00.000Z'],
+      ['prayer:dhuhr:2024-03-11', '2024-03-11T17:10:00.000Z'],
+      ['prayer:asr:2024-03-11', '2024-03-11T20:30:00.000Z'],
+      ['prayer:maghrib:2024-03-11', '2024-03-11T23:10:00.000Z'],
+      ['prayer:isha:2024-03-11', '2024-03-12T00:25:00.000Z']
+    ]);
+    expect(notifications[2].title).toBe('Dhuhr prayer');
+    expect(notifications[2].data).toEqual({ prayer: 'dhuhr', date: '2024-03-11' });
+  });
+
+  it('reads the daily reminder time on the user\'s clock', () => {
+    const notifications = plan({ settings: { dailyReminder: true, reminderTime: '07:30' } });
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].type).toBe('daily_reminder');
+    expect(notifications[0].dedupeKey).toBe('daily:2024-03-11');
+    expect(notifications[0].scheduledFor.toISOString()).toBe('2024-03-11T11:30:00.000Z');
+  });
+
+  it('only keeps reminders inside the window', () => {
+    const notifications = plan({
+      settings: { prayerTimes: true, fajrReminder: true },
+      prayerDays: [PRAYER_DAY],
+      from: new Date('2024-03-11T12:00:00.000Z'),
+      until: new Date('2024-03-11T21:00:00.000Z')
+    });
+
+    expect(notifications.map(n => n.dedupeKey)).toEqual(['prayer:dhuhr:2024-03-11', 'prayer:asr:2024-03-11']);
+  });
+
+  it('reminds about intentions on their chosen weekdays only', () => {
+    const monday = Intention.create({
+      id: '11111111-1111-4111-8111-111111111111',
+      userId: USER_ID,
+      text: 'Call my parents',
+      reminder: { enabled: true, time: '18:00', daysOfWeek: [1] }
+    });
+    const tuesday = Intention.create({
+      id: '22222222-2222-4222-8222-222222222222',
+      userId: USER_ID,
+      text: 'Visit the sick',
+      reminder: { enabled: true, time: '18:00', daysOfWeek: [2] }
+    });
+    const disabled = Intention.create({
+      id: '33333333-3333-4333-8333-333333333333',
+      userId: USER_ID,
+      text: 'Give charity',
+      reminder: { enabled: false, time: '18:00' }
+    });
+
+    const notifications = plan({ intentions: [monday, tuesday, disabled] });
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].dedupeKey).toBe('intention:11111111-1111-4111-8111-111111111111:2024-03-11');
+    expect(notifications[0].body).toBe('Call my parents');
+    expect(notifications[0].scheduledFor.toISOString()).toBe('2024-03-11T22:00:00.000Z');
+  });
+
+  it('nudges about open habits with a streak that are scheduled today', () => {
+    const open = habit({ streakCount: 4, lastCompletedOn: '2024-03-10' });
+    const done = habit({ streakCount: 5, lastCompletedOn: '2024-03-11' });
+    const noStreak = habit({ streakCount: 0, lastCompletedOn: null });
+    const notToday = habit({ streakCount: 2, lastCompletedOn: '2024-03-09', days: [6] });
+
+    const notifications = plan({
+      settings: { habitStreak: true },
+      habits: [open, done, noStreak, notToday]
+    });
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].dedupeKey).toBe('habit_streak:2024-03-11');
+    expect(notifications[0].scheduledFor.toISOString()).toBe('2024-03-12T00:00:00.000Z');
+    expect(notifications[0].body).toBe('One habit with a streak is still open today.');
+  });
+
+  it('writes Arabic copy for Arabic speakers', () => {
+    const notifications = plan({
+      language: 'ar',
+      settings: { prayerTimes: true },
+      prayerDays: [PRAYER_DAY]
+    });
+
+    expect(notifications[0].title).toBe('صلاة الفجر');
+  });
+});
+
+describe('localDatesBetween', () => {
+  it('lists each calendar day the window touches in the user\'s timezone', () => {
+    expect(localDatesBetween(FROM, UNTIL, TIMEZONE)).toEqual(['2024-03-11', '2024-03-12']);
+    expect(localDatesBetween(FROM, UNTIL, 'Asia/Tokyo')).toEqual(['2024-03-11', '2024-03-12']);
+    expect(localDatesBetween(FROM, FROM, 'UTC')).toEqual(['2024-03-11']);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { Circle } from '@/domain/entities/Circle';
+import { CircleEncouragement } from '@/domain/entities/CircleEncouragement';
+import { UserId } from '@/domain/value-objects/UserId';
+
+const CREATOR_ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+const MEMBER_ID = '6ba7b814-9dad-41d1-80b4-00c04fd430c8';
+const OTHER_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+function buildCircle(overrides: Partial<Parameters<typeof Circle.create>[0]> = {}): Circle {
+  return Circle.create({
+    id: '3d6f4a2b-1c5e-4f7a-8b9c-0d1e2f3a4b5c',
+    name: 'Fajr Companions',
+    creatorId: CREATOR_ID,
+    maxMembers: 3,
+    members: [
+      { userId: CREATOR_ID, role: 'creator', displayName: 'Aisha' },
+      { userId: MEMBER_ID, role: 'member', displayName: 'Yusuf' }
+    ],
+    ...overrides
+  });
+}
+
+describe('Circle', () => {
+  it('makes the creator the first member with an invite code', () => {
+    const circle = Circle.create({ name: 'Night Prayer', creatorId: CREATOR_ID });
+
+    expect(circle.memberCount).toBe(1);
+    expect(circle.isCreator(new UserId(CREATOR_ID))).toBe(true);
+    expect(circle.inviteCode).toMatch(/^[A-Z2-9]{8}$/);
+    expect(circle.maxMembers).toBe(7);
+  });
+
+  it('only allows 3 to 7 members', () => {
+    expect(() => Circle.create({ name: 'Too Small', creatorId: CREATOR_ID, maxMembers: 2 })).toThrow();
+    expect(() => Circle.create({ name: 'Too Big', creatorId: CREATOR_ID, maxMembers: 8 })).toThrow();
+  });
+
+  it('refuses new members once full, archived or already joined', () => {
+    const circle = buildCircle();
+
+    expect(() => circle.addMember(new UserId(MEMBER_ID))).toThrow('already a member');
+
+    circle.addMember(new UserId(OTHER_ID));
+    expect(() => circle.addMember(new UserId('3d6f4a2b-1c5e-4f7a-8b9c-0d1e2f3a4b5d'))).toThrow('full');
+
+    const archived = buildCircle({ status: 'archived' });
+    expect(() => archived.addMember(new UserId(OTHER_ID))).toThrow('archived');
+  });
+
+  it('keeps the creator until everyone else has left', () => {
+    const circle = buildCircle();
+
+    expect(() => circle.removeMember(new UserId(CREATOR_ID))).toThrow();
+
+    circle.removeMember(new UserId(MEMBER_ID));
+    circle.removeMember(new UserId(CREATOR_ID));
+
+    expect(circle.memberCount).toBe(0);
+    expect(circle.status).toBe('archived');
+  });
+
+  it('hides who the members are in anonymous circles', () => {
+    const viewer = new UserId(MEMBER_ID);
+
+    expect(buildCircle().toDTO(viewer).members).toHaveLength(2);
+
+    const dto = buildCircle({ isAnonymous: true }).toDTO(viewer);
+    expect(dto.members).toEqual([]);
+    expect(dto.memberCount).toBe(2);
+    expect(dto.role).toBe('member');
+  });
+
+  it('never exposes member streaks', () => {
+    const dto = buildCircle().toDTO(new UserId(CREATOR_ID));
+
+    expect(JSON.stringify(dto)).not.toMatch(/streak/i);
+  });
+});
+
+describe('CircleEncouragement', () => {
+  it('names the sender only outside anonymous circles', () => {
+    const encouragement = CircleEncouragement.create({
+      circleId: '3d6f4a2b-1c5e-4f7a-8b9c-0d1e2f3a4b5c',
+      fromUserId: MEMBER_ID,
+      message: '  May Allah make it easy for you  ',
+      type: 'dua'
+    });
+    const viewer = new UserId(CREATOR_ID);
+
+    expect(encouragement.message).toBe('May Allah make it easy for you');
+    expect(encouragement.toDTO(viewer, buildCircle()).from).toBe('Yusuf');
+    expect(encouragement.toDTO(viewer, buildCircle({ isAnonymous: true })).from).toBeNull();
+  });
+
+  it('rejects empty messages and messages to yourself', () => {
+    const base = { circleId: '3d6f4a2b-1c5e-4f7a-8b9c-0d1e2f3a4b5c', fromUserId: MEMBER_ID, type: 'encouragement' as const };
+
+    expect(() => CircleEncouragement.create({ ...base, message: '   ' })).toThrow();
+    expect(() => CircleEncouragement.create({ ...base, message: 'Keep going', toUserId: MEMBER_ID })).toThrow();
+  });
+});
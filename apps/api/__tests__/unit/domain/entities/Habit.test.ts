@@ -5,7 +5,8 @@ import {
   HabitCreatedEvent,
   HabitCompletedEvent,
   HabitStreakBrokenEvent,
-  HabitMilestoneReachedEvent
+  HabitMilestoneReachedEvent,
+  HabitCompletionRevokedEvent
 } from '@/domain/events/HabitEvents';
 
 // Test UUIDs - generate valid UUIDs for testing
@@ -114,7 +115,93 @@ describe('Habit', () => {
       const brokenEvent = events.find(e => e instanceof HabitStreakBrokenEvent) as HabitStreakBrokenEvent;
       expect(brokenEvent).toBeDefined();
       expect(brokenEvent.previousStreakCount).toBe(10);
-      expect(brokenEvent.daysMissed).toBe(5);
+      expect(brokenEvent.daysMissed).toBe(4);
+    });
+
+    it('should keep the streak of a Monday/Thursday habit across unscheduled days', () => {
+      const habit = Habit.create({
+        userId: testIds.user1,
+        planId: testIds.plan1,
+        title: 'Fast on Mondays and Thursdays',
+        schedule: { freq: 'weekly', days: [1, 4] },
+        streakCount: 3,
+        lastCompletedOn: new Date('2024-01-15') // Monday
+      });
+
+      habit.markCompleted(new Date('2024-01-18')); // Thursday
+      habit.markCompleted(new Date('2024-01-22')); // Monday
+
+      expect(habit.streakCount).toBe(5);
+      expect(habit.getDomainEvents().some(e => e instanceof HabitStreakBrokenEvent)).toBe(false);
+    });
+
+    it('should count only scheduled days as missed', () => {
+      const habit = Habit.create({
+        userId: testIds.user1,
+        planId: testIds.plan1,
+        title: 'Fast on Mondays and Thursdays',
+        schedule: { freq: 'custom', days: [1, 4] },
+        streakCount: 6,
+        lastCompletedOn: new Date('2024-01-15') // Monday
+      });
+
+      habit.markCompleted(new Date('2024-01-25')); // Thursday, skipping Jan 18 and Jan 22
+
+      expect(habit.streakCount).toBe(1);
+      const brokenEvent = habit.getDomainEvents().find(e => e instanceof HabitStreakBrokenEvent) as HabitStreakBrokenEvent;
+      expect(brokenEvent.previousStreakCount).toBe(6);
+      expect(brokenEvent.daysMissed).toBe(2);
+    });
+
+    it('should not count completions on unscheduled days towards the streak', () => {
+      const habit = Habit.create({
+        userId: testIds.user1,
+        planId: testIds.plan1,
+        title: 'Fast on Mondays and Thursdays',
+        schedule: { freq: 'weekly', days: [1, 4] },
+        streakCount: 2,
+        lastCompletedOn: new Date('2024-01-15') // Monday
+      });
+
+      habit.markCompleted(new Date('2024-01-17')); // Wednesday
+      expect(habit.streakCount).toBe(2);
+
+      habit.markCompleted(new Date('2024-01-18')); // Thursday
+      expect(habit.streakCount).toBe(3);
+    });
+
+    it('should count weeks for weekly habits without fixed days', () => {
+      const habit = Habit.create({
+        userId: testIds.user1,
+        planId: testIds.plan1,
+        title: 'Visit family',
+        schedule: { freq: 'weekly' },
+        streakCount: 2,
+        lastCompletedOn: new Date('2024-01-09') // Tuesday
+      });
+
+      habit.markCompleted(new Date('2024-01-19')); // Friday of the following week
+      expect(habit.streakCount).toBe(3);
+
+      habit.markCompleted(new Date('2024-01-20')); // Same week
+      expect(habit.streakCount).toBe(3);
+    });
+
+    it('should scale milestones to the scheduled days', () => {
+      const habit = Habit.create({
+        userId: testIds.user1,
+        planId: testIds.plan1,
+        title: 'Fast on Mondays and Thursdays',
+        schedule: { freq: 'weekly', days: [1, 4] },
+        streakCount: 8,
+        lastCompletedOn: new Date('2024-01-15') // Monday
+      });
+
+      habit.markCompleted(new Date('2024-01-18')); // Thursday
+
+      const milestoneEvent = habit.getDomainEvents().find(e => e instanceof HabitMilestoneReachedEvent) as HabitMilestoneReachedEvent;
+      expect(milestoneEvent.milestoneType).toBe('month');
+      expect(milestoneEvent.streakCount).toBe(9);
     });
 
     it('should throw error when completing same day twice', () => {
@@ -129,6 +216,62 @@ describe('Habit', () => {
       expect(() => habit.markCompleted(new Date('2024-01-15'))).toThrow('Habit already completed today');
     });
 
+    it('should back-fill a missed day and bridge the streak', () => {
+      const habit = Habit.create({
+        userId: testIds.user1,
+        planId: testIds.plan1,
+        title: 'Fajr Dhikr',
+        schedule: { freq: 'daily' },
+        streakCount: 1,
+        lastCompletedOn: new Date('2024-01-15')
+      });
+
+      habit.markCompleted(new Date('2024-01-14'), 'UTC', [
+        new Date('2024-01-12'),
+        new Date('2024-01-13'),
+        new Date('2024-01-15')
+      ]);
+
+      expect(habit.streakCount).toBe(4);
+      expect(habit.lastCompletedOn).toEqual(new Date('2024-01-15'));
+
+      const completedEvent = habit.getDomainEvents().find(e => e instanceof HabitCompletedEvent) as HabitCompletedEvent;
+      expect(completedEvent.completedOn).toBe('2024-01-14');
+      expect(completedEvent.newStreakCount).toBe(4);
+    });
+
+    it('should not emit StreakBrokenEvent when back-filling', () => {
+      const habit = Habit.create({
+        userId: testIds.user1,
+        planId: testIds.plan1,
+        title: 'Fajr Dhikr',
+        schedule: { freq: 'daily' },
+        streakCount: 1,
+        lastCompletedOn: new Date('2024-01-15')
+      });
+
+      habit.markCompleted(new Date('2024-01-10'), 'UTC', [new Date('2024-01-15')]);
+
+      expect(habit.streakCount).toBe(1);
+      expect(habit.getDomainEvents().some(e => e instanceof HabitStreakBrokenEvent)).toBe(false);
+    });
+
+    it('should throw error when back-filling a day that is already completed', () => {
+      const habit = Habit.create({
+        userId: testIds.user1,
+        planId: testIds.plan1,
+        title: 'Fajr Dhikr',
+        schedule: { freq: 'daily' },
+        streakCount: 2,
+        lastCompletedOn: new Date('2024-01-15')
+      });
+
+      expect(() => habit.markCompleted(new Date('2024-01-14'), 'UTC', [
+        new Date('2024-01-14'),
+        new Date('2024-01-15')
+      ])).toThrow('Habit already completed on this day');
+    });
+
     it('should emit milestone event at 7 days', () => {
       const habit = Habit.create({
         userId: testIds.user1,
@@ -168,7 +311,7 @@ describe('Habit', () => {
   });
 
   describe('markIncomplete', () => {
-    it('should decrease streak count', () => {
+    it('should restore the previous streak from the completion history', () => {
       const habit = Habit.create({
         userId: testIds.user1,
         planId: testIds.plan1,
@@ -178,10 +321,98 @@ describe('Habit', () => {
         lastCompletedOn: new Date('2024-01-15')
       });
 
-      habit.markIncomplete(new Date('2024-01-15'));
+      habit.markIncomplete(new Date('2024-01-15'), 'UTC', [
+        new Date('2024-01-11'),
+        new Date('2024-01-12'),
+        new Date('2024-01-13'),
+        new Date('2024-01-14'),
+        new Date('2024-01-15')
+      ]);
 
       expect(habit.streakCount).toBe(4);
-      expect(habit.lastCompletedOn).toBeNull();
+      expect(habit.lastCompletedOn).toEqual(new Date('2024-01-14'));
+    });
+
+    it('should continue the restored streak on the next completion', () => {
+      const habit = Habit.create({
+        userId: testIds.user1,
+        planId: testIds.plan1,
+        title: 'Meditation',
+        schedule: { freq: 'daily' },
+        streakCount: 3,
+        lastCompletedOn: new Date('2024-01-15')
+      });
+
+      habit.markIncomplete(new Date('2024-01-15'), 'UTC', [
+        new Date('2024-01-13'),
+        new Date('2024-01-14'),
+        new Date('2024-01-15')
+      ]);
+      habit.markCompleted(new Date('2024-01-15'));
+
+      expect(habit.streakCount).toBe(3);
+    });
+
+    it('should emit HabitCompletionRevokedEvent', () => {
+      const habit = Habit.create({
+        id: testIds.habit1,
+        userId: testIds.user1,
+        planId: testIds.plan1,
+        title: 'Meditation',
+        schedule: { freq: 'daily' },
+        streakCount: 1,
+        lastCompletedOn: new Date('2024-01-15')
+      });
+
+      habit.markIncomplete(new Date('2024-01-15'), 'UTC', [new Date('2024-01-15')]);
+
+      const events = habit.getDomainEvents();
+      expect(events).toHaveLength(1);
+      const revokedEvent = events[0] as HabitCompletionRevokedEvent;
+      expect(revokedEvent).toBeInstanceOf(HabitCompletionRevokedEvent);
+      expect(revokedEvent.revokedOn).toBe('2024-01-15');
+      expect(revokedEvent.previousStreakCount).toBe(1);
+      expect(revokedEvent.newStreakCount).toBe(0);
+      expect(revokedEvent.lastCompletedOn).toBeNull();
+    });
+
+    it('should revoke a past completion and rebuild the streak', () => {
+      const habit = Habit.create({
+        userId: testIds.user1,
+        planId: testIds.plan1,
+        title: 'Meditation',
+        schedule: { freq: 'daily' },
+        streakCount: 3,
+        lastCompletedOn: new Date('2024-01-15')
+      });
+
+      const revoked = habit.markIncomplete(new Date('2024-01-14'), 'UTC', [
+        new Date('2024-01-13'),
+        new Date('2024-01-14'),
+        new Date('2024-01-15')
+      ]);
+
+      expect(revoked).toBe(true);
+      expect(habit.streakCount).toBe(1);
+      expect(habit.lastCompletedOn).toEqual(new Date('2024-01-15'));
+    });
+
+    it('should leave the habit untouched when it was not completed on that day', () => {
+      const habit = Habit.create({
+        id: testIds.habit1,
+        userId: testIds.user1,
+        planId: testIds.plan1,
+        title: 'Meditation',
+        schedule: { freq: 'daily' },
+        streakCount: 2,
+        lastCompletedOn: new Date('2024-01-14')
+      });
+
+      const revoked = habit.markIncomplete(new Date('2024-01-15'), 'UTC', [new Date('2024-01-13'), new Date('2024-01-14')]);
+
+      expect(revoked).toBe(false);
+      expect(habit.streakCount).toBe(2);
+      expect(habit.getDomainEvents()).toHaveLength(0);
     });
 
     it('should throw error if habit was not completed', () => {
@@ -214,6 +445,97 @@ describe('Habit', () => {
     });
   });
 
+  describe('recalculateStreak', () => {
+    it('should rebuild the streak from the completion history', () => {
+      const habit = Habit.create({
+        id: testIds.habit1,
+        userId: testIds.user1,
+        planId: testIds.plan1,
+        title: 'Fast on Mondays and Thursdays',
+        schedule: { freq: 'weekly', days: [1, 4] },
+        streakCount: 1,
+        lastCompletedOn: new Date('2024-01-25')
+      });
+
+      habit.recalculateStreak([
+        new Date('2024-01-25'), // Thursday
+        new Date('2024-01-08'), // Monday, before a missed Thursday
+        new Date('2024-01-15'), // Monday
+        new Date('2024-01-18'), // Thursday
+        new Date('2024-01-22') // Monday
+      ]);
+
+      expect(habit.streakCount).toBe(4);
+      expect(habit.lastCompletedOn).toEqual(new Date('2024-01-25'));
+      expect(habit.getDomainEvents()).toHaveLength(0);
+    });
+  });
+
+  describe('timezones', () => {
+    // 2024-01-15T20:00Z is already Tuesday Jan 16 in Kiritimati (UTC+14)
+    // and still Monday Jan 15 in Pago Pago (UTC-11)
+    const instant = new Date('2024-01-15T20:00:00Z');
+
+    it('should record the completion on the user\'s calendar day east of the date line', () => {
+      const habit = Habit.create({
+        userId: testIds.user1,
+        planId: testIds.plan1,
+        title: 'Morning adhkar',
+        schedule: { freq: 'daily' },
+        streakCount: 3,
+        lastCompletedOn: new Date('2024-01-15')
+      });
+
+      habit.markCompleted(instant, 'Pacific/Kiritimati');
+
+      expect(habit.streakCount).toBe(4);
+      expect(habit.lastCompletedOn).toEqual(new Date('2024-01-16'));
+      const completedEvent = habit.getDomainEvents().find(e => e instanceof HabitCompletedEvent) as HabitCompletedEvent;
+      expect(completedEvent.completedOn).toBe('2024-01-16');
+    });
+
+    it('should treat the same instant as the previous day west of the date line', () => {
+      const habit = Habit.create({
+        userId: testIds.user1,
+        planId: testIds.plan1,
+        title: 'Morning adhkar',
+        schedule: { freq: 'daily' },
+        streakCount: 3,
+        lastCompletedOn: new Date('2024-01-15')
+      });
+
+      expect(() => habit.markCompleted(instant, 'Pacific/Pago_Pago')).toThrow('Habit already completed today');
+    });
+
+    it('should check the schedule against the user\'s weekday', () => {
+      const habit = Habit.create({
+        userId: testIds.user1,
+        planId: testIds.plan1,
+        title: 'Fast on Mondays and Thursdays',
+        schedule: { freq: 'weekly', days: [1, 4] }
+      });
+
+      expect(habit.isScheduledOn(instant, 'Pacific/Pago_Pago')).toBe(true);
+      expect(habit.isScheduledOn(instant, 'Pacific/Kiritimati')).toBe(false);
+    });
+
+    it('should undo a completion made earlier on the user\'s calendar day', () => {
+      const habit = Habit.create({
+        userId: testIds.user1,
+        planId: testIds.plan1,
+        title: 'Morning adhkar',
+        schedule: { freq: 'daily' },
+        streakCount: 2,
+        lastCompletedOn: new Date('2024-01-16')
+      });
+
+      habit.markIncomplete(instant, 'Pacific/Kiritimati', [new Date('2024-01-15'), new Date('2024-01-16')]);
+
+      expect(habit.streakCount).toBe(1);
+      expect(habit.lastCompletedOn).toEqual(new Date('2024-01-15'));
+    });
+  });
+
   describe('toDTO', () => {
     it('should serialize habit to DTO format', () => {
       const habit = Habit.create({
@@ -95,7 +95,7 @@ describe('OnboardingEntity', () => {
 
     it('should update prayer calculation flag when completing prayer-calculation step', () => {
       onboarding.completeStep('prayer-calculation', {
-        prayerCalculationMethod: 'ISNA'
+        prayerCalculationMethod: 'NorthAmerica'
       });
 
       expect(onboarding.prayerCalculationMethodSet).toBe(true);
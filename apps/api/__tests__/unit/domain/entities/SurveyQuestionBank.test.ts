@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { SurveyQuestionBank, SurveyQuestion } from '@/domain/entities/SurveyQuestionBank';
+import { DISEASES } from '@/domain/entities/SurveyResult';
+
+function buildQuestions(): SurveyQuestion[] {
+  return DISEASES.map((disease, index) => ({
+    id: `question-${index + 1}`,
+    questionId: disease,
+    disease,
+    phase: index < 4 ? 1 : 2,
+    category: index < 4 ? 'inner' : 'behavioral',
+    order: index + 1,
+    title: { en: disease },
+    prompt: { en: `How strongly do you recognise ${disease} in yourself?` }
+  }));
+}
+
+describe('SurveyQuestionBank', () => {
+  describe('create', () => {
+    it('should order questions by phase and display order', () => {
+      const bank = SurveyQuestionBank.create({ version: 1, questions: buildQuestions().reverse() });
+
+      expect(bank.version).toBe(1);
+      expect(bank.questions.map(question => question.questionId)).toEqual(DISEASES);
+      expect(bank.questionsForPhase(1).map(question => question.questionId))
+        .toEqual(['envy', 'arrogance', 'selfDeception', 'lust']);
+      expect(bank.questionsForPhase(2)).toHaveLength(7);
+    });
+
+    it('should throw error for a non-positive version', () => {
+      expect(() => SurveyQuestionBank.create({ version: 0, questions: buildQuestions() }))
+        .toThrow('Question bank version must be a positive integer');
+    });
+
+    it('should throw error for duplicate question ids', () => {
+      const questions = buildQuestions();
+      questions.push({ ...questions[0], id: 'question-12', order: 12 });
+
+      expect(() => SurveyQuestionBank.create({ version: 2, questions }))
+        .toThrow('Question envy appears more than once in bank 2');
+    });
+
+    it('should throw error when a disease has no questions', () => {
+      const questions = buildQuestions().filter(question => question.disease !== 'despair');
+
+      expect(() => SurveyQuestionBank.create({ version: 2, questions }))
+        .toThrow('Question bank 2 has no questions for: despair');
+    });
+  });
+
+  describe('toQuestionResponses', () => {
+    it('should read scores and notes for the phase questions', () => {
+      const bank = SurveyQuestionBank.create({ version: 1, questions: buildQuestions() });
+
+      const responses = bank.toQuestionResponses(1, {
+        envyScore: 3,
+        envyNote: 'Sometimes',
+        arroganceScore: 2,
+        selfDeceptionScore: 4,
+        lustScore: 1,
+        angerScore: 5 // phase 2, ignored
+      });
+
+      expect(responses.map(response => [response.questionId, response.score, response.note])).toEqual([
+        ['envy', 3, 'Sometimes'],
+        ['arrogance', 2, undefined],
+        ['selfDeception', 4, undefined],
+        ['lust', 1, undefined]
+      ]);
+    });
+
+    it('should throw error when a phase question is unanswered', () => {
+      const bank = SurveyQuestionBank.create({ version: 1, questions: buildQuestions() });
+
+      expect(() => bank.toQuestionResponses(1, { envyScore: 3, arroganceScore: 2, selfDeceptionScore: 4 }))
+        .toThrow('Missing score for question lust');
+    });
+  });
+
+  describe('scoreDiseases', () => {
+    it('should average the answers of a disease asked about more than once', () => {
+      const questions = buildQuestions();
+      questions.push({
+        ...questions[4],
+        id: 'question-12',
+        questionId: 'angerAtFamily',
+        order: 12
+      });
+      const bank = SurveyQuestionBank.create({ version: 2, questions });
+
+      const scores = bank.scoreDiseases([
+        { questionId: 'anger', score: 4 },
+        { questionId: 'angerAtFamily', score: 5 },
+        { questionId: 'envy', score: 2 },
+        { questionId: 'strongestStruggle', score: 3 }
+      ]);
+
+      expect(scores.anger).toBe(5);
+      expect(scores.envy).toBe(2);
+      expect(scores.despair).toBe(1);
+      expect(Object.keys(scores)).toHaveLength(11);
+    });
+  });
+});
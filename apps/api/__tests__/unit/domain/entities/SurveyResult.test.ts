@@ -157,6 +157,20 @@ describe('SurveyResult', () => {
         });
       }).toThrow('Daily habit must be at least 10 characters');
     });
+
+    it('should default to the first attempt and reject invalid attempt numbers', () => {
+      const params = {
+        userId: testIds.user1,
+        diseaseScores: mockDiseaseScores,
+        reflectionAnswers: mockReflectionAnswers,
+        personalizedHabits: mockPersonalizedHabits,
+        tazkiyahPlan: mockTazkiyahPlan
+      };
+
+      expect(SurveyResult.create(params).attemptNumber).toBe(1);
+      expect(SurveyResult.create({ ...params, attemptNumber: 2 }).toDTO().attemptNumber).toBe(2);
+      expect(() => SurveyResult.create({ ...params, attemptNumber: 0 })).toThrow('Attempt number must be a positive integer');
+    });
   });
 
   describe('disease categorization', () => {
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { UserStats, KHAYR_POINTS_PER_COMPLETION } from '@/domain/entities/UserStats';
+import { Achievement } from '@/domain/entities/Achievement';
+
+const TEST_USER_ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+
+const firstHabit = Achievement.create({
+  id: 'first_habit',
+  title: 'First Step',
+  description: 'Complete your first habit',
+  icon: '🌱',
+  conditionType: 'habits_completed',
+  conditionTarget: 1,
+  khayrReward: 50
+});
+
+const weekStreak = Achievement.create({
+  id: 'week_streak',
+  title: 'Weekly Warrior',
+  description: 'Maintain a 7-day streak',
+  icon: '🔥',
+  conditionType: 'streak',
+  conditionTarget: 7,
+  khayrReward: 100
+});
+
+const consistency = Achievement.create({
+  id: 'consistency_king',
+  title: 'Consistent Spirit',
+  description: 'Complete habits for 3 consecutive days',
+  icon: '👑',
+  conditionType: 'consistency',
+  conditionTarget: 3,
+  khayrReward: 250
+});
+
+describe('UserStats', () => {
+  it('starts empty at level 1', () => {
+    const stats = UserStats.create({ userId: TEST_USER_ID });
+
+    expect(stats.totalKhayrPoints).toBe(0);
+    expect(stats.level).toBe(1);
+    expect(stats.achievements).toEqual([]);
+  });
+
+  it('awards points and tracks the longest habit streak', () => {
+    const stats = UserStats.create({ userId: TEST_USER_ID });
+
+    stats.recordHabitCompletion('2024-01-15', 4);
+    stats.recordHabitCompletion('2024-01-15', 2);
+
+    expect(stats.totalKhayrPoints).toBe(2 * KHAYR_POINTS_PER_COMPLETION);
+    expect(stats.habitsCompleted).toBe(2);
+    expect(stats.longestStreak).toBe(4);
+  });
+
+  it('counts consecutive active days and restarts after a gap', () => {
+    const stats = UserStats.create({ userId: TEST_USER_ID });
+
+    stats.recordHabitCompletion('2024-01-15', 1);
+    stats.recordHabitCompletion('2024-01-16', 1);
+    stats.recordHabitCompletion('2024-01-16', 1);
+    expect(stats.currentStreak).toBe(2);
+
+    // Back-dated completion leaves the run alone
+    stats.recordHabitCompletion('2024-01-14', 1);
+    expect(stats.currentStreak).toBe(2);
+    expect(stats.lastActiveOn).toBe('2024-01-16');
+
+    stats.recordHabitCompletion('2024-01-18', 1);
+    expect(stats.currentStreak).toBe(1);
+  });
+
+  it('takes back points on revocation without going negative', () => {
+    const stats = UserStats.create({ userId: TEST_USER_ID });
+
+    stats.recordHabitCompletion('2024-01-15', 1);
+    stats.revokeHabitCompletion();
+    stats.revokeHabitCompletion();
+
+    expect(stats.totalKhayrPoints).toBe(0);
+    expect(stats.habitsCompleted).toBe(0);
+  });
+
+  it('unlocks earned achievements once and adds their reward', () => {
+    const stats = UserStats.create({ userId: TEST_USER_ID });
+    stats.recordHabitCompletion('2024-01-15', 1);
+
+    const unlocked = stats.unlockEarned([firstHabit, weekStreak]);
+
+    expect(unlocked.map(a => a.id)).toEqual(['first_habit']);
+    expect(stats.totalKhayrPoints).toBe(KHAYR_POINTS_PER_COMPLETION + 50);
+    expect(stats.unlockEarned([firstHabit, weekStreak])).toEqual([]);
+  });
+
+  it('measures progress per condition type', () => {
+    const stats = UserStats.create({ userId: TEST_USER_ID, longestStreak: 5, currentStreak: 3, habitsCompleted: 12 });
+
+    expect(stats.progressTowards(weekStreak)).toBe(5);
+    expect(stats.progressTowards(consistency)).toBe(3);
+    expect(stats.progressTowards(firstHabit)).toBe(12);
+  });
+
+  it('derives the level from points', () => {
+    const stats = UserStats.create({ userId: TEST_USER_ID, totalKhayrPoints: 260 });
+
+    expect(stats.level).toBe(2);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ContentSnippet } from '@sakinah/types';
+import { CitationGuardrail, parseReference } from '@/infrastructure/ai/CitationGuardrail';
+import { IContentRepository } from '@/domain/repositories/IContentRepository';
+import { Result } from '@/shared/result';
+
+describe('parseReference', () => {
+  it('reads Quran references with and without surah names', () => {
+    expect(parseReference('Quran 2:286')).toEqual({ kind: 'ayah', surah: 2, fromAyah: 286, toAyah: 286 });
+    expect(parseReference('Surah Ash-Sharh 94:5-6')).toEqual({ kind: 'ayah', surah: 94, fromAyah: 5, toAyah: 6 });
+  });
+
+  it('reads hadith collection and number', () => {
+    expect(parseReference('Sahih al-Bukhari 6114')).toEqual({ kind: 'hadith', collection: 'bukhari', number: 6114 });
+    expect(parseReference('Sunan Abi Dawud, Book 43, Hadith 4903')).toEqual({ kind: 'hadith', collection: 'abu-dawud', number: 4903 });
+  });
+
+  it('rejects references without a precise location', () => {
+    expect(parseReference('Quran: Various verses on envy')).toBeNull();
+    expect(parseReference('Bukhari & Muslim')).toBeNull();
+    expect(parseReference('Sunan Abu Dawud')).toBeNull();
+    expect(parseReference('Quran 200:1')).toBeNull();
+  });
+});
+
+describe('CitationGuardrail', () => {
+  const library: ContentSnippet[] = [
+    {
+      id: 'ayah-94-5',
+      type: 'ayah',
+      text: 'For indeed, with hardship will be ease.',
+      ref: 'Surah Ash-Sharh 94:5',
+      tags: ['hope', 'patience'],
+      createdAt: '2023-01-01T00:00:00.000Z'
+    },
+    {
+      id: 'hadith-anger',
+      type: 'hadith',
+      text: 'The strong man is not the one who wrestles, but the one who controls himself in anger.',
+      ref: 'Sahih al-Bukhari 6114',
+      tags: ['anger'],
+      createdAt: '2023-01-01T00:00:00.000Z'
+    },
+    {
+      id: 'hadith-brotherhood',
+      type: 'hadith',
+      text: 'None of you truly believes until he loves for his brother what he loves for himself.',
+      ref: 'Bukhari & Muslim',
+      tags: ['envy', 'brotherhood'],
+      createdAt: '2023-01-01T00:00:00.000Z'
+    }
+  ];
+
+  let contentRepository: IContentRepository;
+  let guardrail: CitationGuardrail;
+
+  beforeEach(() => {
+    contentRepository = {
+      findByTags: vi.fn(),
+      findById: vi.fn(),
+      findAll: vi.fn().mockResolvedValue(Result.ok(library)),
+      findWithFilter: vi.fn(),
+      findTranslations: vi.fn()
+    };
+    guardrail = new CitationGuardrail(contentRepository);
+  });
+
+  it('resolves references to library snippets and flags the rest', async () => {
+    const result = await guardrail.verifyRefs(['Quran 94:5-6', 'Bukhari 6114', 'Quran 2:286', 'Hadith: Prophetic guidance on anger']);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.citations.map(citation => citation.snippetId)).toEqual(['ayah-94-5', 'hadith-anger']);
+    expect(result.value.citations[0]).toEqual({
+      snippetId: 'ayah-94-5',
+      type: 'ayah',
+      ref: 'Surah Ash-Sharh 94:5',
+      text: 'For indeed, with hardship will be ease.'
+    });
+    expect(result.value.unverified).toEqual(['Quran 2:286', 'Hadith: Prophetic guidance on anger']);
+  });
+
+  it('accepts cited snippet ids and their refs without a precise location', async () => {
+    const result = await guardrail.verifyRefs(['Bukhari & Muslim'], ['hadith-brotherhood', 'not-in-library']);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.citations.map(citation => citation.snippetId)).toEqual(['hadith-brotherhood']);
+    expect(result.value.unverified).toEqual([]);
+  });
+
+  it('swaps generated snippets for their library versions', async () => {
+    const generated: ContentSnippet[] = [
+      { ...library[0], id: 'generated-1', text: 'paraphrased text' },
+      { ...library[1] },
+      { id: 'generated-2', type: 'hadith', text: 'Take account of yourselves', ref: 'Umar ibn al-Khattab', tags: [], createdAt: '2023-01-01T00:00:00.000Z' }
+    ];
+
+    const result = await guardrail.verifySnippets(generated);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.verified.get('generated-1')).toEqual(library[0]);
+    expect(result.value.verified.get('hadith-anger')).toEqual(library[1]);
+    expect(result.value.verified.has('generated-2')).toBe(false);
+    expect(result.value.unverified).toEqual(['Umar ibn al-Khattab']);
+  });
+
+  it('returns an error when the library cannot be loaded', async () => {
+    vi.mocked(contentRepository.findAll).mockResolvedValue(Result.error(new Error('Database error')));
+
+    const result = await guardrail.verifyRefs(['Quran 94:5']);
+
+    expect(result.ok).toBe(false);
+  });
+});
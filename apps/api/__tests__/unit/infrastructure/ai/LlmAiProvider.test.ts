@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ContentSnippet } from '@sakinah/types';
+import { LlmAiProvider } from '@/infrastructure/ai/LlmAiProvider';
+import { LlmClient, getLlmConfig } from '@/infrastructure/ai/LlmClient';
+import { IContentRepository } from '@/domain/repositories/IContentRepository';
+import { Result } from '@/shared/result';
+
+describe('LlmAiProvider', () => {
+  const snippets: ContentSnippet[] = [
+    {
+      id: 'snippet-envy',
+      type: 'hadith',
+      text: 'Beware of envy, for envy devours good deeds just as fire devours firewood.',
+      ref: 'Abu Dawud 4903',
+      tags: ['envy', 'hasad'],
+      createdAt: '2023-01-01T00:00:00.000Z'
+    },
+    {
+      id: 'snippet-gratitude',
+      type: 'ayah',
+      text: 'If you are grateful, I will surely increase you.',
+      ref: 'Quran 14:7',
+      tags: ['gratitude', 'shukr'],
+      createdAt: '2023-01-01T00:00:00.000Z'
+    }
+  ];
+
+  let client: LlmClient & { complete: ReturnType<typeof vi.fn> };
+  let contentRepository: IContentRepository;
+  let provider: LlmAiProvider;
+
+  beforeEach(() => {
+    client = { complete: vi.fn() };
+    contentRepository = {
+      findByTags: vi.fn().mockResolvedValue(Result.ok(snippets)),
+      findById: vi.fn(),
+      findAll: vi.fn(),
+      findWithFilter: vi.fn(),
+      findTranslations: vi.fn()
+    };
+    provider = new LlmAiProvider(client, contentRepository);
+  });
+
+  it('grounds the prompt in library snippets and returns the parsed plan', async () => {
+    client.complete.mockResolvedValue('```json\n' + JSON.stringify({
+      microHabits: [{ title: 'Make dua for the person you envy', schedule: 'daily', target: 1 }],
+      tags: ['Envy'],
+      guidance: 'Envy consumes good deeds; answer it with dua.',
+      snippetIds: ['snippet-envy']
+    }) + '\n```');
+
+    const suggestion = await provider.suggest({ mode: 'takhliyah', text: 'I struggle with envy' });
+
+    const prompt = client.complete.mock.calls[0][0].map((message: { content: string }) => message.content).join('\n');
+    expect(prompt).toContain('[snippet-envy] (hadith, Abu Dawud 4903)');
+    expect(suggestion.microHabits).toEqual([{ title: 'Make dua for the person you envy', schedule: 'daily', target: 1 }]);
+    expect(suggestion.tags).toEqual(['envy', 'hasad']);
+    expect(suggestion.guidance).toBe('Envy consumes good deeds; answer it with dua.');
+    expect(suggestion.snippetIds).toEqual(['snippet-envy']);
+  });
+
+  it('falls back to the rules provider when the reply does not match the schema', async () => {
+    client.complete.mockResolvedValue(JSON.stringify({ guidance: 'No habits here' }));
+
+    const suggestion = await provider.suggest({ mode: 'takhliyah', text: 'I struggle with envy' });
+
+    expect(suggestion.guidance).toContain('Envy corrodes the heart');
+  });
+
+  it('falls back when the reply cites sources it was not given', async () => {
+    client.complete.mockResolvedValue(JSON.stringify({
+      guidance: 'As the scholar said...',
+      snippetIds: ['made-up-source']
+    }));
+
+    const explanation = await provider.explain({ struggle: 'anger' });
+
+    expect(explanation.guidance).toBe('Anger is from Shaytan. Cool it with wudu and remembrance.');
+  });
+
+  it('falls back when the endpoint fails or the circuit is open', async () => {
+    client.complete.mockRejectedValue(new Error("Circuit breaker 'OpenAiCompatibleClient.complete' is OPEN"));
+
+    const suggestion = await provider.suggest({ mode: 'tahliyah', text: 'patience' });
+
+    expect(suggestion.tags).toContain('sabr');
+  });
+
+  it('returns the refs of the cited snippets for explanations', async () => {
+    client.complete.mockResolvedValue(JSON.stringify({
+      guidance: 'Gratitude increases blessings.',
+      snippetIds: ['snippet-gratitude']
+    }));
+
+    const explanation = await provider.explain({ struggle: 'ingratitude' });
+
+    expect(explanation).toEqual({
+      guidance: 'Gratitude increases blessings.',
+      refs: ['Quran 14:7'],
+      snippetIds: ['snippet-gratitude']
+    });
+  });
+});
+
+describe('getLlmConfig', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.LLM_BASE_URL;
+    delete process.env.LLM_API_KEY;
+    delete process.env.LLM_MODEL;
+    delete process.env.OPENAI_API_KEY;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('is null for the hosted OpenAI API without a key', () => {
+    expect(getLlmConfig()).toBeNull();
+  });
+
+  it('accepts the legacy OPENAI_API_KEY', () => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+
+    expect(getLlmConfig()).toEqual({ baseUrl: 'https://api.openai.com/v1', apiKey: 'sk-test', model: 'gpt-4o-mini' });
+  });
+
+  it('allows a keyless local server', () => {
+    process.env.LLM_BASE_URL = 'http://localhost:11434/v1/';
+    process.env.LLM_MODEL = 'llama3.1';
+
+    expect(getLlmConfig()).toEqual({ baseUrl: 'http://localhost:11434/v1', apiKey: null, model: 'llama3.1' });
+  });
+});
@@ -65,7 +65,8 @@ describe('SurveyAiProvider', () => {
       findByTags: vi.fn(),
       findById: vi.fn(),
       findAll: vi.fn(),
-      findWithFilter: vi.fn()
+      findWithFilter: vi.fn(),
+      findTranslations: vi.fn()
     };
 
     surveyAiProvider = new SurveyAiProvider(mockContentRepository);
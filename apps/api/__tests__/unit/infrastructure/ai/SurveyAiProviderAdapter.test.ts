@@ -48,8 +48,9 @@ describe('SurveyAiProviderAdapter', () => {
     mockContentRepository = {
       findByTags: vi.fn().mockResolvedValue(Result.ok(mockContentSnippets)),
       findById: vi.fn(),
-      findAll: vi.fn(),
-      findWithFilter: vi.fn()
+      findAll: vi.fn().mockResolvedValue(Result.ok(mockContentSnippets)),
+      findWithFilter: vi.fn(),
+      findTranslations: vi.fn()
     };
 
     adapter = new SurveyAiProviderAdapter(mockContentRepository);
@@ -120,6 +121,25 @@ describe('SurveyAiProviderAdapter', () => {
     });
   });
 
+  describe('citation guardrail', () => {
+    it('keeps only Islamic content that exists in the content library', async () => {
+      const plan = await adapter.generateTazkiyahPlan(sampleParams);
+      const basis = plan.phases.flatMap(phase => phase.practices.flatMap(practice => practice.islamicBasis));
+
+      // Built-in practices cite references such as "Umar ibn al-Khattab" that are not in the library
+      expect(basis.length).toBeGreaterThan(0);
+      basis.forEach(snippet => expect(snippet.id).toBe('1'));
+    });
+
+    it('drops all content when the library cannot be loaded', async () => {
+      vi.mocked(mockContentRepository.findAll).mockResolvedValue(Result.error(new Error('Database error')));
+
+      const habits = await adapter.generatePersonalizedHabits(sampleParams);
+
+      habits.forEach(habit => expect(habit.islamicContent).toEqual([]));
+    });
+  });
+
   describe('Dependency Injection', () => {
     it('should properly inject the content repository', () => {
       expect(adapter).toBeDefined();
@@ -142,8 +162,9 @@ describe('SurveyAiProviderAdapter', () => {
           }
         ])),
         findById: vi.fn(),
-        findAll: vi.fn(),
-        findWithFilter: vi.fn()
+        findAll: vi.fn().mockResolvedValue(Result.ok([])),
+        findWithFilter: vi.fn(),
+        findTranslations: vi.fn()
       };
 
       const alternativeAdapter = new SurveyAiProviderAdapter(alternativeContentRepo);
@@ -13,8 +13,9 @@ describe('getSurveyAIProvider', () => {
     mockContentRepository = {
       findByTags: vi.fn().mockResolvedValue(Result.ok([])),
       findById: vi.fn(),
-      findAll: vi.fn(),
-      findWithFilter: vi.fn()
+      findAll: vi.fn().mockResolvedValue(Result.ok([])),
+      findWithFilter: vi.fn(),
+      findTranslations: vi.fn()
     };
 
     // Register the mock in the container
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { DevelopmentDatabaseClient } from '@/infrastructure/database/sqlite/development';
+import {
+  normalizeSearchText,
+  parseSearchQuery,
+  toFtsMatchExpression,
+  formatHighlight,
+  HIGHLIGHT_START,
+  HIGHLIGHT_END
+} from '@/infrastructure/database/journalSearch';
+
+describe('journal search helpers', () => {
+  it('folds harakat, tatweel and letter variants', () => {
+    expect(normalizeSearchText('الْحَمْدُ لِلّٰهِ')).toBe('الحمد لله');
+    expect(normalizeSearchText('إيمان')).toBe('ايمان');
+    expect(normalizeSearchText('صلاة على')).toBe('صلاه علي');
+    expect(normalizeSearchText('صبــر')).toBe('صبر');
+  });
+
+  it('parses words, phrases and exclusions', () => {
+    expect(parseSearchQuery('grateful "after fajr" -work')).toEqual({
+      terms: ['grateful'],
+      phrases: ['after fajr'],
+      excluded: ['work']
+    });
+  });
+
+  it('quotes every term so user input cannot inject FTS operators', () => {
+    expect(toFtsMatchExpression(parseSearchQuery('NEAR(a b) OR "x""y" -z'))).toBe('"x" "y" "NEAR(a" "b)" "OR" NOT "z"');
+    expect(toFtsMatchExpression(parseSearchQuery('-work'))).toBeNull();
+  });
+
+  it('escapes entry text before marking matches', () => {
+    expect(formatHighlight(`<b>${HIGHLIGHT_START}sabr${HIGHLIGHT_END}</b>`)).toBe('&lt;b&gt;<mark>sabr</mark>&lt;/b&gt;');
+    expect(formatHighlight(null)).toBeNull();
+  });
+});
+
+describe('DevelopmentDatabaseClient.searchJournals', () => {
+  const userId = '12345678-1234-4567-8901-123456789012';
+  const originalPath = process.env.DATABASE_PATH;
+  let directory: string;
+  let db: DevelopmentDatabaseClient;
+
+  beforeAll(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'journal-search-'));
+    process.env.DATABASE_PATH = relative(process.cwd(), join(directory, 'test.sqlite'));
+    db = new DevelopmentDatabaseClient();
+
+    await db.createJournalEntry({ userId, content: 'الْحَمْدُ لِلَّهِ for a calm morning after fajr', tags: ['Shukr'] });
+    await db.createJournalEntry({ userId, content: 'Struggled with anger at work, praying for patience', tags: ['anger'] });
+    await db.createJournalEntry({ userId, content: 'I prayed fajr late and felt the anger fade', tags: ['prayer'] });
+  });
+
+  afterAll(() => {
+    process.env.DATABASE_PATH = originalPath;
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('matches Arabic without harakat and highlights the original text', async () => {
+    const result = await db.searchJournals(userId, { query: 'الحمد' });
+
+    expect(result.error).toBeNull();
+    expect(result.data!.total).toBe(1);
+    expect(result.data!.hits[0].highlight).toContain('<mark>الْحَمْدُ</mark>');
+  });
+
+  it('stems English words and respects phrases and exclusions', async () => {
+    const stemmed = await db.searchJournals(userId, { query: 'pray' });
+    expect(stemmed.data!.total).toBe(2);
+
+    const phrase = await db.searchJournals(userId, { query: '"after fajr"' });
+    expect(phrase.data!.hits.map(hit => hit.entry.tags)).toEqual([['Shukr']]);
+
+    const excluded = await db.searchJournals(userId, { query: 'anger -work' });
+    expect(excluded.data!.hits.map(hit => hit.entry.tags)).toEqual([['prayer']]);
+  });
+
+  it('filters by tag and date range, and keeps the index in step with edits', async () => {
+    const tagged = await db.searchJournals(userId, { tags: ['shukr'] });
+    expect(tagged.data!.total).toBe(1);
+    expect(tagged.data!.hits[0].highlight).toBeNull();
+
+    const future = await db.searchJournals(userId, { query: 'fajr', from: '2999-01-01T00:00:00.000Z' });
+    expect(future.data!.total).toBe(0);
+
+    const entry = tagged.data!.hits[0].entry;
+    await db.updateJournal(entry.id, userId, { content: 'A quiet evening of dhikr' });
+    expect((await db.searchJournals(userId, { query: 'morning' })).data!.total).toBe(0);
+    expect((await db.searchJournals(userId, { query: 'dhikr' })).data!.total).toBe(1);
+
+    await db.deleteJournal(entry.id, userId);
+    expect((await db.searchJournals(userId, { query: 'dhikr' })).data!.total).toBe(0);
+  });
+});
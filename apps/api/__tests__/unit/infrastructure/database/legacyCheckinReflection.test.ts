@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { splitLegacyReflection } from '@/infrastructure/database/legacyCheckinReflection';
+
+describe('splitLegacyReflection', () => {
+  it('splits the reflection, numbered gratitude items and improvements', () => {
+    expect(splitLegacyReflection(
+      'Was patient today\n\nGratitude:\n1. Health\n2. Family\n\nImprovements:\nPray Fajr on time'
+    )).toEqual({
+      reflection: 'Was patient today',
+      gratitude: ['Health', 'Family'],
+      improvements: 'Pray Fajr on time'
+    });
+  });
+
+  it('handles check-ins that only had gratitude or improvements', () => {
+    expect(splitLegacyReflection('Gratitude:\n1. Rain')).toEqual({
+      reflection: null,
+      gratitude: ['Rain'],
+      improvements: null
+    });
+    expect(splitLegacyReflection('Improvements:\nSleep earlier')).toEqual({
+      reflection: null,
+      gratitude: [],
+      improvements: 'Sleep earlier'
+    });
+  });
+
+  it('leaves ordinary reflections alone', () => {
+    expect(splitLegacyReflection('Gratitude: for small things')).toEqual({
+      reflection: 'Gratitude: for small things',
+      gratitude: [],
+      improvements: null
+    });
+  });
+});
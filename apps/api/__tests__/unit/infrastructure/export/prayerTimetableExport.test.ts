@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { renderPrayerTimetableIcs } from '@/infrastructure/export/prayerTimetableIcs';
+import { renderPrayerTimetablePdf } from '@/infrastructure/export/prayerTimetablePdf';
+import { PrayerTimetable } from '@/application/usecases/GetPrayerTimetableUseCase';
+import { Location } from '@/domain/value-objects/Location';
+import { CalculationMethod } from '@/domain/value-objects/CalculationMethod';
+import { addDays } from '@/shared/timezone';
+import { toHijri } from '@/shared/hijri';
+
+function buildTimetable(overrides: Partial<PrayerTimetable> = {}): PrayerTimetable {
+  const days = Array.from({ length: 31 }, (_, index) => {
+    const date = addDays('2024-03-01', index);
+    const at = (time: string) => new Date(`${date}T${time}:00.000Z`);
+    return {
+      date,
+      hijri: toHijri(date),
+      times: {
+        fajr: at('02:05'),
+        sunrise: at('03:25'),
+        dhuhr: at('09:10'),
+        asr: at('12:30'),
+        maghrib: at('14:55'),
+        isha: at('16:15')
+      }
+    };
+  });
+
+  return {
+    month: '2024-03',
+    location: Location.create({ latitude: 21.4225, longitude: 39.8262, city: 'Makkah', country: 'Saudi Arabia', timezone: 'Asia/Riyadh' }),
+    timezone: 'Asia/Riyadh',
+    calculationMethod: CalculationMethod.create('UmmAlQura'),
+    qiblaDirection: 0,
+    locale: 'en',
+    days,
+    ...overrides
+  };
+}
+
+describe('prayer timetable exports', () => {
+  describe('renderPrayerTimetableIcs', () => {
+    it('should have one event per prayer per day, without sunrise', () => {
+      const ics = renderPrayerTimetableIcs(buildTimetable());
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(31 * 5);
+      expect(ics).not.toContain('SUMMARY:Sunrise');
+      expect(ics).toContain('DTSTART:20240301T020500Z');
+      expect(ics).toContain('UID:2024-03-01-fajr-21.4225_39.8262@sakinah');
+      expect(ics).toContain('DESCRIPTION:20 Sha\'ban 1445 AH');
+      expect(ics).toContain('LOCATION:Makkah\\, Saudi Arabia');
+    });
+
+    it('should only add alarms to the prayers given', () => {
+      const ics = renderPrayerTimetableIcs(buildTimetable(), { alarms: { fajr: 30, isha: 0 } });
+
+      expect(ics.match(/BEGIN:VALARM/g)).toHaveLength(31 * 2);
+      expect(ics).toContain('TRIGGER:-PT30M');
+      expect(ics).toContain('TRIGGER:-PT0M');
+    });
+
+    it('should name events in the user\'s language and fold long lines', () => {
+      const ics = renderPrayerTimetableIcs(buildTimetable({ locale: 'ar' }));
+
+      expect(ics).toContain('SUMMARY:الفجر');
+      for (const line of ics.split('\r\n')) {
+        expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      }
+    });
+  });
+
+  describe('renderPrayerTimetablePdf', () => {
+    it('should render a single-page PDF with the Arabic font embedded', async () => {
+      const pdf = await renderPrayerTimetablePdf(buildTimetable(), new Date('2024-02-28T00:00:00Z'));
+      const content = pdf.toString('latin1');
+
+      expect(content.startsWith('%PDF-')).toBe(true);
+      expect(content).toContain('Amiri');
+      expect(content.match(/\/Type \/Page\b/g)).toHaveLength(1);
+    });
+  });
+});
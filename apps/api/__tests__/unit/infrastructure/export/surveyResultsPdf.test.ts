@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { v4 as uuidv4 } from 'uuid';
+import { renderSurveyResultsPdf } from '@/infrastructure/export/surveyResultsPdf';
+import { SurveyResult, PersonalizedHabit, TazkiyahPhase } from '@/domain/entities/SurveyResult';
+
+function buildResult(): SurveyResult {
+  const habits: PersonalizedHabit[] = Array.from({ length: 6 }, (_, index) => ({
+    id: `habit-${index + 1}`,
+    title: `Habit ${index + 1}`,
+    description: 'Seek refuge in Allah from the accursed devil when anger rises, then sit down or make wudu.',
+    frequency: 'daily',
+    targetDisease: 'anger',
+    difficultyLevel: 'moderate',
+    estimatedDuration: '5 minutes',
+    islamicContentIds: ['content-1']
+  }));
+  const phases: TazkiyahPhase[] = [1, 2, 3].map(phaseNumber => ({
+    phaseNumber,
+    title: `Phase title ${phaseNumber}`,
+    description: 'Notice the moments the disease begins and respond with remembrance.',
+    targetDiseases: ['anger', 'loveOfDunya'],
+    duration: '2 weeks',
+    practices: [{
+      name: 'Evening muhasabah',
+      type: 'reflection',
+      description: 'Review the day before sleeping',
+      frequency: 'daily',
+      islamicContentIds: []
+    }],
+    checkpoints: ['Named three triggers', 'Went a week without raising my voice']
+  }));
+
+  return SurveyResult.create({
+    userId: uuidv4(),
+    attemptNumber: 2,
+    diseaseScores: {
+      envy: 4, arrogance: 3, selfDeception: 2, lust: 2, anger: 5, malice: 1,
+      backbiting: 3, suspicion: 2, loveOfDunya: 4, laziness: 3, despair: 1
+    },
+    reflectionAnswers: {
+      strongestStruggle: 'Holding back anger with my family',
+      dailyHabit: 'Dhikr after every prayer'
+    },
+    personalizedHabits: habits,
+    tazkiyahPlan: {
+      criticalDiseases: ['envy', 'anger', 'loveOfDunya'],
+      planType: 'takhliyah',
+      phases,
+      expectedDuration: '6 weeks',
+      milestones: []
+    },
+    generatedAt: new Date('2024-03-21T10:00:00Z')
+  });
+}
+
+describe('renderSurveyResultsPdf', () => {
+  it('should render a multi-page PDF with Arabic content', async () => {
+    const pdf = await renderSurveyResultsPdf({
+      result: buildResult(),
+      content: [{
+        id: 'content-1',
+        type: 'hadith',
+        text: 'The strong one is not the one who overcomes people, but the one who controls himself when angry.',
+        ref: 'Sahih al-Bukhari 6114',
+        tags: ['anger'],
+        createdAt: '2024-01-01T00:00:00.000Z',
+        arabicText: 'ليس الشديد بالصرعة'
+      }]
+    }, new Date('2024-03-21T12:00:00Z'));
+
+    const raw = pdf.toString('latin1');
+    expect(raw.startsWith('%PDF-')).toBe(true);
+    expect(raw.match(/\/Type \/Page\b/g)!.length).toBeGreaterThan(1);
+    expect(raw).toContain('/FontName /');
+  });
+
+  it('should render without habits, plan phases or content', async () => {
+    const result = buildResult();
+    const empty = SurveyResult.create({
+      userId: result.userId.toString(),
+      diseaseScores: Object.fromEntries(result.diseaseScores) as any,
+      reflectionAnswers: result.reflectionAnswers,
+      personalizedHabits: [],
+      tazkiyahPlan: { ...result.tazkiyahPlan, phases: [] }
+    });
+
+    const pdf = await renderSurveyResultsPdf({ result: empty, content: [] });
+
+    expect(pdf.toString('latin1').startsWith('%PDF-')).toBe(true);
+  });
+});
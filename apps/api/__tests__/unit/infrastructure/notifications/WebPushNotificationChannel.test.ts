@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { WebPushNotificationChannel, toPushMessage } from '@/infrastructure/notifications/WebPushNotificationChannel';
+import { WebPushSender } from '@/infrastructure/notifications/WebPushSender';
+import { IPushSubscriptionRepository } from '@/domain/repositories/IPushSubscriptionRepository';
+import { PushSubscription } from '@/domain/entities/PushSubscription';
+import { Notification } from '@/domain/entities/Notification';
+import { Result } from '@/shared/result';
+
+const USER_ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+
+const mockSubscriptionRepository: IPushSubscriptionRepository = {
+  save: vi.fn(),
+  findByUserId: vi.fn(),
+  delete: vi.fn(),
+  deleteByEndpoint: vi.fn()
+};
+
+const mockSender = { send: vi.fn() } as unknown as WebPushSender;
+
+function subscription(endpoint: string): PushSubscription {
+  return PushSubscription.create({
+    userId: USER_ID,
+    endpoint,
+    keys: { p256dh: 'BNcRdreALRFXTkOOUHK1EtK2wtaz5Ry4YfYCA', auth: 'tBHItJI5svbpez7KI4CCXg' }
+  });
+}
+
+function fajrReminder(): Notification {
+  return Notification.create({
+    userId: USER_ID,
+    type: 'fajr_reminder',
+    title: 'Fajr is approaching',
+    body: 'Fajr begins in 15 minutes.',
+    data: { date: '2024-03-11' },
+    dedupeKey: 'fajr:2024-03-11',
+    scheduledFor: new Date('2024-03-11T04:45:00.000Z')
+  });
+}
+
+describe('WebPushNotificationChannel', () => {
+  let channel: WebPushNotificationChannel;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mockSubscriptionRepository.deleteByEndpoint).mockResolvedValue(Result.ok(undefined));
+    channel = new WebPushNotificationChannel(mockSubscriptionRepository, mockSender);
+  });
+
+  it('builds a payload that deep-links to the relevant screen', () => {
+    const message = toPushMessage(fajrReminder());
+
+    expect(JSON.parse(message.payload)).toMatchObject({
+      type: 'fajr_reminder',
+      title: 'Fajr is approaching',
+      tag: 'fajr:2024-03-11',
+      url: '/dashboard#prayer-times',
+      data: { date: '2024-03-11' }
+    });
+    expect(message.urgency).toBe('high');
+    expect(message.ttlSeconds).toBe(3600);
+  });
+
+  it('succeeds when any device accepts the message and forgets gone endpoints', async () => {
+    const gone = subscription('https://push.example.com/gone');
+    const active = subscription('https://push.example.com/active');
+    vi.mocked(mockSubscriptionRepository.findByUserId).mockResolvedValue(Result.ok([gone, active]));
+    vi.mocked(mockSender.send)
+      .mockResolvedValueOnce(Result.ok('gone'))
+      .mockResolvedValueOnce(Result.ok('sent'));
+
+    const result = await channel.deliver(fajrReminder());
+
+    expect(Result.isOk(result)).toBe(true);
+    expect(mockSender.send).toHaveBeenCalledTimes(2);
+    expect(mockSubscriptionRepository.deleteByEndpoint).toHaveBeenCalledWith('https://push.example.com/gone');
+  });
+
+  it('fails when the user has no subscribed devices', async () => {
+    vi.mocked(mockSubscriptionRepository.findByUserId).mockResolvedValue(Result.ok([]));
+
+    const result = await channel.deliver(fajrReminder());
+
+    expect(Result.isError(result) && result.error.message).toBe('No push subscriptions');
+    expect(mockSender.send).not.toHaveBeenCalled();
+  });
+
+  it('fails with the push service errors when no device accepted the message', async () => {
+    vi.mocked(mockSubscriptionRepository.findByUserId).mockResolvedValue(Result.ok([subscription('https://push.example.com/a')]));
+    vi.mocked(mockSender.send).mockResolvedValue(Result.error(new Error('Received unexpected response code 500')));
+
+    const result = await channel.deliver(fajrReminder());
+
+    expect(Result.isError(result) && result.error.message).toBe('Received unexpected response code 500');
+    expect(mockSubscriptionRepository.deleteByEndpoint).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { DevelopmentDatabaseClient } from '@/infrastructure/database/sqlite/development';
+import { SurveyQuestionRepositoryAdapter } from '@/infrastructure/repos/SurveyQuestionRepositoryAdapter';
+import { Result } from '@/shared/result';
+
+describe('SurveyQuestionRepositoryAdapter (SQLite)', () => {
+  const originalPath = process.env.DATABASE_PATH;
+  let directory: string;
+  let repository: SurveyQuestionRepositoryAdapter;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'survey-questions-'));
+    process.env.DATABASE_PATH = relative(process.cwd(), join(directory, 'test.sqlite'));
+    repository = new SurveyQuestionRepositoryAdapter(new DevelopmentDatabaseClient());
+  });
+
+  afterAll(() => {
+    process.env.DATABASE_PATH = originalPath;
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('loads the seeded bank with both locales', async () => {
+    const result = await repository.getActiveBank();
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      const bank = result.value;
+      expect(bank.version).toBe(1);
+      expect(bank.questionsForPhase(1).map(question => question.questionId))
+        .toEqual(['envy', 'arrogance', 'selfDeception', 'lust']);
+      expect(bank.questionsForPhase(2)).toHaveLength(7);
+      expect(bank.questions[0].title).toEqual({ en: 'Envy and Jealousy', ar: expect.any(String) });
+      expect(bank.questions[0].prompt.en).toContain('envious');
+    }
+  });
+
+  it('returns null for an unknown version', async () => {
+    const result = await repository.getBank(99);
+
+    expect(Result.isOk(result)).toBe(true);
+    if (Result.isOk(result)) {
+      expect(result.value).toBeNull();
+    }
+  });
+});
@@ -175,6 +175,7 @@ describe('SurveyRepositoryAdapter', () => {
       const dbResult = {
         id: 'result-123',
         userId: 'user-123',
+        attemptNumber: 1,
         diseaseScores: { envy: 4, arrogance: 2 },
         criticalDiseases: ['envy'],
         reflectionAnswers: {
@@ -222,6 +223,7 @@ describe('SurveyRepositoryAdapter', () => {
 
       const dbProgress = {
         userId: 'user-123',
+        attemptNumber: 1,
         currentPhase: 2,
         phase1Completed: true,
         phase2Completed: false,
@@ -252,6 +254,7 @@ describe('SurveyRepositoryAdapter', () => {
       const dbProgress = {
         userId: 'user-123',
         currentPhase: 3,
+        attemptNumber: 1,
         phase1Completed: true,
         phase2Completed: true,
         reflectionCompleted: false,
@@ -410,6 +413,7 @@ describe('SurveyRepositoryAdapter', () => {
         result: {
           id: 'result-123',
           userId: 'user-123',
+          attemptNumber: 1,
           diseaseScores: { envy: 3 },
           criticalDiseases: [],
           reflectionAnswers: {},
@@ -421,6 +425,7 @@ describe('SurveyRepositoryAdapter', () => {
         },
         progress: {
           userId: 'user-123',
+          attemptNumber: 1,
           currentPhase: 1,
           phase1Completed: false,
           phase2Completed: false,
@@ -44,6 +44,7 @@ describe('Journal V1 Routes', () => {
     // Mock use case
     mockUseCase = {
       getUserEntries: vi.fn(),
+      searchEntries: vi.fn(),
       getEntry: vi.fn(),
       createEntry: vi.fn(),
       updateEntry: vi.fn(),
@@ -596,12 +597,12 @@ describe('Journal V1 Routes', () => {
 
   describe('GET /api/v1/journal/search', () => {
     it('should search journal entries with query', async () => {
-      const entries = [
-        createMockEntry({ id: '1', content: 'Morning prayer reflection' }),
-        createMockEntry({ id: '2', content: 'Evening gratitude' })
+      const hits = [
+        { entry: createMockEntry({ id: '1', content: 'Morning prayer reflection' }), rank: 2.5, highlight: 'Morning <mark>prayer</mark> reflection' },
+        { entry: createMockEntry({ id: '2', content: 'Prayed before work' }), rank: 1.1, highlight: '<mark>Prayed</mark> before work' }
       ];
 
-      (mockUseCase.getUserEntries as Mock).mockResolvedValue(Result.ok(entries));
+      (mockUseCase.searchEntries as Mock).mockResolvedValue(Result.ok({ hits, total: 2 }));
 
       const response = await request(app)
         .get('/api/v1/journal/search?q=prayer')
@@ -612,14 +613,24 @@ describe('Journal V1 Routes', () => {
         pagination: expect.any(Object),
         search: {
           query: 'prayer',
-          tags: null
+          tags: null,
+          from: null,
+          to: null
         }
       });
 
-      // Should sort by relevance (content match first)
-      expect(response.body.entries[0].content).toContain('prayer');
+      // Entries keep the ranked order and carry their highlights
+      expect(response.body.entries[0]).toMatchObject({ id: '1', rank: 2.5, highlight: 'Morning <mark>prayer</mark> reflection' });
 
-      expect(mockUseCase.getUserEntries).toHaveBeenCalledWith('test-user-id', 'prayer');
+      expect(mockUseCase.searchEntries).toHaveBeenCalledWith({
+        userId: 'test-user-id',
+        text: 'prayer',
+        tags: undefined,
+        from: undefined,
+        to: undefined,
+        page: 1,
+        limit: 20
+      });
     });
 
     it('should require search query', async () => {
@@ -650,45 +661,46 @@ describe('Journal V1 Routes', () => {
       });
     });
 
-    it('should handle search with tag filtering', async () => {
-      const entries = [
-        createMockEntry({
-          id: '1',
-          content: 'Prayer time',
-          tags: ['prayer', 'morning']
-        }),
-        createMockEntry({
-          id: '2',
-          content: 'Prayer reflection',
-          tags: ['prayer', 'evening']
-        })
+    it('should handle search with tag filtering and date range', async () => {
+      const hits = [
+        { entry: createMockEntry({ id: '1', content: 'Prayer time', tags: ['prayer', 'morning'] }), rank: 1, highlight: '<mark>Prayer</mark> time' }
       ];
 
-      (mockUseCase.getUserEntries as Mock).mockResolvedValue(Result.ok(entries));
+      (mockUseCase.searchEntries as Mock).mockResolvedValue(Result.ok({ hits, total: 1 }));
 
       const response = await request(app)
-        .get('/api/v1/journal/search?q=prayer&tags=morning')
+        .get('/api/v1/journal/search?q=prayer&tags=morning&from=2024-01-01&to=2024-01-31')
         .expect(200);
 
       expect(response.body.search).toMatchObject({
         query: 'prayer',
-        tags: ['morning']
+        tags: ['morning'],
+        from: '2024-01-01',
+        to: '2024-01-31'
       });
+      expect(mockUseCase.searchEntries).toHaveBeenCalledWith(expect.objectContaining({
+        tags: ['morning'],
+        from: '2024-01-01',
+        to: '2024-01-31'
+      }));
+    });
 
-      // Should return only entries with 'morning' tag
-      expect(response.body.entries.length).toBe(1);
-      expect(response.body.entries[0].tags).toContain('morning');
+    it('should reject a date range that ends before it starts', async () => {
+      await request(app)
+        .get('/api/v1/journal/search?q=prayer&from=2024-02-01&to=2024-01-01')
+        .expect(400);
+
+      expect(mockUseCase.searchEntries).not.toHaveBeenCalled();
     });
 
     it('should handle search pagination', async () => {
-      const entries = Array.from({ length: 25 }, (_, i) =>
-        createMockEntry({
-          id: `${i + 1}`,
-          content: `Prayer entry ${i + 1}`
-        })
-      );
+      const hits = Array.from({ length: 10 }, (_, i) => ({
+        entry: createMockEntry({ id: `${i + 11}`, content: `Prayer entry ${i + 11}` }),
+        rank: 1,
+        highlight: null
+      }));
 
-      (mockUseCase.getUserEntries as Mock).mockResolvedValue(Result.ok(entries));
+      (mockUseCase.searchEntries as Mock).mockResolvedValue(Result.ok({ hits, total: 25 }));
 
       const response = await request(app)
         .get('/api/v1/journal/search?q=prayer&page=2&limit=10')
@@ -704,11 +716,11 @@ describe('Journal V1 Routes', () => {
       });
 
       expect(response.body.entries.length).toBe(10);
+      expect(mockUseCase.searchEntries).toHaveBeenCalledWith(expect.objectContaining({ page: 2, limit: 10 }));
     });
 
     it('should limit search pagination', async () => {
-      const entries = [createMockEntry()];
-      (mockUseCase.getUserEntries as Mock).mockResolvedValue(Result.ok(entries));
+      (mockUseCase.searchEntries as Mock).mockResolvedValue(Result.ok({ hits: [], total: 0 }));
 
       const response = await request(app)
         .get('/api/v1/journal/search?q=test&limit=100')
@@ -719,7 +731,7 @@ describe('Journal V1 Routes', () => {
     });
 
     it('should handle search errors', async () => {
-      (mockUseCase.getUserEntries as Mock).mockResolvedValue(
+      (mockUseCase.searchEntries as Mock).mockResolvedValue(
         Result.error(new Error('Search service unavailable'))
       );
 
@@ -45,6 +45,7 @@ describe('Journal V2 Routes', () => {
     // Mock use case
     mockUseCase = {
       getUserEntries: vi.fn(),
+      searchEntries: vi.fn(),
       getEntry: vi.fn(),
       createEntry: vi.fn(),
       updateEntry: vi.fn(),
@@ -81,17 +82,19 @@ describe('Journal V2 Routes', () => {
     ...overrides
   });
 
+  // Helper function to wrap entries as unranked search hits
+  const toHits = (entries: JournalEntry[]) => entries.map(entry => ({ entry, rank: 0, highlight: null }));
+
   describe('GET /api/v2/journal', () => {
     it('should get user journal entries with enhanced v2 response format', async () => {
       const entries = [
         createMockEntry({ id: '1', content: 'Entry 1' }),
         createMockEntry({ id: '2', content: 'Entry 2' })
       ];
-      const pagination = createMockPagination();
 
-      (mockUseCase.getUserEntries as Mock).mockResolvedValue(Result.ok({
-        entries,
-        pagination
+      (mockUseCase.searchEntries as Mock).mockResolvedValue(Result.ok({
+        hits: toHits(entries),
+        total: 2
       }));
 
       const response = await request(app)
@@ -102,129 +105,86 @@ describe('Journal V2 Routes', () => {
       expect(response.body).not.toHaveProperty('success');
       expect(response.body).toMatchObject({
         entries: expect.arrayContaining([
-          expect.objectContaining({ id: '1', content: 'Entry 1' }),
-          expect.objectContaining({ id: '2', content: 'Entry 2' })
+          expect.objectContaining({ id: '1', content: 'Entry 1', highlight: null }),
+          expect.objectContaining({ id: '2', content: 'Entry 2', highlight: null })
         ]),
-        pagination: {
-          page: 1,
-          limit: 20,
-          total: 2,
-          totalPages: 1,
-          hasNextPage: false,
-          hasPrevPage: false
-        }
+        pagination: createMockPagination()
       });
 
       // Should include correlation ID in response headers
       expect(response.headers['x-correlation-id']).toBe('test-correlation-id');
 
-      expect(mockUseCase.getUserEntries).toHaveBeenCalledWith('test-user-id', {
-        search: undefined,
+      expect(mockUseCase.searchEntries).toHaveBeenCalledWith({
+        userId: 'test-user-id',
+        text: undefined,
         tags: undefined,
+        from: undefined,
+        to: undefined,
         page: 1,
         limit: 20,
-        sortBy: 'createdAt',
+        sortBy: undefined,
         sortOrder: 'desc'
       });
     });
 
     it('should support enhanced search with query parameters', async () => {
-      const entries = [
-        createMockEntry({ id: '1', content: 'Prayer reflection' }),
-        createMockEntry({ id: '2', content: 'Daily gratitude' })
-      ];
-      const pagination = createMockPagination();
-
-      (mockUseCase.getUserEntries as Mock).mockResolvedValue(Result.ok({
-        entries,
-        pagination
+      (mockUseCase.searchEntries as Mock).mockResolvedValue(Result.ok({
+        hits: [
+          { entry: createMockEntry({ id: '1', content: 'Prayer reflection' }), rank: 1.5, highlight: '<mark>Prayer</mark> reflection' }
+        ],
+        total: 11
       }));
 
       const response = await request(app)
-        .get('/api/v2/journal?search=prayer&tags=spirituality,reflection&page=2&limit=10&sortBy=content&sortOrder=asc')
+        .get('/api/v2/journal?search=prayer&tags=spirituality,reflection&from=2023-01-01&to=2023-01-31&page=2&limit=10&sortBy=content&sortOrder=asc')
         .expect(200);
 
-      expect(mockUseCase.getUserEntries).toHaveBeenCalledWith('test-user-id', {
-        search: 'prayer',
+      expect(mockUseCase.searchEntries).toHaveBeenCalledWith({
+        userId: 'test-user-id',
+        text: 'prayer',
         tags: ['spirituality', 'reflection'],
+        from: '2023-01-01',
+        to: '2023-01-31',
         page: 2,
         limit: 10,
         sortBy: 'content',
         sortOrder: 'asc'
       });
 
-      expect(response.body.entries).toHaveLength(2);
+      expect(response.body.entries[0]).toMatchObject({ rank: 1.5, highlight: '<mark>Prayer</mark> reflection' });
+      expect(response.body.pagination).toMatchObject({ total: 11, totalPages: 2, hasPrevPage: true });
     });
 
-    it('should validate and sanitize query parameters', async () => {
-      const entries = [createMockEntry()];
-      const pagination = createMockPagination();
-
-      (mockUseCase.getUserEntries as Mock).mockResolvedValue(Result.ok({
-        entries,
-        pagination
-      }));
-
-      const response = await request(app)
-        .get('/api/v2/journal?page=-1&limit=1000&sortBy=invalid&sortOrder=invalid&tags=')
-        .expect(200);
-
-      expect(mockUseCase.getUserEntries).toHaveBeenCalledWith('test-user-id', {
-        search: undefined,
-        tags: undefined,
-        page: 1, // Corrected from -1
-        limit: 100, // Capped at 100
-        sortBy: 'createdAt', // Defaulted from invalid
-        sortOrder: 'desc' // Defaulted from invalid
-      });
-    });
-
-    it('should handle tag filtering with comma-separated values', async () => {
-      const entries = [
-        createMockEntry({ id: '1', tags: ['prayer', 'morning'] }),
-        createMockEntry({ id: '2', tags: ['gratitude', 'evening'] }),
-        createMockEntry({ id: '3', tags: ['prayer', 'dhikr'] })
-      ];
-      const pagination = createMockPagination({ total: 3 });
-
-      (mockUseCase.getUserEntries as Mock).mockResolvedValue(Result.ok({
-        entries,
-        pagination
-      }));
+    it('should reject invalid dates and reversed ranges', async () => {
+      await request(app)
+        .get('/api/v2/journal?from=01/02/2023')
+        .expect(400);
 
-      const response = await request(app)
-        .get('/api/v2/journal?tags=prayer,morning')
-        .expect(200);
+      await request(app)
+        .get('/api/v2/journal?from=2023-02-01&to=2023-01-01')
+        .expect(400);
 
-      expect(mockUseCase.getUserEntries).toHaveBeenCalledWith('test-user-id', {
-        search: undefined,
-        tags: ['prayer', 'morning'],
-        page: 1,
-        limit: 20,
-        sortBy: 'createdAt',
-        sortOrder: 'desc'
-      });
+      expect(mockUseCase.searchEntries).not.toHaveBeenCalled();
     });
 
     it('should handle use case errors with proper HTTP status codes', async () => {
-      (mockUseCase.getUserEntries as Mock).mockResolvedValue(
+      (mockUseCase.searchEntries as Mock).mockResolvedValue(
         Result.error(new Error('Database connection failed'))
       );
 
       const response = await request(app)
         .get('/api/v2/journal')
-        .expect(500);
+        .expect(400);
 
       expect(response.body).toMatchObject({
-        error: 'Failed to fetch journal entries',
-        correlationId: 'test-correlation-id'
+        error: expect.objectContaining({ message: 'Database connection failed' })
       });
     });
 
     it('should return empty results when no entries found', async () => {
-      (mockUseCase.getUserEntries as Mock).mockResolvedValue(Result.ok({
-        entries: [],
-        pagination: createMockPagination({ total: 0, totalPages: 0 })
+      (mockUseCase.searchEntries as Mock).mockResolvedValue(Result.ok({
+        hits: [],
+        total: 0
       }));
 
       const response = await request(app)
@@ -605,9 +565,9 @@ describe('Journal V2 Routes', () => {
 
     it('should include correlation ID in all responses', async () => {
       const entry = createMockEntry();
-      (mockUseCase.getUserEntries as Mock).mockResolvedValue(Result.ok({
-        entries: [entry],
-        pagination: createMockPagination()
+      (mockUseCase.searchEntries as Mock).mockResolvedValue(Result.ok({
+        hits: toHits([entry]),
+        total: 1
       }));
 
       const response = await request(app)
@@ -623,17 +583,10 @@ describe('Journal V2 Routes', () => {
       const entries = Array.from({ length: 100 }, (_, i) =>
         createMockEntry({ id: `${i + 1}`, content: `Entry ${i + 1}` })
       );
-      const pagination = createMockPagination({
-        page: 1,
-        limit: 20,
-        total: 100,
-        totalPages: 5,
-        hasNextPage: true
-      });
 
-      (mockUseCase.getUserEntries as Mock).mockResolvedValue(Result.ok({
-        entries: entries.slice(0, 20),
-        pagination
+      (mockUseCase.searchEntries as Mock).mockResolvedValue(Result.ok({
+        hits: toHits(entries.slice(0, 20)),
+        total: 100
       }));
 
       const response = await request(app)
@@ -652,33 +605,17 @@ describe('Journal V2 Routes', () => {
     });
 
     it('should enforce maximum limit to prevent performance issues', async () => {
-      const entries = [createMockEntry()];
-      const pagination = createMockPagination();
-
-      (mockUseCase.getUserEntries as Mock).mockResolvedValue(Result.ok({
-        entries,
-        pagination
-      }));
-
-      const response = await request(app)
+      await request(app)
         .get('/api/v2/journal?limit=500')
-        .expect(200);
+        .expect(400);
 
-      // Should be called with capped limit
-      expect(mockUseCase.getUserEntries).toHaveBeenCalledWith('test-user-id', {
-        search: undefined,
-        tags: undefined,
-        page: 1,
-        limit: 100, // Capped at 100
-        sortBy: 'createdAt',
-        sortOrder: 'desc'
-      });
+      expect(mockUseCase.searchEntries).not.toHaveBeenCalled();
     });
   });
 
   describe('Error Handling and Logging', () => {
     it('should handle unexpected errors gracefully', async () => {
-      (mockUseCase.getUserEntries as Mock).mockRejectedValue(new Error('Unexpected error'));
+      (mockUseCase.searchEntries as Mock).mockRejectedValue(new Error('Unexpected error'));
 
       const response = await request(app)
         .get('/api/v2/journal')
@@ -763,12 +700,9 @@ describe('Journal V2 Routes', () => {
     });
 
     it('should return JSON content type', async () => {
-      const entries = [createMockEntry()];
-      const pagination = createMockPagination();
-
-      (mockUseCase.getUserEntries as Mock).mockResolvedValue(Result.ok({
-        entries,
-        pagination
+      (mockUseCase.searchEntries as Mock).mockResolvedValue(Result.ok({
+        hits: toHits([createMockEntry()]),
+        total: 1
       }));
 
       const response = await request(app)
@@ -6,11 +6,27 @@ import { SubmitPhase1UseCase } from '@/application/usecases/SubmitPhase1UseCase'
 import { SubmitPhase2UseCase } from '@/application/usecases/SubmitPhase2UseCase';
 import { SubmitReflectionUseCase } from '@/application/usecases/SubmitReflectionUseCase';
 import { ValidateSurveyProgressUseCase } from '@/application/usecases/ValidateSurveyProgressUseCase';
+import { GetSurveyQuestionBankUseCase } from '@/application/usecases/GetSurveyQuestionBankUseCase';
 import { ISurveyRepository } from '@/domain/repositories/ISurveyRepository';
 import { Result } from '@/shared/result';
 import { SurveyProgress } from '@/domain/entities/SurveyProgress';
-import { SurveyResult } from '@/domain/entities/SurveyResult';
-import { LikertScore, Phase1Request, Phase2Request, ReflectionRequest } from '@sakinah/types';
+import { SurveyResult, DISEASES } from '@/domain/entities/SurveyResult';
+import { SurveyQuestionBank } from '@/domain/entities/SurveyQuestionBank';
+import { LikertScore, PhaseRequest, ReflectionRequest } from '@sakinah/types';
+
+const questionBank = SurveyQuestionBank.create({
+  version: 1,
+  questions: DISEASES.map((disease, index) => ({
+    id: `question-${index + 1}`,
+    questionId: disease,
+    disease,
+    phase: index < 4 ? 1 : 2,
+    category: index < 4 ? 'inner' : 'behavioral',
+    order: index + 1,
+    title: { en: disease },
+    prompt: { en: `How strongly do you recognise ${disease} in yourself?` }
+  }))
+});
 
 // Mock the authentication middleware
 jest.mock('@/infrastructure/auth/middleware', () => ({
@@ -41,6 +57,10 @@ const mockSurveyRepository = {
   getUserSurveyData: jest.fn()
 };
 
+const mockGetSurveyQuestionBankUseCase = {
+  execute: async () => Result.ok(questionBank)
+};
+
 // Mock container.resolve
 jest.mock('tsyringe', () => ({
   container: {
@@ -54,6 +74,8 @@ jest.mock('tsyringe', () => ({
           return mockSubmitReflectionUseCase;
         case ValidateSurveyProgressUseCase:
           return mockValidateSurveyProgressUseCase;
+        case GetSurveyQuestionBankUseCase:
+          return mockGetSurveyQuestionBankUseCase;
         case 'ISurveyRepository':
           return mockSurveyRepository;
         default:
@@ -101,7 +123,7 @@ describe('V1 Onboarding Routes', () => {
   });
 
   describe('POST /phase1', () => {
-    const validPhase1Data: Phase1Request = {
+    const validPhase1Data: PhaseRequest = {
       envyScore: 3 as LikertScore,
       envyNote: 'Test note for envy',
       arroganceScore: 2 as LikertScore,
@@ -192,7 +214,7 @@ describe('V1 Onboarding Routes', () => {
   });
 
   describe('POST /phase2', () => {
-    const validPhase2Data: Phase2Request = {
+    const validPhase2Data: PhaseRequest = {
       angerScore: 3 as LikertScore,
       angerNote: 'Test note for anger',
       maliceScore: 2 as LikertScore,
@@ -495,7 +517,7 @@ describe('V1 Onboarding Routes', () => {
     it('should handle unexpected errors gracefully', async () => {
       mockSubmitPhase1UseCase.execute.mockRejectedValue(new Error('Unexpected error'));
 
-      const validPhase1Data: Phase1Request = {
+      const validPhase1Data: PhaseRequest = {
         envyScore: 3 as LikertScore,
         arroganceScore: 2 as LikertScore,
         selfDeceptionScore: 4 as LikertScore,
@@ -513,7 +535,7 @@ describe('V1 Onboarding Routes', () => {
         Result.error(new Error('Test error'))
       );
 
-      const validPhase1Data: Phase1Request = {
+      const validPhase1Data: PhaseRequest = {
         envyScore: 3 as LikertScore,
         arroganceScore: 2 as LikertScore,
         selfDeceptionScore: 4 as LikertScore,
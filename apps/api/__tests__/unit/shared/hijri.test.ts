@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { formatHijriDate, isWhiteDay, resolveHijriLocale, toHijri } from '@/shared/hijri';
+
+describe('hijri', () => {
+  describe('toHijri', () => {
+    it('should follow the Umm al-Qura calendar', () => {
+      expect(toHijri('2024-03-11')).toEqual({ year: 1445, month: 9, day: 1 });
+      expect(toHijri('2024-04-10')).toEqual({ year: 1445, month: 10, day: 1 });
+      expect(toHijri('2024-07-07')).toEqual({ year: 1446, month: 1, day: 1 });
+    });
+
+    it('should end months on the 29th or 30th', () => {
+      expect(toHijri('2024-04-09')).toEqual({ year: 1445, month: 9, day: 30 });
+      expect(toHijri('2024-06-06')).toEqual({ year: 1445, month: 11, day: 29 });
+    });
+
+    it('should shift by the user adjustment', () => {
+      expect(toHijri('2024-03-11', -1)).toEqual({ year: 1445, month: 8, day: 29 });
+      expect(toHijri('2024-03-11', 2)).toEqual({ year: 1445, month: 9, day: 3 });
+    });
+  });
+
+  describe('formatHijriDate', () => {
+    const date = { year: 1445, month: 9, day: 1 };
+
+    it('should use English month names by default', () => {
+      expect(formatHijriDate(date)).toBe('1 Ramadan 1445 AH');
+    });
+
+    it('should use Arabic month names', () => {
+      expect(formatHijriDate(date, 'ar')).toBe('1 رَمَضَان 1445 هـ');
+    });
+  });
+
+  describe('resolveHijriLocale', () => {
+    it('should fall back to English for languages without month names', () => {
+      expect(resolveHijriLocale('ar')).toBe('ar');
+      expect(resolveHijriLocale('ur')).toBe('en');
+      expect(resolveHijriLocale(undefined)).toBe('en');
+    });
+  });
+
+  describe('isWhiteDay', () => {
+    it('should mark the 13th to 15th of the month', () => {
+      expect(isWhiteDay({ year: 1445, month: 9, day: 12 })).toBe(false);
+      expect(isWhiteDay({ year: 1445, month: 9, day: 13 })).toBe(true);
+      expect(isWhiteDay({ year: 1445, month: 9, day: 15 })).toBe(true);
+      expect(isWhiteDay({ year: 1445, month: 9, day: 16 })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { addDays, resolveTimezone, toInstant, toLocalDate, toLocalDateString } from '@/shared/timezone';
+
+describe('timezone', () => {
+  const instant = new Date('2024-01-15T20:00:00Z');
+
+  describe('toLocalDateString', () => {
+    it('should use the calendar day east of the date line', () => {
+      expect(toLocalDateString(instant, 'Pacific/Kiritimati')).toBe('2024-01-16');
+    });
+
+    it('should use the calendar day west of the date line', () => {
+      expect(toLocalDateString(instant, 'Pacific/Pago_Pago')).toBe('2024-01-15');
+    });
+
+    it('should roll over at local midnight', () => {
+      expect(toLocalDateString(new Date('2024-01-15T16:59:59Z'), 'Asia/Jakarta')).toBe('2024-01-15');
+      expect(toLocalDateString(new Date('2024-01-15T17:00:00Z'), 'Asia/Jakarta')).toBe('2024-01-16');
+    });
+
+    it('should fall back to UTC for unknown timezones', () => {
+      expect(toLocalDateString(instant, 'Mars/Olympus_Mons')).toBe('2024-01-15');
+    });
+  });
+
+  describe('toLocalDate', () => {
+    it('should return the local calendar day at UTC midnight', () => {
+      expect(toLocalDate(instant, 'Pacific/Kiritimati')).toEqual(new Date('2024-01-16T00:00:00.000Z'));
+    });
+  });
+
+  describe('resolveTimezone', () => {
+    it('should keep valid IANA names and default the rest to UTC', () => {
+      expect(resolveTimezone('Europe/London')).toBe('Europe/London');
+      expect(resolveTimezone('')).toBe('UTC');
+      expect(resolveTimezone(null)).toBe('UTC');
+      expect(resolveTimezone('not-a-zone')).toBe('UTC');
+    });
+  });
+
+  describe('addDays', () => {
+    it('should shift across month and year boundaries', () => {
+      expect(addDays('2024-01-31', 1)).toBe('2024-02-01');
+      expect(addDays('2024-01-01', -1)).toBe('2023-12-31');
+    });
+  });
+
+  describe('toInstant', () => {
+    it('should convert a local wall-clock time to UTC', () => {
+      expect(toInstant('2024-03-01', '05:30', 'Asia/Riyadh')).toEqual(new Date('2024-03-01T02:30:00.000Z'));
+      expect(toInstant('2024-01-15', '12:00', 'America/New_York')).toEqual(new Date('2024-01-15T17:00:00.000Z'));
+    });
+
+    it('should use the offset in effect on that day across daylight saving changes', () => {
+      expect(toInstant('2024-03-10', '12:00', 'America/New_York')).toEqual(new Date('2024-03-10T16:00:00.000Z'));
+      expect(toInstant('2024-10-27', '06:00', 'Europe/London')).toEqual(new Date('2024-10-27T06:00:00.000Z'));
+    });
+
+    it('should resolve a time skipped by the spring-forward jump', () => {
+      expect(toInstant('2024-03-10', '02:30', 'America/New_York')).toEqual(new Date('2024-03-10T07:30:00.000Z'));
+    });
+  });
+});
@@ -13,7 +13,7 @@ describe('UserPreferences', () => {
       expect(preferences.userId).toBe(userId);
       expect(preferences.language).toBe('en');
       expect(preferences.location).toBeUndefined();
-      expect(preferences.prayerCalculationMethod).toBe('ISNA');
+      expect(preferences.prayerCalculationMethod).toBe('MuslimWorldLeague');
       expect(preferences.notificationSettings.fajrReminder).toBe(true);
       expect(preferences.notificationSettings.dailyReminder).toBe(true);
       expect(preferences.notificationSettings.habitStreak).toBe(false);
@@ -48,9 +48,9 @@ describe('UserPreferences', () => {
     it('should update prayer calculation method', () => {
       const preferences = UserPreferencesEntity.createDefault('test-user');
 
-      preferences.updatePrayerCalculationMethod('Makkah');
+      preferences.updatePrayerCalculationMethod('UmmAlQura');
 
-      expect(preferences.prayerCalculationMethod).toBe('Makkah');
+      expect(preferences.prayerCalculationMethod).toBe('UmmAlQura');
     });
 
     it('should update notification settings', () => {
@@ -90,6 +90,40 @@ describe('UserPreferences', () => {
       expect(preferences.displaySettings.showArabicWithTranslation).toBe(true); // Should remain unchanged
     });
 
+    it('should update habit settings', () => {
+      const preferences = UserPreferencesEntity.createDefault('test-user');
+
+      expect(preferences.completionGraceDays).toBe(1);
+
+      preferences.updateHabitSettings({ completionGraceDays: 3 });
+
+      expect(preferences.completionGraceDays).toBe(3);
+    });
+
+    it('should fall back to the default grace window when unset', () => {
+      const preferences = new UserPreferencesEntity('test-user');
+
+      expect(preferences.completionGraceDays).toBe(1);
+    });
+
+    it('should update calendar settings', () => {
+      const preferences = UserPreferencesEntity.createDefault('test-user');
+
+      expect(preferences.hijriAdjustment).toBe(0);
+
+      preferences.updateCalendarSettings({ hijriAdjustment: -1 });
+
+      expect(preferences.hijriAdjustment).toBe(-1);
+    });
+
+    it('should update prayer settings', () => {
+      const preferences = UserPreferencesEntity.createDefault('test-user');
+
+      preferences.updatePrayerSettings({ asrMadhab: 'Hanafi', adjustments: { isha: 5 } });
+
+      expect(preferences.prayerSettings).toEqual({ asrMadhab: 'Hanafi', adjustments: { isha: 5 } });
+    });
+
     it('should convert to JSON', () => {
       const preferences = UserPreferencesEntity.createDefault('test-user');
       const json = preferences.toJSON();
@@ -100,6 +134,9 @@ describe('UserPreferences', () => {
       expect(json).toHaveProperty('notificationSettings');
       expect(json).toHaveProperty('privacySettings');
       expect(json).toHaveProperty('displaySettings');
+      expect(json).toHaveProperty('habitSettings');
+      expect(json).toHaveProperty('calendarSettings');
+      expect(json).toHaveProperty('prayerSettings');
       expect(json).toHaveProperty('updatedAt');
       expect(json).toHaveProperty('createdAt');
     });
@@ -127,10 +164,13 @@ describe('UserPreferences', () => {
           userId: 'test-user',
           language: 'en' as const,
           location: { lat: 40.7128, lng: -74.0060 },
-          prayerCalculationMethod: 'ISNA' as const,
+          prayerCalculationMethod: 'NorthAmerica' as const,
           notificationSettings: {},
           privacySettings: {},
           displaySettings: {},
+          habitSettings: {},
+          calendarSettings: {},
+          prayerSettings: {},
           updatedAt: new Date().toISOString(),
           createdAt: new Date().toISOString(),
         };
@@ -179,10 +219,13 @@ describe('UserPreferences', () => {
           userId: 'test-user',
           language: 'en' as const,
           location: undefined,
-          prayerCalculationMethod: 'ISNA' as const,
+          prayerCalculationMethod: 'NorthAmerica' as const,
           notificationSettings: preferences.notificationSettings,
           privacySettings: preferences.privacySettings,
           displaySettings: preferences.displaySettings,
+          habitSettings: preferences.habitSettings,
+          calendarSettings: preferences.calendarSettings,
+          prayerSettings: preferences.prayerSettings,
           updatedAt: new Date().toISOString(),
           createdAt: new Date().toISOString(),
         };
@@ -223,10 +266,13 @@ describe('UserPreferences', () => {
           userId: 'test-user',
           language: 'ar' as const,
           location: undefined,
-          prayerCalculationMethod: 'ISNA' as const,
+          prayerCalculationMethod: 'NorthAmerica' as const,
           notificationSettings: preferences.notificationSettings,
           privacySettings: preferences.privacySettings,
           displaySettings: preferences.displaySettings,
+          habitSettings: preferences.habitSettings,
+          calendarSettings: preferences.calendarSettings,
+          prayerSettings: preferences.prayerSettings,
           updatedAt: new Date().toISOString(),
           createdAt: new Date().toISOString(),
         };
@@ -251,10 +297,13 @@ describe('UserPreferences', () => {
           userId: 'test-user',
           language: 'en' as const,
           location: undefined,
-          prayerCalculationMethod: 'ISNA' as const,
+          prayerCalculationMethod: 'NorthAmerica' as const,
           notificationSettings: preferences.notificationSettings,
           privacySettings: preferences.privacySettings,
           displaySettings: preferences.displaySettings,
+          habitSettings: preferences.habitSettings,
+          calendarSettings: preferences.calendarSettings,
+          prayerSettings: preferences.prayerSettings,
           updatedAt: new Date().toISOString(),
           createdAt: new Date().toISOString(),
         };
@@ -0,0 +1,50 @@
+#!/usr/bin/env tsx
+
+/**
+ * Habit Streak Backfill for Sakinah
+ *
+ * Rebuilds every habit's streak from its recorded completions so weekly and
+ * custom habits only count the days they are scheduled on.
+ *
+ * Usage:
+ *   npm run streaks:backfill
+ *   npm run streaks:backfill -- --user <userId>
+ */
+
+import 'reflect-metadata';
+import dotenv from 'dotenv';
+import { configureDependencies, container } from '../src/infrastructure/di/container';
+import { RecalculateHabitStreaksUseCase } from '../src/application/usecases/RecalculateHabitStreaksUseCase';
+import { Result } from '../src/shared/result';
+
+dotenv.config();
+
+function getUserIdArg(): string | undefined {
+  const index = process.argv.indexOf('--user');
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  try {
+    await configureDependencies();
+
+    const useCase = container.resolve(RecalculateHabitStreaksUseCase);
+    const result = await useCase.execute({ userId: getUserIdArg() });
+
+    if (Result.isError(result)) {
+      console.error('❌ Failed to backfill habit streaks:', result.error.message);
+      process.exit(1);
+    }
+
+    console.log(`✅ Checked ${result.value.habitsChecked} habits, updated ${result.value.habitsUpdated} streaks`);
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error backfilling habit streaks:', error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
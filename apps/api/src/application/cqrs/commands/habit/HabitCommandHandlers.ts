@@ -9,12 +9,16 @@ import {
   DeleteHabitCommand,
   BulkCompleteHabitsCommand
 } from './HabitCommands';
-import { IHabitRepository, IPlanRepository } from '@/domain/repositories';
+import { IHabitRepository, IPlanRepository, IProfileRepository } from '@/domain/repositories';
 import { Habit } from '@/domain/entities/Habit';
 import { PlanId } from '@/domain/value-objects/PlanId';
 import { Result } from '@/shared/result';
 import { IEventBus } from '@/domain/events/IEventBus';
 import { HabitId } from '@/domain/value-objects/HabitId';
+import { UserId } from '@/domain/value-objects/UserId';
+import { IUserPreferencesRepository } from '@/infrastructure/repos/UserPreferencesRepository';
+import { DEFAULT_COMPLETION_GRACE_DAYS } from '@/domain/entities/UserPreferences';
+import { resolveCompletionDay } from '@/application/usecases/completionDay';
 
 @injectable()
 export class CreateHabitCommandHandler implements CommandHandler<CreateHabitCommand, Result<string>> {
@@ -64,7 +68,9 @@ export class CreateHabitCommandHandler implements CommandHandler<CreateHabitComm
 export class CompleteHabitCommandHandler implements CommandHandler<CompleteHabitCommand, Result<void>> {
   constructor(
     @inject('IHabitRepository') private habitRepo: IHabitRepository,
-    @inject('IEventBus') private _eventBus: IEventBus
+    @inject('IEventBus') private _eventBus: IEventBus,
+    @inject('IProfileRepository') private profileRepo: IProfileRepository,
+    @inject('IUserPreferencesRepository') private preferencesRepo: IUserPreferencesRepository
   ) {}
 
   async handle(command: CompleteHabitCommand): Promise<Result<void>> {
@@ -79,15 +85,45 @@ export class CompleteHabitCommandHandler implements CommandHandler<CompleteHabit
         return Result.error(new Error('Unauthorized: Habit does not belong to user'));
       }
 
-      // Mark as completed
-      habit.markCompleted(command.completionDate);
+      const timezoneResult = await this.profileRepo.getTimezone(new UserId(command.userId));
+      if (Result.isError(timezoneResult)) {
+        return Result.error(timezoneResult.error);
+      }
 
-      // TODO: Use update method when available in repository interface
-      const saveResult = await this.habitRepo.create(habit);
+      const preferencesResult = await this.preferencesRepo.getByUserId(command.userId);
+      if (Result.isError(preferencesResult)) {
+        return Result.error(preferencesResult.error);
+      }
+
+      const dayResult = resolveCompletionDay(
+        command.date,
+        timezoneResult.value,
+        preferencesResult.value?.completionGraceDays ?? DEFAULT_COMPLETION_GRACE_DAYS
+      );
+      if (Result.isError(dayResult)) {
+        return Result.error(dayResult.error);
+      }
+
+      const historyResult = await this.habitRepo.findCompletionDates(habit.id);
+      if (Result.isError(historyResult)) {
+        return Result.error(historyResult.error);
+      }
+
+      // Mark as completed on the user's calendar day, back-filling the streak for past days
+      const completedOn = dayResult.value;
+      habit.markCompleted(completedOn, 'UTC', historyResult.value);
+
+      const saveResult = await this.habitRepo.updateStreak(habit);
       if (!saveResult.ok) {
         return Result.error(new Error('Failed to save habit'));
       }
 
+      // Record the day in the completion history streaks are rebuilt from
+      const completionResult = await this.habitRepo.createCompletion(habit.id, habit.userId, completedOn);
+      if (!completionResult.ok) {
+        return Result.error(new Error('Failed to save habit completion'));
+      }
+
       // Publish domain events
       await this._eventBus.publishEvents(habit.getDomainEvents());
       habit.clearDomainEvents();
@@ -103,7 +139,9 @@ export class CompleteHabitCommandHandler implements CommandHandler<CompleteHabit
 export class UncompleteHabitCommandHandler implements CommandHandler<UncompleteHabitCommand, Result<void>> {
   constructor(
     @inject('IHabitRepository') private habitRepo: IHabitRepository,
-    @inject('IEventBus') private _eventBus: IEventBus
+    @inject('IEventBus') private _eventBus: IEventBus,
+    @inject('IProfileRepository') private profileRepo: IProfileRepository,
+    @inject('IUserPreferencesRepository') private preferencesRepo: IUserPreferencesRepository
   ) {}
 
   async handle(command: UncompleteHabitCommand): Promise<Result<void>> {
@@ -118,15 +156,49 @@ export class UncompleteHabitCommandHandler implements CommandHandler<UncompleteH
         return Result.error(new Error('Unauthorized: Habit does not belong to user'));
       }
 
-      // Mark as incomplete
-      habit.markIncomplete(command.date);
+      const timezoneResult = await this.profileRepo.getTimezone(new UserId(command.userId));
+      if (Result.isError(timezoneResult)) {
+        return Result.error(timezoneResult.error);
+      }
 
-      // TODO: Use update method when available in repository interface
-      const saveResult = await this.habitRepo.create(habit);
+      const preferencesResult = await this.preferencesRepo.getByUserId(command.userId);
+      if (Result.isError(preferencesResult)) {
+        return Result.error(preferencesResult.error);
+      }
+
+      const dayResult = resolveCompletionDay(
+        command.date,
+        timezoneResult.value,
+        preferencesResult.value?.completionGraceDays ?? DEFAULT_COMPLETION_GRACE_DAYS
+      );
+      if (Result.isError(dayResult)) {
+        return Result.error(dayResult.error);
+      }
+
+      const historyResult = await this.habitRepo.findCompletionDates(habit.id);
+      if (Result.isError(historyResult)) {
+        return Result.error(historyResult.error);
+      }
+
+      // Mark as incomplete, restoring the streak from the remaining history
+      const revokedOn = dayResult.value;
+      const revoked = habit.markIncomplete(revokedOn, 'UTC', historyResult.value);
+
+      // Nothing to undo when the habit was not completed on that day
+      if (!revoked) {
+        return Result.ok(undefined);
+      }
+
+      const saveResult = await this.habitRepo.updateStreak(habit);
       if (!saveResult.ok) {
         return Result.error(new Error('Failed to save habit'));
       }
 
+      const deleteResult = await this.habitRepo.deleteCompletion(habit.id, habit.userId, revokedOn);
+      if (!deleteResult.ok) {
+        return Result.error(new Error('Failed to delete habit completion'));
+      }
+
       // Publish domain events
       await this._eventBus.publishEvents(habit.getDomainEvents());
       habit.clearDomainEvents();
@@ -177,43 +249,62 @@ export class ResetHabitStreakCommandHandler implements CommandHandler<ResetHabit
   }
 }
 
+export interface BulkCompletionFailure {
+  habitId: string;
+  error: string;
+}
+
+export interface BulkCompletionResult {
+  completedCount: number;
+  failures: BulkCompletionFailure[];
+}
+
 @injectable()
-export class BulkCompleteHabitsCommandHandler implements CommandHandler<BulkCompleteHabitsCommand, Result<number>> {
+export class BulkCompleteHabitsCommandHandler implements CommandHandler<BulkCompleteHabitsCommand, Result<BulkCompletionResult>> {
   constructor(
     @inject('IHabitRepository') private habitRepo: IHabitRepository,
-    @inject('IEventBus') private _eventBus: IEventBus
+    @inject('IEventBus') private _eventBus: IEventBus,
+    @inject('IProfileRepository') private profileRepo: IProfileRepository,
+    @inject('IUserPreferencesRepository') private preferencesRepo: IUserPreferencesRepository
   ) {}
 
-  async handle(command: BulkCompleteHabitsCommand): Promise<Result<number>> {
+  async handle(command: BulkCompleteHabitsCommand): Promise<Result<BulkCompletionResult>> {
     try {
-      let successCount = 0;
+      const timezoneResult = await this.profileRepo.getTimezone(new UserId(command.userId));
+      if (Result.isError(timezoneResult)) {
+        return Result.error(timezoneResult.error);
+      }
+
+      const preferencesResult = await this.preferencesRepo.getByUserId(command.userId);
+      if (Result.isError(preferencesResult)) {
+        return Result.error(preferencesResult.error);
+      }
+
+      // The whole batch targets one day, so a day outside the grace window fails it outright
+      const dayResult = resolveCompletionDay(
+        command.date,
+        timezoneResult.value,
+        preferencesResult.value?.completionGraceDays ?? DEFAULT_COMPLETION_GRACE_DAYS
+      );
+      if (Result.isError(dayResult)) {
+        return Result.error(dayResult.error);
+      }
+
+      const completedOn = dayResult.value;
+      const failures: BulkCompletionFailure[] = [];
       const allEvents: any[] = [];
+      let completedCount = 0;
 
       for (const habitId of command.habitIds) {
-        const habitResult = await this.habitRepo.findById(new HabitId(habitId));
-        if (!habitResult.ok || !habitResult.value) {
-          continue; // Skip non-existent habits
-        }
-
-        const habit = habitResult.value;
-        if (habit.userId.toString() !== command.userId) {
-          continue; // Skip unauthorized habits
+        const completionResult = await this.completeHabit(habitId, command.userId, completedOn);
+        if (Result.isError(completionResult)) {
+          logger.warn(`Failed to complete habit ${habitId}:`, completionResult.error);
+          failures.push({ habitId, error: completionResult.error.message });
+          continue;
         }
 
-        try {
-          habit.markCompleted(command.completionDate);
-          // TODO: Use update method when available in repository interface
-          const saveResult = await this.habitRepo.create(habit);
-
-          if (saveResult.ok) {
-            successCount++;
-            allEvents.push(...habit.getDomainEvents());
-            habit.clearDomainEvents();
-          }
-        } catch (error) {
-          // Continue with next habit if this one fails
-          logger.warn(`Failed to complete habit ${habitId}:`, error);
-        }
+        completedCount++;
+        allEvents.push(...completionResult.value);
       }
 
       // Publish all events in batch
@@ -221,7 +312,48 @@ export class BulkCompleteHabitsCommandHandler implements CommandHandler<BulkComp
         await this._eventBus.publishEvents(allEvents);
       }
 
-      return Result.ok(successCount);
+      return Result.ok({ completedCount, failures });
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  /**
+   * Completes one habit on the given day, returning the events to publish
+   */
+  private async completeHabit(habitId: string, userId: string, completedOn: Date): Promise<Result<any[]>> {
+    try {
+      const habitResult = await this.habitRepo.findById(new HabitId(habitId));
+      if (!habitResult.ok || !habitResult.value) {
+        return Result.error(new Error('Habit not found'));
+      }
+
+      const habit = habitResult.value;
+      if (habit.userId.toString() !== userId) {
+        return Result.error(new Error('Unauthorized: Habit does not belong to user'));
+      }
+
+      const historyResult = await this.habitRepo.findCompletionDates(habit.id);
+      if (Result.isError(historyResult)) {
+        return Result.error(historyResult.error);
+      }
+
+      // Back-fills the streak from the full history when the day is in the past
+      habit.markCompleted(completedOn, 'UTC', historyResult.value);
+
+      const saveResult = await this.habitRepo.updateStreak(habit);
+      if (!saveResult.ok) {
+        return Result.error(new Error('Failed to save habit'));
+      }
+
+      const completionResult = await this.habitRepo.createCompletion(habit.id, habit.userId, completedOn);
+      if (!completionResult.ok) {
+        return Result.error(new Error('Failed to save habit completion'));
+      }
+
+      const events = habit.getDomainEvents();
+      habit.clearDomainEvents();
+      return Result.ok(events);
     } catch (error) {
       return Result.error(error as Error);
     }
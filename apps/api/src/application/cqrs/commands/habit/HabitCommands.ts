@@ -15,11 +15,12 @@ export class CreateHabitCommand extends BaseCommand {
 }
 
 // Complete Habit Command
+// date is the user's calendar day (YYYY-MM-DD) or an ISO datetime on it, and defaults to their today
 export class CompleteHabitCommand extends BaseCommand {
   constructor(
     public readonly userId: string,
     public readonly habitId: string,
-    public readonly completionDate: Date = new Date(),
+    public readonly date?: string,
     correlationId?: string
   ) {
     super('CompleteHabitCommand', userId, habitId, correlationId);
@@ -27,11 +28,12 @@ export class CompleteHabitCommand extends BaseCommand {
 }
 
 // Uncomplete Habit Command
+// date is the user's calendar day (YYYY-MM-DD) or an ISO datetime on it, and defaults to their today
 export class UncompleteHabitCommand extends BaseCommand {
   constructor(
     public readonly userId: string,
     public readonly habitId: string,
-    public readonly date: Date = new Date(),
+    public readonly date?: string,
     correlationId?: string
   ) {
     super('UncompleteHabitCommand', userId, habitId, correlationId);
@@ -76,11 +78,12 @@ export class DeleteHabitCommand extends BaseCommand {
 }
 
 // Bulk Complete Habits Command (for daily routines)
+// date is the user's calendar day (YYYY-MM-DD) or an ISO datetime on it, and defaults to their today
 export class BulkCompleteHabitsCommand extends BaseCommand {
   constructor(
     public readonly userId: string,
     public readonly habitIds: string[],
-    public readonly completionDate: Date = new Date(),
+    public readonly date?: string,
     correlationId?: string
   ) {
     super('BulkCompleteHabitsCommand', userId, undefined, correlationId);
@@ -3,9 +3,11 @@ import {
   HabitCompletedEvent,
   HabitStreakBrokenEvent,
   HabitMilestoneReachedEvent,
+  HabitCompletionRevokedEvent,
   HabitCreatedEvent
 } from '../../domain/events/HabitEvents';
 import { logger } from '../../shared/logger';
+import { updateUserStats } from './updateUserStats';
 
 export class HabitEventHandlers {
 
@@ -30,11 +32,33 @@ export class HabitEventHandlers {
       eventId: event.meta.eventId
     });
 
-    // Future: Update user statistics
-    // Future: Check for rewards/achievements
+    await updateUserStats({
+      userId: event.userId,
+      event: 'habit_completed',
+      completedOn: event.completedOn,
+      streakCount: event.newStreakCount
+    });
+
     // Future: Send encouragement notifications
   };
 
+  static handleHabitCompletionRevoked: EventHandler<HabitCompletionRevokedEvent> = async (event) => {
+    logger.info('Habit completion revoked', {
+      habitId: event.habitId,
+      userId: event.userId,
+      revokedOn: event.revokedOn,
+      previousStreakCount: event.previousStreakCount,
+      newStreakCount: event.newStreakCount,
+      eventId: event.meta.eventId
+    });
+
+    await updateUserStats({
+      userId: event.userId,
+      event: 'completion_revoked',
+      streakCount: event.newStreakCount
+    });
+  };
+
   static handleHabitStreakBroken: EventHandler<HabitStreakBrokenEvent> = async (event) => {
     logger.warn('Habit streak broken', {
       habitId: event.habitId,
@@ -57,7 +81,12 @@ export class HabitEventHandlers {
       eventId: event.meta.eventId
     });
 
-    // Future: Award badges/achievements
+    await updateUserStats({
+      userId: event.userId,
+      event: 'milestone_reached',
+      streakCount: event.streakCount
+    });
+
     // Future: Send congratulations notification
     // Future: Suggest next spiritual goal
   };
@@ -65,6 +94,7 @@ export class HabitEventHandlers {
   static registerAll(dispatcher: import('../../domain/events/EventDispatcher').EventDispatcher): void {
     dispatcher.register('HabitCreated', this.handleHabitCreated);
     dispatcher.register('HabitCompleted', this.handleHabitCompleted);
+    dispatcher.register('HabitCompletionRevoked', this.handleHabitCompletionRevoked);
     dispatcher.register('HabitStreakBroken', this.handleHabitStreakBroken);
     dispatcher.register('HabitMilestoneReached', this.handleHabitMilestoneReached);
   }
@@ -0,0 +1,24 @@
+import { EventHandler } from '../../domain/events/EventDispatcher';
+import { PlanCompletedEvent } from '../../domain/events/PlanEvents';
+import { logger } from '../../shared/logger';
+import { updateUserStats } from './updateUserStats';
+
+export class PlanEventHandlers {
+
+  static handlePlanCompleted: EventHandler<PlanCompletedEvent> = async (event) => {
+    logger.info('Plan completed', {
+      planId: event.planId,
+      userId: event.userId,
+      eventId: event.meta.eventId
+    });
+
+    await updateUserStats({
+      userId: event.userId,
+      event: 'plan_completed'
+    });
+  };
+
+  static registerAll(dispatcher: import('../../domain/events/EventDispatcher').EventDispatcher): void {
+    dispatcher.register('PlanCompleted', this.handlePlanCompleted);
+  }
+}
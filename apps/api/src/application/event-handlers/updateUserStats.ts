@@ -0,0 +1,28 @@
+import { container } from 'tsyringe';
+import { logger } from '../../shared/logger';
+import { Result } from '../../shared/result';
+import { UpdateUserStatsUseCase, UpdateUserStatsRequest } from '../usecases/achievements';
+
+/**
+ * Applies a domain event to the user's stats, logging failures and any achievements it unlocks
+ */
+export async function updateUserStats(request: UpdateUserStatsRequest): Promise<void> {
+  const result = await container.resolve<UpdateUserStatsUseCase>('UpdateUserStatsUseCase').execute(request);
+
+  if (Result.isError(result)) {
+    logger.error('Failed to update user stats', {
+      userId: request.userId,
+      event: request.event,
+      error: result.error.message
+    });
+    return;
+  }
+
+  for (const achievement of result.value.unlocked) {
+    logger.info('Achievement unlocked', {
+      userId: request.userId,
+      achievementId: achievement.id,
+      khayrReward: achievement.khayrReward
+    });
+  }
+}
@@ -1,12 +1,15 @@
 import { Result } from '@/shared/result';
-import { Checkin } from '@sakinah/types';
+import { Checkin, CheckinSession } from '@sakinah/types';
 import { CheckinRepository } from '@/infrastructure/repos/CheckinRepository';
 
 interface LogCheckinInput {
   userId: string;
+  session?: CheckinSession;
   mood?: number;
   intention?: string;
   reflection?: string;
+  gratitude?: string[];
+  improvements?: string;
 }
 
 export async function logCheckin(input: LogCheckinInput): Promise<Result<Checkin>> {
@@ -14,9 +17,10 @@ export async function logCheckin(input: LogCheckinInput): Promise<Result<Checkin
     const checkinRepo = new CheckinRepository();
 
     const today = new Date().toISOString().split('T')[0];
+    const session = input.session || 'evening';
 
-    // Check if already checked in today
-    const existingResult = await checkinRepo.getByDate(input.userId, today);
+    // Check if already checked in for this session today
+    const existingResult = await checkinRepo.getByDate(input.userId, today, session);
 
     if (!existingResult.ok) {
       return existingResult;
@@ -28,6 +32,8 @@ export async function logCheckin(input: LogCheckinInput): Promise<Result<Checkin
         mood: input.mood,
         intention: input.intention,
         reflection: input.reflection,
+        gratitude: input.gratitude,
+        improvements: input.improvements,
       });
 
       if (!updateResult.ok) {
@@ -41,9 +47,12 @@ export async function logCheckin(input: LogCheckinInput): Promise<Result<Checkin
     const createResult = await checkinRepo.createCheckin({
       userId: input.userId,
       date: today,
+      session,
       mood: input.mood,
       intention: input.intention,
       reflection: input.reflection,
+      gratitude: input.gratitude,
+      improvements: input.improvements,
     });
 
     if (!createResult.ok) {
@@ -0,0 +1,98 @@
+import { injectable, inject } from 'tsyringe';
+import { ISurveyRepository } from '@/domain/repositories/ISurveyRepository';
+import { IContentRepository } from '@/domain/repositories';
+import { SurveyResult } from '@/domain/entities/SurveyResult';
+import { SurveyResultId } from '@/domain/value-objects/SurveyResultId';
+import { Result } from '@/shared/result';
+import { createAppError, ErrorCode } from '@/shared/errors';
+import type { ContentSnippet } from '@sakinah/types';
+
+export interface ExportSurveyResultRequest {
+  userId: string;
+  resultId: string;
+}
+
+export interface ExportedContent extends ContentSnippet {
+  arabicText: string | null; // null when no Arabic translation is stored
+}
+
+export interface ExportSurveyResultResponse {
+  result: SurveyResult;
+  content: ExportedContent[]; // ayat and ahadith referenced by the habits and plan
+}
+
+@injectable()
+export class ExportSurveyResultUseCase {
+  constructor(
+    @inject('ISurveyRepository') private surveyRepository: ISurveyRepository,
+    @inject('IContentRepository') private contentRepository: IContentRepository
+  ) {}
+
+  async execute(request: ExportSurveyResultRequest): Promise<Result<ExportSurveyResultResponse>> {
+    try {
+      let resultId: SurveyResultId;
+      try {
+        resultId = new SurveyResultId(request.resultId);
+      } catch {
+        return Result.error(createAppError(ErrorCode.NOT_FOUND, 'Survey result not found'));
+      }
+
+      const resultLookup = await this.surveyRepository.getSurveyResultById(resultId);
+      if (Result.isError(resultLookup)) {
+        return Result.error(resultLookup.error);
+      }
+
+      // Another user's result is reported as missing so ids cannot be probed
+      const result = resultLookup.value;
+      if (!result || result.userId.toString() !== request.userId) {
+        return Result.error(createAppError(ErrorCode.NOT_FOUND, 'Survey result not found'));
+      }
+
+      const content = await this.loadReferencedContent(result);
+
+      return Result.ok({ result, content });
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  /**
+   * Missing snippets are skipped rather than failing the export, since plans
+   * keep their content ids after the library changes.
+   */
+  private async loadReferencedContent(result: SurveyResult): Promise<ExportedContent[]> {
+    const contentIds = Array.from(new Set([
+      ...result.personalizedHabits.flatMap(habit => habit.islamicContentIds),
+      ...result.tazkiyahPlan.phases.flatMap(phase =>
+        phase.practices.flatMap(practice => practice.islamicContentIds)
+      )
+    ]));
+
+    const snippets: ContentSnippet[] = [];
+    for (const contentId of contentIds) {
+      const snippetResult = await this.contentRepository.findById(contentId);
+      if (Result.isOk(snippetResult) && snippetResult.value) {
+        snippets.push(snippetResult.value);
+      }
+    }
+
+    if (snippets.length === 0) {
+      return [];
+    }
+
+    const translationsResult = await this.contentRepository.findTranslations(
+      snippets.map(snippet => snippet.id),
+      'ar'
+    );
+    const arabicTexts = new Map(
+      Result.isOk(translationsResult)
+        ? translationsResult.value.map(translation => [translation.contentId, translation.text])
+        : []
+    );
+
+    return snippets.map(snippet => ({
+      ...snippet,
+      arabicText: arabicTexts.get(snippet.id) ?? null
+    }));
+  }
+}
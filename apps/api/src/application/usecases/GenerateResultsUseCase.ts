@@ -1,5 +1,6 @@
 import { injectable, inject } from 'tsyringe';
 import { ISurveyRepository } from '@/domain/repositories/ISurveyRepository';
+import { ISurveyQuestionRepository } from '@/domain/repositories/ISurveyQuestionRepository';
 import { ISurveyAiProvider } from '@/domain/providers/ISurveyAiProvider';
 import { SurveyResult } from '@/domain/entities/SurveyResult';
 import { UserId } from '@/domain/value-objects/UserId';
@@ -23,7 +24,8 @@ export interface GenerateResultsResponse {
 export class GenerateResultsUseCase {
   constructor(
     @inject('ISurveyRepository') private surveyRepository: ISurveyRepository,
-    @inject('ISurveyAiProvider') private aiProvider: ISurveyAiProvider
+    @inject('ISurveyAiProvider') private aiProvider: ISurveyAiProvider,
+    @inject('ISurveyQuestionRepository') private questionRepository: ISurveyQuestionRepository
   ) {}
 
   async execute(request: GenerateResultsRequest): Promise<Result<GenerateResultsResponse>> {
@@ -40,7 +42,9 @@ export class GenerateResultsUseCase {
         hasValue: !Result.isError(existingResultsResult) ? !!existingResultsResult.value : false
       });
 
-      if (!Result.isError(existingResultsResult) && existingResultsResult.value) {
+      // A retake in progress gets results of its own once it is finished
+      if (!Result.isError(existingResultsResult) && existingResultsResult.value &&
+          existingResultsResult.value.attemptNumber >= await this.getCurrentAttempt(userIdObj)) {
         // Results already exist, return them
         return Result.ok({
           results: existingResultsResult.value,
@@ -71,8 +75,16 @@ export class GenerateResultsUseCase {
         ));
       }
 
-      // Transform responses to disease scores
-      const diseaseScores = this.transformResponsesToDiseaseScores(responses);
+      const bankResult = await this.questionRepository.getActiveBank();
+      if (Result.isError(bankResult)) {
+        return Result.error(createAppError(
+          ErrorCode.DATABASE_ERROR,
+          'Failed to load survey questions for results generation'
+        ));
+      }
+
+      // Average each disease's answers across the active bank's questions
+      const diseaseScores = bankResult.value.scoreDiseases(responses);
 
       // Get reflection answers from responses
       const reflectionData = responses.filter(r => r.phaseNumber === 3);
@@ -113,6 +125,7 @@ export class GenerateResultsUseCase {
       // Create SurveyResult entity
       const surveyResult = SurveyResult.create({
         userId: request.userId,
+        attemptNumber: progress.attemptNumber,
         diseaseScores,
         reflectionAnswers,
         personalizedHabits,
@@ -160,40 +173,9 @@ export class GenerateResultsUseCase {
     }
   }
 
-  private transformResponsesToDiseaseScores(responses: any[]): Record<Disease, LikertScore> {
-    const diseaseScores: Record<Disease, LikertScore> = {} as Record<Disease, LikertScore>;
-
-    // Map question responses to disease scores
-    const questionDiseaseMap: Record<string, Disease> = {
-      'envy': 'envy',
-      'arrogance': 'arrogance',
-      'selfDeception': 'selfDeception',
-      'lust': 'lust',
-      'anger': 'anger',
-      'malice': 'malice',
-      'backbiting': 'backbiting',
-      'suspicion': 'suspicion',
-      'loveOfDunya': 'loveOfDunya',
-      'laziness': 'laziness',
-      'despair': 'despair'
-    };
-
-    // Process responses to extract scores
-    responses.forEach(response => {
-      const disease = questionDiseaseMap[response.questionId];
-      if (disease && response.score >= 1 && response.score <= 5) {
-        diseaseScores[disease] = response.score as LikertScore;
-      }
-    });
-
-    // Ensure all diseases have scores (default to 1 if missing)
-    Object.values(questionDiseaseMap).forEach(disease => {
-      if (!(disease in diseaseScores)) {
-        diseaseScores[disease] = 1;
-      }
-    });
-
-    return diseaseScores;
+  private async getCurrentAttempt(userId: UserId): Promise<number> {
+    const progressResult = await this.surveyRepository.getSurveyProgress(userId);
+    return Result.isOk(progressResult) && progressResult.value ? progressResult.value.attemptNumber : 1;
   }
 
   private generateRadarChartData(diseaseScores: Record<Disease, LikertScore>): ChartData {
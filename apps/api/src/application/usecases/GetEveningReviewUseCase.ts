@@ -0,0 +1,122 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { ICheckinRepository } from '@/domain/repositories/ICheckinRepository';
+import { IHabitRepository } from '@/domain/repositories/IHabitRepository';
+import { IProfileRepository } from '@/domain/repositories/IProfileRepository';
+import { CHECKIN_PROMPTS } from '@/domain/entities/Checkin';
+import { UserId } from '@/domain/value-objects/UserId';
+import { resolveTimezone, toLocalDateString } from '@/shared/timezone';
+
+export interface GetEveningReviewRequest {
+  userId: string;
+  now?: Date;
+}
+
+export interface EveningHabitReview {
+  habitId: string;
+  title: string;
+  scheduled: boolean;
+  completed: boolean;
+}
+
+export interface EveningReview {
+  date: string;
+  morning: {
+    intention: string | null;
+    mood: number | null;
+  } | null;
+  habits: {
+    scheduled: number;
+    completed: number; // scheduled habits completed today
+    items: EveningHabitReview[]; // habits due today, plus any completed off-schedule
+  };
+  prompts: string[];
+}
+
+/**
+ * What the evening muhasabah looks back on: the intention set that morning
+ * and the day's habit completions, with prompts built from both.
+ */
+@injectable()
+export class GetEveningReviewUseCase {
+  constructor(
+    @inject('ICheckinRepository') private readonly checkinRepository: ICheckinRepository,
+    @inject('IHabitRepository') private readonly habitRepository: IHabitRepository,
+    @inject('IProfileRepository') private readonly profileRepository: IProfileRepository
+  ) {}
+
+  async execute(request: GetEveningReviewRequest): Promise<Result<EveningReview>> {
+    try {
+      const userId = new UserId(request.userId);
+      const now = request.now ?? new Date();
+
+      const timezoneResult = await this.profileRepository.getTimezone(userId);
+      const timezone = resolveTimezone(Result.isOk(timezoneResult) ? timezoneResult.value : undefined);
+      const today = toLocalDateString(now, timezone);
+      const todayDate = new Date(`${today}T00:00:00.000Z`);
+
+      const morningResult = await this.checkinRepository.findByUserAndDate(userId, todayDate, 'morning');
+      if (Result.isError(morningResult)) {
+        return Result.error(morningResult.error);
+      }
+
+      const habitsResult = await this.habitRepository.findByUserId(userId);
+      if (Result.isError(habitsResult)) {
+        return Result.error(habitsResult.error);
+      }
+
+      const items: EveningHabitReview[] = [];
+      for (const habit of habitsResult.value) {
+        const completedResult = await this.habitRepository.findCompletionByDate(habit.id, userId, todayDate);
+        if (Result.isError(completedResult)) {
+          return Result.error(completedResult.error);
+        }
+
+        const scheduled = habit.isScheduledOn(now, timezone);
+        if (scheduled || completedResult.value) {
+          items.push({
+            habitId: habit.id.toString(),
+            title: habit.title,
+            scheduled,
+            completed: completedResult.value
+          });
+        }
+      }
+
+      const morning = morningResult.value;
+      const scheduledItems = items.filter(item => item.scheduled);
+      const review: EveningReview = {
+        date: today,
+        morning: morning ? { intention: morning.intention, mood: morning.mood } : null,
+        habits: {
+          scheduled: scheduledItems.length,
+          completed: scheduledItems.filter(item => item.completed).length,
+          items
+        },
+        prompts: []
+      };
+      review.prompts = buildEveningPrompts(review);
+
+      return Result.ok(review);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
+
+function buildEveningPrompts(review: EveningReview): string[] {
+  const prompts: string[] = [];
+
+  if (review.morning?.intention) {
+    prompts.push(`This morning you intended: "${review.morning.intention}". How did it go?`);
+  }
+
+  const missed = review.habits.items.filter(item => item.scheduled && !item.completed);
+  if (missed.length > 0) {
+    prompts.push(`What kept you from ${missed.map(item => item.title).join(', ')} today?`);
+  } else if (review.habits.scheduled > 0) {
+    prompts.push('You kept every habit due today. What helped you stay consistent?');
+  }
+
+  return [...prompts, ...CHECKIN_PROMPTS.evening];
+}
@@ -0,0 +1,127 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { ICheckinRepository } from '@/domain/repositories/ICheckinRepository';
+import { IProfileRepository } from '@/domain/repositories/IProfileRepository';
+import { Checkin } from '@/domain/entities/Checkin';
+import { UserId } from '@/domain/value-objects/UserId';
+import { resolveTimezone, toLocalDateString } from '@/shared/timezone';
+
+const DEFAULT_THEME_LIMIT = 5;
+
+// Words that say nothing about what the user was grateful for
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'being', 'by', 'for', 'from', 'had', 'has', 'have', 'in',
+  'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'our', 'so', 'that', 'the', 'their', 'this', 'to',
+  'today', 'very', 'was', 'we', 'were', 'with', 'grateful', 'thankful', 'alhamdulillah'
+]);
+
+export interface GetGratitudeHistoryRequest {
+  userId: string;
+  from?: string; // YYYY-MM-DD, defaults to the first day of the user's current month
+  to?: string; // YYYY-MM-DD inclusive, defaults to the user's today
+  themeLimit?: number;
+  now?: Date;
+}
+
+export interface GratitudeEntry {
+  date: string;
+  items: string[];
+}
+
+export interface GratitudeTheme {
+  theme: string;
+  count: number; // gratitude items that mention it
+  lastMentioned: string;
+}
+
+export interface GratitudeHistory {
+  from: string;
+  to: string;
+  entries: GratitudeEntry[]; // newest first
+  themes: GratitudeTheme[];
+  totalItems: number;
+}
+
+@injectable()
+export class GetGratitudeHistoryUseCase {
+  constructor(
+    @inject('ICheckinRepository') private readonly checkinRepository: ICheckinRepository,
+    @inject('IProfileRepository') private readonly profileRepository: IProfileRepository
+  ) {}
+
+  async execute(request: GetGratitudeHistoryRequest): Promise<Result<GratitudeHistory>> {
+    try {
+      const userId = new UserId(request.userId);
+
+      const timezoneResult = await this.profileRepository.getTimezone(userId);
+      const timezone = resolveTimezone(Result.isOk(timezoneResult) ? timezoneResult.value : undefined);
+      const today = toLocalDateString(request.now ?? new Date(), timezone);
+      const to = request.to ?? today;
+      const from = request.from ?? `${to.slice(0, 7)}-01`;
+
+      const checkinsResult = await this.checkinRepository.findByUser(userId, {
+        from: new Date(`${from}T00:00:00.000Z`),
+        to: new Date(`${to}T00:00:00.000Z`)
+      });
+      if (Result.isError(checkinsResult)) {
+        return Result.error(checkinsResult.error);
+      }
+
+      const entries = toGratitudeEntries(checkinsResult.value);
+
+      return Result.ok({
+        from,
+        to,
+        entries,
+        themes: findGratitudeThemes(entries, request.themeLimit ?? DEFAULT_THEME_LIMIT),
+        totalItems: entries.reduce((sum, entry) => sum + entry.items.length, 0)
+      });
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
+
+function toGratitudeEntries(checkins: Checkin[]): GratitudeEntry[] {
+  return checkins
+    .filter(checkin => checkin.gratitude.length > 0)
+    .map(checkin => ({
+      date: checkin.date.toISOString().split('T')[0],
+      items: checkin.gratitude
+    }))
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Counts the words that recur across gratitude items, so "my family" and
+ * "time with family" both count towards "family". Each item counts a word once.
+ */
+export function findGratitudeThemes(entries: GratitudeEntry[], limit: number): GratitudeTheme[] {
+  const themes = new Map<string, GratitudeTheme>();
+
+  for (const entry of entries) {
+    for (const item of entry.items) {
+      const words = new Set(
+        (item.toLowerCase().match(/[\p{L}\p{M}']+/gu) ?? [])
+          .map(word => word.replace(/'s?$/, ''))
+          .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+      );
+
+      for (const word of words) {
+        const theme = themes.get(word);
+        if (theme) {
+          theme.count++;
+          if (entry.date > theme.lastMentioned) {
+            theme.lastMentioned = entry.date;
+          }
+        } else {
+          themes.set(word, { theme: word, count: 1, lastMentioned: entry.date });
+        }
+      }
+    }
+  }
+
+  return [...themes.values()]
+    .sort((a, b) => b.count - a.count || b.lastMentioned.localeCompare(a.lastMentioned) || a.theme.localeCompare(b.theme))
+    .slice(0, limit);
+}
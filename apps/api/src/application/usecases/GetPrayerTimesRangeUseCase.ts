@@ -3,17 +3,26 @@ import { Result } from '@/shared/result';
 import { PrayerTimes } from '@/domain/entities/PrayerTimes';
 import { IPrayerTimesRepository } from '@/domain/repositories/IPrayerTimesRepository';
 import { GetPrayerTimesUseCase } from './GetPrayerTimesUseCase';
-import { CalculationMethodType } from '@/domain/value-objects/CalculationMethod';
+import {
+  CalculationMethodType,
+  AsrMadhab,
+  HighLatitudeRule,
+  PrayerAdjustments
+} from '@/domain/value-objects/CalculationMethod';
 import { logger } from '@/shared/logger';
 
 interface GetPrayerTimesRangeInput {
   userId: string;
-  latitude: number;
-  longitude: number;
+  // Omitted location, method and timezone fall back to the user's saved preferences
+  latitude?: number;
+  longitude?: number;
   startDate: Date;
   endDate: Date;
   calculationMethod?: CalculationMethodType;
   timezone?: string;
+  asrMadhab?: AsrMadhab;
+  highLatitudeRule?: HighLatitudeRule;
+  adjustments?: PrayerAdjustments;
 }
 
 interface GetPrayerTimesRangeResult {
@@ -37,8 +46,11 @@ export class GetPrayerTimesRangeUseCase {
         longitude,
         startDate,
         endDate,
-        calculationMethod = 'MuslimWorldLeague',
-        timezone
+        calculationMethod,
+        timezone,
+        asrMadhab,
+        highLatitudeRule,
+        adjustments
       } = input;
 
       // Validate date range
@@ -65,7 +77,10 @@ export class GetPrayerTimesRangeUseCase {
           longitude,
           date: new Date(currentDate),
           calculationMethod,
-          timezone
+          timezone,
+          asrMadhab,
+          highLatitudeRule,
+          adjustments
         });
 
         if (Result.isError(result)) {
@@ -1,21 +1,47 @@
 import { injectable, inject } from 'tsyringe';
-import { Coordinates, PrayerTimes as AdhanPrayerTimes, CalculationMethod as AdhanCalculationMethod, Qibla } from 'adhan';
+import {
+  Coordinates,
+  PrayerTimes as AdhanPrayerTimes,
+  CalculationMethod as AdhanCalculationMethod,
+  CalculationParameters,
+  HighLatitudeRule as AdhanHighLatitudeRule,
+  Madhab,
+  PolarCircleResolution,
+  Qibla
+} from 'adhan';
 import { Result } from '@/shared/result';
 import { PrayerTimes, DailyPrayerTimes } from '@/domain/entities/PrayerTimes';
 import { IPrayerTimesRepository } from '@/domain/repositories/IPrayerTimesRepository';
 import { Location } from '@/domain/value-objects/Location';
-import { CalculationMethod, CalculationMethodType } from '@/domain/value-objects/CalculationMethod';
+import {
+  CalculationMethod,
+  CalculationMethodType,
+  AsrMadhab,
+  HighLatitudeRule,
+  PrayerAdjustments
+} from '@/domain/value-objects/CalculationMethod';
 import { UserId } from '@/domain/value-objects/UserId';
+import { IProfileRepository } from '@/domain/repositories/IProfileRepository';
+import { UserPreferencesEntity } from '@/domain/entities/UserPreferences';
 import { ICacheService } from '@/domain/services/ICacheService';
+import { IUserPreferencesRepository } from '@/infrastructure/repos/UserPreferencesRepository';
 import { logger } from '@/shared/logger';
+import { toLocalDateString } from '@/shared/timezone';
+import { toHijri, formatHijriDate } from '@/shared/hijri';
+import { toHijriSettings } from './calendar/hijriSettings';
 
 interface GetPrayerTimesInput {
   userId: string;
-  latitude: number;
-  longitude: number;
+  // Location, method and timezone default to the user's saved preferences and profile
+  latitude?: number;
+  longitude?: number;
   date?: Date;
   calculationMethod?: CalculationMethodType;
   timezone?: string;
+  // Override the user's stored prayer settings for this request
+  asrMadhab?: AsrMadhab;
+  highLatitudeRule?: HighLatitudeRule;
+  adjustments?: PrayerAdjustments;
 }
 
 interface GetPrayerTimesResult {
@@ -27,19 +53,29 @@ interface GetPrayerTimesResult {
 export class GetPrayerTimesUseCase {
   constructor(
     @inject('IPrayerTimesRepository') private prayerTimesRepo: IPrayerTimesRepository,
-    @inject('ICacheService') private cacheService: ICacheService
+    @inject('ICacheService') private cacheService: ICacheService,
+    @inject('IUserPreferencesRepository') private preferencesRepo: IUserPreferencesRepository,
+    @inject('IProfileRepository') private profileRepo: IProfileRepository
   ) {}
 
   async execute(input: GetPrayerTimesInput): Promise<Result<GetPrayerTimesResult>> {
     try {
-      const {
-        userId,
-        latitude,
-        longitude,
-        date = new Date(),
-        calculationMethod = 'MuslimWorldLeague',
-        timezone
-      } = input;
+      const { userId, date = new Date() } = input;
+
+      const preferences = await this.loadPreferences(userId);
+      const savedLocation = preferences?.location;
+      const useSavedLocation = input.latitude === undefined && input.longitude === undefined;
+
+      const latitude = useSavedLocation ? savedLocation?.lat : input.latitude;
+      const longitude = useSavedLocation ? savedLocation?.lng : input.longitude;
+      const calculationMethod = input.calculationMethod
+        ?? preferences?.prayerCalculationMethod
+        ?? 'MuslimWorldLeague';
+      const timezone = input.timezone ?? await this.loadTimezone(userId);
+
+      if (latitude === undefined || longitude === undefined) {
+        return Result.error(new Error('Location is required. Pass latitude and longitude or save a location in preferences.'));
+      }
 
       // Validate inputs
       if (!this.isValidLatitude(latitude)) {
@@ -58,10 +94,18 @@ export class GetPrayerTimesUseCase {
       const location = Location.create({
         latitude,
         longitude,
+        city: useSavedLocation ? savedLocation?.city : undefined,
+        country: useSavedLocation ? savedLocation?.country : undefined,
         timezone
       });
 
-      const calcMethod = CalculationMethod.create(calculationMethod);
+      const prayerSettings = preferences?.prayerSettings ?? {};
+
+      const calcMethod = CalculationMethod.create(calculationMethod, {
+        asrMadhab: input.asrMadhab ?? prayerSettings.asrMadhab,
+        highLatitudeRule: input.highLatitudeRule ?? prayerSettings.highLatitudeRule,
+        adjustments: { ...prayerSettings.adjustments, ...input.adjustments }
+      });
       const userIdVO = new UserId(userId);
 
       // Normalize date to start of day for caching
@@ -72,17 +116,11 @@ export class GetPrayerTimesUseCase {
       const cacheKey = this.generateCacheKey(location, calcMethod, normalizedDate);
       const cached = await this.getCachedPrayerTimes(cacheKey);
 
+      // The cache is shared per location, so the Hijri date is always worked out for this user
+      const hijriDate = this.getHijriDate(preferences, toLocalDateString(date, timezone));
+
       if (cached) {
-        // Update userId for cached entry if different user
-        const updatedPrayerTimes = PrayerTimes.create({
-          userId: userId,
-          location: cached.location,
-          calculationMethod: cached.calculationMethod,
-          prayerTimes: cached.prayerTimes,
-          hijriDate: cached.hijriDate,
-          createdAt: cached.createdAt,
-          validUntil: cached.validUntil
-        });
+        const updatedPrayerTimes = cached.forUser(userId, hijriDate);
 
         const coordinates = new Coordinates(latitude, longitude);
         const qiblaDirection = Qibla(coordinates);
@@ -96,12 +134,12 @@ export class GetPrayerTimesUseCase {
       // Check database for existing prayer times
       const existing = await this.prayerTimesRepo.findByUserAndDate(userIdVO, normalizedDate);
 
-      if (existing && existing.isValid()) {
+      if (existing && existing.isValid() && this.isSameCalculation(existing, location, calcMethod)) {
         const coordinates = new Coordinates(latitude, longitude);
         const qiblaDirection = Qibla(coordinates);
 
         return Result.ok({
-          prayerTimes: existing,
+          prayerTimes: existing.forUser(userId, hijriDate),
           qiblaDirection
         });
       }
@@ -121,7 +159,7 @@ export class GetPrayerTimesUseCase {
         location: location,
         calculationMethod: calcMethod,
         prayerTimes: dailyPrayerTimes,
-        hijriDate: await this.getHijriDate(normalizedDate)
+        hijriDate
       });
 
       // Save to database
@@ -151,7 +189,7 @@ export class GetPrayerTimesUseCase {
   ): Promise<Result<DailyPrayerTimes>> {
     try {
       const coordinates = new Coordinates(location.latitude, location.longitude);
-      const adhanMethod = this.mapCalculationMethod(calculationMethod.method);
+      const adhanMethod = this.toCalculationParameters(location, calculationMethod);
 
       const prayerTimes = new AdhanPrayerTimes(coordinates, date, adhanMethod);
 
@@ -193,16 +231,45 @@ export class GetPrayerTimesUseCase {
       'Qatar': AdhanCalculationMethod.Qatar(),
       'Singapore': AdhanCalculationMethod.Singapore(),
       'Tehran': AdhanCalculationMethod.Tehran(),
-      'Turkey': AdhanCalculationMethod.Turkey()
+      'Turkey': AdhanCalculationMethod.Turkey(),
+      // adhan has no Jafari preset: Leva Institute, Qum angles
+      'Jafari': new CalculationParameters('Other', 16, 14, 0, 4)
     };
 
     return methodMap[method];
   }
 
+  /**
+   * Applies the Asr madhab, high-latitude rule and minute adjustments on top of the method's angles
+   */
+  private toCalculationParameters(location: Location, calculationMethod: CalculationMethod): CalculationParameters {
+    const params: CalculationParameters = this.mapCalculationMethod(calculationMethod.method);
+
+    params.madhab = calculationMethod.asrMadhab === 'Hanafi' ? Madhab.Hanafi : Madhab.Shafi;
+
+    // Above 48° Isha and Fajr drift into the middle of the night (or disappear) in summer
+    const highLatitudeRule = calculationMethod.highLatitudeRule
+      ?? (location.isHighLatitude ? 'SeventhOfTheNight' : 'MiddleOfTheNight');
+    params.highLatitudeRule = AdhanHighLatitudeRule[highLatitudeRule];
+    params.polarCircleResolution = PolarCircleResolution.AqrabBalad;
+
+    params.adjustments = { ...params.adjustments, ...calculationMethod.adjustments };
+
+    return params;
+  }
+
+  private isSameCalculation(prayerTimes: PrayerTimes, location: Location, calculationMethod: CalculationMethod): boolean {
+    return this.coordinatesKey(prayerTimes.location) === this.coordinatesKey(location)
+      && prayerTimes.calculationMethod.equals(calculationMethod);
+  }
+
+  private coordinatesKey(location: Location): string {
+    return `${location.latitude.toFixed(4)},${location.longitude.toFixed(4)}`;
+  }
+
   private generateCacheKey(location: Location, method: CalculationMethod, date: Date): string {
     const dateStr = date.toISOString().split('T')[0]; // YYYY-MM-DD
-    const coordsStr = `${location.latitude.toFixed(4)},${location.longitude.toFixed(4)}`;
-    return `prayer_times:${coordsStr}:${method.method}:${dateStr}`;
+    return `prayer_times:${this.coordinatesKey(location)}:${method.key}:${dateStr}`;
   }
 
   private async getCachedPrayerTimes(cacheKey: string): Promise<PrayerTimes | null> {
@@ -212,7 +279,7 @@ export class GetPrayerTimesUseCase {
 
       // Reconstruct PrayerTimes from cached data
       const location = Location.create(cached.location);
-      const calculationMethod = CalculationMethod.create(cached.calculationMethod);
+      const calculationMethod = CalculationMethod.create(cached.calculationMethod, cached.calculationSettings);
 
       const prayerTimes = PrayerTimes.create({
         id: cached.id,
@@ -252,20 +319,19 @@ export class GetPrayerTimesUseCase {
     }
   }
 
-  private async getHijriDate(date: Date): Promise<string> {
-    try {
-      // Simple Hijri date calculation - in production you might want a more sophisticated library
-      const islamicEpoch = new Date('622-07-16');
-      const daysSinceEpoch = Math.floor((date.getTime() - islamicEpoch.getTime()) / (1000 * 60 * 60 * 24));
-      const hijriYear = Math.floor(daysSinceEpoch / 354.367) + 1;
-      const dayOfYear = daysSinceEpoch % 354;
-      const hijriMonth = Math.floor(dayOfYear / 29.5) + 1;
-      const hijriDay = dayOfYear % 29 + 1;
-
-      return `${hijriDay}/${hijriMonth}/${hijriYear} AH`;
-    } catch (error) {
-      return `${date.getFullYear()} CE`;
-    }
+  private async loadPreferences(userId: string): Promise<UserPreferencesEntity | null> {
+    const preferencesResult = await this.preferencesRepo.getByUserId(userId);
+    return Result.isOk(preferencesResult) ? preferencesResult.value : null;
+  }
+
+  private async loadTimezone(userId: string): Promise<string | undefined> {
+    const timezoneResult = await this.profileRepo.getTimezone(new UserId(userId));
+    return Result.isOk(timezoneResult) ? timezoneResult.value : undefined;
+  }
+
+  private getHijriDate(preferences: UserPreferencesEntity | null, dateString: string): string {
+    const { adjustment, locale } = toHijriSettings(preferences);
+    return formatHijriDate(toHijri(dateString, adjustment), locale);
   }
 
   private isValidLatitude(lat: number): boolean {
@@ -0,0 +1,107 @@
+import { injectable, inject } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { ValidationError } from '@/shared/errors';
+import { resolveTimezone, toLocalDateString } from '@/shared/timezone';
+import { HijriDate, HijriLocale, toHijri } from '@/shared/hijri';
+import { Location } from '@/domain/value-objects/Location';
+import { CalculationMethod } from '@/domain/value-objects/CalculationMethod';
+import { IProfileRepository } from '@/domain/repositories/IProfileRepository';
+import { UserId } from '@/domain/value-objects/UserId';
+import { IUserPreferencesRepository } from '@/infrastructure/repos/UserPreferencesRepository';
+import { GetPrayerTimesRangeUseCase } from './GetPrayerTimesRangeUseCase';
+import { toHijriSettings } from './calendar/hijriSettings';
+
+export const TIMETABLE_PRAYERS = ['fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'isha'] as const;
+export type TimetablePrayer = typeof TIMETABLE_PRAYERS[number];
+
+export interface GetPrayerTimetableRequest {
+  userId: string;
+  month?: string; // YYYY-MM, defaults to the current month in the user's timezone
+}
+
+export interface PrayerTimetableDay {
+  date: string; // YYYY-MM-DD in the location's timezone
+  hijri: HijriDate;
+  times: Record<TimetablePrayer, Date>;
+}
+
+export interface PrayerTimetable {
+  month: string;
+  location: Location;
+  timezone: string;
+  calculationMethod: CalculationMethod;
+  qiblaDirection: number;
+  locale: HijriLocale;
+  days: PrayerTimetableDay[];
+}
+
+/**
+ * A month of prayer times for the user's saved location, method and prayer
+ * settings, with Hijri dates, for the calendar and printable exports
+ */
+@injectable()
+export class GetPrayerTimetableUseCase {
+  constructor(
+    @inject('IProfileRepository') private readonly profileRepository: IProfileRepository,
+    @inject('IUserPreferencesRepository') private readonly preferencesRepository: IUserPreferencesRepository,
+    @inject('GetPrayerTimesRangeUseCase') private readonly getPrayerTimesRangeUseCase: GetPrayerTimesRangeUseCase
+  ) {}
+
+  async execute(request: GetPrayerTimetableRequest): Promise<Result<PrayerTimetable>> {
+    try {
+      const preferencesResult = await this.preferencesRepository.getByUserId(request.userId);
+      const preferences = Result.isOk(preferencesResult) ? preferencesResult.value : null;
+
+      if (!preferences?.location) {
+        return Result.error(new ValidationError('Save a location in your preferences to export a timetable'));
+      }
+
+      const timezoneResult = await this.profileRepository.getTimezone(new UserId(request.userId));
+      const profileTimezone = Result.isOk(timezoneResult) ? timezoneResult.value : undefined;
+
+      const month = request.month ?? toLocalDateString(new Date(), resolveTimezone(profileTimezone)).slice(0, 7);
+      const [year, monthNumber] = month.split('-').map(Number);
+      const firstDay = `${month}-01`;
+      const lastDay = new Date(Date.UTC(year, monthNumber, 0)).toISOString().split('T')[0];
+
+      // Midday keeps each date on the intended calendar day whatever the server's timezone
+      const rangeResult = await this.getPrayerTimesRangeUseCase.execute({
+        userId: request.userId,
+        startDate: new Date(`${firstDay}T12:00:00.000Z`),
+        endDate: new Date(`${lastDay}T12:00:00.000Z`)
+      });
+
+      if (Result.isError(rangeResult)) {
+        return Result.error(rangeResult.error);
+      }
+
+      const { prayerTimesList, qiblaDirection } = rangeResult.value;
+      const { location, calculationMethod } = prayerTimesList[0];
+      const timezone = resolveTimezone(location.timezone);
+      const { adjustment, locale } = toHijriSettings(preferences);
+
+      const days = prayerTimesList.map((prayerTimes): PrayerTimetableDay => {
+        const { fajr, sunrise, dhuhr, asr, maghrib, isha } = prayerTimes.prayerTimes;
+        const date = toLocalDateString(dhuhr, timezone);
+
+        return {
+          date,
+          hijri: toHijri(date, adjustment),
+          times: { fajr, sunrise, dhuhr, asr, maghrib, isha }
+        };
+      });
+
+      return Result.ok({
+        month,
+        location,
+        timezone,
+        calculationMethod,
+        qiblaDirection,
+        locale,
+        days
+      });
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { injectable, inject } from 'tsyringe';
+import { ISurveyRepository } from '@/domain/repositories/ISurveyRepository';
+import { SurveyResult, Disease, LikertScore } from '@/domain/entities/SurveyResult';
+import { UserId } from '@/domain/value-objects/UserId';
+import { Result } from '@/shared/result';
+import { createAppError, ErrorCode } from '@/shared/errors';
+import type { SurveyAttempt, SurveyComparison, SurveyHistory } from '@sakinah/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface GetSurveyHistoryRequest {
+  userId: string;
+  fromAttempt?: number; // defaults to the attempt before toAttempt
+  toAttempt?: number; // defaults to the latest attempt
+}
+
+export interface SurveyHistoryResponse extends SurveyHistory {
+  results: SurveyResult[]; // oldest attempt first
+}
+
+@injectable()
+export class GetSurveyHistoryUseCase {
+  constructor(
+    @inject('ISurveyRepository') private surveyRepository: ISurveyRepository
+  ) {}
+
+  async execute(request: GetSurveyHistoryRequest): Promise<Result<SurveyHistoryResponse>> {
+    try {
+      const historyResult = await this.surveyRepository.getSurveyResultHistory(new UserId(request.userId));
+      if (Result.isError(historyResult)) {
+        return Result.error(historyResult.error);
+      }
+
+      const results = historyResult.value;
+      const attempts = results.map(toSurveyAttempt);
+      if (results.length === 0) {
+        return Result.ok({ results, attempts, comparison: null });
+      }
+
+      const to = request.toAttempt !== undefined
+        ? results.find(result => result.attemptNumber === request.toAttempt)
+        : results[results.length - 1];
+      if (!to) {
+        return Result.error(createAppError(ErrorCode.NOT_FOUND, `Survey attempt ${request.toAttempt} not found`));
+      }
+
+      const from = request.fromAttempt !== undefined
+        ? results.find(result => result.attemptNumber === request.fromAttempt)
+        : [...results].reverse().find(result => result.attemptNumber < to.attemptNumber);
+      if (request.fromAttempt !== undefined && !from) {
+        return Result.error(createAppError(ErrorCode.NOT_FOUND, `Survey attempt ${request.fromAttempt} not found`));
+      }
+
+      return Result.ok({
+        results,
+        attempts,
+        comparison: from && from !== to ? compareSurveyResults(from, to) : null
+      });
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
+
+function toSurveyAttempt(result: SurveyResult): SurveyAttempt {
+  return {
+    id: result.id.toString(),
+    attemptNumber: result.attemptNumber,
+    diseaseScores: Object.fromEntries(result.diseaseScores) as Record<Disease, LikertScore>,
+    criticalDiseases: result.criticalDiseases,
+    generatedAt: result.generatedAt.toISOString()
+  };
+}
+
+/**
+ * Per-disease change between two attempts. Scores measure how strongly a
+ * disease is present, so a negative delta is an improvement.
+ */
+export function compareSurveyResults(from: SurveyResult, to: SurveyResult): SurveyComparison {
+  const previousScores = from.diseaseScores;
+  const deltas = Array.from(to.diseaseScores.entries())
+    .filter(([disease]) => previousScores.has(disease))
+    .map(([disease, current]) => {
+      const previous = previousScores.get(disease)!;
+      return { disease, previous, current, delta: current - previous };
+    });
+
+  return {
+    fromAttempt: from.attemptNumber,
+    toAttempt: to.attemptNumber,
+    daysBetween: Math.round((to.generatedAt.getTime() - from.generatedAt.getTime()) / DAY_MS),
+    deltas,
+    improved: deltas.filter(delta => delta.delta < 0).map(delta => delta.disease),
+    worsened: deltas.filter(delta => delta.delta > 0).map(delta => delta.disease)
+  };
+}
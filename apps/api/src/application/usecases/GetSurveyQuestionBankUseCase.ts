@@ -0,0 +1,37 @@
+import { injectable, inject } from 'tsyringe';
+import { ISurveyQuestionRepository } from '@/domain/repositories/ISurveyQuestionRepository';
+import { SurveyQuestionBank } from '@/domain/entities/SurveyQuestionBank';
+import { Result } from '@/shared/result';
+import { createAppError, ErrorCode } from '@/shared/errors';
+
+export interface GetSurveyQuestionBankRequest {
+  version?: number; // defaults to the active bank
+}
+
+@injectable()
+export class GetSurveyQuestionBankUseCase {
+  constructor(
+    @inject('ISurveyQuestionRepository') private questionRepository: ISurveyQuestionRepository
+  ) {}
+
+  async execute(request: GetSurveyQuestionBankRequest = {}): Promise<Result<SurveyQuestionBank>> {
+    try {
+      if (request.version === undefined) {
+        return await this.questionRepository.getActiveBank();
+      }
+
+      const bankResult = await this.questionRepository.getBank(request.version);
+      if (Result.isError(bankResult)) {
+        return Result.error(bankResult.error);
+      }
+
+      if (!bankResult.value) {
+        return Result.error(createAppError(ErrorCode.NOT_FOUND, `Survey question bank ${request.version} not found`));
+      }
+
+      return Result.ok(bankResult.value);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
@@ -1,67 +1,133 @@
 import { injectable, inject } from 'tsyringe';
 import { Result } from '@/shared/result';
-import { ICheckinRepository } from '@/domain/repositories';
-import { Checkin } from '@/domain/entities/Checkin';
+import { toLocalDate } from '@/shared/timezone';
+import { ICheckinRepository, IProfileRepository } from '@/domain/repositories';
+import { Checkin, CheckinSession, CHECKIN_SESSIONS } from '@/domain/entities/Checkin';
 import { UserId } from '@/domain/value-objects/UserId';
 
+export interface TodayCheckins {
+  date: string;
+  morning: Checkin | null;
+  evening: Checkin | null;
+}
+
+/**
+ * Clients that don't name a session get the morning one when they only send
+ * an intention, and the evening muhasabah otherwise.
+ */
+export function inferCheckinSession(fields: {
+  intention?: string;
+  reflection?: string;
+  gratitude?: string[];
+  improvements?: string;
+}): CheckinSession {
+  const hasEveningFields = fields.reflection !== undefined ||
+    fields.gratitude !== undefined ||
+    fields.improvements !== undefined;
+
+  return fields.intention !== undefined && !hasEveningFields ? 'morning' : 'evening';
+}
+
 @injectable()
 export class LogCheckinUseCase {
   constructor(
-    @inject('ICheckinRepository') private checkinRepo: ICheckinRepository
+    @inject('ICheckinRepository') private checkinRepo: ICheckinRepository,
+    @inject('IProfileRepository') private profileRepo: IProfileRepository
   ) {}
 
   async execute(params: {
     userId: string;
+    session?: CheckinSession;
     mood?: number;
     intention?: string;
     reflection?: string;
+    gratitude?: string[];
+    improvements?: string;
+    date?: Date; // calendar day at UTC midnight, defaults to today in the user's timezone
   }): Promise<Result<Checkin>> {
     try {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+      let today = params.date;
+      if (!today) {
+        const todayResult = await this.getLocalToday(params.userId);
+        if (Result.isError(todayResult)) {
+          return todayResult;
+        }
+        today = todayResult.value;
+      }
+
+      const session = params.session ?? inferCheckinSession(params);
 
-      // Check if checkin exists for today
+      // Check if this session's checkin exists for today
       const existingResult = await this.checkinRepo.findByUserAndDate(
         new UserId(params.userId),
-        today
+        today,
+        session
       );
 
-      if (existingResult.ok && existingResult.value) {
-        // Update existing checkin
-        const checkin = existingResult.value;
-
-        if (params.mood !== undefined) {
-          checkin.updateMood(params.mood);
-        }
-        if (params.intention !== undefined) {
-          checkin.setIntention(params.intention);
-        }
-        if (params.reflection !== undefined) {
-          checkin.setReflection(params.reflection);
-        }
-
-        return await this.checkinRepo.update(checkin);
-      }
-
-      // Create new checkin
-      const checkin = Checkin.create({
+      const existing = existingResult.ok ? existingResult.value : null;
+      const checkin = existing ?? Checkin.create({
         userId: params.userId,
         date: today,
-        mood: params.mood,
-        intention: params.intention,
-        reflection: params.reflection
+        session
       });
 
-      return await this.checkinRepo.create(checkin);
+      if (params.mood !== undefined) {
+        checkin.updateMood(params.mood);
+      }
+      if (params.intention !== undefined) {
+        checkin.setIntention(params.intention);
+      }
+      if (params.reflection !== undefined) {
+        checkin.setReflection(params.reflection);
+      }
+      if (params.gratitude !== undefined) {
+        checkin.setGratitude(params.gratitude);
+      }
+      if (params.improvements !== undefined) {
+        checkin.setImprovements(params.improvements);
+      }
+
+      return existing
+        ? await this.checkinRepo.update(checkin)
+        : await this.checkinRepo.create(checkin);
     } catch (error) {
       return Result.error(error as Error);
     }
   }
 
-  async getToday(userId: string): Promise<Result<Checkin | null>> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+  async getToday(userId: string): Promise<Result<TodayCheckins>> {
+    const todayResult = await this.getLocalToday(userId);
+    if (Result.isError(todayResult)) {
+      return todayResult;
+    }
+
+    const today = todayResult.value;
+    const [morning, evening] = await Promise.all(
+      CHECKIN_SESSIONS.map(session => this.checkinRepo.findByUserAndDate(new UserId(userId), today, session))
+    );
+    if (Result.isError(morning)) {
+      return morning;
+    }
+    if (Result.isError(evening)) {
+      return evening;
+    }
+
+    return Result.ok({
+      date: today.toISOString().split('T')[0],
+      morning: morning.value,
+      evening: evening.value
+    });
+  }
+
+  /**
+   * Today's date in the user's profile timezone
+   */
+  private async getLocalToday(userId: string): Promise<Result<Date>> {
+    const timezoneResult = await this.profileRepo.getTimezone(new UserId(userId));
+    if (Result.isError(timezoneResult)) {
+      return timezoneResult;
+    }
 
-    return await this.checkinRepo.findByUserAndDate(new UserId(userId), today);
+    return Result.ok(toLocalDate(new Date(), timezoneResult.value));
   }
 }
\ No newline at end of file
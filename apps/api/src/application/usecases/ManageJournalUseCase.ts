@@ -1,14 +1,28 @@
 import { injectable, inject } from 'tsyringe';
 import { Result } from '@/shared/result';
-import { IJournalRepository } from '@/domain/repositories';
+import { IJournalRepository, IProfileRepository, JournalSearchResult, JournalSearchSort } from '@/domain/repositories';
 import { JournalEntry } from '@/domain/entities/JournalEntry';
 import { JournalId } from '@/domain/value-objects/JournalId';
 import { UserId } from '@/domain/value-objects/UserId';
+import { addDays, resolveTimezone, toInstant } from '@/shared/timezone';
+
+export interface SearchJournalRequest {
+  userId: string;
+  text?: string;
+  tags?: string[];
+  from?: string; // YYYY-MM-DD in the user's timezone, inclusive
+  to?: string; // YYYY-MM-DD in the user's timezone, inclusive
+  page: number;
+  limit: number;
+  sortBy?: JournalSearchSort;
+  sortOrder?: 'asc' | 'desc';
+}
 
 @injectable()
 export class ManageJournalUseCase {
   constructor(
-    @inject('IJournalRepository') private journalRepo: IJournalRepository
+    @inject('IJournalRepository') private journalRepo: IJournalRepository,
+    @inject('IProfileRepository') private profileRepo: IProfileRepository
   ) {}
 
   async createEntry(params: {
@@ -33,6 +47,34 @@ export class ManageJournalUseCase {
     return await this.journalRepo.findByUserId(new UserId(userId), search);
   }
 
+  async searchEntries(request: SearchJournalRequest): Promise<Result<JournalSearchResult>> {
+    try {
+      const userId = new UserId(request.userId);
+      let from: Date | undefined;
+      let to: Date | undefined;
+
+      if (request.from || request.to) {
+        const timezoneResult = await this.profileRepo.getTimezone(userId);
+        const timezone = resolveTimezone(Result.isOk(timezoneResult) ? timezoneResult.value : undefined);
+        from = request.from ? toInstant(request.from, '00:00', timezone) : undefined;
+        to = request.to ? toInstant(addDays(request.to, 1), '00:00', timezone) : undefined;
+      }
+
+      return await this.journalRepo.search(userId, {
+        text: request.text?.trim() || undefined,
+        tags: request.tags,
+        from,
+        to,
+        page: request.page,
+        limit: request.limit,
+        sortBy: request.sortBy,
+        sortOrder: request.sortOrder
+      });
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
   async getEntry(id: string): Promise<Result<JournalEntry | null>> {
     return await this.journalRepo.findById(new JournalId(id));
   }
@@ -0,0 +1,64 @@
+import { injectable, inject } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { IHabitRepository } from '@/domain/repositories';
+import { UserId } from '@/domain/value-objects/UserId';
+
+export interface RecalculateHabitStreaksResult {
+  habitsChecked: number;
+  habitsUpdated: number;
+}
+
+/**
+ * Rebuilds stored streaks from habit_completions. Used to back-fill habits
+ * whose streaks were computed before streaks followed the habit schedule.
+ */
+@injectable()
+export class RecalculateHabitStreaksUseCase {
+  constructor(
+    @inject('IHabitRepository') private habitRepo: IHabitRepository
+  ) {}
+
+  async execute(params: { userId?: string } = {}): Promise<Result<RecalculateHabitStreaksResult>> {
+    try {
+      const habitsResult = params.userId
+        ? await this.habitRepo.findByUserId(new UserId(params.userId))
+        : await this.habitRepo.findAll();
+
+      if (Result.isError(habitsResult)) {
+        return Result.error(habitsResult.error);
+      }
+
+      let habitsUpdated = 0;
+
+      for (const habit of habitsResult.value) {
+        const completionsResult = await this.habitRepo.findCompletionDates(habit.id);
+        if (Result.isError(completionsResult)) {
+          return Result.error(completionsResult.error);
+        }
+
+        const previousStreakCount = habit.streakCount;
+        const previousLastCompletedOn = habit.lastCompletedOn?.getTime();
+
+        habit.recalculateStreak(completionsResult.value);
+
+        if (habit.streakCount === previousStreakCount && habit.lastCompletedOn?.getTime() === previousLastCompletedOn) {
+          continue;
+        }
+
+        const saveResult = await this.habitRepo.updateStreak(habit);
+        if (Result.isError(saveResult)) {
+          return Result.error(saveResult.error);
+        }
+
+        habitsUpdated++;
+      }
+
+      return Result.ok({
+        habitsChecked: habitsResult.value.length,
+        habitsUpdated
+      });
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
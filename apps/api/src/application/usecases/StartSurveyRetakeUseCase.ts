@@ -0,0 +1,68 @@
+import { injectable, inject } from 'tsyringe';
+import { ISurveyRepository } from '@/domain/repositories/ISurveyRepository';
+import { SurveyProgress } from '@/domain/entities/SurveyProgress';
+import { UserId } from '@/domain/value-objects/UserId';
+import { Result } from '@/shared/result';
+import { createAppError, ErrorCode } from '@/shared/errors';
+
+export interface StartSurveyRetakeRequest {
+  userId: string;
+}
+
+export interface StartSurveyRetakeResponse {
+  attemptNumber: number;
+  previousResultId: string | null;
+  progress: SurveyProgress;
+}
+
+/**
+ * Opens a new survey attempt once the current one has results. Phase
+ * answers are overwritten as the user goes through the survey again, while
+ * the earlier results stay in the history for comparison.
+ */
+@injectable()
+export class StartSurveyRetakeUseCase {
+  constructor(
+    @inject('ISurveyRepository') private surveyRepository: ISurveyRepository
+  ) {}
+
+  async execute(request: StartSurveyRetakeRequest): Promise<Result<StartSurveyRetakeResponse>> {
+    try {
+      const userId = new UserId(request.userId);
+
+      const progressResult = await this.surveyRepository.getSurveyProgress(userId);
+      if (Result.isError(progressResult)) {
+        return Result.error(progressResult.error);
+      }
+
+      // startRetake() throws without results, so refuse here with a client error instead
+      const progress = progressResult.value;
+      if (!progress || !progress.resultsGenerated) {
+        return Result.error(createAppError(
+          ErrorCode.BAD_REQUEST,
+          'Complete the survey and view your results before retaking it'
+        ));
+      }
+
+      const latestResult = await this.surveyRepository.getSurveyResult(userId);
+      if (Result.isError(latestResult)) {
+        return Result.error(latestResult.error);
+      }
+
+      progress.startRetake();
+
+      const updateResult = await this.surveyRepository.updateSurveyProgress(progress);
+      if (Result.isError(updateResult)) {
+        return Result.error(updateResult.error);
+      }
+
+      return Result.ok({
+        attemptNumber: progress.attemptNumber,
+        previousResultId: latestResult.value?.id.toString() ?? null,
+        progress
+      });
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
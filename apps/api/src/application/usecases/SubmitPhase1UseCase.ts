@@ -3,13 +3,13 @@ import { Result } from '@/shared/result';
 import { ISurveyRepository } from '@/domain/repositories/ISurveyRepository';
 import { SurveyResponse } from '@/domain/entities/SurveyResponse';
 import { SurveyProgress } from '@/domain/entities/SurveyProgress';
-import { QuestionResponse } from '@/domain/value-objects/QuestionResponse';
+import { ISurveyQuestionRepository } from '@/domain/repositories/ISurveyQuestionRepository';
 import { UserId } from '@/domain/value-objects/UserId';
-import { Phase1Request, LikertScore } from '@sakinah/types';
+import { PhaseRequest } from '@sakinah/types';
 
 interface SubmitPhase1Params {
   userId: string;
-  phase1Data: Phase1Request;
+  phase1Data: PhaseRequest; // keyed by the active bank's `${questionId}Score` / `${questionId}Note`
 }
 
 interface SubmitPhase1Result {
@@ -33,7 +33,8 @@ interface SubmitPhase1Result {
 @injectable()
 export class SubmitPhase1UseCase {
   constructor(
-    @inject('ISurveyRepository') private surveyRepo: ISurveyRepository
+    @inject('ISurveyRepository') private surveyRepo: ISurveyRepository,
+    @inject('ISurveyQuestionRepository') private questionRepo: ISurveyQuestionRepository
   ) {}
 
   async execute(params: SubmitPhase1Params): Promise<Result<SubmitPhase1Result>> {
@@ -73,8 +74,13 @@ export class SubmitPhase1UseCase {
         }
       }
 
-      // Convert Phase1Request to QuestionResponse array
-      const questionResponses = this.convertPhase1ToQuestionResponses(params.phase1Data);
+      const bankResult = await this.questionRepo.getActiveBank();
+      if (Result.isError(bankResult)) {
+        return Result.error(new Error('Failed to load survey questions'));
+      }
+
+      // One response per Phase 1 question of the active bank
+      const questionResponses = bankResult.value.toQuestionResponses(1, params.phase1Data);
 
       // Create SurveyResponse entities for each question
       const surveyResponses: SurveyResponse[] = [];
@@ -118,48 +124,4 @@ export class SubmitPhase1UseCase {
       return Result.error(error as Error);
     }
   }
-
-  private convertPhase1ToQuestionResponses(data: Phase1Request): QuestionResponse[] {
-    const responses: QuestionResponse[] = [];
-
-    // Envy question
-    responses.push(new QuestionResponse('envy', data.envyScore, data.envyNote));
-
-    // Arrogance question
-    responses.push(new QuestionResponse('arrogance', data.arroganceScore, data.arroganceNote));
-
-    // Self-deception question
-    responses.push(new QuestionResponse('selfDeception', data.selfDeceptionScore, data.selfDeceptionNote));
-
-    // Lust question
-    responses.push(new QuestionResponse('lust', data.lustScore, data.lustNote));
-
-    return responses;
-  }
-
-  private validateLikertScore(score: number): score is LikertScore {
-    return score >= 1 && score <= 5 && Number.isInteger(score);
-  }
-
-  private validatePhase1Data(data: Phase1Request): Result<void> {
-    // Validate all required scores are valid Likert scores
-    const scores = [data.envyScore, data.arroganceScore, data.selfDeceptionScore, data.lustScore];
-
-    for (const score of scores) {
-      if (!this.validateLikertScore(score)) {
-        return Result.error(new Error(`Invalid Likert score: ${score}. Score must be between 1 and 5`));
-      }
-    }
-
-    // Validate notes don't exceed maximum length
-    const notes = [data.envyNote, data.arroganceNote, data.selfDeceptionNote, data.lustNote];
-
-    for (const note of notes) {
-      if (note && note.length > 1000) {
-        return Result.error(new Error('Note cannot exceed 1000 characters'));
-      }
-    }
-
-    return Result.ok(undefined);
-  }
-}
\ No newline at end of file
+}
@@ -3,13 +3,13 @@ import { Result } from '@/shared/result';
 import { ISurveyRepository } from '@/domain/repositories/ISurveyRepository';
 import { SurveyResponse } from '@/domain/entities/SurveyResponse';
 import { SurveyProgress } from '@/domain/entities/SurveyProgress';
-import { QuestionResponse } from '@/domain/value-objects/QuestionResponse';
+import { ISurveyQuestionRepository } from '@/domain/repositories/ISurveyQuestionRepository';
 import { UserId } from '@/domain/value-objects/UserId';
-import { Phase2Request, LikertScore } from '@sakinah/types';
+import { PhaseRequest } from '@sakinah/types';
 
 interface SubmitPhase2Params {
   userId: string;
-  phase2Data: Phase2Request;
+  phase2Data: PhaseRequest; // keyed by the active bank's `${questionId}Score` / `${questionId}Note`
 }
 
 interface SubmitPhase2Result {
@@ -33,7 +33,8 @@ interface SubmitPhase2Result {
 @injectable()
 export class SubmitPhase2UseCase {
   constructor(
-    @inject('ISurveyRepository') private surveyRepo: ISurveyRepository
+    @inject('ISurveyRepository') private surveyRepo: ISurveyRepository,
+    @inject('ISurveyQuestionRepository') private questionRepo: ISurveyQuestionRepository
   ) {}
 
   async execute(params: SubmitPhase2Params): Promise<Result<SubmitPhase2Result>> {
@@ -66,14 +67,13 @@ export class SubmitPhase2UseCase {
         return Result.error(new Error('Phase 2 has already been completed'));
       }
 
-      // Validate Phase 2 data
-      const validationResult = this.validatePhase2Data(params.phase2Data);
-      if (Result.isError(validationResult)) {
-        return validationResult;
+      const bankResult = await this.questionRepo.getActiveBank();
+      if (Result.isError(bankResult)) {
+        return Result.error(new Error('Failed to load survey questions'));
       }
 
-      // Convert Phase2Request to QuestionResponse array
-      const questionResponses = this.convertPhase2ToQuestionResponses(params.phase2Data);
+      // One response per Phase 2 question of the active bank; throws on a missing or invalid score
+      const questionResponses = bankResult.value.toQuestionResponses(2, params.phase2Data);
 
       // Create SurveyResponse entities for each question
       const surveyResponses: SurveyResponse[] = [];
@@ -115,73 +115,4 @@ export class SubmitPhase2UseCase {
       return Result.error(error as Error);
     }
   }
-
-  private convertPhase2ToQuestionResponses(data: Phase2Request): QuestionResponse[] {
-    const responses: QuestionResponse[] = [];
-
-    // Anger question
-    responses.push(new QuestionResponse('anger', data.angerScore, data.angerNote));
-
-    // Malice question
-    responses.push(new QuestionResponse('malice', data.maliceScore, data.maliceNote));
-
-    // Backbiting question
-    responses.push(new QuestionResponse('backbiting', data.backbitingScore, data.backbitingNote));
-
-    // Suspicion question
-    responses.push(new QuestionResponse('suspicion', data.suspicionScore, data.suspicionNote));
-
-    // Love of Dunya question
-    responses.push(new QuestionResponse('loveOfDunya', data.loveOfDunyaScore, data.loveOfDunyaNote));
-
-    // Laziness question
-    responses.push(new QuestionResponse('laziness', data.lazinessScore, data.lazinessNote));
-
-    // Despair question
-    responses.push(new QuestionResponse('despair', data.despairScore, data.despairNote));
-
-    return responses;
-  }
-
-  private validateLikertScore(score: number): score is LikertScore {
-    return score >= 1 && score <= 5 && Number.isInteger(score);
-  }
-
-  private validatePhase2Data(data: Phase2Request): Result<void> {
-    // Validate all required scores are valid Likert scores
-    const scores = [
-      data.angerScore,
-      data.maliceScore,
-      data.backbitingScore,
-      data.suspicionScore,
-      data.loveOfDunyaScore,
-      data.lazinessScore,
-      data.despairScore
-    ];
-
-    for (const score of scores) {
-      if (!this.validateLikertScore(score)) {
-        return Result.error(new Error(`Invalid Likert score: ${score}. Score must be between 1 and 5`));
-      }
-    }
-
-    // Validate notes don't exceed maximum length
-    const notes = [
-      data.angerNote,
-      data.maliceNote,
-      data.backbitingNote,
-      data.suspicionNote,
-      data.loveOfDunyaNote,
-      data.lazinessNote,
-      data.despairNote
-    ];
-
-    for (const note of notes) {
-      if (note && note.length > 1000) {
-        return Result.error(new Error('Note cannot exceed 1000 characters'));
-      }
-    }
-
-    return Result.ok(undefined);
-  }
-}
\ No newline at end of file
+}
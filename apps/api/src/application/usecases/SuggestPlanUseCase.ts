@@ -28,19 +28,22 @@ export class SuggestPlanUseCase {
         text: input.input,
       });
 
-      // Fetch related content
+      // Fetch related content, starting with the verified sources the suggestion cited
       const contentIds: string[] = [];
       const duaIds: string[] = [];
 
+      for (const citation of suggestion.citations ?? []) {
+        (citation.type === 'dua' ? duaIds : contentIds).push(citation.snippetId);
+      }
+
       if (suggestion.tags.length > 0) {
         const contentResult = await this.contentRepo.findByTags(suggestion.tags);
 
         if (contentResult.ok && contentResult.value) {
           for (const item of contentResult.value) {
-            if (item.type === 'dua') {
-              duaIds.push(item.id);
-            } else {
-              contentIds.push(item.id);
+            const ids = item.type === 'dua' ? duaIds : contentIds;
+            if (!ids.includes(item.id)) {
+              ids.push(item.id);
             }
           }
         }
@@ -1,19 +1,24 @@
 import { injectable, inject } from 'tsyringe';
 import { Result } from '@/shared/result';
-import { IHabitRepository } from '@/domain/repositories';
+import { toLocalDate } from '@/shared/timezone';
+import { IHabitRepository, IProfileRepository } from '@/domain/repositories';
+import { IEventBus } from '@/domain/events/IEventBus';
 import { HabitId } from '@/domain/value-objects/HabitId';
 import { UserId } from '@/domain/value-objects/UserId';
 
 @injectable()
 export class ToggleHabitUseCase {
   constructor(
-    @inject('IHabitRepository') private habitRepo: IHabitRepository
+    @inject('IHabitRepository') private habitRepo: IHabitRepository,
+    @inject('IProfileRepository') private profileRepo: IProfileRepository,
+    @inject('IEventBus') private eventBus: IEventBus
   ) {}
 
   async execute(params: {
     habitId: string;
     userId: string;
     completed: boolean;
+    toggledAt?: Date; // when the user made the change, for toggles queued offline
   }): Promise<Result<void>> {
     try {
       const habitId = new HabitId(params.habitId);
@@ -37,21 +42,36 @@ export class ToggleHabitUseCase {
         return Result.error(new Error('Unauthorized'));
       }
 
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+      const timezoneResult = await this.profileRepo.getTimezone(userId);
+      if (Result.isError(timezoneResult)) {
+        return Result.error(timezoneResult.error);
+      }
+
+      const timezone = timezoneResult.value;
+      const toggledAt = params.toggledAt ?? new Date();
+      const day = toLocalDate(toggledAt, timezone);
+
+      const historyResult = await this.habitRepo.findCompletionDates(habitId);
+      if (Result.isError(historyResult)) {
+        return Result.error(historyResult.error);
+      }
 
       if (params.completed) {
-        // Mark as completed
-        habit.markCompleted(today);
+        // Mark as completed, back-filling the streak when the day is in the past
+        habit.markCompleted(toggledAt, timezone, historyResult.value);
         await this.habitRepo.updateStreak(habit);
-        await this.habitRepo.createCompletion(habitId, userId, today);
+        await this.habitRepo.createCompletion(habitId, userId, day);
       } else {
-        // Mark as incomplete
-        habit.markIncomplete(today);
+        // Mark as incomplete, restoring the streak from the remaining history
+        habit.markIncomplete(toggledAt, timezone, historyResult.value);
         await this.habitRepo.updateStreak(habit);
-        await this.habitRepo.deleteCompletion(habitId, userId, today);
+        await this.habitRepo.deleteCompletion(habitId, userId, day);
       }
 
+      // Completion and revoke events drive the user's stats and achievements
+      await this.eventBus.publishEvents(habit.getDomainEvents());
+      habit.clearDomainEvents();
+
       return Result.ok(undefined);
     } catch (error) {
       return Result.error(error as Error);
@@ -0,0 +1,52 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { IAchievementRepository } from '@/domain/repositories/IAchievementRepository';
+import { UserId } from '@/domain/value-objects/UserId';
+
+export interface AchievementProgress {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  conditionType: string;
+  conditionTarget: number;
+  khayrReward: number;
+  unlocked: boolean;
+  progress: number; // capped at conditionTarget
+}
+
+@injectable()
+export class GetAchievementsUseCase {
+  constructor(
+    @inject('IAchievementRepository') private readonly achievementRepository: IAchievementRepository
+  ) {}
+
+  async execute(request: { userId: string }): Promise<Result<AchievementProgress[], Error>> {
+    try {
+      const achievementsResult = await this.achievementRepository.findAll();
+      if (Result.isError(achievementsResult)) {
+        return Result.error(achievementsResult.error);
+      }
+
+      const statsResult = await this.achievementRepository.getUserStats(new UserId(request.userId));
+      if (Result.isError(statsResult)) {
+        return Result.error(statsResult.error);
+      }
+
+      const stats = statsResult.value;
+      return Result.ok(achievementsResult.value.map(achievement => {
+        const unlocked = stats.hasUnlocked(achievement);
+
+        return {
+          ...achievement.toDTO(),
+          unlocked,
+          progress: unlocked
+            ? achievement.conditionTarget
+            : Math.min(stats.progressTowards(achievement), achievement.conditionTarget)
+        };
+      }));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
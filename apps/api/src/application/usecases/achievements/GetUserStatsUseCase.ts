@@ -0,0 +1,20 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { IAchievementRepository } from '@/domain/repositories/IAchievementRepository';
+import { UserStats } from '@/domain/entities/UserStats';
+import { UserId } from '@/domain/value-objects/UserId';
+
+@injectable()
+export class GetUserStatsUseCase {
+  constructor(
+    @inject('IAchievementRepository') private readonly achievementRepository: IAchievementRepository
+  ) {}
+
+  async execute(request: { userId: string }): Promise<Result<UserStats, Error>> {
+    try {
+      return await this.achievementRepository.getUserStats(new UserId(request.userId));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
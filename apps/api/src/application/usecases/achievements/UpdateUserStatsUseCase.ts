@@ -0,0 +1,73 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { IAchievementRepository } from '@/domain/repositories/IAchievementRepository';
+import { Achievement } from '@/domain/entities/Achievement';
+import { UserStats } from '@/domain/entities/UserStats';
+import { UserId } from '@/domain/value-objects/UserId';
+
+export type UserStatsEvent = 'habit_completed' | 'completion_revoked' | 'milestone_reached' | 'plan_completed';
+
+export interface UpdateUserStatsRequest {
+  userId: string;
+  event: UserStatsEvent;
+  streakCount?: number; // the habit's streak, for the habit events
+  completedOn?: string; // YYYY-MM-DD, required for habit_completed
+}
+
+export interface UpdateUserStatsResponse {
+  stats: UserStats;
+  unlocked: Achievement[];
+}
+
+@injectable()
+export class UpdateUserStatsUseCase {
+  constructor(
+    @inject('IAchievementRepository') private readonly achievementRepository: IAchievementRepository
+  ) {}
+
+  async execute(request: UpdateUserStatsRequest): Promise<Result<UpdateUserStatsResponse, Error>> {
+    try {
+      if (request.event === 'habit_completed' && !request.completedOn) {
+        return Result.error(new Error('Completion date is required'));
+      }
+
+      const statsResult = await this.achievementRepository.getUserStats(new UserId(request.userId));
+      if (Result.isError(statsResult)) {
+        return Result.error(statsResult.error);
+      }
+
+      const stats = statsResult.value;
+      const streakCount = request.streakCount ?? 0;
+      switch (request.event) {
+        case 'habit_completed':
+          stats.recordHabitCompletion(request.completedOn!, streakCount);
+          break;
+        case 'completion_revoked':
+          stats.revokeHabitCompletion();
+          break;
+        case 'milestone_reached':
+          stats.recordHabitStreak(streakCount);
+          break;
+        case 'plan_completed':
+          stats.recordPlanCompletion();
+          break;
+      }
+
+      const achievementsResult = await this.achievementRepository.findAll();
+      if (Result.isError(achievementsResult)) {
+        return Result.error(achievementsResult.error);
+      }
+
+      const unlocked = stats.unlockEarned(achievementsResult.value);
+
+      const saveResult = await this.achievementRepository.saveUserStats(stats);
+      if (Result.isError(saveResult)) {
+        return Result.error(saveResult.error);
+      }
+
+      return Result.ok({ stats: saveResult.value, unlocked });
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
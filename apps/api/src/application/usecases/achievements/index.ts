@@ -0,0 +1,5 @@
+export { UpdateUserStatsUseCase } from './UpdateUserStatsUseCase';
+export { GetAchievementsUseCase } from './GetAchievementsUseCase';
+export { GetUserStatsUseCase } from './GetUserStatsUseCase';
+export type { UserStatsEvent, UpdateUserStatsRequest, UpdateUserStatsResponse } from './UpdateUserStatsUseCase';
+export type { AchievementProgress } from './GetAchievementsUseCase';
@@ -0,0 +1,80 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { ValidationError } from '@/shared/errors';
+import { addDays, toLocalDateString } from '@/shared/timezone';
+import { HijriDate, HijriLocale, HIJRI_MONTH_NAMES, formatHijriDate, isWhiteDay, toHijri } from '@/shared/hijri';
+import { IProfileRepository } from '@/domain/repositories/IProfileRepository';
+import { UserId } from '@/domain/value-objects/UserId';
+import { IUserPreferencesRepository } from '@/infrastructure/repos/UserPreferencesRepository';
+import { loadHijriSettings } from './hijriSettings';
+
+export const DEFAULT_CALENDAR_DAYS = 30;
+export const MAX_CALENDAR_DAYS = 366;
+
+export interface GetHijriCalendarRequest {
+  userId: string;
+  from?: string; // YYYY-MM-DD, defaults to today in the user's timezone
+  to?: string; // YYYY-MM-DD, defaults to 30 days from `from`
+}
+
+export interface HijriCalendarDay {
+  date: string;
+  hijri: HijriDate & { monthName: string };
+  formatted: string;
+  isWhiteDay: boolean;
+}
+
+export interface GetHijriCalendarResponse {
+  today: HijriCalendarDay;
+  days: HijriCalendarDay[];
+  adjustment: number;
+  locale: HijriLocale;
+}
+
+@injectable()
+export class GetHijriCalendarUseCase {
+  constructor(
+    @inject('IProfileRepository') private readonly profileRepository: IProfileRepository,
+    @inject('IUserPreferencesRepository') private readonly preferencesRepository: IUserPreferencesRepository
+  ) {}
+
+  async execute(request: GetHijriCalendarRequest): Promise<Result<GetHijriCalendarResponse>> {
+    try {
+      const timezoneResult = await this.profileRepository.getTimezone(new UserId(request.userId));
+      if (Result.isError(timezoneResult)) {
+        return Result.error(timezoneResult.error);
+      }
+
+      const today = toLocalDateString(new Date(), timezoneResult.value);
+      const from = request.from ?? today;
+      const to = request.to ?? addDays(from, DEFAULT_CALENDAR_DAYS - 1);
+
+      if (to < from) {
+        return Result.error(new ValidationError('`to` must not be before `from`'));
+      }
+      if (addDays(from, MAX_CALENDAR_DAYS - 1) < to) {
+        return Result.error(new ValidationError(`A calendar range may span at most ${MAX_CALENDAR_DAYS} days`));
+      }
+
+      const { adjustment, locale } = await loadHijriSettings(this.preferencesRepository, request.userId);
+      const toCalendarDay = (date: string): HijriCalendarDay => {
+        const hijri = toHijri(date, adjustment);
+        return {
+          date,
+          hijri: { ...hijri, monthName: HIJRI_MONTH_NAMES[locale][hijri.month - 1] },
+          formatted: formatHijriDate(hijri, locale),
+          isWhiteDay: isWhiteDay(hijri)
+        };
+      };
+
+      const days: HijriCalendarDay[] = [];
+      for (let date = from; date <= to; date = addDays(date, 1)) {
+        days.push(toCalendarDay(date));
+      }
+
+      return Result.ok({ today: toCalendarDay(today), days, adjustment, locale });
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
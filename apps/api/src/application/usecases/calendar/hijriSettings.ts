@@ -0,0 +1,32 @@
+import { Result } from '@/shared/result';
+import { HijriLocale, resolveHijriLocale } from '@/shared/hijri';
+import { UserPreferencesEntity } from '@/domain/entities/UserPreferences';
+import { IUserPreferencesRepository } from '@/infrastructure/repos/UserPreferencesRepository';
+
+export interface HijriSettings {
+  adjustment: number;
+  locale: HijriLocale;
+}
+
+/**
+ * The user's Hijri day adjustment and month-name locale, or plain Umm al-Qura
+ * in English when they have no preferences
+ */
+export function toHijriSettings(preferences: UserPreferencesEntity | null): HijriSettings {
+  return {
+    adjustment: preferences?.hijriAdjustment ?? 0,
+    locale: resolveHijriLocale(preferences?.language)
+  };
+}
+
+/**
+ * Loads the user's Hijri settings. Falls back to the defaults when preferences
+ * cannot be loaded, so a Hijri date never blocks the feature showing it.
+ */
+export async function loadHijriSettings(
+  preferencesRepository: IUserPreferencesRepository,
+  userId: string
+): Promise<HijriSettings> {
+  const preferencesResult = await preferencesRepository.getByUserId(userId);
+  return toHijriSettings(Result.isOk(preferencesResult) ? preferencesResult.value : null);
+}
@@ -0,0 +1,4 @@
+export { GetHijriCalendarUseCase } from './GetHijriCalendarUseCase';
+export { loadHijriSettings, toHijriSettings } from './hijriSettings';
+export type { GetHijriCalendarRequest, GetHijriCalendarResponse, HijriCalendarDay } from './GetHijriCalendarUseCase';
+export type { HijriSettings } from './hijriSettings';
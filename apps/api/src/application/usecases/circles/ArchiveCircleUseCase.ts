@@ -0,0 +1,39 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { AuthorizationError } from '@/shared/errors';
+import { ICircleRepository } from '@/domain/repositories/ICircleRepository';
+import { Circle } from '@/domain/entities/Circle';
+import { UserId } from '@/domain/value-objects/UserId';
+import { applyRule, loadMemberCircle } from './circleAccess';
+
+@injectable()
+export class ArchiveCircleUseCase {
+  constructor(
+    @inject('ICircleRepository') private readonly circleRepository: ICircleRepository
+  ) {}
+
+  async execute(request: { userId: string; circleId: string }): Promise<Result<Circle>> {
+    try {
+      const userId = new UserId(request.userId);
+
+      const circleResult = await loadMemberCircle(this.circleRepository, request.circleId, userId);
+      if (Result.isError(circleResult)) {
+        return circleResult;
+      }
+      const circle = circleResult.value;
+
+      if (!circle.isCreator(userId)) {
+        return Result.error(new AuthorizationError('Only the circle creator can archive the circle'));
+      }
+
+      const archiveResult = applyRule(() => circle.archive());
+      if (Result.isError(archiveResult)) {
+        return archiveResult;
+      }
+
+      return await this.circleRepository.update(circle);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
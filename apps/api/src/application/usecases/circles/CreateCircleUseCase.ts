@@ -0,0 +1,41 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { ICircleRepository } from '@/domain/repositories/ICircleRepository';
+import { Circle } from '@/domain/entities/Circle';
+import { applyRule } from './circleAccess';
+
+export interface CreateCircleRequest {
+  userId: string;
+  name: string;
+  description?: string | null;
+  maxMembers?: number;
+  isAnonymous?: boolean;
+  sharedGoal?: string | null;
+}
+
+@injectable()
+export class CreateCircleUseCase {
+  constructor(
+    @inject('ICircleRepository') private readonly circleRepository: ICircleRepository
+  ) {}
+
+  async execute(request: CreateCircleRequest): Promise<Result<Circle>> {
+    try {
+      const circleResult = applyRule(() => Circle.create({
+        name: request.name,
+        description: request.description,
+        creatorId: request.userId,
+        maxMembers: request.maxMembers,
+        isAnonymous: request.isAnonymous,
+        sharedGoal: request.sharedGoal
+      }));
+      if (Result.isError(circleResult)) {
+        return circleResult;
+      }
+
+      return await this.circleRepository.create(circleResult.value);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
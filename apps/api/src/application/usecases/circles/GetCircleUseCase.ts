@@ -0,0 +1,70 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { addDays, toLocalDateString } from '@/shared/timezone';
+import { ICircleRepository, CircleProgress } from '@/domain/repositories/ICircleRepository';
+import { IProfileRepository } from '@/domain/repositories/IProfileRepository';
+import { Circle } from '@/domain/entities/Circle';
+import { UserId } from '@/domain/value-objects/UserId';
+import { loadMemberCircle } from './circleAccess';
+
+/**
+ * How the circle is doing as a whole. Deliberately has no per-member breakdown.
+ */
+export interface CircleProgressSummary {
+  memberCount: number;
+  today: CircleProgress;
+  lastSevenDays: CircleProgress;
+}
+
+export interface GetCircleResponse {
+  circle: Circle;
+  progress: CircleProgressSummary;
+}
+
+@injectable()
+export class GetCircleUseCase {
+  constructor(
+    @inject('ICircleRepository') private readonly circleRepository: ICircleRepository,
+    @inject('IProfileRepository') private readonly profileRepository: IProfileRepository
+  ) {}
+
+  async execute(request: { userId: string; circleId: string }): Promise<Result<GetCircleResponse>> {
+    try {
+      const userId = new UserId(request.userId);
+
+      const circleResult = await loadMemberCircle(this.circleRepository, request.circleId, userId);
+      if (Result.isError(circleResult)) {
+        return circleResult;
+      }
+      const circle = circleResult.value;
+
+      const timezoneResult = await this.profileRepository.getTimezone(userId);
+      if (Result.isError(timezoneResult)) {
+        return Result.error(timezoneResult.error);
+      }
+
+      const today = toLocalDateString(new Date(), timezoneResult.value);
+
+      const todayResult = await this.circleRepository.getProgress(circle.id, today, today);
+      if (Result.isError(todayResult)) {
+        return Result.error(todayResult.error);
+      }
+
+      const weekResult = await this.circleRepository.getProgress(circle.id, addDays(today, -6), today);
+      if (Result.isError(weekResult)) {
+        return Result.error(weekResult.error);
+      }
+
+      return Result.ok({
+        circle,
+        progress: {
+          memberCount: circle.memberCount,
+          today: todayResult.value,
+          lastSevenDays: weekResult.value
+        }
+      });
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { ICircleRepository } from '@/domain/repositories/ICircleRepository';
+import { Circle } from '@/domain/entities/Circle';
+import { UserId } from '@/domain/value-objects/UserId';
+
+@injectable()
+export class GetCirclesUseCase {
+  constructor(
+    @inject('ICircleRepository') private readonly circleRepository: ICircleRepository
+  ) {}
+
+  async execute(request: { userId: string; includeArchived?: boolean }): Promise<Result<Circle[]>> {
+    try {
+      const circlesResult = await this.circleRepository.findByUserId(new UserId(request.userId));
+      if (Result.isError(circlesResult)) {
+        return circlesResult;
+      }
+
+      return Result.ok(request.includeArchived
+        ? circlesResult.value
+        : circlesResult.value.filter(circle => circle.isActive()));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
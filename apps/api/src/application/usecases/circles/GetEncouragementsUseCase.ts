@@ -0,0 +1,45 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { ICircleRepository } from '@/domain/repositories/ICircleRepository';
+import { Circle } from '@/domain/entities/Circle';
+import { CircleEncouragement } from '@/domain/entities/CircleEncouragement';
+import { UserId } from '@/domain/value-objects/UserId';
+import { loadMemberCircle } from './circleAccess';
+
+export interface GetEncouragementsResponse {
+  circle: Circle;
+  encouragements: CircleEncouragement[];
+}
+
+@injectable()
+export class GetEncouragementsUseCase {
+  constructor(
+    @inject('ICircleRepository') private readonly circleRepository: ICircleRepository
+  ) {}
+
+  async execute(request: {
+    userId: string;
+    circleId: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<Result<GetEncouragementsResponse>> {
+    try {
+      const circleResult = await loadMemberCircle(this.circleRepository, request.circleId, new UserId(request.userId));
+      if (Result.isError(circleResult)) {
+        return circleResult;
+      }
+
+      const encouragementsResult = await this.circleRepository.findEncouragements(circleResult.value.id, {
+        limit: request.limit,
+        offset: request.offset
+      });
+      if (Result.isError(encouragementsResult)) {
+        return encouragementsResult;
+      }
+
+      return Result.ok({ circle: circleResult.value, encouragements: encouragementsResult.value });
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { NotFoundError } from '@/shared/errors';
+import { ICircleRepository } from '@/domain/repositories/ICircleRepository';
+import { Circle } from '@/domain/entities/Circle';
+import { UserId } from '@/domain/value-objects/UserId';
+import { applyRule, loadMemberCircle } from './circleAccess';
+
+@injectable()
+export class JoinCircleUseCase {
+  constructor(
+    @inject('ICircleRepository') private readonly circleRepository: ICircleRepository
+  ) {}
+
+  async execute(request: { userId: string; inviteCode: string }): Promise<Result<Circle>> {
+    try {
+      const userId = new UserId(request.userId);
+
+      const circleResult = await this.circleRepository.findByInviteCode(request.inviteCode.trim().toUpperCase());
+      if (Result.isError(circleResult)) {
+        return circleResult;
+      }
+
+      const circle = circleResult.value;
+      if (!circle) {
+        return Result.error(new NotFoundError('Circle'));
+      }
+
+      const memberResult = applyRule(() => circle.addMember(userId));
+      if (Result.isError(memberResult)) {
+        return memberResult;
+      }
+
+      const addResult = await this.circleRepository.addMember(circle.id, memberResult.value);
+      if (Result.isError(addResult)) {
+        return addResult;
+      }
+
+      return await loadMemberCircle(this.circleRepository, circle.id.toString(), userId);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
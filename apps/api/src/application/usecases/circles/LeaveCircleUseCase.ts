@@ -0,0 +1,46 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { ICircleRepository } from '@/domain/repositories/ICircleRepository';
+import { UserId } from '@/domain/value-objects/UserId';
+import { applyRule, loadMemberCircle } from './circleAccess';
+
+@injectable()
+export class LeaveCircleUseCase {
+  constructor(
+    @inject('ICircleRepository') private readonly circleRepository: ICircleRepository
+  ) {}
+
+  async execute(request: { userId: string; circleId: string }): Promise<Result<void>> {
+    try {
+      const userId = new UserId(request.userId);
+
+      const circleResult = await loadMemberCircle(this.circleRepository, request.circleId, userId);
+      if (Result.isError(circleResult)) {
+        return circleResult;
+      }
+      const circle = circleResult.value;
+
+      const leaveResult = applyRule(() => circle.removeMember(userId));
+      if (Result.isError(leaveResult)) {
+        return leaveResult;
+      }
+
+      const removeResult = await this.circleRepository.removeMember(circle.id, userId);
+      if (Result.isError(removeResult)) {
+        return removeResult;
+      }
+
+      // Removing the last member archives the circle
+      if (!circle.isActive()) {
+        const updateResult = await this.circleRepository.update(circle);
+        if (Result.isError(updateResult)) {
+          return Result.error(updateResult.error);
+        }
+      }
+
+      return Result.ok(undefined);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
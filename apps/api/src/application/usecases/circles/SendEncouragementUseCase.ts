@@ -0,0 +1,57 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { ValidationError } from '@/shared/errors';
+import { ICircleRepository } from '@/domain/repositories/ICircleRepository';
+import { CircleEncouragement, CircleEncouragementType } from '@/domain/entities/CircleEncouragement';
+import { UserId } from '@/domain/value-objects/UserId';
+import { applyRule, loadMemberCircle } from './circleAccess';
+
+export interface SendEncouragementRequest {
+  userId: string;
+  circleId: string;
+  message: string;
+  type: CircleEncouragementType;
+  toUserId?: string | null; // omitted for the whole circle
+}
+
+@injectable()
+export class SendEncouragementUseCase {
+  constructor(
+    @inject('ICircleRepository') private readonly circleRepository: ICircleRepository
+  ) {}
+
+  async execute(request: SendEncouragementRequest): Promise<Result<CircleEncouragement>> {
+    try {
+      const userId = new UserId(request.userId);
+
+      const circleResult = await loadMemberCircle(this.circleRepository, request.circleId, userId);
+      if (Result.isError(circleResult)) {
+        return circleResult;
+      }
+      const circle = circleResult.value;
+
+      if (!circle.isActive()) {
+        return Result.error(new ValidationError('This circle has been archived'));
+      }
+
+      if (request.toUserId && !circle.isMember(new UserId(request.toUserId))) {
+        return Result.error(new ValidationError('Encouragements can only be sent to circle members'));
+      }
+
+      const encouragementResult = applyRule(() => CircleEncouragement.create({
+        circleId: circle.id.toString(),
+        fromUserId: request.userId,
+        toUserId: request.toUserId,
+        message: request.message,
+        type: request.type
+      }));
+      if (Result.isError(encouragementResult)) {
+        return encouragementResult;
+      }
+
+      return await this.circleRepository.createEncouragement(encouragementResult.value);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { AuthorizationError } from '@/shared/errors';
+import { ICircleRepository } from '@/domain/repositories/ICircleRepository';
+import { Circle } from '@/domain/entities/Circle';
+import { UserId } from '@/domain/value-objects/UserId';
+import { applyRule, loadMemberCircle } from './circleAccess';
+
+export interface UpdateCircleRequest {
+  userId: string;
+  circleId: string;
+  name?: string;
+  description?: string | null;
+  sharedGoal?: string | null;
+}
+
+@injectable()
+export class UpdateCircleUseCase {
+  constructor(
+    @inject('ICircleRepository') private readonly circleRepository: ICircleRepository
+  ) {}
+
+  async execute(request: UpdateCircleRequest): Promise<Result<Circle>> {
+    try {
+      const userId = new UserId(request.userId);
+
+      const circleResult = await loadMemberCircle(this.circleRepository, request.circleId, userId);
+      if (Result.isError(circleResult)) {
+        return circleResult;
+      }
+      const circle = circleResult.value;
+
+      if (!circle.isCreator(userId)) {
+        return Result.error(new AuthorizationError('Only the circle creator can change the circle'));
+      }
+
+      const updateResult = applyRule(() => {
+        if (!circle.isActive()) {
+          throw new Error('This circle has been archived');
+        }
+        if (request.name !== undefined) circle.rename(request.name);
+        if (request.description !== undefined) circle.updateDescription(request.description);
+        if (request.sharedGoal !== undefined) circle.updateSharedGoal(request.sharedGoal);
+      });
+      if (Result.isError(updateResult)) {
+        return updateResult;
+      }
+
+      return await this.circleRepository.update(circle);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
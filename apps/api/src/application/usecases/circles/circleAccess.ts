@@ -0,0 +1,38 @@
+import { Result } from '@/shared/result';
+import { NotFoundError, ValidationError } from '@/shared/errors';
+import { ICircleRepository } from '@/domain/repositories/ICircleRepository';
+import { Circle } from '@/domain/entities/Circle';
+import { CircleId } from '@/domain/value-objects/CircleId';
+import { UserId } from '@/domain/value-objects/UserId';
+
+/**
+ * Loads a circle the user belongs to. Circles the user is not in are reported as
+ * missing so their existence is not revealed.
+ */
+export async function loadMemberCircle(
+  circleRepository: ICircleRepository,
+  circleId: string,
+  userId: UserId
+): Promise<Result<Circle>> {
+  const circleResult = await circleRepository.findById(new CircleId(circleId));
+  if (Result.isError(circleResult)) {
+    return Result.error(circleResult.error);
+  }
+
+  if (!circleResult.value || !circleResult.value.isMember(userId)) {
+    return Result.error(new NotFoundError('Circle'));
+  }
+
+  return Result.ok(circleResult.value);
+}
+
+/**
+ * Runs a domain rule, turning its violation into a ValidationError
+ */
+export function applyRule<T>(rule: () => T): Result<T> {
+  try {
+    return Result.ok(rule());
+  } catch (error) {
+    return Result.error(new ValidationError((error as Error).message));
+  }
+}
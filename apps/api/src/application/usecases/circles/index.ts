@@ -0,0 +1,14 @@
+export { CreateCircleUseCase } from './CreateCircleUseCase';
+export { GetCirclesUseCase } from './GetCirclesUseCase';
+export { GetCircleUseCase } from './GetCircleUseCase';
+export { JoinCircleUseCase } from './JoinCircleUseCase';
+export { LeaveCircleUseCase } from './LeaveCircleUseCase';
+export { UpdateCircleUseCase } from './UpdateCircleUseCase';
+export { ArchiveCircleUseCase } from './ArchiveCircleUseCase';
+export { SendEncouragementUseCase } from './SendEncouragementUseCase';
+export { GetEncouragementsUseCase } from './GetEncouragementsUseCase';
+export type { CreateCircleRequest } from './CreateCircleUseCase';
+export type { CircleProgressSummary, GetCircleResponse } from './GetCircleUseCase';
+export type { UpdateCircleRequest } from './UpdateCircleUseCase';
+export type { SendEncouragementRequest } from './SendEncouragementUseCase';
+export type { GetEncouragementsResponse } from './GetEncouragementsUseCase';
@@ -0,0 +1,36 @@
+import { Result } from '@/shared/result';
+import { ValidationError } from '@/shared/errors';
+import { addDays, toLocalDateString } from '@/shared/timezone';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Calendar day (YYYY-MM-DD) an entry is recorded for, as a Date at UTC
+ * midnight. Accepts a day or an ISO datetime, which is read as the user's
+ * local day, and defaults to today in their timezone; days in the future or
+ * before the grace window are rejected.
+ */
+export function resolveCompletionDay(
+  date: string | undefined,
+  timezone: string,
+  graceDays: number,
+  entries = 'Habits'
+): Result<Date> {
+  const today = toLocalDateString(new Date(), timezone);
+  let day = date ?? today;
+  if (!DAY_PATTERN.test(day)) {
+    day = toLocalDateString(new Date(day), timezone);
+  }
+
+  if (day > today) {
+    return Result.error(new ValidationError(`${entries} cannot be recorded for a future date`));
+  }
+
+  if (day < addDays(today, -graceDays)) {
+    return Result.error(new ValidationError(
+      `${entries} can only be recorded or undone up to ${graceDays} day(s) back`
+    ));
+  }
+
+  return Result.ok(new Date(`${day}T00:00:00.000Z`));
+}
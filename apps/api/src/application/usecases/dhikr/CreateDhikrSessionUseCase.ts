@@ -1,6 +1,8 @@
 import { inject, injectable } from 'tsyringe';
 import { Result } from '@/shared/result';
+import { toLocalDateString } from '@/shared/timezone';
 import { IDhikrRepository } from '@/domain/repositories/IDhikrRepository';
+import { IProfileRepository } from '@/domain/repositories/IProfileRepository';
 import { DhikrSession } from '@/domain/entities/DhikrSession';
 import { UserId } from '@/domain/value-objects/UserId';
 
@@ -16,7 +18,8 @@ export interface CreateDhikrSessionRequest {
 @injectable()
 export class CreateDhikrSessionUseCase {
   constructor(
-    @inject('IDhikrRepository') private readonly dhikrRepository: IDhikrRepository
+    @inject('IDhikrRepository') private readonly dhikrRepository: IDhikrRepository,
+    @inject('IProfileRepository') private readonly profileRepository: IProfileRepository
   ) {}
 
   async execute(request: CreateDhikrSessionRequest): Promise<Result<DhikrSession, Error>> {
@@ -33,7 +36,16 @@ export class CreateDhikrSessionUseCase {
       }
 
       const userId = new UserId(request.userId);
-      const today = request.date || new Date().toISOString().split('T')[0];
+
+      // Sessions belong to the user's calendar day, not the server's
+      let today = request.date;
+      if (!today) {
+        const timezoneResult = await this.profileRepository.getTimezone(userId);
+        if (Result.isError(timezoneResult)) {
+          return Result.error(timezoneResult.error);
+        }
+        today = toLocalDateString(new Date(), timezoneResult.value);
+      }
 
       // Check if user already has an active session for this dhikr type today
       const existingSessionsResult = await this.dhikrRepository.getDhikrSessionsByDate(userId, today);
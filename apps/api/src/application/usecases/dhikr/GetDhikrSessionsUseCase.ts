@@ -3,6 +3,9 @@ import { Result } from '@/shared/result';
 import { IDhikrRepository, DhikrSessionFilters } from '@/domain/repositories/IDhikrRepository';
 import { DhikrSession } from '@/domain/entities/DhikrSession';
 import { UserId } from '@/domain/value-objects/UserId';
+import { IUserPreferencesRepository } from '@/infrastructure/repos/UserPreferencesRepository';
+import { formatHijriDate, toHijri } from '@/shared/hijri';
+import { loadHijriSettings } from '../calendar/hijriSettings';
 
 export interface GetDhikrSessionsRequest {
   userId: string;
@@ -24,12 +27,14 @@ export interface PaginatedDhikrSessions {
   totalPages: number;
   hasNext: boolean;
   hasPrevious: boolean;
+  hijriDates: Record<string, string>; // session date (YYYY-MM-DD) -> formatted Hijri date
 }
 
 @injectable()
 export class GetDhikrSessionsUseCase {
   constructor(
-    @inject('IDhikrRepository') private readonly dhikrRepository: IDhikrRepository
+    @inject('IDhikrRepository') private readonly dhikrRepository: IDhikrRepository,
+    @inject('IUserPreferencesRepository') private readonly preferencesRepository: IUserPreferencesRepository
   ) {}
 
   async execute(request: GetDhikrSessionsRequest): Promise<Result<PaginatedDhikrSessions, Error>> {
@@ -76,13 +81,22 @@ export class GetDhikrSessionsUseCase {
       const totalCount = countResult.value;
       const totalPages = Math.ceil(totalCount / limit);
 
+      const { adjustment, locale } = await loadHijriSettings(this.preferencesRepository, request.userId);
+      const hijriDates: Record<string, string> = {};
+      for (const session of sessions) {
+        if (!hijriDates[session.date]) {
+          hijriDates[session.date] = formatHijriDate(toHijri(session.date, adjustment), locale);
+        }
+      }
+
       const result: PaginatedDhikrSessions = {
         items: sessions,
         totalCount,
         page,
         totalPages,
         hasNext: page < totalPages,
-        hasPrevious: page > 1
+        hasPrevious: page > 1,
+        hijriDates
       };
 
       return Result.ok(result);
@@ -1,6 +1,8 @@
 import { inject, injectable } from 'tsyringe';
 import { Result } from '@/shared/result';
+import { addDays, toLocalDate } from '@/shared/timezone';
 import { IDhikrRepository, DhikrStatsFilters, DhikrSessionStats } from '@/domain/repositories/IDhikrRepository';
+import { IProfileRepository } from '@/domain/repositories/IProfileRepository';
 import { UserId } from '@/domain/value-objects/UserId';
 
 export interface GetDhikrStatsRequest {
@@ -14,7 +16,8 @@ export interface GetDhikrStatsRequest {
 @injectable()
 export class GetDhikrStatsUseCase {
   constructor(
-    @inject('IDhikrRepository') private readonly dhikrRepository: IDhikrRepository
+    @inject('IDhikrRepository') private readonly dhikrRepository: IDhikrRepository,
+    @inject('IProfileRepository') private readonly profileRepository: IProfileRepository
   ) {}
 
   async execute(request: GetDhikrStatsRequest): Promise<Result<DhikrSessionStats, Error>> {
@@ -33,6 +36,16 @@ export class GetDhikrStatsUseCase {
         periodEnd: request.periodEnd
       };
 
+      // Default the window to the current period in the user's timezone
+      if (request.periodType && !request.periodStart && !request.periodEnd) {
+        const timezoneResult = await this.profileRepository.getTimezone(userId);
+        if (Result.isError(timezoneResult)) {
+          return Result.error(timezoneResult.error);
+        }
+
+        Object.assign(filters, this.currentPeriod(request.periodType, timezoneResult.value));
+      }
+
       // Get dhikr statistics
       const statsResult = await this.dhikrRepository.getDhikrStatsByUser(userId, filters);
       if (Result.isError(statsResult)) {
@@ -44,4 +57,24 @@ export class GetDhikrStatsUseCase {
       return Result.error(error as Error);
     }
   }
+
+  /**
+   * Today, this week (from Sunday) or this month up to today, as calendar days
+   */
+  private currentPeriod(
+    periodType: 'daily' | 'weekly' | 'monthly',
+    timezone: string
+  ): { periodStart: string; periodEnd: string } {
+    const today = toLocalDate(new Date(), timezone);
+    const periodEnd = today.toISOString().split('T')[0];
+
+    switch (periodType) {
+      case 'weekly':
+        return { periodStart: addDays(periodEnd, -today.getUTCDay()), periodEnd };
+      case 'monthly':
+        return { periodStart: `${periodEnd.slice(0, 8)}01`, periodEnd };
+      default:
+        return { periodStart: periodEnd, periodEnd };
+    }
+  }
 }
\ No newline at end of file
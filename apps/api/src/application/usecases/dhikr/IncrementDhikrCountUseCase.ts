@@ -9,6 +9,8 @@ export interface IncrementDhikrCountRequest {
   sessionId: string;
   userId: string;
   increment?: number;
+  /** When the dhikr was counted, for increments queued offline */
+  countedAt?: Date;
 }
 
 @injectable()
@@ -52,15 +54,15 @@ export class IncrementDhikrCountUseCase {
       }
 
       // Check if session is completed
-      if (session.isCompleted) {
+      if (session.isCompleted && !(request.countedAt && request.countedAt <= session.sessionEnd!)) {
         return Result.error(new Error('Cannot increment count on completed session'));
       }
 
       // Increment the count
-      session.incrementCount(increment);
+      session.incrementCount(increment, request.countedAt);
 
-      // Save the session
-      const saveResult = await this.dhikrRepository.saveDhikrSession(session);
+      // Add to the stored count rather than overwrite it, so concurrent increments are kept
+      const saveResult = await this.dhikrRepository.incrementSessionCount(sessionId, userId, increment);
       if (Result.isError(saveResult)) {
         return Result.error(saveResult.error);
       }
@@ -0,0 +1,29 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { NotFoundError } from '@/shared/errors';
+import { IPushSubscriptionRepository } from '@/domain/repositories/IPushSubscriptionRepository';
+import { UserId } from '@/domain/value-objects/UserId';
+
+@injectable()
+export class DeletePushSubscriptionUseCase {
+  constructor(
+    @inject('IPushSubscriptionRepository') private readonly subscriptionRepository: IPushSubscriptionRepository
+  ) {}
+
+  async execute(request: { userId: string; endpoint: string }): Promise<Result<void>> {
+    try {
+      const deleteResult = await this.subscriptionRepository.delete(new UserId(request.userId), request.endpoint);
+      if (Result.isError(deleteResult)) {
+        return Result.error(deleteResult.error);
+      }
+
+      if (!deleteResult.value) {
+        return Result.error(new NotFoundError('Push subscription'));
+      }
+
+      return Result.ok(undefined);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { inject, injectAll, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { INotificationRepository } from '@/domain/repositories/INotificationRepository';
+import { INotificationChannel } from '@/domain/services/INotificationChannel';
+import { Notification } from '@/domain/entities/Notification';
+
+export const DELIVERY_BATCH_SIZE = 100;
+
+export interface DeliveryReport {
+  sent: number;
+  failed: number;
+  expired: number;
+}
+
+/**
+ * Hands due notifications to every registered channel. A notification counts as
+ * sent when at least one channel accepts it; otherwise it is retried on later
+ * runs until its attempts run out, and dropped as expired once it is too late
+ * to be useful.
+ */
+@injectable()
+export class DeliverDueNotificationsUseCase {
+  constructor(
+    @inject('INotificationRepository') private readonly notificationRepository: INotificationRepository,
+    @injectAll('INotificationChannel') private readonly channels: INotificationChannel[]
+  ) {}
+
+  async execute(request: { now?: Date; limit?: number } = {}): Promise<Result<DeliveryReport>> {
+    try {
+      const now = request.now ?? new Date();
+      const dueResult = await this.notificationRepository.findDue(now, request.limit ?? DELIVERY_BATCH_SIZE);
+      if (Result.isError(dueResult)) {
+        return Result.error(dueResult.error);
+      }
+
+      const report: DeliveryReport = { sent: 0, failed: 0, expired: 0 };
+
+      for (const notification of dueResult.value) {
+        if (notification.isExpired(now)) {
+          notification.markExpired();
+        } else {
+          await this.deliver(notification, now);
+        }
+
+        const updateResult = await this.notificationRepository.updateDelivery(notification);
+        if (Result.isError(updateResult)) {
+          return Result.error(updateResult.error);
+        }
+
+        if (notification.status === 'sent') report.sent++;
+        else if (notification.status === 'expired') report.expired++;
+        else report.failed++;
+      }
+
+      return Result.ok(report);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  private async deliver(notification: Notification, now: Date): Promise<void> {
+    const delivered: string[] = [];
+    const errors: string[] = [];
+
+    for (const channel of this.channels) {
+      try {
+        const result = await channel.deliver(notification);
+        if (Result.isOk(result)) {
+          delivered.push(channel.name);
+        } else {
+          errors.push(`${channel.name}: ${result.error.message}`);
+        }
+      } catch (error) {
+        errors.push(`${channel.name}: ${(error as Error).message}`);
+      }
+    }
+
+    if (delivered.length > 0) {
+      notification.markSent(delivered.join(','), now);
+    } else {
+      notification.markFailed(errors.join('; ') || 'No notification channels configured');
+    }
+  }
+}
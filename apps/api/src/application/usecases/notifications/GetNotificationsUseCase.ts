@@ -0,0 +1,24 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { INotificationRepository, NotificationFilters } from '@/domain/repositories/INotificationRepository';
+import { Notification } from '@/domain/entities/Notification';
+import { UserId } from '@/domain/value-objects/UserId';
+
+@injectable()
+export class GetNotificationsUseCase {
+  constructor(
+    @inject('INotificationRepository') private readonly notificationRepository: INotificationRepository
+  ) {}
+
+  async execute(request: { userId: string } & NotificationFilters): Promise<Result<Notification[]>> {
+    try {
+      return await this.notificationRepository.findByUserId(new UserId(request.userId), {
+        status: request.status,
+        limit: request.limit,
+        offset: request.offset
+      });
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
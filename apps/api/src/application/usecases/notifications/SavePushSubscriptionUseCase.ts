@@ -0,0 +1,35 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { ValidationError } from '@/shared/errors';
+import { IPushSubscriptionRepository } from '@/domain/repositories/IPushSubscriptionRepository';
+import { PushSubscription, PushSubscriptionKeys } from '@/domain/entities/PushSubscription';
+
+export interface SavePushSubscriptionRequest {
+  userId: string;
+  endpoint: string;
+  keys: PushSubscriptionKeys;
+  deviceId?: string | null;
+  userAgent?: string | null;
+}
+
+@injectable()
+export class SavePushSubscriptionUseCase {
+  constructor(
+    @inject('IPushSubscriptionRepository') private readonly subscriptionRepository: IPushSubscriptionRepository
+  ) {}
+
+  async execute(request: SavePushSubscriptionRequest): Promise<Result<PushSubscription>> {
+    try {
+      let subscription: PushSubscription;
+      try {
+        subscription = PushSubscription.create(request);
+      } catch (error) {
+        return Result.error(new ValidationError((error as Error).message));
+      }
+
+      return await this.subscriptionRepository.save(subscription);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { resolveTimezone } from '@/shared/timezone';
+import { INotificationRepository } from '@/domain/repositories/INotificationRepository';
+import { IIntentionRepository } from '@/domain/repositories/IIntentionRepository';
+import { IHabitRepository } from '@/domain/repositories/IHabitRepository';
+import { IProfileRepository } from '@/domain/repositories/IProfileRepository';
+import { DailyPrayerTimes } from '@/domain/entities/PrayerTimes';
+import { UserPreferencesEntity } from '@/domain/entities/UserPreferences';
+import { UserId } from '@/domain/value-objects/UserId';
+import { IUserPreferencesRepository } from '@/infrastructure/repos/UserPreferencesRepository';
+import { GetPrayerTimesUseCase } from '../GetPrayerTimesUseCase';
+import { localDatesBetween, planReminders } from './reminderPlanner';
+
+export const DEFAULT_PLANNING_HORIZON_MINUTES = 60;
+
+export interface ScheduleRemindersRequest {
+  userId: string;
+  from?: Date;
+  until?: Date;
+}
+
+/**
+ * Queues a user's reminders for the coming window from their notification
+ * settings, prayer times, intention reminders and habits. Reminders already in
+ * the queue are skipped, so overlapping windows can be planned repeatedly.
+ */
+@injectable()
+export class ScheduleRemindersUseCase {
+  constructor(
+    @inject('INotificationRepository') private readonly notificationRepository: INotificationRepository,
+    @inject('IUserPreferencesRepository') private readonly preferencesRepository: IUserPreferencesRepository,
+    @inject('IProfileRepository') private readonly profileRepository: IProfileRepository,
+    @inject('IIntentionRepository') private readonly intentionRepository: IIntentionRepository,
+    @inject('IHabitRepository') private readonly habitRepository: IHabitRepository,
+    @inject('GetPrayerTimesUseCase') private readonly getPrayerTimesUseCase: GetPrayerTimesUseCase
+  ) {}
+
+  async execute(request: ScheduleRemindersRequest): Promise<Result<number>> {
+    try {
+      const from = request.from ?? new Date();
+      const until = request.until ?? new Date(from.getTime() + DEFAULT_PLANNING_HORIZON_MINUTES * 60 * 1000);
+      const userId = new UserId(request.userId);
+
+      const preferencesResult = await this.preferencesRepository.getByUserId(request.userId);
+      if (Result.isError(preferencesResult)) {
+        return Result.error(preferencesResult.error);
+      }
+      const preferences = preferencesResult.value;
+      const settings = preferences?.notificationSettings ?? {};
+
+      const timezoneResult = await this.profileRepository.getTimezone(userId);
+      const timezone = resolveTimezone(Result.isOk(timezoneResult) ? timezoneResult.value : undefined);
+
+      const [intentionsResult, habitsResult] = await Promise.all([
+        this.intentionRepository.findActiveByUserId(userId),
+        settings.habitStreak ? this.habitRepository.findByUserId(userId) : Promise.resolve(Result.ok([]))
+      ]);
+      if (Result.isError(intentionsResult)) {
+        return Result.error(intentionsResult.error);
+      }
+      if (Result.isError(habitsResult)) {
+        return Result.error(habitsResult.error);
+      }
+
+      const prayerDaysResult = settings.prayerTimes || settings.fajrReminder
+        ? await this.loadPrayerDays(request.userId, preferences, from, until, timezone)
+        : Result.ok([]);
+      if (Result.isError(prayerDaysResult)) {
+        return Result.error(prayerDaysResult.error);
+      }
+
+      const notifications = planReminders({
+        userId: request.userId,
+        timezone,
+        language: preferences?.language ?? 'en',
+        settings,
+        prayerDays: prayerDaysResult.value,
+        intentions: intentionsResult.value,
+        habits: habitsResult.value,
+        from,
+        until
+      });
+
+      return this.notificationRepository.enqueue(notifications);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  /**
+   * Prayer times for each local day in the window. Users without a saved
+   * location simply get no prayer reminders.
+   */
+  private async loadPrayerDays(
+    userId: string,
+    preferences: UserPreferencesEntity | null,
+    from: Date,
+    until: Date,
+    timezone: string
+  ): Promise<Result<DailyPrayerTimes[]>> {
+    if (!preferences?.location) {
+      return Result.ok([]);
+    }
+
+    const days: DailyPrayerTimes[] = [];
+    for (const date of localDatesBetween(from, until, timezone)) {
+      // Midday keeps each date on the intended calendar day whatever the server's timezone
+      const result = await this.getPrayerTimesUseCase.execute({
+        userId,
+        date: new Date(`${date}T12:00:00.000Z`),
+        timezone
+      });
+
+      if (Result.isError(result)) {
+        return Result.error(result.error);
+      }
+      days.push(result.value.prayerTimes.prayerTimes);
+    }
+    return Result.ok(days);
+  }
+}
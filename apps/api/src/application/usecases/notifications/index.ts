@@ -0,0 +1,8 @@
+export { ScheduleRemindersUseCase, DEFAULT_PLANNING_HORIZON_MINUTES } from './ScheduleRemindersUseCase';
+export { DeliverDueNotificationsUseCase } from './DeliverDueNotificationsUseCase';
+export { GetNotificationsUseCase } from './GetNotificationsUseCase';
+export { SavePushSubscriptionUseCase } from './SavePushSubscriptionUseCase';
+export { DeletePushSubscriptionUseCase } from './DeletePushSubscriptionUseCase';
+export type { ScheduleRemindersRequest } from './ScheduleRemindersUseCase';
+export type { DeliveryReport } from './DeliverDueNotificationsUseCase';
+export type { SavePushSubscriptionRequest } from './SavePushSubscriptionUseCase';
@@ -0,0 +1,159 @@
+import { Notification, NotificationType } from '@/domain/entities/Notification';
+import { DailyPrayerTimes } from '@/domain/entities/PrayerTimes';
+import { Habit } from '@/domain/entities/Habit';
+import { Intention } from '@/domain/entities/Intention';
+import { Language, NotificationSettings } from '@/domain/entities/UserPreferences';
+import { addDays, toInstant, toLocalDateString } from '@/shared/timezone';
+
+export const FAJR_REMINDER_LEAD_MINUTES = 15;
+export const DEFAULT_REMINDER_TIME = '06:00';
+export const HABIT_STREAK_REMINDER_TIME = '20:00';
+
+const REMINDER_PRAYERS = ['fajr', 'dhuhr', 'asr', 'maghrib', 'isha'] as const;
+type ReminderPrayer = typeof REMINDER_PRAYERS[number];
+
+type CopyLocale = 'en' | 'ar';
+
+const PRAYER_NAMES: Record<CopyLocale, Record<ReminderPrayer, string>> = {
+  en: { fajr: 'Fajr', dhuhr: 'Dhuhr', asr: 'Asr', maghrib: 'Maghrib', isha: 'Isha' },
+  ar: { fajr: 'الفجر', dhuhr: 'الظهر', asr: 'العصر', maghrib: 'المغرب', isha: 'العشاء' }
+};
+
+const COPY = {
+  en: {
+    prayer: (prayer: string) => ({ title: `${prayer} prayer`, body: `It is time for ${prayer}.` }),
+    fajrReminder: () => ({
+      title: 'Fajr is approaching',
+      body: `Fajr begins in ${FAJR_REMINDER_LEAD_MINUTES} minutes. Rise for prayer.`
+    }),
+    dailyReminder: () => ({
+      title: 'Your daily tazkiyah',
+      body: 'Take a moment today for your habits, dhikr and reflection.'
+    }),
+    habitStreak: (count: number) => ({
+      title: 'Keep your streak alive',
+      body: count === 1
+        ? 'One habit with a streak is still open today.'
+        : `${count} habits with a streak are still open today.`
+    }),
+    intention: (text: string) => ({ title: 'Intention reminder', body: text })
+  },
+  ar: {
+    prayer: (prayer: string) => ({ title: `صلاة ${prayer}`, body: `حان الآن وقت صلاة ${prayer}.` }),
+    fajrReminder: () => ({
+      title: 'اقترب وقت الفجر',
+      body: `يحين الفجر بعد ${FAJR_REMINDER_LEAD_MINUTES} دقيقة. قم للصلاة.`
+    }),
+    dailyReminder: () => ({
+      title: 'تزكيتك اليومية',
+      body: 'خصص لحظة اليوم لعاداتك وذكرك وتأملك.'
+    }),
+    habitStreak: (count: number) => ({
+      title: 'حافظ على استمرارك',
+      body: `لديك ${count} من العادات المستمرة لم تُنجز اليوم.`
+    }),
+    intention: (text: string) => ({ title: 'تذكير بالنية', body: text })
+  }
+};
+
+export interface ReminderPlanInput {
+  userId: string;
+  timezone: string;
+  language: Language;
+  settings: NotificationSettings;
+  prayerDays: DailyPrayerTimes[];
+  intentions: Intention[];
+  habits: Habit[];
+  from: Date;
+  until: Date;
+}
+
+/**
+ * Calendar days (YYYY-MM-DD, in the user's timezone) touched by a planning window
+ */
+export function localDatesBetween(from: Date, until: Date, timezone: string): string[] {
+  const last = toLocalDateString(until, timezone);
+  const dates: string[] = [];
+  for (let date = toLocalDateString(from, timezone); date <= last; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Works out the reminders a user should receive between `from` (inclusive) and
+ * `until` (exclusive). Wall-clock times are read in the user's timezone, and each
+ * reminder carries a dedupe key so planning overlapping windows is harmless.
+ */
+export function planReminders(input: ReminderPlanInput): Notification[] {
+  const { userId, timezone, settings, from, until } = input;
+  const copy = COPY[input.language === 'ar' ? 'ar' : 'en'];
+  const prayerNames = PRAYER_NAMES[input.language === 'ar' ? 'ar' : 'en'];
+  const notifications: Notification[] = [];
+
+  const add = (
+    type: NotificationType,
+    dedupeKey: string,
+    scheduledFor: Date,
+    message: { title: string; body: string },
+    data: Record<string, unknown> = {}
+  ) => {
+    if (scheduledFor >= from && scheduledFor < until) {
+      notifications.push(Notification.create({ userId, type, dedupeKey, scheduledFor, data, ...message }));
+    }
+  };
+
+  for (const day of input.prayerDays) {
+    const date = toLocalDateString(day.dhuhr, timezone);
+
+    if (settings.fajrReminder) {
+      const reminderAt = new Date(day.fajr.getTime() - FAJR_REMINDER_LEAD_MINUTES * 60 * 1000);
+      add('fajr_reminder', `fajr:${date}`, reminderAt, copy.fajrReminder(), { prayer: 'fajr', date });
+    }
+
+    if (settings.prayerTimes) {
+      for (const prayer of REMINDER_PRAYERS) {
+        add('prayer', `prayer:${prayer}:${date}`, day[prayer], copy.prayer(prayerNames[prayer]), { prayer, date });
+      }
+    }
+  }
+
+  for (const date of localDatesBetween(from, until, timezone)) {
+    const weekday = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+
+    if (settings.dailyReminder) {
+      const time = settings.reminderTime || DEFAULT_REMINDER_TIME;
+      add('daily_reminder', `daily:${date}`, toInstant(date, time, timezone), copy.dailyReminder(), { date });
+    }
+
+    if (settings.habitStreak) {
+      const reminderAt = toInstant(date, HABIT_STREAK_REMINDER_TIME, timezone);
+      const openHabits = input.habits.filter(habit =>
+        habit.streakCount > 0 &&
+        habit.isScheduledOn(reminderAt, timezone) &&
+        habit.lastCompletedOn?.toISOString().split('T')[0] !== date
+      );
+
+      if (openHabits.length > 0) {
+        add('habit_streak', `habit_streak:${date}`, reminderAt, copy.habitStreak(openHabits.length), {
+          date,
+          habitIds: openHabits.map(habit => habit.id.toString())
+        });
+      }
+    }
+
+    for (const intention of input.intentions) {
+      const { enabled, time, daysOfWeek } = intention.reminder;
+      if (intention.status !== 'active' || !enabled || !time) continue;
+      if (daysOfWeek && daysOfWeek.length > 0 && !daysOfWeek.includes(weekday)) continue;
+
+      const intentionId = intention.id.toString();
+      add('intention', `intention:${intentionId}:${date}`, toInstant(date, time, timezone), copy.intention(intention.text), {
+        intentionId,
+        date
+      });
+    }
+  }
+
+  return notifications;
+}
@@ -0,0 +1,129 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { IHabitRepository } from '@/domain/repositories/IHabitRepository';
+import { ICheckinRepository } from '@/domain/repositories/ICheckinRepository';
+import { IDhikrRepository } from '@/domain/repositories/IDhikrRepository';
+import { IProfileRepository } from '@/domain/repositories/IProfileRepository';
+import { IProgressRecommender, ProgressRecommendation } from '@/domain/providers/IProgressRecommender';
+import { UserId } from '@/domain/value-objects/UserId';
+import { HabitAnalyticsProjection } from '@/infrastructure/events/projections/HabitAnalyticsProjection';
+import { addDays, resolveTimezone, toInstant, toLocalDateString } from '@/shared/timezone';
+import {
+  analyzeProgress,
+  HabitHistory,
+  ProgressAnalysis,
+  ProgressTimeframe,
+  TIMEFRAME_DAYS
+} from './progressAnalysis';
+
+// Recommendations cover this many of the weakest areas
+const RECOMMENDED_AREAS = 3;
+
+export interface AnalyzeProgressRequest {
+  userId: string;
+  timeframe: ProgressTimeframe;
+  planId?: string; // limit the habit metrics to one plan
+  now?: Date;
+}
+
+export interface ProgressReport extends ProgressAnalysis {
+  recommendations: ProgressRecommendation[];
+  dataPoints: number; // completions, check-ins and dhikr sessions the analysis is based on
+}
+
+@injectable()
+export class AnalyzeProgressUseCase {
+  constructor(
+    @inject('IHabitRepository') private readonly habitRepository: IHabitRepository,
+    @inject('ICheckinRepository') private readonly checkinRepository: ICheckinRepository,
+    @inject('IDhikrRepository') private readonly dhikrRepository: IDhikrRepository,
+    @inject('IProfileRepository') private readonly profileRepository: IProfileRepository,
+    @inject('HabitAnalyticsProjection') private readonly habitAnalytics: HabitAnalyticsProjection,
+    @inject('IProgressRecommender') private readonly recommender: IProgressRecommender
+  ) {}
+
+  async execute(request: AnalyzeProgressRequest): Promise<Result<ProgressReport>> {
+    try {
+      const userId = new UserId(request.userId);
+      const now = request.now ?? new Date();
+      const days = TIMEFRAME_DAYS[request.timeframe];
+
+      const timezoneResult = await this.profileRepository.getTimezone(userId);
+      const timezone = resolveTimezone(Result.isOk(timezoneResult) ? timezoneResult.value : undefined);
+      const to = toLocalDateString(now, timezone);
+      const from = addDays(to, -(days - 1));
+
+      const habitsResult = await this.habitRepository.findByUserId(userId);
+      if (Result.isError(habitsResult)) {
+        return Result.error(habitsResult.error);
+      }
+      const habits = habitsResult.value.filter(habit => !request.planId || habit.planId.toString() === request.planId);
+      const habitIds = new Set(habits.map(habit => habit.id.toString()));
+
+      const analytics = await this.habitAnalytics.getHabitAnalytics(request.userId);
+      const longestStreaks = new Map(analytics.map(entry => [entry.habitId, entry.longestStreak]));
+
+      const histories: HabitHistory[] = [];
+      for (const habit of habits) {
+        const datesResult = await this.habitRepository.findCompletionDates(habit.id);
+        if (Result.isError(datesResult)) {
+          return Result.error(datesResult.error);
+        }
+        histories.push({
+          habit,
+          completionDates: datesResult.value,
+          longestStreak: longestStreaks.get(habit.id.toString()) ?? 0
+        });
+      }
+
+      const completionTimes = (await this.habitAnalytics.getCompletionTimes(request.userId, from, to))
+        .filter(completion => habitIds.has(completion.habitId));
+      const streakBreaks = (await this.habitAnalytics.getStreakBreaks(request.userId, toInstant(from, '00:00', timezone), now))
+        .filter(streakBreak => habitIds.has(streakBreak.habitId));
+
+      const checkinsResult = await this.checkinRepository.findByUser(userId, {
+        from: new Date(`${from}T00:00:00.000Z`),
+        to: new Date(`${to}T00:00:00.000Z`)
+      });
+      if (Result.isError(checkinsResult)) {
+        return Result.error(checkinsResult.error);
+      }
+
+      const [currentDhikr, previousDhikr] = await Promise.all([
+        this.dhikrRepository.getDhikrStatsByUser(userId, { periodStart: from, periodEnd: to }),
+        this.dhikrRepository.getDhikrStatsByUser(userId, { periodStart: addDays(from, -days), periodEnd: addDays(from, -1) })
+      ]);
+      if (Result.isError(currentDhikr)) {
+        return Result.error(currentDhikr.error);
+      }
+      if (Result.isError(previousDhikr)) {
+        return Result.error(previousDhikr.error);
+      }
+
+      const analysis = analyzeProgress({
+        from,
+        to,
+        timezone,
+        habits: histories,
+        completionTimes,
+        streakBreaks,
+        checkins: checkinsResult.value.map(checkin => ({ date: checkin.date, mood: checkin.mood })),
+        dhikr: {
+          current: { totalCount: currentDhikr.value.totalCount, sessions: currentDhikr.value.totalSessions },
+          previous: { totalCount: previousDhikr.value.totalCount, sessions: previousDhikr.value.totalSessions }
+        }
+      });
+
+      const recommendations = await this.recommender.recommend(analysis.weakAreas.slice(0, RECOMMENDED_AREAS));
+      const completions = analysis.metrics.habits.reduce((sum, habit) => sum + habit.completed, 0);
+
+      return Result.ok({
+        ...analysis,
+        recommendations,
+        dataPoints: completions + checkinsResult.value.length + currentDhikr.value.totalSessions
+      });
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
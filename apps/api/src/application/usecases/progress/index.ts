@@ -0,0 +1,4 @@
+export { AnalyzeProgressUseCase } from './AnalyzeProgressUseCase';
+export { TIMEFRAME_DAYS } from './progressAnalysis';
+export type { AnalyzeProgressRequest, ProgressReport } from './AnalyzeProgressUseCase';
+export type { ProgressTimeframe, ProgressMetrics, TimeOfDay } from './progressAnalysis';
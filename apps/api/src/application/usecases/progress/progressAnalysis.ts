@@ -0,0 +1,436 @@
+import { Habit } from '@/domain/entities/Habit';
+import { WeakArea } from '@/domain/providers/IProgressRecommender';
+import { addDays, toLocalDateString, toLocalHour } from '@/shared/timezone';
+
+export type ProgressTimeframe = '7d' | '30d' | '90d' | '1y';
+
+export const TIMEFRAME_DAYS: Record<ProgressTimeframe, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365
+};
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+const TIME_OF_DAY_ORDER: TimeOfDay[] = ['morning', 'afternoon', 'evening', 'night'];
+
+// A trend this many percentage points up or down on the previous period is a change
+const TREND_THRESHOLD = 5;
+
+// Below these a habit or the week as a whole counts as a weak area
+const WEAK_HABIT_RATE = 60;
+const WEAK_CONSISTENCY = 50;
+const MIN_SLOTS_FOR_HABIT_RATE = 3;
+const STREAK_BREAKS_FOR_WEAKNESS = 2;
+const DHIKR_DAILY_BASELINE = 33;
+
+const MIN_CHECKINS_FOR_CORRELATION = 5;
+const STREAK_GOALS = [7, 30, 90, 365];
+
+export interface HabitHistory {
+  habit: Habit;
+  completionDates: Date[]; // calendar days at UTC midnight
+  longestStreak: number;
+}
+
+export interface ProgressInput {
+  from: string; // first calendar day of the period (YYYY-MM-DD)
+  to: string; // last calendar day, inclusive
+  timezone: string;
+  habits: HabitHistory[];
+  completionTimes: { habitId: string; completedAt: Date }[];
+  streakBreaks: { habitId: string; previousStreak: number }[];
+  checkins: { date: Date; mood: number | null }[];
+  dhikr: {
+    current: { totalCount: number; sessions: number };
+    previous: { totalCount: number; sessions: number };
+  };
+}
+
+export interface HabitProgress {
+  habitId: string;
+  title: string;
+  scheduled: number;
+  completed: number;
+  completionRate: number;
+  currentStreak: number;
+  longestStreak: number;
+  streakBreaks: number;
+}
+
+export interface ProgressMetrics {
+  period: { from: string; to: string; days: number };
+  overallScore: number;
+  completionRate: number;
+  consistencyScore: number;
+  habits: HabitProgress[];
+  timeOfDay: {
+    buckets: Record<TimeOfDay, { completions: number; share: number }>;
+    peak: TimeOfDay | null;
+  };
+  trend: {
+    series: { from: string; to: string; completionRate: number | null }[];
+    previousCompletionRate: number | null;
+    change: number | null;
+    direction: 'improving' | 'declining' | 'steady';
+  };
+  streakBreaks: { total: number };
+  mood: {
+    checkins: number;
+    averageMood: number | null;
+    activeDayMood: number | null;
+    inactiveDayMood: number | null;
+    correlation: number | null;
+  };
+  dhikr: {
+    totalCount: number;
+    sessions: number;
+    dailyAverage: number;
+    previousTotalCount: number;
+    change: number | null;
+  };
+}
+
+export interface ProgressAnalysis {
+  metrics: ProgressMetrics;
+  weakAreas: WeakArea[];
+  strengths: string[];
+  insights: string[];
+  nextGoals: string[];
+}
+
+function toDay(dateString: string): Date {
+  return new Date(`${dateString}T00:00:00.000Z`);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((toDay(to).getTime() - toDay(from).getTime()) / 86400000) + 1;
+}
+
+function percentage(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+}
+
+export function timeOfDayAt(hour: number): TimeOfDay {
+  if (hour >= 4 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 21) return 'evening';
+  return 'night';
+}
+
+/**
+ * Pearson correlation, or null when either series is flat
+ */
+function correlation(pairs: [number, number][]): number | null {
+  const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / pairs.length;
+  const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / pairs.length;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (const [x, y] of pairs) {
+    covariance += (x - meanX) * (y - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (y - meanY) ** 2;
+  }
+
+  return varianceX > 0 && varianceY > 0 ? round(covariance / Math.sqrt(varianceX * varianceY)) : null;
+}
+
+/**
+ * Scheduled and completed slots across all habits between two calendar days,
+ * counting each habit only from the day it was created
+ */
+function slotTotals(habits: HabitHistory[], from: string, to: string, timezone: string) {
+  let scheduled = 0;
+  let completed = 0;
+
+  for (const { habit, completionDates } of habits) {
+    const createdOn = toLocalDateString(habit.createdAt, timezone);
+    const start = createdOn > from ? createdOn : from;
+    const slots = habit.slotCompletion(toDay(start), toDay(to), completionDates);
+    scheduled += slots.scheduled;
+    completed += slots.completed;
+  }
+
+  return { scheduled, completed };
+}
+
+function calculateTrend(input: ProgressInput, days: number, completionRate: number, hasSchedule: boolean): ProgressMetrics['trend'] {
+  const bucketDays = days > 90 ? 28 : 7;
+  const series: ProgressMetrics['trend']['series'] = [];
+
+  // Buckets are aligned to end on the last day, so the oldest one may be partial
+  for (let end = input.to; end >= input.from; end = addDays(end, -bucketDays)) {
+    const candidate = addDays(end, -(bucketDays - 1));
+    const start = candidate < input.from ? input.from : candidate;
+    const totals = slotTotals(input.habits, start, end, input.timezone);
+    series.unshift({
+      from: start,
+      to: end,
+      completionRate: totals.scheduled > 0 ? percentage(totals.completed, totals.scheduled) : null
+    });
+  }
+
+  const previous = slotTotals(input.habits, addDays(input.from, -days), addDays(input.from, -1), input.timezone);
+  const previousCompletionRate = previous.scheduled > 0 ? percentage(previous.completed, previous.scheduled) : null;
+  const change = previousCompletionRate !== null && hasSchedule ? completionRate - previousCompletionRate : null;
+
+  let direction: ProgressMetrics['trend']['direction'] = 'steady';
+  if (change !== null && change >= TREND_THRESHOLD) direction = 'improving';
+  if (change !== null && change <= -TREND_THRESHOLD) direction = 'declining';
+
+  return { series, previousCompletionRate, change, direction };
+}
+
+export function calculateProgressMetrics(input: ProgressInput): ProgressMetrics {
+  const days = daysBetween(input.from, input.to);
+  const breaksByHabit = new Map<string, number>();
+  for (const streakBreak of input.streakBreaks) {
+    breaksByHabit.set(streakBreak.habitId, (breaksByHabit.get(streakBreak.habitId) || 0) + 1);
+  }
+
+  const habits: HabitProgress[] = input.habits.map(history => {
+    const totals = slotTotals([history], input.from, input.to, input.timezone);
+    const habitId = history.habit.id.toString();
+
+    return {
+      habitId,
+      title: history.habit.title,
+      scheduled: totals.scheduled,
+      completed: totals.completed,
+      completionRate: percentage(totals.completed, totals.scheduled),
+      currentStreak: history.habit.streakCount,
+      longestStreak: Math.max(history.longestStreak, history.habit.streakCount),
+      streakBreaks: breaksByHabit.get(habitId) || 0
+    };
+  });
+
+  const scheduled = habits.reduce((sum, habit) => sum + habit.scheduled, 0);
+  const completed = habits.reduce((sum, habit) => sum + habit.completed, 0);
+  const completionRate = percentage(completed, scheduled);
+
+  // Consistency: share of days, since the first habit existed, with at least one completion
+  const completionsPerDay = new Map<string, number>();
+  for (const { completionDates } of input.habits) {
+    for (const date of completionDates) {
+      const day = date.toISOString().split('T')[0];
+      if (day >= input.from && day <= input.to) {
+        completionsPerDay.set(day, (completionsPerDay.get(day) || 0) + 1);
+      }
+    }
+  }
+  const firstHabitDay = input.habits
+    .map(({ habit }) => toLocalDateString(habit.createdAt, input.timezone))
+    .reduce<string | null>((earliest, day) => (earliest === null || day < earliest ? day : earliest), null);
+  const trackedFrom = firstHabitDay && firstHabitDay > input.from ? firstHabitDay : input.from;
+  const trackedDays = firstHabitDay && trackedFrom <= input.to ? daysBetween(trackedFrom, input.to) : 0;
+  const consistencyScore = percentage(completionsPerDay.size, trackedDays);
+
+  const buckets = Object.fromEntries(
+    TIME_OF_DAY_ORDER.map(slot => [slot, { completions: 0, share: 0 }])
+  ) as Record<TimeOfDay, { completions: number; share: number }>;
+  for (const { completedAt } of input.completionTimes) {
+    buckets[timeOfDayAt(toLocalHour(completedAt, input.timezone))].completions++;
+  }
+  const timedCompletions = input.completionTimes.length;
+  for (const slot of TIME_OF_DAY_ORDER) {
+    buckets[slot].share = percentage(buckets[slot].completions, timedCompletions);
+  }
+  const peak = timedCompletions > 0
+    ? TIME_OF_DAY_ORDER.reduce((best, slot) => (buckets[slot].completions > buckets[best].completions ? slot : best))
+    : null;
+
+  const moods = input.checkins.filter(checkin => checkin.mood !== null) as { date: Date; mood: number }[];
+  const moodPairs = moods.map(({ date, mood }): [number, number] => [
+    completionsPerDay.get(date.toISOString().split('T')[0]) || 0,
+    mood
+  ]);
+
+  const dhikrChange = input.dhikr.previous.totalCount > 0
+    ? percentage(input.dhikr.current.totalCount - input.dhikr.previous.totalCount, input.dhikr.previous.totalCount)
+    : null;
+
+  return {
+    period: { from: input.from, to: input.to, days },
+    overallScore: Math.round(completionRate * 0.6 + consistencyScore * 0.4),
+    completionRate,
+    consistencyScore,
+    habits,
+    timeOfDay: { buckets, peak },
+    trend: calculateTrend(input, days, completionRate, scheduled > 0),
+    streakBreaks: { total: input.streakBreaks.length },
+    mood: {
+      checkins: moods.length,
+      averageMood: average(moods.map(({ mood }) => mood)),
+      activeDayMood: average(moodPairs.filter(([count]) => count > 0).map(([, mood]) => mood)),
+      inactiveDayMood: average(moodPairs.filter(([count]) => count === 0).map(([, mood]) => mood)),
+      correlation: moodPairs.length >= MIN_CHECKINS_FOR_CORRELATION ? correlation(moodPairs) : null
+    },
+    dhikr: {
+      totalCount: input.dhikr.current.totalCount,
+      sessions: input.dhikr.current.sessions,
+      dailyAverage: round(input.dhikr.current.totalCount / days, 1),
+      previousTotalCount: input.dhikr.previous.totalCount,
+      change: dhikrChange
+    }
+  };
+}
+
+/**
+ * Areas that need attention, most severe first
+ */
+export function findWeakAreas(metrics: ProgressMetrics): WeakArea[] {
+  const areas: WeakArea[] = [];
+
+  const weakHabits = metrics.habits
+    .filter(habit => habit.scheduled >= MIN_SLOTS_FOR_HABIT_RATE && habit.completionRate < WEAK_HABIT_RATE)
+    .sort((a, b) => a.completionRate - b.completionRate);
+  if (weakHabits.length > 0) {
+    areas.push({
+      area: 'habit_completion',
+      severity: round((WEAK_HABIT_RATE - weakHabits[0].completionRate) / WEAK_HABIT_RATE),
+      habits: weakHabits.slice(0, 2).map(habit => habit.title)
+    });
+  }
+
+  if (metrics.habits.length > 0 && metrics.consistencyScore < WEAK_CONSISTENCY) {
+    areas.push({
+      area: 'consistency',
+      severity: round((WEAK_CONSISTENCY - metrics.consistencyScore) / WEAK_CONSISTENCY)
+    });
+  }
+
+  if (metrics.streakBreaks.total >= STREAK_BREAKS_FOR_WEAKNESS) {
+    const brokenHabits = metrics.habits
+      .filter(habit => habit.streakBreaks > 0)
+      .sort((a, b) => b.streakBreaks - a.streakBreaks);
+    areas.push({
+      area: 'streak_breaks',
+      severity: round(Math.min(1, metrics.streakBreaks.total / 5)),
+      habits: brokenHabits.slice(0, 2).map(habit => habit.title)
+    });
+  }
+
+  if (metrics.trend.direction === 'declining' && metrics.trend.change !== null) {
+    areas.push({ area: 'declining_trend', severity: round(Math.min(1, -metrics.trend.change / 30)) });
+  }
+
+  if (metrics.mood.averageMood !== null && metrics.mood.averageMood < 0) {
+    areas.push({ area: 'mood', severity: round(-metrics.mood.averageMood / 2) });
+  }
+
+  if (metrics.dhikr.dailyAverage < DHIKR_DAILY_BASELINE) {
+    areas.push({ area: 'dhikr', severity: round(1 - metrics.dhikr.dailyAverage / DHIKR_DAILY_BASELINE) });
+  }
+
+  return areas.sort((a, b) => b.severity - a.severity);
+}
+
+function describeStrengths(metrics: ProgressMetrics): string[] {
+  const strengths = metrics.habits
+    .filter(habit => habit.scheduled >= MIN_SLOTS_FOR_HABIT_RATE && habit.completionRate >= 80)
+    .map(habit => `Consistent with "${habit.title}" (${habit.completionRate}%)`);
+
+  if (metrics.trend.direction === 'improving') {
+    strengths.push('Completion rate is improving');
+  }
+  if (metrics.dhikr.dailyAverage >= DHIKR_DAILY_BASELINE) {
+    strengths.push(`Regular dhikr (${metrics.dhikr.dailyAverage} a day)`);
+  }
+
+  return strengths;
+}
+
+function describeInsights(metrics: ProgressMetrics): string[] {
+  const insights: string[] = [];
+  const { days } = metrics.period;
+  const scheduled = metrics.habits.reduce((sum, habit) => sum + habit.scheduled, 0);
+  const completed = metrics.habits.reduce((sum, habit) => sum + habit.completed, 0);
+
+  if (scheduled > 0) {
+    insights.push(`You completed ${completed} of ${scheduled} scheduled habits (${metrics.completionRate}%) in the last ${days} days`);
+  } else {
+    insights.push(`No habits were scheduled in the last ${days} days`);
+  }
+
+  if (metrics.trend.change !== null && metrics.trend.direction !== 'steady') {
+    const direction = metrics.trend.direction === 'improving' ? 'up' : 'down';
+    insights.push(`Your completion rate is ${direction} ${Math.abs(metrics.trend.change)} points on the previous ${days} days`);
+  }
+
+  if (metrics.timeOfDay.peak) {
+    const peak = metrics.timeOfDay.buckets[metrics.timeOfDay.peak];
+    insights.push(`Most of your completions happen in the ${metrics.timeOfDay.peak} (${peak.share}%)`);
+  }
+
+  if (metrics.streakBreaks.total > 0) {
+    const mostBroken = [...metrics.habits].sort((a, b) => b.streakBreaks - a.streakBreaks)[0];
+    const suffix = mostBroken && mostBroken.streakBreaks > 0 ? `, most often "${mostBroken.title}"` : '';
+    insights.push(`${metrics.streakBreaks.total} streak${metrics.streakBreaks.total === 1 ? ' was' : 's were'} broken${suffix}`);
+  }
+
+  const { mood } = metrics;
+  if (mood.correlation !== null && Math.abs(mood.correlation) >= 0.3) {
+    insights.push(mood.correlation > 0
+      ? 'Your mood tends to be better on days you complete more habits'
+      : 'Your mood tends to be lower on days you complete more habits');
+  } else if (mood.activeDayMood !== null && mood.inactiveDayMood !== null && mood.activeDayMood > mood.inactiveDayMood) {
+    insights.push(`Your average mood is ${mood.activeDayMood} on days with a completed habit and ${mood.inactiveDayMood} on days without`);
+  }
+
+  if (metrics.dhikr.totalCount > 0) {
+    const change = metrics.dhikr.change !== null
+      ? ` (${metrics.dhikr.change >= 0 ? '+' : ''}${metrics.dhikr.change}% on the previous period)`
+      : '';
+    insights.push(`${metrics.dhikr.totalCount} dhikr across ${metrics.dhikr.sessions} sessions${change}`);
+  }
+
+  return insights;
+}
+
+function describeNextGoals(metrics: ProgressMetrics): string[] {
+  const goals: string[] = [];
+  const tracked = metrics.habits.filter(habit => habit.scheduled > 0);
+
+  const weakest = [...tracked].sort((a, b) => a.completionRate - b.completionRate)[0];
+  if (weakest && weakest.completionRate < 100) {
+    goals.push(`Raise "${weakest.title}" from ${weakest.completionRate}% to ${Math.min(100, weakest.completionRate + 20)}%`);
+  }
+
+  const longestRunning = [...metrics.habits].sort((a, b) => b.currentStreak - a.currentStreak)[0];
+  if (longestRunning && longestRunning.currentStreak > 0) {
+    const target = STREAK_GOALS.find(goal => goal > longestRunning.currentStreak);
+    if (target) {
+      goals.push(`Extend your "${longestRunning.title}" streak from ${longestRunning.currentStreak} to ${target}`);
+    }
+  }
+
+  goals.push(metrics.dhikr.dailyAverage > 0
+    ? `Reach ${Math.max(DHIKR_DAILY_BASELINE, Math.ceil(metrics.dhikr.dailyAverage * 1.2))} dhikr a day`
+    : `Start with ${DHIKR_DAILY_BASELINE} dhikr after one prayer each day`);
+
+  return goals;
+}
+
+export function analyzeProgress(input: ProgressInput): ProgressAnalysis {
+  const metrics = calculateProgressMetrics(input);
+
+  return {
+    metrics,
+    weakAreas: findWeakAreas(metrics),
+    strengths: describeStrengths(metrics),
+    insights: describeInsights(metrics),
+    nextGoals: describeNextGoals(metrics)
+  };
+}
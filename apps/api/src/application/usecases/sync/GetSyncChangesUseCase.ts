@@ -0,0 +1,211 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { ISyncRepository, SyncChangeEntity, SyncPosition } from '@/domain/repositories';
+import { UserId } from '@/domain/value-objects/UserId';
+
+export type SyncChangeCollection = 'habits' | 'journals' | 'checkins' | 'intentions' | 'dhikrSessions';
+
+export interface SyncEntityChanges {
+  created: Record<string, any>[];
+  updated: Record<string, any>[];
+}
+
+export interface SyncDeletion {
+  entity: SyncChangeEntity;
+  entityId: string;
+  deletedAt: string;
+}
+
+export interface SyncChanges {
+  changes: Record<SyncChangeCollection, SyncEntityChanges>;
+  deleted: SyncDeletion[];
+  page: number;
+  hasMore: boolean;
+  /** Pass as `cursor`, together with `until`, to fetch the next page; null on the last page */
+  nextCursor: string | null;
+  /** Upper bound of this pull; pass as `until` for later pages and as `since` once hasMore is false */
+  nextSyncToken: string;
+  serverTimestamp: string;
+}
+
+export interface GetSyncChangesRequest {
+  userId: string;
+  since?: string;
+  until?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+const COLLECTIONS: Record<SyncChangeEntity, SyncChangeCollection> = {
+  habit: 'habits',
+  journal: 'journals',
+  checkin: 'checkins',
+  intention: 'intentions',
+  dhikr: 'dhikrSessions'
+};
+
+const DEFAULT_PAGE_SIZE = 100;
+
+type SyncStream = SyncChangeEntity | 'tombstone';
+
+/**
+ * Where the next page of a pull starts: the last row returned so far in each
+ * stream. Streams are ordered by change time and id, so rows that change
+ * between pages move past `until` instead of shifting the rest of the stream.
+ */
+interface SyncPageCursor {
+  page: number;
+  after: Partial<Record<SyncStream, SyncPosition>>;
+}
+
+function encodePageCursor(cursor: SyncPageCursor): string {
+  const after = Object.fromEntries(Object.entries(cursor.after).map(([stream, position]) =>
+    [stream, [position.changedAt.toISOString(), position.id]]
+  ));
+  return Buffer.from(JSON.stringify({ page: cursor.page, after })).toString('base64url');
+}
+
+/**
+ * Returns the position a page cursor continues from, or null if it is malformed
+ */
+function parsePageCursor(token: string): SyncPageCursor | null {
+  try {
+    const { page, after } = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (!Number.isInteger(page) || page < 2 || typeof after !== 'object' || after === null) {
+      return null;
+    }
+
+    const positions: Partial<Record<SyncStream, SyncPosition>> = {};
+    for (const [stream, position] of Object.entries(after)) {
+      const [changedAt, id] = Array.isArray(position) ? position : [];
+      if (typeof changedAt !== 'string' || typeof id !== 'string' || isNaN(Date.parse(changedAt))) {
+        return null;
+      }
+      positions[stream as SyncStream] = { changedAt: new Date(changedAt), id };
+    }
+
+    return { page, after: positions };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sync tokens have the form `${userId}_${epochMillis}_${random}`
+ */
+export function generateSyncToken(userId: string, at: Date = new Date()): string {
+  const random = Math.random().toString(36).substr(2, 9);
+  return `${userId}_${at.getTime()}_${random}`;
+}
+
+/**
+ * Returns the point in time a sync token was issued at, or null if the token
+ * is malformed or was issued to another user
+ */
+export function parseSyncToken(token: string, userId: string): Date | null {
+  const [tokenUserId, timestamp, random] = token.split('_');
+  if (tokenUserId !== userId || !random || !/^\d+$/.test(timestamp)) {
+    return null;
+  }
+
+  return new Date(Number(timestamp));
+}
+
+@injectable()
+export class GetSyncChangesUseCase {
+  constructor(
+    @inject('ISyncRepository') private readonly syncRepo: ISyncRepository
+  ) {}
+
+  async execute(request: GetSyncChangesRequest): Promise<Result<SyncChanges>> {
+    try {
+      const userId = new UserId(request.userId);
+      const limit = request.limit || DEFAULT_PAGE_SIZE;
+
+      const since = request.since ? parseSyncToken(request.since, request.userId) : null;
+      if (request.since && !since) {
+        return Result.error(new Error('Invalid sync token'));
+      }
+
+      // Later pages of the same pull keep the upper bound of the first page
+      const until = request.until ? parseSyncToken(request.until, request.userId) : new Date();
+      if (!until || (since && since > until)) {
+        return Result.error(new Error('Invalid sync token'));
+      }
+
+      const cursor = request.cursor ? parsePageCursor(request.cursor) : { page: 1, after: {} };
+      if (!cursor) {
+        return Result.error(new Error('Invalid page cursor'));
+      }
+
+      // Fetch one extra row per stream to know whether another page exists
+      const windowFor = (stream: SyncStream) => ({
+        since,
+        until,
+        limit: limit + 1,
+        after: cursor.after[stream] ?? null
+      });
+      const next: SyncPageCursor = { page: cursor.page + 1, after: { ...cursor.after } };
+
+      const changes = {} as Record<SyncChangeCollection, SyncEntityChanges>;
+      let hasMore = false;
+
+      for (const entity of Object.keys(COLLECTIONS) as SyncChangeEntity[]) {
+        const changesResult = await this.syncRepo.findChanges(userId, entity, windowFor(entity));
+        if (Result.isError(changesResult)) {
+          return Result.error(changesResult.error);
+        }
+
+        hasMore = hasMore || changesResult.value.length > limit;
+
+        const records = changesResult.value.slice(0, limit);
+        const last = records[records.length - 1];
+        if (last) {
+          next.after[entity] = { changedAt: last.updatedAt, id: last.entityId };
+        }
+
+        const entityChanges: SyncEntityChanges = { created: [], updated: [] };
+        for (const record of records) {
+          const data = { ...record.data, updatedAt: record.updatedAt.toISOString() };
+          // Entities the device has never seen are created, even if they changed again since
+          if (since && record.createdAt <= since) {
+            entityChanges.updated.push(data);
+          } else {
+            entityChanges.created.push(data);
+          }
+        }
+
+        changes[COLLECTIONS[entity]] = entityChanges;
+      }
+
+      const tombstonesResult = await this.syncRepo.findTombstones(userId, windowFor('tombstone'));
+      if (Result.isError(tombstonesResult)) {
+        return Result.error(tombstonesResult.error);
+      }
+
+      hasMore = hasMore || tombstonesResult.value.length > limit;
+
+      const tombstones = tombstonesResult.value.slice(0, limit);
+      const lastTombstone = tombstones[tombstones.length - 1];
+      if (lastTombstone) {
+        next.after.tombstone = { changedAt: lastTombstone.deletedAt, id: lastTombstone.id };
+      }
+
+      return Result.ok({
+        changes,
+        deleted: tombstones.map(tombstone => ({
+          entity: tombstone.entity,
+          entityId: tombstone.entityId,
+          deletedAt: tombstone.deletedAt.toISOString()
+        })),
+        page: cursor.page,
+        hasMore,
+        nextCursor: hasMore ? encodePageCursor(next) : null,
+        nextSyncToken: request.until || generateSyncToken(request.userId, until),
+        serverTimestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
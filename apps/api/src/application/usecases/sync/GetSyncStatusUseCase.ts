@@ -0,0 +1,111 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { ISyncRepository, SyncConflictRecord, SyncDeviceRecord } from '@/domain/repositories';
+import { UserId } from '@/domain/value-objects/UserId';
+import { SyncConflict } from './ProcessSyncOperationUseCase';
+
+export type SyncHealth = 'healthy' | 'warning' | 'error';
+
+export interface SyncDeviceStatus {
+  deviceId: string;
+  lastSuccessfulSyncAt: string | null;
+  lastAttemptAt: string;
+  lastErrorCount: number;
+}
+
+export interface SyncStatus {
+  pendingConflicts: SyncConflict[];
+  totalConflicts: number;
+  lastSyncTimestamp: string | null;
+  devices: SyncDeviceStatus[];
+  syncHealth: SyncHealth;
+  serverTimestamp: string;
+}
+
+// A device that has not synced successfully for this long is reported as a warning
+const STALE_SYNC_THRESHOLD_MS = 7 * 24 * 60 * 60 * 1000;
+
+@injectable()
+export class GetSyncStatusUseCase {
+  constructor(
+    @inject('ISyncRepository') private readonly syncRepo: ISyncRepository
+  ) {}
+
+  async execute(userId: string, deviceId?: string): Promise<Result<SyncStatus>> {
+    try {
+      const user = new UserId(userId);
+
+      const conflictsResult = await this.syncRepo.findPendingConflicts(user, deviceId);
+      if (Result.isError(conflictsResult)) {
+        return Result.error(conflictsResult.error);
+      }
+
+      const devicesResult = await this.syncRepo.findDevices(user);
+      if (Result.isError(devicesResult)) {
+        return Result.error(devicesResult.error);
+      }
+
+      const conflicts = conflictsResult.value;
+      const devices = devicesResult.value;
+      const now = new Date();
+
+      const lastSuccessfulSyncs = devices
+        .map(device => device.lastSuccessfulSyncAt)
+        .filter((date): date is Date => date !== null)
+        .sort((a, b) => b.getTime() - a.getTime());
+
+      return Result.ok({
+        pendingConflicts: conflicts.map(conflict => this.toSyncConflict(conflict)),
+        totalConflicts: conflicts.length,
+        lastSyncTimestamp: lastSuccessfulSyncs[0]?.toISOString() || null,
+        devices: devices.map(device => ({
+          deviceId: device.deviceId,
+          lastSuccessfulSyncAt: device.lastSuccessfulSyncAt?.toISOString() || null,
+          lastAttemptAt: device.lastAttemptAt.toISOString(),
+          lastErrorCount: device.lastErrorCount
+        })),
+        syncHealth: this.calculateHealth(conflicts, devices, now),
+        serverTimestamp: now.toISOString()
+      });
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  private calculateHealth(
+    conflicts: SyncConflictRecord[],
+    devices: SyncDeviceRecord[],
+    now: Date
+  ): SyncHealth {
+    if (devices.some(device => device.lastErrorCount > 0)) {
+      return 'error';
+    }
+
+    const hasStaleDevice = devices.some(device =>
+      !device.lastSuccessfulSyncAt ||
+      now.getTime() - device.lastSuccessfulSyncAt.getTime() > STALE_SYNC_THRESHOLD_MS
+    );
+
+    if (conflicts.length > 0 || hasStaleDevice) {
+      return 'warning';
+    }
+
+    return 'healthy';
+  }
+
+  private toSyncConflict(conflict: SyncConflictRecord): SyncConflict {
+    return {
+      id: conflict.id,
+      entity: conflict.entity,
+      conflictType: conflict.conflictType,
+      clientData: conflict.clientData,
+      serverData: conflict.serverData,
+      clientTimestamp: conflict.clientTimestamp.toISOString(),
+      serverTimestamp: conflict.serverTimestamp.toISOString(),
+      metadata: {
+        ...(conflict.deviceId && { deviceId: conflict.deviceId }),
+        operationId: conflict.operationId
+      }
+    };
+  }
+}
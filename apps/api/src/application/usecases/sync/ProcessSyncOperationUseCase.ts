@@ -0,0 +1,885 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { toLocalDateString } from '@/shared/timezone';
+import {
+  IHabitRepository,
+  IJournalRepository,
+  ICheckinRepository,
+  IIntentionRepository,
+  IPlanRepository,
+  ISyncRepository,
+  IProfileRepository,
+  SyncEntity
+} from '@/domain/repositories';
+import { IDhikrRepository } from '@/domain/repositories/IDhikrRepository';
+import { IUserPreferencesRepository } from '@/infrastructure/repos/UserPreferencesRepository';
+import { DEFAULT_COMPLETION_GRACE_DAYS } from '@/domain/entities/UserPreferences';
+import { IEventBus } from '@/domain/events/IEventBus';
+import { PlanCompletedEvent } from '@/domain/events/PlanEvents';
+import { HabitId } from '@/domain/value-objects/HabitId';
+import { JournalId } from '@/domain/value-objects/JournalId';
+import { IntentionId } from '@/domain/value-objects/IntentionId';
+import { DhikrSessionId } from '@/domain/value-objects/DhikrSessionId';
+import { PlanId } from '@/domain/value-objects/PlanId';
+import { UserId } from '@/domain/value-objects/UserId';
+import { CheckinSession } from '@/domain/entities/Checkin';
+import { ToggleHabitUseCase } from '../ToggleHabitUseCase';
+import { ManageJournalUseCase } from '../ManageJournalUseCase';
+import { LogCheckinUseCase, inferCheckinSession } from '../LogCheckinUseCase';
+import { resolveCompletionDay } from '../completionDay';
+import {
+  CreateIntentionUseCase,
+  UpdateIntentionUseCase,
+  CompleteIntentionUseCase,
+  ArchiveIntentionUseCase
+} from '../intentions';
+import {
+  CreateDhikrSessionUseCase,
+  IncrementDhikrCountUseCase,
+  CompleteDhikrSessionUseCase
+} from '../dhikr';
+
+export type SyncOperationType =
+  | 'habit-toggle'
+  | 'journal-create'
+  | 'journal-delete'
+  | 'checkin-create'
+  | 'intention-create'
+  | 'intention-update'
+  | 'intention-complete'
+  | 'intention-archive'
+  | 'dhikr-create'
+  | 'dhikr-increment'
+  | 'dhikr-complete'
+  | 'plan-activate'
+  | 'plan-deactivate';
+
+export interface SyncOperation {
+  id: string;
+  type: SyncOperationType;
+  entity: SyncEntity;
+  operation: 'create' | 'update' | 'delete';
+  data: Record<string, any>;
+  clientTimestamp: string;
+  retryCount: number;
+}
+
+/**
+ * Conflict payload in the shape consumed by the UI ConflictResolver
+ */
+export interface SyncConflict {
+  id: string;
+  entity: SyncEntity;
+  conflictType: 'timestamp' | 'version' | 'data';
+  clientData: Record<string, any>;
+  serverData: Record<string, any>;
+  clientTimestamp: string;
+  serverTimestamp: string;
+  metadata: {
+    deviceId?: string;
+    operationId: string;
+  };
+}
+
+export interface SyncOperationResult {
+  success: boolean;
+  operationId: string;
+  serverTimestamp: string;
+  entityId?: string;
+  data?: Record<string, any>;
+  conflict?: SyncConflict;
+  replayed?: boolean;
+}
+
+export interface ProcessSyncOperationRequest {
+  userId: string;
+  deviceId?: string;
+  operation: SyncOperation;
+  /** Apply the operation even if the server copy changed after it was made */
+  force?: boolean;
+}
+
+interface OperationOutcome {
+  entityId: string | null;
+  data?: Record<string, any>;
+  conflict?: Omit<SyncConflict, 'id' | 'entity' | 'clientData' | 'clientTimestamp' | 'metadata'>;
+}
+
+@injectable()
+export class ProcessSyncOperationUseCase {
+  constructor(
+    @inject('IHabitRepository') private readonly habitRepo: IHabitRepository,
+    @inject('IJournalRepository') private readonly journalRepo: IJournalRepository,
+    @inject('ICheckinRepository') private readonly checkinRepo: ICheckinRepository,
+    @inject('ISyncRepository') private readonly syncRepo: ISyncRepository,
+    @inject('ToggleHabitUseCase') private readonly toggleHabit: ToggleHabitUseCase,
+    @inject('ManageJournalUseCase') private readonly manageJournal: ManageJournalUseCase,
+    @inject('LogCheckinUseCase') private readonly logCheckin: LogCheckinUseCase,
+    @inject('IIntentionRepository') private readonly intentionRepo: IIntentionRepository,
+    @inject('IDhikrRepository') private readonly dhikrRepo: IDhikrRepository,
+    @inject('IPlanRepository') private readonly planRepo: IPlanRepository,
+    @inject('CreateIntentionUseCase') private readonly createIntention: CreateIntentionUseCase,
+    @inject('UpdateIntentionUseCase') private readonly updateIntention: UpdateIntentionUseCase,
+    @inject('CompleteIntentionUseCase') private readonly completeIntention: CompleteIntentionUseCase,
+    @inject('ArchiveIntentionUseCase') private readonly archiveIntention: ArchiveIntentionUseCase,
+    @inject('CreateDhikrSessionUseCase') private readonly createDhikrSession: CreateDhikrSessionUseCase,
+    @inject('IncrementDhikrCountUseCase') private readonly incrementDhikrCount: IncrementDhikrCountUseCase,
+    @inject('CompleteDhikrSessionUseCase') private readonly completeDhikrSession: CompleteDhikrSessionUseCase,
+    @inject('IProfileRepository') private readonly profileRepo: IProfileRepository,
+    @inject('IUserPreferencesRepository') private readonly preferencesRepo: IUserPreferencesRepository,
+    @inject('IEventBus') private readonly eventBus: IEventBus
+  ) {}
+
+  async execute(request: ProcessSyncOperationRequest): Promise<Result<SyncOperationResult>> {
+    try {
+      const { operation } = request;
+      const userId = new UserId(request.userId);
+
+      // Replay the stored outcome if this operation was already processed
+      const existingResult = await this.syncRepo.findOperation(userId, operation.id);
+      if (Result.isError(existingResult)) {
+        return Result.error(existingResult.error);
+      }
+
+      if (existingResult.value) {
+        return Result.ok({
+          ...(existingResult.value.result as SyncOperationResult),
+          replayed: true
+        });
+      }
+
+      const outcomeResult = await this.apply(userId, operation, request.force || false);
+      if (Result.isError(outcomeResult)) {
+        // Failures are not recorded so the client can retry the operation
+        return Result.error(outcomeResult.error);
+      }
+
+      const outcome = outcomeResult.value;
+      const serverTimestamp = new Date().toISOString();
+      const result: SyncOperationResult = {
+        success: !outcome.conflict,
+        operationId: operation.id,
+        serverTimestamp,
+        ...(outcome.entityId && { entityId: outcome.entityId }),
+        ...(outcome.data && { data: outcome.data })
+      };
+
+      if (outcome.conflict) {
+        result.conflict = {
+          id: crypto.randomUUID(),
+          entity: operation.entity,
+          clientData: operation.data,
+          clientTimestamp: operation.clientTimestamp,
+          ...outcome.conflict,
+          metadata: {
+            deviceId: request.deviceId,
+            operationId: operation.id
+          }
+        };
+
+        const conflictResult = await this.syncRepo.saveConflict({
+          id: result.conflict.id,
+          userId: userId.toString(),
+          deviceId: request.deviceId || null,
+          operationId: operation.id,
+          operationType: operation.type,
+          entity: operation.entity,
+          entityId: outcome.entityId,
+          conflictType: result.conflict.conflictType,
+          clientData: result.conflict.clientData,
+          serverData: result.conflict.serverData,
+          clientTimestamp: new Date(result.conflict.clientTimestamp),
+          serverTimestamp: new Date(result.conflict.serverTimestamp)
+        });
+
+        if (Result.isError(conflictResult)) {
+          return Result.error(conflictResult.error);
+        }
+      }
+
+      const recordResult = await this.syncRepo.recordOperation({
+        operationId: operation.id,
+        userId: userId.toString(),
+        deviceId: request.deviceId || null,
+        type: operation.type,
+        entity: operation.entity,
+        entityId: outcome.entityId,
+        status: outcome.conflict ? 'conflict' : 'applied',
+        result,
+        clientTimestamp: new Date(operation.clientTimestamp)
+      });
+
+      if (Result.isError(recordResult)) {
+        return Result.error(recordResult.error);
+      }
+
+      return Result.ok(result);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  private async apply(userId: UserId, operation: SyncOperation, force: boolean): Promise<Result<OperationOutcome>> {
+    switch (operation.type) {
+      case 'habit-toggle':
+        return this.applyHabitToggle(userId, operation, force);
+      case 'journal-create':
+        return this.applyJournalCreate(userId, operation);
+      case 'journal-delete':
+        return this.applyJournalDelete(userId, operation, force);
+      case 'checkin-create':
+        return this.applyCheckinCreate(userId, operation, force);
+      case 'intention-create':
+        return this.applyIntentionCreate(userId, operation);
+      case 'intention-update':
+        return this.applyIntentionUpdate(userId, operation, force);
+      case 'intention-complete':
+      case 'intention-archive':
+        return this.applyIntentionStatus(userId, operation);
+      case 'dhikr-create':
+        return this.applyDhikrCreate(userId, operation);
+      case 'dhikr-increment':
+        return this.applyDhikrIncrement(userId, operation);
+      case 'dhikr-complete':
+        return this.applyDhikrComplete(userId, operation);
+      case 'plan-activate':
+      case 'plan-deactivate':
+        return this.applyPlanStatus(userId, operation, force);
+      default:
+        return Result.error(new Error(`Unsupported operation type: ${operation.type}`));
+    }
+  }
+
+  private async applyHabitToggle(
+    userId: UserId,
+    operation: SyncOperation,
+    force: boolean
+  ): Promise<Result<OperationOutcome>> {
+    const { habitId, completed } = operation.data;
+    if (!habitId || typeof completed !== 'boolean') {
+      return Result.error(new Error('habitId and completed are required'));
+    }
+
+    const habitResult = await this.habitRepo.findById(new HabitId(habitId));
+    if (Result.isError(habitResult)) {
+      return Result.error(new Error('Failed to find habit'));
+    }
+
+    const habit = habitResult.value;
+    if (!habit) {
+      return Result.error(new Error('Habit not found'));
+    }
+
+    if (!habit.userId.equals(userId)) {
+      return Result.error(new Error('Unauthorized'));
+    }
+
+    const dayResult = await this.resolveClientDay(userId, operation, 'Habits');
+    if (Result.isError(dayResult)) {
+      return Result.error(dayResult.error);
+    }
+
+    const completionResult = await this.habitRepo.findCompletionByDate(habit.id, userId, dayResult.value);
+    if (Result.isError(completionResult)) {
+      return Result.error(completionResult.error);
+    }
+
+    const completedOnDay = completionResult.value;
+
+    // Already in the requested state - nothing to apply
+    if (completedOnDay === completed) {
+      return Result.ok({ entityId: habitId, data: { habitId, completed } });
+    }
+
+    const staleResult = await this.findNewerServerChange(userId, 'habit', habitId, operation, force);
+    if (Result.isError(staleResult)) {
+      return Result.error(staleResult.error);
+    }
+
+    if (staleResult.value) {
+      return Result.ok({
+        entityId: habitId,
+        conflict: {
+          conflictType: 'timestamp',
+          serverData: { ...habit.toDTO(), completed: completedOnDay },
+          serverTimestamp: staleResult.value
+        }
+      });
+    }
+
+    const toggleResult = await this.toggleHabit.execute({
+      habitId,
+      userId: userId.toString(),
+      completed,
+      toggledAt: new Date(operation.clientTimestamp)
+    });
+
+    if (Result.isError(toggleResult)) {
+      return Result.error(toggleResult.error);
+    }
+
+    return Result.ok({ entityId: habitId, data: { habitId, completed } });
+  }
+
+  private async applyJournalCreate(userId: UserId, operation: SyncOperation): Promise<Result<OperationOutcome>> {
+    const { content, tags } = operation.data;
+    if (!content || typeof content !== 'string') {
+      return Result.error(new Error('content is required'));
+    }
+
+    const createResult = await this.manageJournal.createEntry({
+      userId: userId.toString(),
+      content,
+      tags
+    });
+
+    if (Result.isError(createResult)) {
+      return Result.error(createResult.error);
+    }
+
+    const entry = createResult.value;
+    return Result.ok({ entityId: entry.id.toString(), data: entry.toDTO() });
+  }
+
+  private async applyJournalDelete(
+    userId: UserId,
+    operation: SyncOperation,
+    force: boolean
+  ): Promise<Result<OperationOutcome>> {
+    const entryId = operation.data.entryId || operation.data.id;
+    if (!entryId) {
+      return Result.error(new Error('entryId is required'));
+    }
+
+    const entryResult = await this.journalRepo.findById(new JournalId(entryId));
+    if (Result.isError(entryResult)) {
+      return Result.error(new Error('Failed to find journal entry'));
+    }
+
+    // Deleting an entry that is already gone is a no-op
+    const entry = entryResult.value;
+    if (!entry) {
+      return Result.ok({ entityId: entryId });
+    }
+
+    const staleResult = await this.findNewerServerChange(userId, 'journal', entryId, operation, force);
+    if (Result.isError(staleResult)) {
+      return Result.error(staleResult.error);
+    }
+
+    if (staleResult.value) {
+      return Result.ok({
+        entityId: entryId,
+        conflict: {
+          conflictType: 'timestamp',
+          serverData: entry.toDTO(),
+          serverTimestamp: staleResult.value
+        }
+      });
+    }
+
+    const deleteResult = await this.manageJournal.deleteEntry(entryId, userId.toString());
+    if (Result.isError(deleteResult)) {
+      return Result.error(deleteResult.error);
+    }
+
+    return Result.ok({ entityId: entryId });
+  }
+
+  private async applyCheckinCreate(
+    userId: UserId,
+    operation: SyncOperation,
+    force: boolean
+  ): Promise<Result<OperationOutcome>> {
+    const { mood, intention, reflection, gratitude, improvements } = operation.data;
+    const session: CheckinSession = operation.data.session ?? inferCheckinSession(operation.data);
+
+    const dayResult = await this.resolveClientDay(userId, operation, 'Check-ins');
+    if (Result.isError(dayResult)) {
+      return Result.error(dayResult.error);
+    }
+
+    const day = dayResult.value;
+    const existingResult = await this.checkinRepo.findByUserAndDate(userId, day, session);
+    if (Result.isError(existingResult)) {
+      return Result.error(existingResult.error);
+    }
+
+    const existing = existingResult.value;
+    if (existing && !force) {
+      const lastChangeResult = await this.findNewerServerChange(
+        userId,
+        'checkin',
+        existing.id.toString(),
+        operation,
+        force
+      );
+      if (Result.isError(lastChangeResult)) {
+        return Result.error(lastChangeResult.error);
+      }
+
+      const serverTimestamp = lastChangeResult.value ||
+        (existing.createdAt > new Date(operation.clientTimestamp) ? existing.createdAt.toISOString() : null);
+
+      // The server copy changed after the client edit - only a conflict if the values disagree
+      const differs =
+        (mood !== undefined && mood !== existing.mood) ||
+        (intention !== undefined && (intention.trim() || null) !== existing.intention) ||
+        (reflection !== undefined && (reflection.trim() || null) !== existing.reflection) ||
+        (gratitude !== undefined && JSON.stringify(gratitude.map((item: string) => item.trim()).filter(Boolean)) !==
+          JSON.stringify(existing.gratitude)) ||
+        (improvements !== undefined && (improvements.trim() || null) !== existing.improvements);
+
+      if (serverTimestamp && differs) {
+        return Result.ok({
+          entityId: existing.id.toString(),
+          conflict: {
+            conflictType: 'data',
+            serverData: existing.toDTO(),
+            serverTimestamp
+          }
+        });
+      }
+    }
+
+    const checkinResult = await this.logCheckin.execute({
+      userId: userId.toString(),
+      session,
+      mood,
+      intention,
+      reflection,
+      gratitude,
+      improvements,
+      date: day
+    });
+
+    if (Result.isError(checkinResult)) {
+      return Result.error(checkinResult.error);
+    }
+
+    const checkin = checkinResult.value;
+    return Result.ok({ entityId: checkin.id.toString(), data: checkin.toDTO() });
+  }
+
+  private async applyIntentionCreate(userId: UserId, operation: SyncOperation): Promise<Result<OperationOutcome>> {
+    const { text, description, priority, targetDate, reminder, tags } = operation.data;
+
+    const createResult = await this.createIntention.execute({
+      userId: userId.toString(),
+      text,
+      description,
+      priority,
+      targetDate: targetDate ? new Date(targetDate) : undefined,
+      reminder,
+      tags
+    });
+
+    if (Result.isError(createResult)) {
+      return Result.error(createResult.error);
+    }
+
+    const intention = createResult.value;
+    return Result.ok({ entityId: intention.id.toString(), data: intention.toDTO() });
+  }
+
+  private async applyIntentionUpdate(
+    userId: UserId,
+    operation: SyncOperation,
+    force: boolean
+  ): Promise<Result<OperationOutcome>> {
+    const idResult = await this.resolveEntityId(userId, operation, 'intentionId');
+    if (Result.isError(idResult)) {
+      return Result.error(idResult.error);
+    }
+
+    const intentionId = idResult.value;
+    const { intentionId: _intentionId, createOperationId: _createOperationId, ...updates } = operation.data;
+
+    const intentionResult = await this.intentionRepo.findById(new IntentionId(intentionId));
+    if (Result.isError(intentionResult)) {
+      return Result.error(new Error('Failed to find intention'));
+    }
+
+    const intention = intentionResult.value;
+    if (!intention) {
+      return Result.error(new Error('Intention not found'));
+    }
+
+    if (!intention.userId.equals(userId)) {
+      return Result.error(new Error('Unauthorized'));
+    }
+
+    if (!force) {
+      const staleResult = await this.findNewerServerChange(userId, 'intention', intentionId, operation, force);
+      if (Result.isError(staleResult)) {
+        return Result.error(staleResult.error);
+      }
+
+      const serverTimestamp = staleResult.value ||
+        (intention.updatedAt > new Date(operation.clientTimestamp) ? intention.updatedAt.toISOString() : null);
+
+      // The server copy changed after the client edit - only a conflict if the values disagree
+      const serverData: Record<string, any> = intention.toDTO();
+      const differs = Object.entries(updates).some(
+        ([field, value]) => JSON.stringify(serverData[field]) !== JSON.stringify(value)
+      );
+
+      if (serverTimestamp && differs) {
+        return Result.ok({
+          entityId: intentionId,
+          conflict: {
+            conflictType: 'data',
+            serverData,
+            serverTimestamp
+          }
+        });
+      }
+    }
+
+    const updateResult = await this.updateIntention.execute({
+      intentionId,
+      userId: userId.toString(),
+      ...updates,
+      ...(updates.targetDate !== undefined && {
+        targetDate: updates.targetDate ? new Date(updates.targetDate) : null
+      })
+    });
+
+    if (Result.isError(updateResult)) {
+      return Result.error(updateResult.error);
+    }
+
+    return Result.ok({ entityId: intentionId, data: updateResult.value.toDTO() });
+  }
+
+  private async applyIntentionStatus(userId: UserId, operation: SyncOperation): Promise<Result<OperationOutcome>> {
+    const idResult = await this.resolveEntityId(userId, operation, 'intentionId');
+    if (Result.isError(idResult)) {
+      return Result.error(idResult.error);
+    }
+
+    const intentionId = idResult.value;
+    const targetStatus = operation.type === 'intention-complete' ? 'completed' : 'archived';
+
+    const intentionResult = await this.intentionRepo.findById(new IntentionId(intentionId));
+    if (Result.isError(intentionResult)) {
+      return Result.error(new Error('Failed to find intention'));
+    }
+
+    const intention = intentionResult.value;
+    if (!intention) {
+      return Result.error(new Error('Intention not found'));
+    }
+
+    if (!intention.userId.equals(userId)) {
+      return Result.error(new Error('Unauthorized'));
+    }
+
+    // Another device already got there - nothing to apply
+    if (intention.status === targetStatus) {
+      return Result.ok({ entityId: intentionId, data: intention.toDTO() });
+    }
+
+    const request = { intentionId, userId: userId.toString() };
+    const statusResult = targetStatus === 'completed'
+      ? await this.completeIntention.execute(request)
+      : await this.archiveIntention.execute(request);
+
+    if (Result.isError(statusResult)) {
+      return Result.error(statusResult.error);
+    }
+
+    return Result.ok({ entityId: intentionId, data: statusResult.value.toDTO() });
+  }
+
+  private async applyDhikrCreate(userId: UserId, operation: SyncOperation): Promise<Result<OperationOutcome>> {
+    const { dhikrType, dhikrText, targetCount, date, tags, count } = operation.data;
+
+    let sessionDate: string = date;
+    if (!sessionDate) {
+      const timezoneResult = await this.profileRepo.getTimezone(userId);
+      if (Result.isError(timezoneResult)) {
+        return Result.error(timezoneResult.error);
+      }
+
+      // The day the session was started in the user's timezone
+      sessionDate = toLocalDateString(new Date(operation.clientTimestamp), timezoneResult.value);
+    }
+
+    // Sessions for the same dhikr started on several devices merge into the active one
+    const existingResult = await this.dhikrRepo.getDhikrSessionsByDate(userId, sessionDate);
+    if (Result.isError(existingResult)) {
+      return Result.error(existingResult.error);
+    }
+
+    let session = existingResult.value.find(
+      existing => existing.dhikrType === dhikrType && !existing.isCompleted
+    );
+
+    if (!session) {
+      const createResult = await this.createDhikrSession.execute({
+        userId: userId.toString(),
+        dhikrType,
+        dhikrText,
+        targetCount,
+        date: sessionDate,
+        tags
+      });
+
+      if (Result.isError(createResult)) {
+        return Result.error(createResult.error);
+      }
+
+      session = createResult.value;
+    }
+
+    // A count recorded with the create is added like any other increment
+    if (count && count > 0) {
+      const incrementResult = await this.incrementDhikrCount.execute({
+        sessionId: session.id.toString(),
+        userId: userId.toString(),
+        increment: count,
+        countedAt: new Date(operation.clientTimestamp)
+      });
+
+      if (Result.isError(incrementResult)) {
+        return Result.error(incrementResult.error);
+      }
+
+      session = incrementResult.value;
+    }
+
+    return Result.ok({ entityId: session.id.toString(), data: session.toDTO() });
+  }
+
+  private async applyDhikrIncrement(userId: UserId, operation: SyncOperation): Promise<Result<OperationOutcome>> {
+    const idResult = await this.resolveEntityId(userId, operation, 'sessionId');
+    if (Result.isError(idResult)) {
+      return Result.error(idResult.error);
+    }
+
+    const sessionId = idResult.value;
+    const { increment } = operation.data;
+    if (typeof increment !== 'number' || increment <= 0) {
+      return Result.error(new Error('increment must be a positive number'));
+    }
+
+    // Increments carry deltas rather than totals, so devices never overwrite each other's counts
+    const incrementResult = await this.incrementDhikrCount.execute({
+      sessionId,
+      userId: userId.toString(),
+      increment,
+      countedAt: new Date(operation.clientTimestamp)
+    });
+
+    if (Result.isError(incrementResult)) {
+      return Result.error(incrementResult.error);
+    }
+
+    return Result.ok({ entityId: sessionId, data: incrementResult.value.toDTO() });
+  }
+
+  private async applyDhikrComplete(userId: UserId, operation: SyncOperation): Promise<Result<OperationOutcome>> {
+    const idResult = await this.resolveEntityId(userId, operation, 'sessionId');
+    if (Result.isError(idResult)) {
+      return Result.error(idResult.error);
+    }
+
+    const sessionId = idResult.value;
+
+    const sessionResult = await this.dhikrRepo.getDhikrSessionById(new DhikrSessionId(sessionId));
+    if (Result.isError(sessionResult)) {
+      return Result.error(sessionResult.error);
+    }
+
+    const session = sessionResult.value;
+    if (!session) {
+      return Result.error(new Error('Dhikr session not found'));
+    }
+
+    if (!session.userId.equals(userId)) {
+      return Result.error(new Error('Unauthorized'));
+    }
+
+    // Completed on another device already - nothing to apply
+    if (session.isCompleted) {
+      return Result.ok({ entityId: sessionId, data: session.toDTO() });
+    }
+
+    const completeResult = await this.completeDhikrSession.execute({
+      sessionId,
+      userId: userId.toString(),
+      notes: operation.data.notes
+    });
+
+    if (Result.isError(completeResult)) {
+      return Result.error(completeResult.error);
+    }
+
+    return Result.ok({ entityId: sessionId, data: completeResult.value.toDTO() });
+  }
+
+  private async applyPlanStatus(
+    userId: UserId,
+    operation: SyncOperation,
+    force: boolean
+  ): Promise<Result<OperationOutcome>> {
+    const { planId } = operation.data;
+    if (!planId) {
+      return Result.error(new Error('planId is required'));
+    }
+
+    const status = operation.type === 'plan-activate' ? 'active' : 'archived';
+
+    const planResult = await this.planRepo.findById(new PlanId(planId));
+    if (Result.isError(planResult)) {
+      return Result.error(new Error('Failed to find plan'));
+    }
+
+    const plan = planResult.value;
+    if (!plan) {
+      return Result.error(new Error('Plan not found'));
+    }
+
+    if (!plan.userId.equals(userId)) {
+      return Result.error(new Error('Unauthorized'));
+    }
+
+    // Already in the requested state - nothing to apply
+    if (plan.status === status) {
+      return Result.ok({ entityId: planId, data: plan.toDTO() });
+    }
+
+    const staleResult = await this.findNewerServerChange(userId, 'plan', planId, operation, force);
+    if (Result.isError(staleResult)) {
+      return Result.error(staleResult.error);
+    }
+
+    if (staleResult.value) {
+      return Result.ok({
+        entityId: planId,
+        conflict: {
+          conflictType: 'timestamp',
+          serverData: plan.toDTO(),
+          serverTimestamp: staleResult.value
+        }
+      });
+    }
+
+    const updateResult = await this.planRepo.updateStatus(new PlanId(planId), status);
+    if (Result.isError(updateResult)) {
+      return Result.error(updateResult.error);
+    }
+
+    // Archiving an active plan completes it
+    if (status === 'archived') {
+      await this.eventBus.publish(new PlanCompletedEvent(planId, userId.toString()));
+    }
+
+    return Result.ok({ entityId: planId, data: updateResult.value.toDTO() });
+  }
+
+  /**
+   * Entities created offline are referenced by the id of the operation that
+   * created them until the device has learned their server id
+   */
+  private async resolveEntityId(
+    userId: UserId,
+    operation: SyncOperation,
+    idField: string
+  ): Promise<Result<string>> {
+    const { createOperationId } = operation.data;
+    if (operation.data[idField]) {
+      return Result.ok(operation.data[idField]);
+    }
+
+    if (!createOperationId) {
+      return Result.error(new Error(`${idField} or createOperationId is required`));
+    }
+
+    const createResult = await this.syncRepo.findOperation(userId, createOperationId);
+    if (Result.isError(createResult)) {
+      return Result.error(createResult.error);
+    }
+
+    const entityId = createResult.value?.entityId;
+    if (!entityId) {
+      return Result.error(new Error(`Create operation ${createOperationId} has not been applied`));
+    }
+
+    return Result.ok(entityId);
+  }
+
+  /**
+   * Day the operation was made on the client in the user's profile timezone,
+   * so entries queued offline land on that day as long as it is still within
+   * the user's completion grace window
+   */
+  private async resolveClientDay(userId: UserId, operation: SyncOperation, entries: string): Promise<Result<Date>> {
+    const timezoneResult = await this.profileRepo.getTimezone(userId);
+    if (Result.isError(timezoneResult)) {
+      return Result.error(timezoneResult.error);
+    }
+
+    const preferencesResult = await this.preferencesRepo.getByUserId(userId.toString());
+    if (Result.isError(preferencesResult)) {
+      return Result.error(preferencesResult.error);
+    }
+
+    const timezone = timezoneResult.value;
+    return resolveCompletionDay(
+      toLocalDateString(new Date(operation.clientTimestamp), timezone),
+      timezone,
+      preferencesResult.value?.completionGraceDays ?? DEFAULT_COMPLETION_GRACE_DAYS,
+      entries
+    );
+  }
+
+  /**
+   * Returns the timestamp of a server change to the entity - a sync operation
+   * from another device or a direct write - made after the given operation was
+   * made on the client, or null if the client is up to date or the operation
+   * is being forced through by a conflict resolution
+   */
+  private async findNewerServerChange(
+    userId: UserId,
+    entity: SyncEntity,
+    entityId: string,
+    operation: SyncOperation,
+    force: boolean
+  ): Promise<Result<string | null>> {
+    if (force) {
+      return Result.ok(null);
+    }
+
+    const latestResult = await this.syncRepo.findLatestAppliedForEntity(userId, entity, entityId);
+    if (Result.isError(latestResult)) {
+      return Result.error(latestResult.error);
+    }
+
+    const clientTimestamp = new Date(operation.clientTimestamp);
+    const latest = latestResult.value;
+    if (latest && latest.clientTimestamp > clientTimestamp) {
+      return Result.ok(latest.clientTimestamp.toISOString());
+    }
+
+    // Plans are not change-tracked
+    if (entity === 'plan') {
+      return Result.ok(null);
+    }
+
+    const updatedAtResult = await this.syncRepo.findEntityUpdatedAt(userId, entity, entityId);
+    if (Result.isError(updatedAtResult)) {
+      return Result.error(updatedAtResult.error);
+    }
+
+    // Writes made while applying earlier sync operations are not server changes
+    const updatedAt = updatedAtResult.value;
+    const lastSyncWrite = latest?.processedAt;
+    if (updatedAt && updatedAt > clientTimestamp && (!lastSyncWrite || updatedAt > lastSyncWrite)) {
+      return Result.ok(updatedAt.toISOString());
+    }
+
+    return Result.ok(null);
+  }
+}
@@ -0,0 +1,146 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { ISyncRepository, SyncResolution } from '@/domain/repositories';
+import { UserId } from '@/domain/value-objects/UserId';
+import { ManageJournalUseCase } from '../ManageJournalUseCase';
+import {
+  ProcessSyncOperationUseCase,
+  SyncOperation,
+  SyncOperationType,
+  SyncOperationResult
+} from './ProcessSyncOperationUseCase';
+
+export interface ResolveSyncConflictRequest {
+  conflictId: string;
+  userId: string;
+  resolution: SyncResolution;
+  mergedData?: Record<string, any>;
+}
+
+export interface ResolveSyncConflictResponse {
+  conflictId: string;
+  resolution: SyncResolution;
+  resolvedAt: string;
+  appliedData: Record<string, any>;
+  result?: SyncOperationResult;
+}
+
+const OPERATION_KINDS: Record<SyncOperationType, SyncOperation['operation']> = {
+  'habit-toggle': 'update',
+  'journal-create': 'create',
+  'journal-delete': 'delete',
+  'checkin-create': 'create',
+  'intention-create': 'create',
+  'intention-update': 'update',
+  'intention-complete': 'update',
+  'intention-archive': 'update',
+  'dhikr-create': 'create',
+  'dhikr-increment': 'update',
+  'dhikr-complete': 'update',
+  'plan-activate': 'update',
+  'plan-deactivate': 'update'
+};
+
+@injectable()
+export class ResolveSyncConflictUseCase {
+  constructor(
+    @inject('ISyncRepository') private readonly syncRepo: ISyncRepository,
+    @inject('ProcessSyncOperationUseCase') private readonly processSyncOperation: ProcessSyncOperationUseCase,
+    @inject('ManageJournalUseCase') private readonly manageJournal: ManageJournalUseCase
+  ) {}
+
+  async execute(request: ResolveSyncConflictRequest): Promise<Result<ResolveSyncConflictResponse>> {
+    try {
+      const userId = new UserId(request.userId);
+
+      const conflictResult = await this.syncRepo.findConflictById(request.conflictId, userId);
+      if (Result.isError(conflictResult)) {
+        return Result.error(conflictResult.error);
+      }
+
+      const conflict = conflictResult.value;
+      if (!conflict) {
+        return Result.error(new Error('Sync conflict not found'));
+      }
+
+      if (conflict.resolvedAt) {
+        return Result.error(new Error('Sync conflict already resolved'));
+      }
+
+      if (request.resolution === 'merge' && !request.mergedData) {
+        return Result.error(new Error('mergedData is required for merge resolution'));
+      }
+
+      let appliedData: Record<string, any> = conflict.serverData;
+      let operationResult: SyncOperationResult | undefined;
+
+      if (request.resolution === 'merge' && conflict.operationType === 'journal-delete') {
+        if (!conflict.entityId) {
+          return Result.error(new Error('Sync conflict has no journal entry to merge into'));
+        }
+
+        // Merging a delete keeps the entry with the merged content instead of removing it
+        const updateResult = await this.manageJournal.updateEntry({
+          id: conflict.entityId,
+          userId: userId.toString(),
+          content: request.mergedData!.content,
+          tags: request.mergedData!.tags
+        });
+
+        if (Result.isError(updateResult)) {
+          return Result.error(updateResult.error);
+        }
+
+        appliedData = updateResult.value.toDTO();
+      } else if (request.resolution !== 'server') {
+        appliedData = request.resolution === 'merge'
+          ? { ...conflict.clientData, ...request.mergedData }
+          : conflict.clientData;
+
+        const type = conflict.operationType as SyncOperationType;
+        const processResult = await this.processSyncOperation.execute({
+          userId: userId.toString(),
+          deviceId: conflict.deviceId || undefined,
+          force: true,
+          operation: {
+            id: `resolve-${conflict.id}`,
+            type,
+            entity: conflict.entity,
+            operation: OPERATION_KINDS[type],
+            data: appliedData,
+            // Replayed at the original client time so it lands on the day it was made
+            clientTimestamp: conflict.clientTimestamp.toISOString(),
+            retryCount: 0
+          }
+        });
+
+        if (Result.isError(processResult)) {
+          return Result.error(processResult.error);
+        }
+
+        operationResult = processResult.value;
+      }
+
+      const resolvedResult = await this.syncRepo.markConflictResolved(
+        conflict.id,
+        userId,
+        request.resolution,
+        appliedData
+      );
+
+      if (Result.isError(resolvedResult)) {
+        return Result.error(resolvedResult.error);
+      }
+
+      return Result.ok({
+        conflictId: conflict.id,
+        resolution: request.resolution,
+        resolvedAt: resolvedResult.value.resolvedAt!.toISOString(),
+        appliedData,
+        ...(operationResult && { result: operationResult })
+      });
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
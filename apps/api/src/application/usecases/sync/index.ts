@@ -0,0 +1,20 @@
+export { ProcessSyncOperationUseCase } from './ProcessSyncOperationUseCase';
+export { ResolveSyncConflictUseCase } from './ResolveSyncConflictUseCase';
+export { GetSyncStatusUseCase } from './GetSyncStatusUseCase';
+export { GetSyncChangesUseCase, generateSyncToken, parseSyncToken } from './GetSyncChangesUseCase';
+export type {
+  SyncOperation,
+  SyncOperationType,
+  SyncConflict,
+  SyncOperationResult,
+  ProcessSyncOperationRequest
+} from './ProcessSyncOperationUseCase';
+export type { ResolveSyncConflictRequest, ResolveSyncConflictResponse } from './ResolveSyncConflictUseCase';
+export type { SyncStatus, SyncHealth, SyncDeviceStatus } from './GetSyncStatusUseCase';
+export type {
+  SyncChanges,
+  SyncEntityChanges,
+  SyncDeletion,
+  SyncChangeCollection,
+  GetSyncChangesRequest
+} from './GetSyncChangesUseCase';
@@ -0,0 +1,80 @@
+export type AchievementConditionType = 'streak' | 'habits_completed' | 'plans_completed' | 'consistency';
+
+/**
+ * Static achievement definition (seeded reference data)
+ */
+export class Achievement {
+  private constructor(
+    private readonly _id: string,
+    private readonly _title: string,
+    private readonly _description: string,
+    private readonly _icon: string,
+    private readonly _conditionType: AchievementConditionType,
+    private readonly _conditionTarget: number,
+    private readonly _khayrReward: number
+  ) {}
+
+  static create(params: {
+    id: string;
+    title: string;
+    description: string;
+    icon: string;
+    conditionType: AchievementConditionType;
+    conditionTarget: number;
+    khayrReward: number;
+  }): Achievement {
+    if (params.conditionTarget < 1) {
+      throw new Error('Achievement target must be at least 1');
+    }
+
+    return new Achievement(
+      params.id,
+      params.title,
+      params.description,
+      params.icon,
+      params.conditionType,
+      params.conditionTarget,
+      params.khayrReward
+    );
+  }
+
+  get id(): string {
+    return this._id;
+  }
+
+  get title(): string {
+    return this._title;
+  }
+
+  get description(): string {
+    return this._description;
+  }
+
+  get icon(): string {
+    return this._icon;
+  }
+
+  get conditionType(): AchievementConditionType {
+    return this._conditionType;
+  }
+
+  get conditionTarget(): number {
+    return this._conditionTarget;
+  }
+
+  get khayrReward(): number {
+    return this._khayrReward;
+  }
+
+  toDTO() {
+    return {
+      id: this._id,
+      title: this._title,
+      description: this._description,
+      icon: this._icon,
+      conditionType: this._conditionType,
+      conditionTarget: this._conditionTarget,
+      khayrReward: this._khayrReward
+    };
+  }
+}
@@ -1,37 +1,75 @@
 import { CheckinId } from '../value-objects/CheckinId';
 import { UserId } from '../value-objects/UserId';
 
+export const MAX_GRATITUDE_ITEMS = 3;
+
+export const CHECKIN_SESSIONS = ['morning', 'evening'] as const;
+export type CheckinSession = typeof CHECKIN_SESSIONS[number];
+
+// Morning sets the day's intention; the evening muhasabah reflects on how it went
+export const CHECKIN_PROMPTS: Record<CheckinSession, string[]> = {
+  morning: [
+    'What do I intend to do for the sake of Allah today?',
+    'Which habit will I guard most carefully today?',
+    'What might distract me from remembering Allah today?',
+    'Whom can I serve or bring happiness to today?'
+  ],
+  evening: [
+    'What am I most grateful for today?',
+    'How did I serve Allah today?',
+    'Did I fulfill my obligations with ihsan?',
+    'What lesson did Allah teach me today?',
+    'Did I remember Allah frequently?',
+    'How was my character with family and friends?'
+  ]
+};
+
 export class Checkin {
   private constructor(
     private readonly _id: CheckinId,
     private readonly _userId: UserId,
     private readonly _date: Date,
+    private readonly _session: CheckinSession,
     private _mood: number | null,
     private _intention: string | null,
     private _reflection: string | null,
+    private _gratitude: string[],
+    private _improvements: string | null,
     private readonly _createdAt: Date
   ) {
     if (_mood !== null && (_mood < -2 || _mood > 2)) {
       throw new Error('Mood must be between -2 and 2');
     }
+    if (!CHECKIN_SESSIONS.includes(_session)) {
+      throw new Error('Session must be morning or evening');
+    }
+    if (_gratitude.length > MAX_GRATITUDE_ITEMS) {
+      throw new Error(`At most ${MAX_GRATITUDE_ITEMS} gratitude items are allowed`);
+    }
   }
 
   static create(params: {
     id?: string;
     userId: string;
     date: Date;
+    session?: CheckinSession;
     mood?: number | null;
     intention?: string | null;
     reflection?: string | null;
+    gratitude?: string[] | null;
+    improvements?: string | null;
     createdAt?: Date;
   }): Checkin {
     return new Checkin(
       new CheckinId(params.id),
       new UserId(params.userId),
       params.date,
+      params.session || 'evening',
       params.mood || null,
       params.intention || null,
       params.reflection || null,
+      Checkin.cleanGratitude(params.gratitude || []),
+      params.improvements || null,
       params.createdAt || new Date()
     );
   }
@@ -48,6 +86,10 @@ export class Checkin {
     return this._date;
   }
 
+  get session(): CheckinSession {
+    return this._session;
+  }
+
   get mood(): number | null {
     return this._mood;
   }
@@ -60,6 +102,14 @@ export class Checkin {
     return this._reflection;
   }
 
+  get gratitude(): string[] {
+    return [...this._gratitude];
+  }
+
+  get improvements(): string | null {
+    return this._improvements;
+  }
+
   get createdAt(): Date {
     return this._createdAt;
   }
@@ -72,17 +122,34 @@ export class Checkin {
   }
 
   setIntention(intention: string): void {
+    this.requireSession('morning', 'The intention');
     this._intention = intention.trim() || null;
   }
 
   setReflection(reflection: string): void {
+    this.requireSession('evening', 'The reflection');
     this._reflection = reflection.trim() || null;
   }
 
+  setGratitude(items: string[]): void {
+    this.requireSession('evening', 'Gratitude');
+    const gratitude = Checkin.cleanGratitude(items);
+    if (gratitude.length > MAX_GRATITUDE_ITEMS) {
+      throw new Error(`At most ${MAX_GRATITUDE_ITEMS} gratitude items are allowed`);
+    }
+    this._gratitude = gratitude;
+  }
+
+  setImprovements(improvements: string): void {
+    this.requireSession('evening', 'Improvements');
+    this._improvements = improvements.trim() || null;
+  }
+
   isComplete(): boolean {
-    return this._mood !== null &&
-           this._intention !== null &&
-           this._reflection !== null;
+    if (this._session === 'morning') {
+      return this._mood !== null && this._intention !== null;
+    }
+    return this._mood !== null && this._reflection !== null;
   }
 
   toDTO() {
@@ -90,10 +157,23 @@ export class Checkin {
       id: this._id.toString(),
       userId: this._userId.toString(),
       date: this._date.toISOString().split('T')[0],
+      session: this._session,
       mood: this._mood,
       intention: this._intention,
       reflection: this._reflection,
+      gratitude: [...this._gratitude],
+      improvements: this._improvements,
       createdAt: this._createdAt.toISOString()
     };
   }
+
+  private requireSession(session: CheckinSession, field: string): void {
+    if (this._session !== session) {
+      throw new Error(`${field} belongs to the ${session} check-in`);
+    }
+  }
+
+  private static cleanGratitude(items: string[]): string[] {
+    return items.map(item => item.trim()).filter(Boolean);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,257 @@
+import { randomInt } from 'crypto';
+import { CircleId } from '../value-objects/CircleId';
+import { UserId } from '../value-objects/UserId';
+
+export type CircleStatus = 'active' | 'archived';
+
+export type CircleRole = 'creator' | 'member';
+
+export const MIN_CIRCLE_SIZE = 3;
+export const MAX_CIRCLE_SIZE = 7;
+
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no 0/O or 1/I
+const INVITE_CODE_LENGTH = 8;
+
+export interface CircleMember {
+  userId: UserId;
+  role: CircleRole;
+  displayName: string | null;
+  joinedAt: Date;
+}
+
+/**
+ * A small companionship circle. Members only ever see the circle as a whole:
+ * no per-member streaks or counts leave this aggregate, and anonymous circles
+ * hide who the members are.
+ */
+export class Circle {
+  private constructor(
+    private readonly _id: CircleId,
+    private _name: string,
+    private _description: string | null,
+    private readonly _creatorId: UserId,
+    private readonly _maxMembers: number,
+    private readonly _isAnonymous: boolean,
+    private _sharedGoal: string | null,
+    private readonly _inviteCode: string,
+    private _status: CircleStatus,
+    private _members: CircleMember[],
+    private readonly _createdAt: Date
+  ) {}
+
+  static create(params: {
+    id?: string;
+    name: string;
+    description?: string | null;
+    creatorId: string;
+    maxMembers?: number;
+    isAnonymous?: boolean;
+    sharedGoal?: string | null;
+    inviteCode?: string;
+    status?: CircleStatus;
+    members?: { userId: string; role: CircleRole; displayName?: string | null; joinedAt?: Date }[];
+    createdAt?: Date;
+  }): Circle {
+    const maxMembers = params.maxMembers ?? MAX_CIRCLE_SIZE;
+    if (!Number.isInteger(maxMembers) || maxMembers < MIN_CIRCLE_SIZE || maxMembers > MAX_CIRCLE_SIZE) {
+      throw new Error(`A circle must allow between ${MIN_CIRCLE_SIZE} and ${MAX_CIRCLE_SIZE} members`);
+    }
+
+    const members = params.members
+      ? params.members.map(member => ({
+          userId: new UserId(member.userId),
+          role: member.role,
+          displayName: member.displayName || null,
+          joinedAt: member.joinedAt || new Date()
+        }))
+      : [{ userId: new UserId(params.creatorId), role: 'creator' as const, displayName: null, joinedAt: new Date() }];
+
+    return new Circle(
+      new CircleId(params.id),
+      Circle.validateName(params.name),
+      Circle.validateText(params.description, 500, 'Description'),
+      new UserId(params.creatorId),
+      maxMembers,
+      params.isAnonymous || false,
+      Circle.validateText(params.sharedGoal, 200, 'Shared goal'),
+      params.inviteCode || Circle.generateInviteCode(),
+      params.status || 'active',
+      members,
+      params.createdAt || new Date()
+    );
+  }
+
+  static generateInviteCode(): string {
+    let code = '';
+    for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+      code += INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)];
+    }
+    return code;
+  }
+
+  private static validateName(name: string): string {
+    const trimmed = name.trim();
+    if (trimmed.length < 3 || trimmed.length > 100) {
+      throw new Error('Circle name must be between 3 and 100 characters');
+    }
+    return trimmed;
+  }
+
+  private static validateText(text: string | null | undefined, maxLength: number, label: string): string | null {
+    const trimmed = text?.trim();
+    if (!trimmed) {
+      return null;
+    }
+    if (trimmed.length > maxLength) {
+      throw new Error(`${label} must be ${maxLength} characters or less`);
+    }
+    return trimmed;
+  }
+
+  get id(): CircleId {
+    return this._id;
+  }
+
+  get name(): string {
+    return this._name;
+  }
+
+  get description(): string | null {
+    return this._description;
+  }
+
+  get creatorId(): UserId {
+    return this._creatorId;
+  }
+
+  get maxMembers(): number {
+    return this._maxMembers;
+  }
+
+  get isAnonymous(): boolean {
+    return this._isAnonymous;
+  }
+
+  get sharedGoal(): string | null {
+    return this._sharedGoal;
+  }
+
+  get inviteCode(): string {
+    return this._inviteCode;
+  }
+
+  get status(): CircleStatus {
+    return this._status;
+  }
+
+  get members(): CircleMember[] {
+    return [...this._members];
+  }
+
+  get memberCount(): number {
+    return this._members.length;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  isActive(): boolean {
+    return this._status === 'active';
+  }
+
+  isFull(): boolean {
+    return this._members.length >= this._maxMembers;
+  }
+
+  isMember(userId: UserId): boolean {
+    return this._members.some(member => member.userId.equals(userId));
+  }
+
+  isCreator(userId: UserId): boolean {
+    return this._creatorId.equals(userId);
+  }
+
+  getMember(userId: UserId): CircleMember | null {
+    return this._members.find(member => member.userId.equals(userId)) || null;
+  }
+
+  addMember(userId: UserId, displayName: string | null = null): CircleMember {
+    if (!this.isActive()) {
+      throw new Error('This circle has been archived');
+    }
+    if (this.isMember(userId)) {
+      throw new Error('You are already a member of this circle');
+    }
+    if (this.isFull()) {
+      throw new Error('This circle is full');
+    }
+
+    const member: CircleMember = { userId, role: 'member', displayName, joinedAt: new Date() };
+    this._members.push(member);
+    return member;
+  }
+
+  removeMember(userId: UserId): void {
+    if (!this.isMember(userId)) {
+      throw new Error('You are not a member of this circle');
+    }
+    if (this.isCreator(userId) && this._members.length > 1) {
+      throw new Error('The creator cannot leave while others remain; archive the circle instead');
+    }
+
+    this._members = this._members.filter(member => !member.userId.equals(userId));
+
+    // The last one out closes the circle
+    if (this._members.length === 0) {
+      this._status = 'archived';
+    }
+  }
+
+  rename(name: string): void {
+    this._name = Circle.validateName(name);
+  }
+
+  updateDescription(description: string | null): void {
+    this._description = Circle.validateText(description, 500, 'Description');
+  }
+
+  updateSharedGoal(sharedGoal: string | null): void {
+    this._sharedGoal = Circle.validateText(sharedGoal, 200, 'Shared goal');
+  }
+
+  archive(): void {
+    if (!this.isActive()) {
+      throw new Error('This circle has already been archived');
+    }
+    this._status = 'archived';
+  }
+
+  /**
+   * View of the circle for one of its members. Anonymous circles list no members.
+   */
+  toDTO(viewerId: UserId) {
+    return {
+      id: this._id.toString(),
+      name: this._name,
+      description: this._description,
+      sharedGoal: this._sharedGoal,
+      maxMembers: this._maxMembers,
+      memberCount: this._members.length,
+      isAnonymous: this._isAnonymous,
+      status: this._status,
+      inviteCode: this.isActive() ? this._inviteCode : null,
+      role: this.getMember(viewerId)?.role || null,
+      members: this._isAnonymous
+        ? []
+        : this._members.map(member => ({
+            userId: member.userId.toString(),
+            displayName: member.displayName,
+            role: member.role,
+            isYou: member.userId.equals(viewerId),
+            joinedAt: member.joinedAt.toISOString()
+          })),
+      createdAt: this._createdAt.toISOString()
+    };
+  }
+}
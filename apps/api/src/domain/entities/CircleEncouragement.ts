@@ -0,0 +1,94 @@
+import { CircleId } from '../value-objects/CircleId';
+import { UserId } from '../value-objects/UserId';
+import { Circle } from './Circle';
+
+export type CircleEncouragementType = 'dua' | 'encouragement' | 'reminder';
+
+export class CircleEncouragement {
+  private constructor(
+    private readonly _id: string | null,
+    private readonly _circleId: CircleId,
+    private readonly _fromUserId: UserId,
+    private readonly _toUserId: UserId | null,
+    private readonly _message: string,
+    private readonly _type: CircleEncouragementType,
+    private readonly _createdAt: Date
+  ) {}
+
+  static create(params: {
+    id?: string;
+    circleId: string;
+    fromUserId: string;
+    toUserId?: string | null;
+    message: string;
+    type: CircleEncouragementType;
+    createdAt?: Date;
+  }): CircleEncouragement {
+    const message = params.message.trim();
+    if (message.length === 0 || message.length > 300) {
+      throw new Error('Message must be between 1 and 300 characters');
+    }
+
+    if (params.toUserId && params.toUserId === params.fromUserId) {
+      throw new Error('You cannot send an encouragement to yourself');
+    }
+
+    return new CircleEncouragement(
+      params.id || null,
+      new CircleId(params.circleId),
+      new UserId(params.fromUserId),
+      params.toUserId ? new UserId(params.toUserId) : null,
+      message,
+      params.type,
+      params.createdAt || new Date()
+    );
+  }
+
+  get id(): string | null {
+    return this._id;
+  }
+
+  get circleId(): CircleId {
+    return this._circleId;
+  }
+
+  get fromUserId(): UserId {
+    return this._fromUserId;
+  }
+
+  get toUserId(): UserId | null {
+    return this._toUserId;
+  }
+
+  get message(): string {
+    return this._message;
+  }
+
+  get type(): CircleEncouragementType {
+    return this._type;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  /**
+   * View for a circle member; names are only shown in non-anonymous circles
+   */
+  toDTO(viewerId: UserId, circle: Circle) {
+    const nameOf = (userId: UserId | null) =>
+      userId && !circle.isAnonymous ? circle.getMember(userId)?.displayName || null : null;
+
+    return {
+      id: this._id,
+      message: this._message,
+      type: this._type,
+      from: nameOf(this._fromUserId),
+      to: nameOf(this._toUserId),
+      isFromYou: this._fromUserId.equals(viewerId),
+      isToYou: this._toUserId ? this._toUserId.equals(viewerId) : false,
+      isToCircle: this._toUserId === null,
+      createdAt: this._createdAt.toISOString()
+    };
+  }
+}
@@ -140,8 +140,12 @@ export class DhikrSession extends AggregateRoot {
     return Math.floor((this._sessionEnd.getTime() - this._sessionStart.getTime()) / 1000);
   }
 
-  incrementCount(increment: number = 1): void {
-    if (this.isCompleted) {
+  /**
+   * @param countedAt when the dhikr was counted - offline counts made before
+   * the session was completed elsewhere are still added
+   */
+  incrementCount(increment: number = 1, countedAt?: Date): void {
+    if (this.isCompleted && !(countedAt && countedAt <= this._sessionEnd!)) {
       throw new Error('Cannot increment count on completed session');
     }
 
@@ -2,11 +2,13 @@ import { HabitId } from '../value-objects/HabitId';
 import { UserId } from '../value-objects/UserId';
 import { PlanId } from '../value-objects/PlanId';
 import { AggregateRoot } from '../events/base/AggregateRoot';
+import { DEFAULT_TIMEZONE, toLocalDate } from '@/shared/timezone';
 import {
   HabitCreatedEvent,
   HabitCompletedEvent,
   HabitStreakBrokenEvent,
-  HabitMilestoneReachedEvent
+  HabitMilestoneReachedEvent,
+  HabitCompletionRevokedEvent
 } from '../events/HabitEvents';
 
 export interface HabitSchedule {
@@ -14,6 +16,29 @@ export interface HabitSchedule {
   days?: number[];
 }
 
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Day 0 (1970-01-01) was a Thursday
+const EPOCH_WEEKDAY = 4;
+
+const MILESTONES = [
+  { days: 7, type: 'week' as const },
+  { days: 30, type: 'month' as const },
+  { days: 90, type: 'quarter' as const },
+  { days: 365, type: 'year' as const }
+];
+
+/**
+ * Number of calendar days since the epoch for a date-only value (UTC midnight)
+ */
+function toDayNumber(date: Date): number {
+  return Math.floor(date.getTime() / MS_PER_DAY);
+}
+
+function weekdayOf(dayNumber: number): number {
+  return (((dayNumber + EPOCH_WEEKDAY) % 7) + 7) % 7;
+}
+
 export class Habit extends AggregateRoot {
   private constructor(
     private readonly _id: HabitId,
@@ -97,43 +122,82 @@ export class Habit extends AggregateRoot {
     return this._createdAt;
   }
 
-  markCompleted(date: Date = new Date()): void {
-    const today = new Date(date);
-    today.setHours(0, 0, 0, 0);
+  /**
+   * Whether the habit is due on the user's calendar day for the given instant.
+   * Weekly habits without explicit days are due once per week, on any day.
+   */
+  isScheduledOn(date: Date, timezone: string = DEFAULT_TIMEZONE): boolean {
+    return this.isScheduledDay(toDayNumber(toLocalDate(date, timezone)));
+  }
 
-    let isStreakMaintained = false;
-    const previousStreakCount = this._streakCount;
+  /**
+   * Scheduled slots between two calendar days (inclusive) and how many of them
+   * the given completion days filled. Off-schedule completions fill nothing.
+   */
+  slotCompletion(from: Date, to: Date, completionDates: Date[]): { scheduled: number; completed: number } {
+    const first = toDayNumber(from);
+    const last = toDayNumber(to);
+    if (last < first) {
+      return { scheduled: 0, completed: 0 };
+    }
+
+    const completedDays = new Set(
+      completionDates.map(toDayNumber).filter(day => day >= first && day <= last)
+    );
+    const weekdays = this.scheduledWeekdays();
+
+    if (weekdays === null) {
+      const completedWeeks = new Set([...completedDays].map(day => this.slotIndexAt(day)));
+      return { scheduled: this.slotIndexAt(last) - this.slotIndexAt(first) + 1, completed: completedWeeks.size };
+    }
 
-    if (this._lastCompletedOn) {
-      const lastDate = new Date(this._lastCompletedOn);
-      lastDate.setHours(0, 0, 0, 0);
-
-      const daysDiff = Math.floor((today.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24));
-
-      if (daysDiff === 0) {
-        throw new Error('Habit already completed today');
-      } else if (daysDiff === 1) {
-        this._streakCount++;
-        isStreakMaintained = true;
-      } else {
-        // Streak broken
-        if (previousStreakCount > 0) {
-          this.addDomainEvent(
-            new HabitStreakBrokenEvent(
-              this._id.toString(),
-              this._userId.toString(),
-              previousStreakCount,
-              daysDiff
-            )
-          );
+    let scheduled = 0;
+    let completed = 0;
+    for (let day = first; day <= last; day++) {
+      if (weekdays.includes(weekdayOf(day))) {
+        scheduled++;
+        if (completedDays.has(day)) {
+          completed++;
         }
-        this._streakCount = 1;
       }
-    } else {
-      this._streakCount = 1;
     }
 
-    this._lastCompletedOn = date;
+    return { scheduled, completed };
+  }
+
+  /**
+   * Records a completion on the user's calendar day for the given instant.
+   * A day before the last completion is inserted into `completionDates` and
+   * the streak is rebuilt from the combined history.
+   */
+  markCompleted(
+    date: Date = new Date(),
+    timezone: string = DEFAULT_TIMEZONE,
+    completionDates: Date[] = []
+  ): void {
+    const completedOn = toLocalDate(date, timezone);
+
+    if (this._lastCompletedOn && toDayNumber(completedOn) < toDayNumber(this._lastCompletedOn)) {
+      this.insertPastCompletion(date, completedOn, completionDates);
+      return;
+    }
+
+    const previousStreakCount = this._streakCount;
+    const { streakCount, isStreakMaintained, daysMissed, counted } = this.nextStreak(toDayNumber(completedOn));
+
+    if (daysMissed > 0 && previousStreakCount > 0) {
+      this.addDomainEvent(
+        new HabitStreakBrokenEvent(
+          this._id.toString(),
+          this._userId.toString(),
+          previousStreakCount,
+          daysMissed
+        )
+      );
+    }
+
+    this._streakCount = streakCount;
+    this._lastCompletedOn = completedOn;
 
     // Emit completion event
     this.addDomainEvent(
@@ -142,33 +206,55 @@ export class Habit extends AggregateRoot {
         this._userId.toString(),
         date,
         this._streakCount,
-        isStreakMaintained
+        isStreakMaintained,
+        completedOn.toISOString().split('T')[0]
       )
     );
 
-    // Check for milestones
-    this.checkMilestones();
+    // Completions that don't fill a scheduled slot can't reach a milestone
+    if (counted) {
+      this.checkMilestones(completedOn);
+    }
   }
 
-  markIncomplete(date: Date = new Date()): void {
-    const today = new Date(date);
-    today.setHours(0, 0, 0, 0);
-
+  /**
+   * Revokes the completion on the user's calendar day for the given instant.
+   * The streak is rebuilt from the completion history, so the day being
+   * revoked may still be part of `completionDates`. Returns false when the
+   * habit was not completed on that day.
+   */
+  markIncomplete(
+    date: Date = new Date(),
+    timezone: string = DEFAULT_TIMEZONE,
+    completionDates: Date[] = []
+  ): boolean {
     if (!this._lastCompletedOn) {
       throw new Error('Habit was not completed');
     }
 
-    const lastDate = new Date(this._lastCompletedOn);
-    lastDate.setHours(0, 0, 0, 0);
+    const revokedOn = toLocalDate(date, timezone);
+    const revokedDay = toDayNumber(revokedOn);
+    const history = [...completionDates, this._lastCompletedOn];
 
-    if (today.getTime() === lastDate.getTime()) {
-      if (this._streakCount > 0) {
-        this._streakCount--;
-      }
-
-      // Find previous completion date logic would go here
-      this._lastCompletedOn = null;
+    if (!history.some(completion => toDayNumber(completion) === revokedDay)) {
+      return false;
     }
+
+    const previousStreakCount = this._streakCount;
+    this.recalculateStreak(history.filter(completion => toDayNumber(completion) !== revokedDay));
+
+    this.addDomainEvent(
+      new HabitCompletionRevokedEvent(
+        this._id.toString(),
+        this._userId.toString(),
+        revokedOn.toISOString().split('T')[0],
+        previousStreakCount,
+        this._streakCount,
+        this.lastCompletedOn?.toISOString().split('T')[0] ?? null
+      )
+    );
+
+    return true;
   }
 
   resetStreak(): void {
@@ -176,22 +262,147 @@ export class Habit extends AggregateRoot {
     this._lastCompletedOn = null;
   }
 
-  private checkMilestones(): void {
-    const milestones = [
-      { days: 7, type: 'week' as const },
-      { days: 30, type: 'month' as const },
-      { days: 90, type: 'quarter' as const },
-      { days: 365, type: 'year' as const }
-    ];
+  /**
+   * Replays the completion history to derive the streak, without emitting
+   * events. Completion dates are calendar days at UTC midnight.
+   */
+  recalculateStreak(completionDates: Date[]): void {
+    this.resetStreak();
+
+    const seenDays = new Set<number>();
+    const sorted = [...completionDates].sort((a, b) => a.getTime() - b.getTime());
+
+    for (const date of sorted) {
+      const day = toDayNumber(date);
+      if (seenDays.has(day)) {
+        continue;
+      }
+      seenDays.add(day);
+
+      this._streakCount = this.nextStreak(day).streakCount;
+      this._lastCompletedOn = date;
+    }
+  }
+
+  /**
+   * Back-fills a day before the last completion. The streak can only grow,
+   * e.g. when the missing day bridges two runs.
+   */
+  private insertPastCompletion(date: Date, completedOn: Date, completionDates: Date[]): void {
+    const completedDay = toDayNumber(completedOn);
+    if (completionDates.some(completion => toDayNumber(completion) === completedDay)) {
+      throw new Error('Habit already completed on this day');
+    }
+
+    const previousStreakCount = this._streakCount;
+    this.recalculateStreak([...completionDates, this._lastCompletedOn!, completedOn]);
+
+    this.addDomainEvent(
+      new HabitCompletedEvent(
+        this._id.toString(),
+        this._userId.toString(),
+        date,
+        this._streakCount,
+        this._streakCount > previousStreakCount,
+        completedOn.toISOString().split('T')[0]
+      )
+    );
+
+    // The run now ends on the last completion, so that is where a milestone lands
+    if (this._streakCount > previousStreakCount) {
+      this.checkMilestones(this._lastCompletedOn!);
+    }
+  }
+
+  /**
+   * Weekdays (0 = Sunday) the habit is due on, or null when it is due once
+   * per week on any day
+   */
+  private scheduledWeekdays(): number[] | null {
+    if (this._schedule.freq !== 'daily' && this._schedule.days && this._schedule.days.length > 0) {
+      return [...new Set(this._schedule.days)];
+    }
+
+    return this._schedule.freq === 'weekly' ? null : [0, 1, 2, 3, 4, 5, 6];
+  }
+
+  private isScheduledDay(dayNumber: number): boolean {
+    const weekdays = this.scheduledWeekdays();
+    return weekdays === null || weekdays.includes(weekdayOf(dayNumber));
+  }
+
+  /**
+   * Index of the first scheduled slot on or after the given day. A slot is a
+   * scheduled day, or a whole week for habits due once per week.
+   */
+  private slotIndexAt(dayNumber: number): number {
+    const weekdays = this.scheduledWeekdays();
+    if (weekdays === null) {
+      // Weeks start on Sunday
+      return Math.floor((dayNumber + EPOCH_WEEKDAY) / 7);
+    }
+
+    const fullWeeks = Math.floor(dayNumber / 7);
+    let index = fullWeeks * weekdays.length;
+    for (let day = fullWeeks * 7; day < dayNumber; day++) {
+      if (weekdays.includes(weekdayOf(day))) {
+        index++;
+      }
+    }
+
+    return index;
+  }
+
+  private nextStreak(today: number): {
+    streakCount: number;
+    isStreakMaintained: boolean;
+    daysMissed: number;
+    counted: boolean;
+  } {
+    const scheduledToday = this.isScheduledDay(today);
+
+    if (!this._lastCompletedOn) {
+      return { streakCount: scheduledToday ? 1 : 0, isStreakMaintained: false, daysMissed: 0, counted: scheduledToday };
+    }
+
+    const lastDay = toDayNumber(this._lastCompletedOn);
+    if (today === lastDay) {
+      throw new Error('Habit already completed today');
+    }
+
+    // Off-schedule completions don't fill a slot, so the next one is still due
+    const nextDueSlot = this.slotIndexAt(lastDay) + (this.isScheduledDay(lastDay) ? 1 : 0);
+    const daysMissed = this.slotIndexAt(today) - nextDueSlot;
+
+    if (daysMissed > 0) {
+      return { streakCount: scheduledToday ? 1 : 0, isStreakMaintained: false, daysMissed, counted: scheduledToday };
+    }
+
+    // A weekly slot that was already filled earlier in the same week
+    const counted = scheduledToday && daysMissed === 0;
+
+    return {
+      streakCount: this._streakCount + (counted ? 1 : 0),
+      isStreakMaintained: true,
+      daysMissed: 0,
+      counted
+    };
+  }
+
+  private checkMilestones(reachedOn: Date): void {
+    // Milestones span calendar periods, so scale them to how often the habit is due
+    const weekdays = this.scheduledWeekdays();
+    const slotsPerWeek = weekdays === null ? 1 : weekdays.length;
 
-    for (const milestone of milestones) {
-      if (this._streakCount === milestone.days) {
+    for (const milestone of MILESTONES) {
+      if (this._streakCount === Math.max(1, Math.round((milestone.days * slotsPerWeek) / 7))) {
         this.addDomainEvent(
           new HabitMilestoneReachedEvent(
             this._id.toString(),
             this._userId.toString(),
             milestone.type,
-            this._streakCount
+            this._streakCount,
+            reachedOn.toISOString().split('T')[0]
           )
         );
       }
@@ -0,0 +1,170 @@
+import { NotificationId } from '../value-objects/NotificationId';
+import { UserId } from '../value-objects/UserId';
+
+export type NotificationType = 'prayer' | 'fajr_reminder' | 'daily_reminder' | 'habit_streak' | 'intention';
+
+export type NotificationStatus = 'pending' | 'sent' | 'failed' | 'expired';
+
+export const MAX_DELIVERY_ATTEMPTS = 3;
+
+// A reminder delivered this long after it was due is no longer useful (e.g. a prayer time)
+export const NOTIFICATION_EXPIRY_MINUTES = 60;
+
+export class Notification {
+  private constructor(
+    private readonly _id: NotificationId,
+    private readonly _userId: UserId,
+    private readonly _type: NotificationType,
+    private readonly _title: string,
+    private readonly _body: string,
+    private readonly _data: Record<string, unknown>,
+    private readonly _dedupeKey: string,
+    private readonly _scheduledFor: Date,
+    private _status: NotificationStatus,
+    private _attempts: number,
+    private _channel: string | null,
+    private _lastError: string | null,
+    private _sentAt: Date | null,
+    private readonly _createdAt: Date
+  ) {}
+
+  static create(params: {
+    id?: string;
+    userId: string;
+    type: NotificationType;
+    title: string;
+    body: string;
+    data?: Record<string, unknown>;
+    dedupeKey: string;
+    scheduledFor: Date;
+    status?: NotificationStatus;
+    attempts?: number;
+    channel?: string | null;
+    lastError?: string | null;
+    sentAt?: Date | null;
+    createdAt?: Date;
+  }): Notification {
+    return new Notification(
+      new NotificationId(params.id),
+      new UserId(params.userId),
+      params.type,
+      params.title,
+      params.body,
+      params.data || {},
+      params.dedupeKey,
+      params.scheduledFor,
+      params.status || 'pending',
+      params.attempts || 0,
+      params.channel || null,
+      params.lastError || null,
+      params.sentAt || null,
+      params.createdAt || new Date()
+    );
+  }
+
+  get id(): NotificationId {
+    return this._id;
+  }
+
+  get userId(): UserId {
+    return this._userId;
+  }
+
+  get type(): NotificationType {
+    return this._type;
+  }
+
+  get title(): string {
+    return this._title;
+  }
+
+  get body(): string {
+    return this._body;
+  }
+
+  get data(): Record<string, unknown> {
+    return { ...this._data };
+  }
+
+  /**
+   * Identifies the reminder within the user's queue (e.g. `prayer:fajr:2024-03-01`),
+   * so planning the same reminder again never queues it twice
+   */
+  get dedupeKey(): string {
+    return this._dedupeKey;
+  }
+
+  get scheduledFor(): Date {
+    return this._scheduledFor;
+  }
+
+  get status(): NotificationStatus {
+    return this._status;
+  }
+
+  get attempts(): number {
+    return this._attempts;
+  }
+
+  get channel(): string | null {
+    return this._channel;
+  }
+
+  get lastError(): string | null {
+    return this._lastError;
+  }
+
+  get sentAt(): Date | null {
+    return this._sentAt;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  isDue(now: Date = new Date()): boolean {
+    return this._status === 'pending' && this._scheduledFor <= now;
+  }
+
+  isExpired(now: Date = new Date()): boolean {
+    return now.getTime() - this._scheduledFor.getTime() > NOTIFICATION_EXPIRY_MINUTES * 60 * 1000;
+  }
+
+  markSent(channel: string, sentAt: Date = new Date()): void {
+    this._status = 'sent';
+    this._attempts += 1;
+    this._channel = channel;
+    this._lastError = null;
+    this._sentAt = sentAt;
+  }
+
+  /**
+   * Stays pending for another attempt until the attempts run out
+   */
+  markFailed(error: string): void {
+    this._attempts += 1;
+    this._lastError = error;
+    this._status = this._attempts >= MAX_DELIVERY_ATTEMPTS ? 'failed' : 'pending';
+  }
+
+  markExpired(): void {
+    this._status = 'expired';
+  }
+
+  toDTO() {
+    return {
+      id: this._id.toString(),
+      type: this._type,
+      title: this._title,
+      body: this._body,
+      data: this._data,
+      scheduledFor: this._scheduledFor.toISOString(),
+      status: this._status,
+      attempts: this._attempts,
+      channel: this._channel,
+      lastError: this._lastError,
+      sentAt: this._sentAt?.toISOString() ?? null,
+      createdAt: this._createdAt.toISOString()
+    };
+  }
+}
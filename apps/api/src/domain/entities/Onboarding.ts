@@ -1,3 +1,5 @@
+import { CalculationMethodType } from '../value-objects/CalculationMethod';
+
 export type OnboardingStep =
   | 'welcome'
   | 'language'
@@ -104,7 +106,7 @@ export interface OnboardingCollectedData {
     city?: string;
     country?: string;
   };
-  prayerCalculationMethod?: 'ISNA' | 'MWL' | 'Egypt' | 'Makkah' | 'Karachi' | 'Tehran' | 'Jafari';
+  prayerCalculationMethod?: CalculationMethodType;
   notificationSettings?: {
     fajrReminder?: boolean;
     dailyReminder?: boolean;
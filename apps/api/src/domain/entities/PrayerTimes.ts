@@ -98,6 +98,22 @@ export class PrayerTimes {
     return !this.isValid();
   }
 
+  /**
+   * Same prayer times as seen by another user, whose Hijri adjustment and language may differ
+   */
+  forUser(userId: string, hijriDate: string): PrayerTimes {
+    return new PrayerTimes(
+      this._id,
+      new UserId(userId),
+      this._location,
+      this._calculationMethod,
+      this._prayerTimes,
+      hijriDate,
+      this._createdAt,
+      this._validUntil
+    );
+  }
+
   getPrayerTimesList(): PrayerTime[] {
     return [
       {
@@ -192,6 +208,7 @@ export class PrayerTimes {
         timezone: this._location.timezone
       },
       calculationMethod: this._calculationMethod.method,
+      calculationSettings: this._calculationMethod.settings,
       date: this._prayerTimes.date.toISOString(),
       prayerTimes: {
         fajr: {
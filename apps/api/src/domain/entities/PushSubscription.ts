@@ -0,0 +1,88 @@
+import { PushSubscriptionId } from '../value-objects/PushSubscriptionId';
+import { UserId } from '../value-objects/UserId';
+
+export interface PushSubscriptionKeys {
+  p256dh: string;
+  auth: string;
+}
+
+/**
+ * A browser's Web Push endpoint for one of the user's devices
+ */
+export class PushSubscription {
+  private constructor(
+    private readonly _id: PushSubscriptionId,
+    private readonly _userId: UserId,
+    private readonly _endpoint: string,
+    private readonly _keys: PushSubscriptionKeys,
+    private readonly _deviceId: string | null,
+    private readonly _userAgent: string | null,
+    private readonly _createdAt: Date
+  ) {}
+
+  static create(params: {
+    id?: string;
+    userId: string;
+    endpoint: string;
+    keys: PushSubscriptionKeys;
+    deviceId?: string | null;
+    userAgent?: string | null;
+    createdAt?: Date;
+  }): PushSubscription {
+    if (!/^https:\/\//.test(params.endpoint)) {
+      throw new Error('Push endpoint must be an https URL');
+    }
+
+    if (!params.keys.p256dh || !params.keys.auth) {
+      throw new Error('Push subscription keys are required');
+    }
+
+    return new PushSubscription(
+      new PushSubscriptionId(params.id),
+      new UserId(params.userId),
+      params.endpoint,
+      { ...params.keys },
+      params.deviceId || null,
+      params.userAgent || null,
+      params.createdAt || new Date()
+    );
+  }
+
+  get id(): PushSubscriptionId {
+    return this._id;
+  }
+
+  get userId(): UserId {
+    return this._userId;
+  }
+
+  get endpoint(): string {
+    return this._endpoint;
+  }
+
+  get keys(): PushSubscriptionKeys {
+    return { ...this._keys };
+  }
+
+  get deviceId(): string | null {
+    return this._deviceId;
+  }
+
+  get userAgent(): string | null {
+    return this._userAgent;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  toDTO() {
+    return {
+      id: this._id.toString(),
+      endpoint: this._endpoint,
+      deviceId: this._deviceId,
+      userAgent: this._userAgent,
+      createdAt: this._createdAt.toISOString()
+    };
+  }
+}
@@ -3,17 +3,19 @@ import { UserId } from '../value-objects/UserId';
 export class SurveyProgress {
   private constructor(
     private readonly _userId: UserId,
+    private _attemptNumber: number,
     private _currentPhase: number,
     private _phase1Completed: boolean,
     private _phase2Completed: boolean,
     private _reflectionCompleted: boolean,
     private _resultsGenerated: boolean,
-    private readonly _startedAt: Date,
+    private _startedAt: Date,
     private _lastUpdated: Date
   ) {}
 
   static create(params: {
     userId: string;
+    attemptNumber?: number;
     currentPhase?: number;
     phase1Completed?: boolean;
     phase2Completed?: boolean;
@@ -28,8 +30,14 @@ export class SurveyProgress {
       throw new Error('Current phase must be between 0 and 4');
     }
 
+    const attemptNumber = params.attemptNumber ?? 1;
+    if (!Number.isInteger(attemptNumber) || attemptNumber < 1) {
+      throw new Error('Attempt number must be a positive integer');
+    }
+
     return new SurveyProgress(
       new UserId(params.userId),
+      attemptNumber,
       currentPhase,
       params.phase1Completed ?? false,
       params.phase2Completed ?? false,
@@ -52,6 +60,10 @@ export class SurveyProgress {
     return this._userId;
   }
 
+  get attemptNumber(): number {
+    return this._attemptNumber;
+  }
+
   get currentPhase(): number {
     return this._currentPhase;
   }
@@ -179,6 +191,19 @@ export class SurveyProgress {
     return 4; // Survey completed
   }
 
+  /**
+   * Starts the survey over as a new attempt. Earlier results are kept, so the
+   * new scores can be compared against them.
+   */
+  startRetake(): void {
+    if (!this._resultsGenerated) {
+      throw new Error('The current survey must be completed before starting a retake');
+    }
+    this.reset();
+    this._attemptNumber++;
+    this._startedAt = new Date();
+  }
+
   reset(): void {
     this._currentPhase = 0;
     this._phase1Completed = false;
@@ -191,6 +216,7 @@ export class SurveyProgress {
   toDTO() {
     return {
       userId: this._userId.toString(),
+      attemptNumber: this._attemptNumber,
       currentPhase: this._currentPhase,
       phase1Completed: this._phase1Completed,
       phase2Completed: this._phase2Completed,
@@ -0,0 +1,121 @@
+import { QuestionResponse, LikertScore } from '../value-objects/QuestionResponse';
+import { Disease, DISEASES } from './SurveyResult';
+
+export type SurveyQuestionPhase = 1 | 2;
+
+export interface LocalizedText {
+  en: string;
+  ar?: string;
+}
+
+export interface SurveyQuestion {
+  id: string;
+  questionId: string; // stored on survey responses, answered as `${questionId}Score` and `${questionId}Note`
+  disease: Disease;
+  phase: SurveyQuestionPhase;
+  category: 'inner' | 'behavioral';
+  order: number;
+  title: LocalizedText;
+  prompt: LocalizedText;
+}
+
+/**
+ * One version of the phase 1 and 2 questions. A disease can be asked about
+ * more than once; its score is the rounded mean of its answers.
+ */
+export class SurveyQuestionBank {
+  private constructor(
+    private readonly _version: number,
+    private readonly _questions: SurveyQuestion[]
+  ) {}
+
+  static create(params: {
+    version: number;
+    questions: SurveyQuestion[];
+  }): SurveyQuestionBank {
+    if (!Number.isInteger(params.version) || params.version < 1) {
+      throw new Error('Question bank version must be a positive integer');
+    }
+
+    const questionIds = new Set<string>();
+    for (const question of params.questions) {
+      if (questionIds.has(question.questionId)) {
+        throw new Error(`Question ${question.questionId} appears more than once in bank ${params.version}`);
+      }
+      questionIds.add(question.questionId);
+    }
+
+    const missing = DISEASES.filter(disease => !params.questions.some(question => question.disease === disease));
+    if (missing.length > 0) {
+      throw new Error(`Question bank ${params.version} has no questions for: ${missing.join(', ')}`);
+    }
+
+    const questions = [...params.questions].sort((a, b) => a.phase - b.phase || a.order - b.order);
+    return new SurveyQuestionBank(params.version, questions);
+  }
+
+  get version(): number {
+    return this._version;
+  }
+
+  get questions(): SurveyQuestion[] {
+    return [...this._questions];
+  }
+
+  questionsForPhase(phase: SurveyQuestionPhase): SurveyQuestion[] {
+    return this._questions.filter(question => question.phase === phase);
+  }
+
+  /**
+   * Reads a phase body keyed by `${questionId}Score` / `${questionId}Note`.
+   * Throws when a question of the phase has no score.
+   */
+  toQuestionResponses(phase: SurveyQuestionPhase, data: Record<string, unknown>): QuestionResponse[] {
+    return this.questionsForPhase(phase).map(question => {
+      const score = data[`${question.questionId}Score`];
+      if (typeof score !== 'number') {
+        throw new Error(`Missing score for question ${question.questionId}`);
+      }
+
+      const note = data[`${question.questionId}Note`];
+      return new QuestionResponse(
+        question.questionId,
+        score as LikertScore,
+        typeof note === 'string' ? note : undefined
+      );
+    });
+  }
+
+  /**
+   * Averages the answers to each disease's questions. Answers to questions
+   * outside this bank are ignored and unanswered diseases score 1.
+   */
+  scoreDiseases(responses: Array<{ questionId: string; score: number }>): Record<Disease, LikertScore> {
+    const diseaseByQuestion = new Map(this._questions.map(question => [question.questionId, question.disease]));
+    const answers = new Map<Disease, number[]>();
+
+    for (const response of responses) {
+      const disease = diseaseByQuestion.get(response.questionId);
+      if (disease && response.score >= 1 && response.score <= 5) {
+        answers.set(disease, [...(answers.get(disease) ?? []), response.score]);
+      }
+    }
+
+    const scores = {} as Record<Disease, LikertScore>;
+    for (const disease of DISEASES) {
+      const scored = answers.get(disease);
+      scores[disease] = scored
+        ? Math.round(scored.reduce((sum, score) => sum + score, 0) / scored.length) as LikertScore
+        : 1;
+    }
+
+    return scores;
+  }
+
+  toDTO() {
+    return {
+      version: this._version,
+      questions: this.questions
+    };
+  }
+}
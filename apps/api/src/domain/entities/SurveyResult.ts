@@ -4,6 +4,11 @@ import { UserId } from '../value-objects/UserId';
 export type Disease = 'envy' | 'arrogance' | 'selfDeception' | 'lust' | 'anger' | 'malice' | 'backbiting' | 'suspicion' | 'loveOfDunya' | 'laziness' | 'despair';
 export type LikertScore = 1 | 2 | 3 | 4 | 5;
 
+export const DISEASES: Disease[] = [
+  'envy', 'arrogance', 'selfDeception', 'lust', 'anger', 'malice',
+  'backbiting', 'suspicion', 'loveOfDunya', 'laziness', 'despair'
+];
+
 export interface DiseaseScore {
   disease: Disease;
   score: LikertScore;
@@ -73,6 +78,7 @@ export class SurveyResult {
   private constructor(
     private readonly _id: SurveyResultId,
     private readonly _userId: UserId,
+    private readonly _attemptNumber: number,
     private readonly _diseaseScores: Map<Disease, LikertScore>,
     private readonly _criticalDiseases: Disease[],
     private readonly _reflectionAnswers: ReflectionAnswer,
@@ -86,6 +92,7 @@ export class SurveyResult {
   static create(params: {
     id?: string;
     userId: string;
+    attemptNumber?: number;
     diseaseScores: Record<Disease, LikertScore>;
     reflectionAnswers: ReflectionAnswer;
     personalizedHabits: PersonalizedHabit[];
@@ -94,6 +101,11 @@ export class SurveyResult {
     generatedAt?: Date;
     updatedAt?: Date;
   }): SurveyResult {
+    const attemptNumber = params.attemptNumber ?? 1;
+    if (!Number.isInteger(attemptNumber) || attemptNumber < 1) {
+      throw new Error('Attempt number must be a positive integer');
+    }
+
     // Validate reflection answers
     if (!params.reflectionAnswers.strongestStruggle || params.reflectionAnswers.strongestStruggle.length < 10) {
       throw new Error('Strongest struggle must be at least 10 characters');
@@ -122,6 +134,7 @@ export class SurveyResult {
     return new SurveyResult(
       new SurveyResultId(params.id),
       new UserId(params.userId),
+      attemptNumber,
       diseaseScoreMap,
       criticalDiseases,
       params.reflectionAnswers,
@@ -141,6 +154,11 @@ export class SurveyResult {
     return this._userId;
   }
 
+  /** 1 for the first survey, incremented by each retake */
+  get attemptNumber(): number {
+    return this._attemptNumber;
+  }
+
   get diseaseScores(): Map<Disease, LikertScore> {
     return new Map(this._diseaseScores);
   }
@@ -218,6 +236,7 @@ export class SurveyResult {
     return {
       id: this._id.toString(),
       userId: this._userId.toString(),
+      attemptNumber: this._attemptNumber,
       diseaseScores: diseaseScoresObject,
       categorizedDiseases: this.getCategorizedDiseases(),
       criticalDiseases: this._criticalDiseases,
@@ -1,5 +1,8 @@
+import { CalculationMethodType, CalculationSettings } from '../value-objects/CalculationMethod';
+
 export type Language = 'en' | 'ar' | 'ur';
-export type PrayerCalculationMethod = 'ISNA' | 'MWL' | 'Egypt' | 'Makkah' | 'Karachi' | 'Tehran' | 'Jafari';
+// Same vocabulary as prayer times, so the saved method can drive /prayer-times directly
+export type PrayerCalculationMethod = CalculationMethodType;
 
 export interface Location {
   lat: number;
@@ -28,6 +31,22 @@ export interface DisplaySettings {
   showArabicWithTranslation?: boolean;
 }
 
+export interface HabitSettings {
+  completionGraceDays?: number; // how many past days a habit can still be ticked off
+}
+
+export const DEFAULT_COMPLETION_GRACE_DAYS = 1;
+export const MAX_COMPLETION_GRACE_DAYS = 7;
+
+export interface CalendarSettings {
+  hijriAdjustment?: number; // days added to the Umm al-Qura date to match local moon sighting
+}
+
+export const MAX_HIJRI_ADJUSTMENT = 2;
+
+// Asr madhab, high-latitude rule and per-prayer minute offsets used for prayer times
+export type PrayerSettings = CalculationSettings;
+
 export interface UserPreferences {
   userId: string;
   language: Language;
@@ -36,6 +55,9 @@ export interface UserPreferences {
   notificationSettings: NotificationSettings;
   privacySettings: PrivacySettings;
   displaySettings: DisplaySettings;
+  habitSettings: HabitSettings;
+  calendarSettings: CalendarSettings;
+  prayerSettings: PrayerSettings;
   updatedAt: Date;
   createdAt: Date;
 }
@@ -45,12 +67,15 @@ export class UserPreferencesEntity implements UserPreferences {
     public userId: string,
     public language: Language = 'en',
     public location: Location | undefined = undefined,
-    public prayerCalculationMethod: PrayerCalculationMethod = 'ISNA',
+    public prayerCalculationMethod: PrayerCalculationMethod = 'MuslimWorldLeague',
     public notificationSettings: NotificationSettings = {},
     public privacySettings: PrivacySettings = {},
     public displaySettings: DisplaySettings = {},
     public updatedAt: Date = new Date(),
-    public createdAt: Date = new Date()
+    public createdAt: Date = new Date(),
+    public habitSettings: HabitSettings = {},
+    public calendarSettings: CalendarSettings = {},
+    public prayerSettings: PrayerSettings = {}
   ) {}
 
   static createDefault(userId: string): UserPreferencesEntity {
@@ -58,7 +83,7 @@ export class UserPreferencesEntity implements UserPreferences {
       userId,
       'en',
       undefined,
-      'ISNA',
+      'MuslimWorldLeague',
       {
         fajrReminder: true,
         dailyReminder: true,
@@ -74,6 +99,17 @@ export class UserPreferencesEntity implements UserPreferences {
         theme: 'light',
         fontSize: 'medium',
         showArabicWithTranslation: true,
+      },
+      new Date(),
+      new Date(),
+      {
+        completionGraceDays: DEFAULT_COMPLETION_GRACE_DAYS,
+      },
+      {
+        hijriAdjustment: 0,
+      },
+      {
+        asrMadhab: 'Shafi',
       }
     );
   }
@@ -108,6 +144,35 @@ export class UserPreferencesEntity implements UserPreferences {
     this.updatedAt = new Date();
   }
 
+  updateHabitSettings(settings: Partial<HabitSettings>): void {
+    this.habitSettings = { ...this.habitSettings, ...settings };
+    this.updatedAt = new Date();
+  }
+
+  updateCalendarSettings(settings: Partial<CalendarSettings>): void {
+    this.calendarSettings = { ...this.calendarSettings, ...settings };
+    this.updatedAt = new Date();
+  }
+
+  updatePrayerSettings(settings: Partial<PrayerSettings>): void {
+    this.prayerSettings = { ...this.prayerSettings, ...settings };
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Number of days before today a habit completion may be logged or undone
+   */
+  get completionGraceDays(): number {
+    return this.habitSettings.completionGraceDays ?? DEFAULT_COMPLETION_GRACE_DAYS;
+  }
+
+  /**
+   * Days to shift the Umm al-Qura Hijri date by, between -2 and +2
+   */
+  get hijriAdjustment(): number {
+    return this.calendarSettings.hijriAdjustment ?? 0;
+  }
+
   toJSON(): UserPreferences {
     return {
       userId: this.userId,
@@ -117,6 +182,9 @@ export class UserPreferencesEntity implements UserPreferences {
       notificationSettings: this.notificationSettings,
       privacySettings: this.privacySettings,
       displaySettings: this.displaySettings,
+      habitSettings: this.habitSettings,
+      calendarSettings: this.calendarSettings,
+      prayerSettings: this.prayerSettings,
       updatedAt: this.updatedAt,
       createdAt: this.createdAt,
     };
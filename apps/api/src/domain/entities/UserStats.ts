@@ -0,0 +1,182 @@
+import { UserId } from '../value-objects/UserId';
+import { Achievement } from './Achievement';
+import { addDays } from '@/shared/timezone';
+
+export const KHAYR_POINTS_PER_COMPLETION = 10;
+export const KHAYR_POINTS_PER_LEVEL = 250;
+
+/**
+ * Gamification totals for a user: khayr points, level and unlocked achievements.
+ *
+ * `currentStreak` is the run of consecutive days with at least one habit completion
+ * (what `consistency` achievements measure); `longestStreak` is the best streak any
+ * single habit has reached (what `streak` achievements measure).
+ */
+export class UserStats {
+  private constructor(
+    private readonly _userId: UserId,
+    private _totalKhayrPoints: number,
+    private _currentStreak: number,
+    private _longestStreak: number,
+    private _habitsCompleted: number,
+    private _plansCompleted: number,
+    private _achievements: string[],
+    private _lastActiveOn: string | null,
+    private _lastUpdated: Date
+  ) {}
+
+  static create(params: {
+    userId: string;
+    totalKhayrPoints?: number;
+    currentStreak?: number;
+    longestStreak?: number;
+    habitsCompleted?: number;
+    plansCompleted?: number;
+    achievements?: string[];
+    lastActiveOn?: string | null;
+    lastUpdated?: Date;
+  }): UserStats {
+    return new UserStats(
+      new UserId(params.userId),
+      params.totalKhayrPoints || 0,
+      params.currentStreak || 0,
+      params.longestStreak || 0,
+      params.habitsCompleted || 0,
+      params.plansCompleted || 0,
+      params.achievements || [],
+      params.lastActiveOn || null,
+      params.lastUpdated || new Date()
+    );
+  }
+
+  get userId(): UserId {
+    return this._userId;
+  }
+
+  get totalKhayrPoints(): number {
+    return this._totalKhayrPoints;
+  }
+
+  get level(): number {
+    return Math.floor(this._totalKhayrPoints / KHAYR_POINTS_PER_LEVEL) + 1;
+  }
+
+  get currentStreak(): number {
+    return this._currentStreak;
+  }
+
+  get longestStreak(): number {
+    return this._longestStreak;
+  }
+
+  get habitsCompleted(): number {
+    return this._habitsCompleted;
+  }
+
+  get plansCompleted(): number {
+    return this._plansCompleted;
+  }
+
+  get achievements(): string[] {
+    return [...this._achievements];
+  }
+
+  get lastActiveOn(): string | null {
+    return this._lastActiveOn;
+  }
+
+  get lastUpdated(): Date {
+    return this._lastUpdated;
+  }
+
+  /**
+   * Awards points for a completion on `completedOn` (YYYY-MM-DD) and extends the daily run.
+   * Back-dated completions earn points but leave the run alone.
+   */
+  recordHabitCompletion(completedOn: string, habitStreak: number): void {
+    this._totalKhayrPoints += KHAYR_POINTS_PER_COMPLETION;
+    this._habitsCompleted += 1;
+
+    if (!this._lastActiveOn || completedOn > this._lastActiveOn) {
+      this._currentStreak = this._lastActiveOn && addDays(this._lastActiveOn, 1) === completedOn
+        ? this._currentStreak + 1
+        : 1;
+      this._lastActiveOn = completedOn;
+    }
+
+    this.recordHabitStreak(habitStreak);
+  }
+
+  /**
+   * Takes back the points of an undone completion. Unlocked achievements are kept.
+   */
+  revokeHabitCompletion(): void {
+    this._totalKhayrPoints = Math.max(0, this._totalKhayrPoints - KHAYR_POINTS_PER_COMPLETION);
+    this._habitsCompleted = Math.max(0, this._habitsCompleted - 1);
+    this._lastUpdated = new Date();
+  }
+
+  recordPlanCompletion(): void {
+    this._plansCompleted += 1;
+    this._lastUpdated = new Date();
+  }
+
+  recordHabitStreak(streak: number): void {
+    this._longestStreak = Math.max(this._longestStreak, streak);
+    this._lastUpdated = new Date();
+  }
+
+  hasUnlocked(achievement: Achievement): boolean {
+    return this._achievements.includes(achievement.id);
+  }
+
+  progressTowards(achievement: Achievement): number {
+    switch (achievement.conditionType) {
+      case 'streak':
+        return this._longestStreak;
+      case 'consistency':
+        return this._currentStreak;
+      case 'habits_completed':
+        return this._habitsCompleted;
+      case 'plans_completed':
+        return this._plansCompleted;
+    }
+  }
+
+  /**
+   * Unlocks every achievement whose condition is now met and adds its reward.
+   * Returns the newly unlocked achievements.
+   */
+  unlockEarned(achievements: Achievement[]): Achievement[] {
+    const unlocked = achievements.filter(achievement =>
+      !this.hasUnlocked(achievement) &&
+      this.progressTowards(achievement) >= achievement.conditionTarget
+    );
+
+    for (const achievement of unlocked) {
+      this._achievements.push(achievement.id);
+      this._totalKhayrPoints += achievement.khayrReward;
+    }
+
+    if (unlocked.length > 0) {
+      this._lastUpdated = new Date();
+    }
+
+    return unlocked;
+  }
+
+  toDTO() {
+    return {
+      userId: this._userId.toString(),
+      totalKhayrPoints: this._totalKhayrPoints,
+      level: this.level,
+      currentStreak: this._currentStreak,
+      longestStreak: this._longestStreak,
+      habitsCompleted: this._habitsCompleted,
+      plansCompleted: this._plansCompleted,
+      achievements: [...this._achievements],
+      lastActiveOn: this._lastActiveOn,
+      lastUpdated: this._lastUpdated.toISOString()
+    };
+  }
+}
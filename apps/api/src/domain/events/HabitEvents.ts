@@ -41,7 +41,8 @@ export class HabitCompletedEvent extends DomainEvent {
     public readonly userId: string,
     public readonly completionDate: Date,
     public readonly newStreakCount: number,
-    public readonly isStreakMaintained: boolean
+    public readonly isStreakMaintained: boolean,
+    public readonly completedOn: string = completionDate.toISOString().split('T')[0] // user's calendar day
   ) {
     super({
       aggregateId: habitId,
@@ -64,7 +65,8 @@ export class HabitCompletedEvent extends DomainEvent {
       userId: this.userId,
       completionDate: this.completionDate.toISOString(),
       newStreakCount: this.newStreakCount,
-      isStreakMaintained: this.isStreakMaintained
+      isStreakMaintained: this.isStreakMaintained,
+      completedOn: this.completedOn
     };
   }
 }
@@ -106,7 +108,8 @@ export class HabitMilestoneReachedEvent extends DomainEvent {
     public readonly habitId: string,
     public readonly userId: string,
     public readonly milestoneType: 'week' | 'month' | 'quarter' | 'year',
-    public readonly streakCount: number
+    public readonly streakCount: number,
+    public readonly reachedOn: string = new Date().toISOString().split('T')[0] // user's calendar day
   ) {
     super({
       aggregateId: habitId,
@@ -128,7 +131,43 @@ export class HabitMilestoneReachedEvent extends DomainEvent {
       habitId: this.habitId,
       userId: this.userId,
       milestoneType: this.milestoneType,
-      streakCount: this.streakCount
+      streakCount: this.streakCount,
+      reachedOn: this.reachedOn
     };
   }
-}
\ No newline at end of file
+}
+export class HabitCompletionRevokedEvent extends DomainEvent {
+  constructor(
+    public readonly habitId: string,
+    public readonly userId: string,
+    public readonly revokedOn: string, // user's calendar day
+    public readonly previousStreakCount: number,
+    public readonly newStreakCount: number,
+    public readonly lastCompletedOn: string | null // restored from the completion history
+  ) {
+    super({
+      aggregateId: habitId,
+      aggregateType: 'Habit',
+      userId
+    });
+  }
+
+  get eventName(): string {
+    return 'HabitCompletionRevoked';
+  }
+
+  get eventVersion(): string {
+    return '1.0';
+  }
+
+  public getPayload() {
+    return {
+      habitId: this.habitId,
+      userId: this.userId,
+      revokedOn: this.revokedOn,
+      previousStreakCount: this.previousStreakCount,
+      newStreakCount: this.newStreakCount,
+      lastCompletedOn: this.lastCompletedOn
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import { DomainEvent } from './base/DomainEvent';
+
+/**
+ * A plan counts as completed when the user archives it while it is active.
+ * Deleting a plan archives it too, but does not complete it.
+ */
+export class PlanCompletedEvent extends DomainEvent {
+  constructor(
+    public readonly planId: string,
+    public readonly userId: string
+  ) {
+    super({
+      aggregateId: planId,
+      aggregateType: 'Plan',
+      userId
+    });
+  }
+
+  get eventName(): string {
+    return 'PlanCompleted';
+  }
+
+  get eventVersion(): string {
+    return '1.0';
+  }
+
+  public getPayload() {
+    return {
+      planId: this.planId,
+      userId: this.userId
+    };
+  }
+}
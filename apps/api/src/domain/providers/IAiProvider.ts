@@ -1,13 +1,19 @@
 import { MicroHabit } from '../entities/MicroHabit';
+import { Citation } from '../services/ICitationGuardrail';
 
 export interface AiSuggestion {
   microHabits: MicroHabit[];
   tags: string[];
+  snippetIds?: string[]; // library snippets the provider drew on
+  citations?: Citation[]; // set once the snippet ids have been verified
 }
 
 export interface AiExplanation {
   guidance: string;
   refs?: string[];
+  snippetIds?: string[]; // library snippets the provider drew on
+  citations?: Citation[]; // set once the references have been verified
+  unverifiedRefs?: string[];
 }
 
 export interface IAiProvider {
@@ -0,0 +1,26 @@
+export type ProgressArea =
+  | 'habit_completion'
+  | 'consistency'
+  | 'streak_breaks'
+  | 'declining_trend'
+  | 'mood'
+  | 'dhikr';
+
+export interface WeakArea {
+  area: ProgressArea;
+  severity: number; // 0 (fine) to 1 (needs the most attention)
+  habits?: string[]; // titles of the habits behind the weakness, when it is habit-specific
+}
+
+export interface ProgressRecommendation {
+  area: ProgressArea;
+  action: string;
+  guidance: string;
+}
+
+export interface IProgressRecommender {
+  /**
+   * Recommendations for the given weak areas, most severe first
+   */
+  recommend(areas: WeakArea[]): Promise<ProgressRecommendation[]>;
+}
@@ -0,0 +1,11 @@
+import { Result } from '@/shared/result';
+import { Achievement } from '../entities/Achievement';
+import { UserStats } from '../entities/UserStats';
+import { UserId } from '../value-objects/UserId';
+
+export interface IAchievementRepository {
+  findAll(): Promise<Result<Achievement[]>>;
+  /** Returns empty stats when the user has none stored yet */
+  getUserStats(userId: UserId): Promise<Result<UserStats>>;
+  saveUserStats(stats: UserStats): Promise<Result<UserStats>>;
+}
@@ -0,0 +1,28 @@
+import { Result } from '@/shared/result';
+import { Circle, CircleMember } from '../entities/Circle';
+import { CircleEncouragement } from '../entities/CircleEncouragement';
+import { CircleId } from '../value-objects/CircleId';
+import { UserId } from '../value-objects/UserId';
+
+/** Completions logged by the circle's members over a day range, summed across the circle */
+export interface CircleProgress {
+  completions: number;
+  activeMembers: number;
+}
+
+export interface ICircleRepository {
+  create(circle: Circle): Promise<Result<Circle>>;
+  findById(id: CircleId): Promise<Result<Circle | null>>;
+  findByInviteCode(inviteCode: string): Promise<Result<Circle | null>>;
+  findByUserId(userId: UserId): Promise<Result<Circle[]>>;
+  update(circle: Circle): Promise<Result<Circle>>;
+  addMember(circleId: CircleId, member: CircleMember): Promise<Result<void>>;
+  removeMember(circleId: CircleId, userId: UserId): Promise<Result<void>>;
+  createEncouragement(encouragement: CircleEncouragement): Promise<Result<CircleEncouragement>>;
+  findEncouragements(
+    circleId: CircleId,
+    pagination?: { limit?: number; offset?: number }
+  ): Promise<Result<CircleEncouragement[]>>;
+  /** Days are YYYY-MM-DD, inclusive */
+  getProgress(circleId: CircleId, from: string, to: string): Promise<Result<CircleProgress>>;
+}
@@ -8,9 +8,17 @@ export interface ContentFilter {
   offset?: number;
 }
 
+export interface ContentTranslation {
+  contentId: string;
+  locale: 'en' | 'ar';
+  text: string;
+  ref: string | null;
+}
+
 export interface IContentRepository {
   findByTags(tags: string[]): Promise<Result<ContentSnippet[]>>;
   findById(id: string): Promise<Result<ContentSnippet | null>>;
   findAll(): Promise<Result<ContentSnippet[]>>;
   findWithFilter(filter: ContentFilter): Promise<Result<ContentSnippet[]>>;
+  findTranslations(contentIds: string[], locale: 'en' | 'ar'): Promise<Result<ContentTranslation[]>>;
 }
\ No newline at end of file
@@ -57,6 +57,14 @@ export interface IDhikrRepository {
     filters?: DhikrSessionFilters
   ): Promise<Result<number, Error>>;
   deleteDhikrSession(id: DhikrSessionId, userId: UserId): Promise<Result<void, Error>>;
+  /**
+   * Add to the stored count in place, so increments from several devices add up
+   */
+  incrementSessionCount(
+    id: DhikrSessionId,
+    userId: UserId,
+    increment: number
+  ): Promise<Result<DhikrSession, Error>>;
 
   // Type operations
   saveDhikrType(dhikrType: DhikrType): Promise<Result<DhikrType, Error>>;
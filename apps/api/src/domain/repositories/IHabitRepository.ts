@@ -9,8 +9,10 @@ export interface IHabitRepository {
   findById(id: HabitId): Promise<Result<Habit | null>>;
   findByUserId(userId: UserId): Promise<Result<Habit[]>>;
   findByPlanId(planId: PlanId): Promise<Result<Habit[]>>;
+  findAll(): Promise<Result<Habit[]>>;
   updateStreak(habit: Habit): Promise<Result<Habit>>;
   createCompletion(habitId: HabitId, userId: UserId, date: Date): Promise<Result<void>>;
   deleteCompletion(habitId: HabitId, userId: UserId, date: Date): Promise<Result<void>>;
   findCompletionByDate(habitId: HabitId, userId: UserId, date: Date): Promise<Result<boolean>>;
+  findCompletionDates(habitId: HabitId): Promise<Result<Date[]>>;
 }
\ No newline at end of file
@@ -3,10 +3,35 @@ import { JournalEntry } from '../entities/JournalEntry';
 import { UserId } from '../value-objects/UserId';
 import { JournalId } from '../value-objects/JournalId';
 
+export type JournalSearchSort = 'relevance' | 'createdAt' | 'content';
+
+export interface JournalSearchQuery {
+  text?: string;
+  tags?: string[];
+  from?: Date;
+  to?: Date; // exclusive
+  page: number;
+  limit: number;
+  sortBy?: JournalSearchSort; // relevance when there is text to match, otherwise createdAt
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface JournalSearchHit {
+  entry: JournalEntry;
+  rank: number;
+  highlight: string | null; // HTML-escaped excerpt with matches wrapped in <mark>
+}
+
+export interface JournalSearchResult {
+  hits: JournalSearchHit[];
+  total: number;
+}
+
 export interface IJournalRepository {
   create(entry: JournalEntry): Promise<Result<JournalEntry>>;
   findById(id: JournalId): Promise<Result<JournalEntry | null>>;
   findByUserId(userId: UserId, search?: string): Promise<Result<JournalEntry[]>>;
+  search(userId: UserId, query: JournalSearchQuery): Promise<Result<JournalSearchResult>>;
   update(entry: JournalEntry): Promise<Result<JournalEntry>>;
   delete(id: JournalId, userId: UserId): Promise<Result<void>>;
-}
\ No newline at end of file
+}
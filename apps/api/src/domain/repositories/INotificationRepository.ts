@@ -0,0 +1,20 @@
+import { Result } from '@/shared/result';
+import { Notification, NotificationStatus } from '../entities/Notification';
+import { UserId } from '../value-objects/UserId';
+
+export interface NotificationFilters {
+  status?: NotificationStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export interface INotificationRepository {
+  /** Queues notifications, skipping any whose dedupe key the user already has; resolves to the number queued */
+  enqueue(notifications: Notification[]): Promise<Result<number>>;
+  /** Pending notifications scheduled at or before the given instant, oldest first */
+  findDue(before: Date, limit: number): Promise<Result<Notification[]>>;
+  findByUserId(userId: UserId, filters?: NotificationFilters): Promise<Result<Notification[]>>;
+  updateDelivery(notification: Notification): Promise<Result<void>>;
+  /** Users with notification settings or intention reminders, i.e. everyone who may have reminders to plan */
+  findUserIdsWithReminders(): Promise<Result<string[]>>;
+}
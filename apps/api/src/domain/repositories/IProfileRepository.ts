@@ -0,0 +1,10 @@
+import { Result } from '@/shared/result';
+import { UserId } from '../value-objects/UserId';
+
+export interface IProfileRepository {
+  /**
+   * IANA timezone from the user's profile, falling back to UTC when the
+   * profile is missing or the stored value is not a known zone
+   */
+  getTimezone(userId: UserId): Promise<Result<string>>;
+}
@@ -0,0 +1,13 @@
+import { Result } from '@/shared/result';
+import { PushSubscription } from '../entities/PushSubscription';
+import { UserId } from '../value-objects/UserId';
+
+export interface IPushSubscriptionRepository {
+  /** Stores the subscription, replacing any earlier one for the same endpoint (a browser re-subscribing or a new user on the device) */
+  save(subscription: PushSubscription): Promise<Result<PushSubscription>>;
+  findByUserId(userId: UserId): Promise<Result<PushSubscription[]>>;
+  /** Resolves to false when the user had no subscription for the endpoint */
+  delete(userId: UserId, endpoint: string): Promise<Result<boolean>>;
+  /** Drops an endpoint the push service reported as gone, whoever it belonged to */
+  deleteByEndpoint(endpoint: string): Promise<Result<void>>;
+}
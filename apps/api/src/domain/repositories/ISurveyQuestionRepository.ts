@@ -0,0 +1,8 @@
+import { Result } from '../../shared/result';
+import { SurveyQuestionBank } from '../entities/SurveyQuestionBank';
+
+export interface ISurveyQuestionRepository {
+  /** The bank phase answers are validated and scored against */
+  getActiveBank(): Promise<Result<SurveyQuestionBank>>;
+  getBank(version: number): Promise<Result<SurveyQuestionBank | null>>;
+}
@@ -17,9 +17,10 @@ export interface ISurveyRepository {
 
   // Survey Results
   saveSurveyResult(result: SurveyResult): Promise<Result<SurveyResult>>;
-  getSurveyResult(userId: UserId): Promise<Result<SurveyResult | null>>;
+  getSurveyResult(userId: UserId): Promise<Result<SurveyResult | null>>; // latest attempt
+  getSurveyResultHistory(userId: UserId): Promise<Result<SurveyResult[]>>; // oldest attempt first
   getSurveyResultById(id: SurveyResultId): Promise<Result<SurveyResult | null>>;
-  updateSurveyResult(result: SurveyResult): Promise<Result<SurveyResult>>;
+  updateSurveyResult(result: SurveyResult): Promise<Result<SurveyResult>>; // latest attempt
   deleteSurveyResult(userId: UserId): Promise<Result<void>>;
 
   // Survey Progress
@@ -0,0 +1,154 @@
+import { Result } from '@/shared/result';
+import { UserId } from '../value-objects/UserId';
+
+export type SyncEntity = 'habit' | 'journal' | 'checkin' | 'intention' | 'dhikr' | 'plan';
+
+export type SyncOperationStatus = 'applied' | 'conflict';
+
+export interface SyncOperationRecord {
+  operationId: string;
+  userId: string;
+  deviceId: string | null;
+  type: string;
+  entity: SyncEntity;
+  entityId: string | null;
+  status: SyncOperationStatus;
+  result: Record<string, any>;
+  clientTimestamp: Date;
+  processedAt: Date;
+}
+
+export type SyncConflictType = 'timestamp' | 'version' | 'data';
+
+export type SyncResolution = 'client' | 'server' | 'merge';
+
+export interface SyncConflictRecord {
+  id: string;
+  userId: string;
+  deviceId: string | null;
+  operationId: string;
+  operationType: string;
+  entity: SyncEntity;
+  entityId: string | null;
+  conflictType: SyncConflictType;
+  clientData: Record<string, any>;
+  serverData: Record<string, any>;
+  clientTimestamp: Date;
+  serverTimestamp: Date;
+  resolution: SyncResolution | null;
+  resolvedData: Record<string, any> | null;
+  createdAt: Date;
+  resolvedAt: Date | null;
+}
+
+export interface SyncDeviceRecord {
+  deviceId: string;
+  lastAttemptAt: Date;
+  lastSuccessfulSyncAt: Date | null;
+  lastErrorCount: number;
+}
+
+export type SyncChangeEntity = Exclude<SyncEntity, 'plan'>;
+
+/**
+ * Last row of a page in a stream ordered by change time, then id
+ */
+export interface SyncPosition {
+  changedAt: Date;
+  id: string;
+}
+
+/**
+ * Page of a delta pull - changes after `since` (all changes when null) up to `until`,
+ * continuing after the `after` position (from the first change when null)
+ */
+export interface SyncChangeWindow {
+  since: Date | null;
+  until: Date;
+  limit: number;
+  after: SyncPosition | null;
+}
+
+export interface SyncChangeRecord {
+  entity: SyncChangeEntity;
+  entityId: string;
+  data: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SyncTombstoneRecord {
+  id: string;
+  entity: SyncChangeEntity;
+  entityId: string;
+  deletedAt: Date;
+}
+
+export interface ISyncRepository {
+  /**
+   * Record the outcome of an offline operation so a retried batch replays it
+   */
+  recordOperation(record: Omit<SyncOperationRecord, 'processedAt'>): Promise<Result<SyncOperationRecord>>;
+
+  /**
+   * Find a previously processed operation by its client-generated id
+   */
+  findOperation(userId: UserId, operationId: string): Promise<Result<SyncOperationRecord | null>>;
+
+  /**
+   * Find the most recent applied operation that touched an entity
+   */
+  findLatestAppliedForEntity(
+    userId: UserId,
+    entity: SyncEntity,
+    entityId: string
+  ): Promise<Result<SyncOperationRecord | null>>;
+
+  /**
+   * Persist a conflict until the user picks a resolution
+   */
+  saveConflict(
+    conflict: Omit<SyncConflictRecord, 'resolution' | 'resolvedData' | 'createdAt' | 'resolvedAt'>
+  ): Promise<Result<SyncConflictRecord>>;
+
+  findConflictById(id: string, userId: UserId): Promise<Result<SyncConflictRecord | null>>;
+
+  findPendingConflicts(userId: UserId, deviceId?: string): Promise<Result<SyncConflictRecord[]>>;
+
+  markConflictResolved(
+    id: string,
+    userId: UserId,
+    resolution: SyncResolution,
+    resolvedData?: Record<string, any> | null
+  ): Promise<Result<SyncConflictRecord>>;
+
+  /**
+   * Record a batch sync attempt for a device; successful attempts also move lastSuccessfulSyncAt
+   */
+  recordDeviceSync(
+    userId: UserId,
+    deviceId: string,
+    attempt: { attemptedAt: Date; successful: boolean; errorCount: number }
+  ): Promise<Result<SyncDeviceRecord>>;
+
+  findDevices(userId: UserId): Promise<Result<SyncDeviceRecord[]>>;
+
+  /**
+   * Find entities of one type created or updated within the window, oldest change first
+   */
+  findChanges(
+    userId: UserId,
+    entity: SyncChangeEntity,
+    window: SyncChangeWindow
+  ): Promise<Result<SyncChangeRecord[]>>;
+
+  /**
+   * Find entities deleted within the window, oldest deletion first
+   */
+  findTombstones(userId: UserId, window: SyncChangeWindow): Promise<Result<SyncTombstoneRecord[]>>;
+
+  /**
+   * Find when an entity was last changed on the server, or null if it does not exist
+   */
+  findEntityUpdatedAt(userId: UserId, entity: SyncChangeEntity, entityId: string): Promise<Result<Date | null>>;
+}
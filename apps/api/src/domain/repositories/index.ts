@@ -4,4 +4,10 @@ export * from './IJournalRepository';
 export * from './ICheckinRepository';
 export * from './IContentRepository';
 export * from './IPrayerTimesRepository';
-export * from './IIntentionRepository';
\ No newline at end of file
+export * from './IIntentionRepository';
+export * from './ISyncRepository';
+export * from './IProfileRepository';
+export * from './IAchievementRepository';
+export * from './ICircleRepository';
+export * from './INotificationRepository';
+export * from './IPushSubscriptionRepository';
@@ -0,0 +1,37 @@
+import { ContentSnippet, ContentType } from '@sakinah/types';
+import { Result } from '@/shared/result';
+
+/**
+ * A reference in AI output that resolved to a snippet in the content library
+ */
+export interface Citation {
+  snippetId: string;
+  type: ContentType;
+  ref: string;
+  text: string;
+}
+
+export interface CitationCheck {
+  citations: Citation[];
+  unverified: string[]; // references that matched no library snippet, so were dropped
+}
+
+export interface SnippetCheck {
+  verified: Map<string, ContentSnippet>; // checked snippet id -> its library version
+  unverified: string[];
+}
+
+/**
+ * Checks that Quran and hadith references in AI output exist in the curated content library
+ */
+export interface ICitationGuardrail {
+  /**
+   * Resolves free-text references ("Quran 2:286", "Sahih Muslim 2564") and snippet ids
+   */
+  verifyRefs(refs: string[], snippetIds?: string[]): Promise<Result<CitationCheck>>;
+
+  /**
+   * Keeps only snippets that are in the library, by id or by reference
+   */
+  verifySnippets(snippets: ContentSnippet[]): Promise<Result<SnippetCheck>>;
+}
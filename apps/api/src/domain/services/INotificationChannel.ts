@@ -0,0 +1,11 @@
+import { Result } from '@/shared/result';
+import { Notification } from '../entities/Notification';
+
+/**
+ * A way of delivering notifications to users (log, web push, ...). Every channel
+ * registered under 'INotificationChannel' is tried for each due notification.
+ */
+export interface INotificationChannel {
+  readonly name: string;
+  deliver(notification: Notification): Promise<Result<void>>;
+}
@@ -1,34 +1,102 @@
-export type CalculationMethodType =
-  | 'MuslimWorldLeague'
-  | 'Egyptian'
-  | 'Karachi'
-  | 'UmmAlQura'
-  | 'Dubai'
-  | 'MoonsightingCommittee'
-  | 'NorthAmerica'
-  | 'Kuwait'
-  | 'Qatar'
-  | 'Singapore'
-  | 'Tehran'
-  | 'Turkey';
+export const CALCULATION_METHODS = [
+  'MuslimWorldLeague',
+  'Egyptian',
+  'Karachi',
+  'UmmAlQura',
+  'Dubai',
+  'MoonsightingCommittee',
+  'NorthAmerica',
+  'Kuwait',
+  'Qatar',
+  'Singapore',
+  'Tehran',
+  'Turkey',
+  'Jafari'
+] as const;
+
+export type CalculationMethodType = typeof CALCULATION_METHODS[number];
+
+export type AsrMadhab = 'Shafi' | 'Hanafi';
+
+export type HighLatitudeRule = 'MiddleOfTheNight' | 'SeventhOfTheNight' | 'TwilightAngle';
+
+export type AdjustablePrayer = 'fajr' | 'sunrise' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
+
+/**
+ * Minutes added to each calculated time, as local masjids publish them
+ */
+export type PrayerAdjustments = Partial<Record<AdjustablePrayer, number>>;
+
+export interface CalculationSettings {
+  asrMadhab?: AsrMadhab;
+  highLatitudeRule?: HighLatitudeRule; // unset: chosen from the location's latitude
+  adjustments?: PrayerAdjustments;
+}
+
+export const ADJUSTABLE_PRAYERS: AdjustablePrayer[] = ['fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'isha'];
+export const MAX_PRAYER_ADJUSTMENT_MINUTES = 60;
 
 export class CalculationMethod {
-  private constructor(private readonly _method: CalculationMethodType) {}
+  private constructor(
+    private readonly _method: CalculationMethodType,
+    private readonly _asrMadhab: AsrMadhab,
+    private readonly _highLatitudeRule: HighLatitudeRule | undefined,
+    private readonly _adjustments: PrayerAdjustments
+  ) {}
+
+  static create(method: CalculationMethodType, settings: CalculationSettings = {}): CalculationMethod {
+    const adjustments: PrayerAdjustments = {};
+    for (const prayer of ADJUSTABLE_PRAYERS) {
+      const minutes = settings.adjustments?.[prayer];
+      if (minutes === undefined || minutes === 0) continue;
+
+      if (!Number.isInteger(minutes) || Math.abs(minutes) > MAX_PRAYER_ADJUSTMENT_MINUTES) {
+        throw new Error(`${prayer} adjustment must be a whole number of minutes between -${MAX_PRAYER_ADJUSTMENT_MINUTES} and ${MAX_PRAYER_ADJUSTMENT_MINUTES}`);
+      }
+      adjustments[prayer] = minutes;
+    }
 
-  static create(method: CalculationMethodType): CalculationMethod {
-    return new CalculationMethod(method);
+    return new CalculationMethod(method, settings.asrMadhab ?? 'Shafi', settings.highLatitudeRule, adjustments);
   }
 
   static getDefault(): CalculationMethod {
-    return new CalculationMethod('MuslimWorldLeague');
+    return CalculationMethod.create('MuslimWorldLeague');
   }
 
   get method(): CalculationMethodType {
     return this._method;
   }
 
+  get asrMadhab(): AsrMadhab {
+    return this._asrMadhab;
+  }
+
+  get highLatitudeRule(): HighLatitudeRule | undefined {
+    return this._highLatitudeRule;
+  }
+
+  get adjustments(): PrayerAdjustments {
+    return { ...this._adjustments };
+  }
+
+  get settings(): CalculationSettings {
+    return {
+      asrMadhab: this._asrMadhab,
+      highLatitudeRule: this._highLatitudeRule,
+      adjustments: this.adjustments
+    };
+  }
+
+  /**
+   * Stable identifier of everything that affects the calculated times
+   */
+  get key(): string {
+    const adjustments = ADJUSTABLE_PRAYERS.map(prayer => this._adjustments[prayer] ?? 0).join(',');
+    return `${this._method}:${this._asrMadhab}:${this._highLatitudeRule ?? 'auto'}:${adjustments}`;
+  }
+
   equals(other: CalculationMethod): boolean {
-    return this._method === other._method;
+    return this.key === other.key;
   }
 
   toString(): string {
@@ -36,23 +104,14 @@ export class CalculationMethod {
   }
 
   static getAvailableMethods(): CalculationMethodType[] {
-    return [
-      'MuslimWorldLeague',
-      'Egyptian',
-      'Karachi',
-      'UmmAlQura',
-      'Dubai',
-      'MoonsightingCommittee',
-      'NorthAmerica',
-      'Kuwait',
-      'Qatar',
-      'Singapore',
-      'Tehran',
-      'Turkey'
-    ];
+    return [...CALCULATION_METHODS];
   }
 
   static isValidMethod(method: string): method is CalculationMethodType {
     return CalculationMethod.getAvailableMethods().includes(method as CalculationMethodType);
   }
+
+  static getHighLatitudeRules(): HighLatitudeRule[] {
+    return ['MiddleOfTheNight', 'SeventhOfTheNight', 'TwilightAngle'];
+  }
 }
\ No newline at end of file
@@ -0,0 +1,7 @@
+import { BaseId } from './BaseId';
+
+export class CircleId extends BaseId {
+  constructor(value?: string) {
+    super(value);
+  }
+}
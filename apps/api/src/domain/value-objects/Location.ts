@@ -3,6 +3,12 @@ export interface LocationCoordinates {
   longitude: number;
 }
 
+/**
+ * Beyond this latitude twilight can last all night in summer, so Fajr and Isha
+ * need a high-latitude rule
+ */
+export const HIGH_LATITUDE_THRESHOLD = 48;
+
 export class Location {
   private constructor(
     private readonly _latitude: number,
@@ -57,6 +63,10 @@ export class Location {
     return this._timezone;
   }
 
+  get isHighLatitude(): boolean {
+    return Math.abs(this._latitude) > HIGH_LATITUDE_THRESHOLD;
+  }
+
   get coordinates(): LocationCoordinates {
     return {
       latitude: this._latitude,
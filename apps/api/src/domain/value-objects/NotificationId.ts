@@ -0,0 +1,7 @@
+import { BaseId } from './BaseId';
+
+export class NotificationId extends BaseId {
+  constructor(value?: string) {
+    super(value);
+  }
+}
@@ -0,0 +1,7 @@
+import { BaseId } from './BaseId';
+
+export class PushSubscriptionId extends BaseId {
+  constructor(value?: string) {
+    super(value);
+  }
+}
@@ -11,7 +11,8 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
-import { configureDependencies } from './infrastructure/di/container';
+import { configureDependencies, container } from './infrastructure/di/container';
+import { NotificationScheduler } from './infrastructure/notifications/NotificationScheduler';
 import { createApp } from './server';
 import { logger } from './shared/logger';
 
@@ -29,6 +30,10 @@ const PORT = process.env.PORT || 3001;
     app.listen(PORT, () => {
       logger.info(`API server running on port ${PORT}`);
       logger.info(`Redis caching enabled with fallback to memory cache`);
+
+      if (process.env.NOTIFICATIONS_ENABLED !== 'false') {
+        container.resolve<NotificationScheduler>('NotificationScheduler').start();
+      }
     });
   } catch (error) {
     logger.error('Failed to start server:', error);
@@ -0,0 +1,164 @@
+import { injectable, inject } from 'tsyringe';
+import { ContentSnippet } from '@sakinah/types';
+import { IContentRepository } from '@/domain/repositories/IContentRepository';
+import { Citation, CitationCheck, ICitationGuardrail, SnippetCheck } from '@/domain/services/ICitationGuardrail';
+import { Result } from '@/shared/result';
+
+export type ParsedReference =
+  | { kind: 'ayah'; surah: number; fromAyah: number; toAyah: number }
+  | { kind: 'hadith'; collection: string; number: number };
+
+// Spellings seen in references -> canonical collection name
+const HADITH_COLLECTIONS: [RegExp, string][] = [
+  [/\bbukh[aā]r[iī]\b/, 'bukhari'],
+  [/\bmuslim\b/, 'muslim'],
+  [/\bab[uiū]\s*d[aā]w[uo]{1,2}d\b/, 'abu-dawud'],
+  [/\btirmidh[iī]\b/, 'tirmidhi'],
+  [/\bnas[aā]'?[iī]\b/, 'nasai'],
+  [/\bibn\s*m[aā]jah\b/, 'ibn-majah'],
+  [/\b(?:musnad\s+)?ahmad\b/, 'ahmad'],
+  [/\bmuwatt?a'?\b|\bimam\s+m[aā]lik\b/, 'malik'],
+  [/\bd[aā]rim[iī]\b/, 'darimi'],
+  [/\bnawaw[iī]\b/, 'nawawi'],
+  [/\briy[aā]d\s*(?:as|us)?-?\s*s[aā]lih[iī]n\b/, 'riyad-as-salihin']
+];
+
+const SURAH_COUNT = 114;
+
+/**
+ * Reads a Quran ("Quran 2:286", "Surah Ash-Sharh 94:5-6") or hadith ("Sahih al-Bukhari 6114")
+ * reference. Returns null for anything without a precise location, such as "Bukhari & Muslim".
+ */
+export function parseReference(ref: string): ParsedReference | null {
+  const normalized = ref.toLowerCase().replace(/[’‘`]/g, "'");
+
+  const collection = HADITH_COLLECTIONS.find(([pattern]) => pattern.test(normalized));
+  if (collection) {
+    // "Bukhari & Muslim" and similar agreed-upon references name no single hadith
+    const others = HADITH_COLLECTIONS.filter(([pattern]) => pattern !== collection[0] && pattern.test(normalized));
+    // "Book 78, Hadith 6114" names the hadith last
+    const number = normalized.match(/(?:hadith|no\.?|#)\s*(\d+)/) ?? normalized.match(/(\d+)(?!.*\d)/);
+    if (others.length > 0 || !number) {
+      return null;
+    }
+    return { kind: 'hadith', collection: collection[1], number: parseInt(number[1], 10) };
+  }
+
+  const ayah = normalized.match(/(\d{1,3})\s*:\s*(\d{1,3})(?:\s*[-–]\s*(\d{1,3}))?/);
+  if (!ayah) {
+    return null;
+  }
+
+  const surah = parseInt(ayah[1], 10);
+  const fromAyah = parseInt(ayah[2], 10);
+  const toAyah = ayah[3] ? parseInt(ayah[3], 10) : fromAyah;
+  if (surah < 1 || surah > SURAH_COUNT || fromAyah < 1 || toAyah < fromAyah) {
+    return null;
+  }
+
+  return { kind: 'ayah', surah, fromAyah, toAyah };
+}
+
+function referencesMatch(claimed: ParsedReference, library: ParsedReference): boolean {
+  if (claimed.kind === 'hadith') {
+    return library.kind === 'hadith'
+      && claimed.collection === library.collection
+      && claimed.number === library.number;
+  }
+
+  // A claimed range is backed by any library snippet quoting part of it
+  return library.kind === 'ayah'
+    && claimed.surah === library.surah
+    && claimed.fromAyah <= library.toAyah
+    && library.fromAyah <= claimed.toAyah;
+}
+
+function toCitation(snippet: ContentSnippet): Citation {
+  return { snippetId: snippet.id, type: snippet.type, ref: snippet.ref, text: snippet.text };
+}
+
+/**
+ * Verifies AI references against the content_snippets library. Unverifiable references
+ * are dropped rather than shown, and reported back so callers can flag them.
+ */
+@injectable()
+export class CitationGuardrail implements ICitationGuardrail {
+  constructor(
+    @inject('IContentRepository') private readonly contentRepository: IContentRepository
+  ) {}
+
+  async verifyRefs(refs: string[], snippetIds: string[] = []): Promise<Result<CitationCheck>> {
+    const libraryResult = await this.loadLibrary();
+    if (Result.isError(libraryResult)) {
+      return Result.error(libraryResult.error);
+    }
+
+    const library = libraryResult.value;
+    const cited = new Map<string, ContentSnippet>();
+    const unverified: string[] = [];
+
+    for (const id of snippetIds) {
+      const snippet = library.find(s => s.id === id);
+      if (snippet) {
+        cited.set(snippet.id, snippet);
+      }
+    }
+
+    for (const ref of refs) {
+      // References copied from an already cited snippet need no second lookup
+      if ([...cited.values()].some(snippet => snippet.ref === ref)) {
+        continue;
+      }
+
+      const matches = this.resolve(ref, library);
+      if (matches.length === 0) {
+        unverified.push(ref);
+      }
+      matches.forEach(snippet => cited.set(snippet.id, snippet));
+    }
+
+    return Result.ok({ citations: [...cited.values()].map(toCitation), unverified });
+  }
+
+  async verifySnippets(snippets: ContentSnippet[]): Promise<Result<SnippetCheck>> {
+    const libraryResult = await this.loadLibrary();
+    if (Result.isError(libraryResult)) {
+      return Result.error(libraryResult.error);
+    }
+
+    const library = libraryResult.value;
+    const verified = new Map<string, ContentSnippet>();
+    const unverified: string[] = [];
+
+    for (const snippet of snippets) {
+      const match = library.find(s => s.id === snippet.id) ?? this.resolve(snippet.ref, library)[0];
+      if (match) {
+        verified.set(snippet.id, match);
+      } else if (!unverified.includes(snippet.ref)) {
+        unverified.push(snippet.ref);
+      }
+    }
+
+    return Result.ok({ verified, unverified });
+  }
+
+  private resolve(ref: string, library: ContentSnippet[]): ContentSnippet[] {
+    const claimed = parseReference(ref);
+    if (!claimed) {
+      return [];
+    }
+
+    return library.filter(snippet => {
+      const parsed = parseReference(snippet.ref);
+      return parsed !== null && referencesMatch(claimed, parsed);
+    });
+  }
+
+  private async loadLibrary(): Promise<Result<ContentSnippet[]>> {
+    try {
+      return await this.contentRepository.findAll();
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { IAiProvider, AiSuggestion, AiExplanation } from '@/domain/providers/IAiProvider';
+import { ICitationGuardrail } from '@/domain/services/ICitationGuardrail';
+import { Result } from '@/shared/result';
+import { logger } from '@/shared/logger';
+
+/**
+ * Runs every suggestion and explanation through the citation guardrail, whichever
+ * provider produced it. Only references found in the content library reach the user;
+ * the rest are reported as unverifiedRefs.
+ */
+export class GuardedAiProvider implements IAiProvider {
+  constructor(
+    private readonly provider: IAiProvider,
+    private readonly guardrail: ICitationGuardrail
+  ) {}
+
+  async suggest(params: { mode: 'takhliyah' | 'tahliyah'; text: string }): Promise<AiSuggestion> {
+    const suggestion = await this.provider.suggest(params);
+    if (!suggestion.snippetIds || suggestion.snippetIds.length === 0) {
+      return { ...suggestion, citations: [] };
+    }
+
+    const check = await this.guardrail.verifyRefs([], suggestion.snippetIds);
+    if (Result.isError(check)) {
+      logger.warn('Citation check failed, dropping suggestion sources', { error: check.error.message });
+      return { ...suggestion, snippetIds: [], citations: [] };
+    }
+
+    const { citations } = check.value;
+    return { ...suggestion, snippetIds: citations.map(citation => citation.snippetId), citations };
+  }
+
+  async explain(struggle: string): Promise<AiExplanation> {
+    const explanation = await this.provider.explain(struggle);
+    const refs = explanation.refs ?? [];
+
+    const check = await this.guardrail.verifyRefs(refs, explanation.snippetIds);
+    if (Result.isError(check)) {
+      // Nothing can be verified without the library, so nothing is cited
+      logger.warn('Citation check failed, dropping all references', { error: check.error.message });
+      return { guidance: explanation.guidance, refs: [], citations: [], unverifiedRefs: refs };
+    }
+
+    const { citations, unverified } = check.value;
+    if (unverified.length > 0) {
+      logger.info('Dropped unverified AI references', { unverified });
+    }
+
+    return {
+      guidance: explanation.guidance,
+      refs: citations.map(citation => citation.ref),
+      snippetIds: citations.map(citation => citation.snippetId),
+      citations,
+      unverifiedRefs: unverified
+    };
+  }
+}
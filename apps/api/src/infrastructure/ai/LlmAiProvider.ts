@@ -1,41 +1,105 @@
-import { AiProvider, PlanSuggestion } from './types';
+import { ContentSnippet } from '@sakinah/types';
+import { IContentRepository } from '@/domain/repositories/IContentRepository';
+import { Result } from '@/shared/result';
+import { logger } from '@/shared/logger';
+import { AiProvider, Explanation, PlanSuggestion } from './types';
+import { LlmClient } from './LlmClient';
+import { RulesAiProvider } from './RulesAiProvider';
+import {
+  buildSuggestMessages,
+  buildExplainMessages,
+  llmSuggestionSchema,
+  llmExplanationSchema,
+  parseLlmJson,
+  LlmSuggestion,
+  LlmExplanation
+} from './llmPrompts';
 
+// Enough sources to ground a plan without blowing the context window of small local models
+const MAX_GROUNDING_SNIPPETS = 12;
+
+/**
+ * LLM-backed provider grounded in the content_snippets library.
+ * Any failure - unreachable endpoint, open circuit, unparseable or ungrounded reply -
+ * falls back to the rules engine, so callers always get an answer.
+ */
 export class LlmAiProvider implements AiProvider {
-  private apiKey: string;
+  constructor(
+    private readonly client: LlmClient,
+    private readonly contentRepository: IContentRepository,
+    private readonly fallback: RulesAiProvider = new RulesAiProvider()
+  ) {}
+
+  async suggest(input: { mode: 'takhliyah' | 'tahliyah'; text: string }): Promise<PlanSuggestion> {
+    const rulesSuggestion = await this.fallback.suggest(input);
+
+    try {
+      const snippets = await this.findGroundingSnippets(input.text, rulesSuggestion.tags);
+      const reply = await this.client.complete(buildSuggestMessages(input, snippets));
+      const parsed = parseLlmJson<LlmSuggestion>(reply, llmSuggestionSchema);
+      const cited = this.citedSnippets(parsed.snippetIds, snippets);
 
-  constructor() {
-    this.apiKey = process.env.OPENAI_API_KEY || '';
-    if (!this.apiKey) {
-      throw new Error('OpenAI API key not configured');
+      return {
+        microHabits: parsed.microHabits,
+        // Cited snippets' tags let the plan link back to the content it was grounded in
+        tags: [...new Set([...parsed.tags.map(tag => tag.toLowerCase()), ...cited.flatMap(snippet => snippet.tags)])],
+        guidance: parsed.guidance,
+        snippetIds: cited.map(snippet => snippet.id)
+      };
+    } catch (error) {
+      logger.warn('LLM suggestion failed, using rules provider', { error: (error as Error).message });
+      return rulesSuggestion;
     }
   }
 
-  async suggest(input: { mode: 'takhliyah' | 'tahliyah'; text: string }): Promise<PlanSuggestion> {
-    // This is a placeholder for LLM integration
-    // In production, you would call OpenAI or another LLM here
-
-    // const prompt = input.mode === 'takhliyah'
-    //   ? `Create a spiritual purification plan for someone struggling with: ${input.text}`
-    //   : `Create a virtue development plan for cultivating: ${input.text}`;
-
-    // For now, return a structured response
-    // In production, parse LLM response into this structure
-    return {
-      microHabits: [
-        { title: 'Morning reflection on the issue', schedule: 'daily', target: 1 },
-        { title: 'Specific dhikr practice', schedule: 'daily', target: 1 },
-        { title: 'Practical action step', schedule: 'daily', target: 1 },
-      ],
-      tags: [input.text.toLowerCase().split(' ')[0]],
-      guidance: 'AI-generated guidance would appear here based on Islamic sources.',
-    };
+  async explain(input: { struggle: string }): Promise<Explanation> {
+    try {
+      const rulesSuggestion = await this.fallback.suggest({ mode: 'takhliyah', text: input.struggle });
+      const snippets = await this.findGroundingSnippets(input.struggle, rulesSuggestion.tags);
+      const reply = await this.client.complete(buildExplainMessages(input.struggle, snippets));
+      const parsed = parseLlmJson<LlmExplanation>(reply, llmExplanationSchema);
+      const cited = this.citedSnippets(parsed.snippetIds, snippets);
+
+      return {
+        guidance: parsed.guidance,
+        refs: cited.map(snippet => snippet.ref),
+        snippetIds: cited.map(snippet => snippet.id)
+      };
+    } catch (error) {
+      logger.warn('LLM explanation failed, using rules provider', { error: (error as Error).message });
+      return this.fallback.explain(input);
+    }
   }
 
-  async explain(input: { struggle: string }): Promise<{ guidance: string; refs?: string[] }> {
-    // Placeholder for LLM explanation
-    return {
-      guidance: 'AI-generated Islamic guidance about ' + input.struggle,
-      refs: ['Relevant Quranic verses', 'Applicable Hadith'],
-    };
+  /**
+   * Library snippets sharing the most tags with the user's words and the rules engine's tags
+   */
+  private async findGroundingSnippets(text: string, seedTags: string[]): Promise<ContentSnippet[]> {
+    const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(word => word.length >= 3);
+    const tags = [...new Set([...seedTags, ...words])];
+
+    const result = await this.contentRepository.findByTags(tags);
+    if (Result.isError(result)) {
+      throw result.error;
+    }
+    if (result.value.length === 0) {
+      throw new Error('No content snippets to ground the response in');
+    }
+
+    const overlap = (snippet: ContentSnippet) => snippet.tags.filter(tag => tags.includes(tag)).length;
+    return [...result.value]
+      .sort((a, b) => overlap(b) - overlap(a))
+      .slice(0, MAX_GROUNDING_SNIPPETS);
+  }
+
+  /**
+   * The sources the model cited, rejecting replies that cite nothing it was given
+   */
+  private citedSnippets(snippetIds: string[], snippets: ContentSnippet[]): ContentSnippet[] {
+    const cited = snippets.filter(snippet => snippetIds.includes(snippet.id));
+    if (cited.length === 0) {
+      throw new Error('LLM response cited no provided sources');
+    }
+    return cited;
   }
-}
\ No newline at end of file
+}
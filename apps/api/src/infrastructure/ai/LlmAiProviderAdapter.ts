@@ -1,12 +1,14 @@
 import { IAiProvider, AiSuggestion, AiExplanation } from '@/domain/providers/IAiProvider';
+import { IContentRepository } from '@/domain/repositories/IContentRepository';
 import { MicroHabit } from '@/domain/entities/MicroHabit';
 import { LlmAiProvider } from './LlmAiProvider';
+import { LlmClient } from './LlmClient';
 
 export class LlmAiProviderAdapter implements IAiProvider {
   private provider: LlmAiProvider;
 
-  constructor() {
-    this.provider = new LlmAiProvider();
+  constructor(client: LlmClient, contentRepository: IContentRepository) {
+    this.provider = new LlmAiProvider(client, contentRepository);
   }
 
   async suggest(params: { mode: 'takhliyah' | 'tahliyah'; text: string }): Promise<AiSuggestion> {
@@ -16,11 +18,12 @@ export class LlmAiProviderAdapter implements IAiProvider {
       microHabits: result.microHabits.map(h =>
         MicroHabit.create(h.title, h.schedule, h.target)
       ),
-      tags: result.tags
+      tags: result.tags,
+      snippetIds: result.snippetIds
     };
   }
 
   async explain(struggle: string): Promise<AiExplanation> {
     return await this.provider.explain({ struggle });
   }
-}
\ No newline at end of file
+}
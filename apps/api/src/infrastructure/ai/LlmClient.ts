@@ -0,0 +1,82 @@
+import { aiResilient } from '@/infrastructure/resilience/ResilienceFactory';
+
+export interface LlmConfig {
+  baseUrl: string; // OpenAI-compatible API root, e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  apiKey: string | null; // local servers usually need none
+  model: string;
+}
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+/**
+ * LLM endpoint from the environment, or null when none is usable.
+ * LLM_BASE_URL points at any OpenAI-compatible server (OpenAI, llama.cpp, Ollama, vLLM);
+ * only the hosted OpenAI API requires a key.
+ */
+export function getLlmConfig(): LlmConfig | null {
+  const baseUrl = (process.env.LLM_BASE_URL || OPENAI_BASE_URL).replace(/\/+$/, '');
+  const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || null;
+
+  if (baseUrl === OPENAI_BASE_URL && !apiKey) {
+    return null;
+  }
+
+  return { baseUrl, apiKey, model: process.env.LLM_MODEL || DEFAULT_MODEL };
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+export interface LlmClient {
+  /** Returns the raw text of the model's reply */
+  complete(messages: ChatMessage[]): Promise<string>;
+}
+
+// Carries the HTTP status so the retry policy can tell 429/5xx apart from bad requests
+export class LlmRequestError extends Error {
+  constructor(message: string, public readonly statusCode?: number) {
+    super(message);
+    this.name = 'LlmRequestError';
+  }
+}
+
+/**
+ * Chat completions over the OpenAI wire format, behind the shared AI retry and circuit breaker policy
+ */
+export class OpenAiCompatibleClient implements LlmClient {
+  constructor(private readonly config: LlmConfig) {}
+
+  @aiResilient()
+  async complete(messages: ChatMessage[]): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.config.model,
+        messages,
+        temperature: 0.2,
+        response_format: { type: 'json_object' }
+      })
+    });
+
+    if (!response.ok) {
+      throw new LlmRequestError(`LLM request failed: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    const body = await response.json() as { choices?: { message?: { content?: string | null } }[] };
+    const content = body.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new LlmRequestError('LLM returned an empty completion');
+    }
+
+    return content;
+  }
+}
@@ -1,4 +1,4 @@
-import { AiProvider, PlanSuggestion } from './types';
+import { AiProvider, Explanation, PlanSuggestion, ProgressRule } from './types';
 import { MicroHabit } from '@sakinah/types';
 
 const STRUGGLE_MAPPINGS = {
@@ -70,6 +70,34 @@ const STRUGGLE_MAPPINGS = {
   },
 };
 
+// Progress weak areas -> what to do next. {habits} is replaced with the habits behind the weakness.
+const PROGRESS_RULES: Record<string, ProgressRule> = {
+  habit_completion: {
+    action: 'Shrink {habits} to the smallest version you can keep every scheduled day',
+    guidance: 'The most beloved deeds to Allah are those done consistently, even if small.',
+  },
+  consistency: {
+    action: 'Tie one habit to a daily prayer so it has a fixed time',
+    guidance: 'Anchoring a deed to the salah gives it a place in every day.',
+  },
+  streak_breaks: {
+    action: 'Turn on reminders for {habits} and complete it the same day you miss it next',
+    guidance: 'Missing once is human; returning quickly is tawbah in action.',
+  },
+  declining_trend: {
+    action: 'Pause new habits and focus on the one you find easiest until it is steady again',
+    guidance: 'Iman rises and falls. Renew your intention and rebuild gently.',
+  },
+  mood: {
+    action: 'Add a short evening reflection on what lifted and what weighed on your heart',
+    guidance: 'Verily, in the remembrance of Allah do hearts find rest.',
+  },
+  dhikr: {
+    action: 'Say the morning and evening adhkar after Fajr and Maghrib',
+    guidance: 'Remember Me and I will remember you.',
+  },
+};
+
 export class RulesAiProvider implements AiProvider {
   async suggest(input: { mode: 'takhliyah' | 'tahliyah'; text: string }): Promise<PlanSuggestion> {
     const normalized = input.text.toLowerCase();
@@ -105,7 +133,7 @@ export class RulesAiProvider implements AiProvider {
     };
   }
 
-  async explain(input: { struggle: string }): Promise<{ guidance: string; refs?: string[] }> {
+  async explain(input: { struggle: string }): Promise<Explanation> {
     const normalized = input.struggle.toLowerCase();
 
     for (const [key, mapping] of Object.entries(STRUGGLE_MAPPINGS)) {
@@ -125,4 +153,19 @@ export class RulesAiProvider implements AiProvider {
       refs: ['Quran 2:286', 'Quran 94:5-6'],
     };
   }
-}
\ No newline at end of file
+
+  async recommendForProgress(areas: { area: string; habits?: string[] }[]): Promise<(ProgressRule & { area: string })[]> {
+    return areas
+      .filter(({ area }) => PROGRESS_RULES[area])
+      .map(({ area, habits }) => {
+        const rule = PROGRESS_RULES[area];
+        const habitList = habits && habits.length > 0 ? `"${habits.join('", "')}"` : 'your hardest habit';
+
+        return {
+          area,
+          action: rule.action.replace('{habits}', habitList),
+          guidance: rule.guidance,
+        };
+      });
+  }
+}
@@ -1,8 +1,9 @@
 import { IAiProvider, AiSuggestion, AiExplanation } from '@/domain/providers/IAiProvider';
+import { IProgressRecommender, ProgressRecommendation, ProgressArea, WeakArea } from '@/domain/providers/IProgressRecommender';
 import { MicroHabit } from '@/domain/entities/MicroHabit';
 import { RulesAiProvider } from './RulesAiProvider';
 
-export class RulesAiProviderAdapter implements IAiProvider {
+export class RulesAiProviderAdapter implements IAiProvider, IProgressRecommender {
   private provider: RulesAiProvider;
 
   constructor() {
@@ -23,4 +24,14 @@ export class RulesAiProviderAdapter implements IAiProvider {
   async explain(struggle: string): Promise<AiExplanation> {
     return await this.provider.explain({ struggle });
   }
-}
\ No newline at end of file
+
+  async recommend(areas: WeakArea[]): Promise<ProgressRecommendation[]> {
+    const rules = await this.provider.recommendForProgress(areas);
+
+    return rules.map(rule => ({
+      area: rule.area as ProgressArea,
+      action: rule.action,
+      guidance: rule.guidance
+    }));
+  }
+}
@@ -2,27 +2,76 @@ import { injectable, inject } from 'tsyringe';
 import { ISurveyAiProvider, SurveyGenerationParams } from '@/domain/providers/ISurveyAiProvider';
 import { IContentRepository } from '@/domain/repositories/IContentRepository';
 import { SurveyAiProvider } from './SurveyAiProvider';
-import { PersonalizedHabit, TazkiyahPlan } from '@sakinah/types';
+import { CitationGuardrail } from './CitationGuardrail';
+import { ContentSnippet, PersonalizedHabit, TazkiyahPlan } from '@sakinah/types';
+import { Result } from '@/shared/result';
+import { logger } from '@/shared/logger';
 
 /**
  * Adapter for the Survey AI Provider
- * Provides a clean interface between domain and infrastructure layers
+ * Provides a clean interface between domain and infrastructure layers,
+ * and keeps only Islamic content that exists in the content library
  */
 @injectable()
 export class SurveyAiProviderAdapter implements ISurveyAiProvider {
   private provider: SurveyAiProvider;
+  private guardrail: CitationGuardrail;
 
   constructor(
     @inject('IContentRepository') contentRepository: IContentRepository
   ) {
     this.provider = new SurveyAiProvider(contentRepository);
+    this.guardrail = new CitationGuardrail(contentRepository);
   }
 
   async generatePersonalizedHabits(params: SurveyGenerationParams): Promise<PersonalizedHabit[]> {
-    return this.provider.generatePersonalizedHabits(params);
+    const habits = await this.provider.generatePersonalizedHabits(params);
+    const verify = await this.verifier(habits.flatMap(habit => habit.islamicContent));
+
+    return habits.map(habit => ({
+      ...habit,
+      islamicContent: verify(habit.islamicContent)
+    }));
   }
 
   async generateTazkiyahPlan(params: SurveyGenerationParams): Promise<TazkiyahPlan> {
-    return this.provider.generateTazkiyahPlan(params);
+    const plan = await this.provider.generateTazkiyahPlan(params);
+    const verify = await this.verifier(
+      plan.phases.flatMap(phase => phase.practices.flatMap(practice => practice.islamicBasis))
+    );
+
+    return {
+      ...plan,
+      phases: plan.phases.map(phase => ({
+        ...phase,
+        practices: phase.practices.map(practice => ({
+          ...practice,
+          islamicBasis: verify(practice.islamicBasis)
+        }))
+      }))
+    };
+  }
+
+  /**
+   * Checks all generated content in one pass and returns a function that swaps each
+   * snippet list for its verified library versions
+   */
+  private async verifier(snippets: ContentSnippet[]): Promise<(list: ContentSnippet[]) => ContentSnippet[]> {
+    if (snippets.length === 0) {
+      return list => list;
+    }
+
+    const check = await this.guardrail.verifySnippets(snippets);
+    if (Result.isError(check)) {
+      logger.warn('Citation check failed, dropping survey plan content', { error: check.error.message });
+      return () => [];
+    }
+
+    const { verified, unverified } = check.value;
+    if (unverified.length > 0) {
+      logger.info('Dropped unverified survey plan content', { unverified });
+    }
+
+    return list => [...new Set(list.map(snippet => verified.get(snippet.id)).filter((s): s is ContentSnippet => !!s))];
   }
-}
\ No newline at end of file
+}
@@ -1,15 +1,37 @@
+import { container } from 'tsyringe';
 import { IAiProvider } from '@/domain/providers/IAiProvider';
+import { IContentRepository } from '@/domain/repositories/IContentRepository';
+import { ICitationGuardrail } from '@/domain/services/ICitationGuardrail';
+import { logger } from '@/shared/logger';
 import { RulesAiProviderAdapter } from './RulesAiProviderAdapter';
 import { LlmAiProviderAdapter } from './LlmAiProviderAdapter';
+import { OpenAiCompatibleClient, getLlmConfig } from './LlmClient';
+import { GuardedAiProvider } from './GuardedAiProvider';
 
 export function getAIProvider(): IAiProvider {
+  return new GuardedAiProvider(
+    getConfiguredProvider(),
+    container.resolve<ICitationGuardrail>('ICitationGuardrail')
+  );
+}
+
+function getConfiguredProvider(): IAiProvider {
   const provider = process.env.AI_PROVIDER || 'rules';
 
   switch (provider) {
-    case 'llm':
-      return new LlmAiProviderAdapter();
+    case 'llm': {
+      const config = getLlmConfig();
+      if (!config) {
+        logger.warn('AI_PROVIDER is llm but no LLM endpoint or API key is configured, using rules provider');
+        return new RulesAiProviderAdapter();
+      }
+      return new LlmAiProviderAdapter(
+        new OpenAiCompatibleClient(config),
+        container.resolve<IContentRepository>('IContentRepository')
+      );
+    }
     case 'rules':
     default:
       return new RulesAiProviderAdapter();
   }
-}
\ No newline at end of file
+}
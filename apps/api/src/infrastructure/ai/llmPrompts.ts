@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { ContentSnippet } from '@sakinah/types';
+import { ChatMessage } from './LlmClient';
+
+// The model may only draw on the curated library; it must not quote or invent anything else
+const GROUNDING_RULES = [
+  'You are a careful assistant for Tazkiyah (purification of the soul) in the Sunni tradition.',
+  'Ground every statement strictly in the SOURCES provided. Do not quote, paraphrase or cite any verse, hadith or scholar that is not listed.',
+  'Cite the sources you relied on by their id in "snippetIds". If no source supports an answer, keep guidance general and encourage consulting a qualified scholar.',
+  'Reply with a single JSON object and nothing else.'
+].join('\n');
+
+function formatSources(snippets: ContentSnippet[]): string {
+  return snippets
+    .map(snippet => `[${snippet.id}] (${snippet.type}, ${snippet.ref}) ${snippet.text}`)
+    .join('\n');
+}
+
+export function buildSuggestMessages(
+  input: { mode: 'takhliyah' | 'tahliyah'; text: string },
+  snippets: ContentSnippet[]
+): ChatMessage[] {
+  const goal = input.mode === 'takhliyah'
+    ? `Create a plan to purify the heart of: ${input.text}`
+    : `Create a plan to cultivate the virtue of: ${input.text}`;
+
+  return [
+    { role: 'system', content: GROUNDING_RULES },
+    {
+      role: 'user',
+      content: [
+        goal,
+        '',
+        'SOURCES:',
+        formatSources(snippets),
+        '',
+        'Respond with JSON of the form:',
+        '{"microHabits":[{"title":"...","schedule":"daily"|"weekly","target":1}],"tags":["..."],"guidance":"...","snippetIds":["..."]}',
+        'Give 3 to 5 small, concrete micro-habits and 2 to 6 lowercase tags.'
+      ].join('\n')
+    }
+  ];
+}
+
+export function buildExplainMessages(struggle: string, snippets: ContentSnippet[]): ChatMessage[] {
+  return [
+    { role: 'system', content: GROUNDING_RULES },
+    {
+      role: 'user',
+      content: [
+        `Explain, with compassion and in under 120 words, how to approach this struggle: ${struggle}`,
+        '',
+        'SOURCES:',
+        formatSources(snippets),
+        '',
+        'Respond with JSON of the form: {"guidance":"...","snippetIds":["..."]}'
+      ].join('\n')
+    }
+  ];
+}
+
+export interface LlmSuggestion {
+  microHabits: { title: string; schedule: 'daily' | 'weekly'; target: number }[];
+  tags: string[];
+  guidance: string;
+  snippetIds: string[];
+}
+
+export interface LlmExplanation {
+  guidance: string;
+  snippetIds: string[];
+}
+
+export const llmSuggestionSchema = z.object({
+  microHabits: z.array(z.object({
+    title: z.string().min(3).max(200),
+    schedule: z.enum(['daily', 'weekly']),
+    target: z.number().int().min(1).max(100)
+  })).min(1).max(7),
+  tags: z.array(z.string().min(1).max(50)).max(10),
+  guidance: z.string().min(1).max(2000),
+  snippetIds: z.array(z.string()).min(1)
+});
+
+export const llmExplanationSchema = z.object({
+  guidance: z.string().min(1).max(2000),
+  snippetIds: z.array(z.string()).min(1)
+});
+
+/**
+ * Parses the model's reply against a schema. Local models often wrap JSON in a
+ * markdown fence despite being asked not to, so that is stripped first.
+ */
+export function parseLlmJson<T>(content: string, schema: z.ZodTypeAny): T {
+  const unfenced = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const parsed = schema.safeParse(JSON.parse(unfenced));
+
+  if (!parsed.success) {
+    throw new Error(`LLM response did not match schema: ${parsed.error.issues.map(issue => issue.path.join('.')).join(', ')}`);
+  }
+
+  return parsed.data as T;
+}
@@ -4,9 +4,21 @@ export interface PlanSuggestion {
   microHabits: MicroHabit[];
   tags: string[];
   guidance?: string;
+  snippetIds?: string[];
+}
+
+export interface Explanation {
+  guidance: string;
+  refs?: string[];
+  snippetIds?: string[];
 }
 
 export interface AiProvider {
   suggest(input: { mode: 'takhliyah' | 'tahliyah'; text: string }): Promise<PlanSuggestion>;
-  explain(input: { struggle: string }): Promise<{ guidance: string; refs?: string[] }>;
-}
\ No newline at end of file
+  explain(input: { struggle: string }): Promise<Explanation>;
+}
+
+export interface ProgressRule {
+  action: string;
+  guidance: string;
+}
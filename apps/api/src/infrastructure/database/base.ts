@@ -6,6 +6,7 @@ import {
   Habit,
   HabitCompletion,
   Checkin,
+  CheckinSession,
   JournalEntry,
 } from '@sakinah/types';
 import {
@@ -14,6 +15,7 @@ import {
   UserRow,
   ProfileRow,
   ContentSnippetRow,
+  ContentTranslationData,
   PlanRow,
   HabitRow,
   HabitCompletionRow,
@@ -25,7 +27,37 @@ import {
   IntentionData,
   OnboardingData,
   PrayerTimesData,
+  CalculationSettingsData,
   UserPreferencesData,
+  SyncOperationRow,
+  SyncOperationData,
+  SyncConflictRow,
+  SyncConflictData,
+  SyncDeviceRow,
+  SyncDeviceData,
+  SyncChangeEntity,
+  SyncChangeWindow,
+  SyncChangeData,
+  SyncTombstoneRow,
+  SyncTombstoneData,
+  IntentionRow,
+  DhikrSessionRow,
+  AchievementData,
+  UserStatsData,
+  CircleData,
+  CircleMemberData,
+  CircleEncouragementData,
+  CircleProgressData,
+  CircleRole,
+  CircleStatus,
+  CircleEncouragementType,
+  NotificationData,
+  NotificationStatusData,
+  NotificationTypeData,
+  PushSubscriptionData,
+  SurveyQuestionBankData,
+  JournalSearchFilters,
+  JournalSearchData,
 } from './types';
 
 export abstract class BaseDatabaseClient implements IDatabaseClient {
@@ -56,7 +88,7 @@ export abstract class BaseDatabaseClient implements IDatabaseClient {
   getIntentionsDueSoon(userId: string, daysAhead?: number): Promise<DatabaseResult<IntentionData[]>> {
       throw new Error("Method not implemented.");
   }
-  createPrayerTimes(data: { userId: string; latitude: number; longitude: number; city?: string; country?: string; timezone?: string; calculationMethod: string; date: string; fajr: string; sunrise: string; dhuhr: string; asr: string; maghrib: string; isha: string; qiyam?: string; hijriDate?: string; validUntil: string; }): Promise<DatabaseResult<PrayerTimesData>> {
+  createPrayerTimes(data: { userId: string; latitude: number; longitude: number; city?: string; country?: string; timezone?: string; calculationMethod: string; calculationSettings?: CalculationSettingsData; date: string; fajr: string; sunrise: string; dhuhr: string; asr: string; maghrib: string; isha: string; qiyam?: string; hijriDate?: string; validUntil: string; }): Promise<DatabaseResult<PrayerTimesData>> {
       throw new Error("Method not implemented.");
   }
   getPrayerTimesById(id: string): Promise<DatabaseResult<PrayerTimesData | null>> {
@@ -251,9 +283,12 @@ export abstract class BaseDatabaseClient implements IDatabaseClient {
       id: row.id,
       userId: row.user_id,
       date: row.date,
+      session: row.session,
       mood: row.mood ?? undefined,
       intention: row.intention ?? undefined,
       reflection: row.reflection ?? undefined,
+      gratitude: row.gratitude ?? [],
+      improvements: row.improvements ?? undefined,
       createdAt: row.created_at,
     };
   }
@@ -269,6 +304,111 @@ export abstract class BaseDatabaseClient implements IDatabaseClient {
     };
   }
 
+  protected mapSyncOperationRow(row: SyncOperationRow | null): SyncOperationData | null {
+    if (!row) return null;
+    return {
+      id: row.id,
+      userId: row.user_id,
+      operationId: row.operation_id,
+      deviceId: row.device_id,
+      type: row.type,
+      entity: row.entity,
+      entityId: row.entity_id,
+      status: row.status,
+      result: typeof row.result === 'string' ? JSON.parse(row.result) : row.result,
+      clientTimestamp: row.client_timestamp,
+      processedAt: row.processed_at,
+    };
+  }
+
+  protected mapSyncConflictRow(row: SyncConflictRow | null): SyncConflictData | null {
+    if (!row) return null;
+    const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+    return {
+      id: row.id,
+      userId: row.user_id,
+      deviceId: row.device_id,
+      operationId: row.operation_id,
+      operationType: row.operation_type,
+      entity: row.entity,
+      entityId: row.entity_id,
+      conflictType: row.conflict_type,
+      clientData: parse(row.client_data),
+      serverData: parse(row.server_data),
+      clientTimestamp: row.client_timestamp,
+      serverTimestamp: row.server_timestamp,
+      resolution: row.resolution,
+      resolvedData: row.resolved_data ? parse(row.resolved_data) : null,
+      createdAt: row.created_at,
+      resolvedAt: row.resolved_at,
+    };
+  }
+
+  protected mapSyncDeviceRow(row: SyncDeviceRow | null): SyncDeviceData | null {
+    if (!row) return null;
+    return {
+      userId: row.user_id,
+      deviceId: row.device_id,
+      lastAttemptAt: row.last_attempt_at,
+      lastSuccessfulSyncAt: row.last_successful_sync_at,
+      lastErrorCount: row.last_error_count,
+    };
+  }
+
+  protected mapSyncTombstoneRow(row: SyncTombstoneRow | null): SyncTombstoneData | null {
+    if (!row) return null;
+    return {
+      id: row.id,
+      userId: row.user_id,
+      entity: row.entity,
+      entityId: row.entity_id,
+      deletedAt: row.deleted_at,
+    };
+  }
+
+  protected mapIntentionRow(row: IntentionRow | null): IntentionData | null {
+    if (!row) return null;
+    const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+    const daysOfWeek = row.reminder_days_of_week ? parse(row.reminder_days_of_week) : null;
+    return {
+      id: row.id,
+      userId: row.user_id,
+      text: row.text,
+      description: row.description,
+      priority: row.priority,
+      status: row.status,
+      targetDate: row.target_date,
+      completedAt: row.completed_at,
+      reminder: {
+        enabled: Boolean(row.reminder_enabled),
+        ...(row.reminder_time && { time: row.reminder_time }),
+        ...(daysOfWeek && { daysOfWeek }),
+      },
+      tags: row.tags ? parse(row.tags) : [],
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  protected mapDhikrSessionRow(row: DhikrSessionRow | null): DhikrSessionData | null {
+    if (!row) return null;
+    return {
+      id: row.id,
+      userId: row.user_id,
+      dhikrType: row.dhikr_type,
+      dhikrText: row.dhikr_text,
+      count: row.count,
+      targetCount: row.target_count,
+      date: row.date,
+      sessionStart: row.session_start,
+      sessionEnd: row.session_end,
+      notes: row.notes,
+      tags: typeof row.tags === 'string' ? JSON.parse(row.tags) : row.tags || [],
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
   // Helper to generate UUIDs (for SQLite)
   protected generateId(): string {
     return crypto.randomUUID();
@@ -297,6 +437,9 @@ export abstract class BaseDatabaseClient implements IDatabaseClient {
   abstract getContentSnippetById(id: string): Promise<DatabaseResult<ContentSnippet | null>>;
   abstract getContentSnippetsByTags(tags: string[]): Promise<DatabaseResult<ContentSnippet[]>>;
   abstract getAllContentSnippets(): Promise<DatabaseResult<ContentSnippet[]>>;
+  getContentTranslations(contentIds: string[], locale: 'en' | 'ar'): Promise<DatabaseResult<ContentTranslationData[]>> {
+    throw new Error("Method not implemented.");
+  }
 
   abstract createPlan(data: {
     userId: string;
@@ -317,6 +460,7 @@ export abstract class BaseDatabaseClient implements IDatabaseClient {
     schedule: any;
   }): Promise<DatabaseResult<Habit>>;
   abstract getHabitsByUserId(userId: string): Promise<DatabaseResult<Habit[]>>;
+  abstract getAllHabits(): Promise<DatabaseResult<Habit[]>>;
   abstract getHabitById(id: string): Promise<DatabaseResult<Habit | null>>;
   abstract updateHabitStreak(
     id: string,
@@ -340,11 +484,14 @@ export abstract class BaseDatabaseClient implements IDatabaseClient {
   abstract createCheckin(data: {
     userId: string;
     date: string;
+    session?: CheckinSession;
     mood?: number;
     intention?: string;
     reflection?: string;
+    gratitude?: string[];
+    improvements?: string;
   }): Promise<DatabaseResult<Checkin>>;
-  abstract getCheckinByDate(userId: string, date: string): Promise<DatabaseResult<Checkin | null>>;
+  abstract getCheckinByDate(userId: string, date: string, session: CheckinSession): Promise<DatabaseResult<Checkin | null>>;
   abstract updateCheckin(
     id: string,
     userId: string,
@@ -352,6 +499,8 @@ export abstract class BaseDatabaseClient implements IDatabaseClient {
       mood?: number;
       intention?: string;
       reflection?: string;
+      gratitude?: string[];
+      improvements?: string;
     }
   ): Promise<DatabaseResult<Checkin>>;
   abstract getCheckinsByUser(
@@ -389,6 +538,7 @@ export abstract class BaseDatabaseClient implements IDatabaseClient {
       sortOrder?: 'asc' | 'desc';
     }
   ): Promise<DatabaseResult<{ entries: JournalEntry[]; pagination: any }>>;
+  abstract searchJournals(userId: string, filters: JournalSearchFilters): Promise<DatabaseResult<JournalSearchData>>;
   abstract getJournalById(id: string): Promise<DatabaseResult<JournalEntry | null>>;
   abstract updateJournal(
     id: string,
@@ -440,6 +590,9 @@ export abstract class BaseDatabaseClient implements IDatabaseClient {
   getSurveyResultByUserId(userId: string): Promise<DatabaseResult<any | null>> {
     throw new Error("Method not implemented.");
   }
+  getSurveyResultsByUserId(userId: string): Promise<DatabaseResult<any[]>> {
+    throw new Error("Method not implemented.");
+  }
   getSurveyResultById(id: string): Promise<DatabaseResult<any | null>> {
     throw new Error("Method not implemented.");
   }
@@ -473,6 +626,176 @@ export abstract class BaseDatabaseClient implements IDatabaseClient {
     throw new Error("Method not implemented.");
   }
 
+  // Survey question bank operations
+  getSurveyQuestionBank(version?: number): Promise<DatabaseResult<SurveyQuestionBankData | null>> {
+    throw new Error("Method not implemented.");
+  }
+
+  // Sync operations
+  createSyncOperation(data: {
+    userId: string;
+    operationId: string;
+    deviceId?: string | null;
+    type: string;
+    entity: string;
+    entityId?: string | null;
+    status: 'applied' | 'conflict';
+    result: Record<string, any>;
+    clientTimestamp: string;
+  }): Promise<DatabaseResult<SyncOperationData>> {
+    throw new Error("Method not implemented.");
+  }
+  getSyncOperation(userId: string, operationId: string): Promise<DatabaseResult<SyncOperationData | null>> {
+    throw new Error("Method not implemented.");
+  }
+  getLatestSyncOperationForEntity(
+    userId: string,
+    entity: string,
+    entityId: string
+  ): Promise<DatabaseResult<SyncOperationData | null>> {
+    throw new Error("Method not implemented.");
+  }
+
+  // Sync conflict operations
+  createSyncConflict(data: {
+    id?: string;
+    userId: string;
+    deviceId?: string | null;
+    operationId: string;
+    operationType: string;
+    entity: string;
+    entityId?: string | null;
+    conflictType: 'timestamp' | 'version' | 'data';
+    clientData: Record<string, any>;
+    serverData: Record<string, any>;
+    clientTimestamp: string;
+    serverTimestamp: string;
+  }): Promise<DatabaseResult<SyncConflictData>> {
+    throw new Error("Method not implemented.");
+  }
+  getSyncConflictById(id: string, userId: string): Promise<DatabaseResult<SyncConflictData | null>> {
+    throw new Error("Method not implemented.");
+  }
+  getPendingSyncConflicts(userId: string, deviceId?: string): Promise<DatabaseResult<SyncConflictData[]>> {
+    throw new Error("Method not implemented.");
+  }
+  resolveSyncConflict(
+    id: string,
+    userId: string,
+    resolution: {
+      resolution: 'client' | 'server' | 'merge';
+      resolvedData?: Record<string, any> | null;
+    }
+  ): Promise<DatabaseResult<SyncConflictData>> {
+    throw new Error("Method not implemented.");
+  }
+
+  // Sync device operations
+  upsertSyncDevice(data: {
+    userId: string;
+    deviceId: string;
+    lastAttemptAt: string;
+    lastSuccessfulSyncAt?: string | null;
+    lastErrorCount: number;
+  }): Promise<DatabaseResult<SyncDeviceData>> {
+    throw new Error("Method not implemented.");
+  }
+  getSyncDevicesByUser(userId: string): Promise<DatabaseResult<SyncDeviceData[]>> {
+    throw new Error("Method not implemented.");
+  }
+
+  // Sync delta pull
+  getSyncChanges(
+    userId: string,
+    entity: SyncChangeEntity,
+    window: SyncChangeWindow
+  ): Promise<DatabaseResult<SyncChangeData[]>> {
+    throw new Error("Method not implemented.");
+  }
+  getSyncTombstones(userId: string, window: SyncChangeWindow): Promise<DatabaseResult<SyncTombstoneData[]>> {
+    throw new Error("Method not implemented.");
+  }
+  getSyncEntityUpdatedAt(userId: string, entity: SyncChangeEntity, entityId: string): Promise<DatabaseResult<string | null>> {
+    throw new Error("Method not implemented.");
+  }
+
+  // Gamification
+  getAchievements(): Promise<DatabaseResult<AchievementData[]>> {
+    throw new Error("Method not implemented.");
+  }
+  getUserStats(userId: string): Promise<DatabaseResult<UserStatsData | null>> {
+    throw new Error("Method not implemented.");
+  }
+  upsertUserStats(data: UserStatsData): Promise<DatabaseResult<UserStatsData>> {
+    throw new Error("Method not implemented.");
+  }
+
+  // Circles
+  createCircle(data: { creatorId: string; name: string; description?: string | null; maxMembers: number; isAnonymous: boolean; sharedGoal?: string | null; inviteCode: string; }): Promise<DatabaseResult<CircleData>> {
+    throw new Error("Method not implemented.");
+  }
+  getCircleById(id: string): Promise<DatabaseResult<CircleData | null>> {
+    throw new Error("Method not implemented.");
+  }
+  getCircleByInviteCode(inviteCode: string): Promise<DatabaseResult<CircleData | null>> {
+    throw new Error("Method not implemented.");
+  }
+  getCirclesByUserId(userId: string): Promise<DatabaseResult<CircleData[]>> {
+    throw new Error("Method not implemented.");
+  }
+  updateCircle(id: string, updates: { name?: string; description?: string | null; sharedGoal?: string | null; status?: CircleStatus; }): Promise<DatabaseResult<CircleData>> {
+    throw new Error("Method not implemented.");
+  }
+  getCircleMembers(circleId: string): Promise<DatabaseResult<CircleMemberData[]>> {
+    throw new Error("Method not implemented.");
+  }
+  addCircleMember(data: { circleId: string; userId: string; role: CircleRole; }): Promise<DatabaseResult<CircleMemberData>> {
+    throw new Error("Method not implemented.");
+  }
+  removeCircleMember(circleId: string, userId: string): Promise<DatabaseResult<void>> {
+    throw new Error("Method not implemented.");
+  }
+  createCircleEncouragement(data: { circleId: string; fromUserId: string; toUserId?: string | null; message: string; type: CircleEncouragementType; }): Promise<DatabaseResult<CircleEncouragementData>> {
+    throw new Error("Method not implemented.");
+  }
+  getCircleEncouragements(circleId: string, filters?: { limit?: number; offset?: number; }): Promise<DatabaseResult<CircleEncouragementData[]>> {
+    throw new Error("Method not implemented.");
+  }
+  getCircleProgress(circleId: string, from: string, to: string): Promise<DatabaseResult<CircleProgressData>> {
+    throw new Error("Method not implemented.");
+  }
+
+  // Notifications
+  createNotifications(notifications: Array<{ userId: string; type: NotificationTypeData; title: string; body: string; data: Record<string, unknown>; dedupeKey: string; scheduledFor: string; }>): Promise<DatabaseResult<number>> {
+    throw new Error("Method not implemented.");
+  }
+  getDueNotifications(before: string, limit: number): Promise<DatabaseResult<NotificationData[]>> {
+    throw new Error("Method not implemented.");
+  }
+  getNotificationsByUser(userId: string, filters?: { status?: NotificationStatusData; limit?: number; offset?: number; }): Promise<DatabaseResult<NotificationData[]>> {
+    throw new Error("Method not implemented.");
+  }
+  updateNotificationDelivery(id: string, updates: { status: NotificationStatusData; attempts: number; channel: string | null; lastError: string | null; sentAt: string | null; }): Promise<DatabaseResult<void>> {
+    throw new Error("Method not implemented.");
+  }
+  getReminderUserIds(): Promise<DatabaseResult<string[]>> {
+    throw new Error("Method not implemented.");
+  }
+
+  // Push subscriptions
+  upsertPushSubscription(data: { userId: string; endpoint: string; p256dh: string; auth: string; deviceId?: string | null; userAgent?: string | null; }): Promise<DatabaseResult<PushSubscriptionData>> {
+    throw new Error("Method not implemented.");
+  }
+  getPushSubscriptionsByUser(userId: string): Promise<DatabaseResult<PushSubscriptionData[]>> {
+    throw new Error("Method not implemented.");
+  }
+  deletePushSubscription(userId: string, endpoint: string): Promise<DatabaseResult<boolean>> {
+    throw new Error("Method not implemented.");
+  }
+  deletePushSubscriptionByEndpoint(endpoint: string): Promise<DatabaseResult<void>> {
+    throw new Error("Method not implemented.");
+  }
+
   abstract healthCheck(): Promise<{
     status: 'ok' | 'error';
     database: 'sqlite' | 'supabase';
@@ -0,0 +1,89 @@
+// Journal full-text search helpers shared by the SQLite and Supabase clients
+
+// Quranic annotation signs, harakat, superscript alef and tatweel carry no meaning for search
+const ARABIC_MARKS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/g;
+
+// Matches come back wrapped in these private-use characters so user text can be escaped before marking
+export const HIGHLIGHT_START = '\uE000';
+export const HIGHLIGHT_END = '\uE001';
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  phrases: string[];
+  excluded: string[];
+}
+
+/**
+ * Folds the spelling variants Arabic writers use interchangeably so that
+ * "الْحَمْدُ" matches "الحمد" and "إيمان" matches "ايمان". Kept in step with
+ * normalize_arabic() in the Postgres migration.
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .replace(ARABIC_MARKS, '')
+    .replace(/[\u0622\u0623\u0625\u0671]/g, '\u0627')
+    .replace(/\u0649/g, '\u064A')
+    .replace(/\u0629/g, '\u0647');
+}
+
+/**
+ * Splits a search box query into words, "quoted phrases" and -excluded words,
+ * the same syntax Postgres' websearch_to_tsquery accepts.
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { terms: [], phrases: [], excluded: [] };
+  const text = normalizeSearchText(input);
+  const tokenPattern = /(-?)"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(text)) !== null) {
+    const [, negation, phrase, word] = match;
+
+    if (phrase !== undefined) {
+      const words = phrase.trim();
+      if (!words) continue;
+      if (negation) {
+        parsed.excluded.push(words);
+      } else {
+        parsed.phrases.push(words);
+      }
+    } else if (word.startsWith('-') && word.length > 1) {
+      parsed.excluded.push(word.slice(1));
+    } else if (word !== '-') {
+      parsed.terms.push(word);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Builds an FTS5 MATCH expression. Every term is quoted so operators and
+ * punctuation typed by the user are searched for rather than interpreted.
+ * Returns null when nothing positive is left to match.
+ */
+export function toFtsMatchExpression(query: ParsedSearchQuery): string | null {
+  const quote = (text: string) => `"${text.replace(/"/g, '""')}"`;
+  const required = [...query.phrases, ...query.terms].map(quote);
+
+  if (required.length === 0) {
+    return null;
+  }
+
+  return [required.join(' '), ...query.excluded.map(text => `NOT ${quote(text)}`)].join(' ');
+}
+
+/**
+ * Escapes the entry text for HTML and turns the match markers into <mark> tags.
+ */
+export function formatHighlight(raw: string | null): string | null {
+  if (!raw) return null;
+
+  return raw
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .split(HIGHLIGHT_START).join('<mark>')
+    .split(HIGHLIGHT_END).join('</mark>');
+}
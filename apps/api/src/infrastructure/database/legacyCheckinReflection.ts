@@ -0,0 +1,43 @@
+// Check-ins used to store gratitude and improvements appended to the reflection:
+//
+//   <reflection>\n\nGratitude:\n1. <item>\n2. <item>\n\nImprovements:\n<text>
+//
+// Used by the SQLite migration; the Postgres migration applies the same rules in SQL.
+
+const GRATITUDE_HEADING = /(?:^|\n\n)Gratitude:\n/;
+const IMPROVEMENTS_HEADING = /(?:^|\n\n)Improvements:\n/;
+
+export interface CheckinReflectionSections {
+  reflection: string | null;
+  gratitude: string[];
+  improvements: string | null;
+}
+
+/**
+ * Splits a legacy combined reflection back into its parts. Text without the
+ * headings is returned unchanged as the reflection.
+ */
+export function splitLegacyReflection(text: string): CheckinReflectionSections {
+  let remaining = text;
+  let improvements: string | null = null;
+  let gratitude: string[] = [];
+
+  // Improvements were always appended last
+  const improvementsMatch = IMPROVEMENTS_HEADING.exec(remaining);
+  if (improvementsMatch) {
+    improvements = remaining.slice(improvementsMatch.index + improvementsMatch[0].length).trim() || null;
+    remaining = remaining.slice(0, improvementsMatch.index);
+  }
+
+  const gratitudeMatch = GRATITUDE_HEADING.exec(remaining);
+  if (gratitudeMatch) {
+    gratitude = remaining
+      .slice(gratitudeMatch.index + gratitudeMatch[0].length)
+      .split('\n')
+      .map(line => line.replace(/^\d+\.\s*/, '').trim())
+      .filter(Boolean);
+    remaining = remaining.slice(0, gratitudeMatch.index);
+  }
+
+  return { reflection: remaining.trim() || null, gratitude, improvements };
+}
@@ -9,10 +9,87 @@ import {
   Habit,
   HabitCompletion,
   Checkin,
+  CheckinSession,
   JournalEntry,
 } from '@sakinah/types';
 import { BaseDatabaseClient } from '../base';
-import { DatabaseResult, UserPreferencesData, UserPreferencesRow, OnboardingData, OnboardingRow } from '../types';
+import {
+  HIGHLIGHT_START,
+  HIGHLIGHT_END,
+  normalizeSearchText,
+  parseSearchQuery,
+  toFtsMatchExpression,
+  formatHighlight
+} from '../journalSearch';
+import { splitLegacyReflection } from '../legacyCheckinReflection';
+import {
+  DatabaseResult,
+  ContentTranslationData,
+  UserPreferencesData,
+  UserPreferencesRow,
+  OnboardingData,
+  OnboardingRow,
+  SyncOperationData,
+  SyncOperationRow,
+  SyncConflictData,
+  SyncConflictRow,
+  SyncDeviceData,
+  SyncDeviceRow,
+  SyncChangeEntity,
+  SyncChangeWindow,
+  SyncChangeData,
+  SyncTombstoneRow,
+  SyncTombstoneData,
+  IntentionData,
+  IntentionRow,
+  AchievementData,
+  AchievementRow,
+  UserStatsData,
+  UserStatsRow,
+  CircleData,
+  CircleMemberData,
+  CircleEncouragementData,
+  CircleProgressData,
+  CircleRole,
+  CircleStatus,
+  CircleEncouragementType,
+  NotificationData,
+  NotificationStatusData,
+  NotificationTypeData,
+  PushSubscriptionData,
+  DhikrSessionData,
+  DhikrSessionRow,
+  DhikrStatsData,
+  CalculationSettingsData,
+  JournalSearchFilters,
+  JournalSearchData,
+  SurveyResultRow,
+  SurveyResultData,
+  SurveyProgressRow,
+  SurveyProgressData,
+  SurveyQuestionRow,
+  SurveyQuestionTranslationRow,
+  SurveyQuestionBankData,
+} from '../types';
+
+const SYNC_CHANGE_TABLES: Record<SyncChangeEntity, string> = {
+  habit: 'habits',
+  journal: 'journals',
+  checkin: 'checkins',
+  intention: 'intentions',
+  dhikr: 'dhikr_sessions'
+};
+
+// Preference values stored before they were unified with the prayer-times calculation methods
+const LEGACY_CALCULATION_METHODS: Record<string, string> = {
+  ISNA: 'NorthAmerica',
+  MWL: 'MuslimWorldLeague',
+  Egypt: 'Egyptian',
+  Makkah: 'UmmAlQura',
+  Karachi: 'Karachi',
+  Tehran: 'Tehran',
+  Jafari: 'Jafari'
+};
 
 export class DevelopmentDatabaseClient extends BaseDatabaseClient {
   private sqliteDb: Database.Database | null = null;
@@ -30,11 +107,84 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
 
     const db = new Database(fullPath);
 
+    // The journal search triggers call this, so it has to exist before any journal is written
+    db.function('search_normalize', { deterministic: true }, (text: unknown) =>
+      typeof text === 'string' ? normalizeSearchText(text) : text
+    );
+
     // Create tables from schema
     const schemaPath = join(__dirname, 'schema.sql');
     const schema = readFileSync(schemaPath, 'utf8');
     db.exec(schema);
 
+    // Databases created before change tracking lack updated_at on these tables
+    for (const table of ['habits', 'checkins', 'journals']) {
+      const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+      if (!columns.some(column => column.name === 'updated_at')) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN updated_at TEXT`);
+        db.exec(`UPDATE ${table} SET updated_at = created_at`);
+      }
+    }
+
+    // Databases created before the completion grace window lack habit_settings
+    const preferenceColumns = db.prepare('PRAGMA table_info(user_preferences)').all() as { name: string }[];
+    if (!preferenceColumns.some(column => column.name === 'habit_settings')) {
+      db.exec(`ALTER TABLE user_preferences ADD COLUMN habit_settings TEXT DEFAULT '{}'`);
+    }
+    if (!preferenceColumns.some(column => column.name === 'calendar_settings')) {
+      db.exec(`ALTER TABLE user_preferences ADD COLUMN calendar_settings TEXT DEFAULT '{}'`);
+    }
+    if (!preferenceColumns.some(column => column.name === 'prayer_settings')) {
+      db.exec(`ALTER TABLE user_preferences ADD COLUMN prayer_settings TEXT DEFAULT '{}'`);
+    }
+
+    // The legacy method names are baked into the CHECK constraint, so the table has to be rebuilt
+    const preferencesTable = db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'user_preferences'`)
+      .get() as { sql: string };
+    if (preferencesTable.sql.includes(`'ISNA'`)) {
+      this.migrateLegacyCalculationMethods(db, schema);
+    }
+
+    // Check-ins saved before gratitude and improvements had their own columns kept them in the reflection
+    const checkinColumns = db.prepare('PRAGMA table_info(checkins)').all() as { name: string }[];
+    if (!checkinColumns.some(column => column.name === 'gratitude')) {
+      db.exec(`ALTER TABLE checkins ADD COLUMN gratitude TEXT DEFAULT '[]'`);
+      db.exec('ALTER TABLE checkins ADD COLUMN improvements TEXT');
+      this.migrateLegacyCheckinReflections(db);
+    }
+
+    // Check-ins from before morning and evening sessions allowed one per day, enforced by the UNIQUE constraint
+    if (!checkinColumns.some(column => column.name === 'session')) {
+      this.migrateCheckinSessions(db, schema);
+    }
+
+    // Survey results from before retakes were one per user, enforced by a UNIQUE user_id
+    const surveyProgressColumns = db.prepare('PRAGMA table_info(survey_progress)').all() as { name: string }[];
+    if (!surveyProgressColumns.some(column => column.name === 'attempt_number')) {
+      db.exec('ALTER TABLE survey_progress ADD COLUMN attempt_number INTEGER NOT NULL DEFAULT 1');
+    }
+    const surveyResultColumns = db.prepare('PRAGMA table_info(survey_results)').all() as { name: string }[];
+    if (!surveyResultColumns.some(column => column.name === 'attempt_number')) {
+      this.migrateSurveyAttempts(db, schema);
+    }
+
+    // Prayer times cached before Asr madhab and high-latitude support lack calculation_settings
+    const prayerTimesColumns = db.prepare('PRAGMA table_info(prayer_times)').all() as { name: string }[];
+    if (!prayerTimesColumns.some(column => column.name === 'calculation_settings')) {
+      db.exec(`ALTER TABLE prayer_times ADD COLUMN calculation_settings TEXT DEFAULT '{}'`);
+    }
+
+    // Journals written before full-text search have no index entries
+    const indexed = db.prepare('SELECT COUNT(*) as count FROM journals_fts_docsize').get() as { count: number };
+    const journals = db.prepare('SELECT COUNT(*) as count FROM journals').get() as { count: number };
+    if (indexed.count !== journals.count) {
+      db.exec(`
+        INSERT INTO journals_fts (journals_fts) VALUES ('delete-all');
+        INSERT INTO journals_fts (rowid, content, tags)
+        SELECT rowid, search_normalize(content), search_normalize(tags) FROM journals;
+      `);
+    }
+
     // Seed data if content_snippets table is empty
     const count = db.prepare('SELECT COUNT(*) as count FROM content_snippets').get() as { count: number };
     if (count.count === 0) {
@@ -58,6 +208,72 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
     return db;
   }
 
+  private migrateLegacyCheckinReflections(db: Database.Database): void {
+    const rows = db.prepare(`
+      SELECT id, reflection FROM checkins
+      WHERE reflection LIKE '%Gratitude:%' OR reflection LIKE '%Improvements:%'
+    `).all() as { id: string; reflection: string }[];
+    const update = db.prepare('UPDATE checkins SET reflection = ?, gratitude = ?, improvements = ? WHERE id = ?');
+
+    db.transaction(() => {
+      for (const row of rows) {
+        const sections = splitLegacyReflection(row.reflection);
+        update.run(sections.reflection, JSON.stringify(sections.gratitude), sections.improvements, row.id);
+      }
+    })();
+  }
+
+  private migrateCheckinSessions(db: Database.Database, schema: string): void {
+    const columns = (db.prepare('PRAGMA table_info(checkins)').all() as { name: string }[])
+      .map(column => column.name);
+
+    db.transaction(() => {
+      db.exec('ALTER TABLE checkins RENAME TO checkins_legacy');
+      db.exec('DROP INDEX IF EXISTS idx_checkins_user_date');
+      db.exec('DROP TRIGGER IF EXISTS trg_checkins_tombstone');
+      db.exec(schema);
+      // A check-in with nothing but an intention was a morning check-in
+      db.exec(`INSERT INTO checkins (${columns.join(', ')}, session)
+        SELECT ${columns.join(', ')},
+          CASE WHEN intention IS NOT NULL AND reflection IS NULL AND improvements IS NULL
+            AND coalesce(gratitude, '[]') = '[]' THEN 'morning' ELSE 'evening' END
+        FROM checkins_legacy`);
+      db.exec('DROP TABLE checkins_legacy');
+    })();
+  }
+
+  private migrateSurveyAttempts(db: Database.Database, schema: string): void {
+    const columns = (db.prepare('PRAGMA table_info(survey_results)').all() as { name: string }[])
+      .map(column => column.name);
+
+    db.transaction(() => {
+      db.exec('ALTER TABLE survey_results RENAME TO survey_results_legacy');
+      db.exec('DROP INDEX IF EXISTS idx_survey_results_user');
+      db.exec(schema);
+      // Every existing result was the user's first attempt
+      db.exec(`INSERT INTO survey_results (${columns.join(', ')})
+        SELECT ${columns.join(', ')} FROM survey_results_legacy`);
+      db.exec('DROP TABLE survey_results_legacy');
+    })();
+  }
+
+  private migrateLegacyCalculationMethods(db: Database.Database, schema: string): void {
+    const columns = (db.prepare('PRAGMA table_info(user_preferences)').all() as { name: string }[])
+      .map(column => column.name);
+    const mappedMethod = `CASE prayer_calculation_method ${Object.entries(LEGACY_CALCULATION_METHODS)
+      .map(([legacy, method]) => `WHEN '${legacy}' THEN '${method}'`)
+      .join(' ')} ELSE 'MuslimWorldLeague' END`;
+    const selected = columns.map(column => column === 'prayer_calculation_method' ? mappedMethod : column);
+
+    db.transaction(() => {
+      db.exec('ALTER TABLE user_preferences RENAME TO user_preferences_legacy');
+      db.exec(schema);
+      db.exec(`INSERT INTO user_preferences (${columns.join(', ')})
+        SELECT ${selected.join(', ')} FROM user_preferences_legacy`);
+      db.exec('DROP TABLE user_preferences_legacy');
+    })();
+  }
+
   // User operations
   async getUserById(id: string): Promise<DatabaseResult<User | null>> {
     try {
@@ -188,6 +404,29 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
     }
   }
 
+  async getContentTranslations(contentIds: string[], locale: 'en' | 'ar'): Promise<DatabaseResult<ContentTranslationData[]>> {
+    try {
+      if (contentIds.length === 0) {
+        return this.formatSuccessResult([]);
+      }
+
+      const placeholders = contentIds.map(() => '?').join(', ');
+      const rows = this.db.prepare(`
+        SELECT content_id, locale, text, ref FROM content_translations
+        WHERE locale = ? AND content_id IN (${placeholders})
+      `).all(locale, ...contentIds) as { content_id: string; locale: 'en' | 'ar'; text: string; ref: string | null }[];
+
+      return this.formatSuccessResult(rows.map(row => ({
+        contentId: row.content_id,
+        locale: row.locale,
+        text: row.text,
+        ref: row.ref
+      })));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
   // Plan operations
   async createPlan(data: {
     userId: string;
@@ -280,9 +519,9 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
       const createdAt = this.getCurrentTimestamp();
 
       this.db.prepare(`
-        INSERT INTO habits (id, user_id, plan_id, title, schedule, created_at)
-        VALUES (?, ?, ?, ?, ?, ?)
-      `).run(id, data.userId, data.planId, data.title, JSON.stringify(data.schedule), createdAt);
+        INSERT INTO habits (id, user_id, plan_id, title, schedule, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(id, data.userId, data.planId, data.title, JSON.stringify(data.schedule), createdAt, createdAt);
 
       const habit = this.db.prepare('SELECT * FROM habits WHERE id = ?').get(id) as any;
       habit.schedule = JSON.parse(habit.schedule);
@@ -305,6 +544,19 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
     }
   }
 
+  async getAllHabits(): Promise<DatabaseResult<Habit[]>> {
+    try {
+      const rows = this.db.prepare('SELECT * FROM habits ORDER BY created_at').all() as any[];
+      const results = rows.map(row => {
+        row.schedule = JSON.parse(row.schedule);
+        return this.mapHabitRow(row)!;
+      });
+      return this.formatSuccessResult(results);
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
   async getHabitById(id: string): Promise<DatabaseResult<Habit | null>> {
     try {
       const row = this.db.prepare('SELECT * FROM habits WHERE id = ?').get(id) as any;
@@ -323,8 +575,8 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
     lastCompletedOn?: string
   ): Promise<DatabaseResult<Habit>> {
     try {
-      this.db.prepare('UPDATE habits SET streak_count = ?, last_completed_on = ? WHERE id = ?')
-        .run(streakCount, lastCompletedOn || null, id);
+      this.db.prepare('UPDATE habits SET streak_count = ?, last_completed_on = ?, updated_at = ? WHERE id = ?')
+        .run(streakCount, lastCompletedOn || null, this.getCurrentTimestamp(), id);
 
       const habit = this.db.prepare('SELECT * FROM habits WHERE id = ?').get(id) as any;
       habit.schedule = JSON.parse(habit.schedule);
@@ -390,30 +642,46 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
   async createCheckin(data: {
     userId: string;
     date: string;
+    session?: CheckinSession;
     mood?: number;
     intention?: string;
     reflection?: string;
+    gratitude?: string[];
+    improvements?: string;
   }): Promise<DatabaseResult<Checkin>> {
     try {
       const id = this.generateId();
       const createdAt = this.getCurrentTimestamp();
 
       this.db.prepare(`
-        INSERT INTO checkins (id, user_id, date, mood, intention, reflection, created_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?)
-      `).run(id, data.userId, data.date, data.mood || null, data.intention || null, data.reflection || null, createdAt);
+        INSERT INTO checkins (id, user_id, date, session, mood, intention, reflection, gratitude, improvements, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id,
+        data.userId,
+        data.date,
+        data.session || 'evening',
+        data.mood || null,
+        data.intention || null,
+        data.reflection || null,
+        JSON.stringify(data.gratitude || []),
+        data.improvements || null,
+        createdAt,
+        createdAt
+      );
 
       const checkin = this.db.prepare('SELECT * FROM checkins WHERE id = ?').get(id) as any;
-      return this.formatSuccessResult(this.mapCheckinRow(checkin)!);
+      return this.formatSuccessResult(this.mapStoredCheckinRow(checkin)!);
     } catch (error) {
       return this.formatResult(null, error as Error);
     }
   }
 
-  async getCheckinByDate(userId: string, date: string): Promise<DatabaseResult<Checkin | null>> {
+  async getCheckinByDate(userId: string, date: string, session: CheckinSession): Promise<DatabaseResult<Checkin | null>> {
     try {
-      const row = this.db.prepare('SELECT * FROM checkins WHERE user_id = ? AND date = ?').get(userId, date) as any;
-      return this.formatSuccessResult(this.mapCheckinRow(row));
+      const row = this.db.prepare('SELECT * FROM checkins WHERE user_id = ? AND date = ? AND session = ?')
+        .get(userId, date, session) as any;
+      return this.formatSuccessResult(this.mapStoredCheckinRow(row));
     } catch (error) {
       return this.formatResult(null, error as Error);
     }
@@ -426,6 +694,8 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
       mood?: number;
       intention?: string;
       reflection?: string;
+      gratitude?: string[];
+      improvements?: string;
     }
   ): Promise<DatabaseResult<Checkin>> {
     try {
@@ -444,17 +714,26 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
         setParts.push('reflection = ?');
         values.push(updates.reflection);
       }
+      if (updates.gratitude !== undefined) {
+        setParts.push('gratitude = ?');
+        values.push(JSON.stringify(updates.gratitude || []));
+      }
+      if (updates.improvements !== undefined) {
+        setParts.push('improvements = ?');
+        values.push(updates.improvements);
+      }
 
       if (setParts.length === 0) {
         const checkin = this.db.prepare('SELECT * FROM checkins WHERE id = ? AND user_id = ?').get(id, userId) as any;
-        return this.formatSuccessResult(this.mapCheckinRow(checkin)!);
+        return this.formatSuccessResult(this.mapStoredCheckinRow(checkin)!);
       }
 
-      values.push(id, userId);
+      setParts.push('updated_at = ?');
+      values.push(this.getCurrentTimestamp(), id, userId);
       this.db.prepare(`UPDATE checkins SET ${setParts.join(', ')} WHERE id = ? AND user_id = ?`).run(...values);
 
       const checkin = this.db.prepare('SELECT * FROM checkins WHERE id = ? AND user_id = ?').get(id, userId) as any;
-      return this.formatSuccessResult(this.mapCheckinRow(checkin)!);
+      return this.formatSuccessResult(this.mapStoredCheckinRow(checkin)!);
     } catch (error) {
       return this.formatResult(null, error as Error);
     }
@@ -486,7 +765,8 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
 
       const orderBy = filters?.orderBy || 'date';
       const orderDirection = filters?.orderDirection || 'DESC';
-      query += ` ORDER BY ${orderBy} ${orderDirection}`;
+      // 'evening' sorts after 'morning', so sessions follow the date's direction
+      query += ` ORDER BY ${orderBy} ${orderDirection}, session ${orderDirection}`;
 
       if (filters?.limit) {
         query += ' LIMIT ?';
@@ -498,7 +778,7 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
       }
 
       const rows = this.db.prepare(query).all(...params) as any[];
-      const checkins = rows.map(row => this.mapCheckinRow(row)).filter(Boolean) as Checkin[];
+      const checkins = rows.map(row => this.mapStoredCheckinRow(row)).filter(Boolean) as Checkin[];
       return this.formatSuccessResult(checkins);
     } catch (error) {
       return this.formatResult(null, error as Error);
@@ -542,8 +822,8 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
       const id = this.generateId();
       const createdAt = this.getCurrentTimestamp();
 
-      this.db.prepare('INSERT INTO journals (id, user_id, content, tags, created_at) VALUES (?, ?, ?, ?, ?)')
-        .run(id, data.userId, data.content, JSON.stringify(data.tags || []), createdAt);
+      this.db.prepare('INSERT INTO journals (id, user_id, content, tags, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)')
+        .run(id, data.userId, data.content, JSON.stringify(data.tags || []), createdAt, createdAt);
 
       const journal = this.db.prepare('SELECT * FROM journals WHERE id = ?').get(id) as any;
       journal.tags = JSON.parse(journal.tags || '[]');
@@ -630,6 +910,72 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
     }
   }
 
+  async searchJournals(userId: string, filters: JournalSearchFilters): Promise<DatabaseResult<JournalSearchData>> {
+    try {
+      const page = filters.page || 1;
+      const limit = filters.limit || 20;
+      const match = filters.query ? toFtsMatchExpression(parseSearchQuery(filters.query)) : null;
+      const sortBy = filters.sortBy || (match ? 'relevance' : 'createdAt');
+      const sortOrder = filters.sortOrder || 'desc';
+
+      const conditions = ['j.user_id = ?'];
+      const params: unknown[] = [userId];
+
+      if (match) {
+        conditions.push('journals_fts MATCH ?');
+        params.push(match);
+      }
+
+      if (filters.tags && filters.tags.length > 0) {
+        const placeholders = filters.tags.map(() => '?').join(', ');
+        conditions.push(`EXISTS (SELECT 1 FROM json_each(j.tags) WHERE lower(json_each.value) IN (${placeholders}))`);
+        params.push(...filters.tags.map(tag => tag.toLowerCase()));
+      }
+
+      if (filters.from) {
+        conditions.push('j.created_at >= ?');
+        params.push(filters.from);
+      }
+
+      if (filters.to) {
+        conditions.push('j.created_at < ?');
+        params.push(filters.to);
+      }
+
+      const source = match ? 'journals_fts JOIN journals j ON j.rowid = journals_fts.rowid' : 'journals j';
+      const where = conditions.join(' AND ');
+
+      const countResult = this.db.prepare(`SELECT COUNT(*) as count FROM ${source} WHERE ${where}`)
+        .get(...params) as { count: number };
+
+      // bm25() is lower-is-better; content counts double against tags
+      const columns = match
+        ? `j.*, -bm25(journals_fts, 2.0, 1.0) AS score, snippet(journals_fts, 0, ?, ?, '…', 24) AS highlight`
+        : 'j.*, 0 AS score, NULL AS highlight';
+      const orderBy = sortBy === 'content' ? 'j.content' : sortBy === 'relevance' && match ? 'score' : 'j.created_at';
+
+      const rows = this.db.prepare(`
+        SELECT ${columns} FROM ${source}
+        WHERE ${where}
+        ORDER BY ${orderBy} ${sortOrder.toUpperCase()}, j.created_at DESC
+        LIMIT ? OFFSET ?
+      `).all(...(match ? [HIGHLIGHT_START, HIGHLIGHT_END] : []), ...params, limit, (page - 1) * limit) as any[];
+
+      const hits = rows.map(row => {
+        row.tags = JSON.parse(row.tags || '[]');
+        return {
+          entry: this.mapJournalRow(row)!,
+          rank: row.score,
+          highlight: formatHighlight(row.highlight)
+        };
+      });
+
+      return this.formatSuccessResult({ hits, total: countResult.count });
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
   async getJournalById(id: string): Promise<DatabaseResult<JournalEntry | null>> {
     try {
       const row = this.db.prepare('SELECT * FROM journals WHERE id = ?').get(id) as any;
@@ -666,7 +1012,8 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
         return this.formatSuccessResult(this.mapJournalRow(journal)!);
       }
 
-      values.push(id, userId);
+      setParts.push('updated_at = ?');
+      values.push(this.getCurrentTimestamp(), id, userId);
       this.db.prepare(`UPDATE journals SET ${setParts.join(', ')} WHERE id = ? AND user_id = ?`).run(...values);
 
       const journal = this.db.prepare('SELECT * FROM journals WHERE id = ? AND user_id = ?').get(id, userId) as any;
@@ -695,6 +1042,7 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
     country?: string;
     timezone?: string;
     calculationMethod: string;
+    calculationSettings?: CalculationSettingsData;
     date: string;
     fajr: string;
     sunrise: string;
@@ -713,14 +1061,14 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
       this.db.prepare(`
         INSERT INTO prayer_times (
           id, user_id, latitude, longitude, city, country, timezone,
-          calculation_method, date, fajr, sunrise, dhuhr, asr, maghrib, isha,
+          calculation_method, calculation_settings, date, fajr, sunrise, dhuhr, asr, maghrib, isha,
           qiyam, hijri_date, valid_until, created_at
         )
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).run(
         id, data.userId, data.latitude, data.longitude, data.city || null,
         data.country || null, data.timezone || null, data.calculationMethod,
-        data.date, data.fajr, data.sunrise, data.dhuhr, data.asr,
+        JSON.stringify(data.calculationSettings || {}), data.date, data.fajr, data.sunrise, data.dhuhr, data.asr,
         data.maghrib, data.isha, data.qiyam || null, data.hijriDate || null,
         data.validUntil, createdAt
       );
@@ -743,7 +1091,12 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
 
   async getPrayerTimesByUserAndDate(userId: string, date: string): Promise<DatabaseResult<any | null>> {
     try {
-      const row = this.db.prepare('SELECT * FROM prayer_times WHERE user_id = ? AND date = ?').get(userId, date) as any;
+      const row = this.db.prepare(`
+        SELECT * FROM prayer_times
+        WHERE user_id = ? AND date = ?
+        ORDER BY created_at DESC
+        LIMIT 1
+      `).get(userId, date) as any;
       return this.formatSuccessResult(this.mapPrayerTimesRow(row));
     } catch (error) {
       return this.formatResult(null, error as Error);
@@ -817,6 +1170,14 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
     }
   }
 
+  // Gratitude items are stored as a JSON array
+  private mapStoredCheckinRow(row: any): Checkin | null {
+    if (row) {
+      row.gratitude = JSON.parse(row.gratitude || '[]');
+    }
+    return this.mapCheckinRow(row);
+  }
+
   private mapPrayerTimesRow(row: any): any | null {
     if (!row) return null;
 
@@ -831,6 +1192,7 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
         timezone: row.timezone
       },
       calculationMethod: row.calculation_method,
+      calculationSettings: row.calculation_settings ? JSON.parse(row.calculation_settings) : {},
       date: row.date,
       prayerTimes: {
         fajr: row.fajr,
@@ -867,9 +1229,9 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
       const stmt = this.db.prepare(`
         INSERT INTO user_preferences (
           user_id, language, location, prayer_calculation_method,
-          notification_settings, privacy_settings, display_settings,
-          updated_at, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          notification_settings, privacy_settings, display_settings, habit_settings,
+          calendar_settings, prayer_settings, updated_at, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       stmt.run(
@@ -880,6 +1242,9 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
         JSON.stringify(data.notificationSettings || {}),
         JSON.stringify(data.privacySettings || {}),
         JSON.stringify(data.displaySettings || {}),
+        JSON.stringify(data.habitSettings || {}),
+        JSON.stringify(data.calendarSettings || {}),
+        JSON.stringify(data.prayerSettings || {}),
         data.updatedAt || this.getCurrentTimestamp(),
         data.createdAt || this.getCurrentTimestamp()
       );
@@ -904,7 +1269,7 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
         UPDATE user_preferences
         SET language = ?, location = ?, prayer_calculation_method = ?,
             notification_settings = ?, privacy_settings = ?, display_settings = ?,
-            updated_at = ?
+            habit_settings = ?, calendar_settings = ?, prayer_settings = ?, updated_at = ?
         WHERE user_id = ?
       `);
 
@@ -915,6 +1280,9 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
         JSON.stringify(merged.notificationSettings || {}),
         JSON.stringify(merged.privacySettings || {}),
         JSON.stringify(merged.displaySettings || {}),
+        JSON.stringify(merged.habitSettings || {}),
+        JSON.stringify(merged.calendarSettings || {}),
+        JSON.stringify(merged.prayerSettings || {}),
         this.getCurrentTimestamp(),
         userId
       );
@@ -935,9 +1303,9 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
       const stmt = this.db.prepare(`
         INSERT INTO user_preferences (
           user_id, language, location, prayer_calculation_method,
-          notification_settings, privacy_settings, display_settings,
-          updated_at, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          notification_settings, privacy_settings, display_settings, habit_settings,
+          calendar_settings, prayer_settings, updated_at, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         ON CONFLICT(user_id) DO UPDATE SET
           language = excluded.language,
           location = excluded.location,
@@ -945,6 +1313,9 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
           notification_settings = excluded.notification_settings,
           privacy_settings = excluded.privacy_settings,
           display_settings = excluded.display_settings,
+          habit_settings = excluded.habit_settings,
+          calendar_settings = excluded.calendar_settings,
+          prayer_settings = excluded.prayer_settings,
           updated_at = excluded.updated_at
       `);
 
@@ -957,6 +1328,9 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
         JSON.stringify(data.notificationSettings || {}),
         JSON.stringify(data.privacySettings || {}),
         JSON.stringify(data.displaySettings || {}),
+        JSON.stringify(data.habitSettings || {}),
+        JSON.stringify(data.calendarSettings || {}),
+        JSON.stringify(data.prayerSettings || {}),
         now,
         data.createdAt || now
       );
@@ -991,6 +1365,9 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
       notificationSettings: row.notification_settings ? JSON.parse(row.notification_settings) : {},
       privacySettings: row.privacy_settings ? JSON.parse(row.privacy_settings) : {},
       displaySettings: row.display_settings ? JSON.parse(row.display_settings) : {},
+      habitSettings: row.habit_settings ? JSON.parse(row.habit_settings) : {},
+      calendarSettings: row.calendar_settings ? JSON.parse(row.calendar_settings) : {},
+      prayerSettings: row.prayer_settings ? JSON.parse(row.prayer_settings) : {},
       updatedAt: row.updated_at,
       createdAt: row.created_at
     };
@@ -1376,6 +1753,7 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
 
   async createSurveyResult(data: {
     userId: string;
+    attemptNumber?: number;
     diseaseScores: any;
     criticalDiseases: any;
     reflectionAnswers: any;
@@ -1388,6 +1766,7 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
 
   async saveSurveyResult(data: {
     userId: string;
+    attemptNumber?: number;
     diseaseScores: any;
     criticalDiseases: any;
     reflectionAnswers: any;
@@ -1401,12 +1780,12 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
 
       this.db.prepare(`
         INSERT INTO survey_results (
-          id, user_id, disease_scores, critical_diseases, reflection_answers,
+          id, user_id, attempt_number, disease_scores, critical_diseases, reflection_answers,
           personalized_habits, tazkiyah_plan, radar_chart_data, generated_at, updated_at
         )
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).run(
-        id, data.userId,
+        id, data.userId, data.attemptNumber ?? 1,
         JSON.stringify(data.diseaseScores),
         JSON.stringify(data.criticalDiseases),
         JSON.stringify(data.reflectionAnswers),
@@ -1416,16 +1795,8 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
         createdAt, createdAt
       );
 
-      const result = this.db.prepare('SELECT * FROM survey_results WHERE id = ?').get(id) as any;
-      if (result) {
-        result.disease_scores = JSON.parse(result.disease_scores);
-        result.critical_diseases = JSON.parse(result.critical_diseases);
-        result.reflection_answers = JSON.parse(result.reflection_answers);
-        result.personalized_habits = JSON.parse(result.personalized_habits);
-        result.tazkiyah_plan = JSON.parse(result.tazkiyah_plan);
-        result.radar_chart_data = result.radar_chart_data ? JSON.parse(result.radar_chart_data) : null;
-      }
-      return this.formatSuccessResult(result);
+      const result = this.db.prepare('SELECT * FROM survey_results WHERE id = ?').get(id) as SurveyResultRow;
+      return this.formatSuccessResult(this.mapSurveyResultRow(result));
     } catch (error) {
       return this.formatResult(null, error as Error);
     }
@@ -1433,24 +1804,11 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
 
   async getSurveyResult(userId: string): Promise<DatabaseResult<any | null>> {
     try {
-      const row = this.db.prepare('SELECT * FROM survey_results WHERE user_id = ?').get(userId) as any;
-      if (row) {
-        // Parse JSON fields and convert snake_case to camelCase
-        const mappedRow = {
-          id: row.id,
-          userId: row.user_id,
-          diseaseScores: JSON.parse(row.disease_scores),
-          criticalDiseases: JSON.parse(row.critical_diseases),
-          reflectionAnswers: JSON.parse(row.reflection_answers),
-          personalizedHabits: JSON.parse(row.personalized_habits),
-          tazkiyahPlan: JSON.parse(row.tazkiyah_plan),
-          radarChartData: row.radar_chart_data ? JSON.parse(row.radar_chart_data) : null,
-          generatedAt: row.generated_at,
-          updatedAt: row.updated_at
-        };
-        return this.formatSuccessResult(mappedRow);
-      }
-      return this.formatSuccessResult(row);
+      const row = this.db.prepare(`
+        SELECT * FROM survey_results WHERE user_id = ?
+        ORDER BY attempt_number DESC LIMIT 1
+      `).get(userId) as SurveyResultRow | undefined;
+      return this.formatSuccessResult(this.mapSurveyResultRow(row));
     } catch (error) {
       return this.formatResult(null, error as Error);
     }
@@ -1460,18 +1818,20 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
     return this.getSurveyResult(userId);
   }
 
+  async getSurveyResultsByUserId(userId: string): Promise<DatabaseResult<any[]>> {
+    try {
+      const rows = this.db.prepare('SELECT * FROM survey_results WHERE user_id = ? ORDER BY attempt_number')
+        .all(userId) as SurveyResultRow[];
+      return this.formatSuccessResult(rows.map(row => this.mapSurveyResultRow(row)));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
   async getSurveyResultById(id: string): Promise<DatabaseResult<any | null>> {
     try {
-      const row = this.db.prepare('SELECT * FROM survey_results WHERE id = ?').get(id) as any;
-      if (row) {
-        row.disease_scores = JSON.parse(row.disease_scores);
-        row.critical_diseases = JSON.parse(row.critical_diseases);
-        row.reflection_answers = JSON.parse(row.reflection_answers);
-        row.personalized_habits = JSON.parse(row.personalized_habits);
-        row.tazkiyah_plan = JSON.parse(row.tazkiyah_plan);
-        row.radar_chart_data = row.radar_chart_data ? JSON.parse(row.radar_chart_data) : null;
-      }
-      return this.formatSuccessResult(row);
+      const row = this.db.prepare('SELECT * FROM survey_results WHERE id = ?').get(id) as SurveyResultRow | undefined;
+      return this.formatSuccessResult(this.mapSurveyResultRow(row));
     } catch (error) {
       return this.formatResult(null, error as Error);
     }
@@ -1522,7 +1882,11 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
       values.push(this.getCurrentTimestamp());
       values.push(userId);
 
-      this.db.prepare(`UPDATE survey_results SET ${setParts.join(', ')} WHERE user_id = ?`).run(...values);
+      // Earlier attempts are history, only the latest one changes
+      this.db.prepare(`
+        UPDATE survey_results SET ${setParts.join(', ')}
+        WHERE id = (SELECT id FROM survey_results WHERE user_id = ? ORDER BY attempt_number DESC LIMIT 1)
+      `).run(...values);
 
       return this.getSurveyResult(userId);
     } catch (error) {
@@ -1541,22 +1905,8 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
 
   async getSurveyProgressByUserId(userId: string): Promise<DatabaseResult<any | null>> {
     try {
-      const row = this.db.prepare('SELECT * FROM survey_progress WHERE user_id = ?').get(userId) as any;
-      if (row) {
-        // Convert SQLite format to expected format
-        const mapped = {
-          userId: row.user_id,
-          currentPhase: row.current_phase,
-          phase1Completed: Boolean(row.phase_1_completed),
-          phase2Completed: Boolean(row.phase_2_completed),
-          reflectionCompleted: Boolean(row.reflection_completed),
-          resultsGenerated: Boolean(row.results_generated),
-          startedAt: row.started_at,
-          lastUpdated: row.last_updated
-        };
-        return this.formatSuccessResult(mapped);
-      }
-      return this.formatSuccessResult(null);
+      const row = this.db.prepare('SELECT * FROM survey_progress WHERE user_id = ?').get(userId) as SurveyProgressRow | undefined;
+      return this.formatSuccessResult(this.mapSurveyProgressRow(row));
     } catch (error) {
       return this.formatResult(null, error as Error);
     }
@@ -1571,12 +1921,13 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
         // Create new record
         this.db.prepare(`
           INSERT INTO survey_progress (
-            user_id, current_phase, phase_1_completed, phase_2_completed,
+            user_id, attempt_number, current_phase, phase_1_completed, phase_2_completed,
             reflection_completed, results_generated, started_at, last_updated
           )
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
         `).run(
           userId,
+          updates.attemptNumber ?? 1,
           updates.currentPhase || 0,
           updates.phase1Completed ? 1 : 0,
           updates.phase2Completed ? 1 : 0,
@@ -1590,6 +1941,14 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
         const setParts: string[] = [];
         const values: any[] = [];
 
+        if (updates.attemptNumber !== undefined) {
+          setParts.push('attempt_number = ?');
+          values.push(updates.attemptNumber);
+        }
+        if (updates.startedAt !== undefined) {
+          setParts.push('started_at = ?');
+          values.push(updates.startedAt);
+        }
         if (updates.currentPhase !== undefined) {
           setParts.push('current_phase = ?');
           values.push(updates.currentPhase);
@@ -1669,6 +2028,7 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
 
   async createSurveyProgress(data: {
     userId: string;
+    attemptNumber?: number;
     currentPhase?: number;
     phase1Completed?: boolean;
     phase2Completed?: boolean;
@@ -1680,12 +2040,13 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
 
       this.db.prepare(`
         INSERT INTO survey_progress (
-          user_id, current_phase, phase_1_completed, phase_2_completed,
+          user_id, attempt_number, current_phase, phase_1_completed, phase_2_completed,
           reflection_completed, results_generated, started_at, last_updated
         )
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).run(
         data.userId,
+        data.attemptNumber ?? 1,
         data.currentPhase || 0,
         data.phase1Completed ? 1 : 0,
         data.phase2Completed ? 1 : 0,
@@ -1703,36 +2064,1304 @@ export class DevelopmentDatabaseClient extends BaseDatabaseClient {
 
   async getUserSurveyData(userId: string): Promise<DatabaseResult<any>> {
     try {
-      const progress = this.db.prepare('SELECT * FROM survey_progress WHERE user_id = ?').get(userId) as any;
+      const progress = this.db.prepare('SELECT * FROM survey_progress WHERE user_id = ?').get(userId) as SurveyProgressRow | undefined;
       const responses = this.db.prepare('SELECT * FROM survey_responses WHERE user_id = ? ORDER BY phase_number, created_at').all(userId) as any[];
-      const result = this.db.prepare('SELECT * FROM survey_results WHERE user_id = ?').get(userId) as any;
+      const result = this.db.prepare(`
+        SELECT * FROM survey_results WHERE user_id = ?
+        ORDER BY attempt_number DESC LIMIT 1
+      `).get(userId) as SurveyResultRow | undefined;
 
-      if (progress) {
-        progress.phase_1_completed = Boolean(progress.phase_1_completed);
-        progress.phase_2_completed = Boolean(progress.phase_2_completed);
-        progress.reflection_completed = Boolean(progress.reflection_completed);
-        progress.results_generated = Boolean(progress.results_generated);
-      }
+      return this.formatSuccessResult({
+        progress: this.mapSurveyProgressRow(progress),
+        responses: responses.map(row => this.mapSurveyResponseRow(row)),
+        result: this.mapSurveyResultRow(result)
+      });
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  // Survey question bank operations
+  async getSurveyQuestionBank(version?: number): Promise<DatabaseResult<SurveyQuestionBankData | null>> {
+    try {
+      const bank = (version === undefined
+        ? this.db.prepare('SELECT version, is_active FROM survey_question_banks WHERE is_active = 1').get()
+        : this.db.prepare('SELECT version, is_active FROM survey_question_banks WHERE version = ?').get(version)
+      ) as { version: number; is_active: number } | undefined;
 
-      if (result) {
-        result.disease_scores = JSON.parse(result.disease_scores);
-        result.critical_diseases = JSON.parse(result.critical_diseases);
-        result.reflection_answers = JSON.parse(result.reflection_answers);
-        result.personalized_habits = JSON.parse(result.personalized_habits);
-        result.tazkiyah_plan = JSON.parse(result.tazkiyah_plan);
-        result.radar_chart_data = result.radar_chart_data ? JSON.parse(result.radar_chart_data) : null;
+      if (!bank) {
+        return this.formatSuccessResult(null);
       }
 
+      const questions = this.db.prepare(`
+        SELECT * FROM survey_questions WHERE bank_version = ?
+        ORDER BY phase_number, display_order
+      `).all(bank.version) as SurveyQuestionRow[];
+      const translations = this.db.prepare(`
+        SELECT t.question_id, t.locale, t.title, t.prompt
+        FROM survey_question_translations t
+        JOIN survey_questions q ON q.id = t.question_id
+        WHERE q.bank_version = ?
+      `).all(bank.version) as SurveyQuestionTranslationRow[];
+
       return this.formatSuccessResult({
-        progress,
-        responses,
-        result
+        version: bank.version,
+        isActive: Boolean(bank.is_active),
+        questions: questions.map(row => {
+          const localized = translations.filter(translation => translation.question_id === row.id);
+          return {
+            id: row.id,
+            questionId: row.question_key,
+            disease: row.disease,
+            phase: row.phase_number,
+            category: row.category,
+            order: row.display_order,
+            title: Object.fromEntries(localized.map(translation => [translation.locale, translation.title])),
+            prompt: Object.fromEntries(localized.map(translation => [translation.locale, translation.prompt]))
+          };
+        })
       });
     } catch (error) {
       return this.formatResult(null, error as Error);
     }
   }
 
+  // Intention operations
+  async createIntention(data: {
+    userId: string;
+    text: string;
+    description?: string | null;
+    priority?: 'low' | 'medium' | 'high';
+    status?: 'active' | 'completed' | 'archived';
+    targetDate?: string | null;
+    completedAt?: string | null;
+    reminderEnabled?: boolean;
+    reminderTime?: string | null;
+    reminderDaysOfWeek?: number[] | null;
+    tags?: string[];
+  }): Promise<DatabaseResult<IntentionData>> {
+    try {
+      const id = this.generateId();
+      const now = this.getCurrentTimestamp();
+
+      this.db.prepare(`
+        INSERT INTO intentions (
+          id, user_id, text, description, priority, status, target_date, completed_at,
+          reminder_enabled, reminder_time, reminder_days_of_week, tags, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id,
+        data.userId,
+        data.text,
+        data.description || null,
+        data.priority || 'medium',
+        data.status || 'active',
+        data.targetDate || null,
+        data.completedAt || null,
+        data.reminderEnabled ? 1 : 0,
+        data.reminderTime || null,
+        data.reminderDaysOfWeek ? JSON.stringify(data.reminderDaysOfWeek) : null,
+        JSON.stringify(data.tags || []),
+        now,
+        now
+      );
+
+      const row = this.db.prepare('SELECT * FROM intentions WHERE id = ?').get(id) as IntentionRow;
+      return this.formatSuccessResult(this.mapIntentionRow(row)!);
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getIntentionById(id: string): Promise<DatabaseResult<IntentionData | null>> {
+    try {
+      const row = this.db.prepare('SELECT * FROM intentions WHERE id = ?').get(id) as IntentionRow | undefined;
+      return this.formatSuccessResult(this.mapIntentionRow(row || null));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async updateIntention(
+    id: string,
+    userId: string,
+    updates: {
+      text?: string;
+      description?: string | null;
+      priority?: 'low' | 'medium' | 'high';
+      status?: 'active' | 'completed' | 'archived';
+      targetDate?: string | null;
+      completedAt?: string | null;
+      reminderEnabled?: boolean;
+      reminderTime?: string | null;
+      reminderDaysOfWeek?: number[] | null;
+      tags?: string[];
+    }
+  ): Promise<DatabaseResult<IntentionData>> {
+    try {
+      const columns: Record<string, any> = {
+        text: updates.text,
+        description: updates.description,
+        priority: updates.priority,
+        status: updates.status,
+        target_date: updates.targetDate,
+        completed_at: updates.completedAt,
+        reminder_enabled: updates.reminderEnabled === undefined ? undefined : (updates.reminderEnabled ? 1 : 0),
+        reminder_time: updates.reminderTime,
+        reminder_days_of_week: updates.reminderDaysOfWeek === undefined
+          ? undefined
+          : (updates.reminderDaysOfWeek ? JSON.stringify(updates.reminderDaysOfWeek) : null),
+        tags: updates.tags === undefined ? undefined : JSON.stringify(updates.tags)
+      };
+
+      const setParts: string[] = [];
+      const values: any[] = [];
+      for (const [column, value] of Object.entries(columns)) {
+        if (value !== undefined) {
+          setParts.push(`${column} = ?`);
+          values.push(value);
+        }
+      }
+
+      setParts.push('updated_at = ?');
+      values.push(this.getCurrentTimestamp(), id, userId);
+      this.db.prepare(`UPDATE intentions SET ${setParts.join(', ')} WHERE id = ? AND user_id = ?`).run(...values);
+
+      const row = this.db.prepare('SELECT * FROM intentions WHERE id = ? AND user_id = ?').get(id, userId) as IntentionRow | undefined;
+      if (!row) {
+        return this.formatErrorResult('Intention not found');
+      }
+      return this.formatSuccessResult(this.mapIntentionRow(row)!);
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  // Dhikr session operations
+  async createDhikrSession(data: {
+    userId: string;
+    dhikrType: string;
+    dhikrText: string;
+    count?: number;
+    targetCount?: number;
+    date: string;
+    sessionStart?: string;
+    sessionEnd?: string;
+    notes?: string;
+    tags?: string[];
+  }): Promise<DatabaseResult<DhikrSessionData>> {
+    try {
+      const id = this.generateId();
+      const now = this.getCurrentTimestamp();
+
+      this.db.prepare(`
+        INSERT INTO dhikr_sessions (
+          id, user_id, dhikr_type, dhikr_text, count, target_count, date,
+          session_start, session_end, notes, tags, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id,
+        data.userId,
+        data.dhikrType,
+        data.dhikrText,
+        data.count || 0,
+        data.targetCount || null,
+        data.date,
+        data.sessionStart || now,
+        data.sessionEnd || null,
+        data.notes || null,
+        JSON.stringify(data.tags || []),
+        now,
+        now
+      );
+
+      const row = this.db.prepare('SELECT * FROM dhikr_sessions WHERE id = ?').get(id) as DhikrSessionRow;
+      return this.formatSuccessResult(this.mapDhikrSessionRow(row)!);
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getDhikrSessionById(id: string): Promise<DatabaseResult<DhikrSessionData | null>> {
+    try {
+      const row = this.db.prepare('SELECT * FROM dhikr_sessions WHERE id = ?').get(id) as DhikrSessionRow | undefined;
+      return this.formatSuccessResult(this.mapDhikrSessionRow(row || null));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getDhikrSessionsByDate(userId: string, date: string): Promise<DatabaseResult<DhikrSessionData[]>> {
+    try {
+      const rows = this.db.prepare(
+        'SELECT * FROM dhikr_sessions WHERE user_id = ? AND date = ? ORDER BY session_start'
+      ).all(userId, date) as DhikrSessionRow[];
+
+      return this.formatSuccessResult(rows.map(row => this.mapDhikrSessionRow(row)!));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async updateDhikrSession(
+    id: string,
+    userId: string,
+    updates: {
+      count?: number;
+      targetCount?: number;
+      sessionEnd?: string;
+      notes?: string;
+      tags?: string[];
+    }
+  ): Promise<DatabaseResult<DhikrSessionData>> {
+    try {
+      const columns: Record<string, any> = {
+        count: updates.count,
+        target_count: updates.targetCount,
+        session_end: updates.sessionEnd,
+        notes: updates.notes,
+        tags: updates.tags === undefined ? undefined : JSON.stringify(updates.tags)
+      };
+
+      const setParts: string[] = [];
+      const values: any[] = [];
+      for (const [column, value] of Object.entries(columns)) {
+        if (value !== undefined) {
+          setParts.push(`${column} = ?`);
+          values.push(value);
+        }
+      }
+
+      setParts.push('updated_at = ?');
+      values.push(this.getCurrentTimestamp(), id, userId);
+      this.db.prepare(`UPDATE dhikr_sessions SET ${setParts.join(', ')} WHERE id = ? AND user_id = ?`).run(...values);
+
+      const row = this.db.prepare('SELECT * FROM dhikr_sessions WHERE id = ? AND user_id = ?').get(id, userId) as DhikrSessionRow | undefined;
+      if (!row) {
+        return this.formatErrorResult('Dhikr session not found');
+      }
+      return this.formatSuccessResult(this.mapDhikrSessionRow(row)!);
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async incrementDhikrCount(id: string, userId: string, increment: number = 1): Promise<DatabaseResult<DhikrSessionData>> {
+    try {
+      // Add in place so concurrent increments are never lost
+      this.db.prepare('UPDATE dhikr_sessions SET count = count + ?, updated_at = ? WHERE id = ? AND user_id = ?')
+        .run(increment, this.getCurrentTimestamp(), id, userId);
+
+      const row = this.db.prepare('SELECT * FROM dhikr_sessions WHERE id = ? AND user_id = ?').get(id, userId) as DhikrSessionRow | undefined;
+      if (!row) {
+        return this.formatErrorResult('Dhikr session not found');
+      }
+      return this.formatSuccessResult(this.mapDhikrSessionRow(row)!);
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getDhikrStatsByUser(userId: string, filters?: {
+    dhikrType?: string;
+    periodType?: 'daily' | 'weekly' | 'monthly';
+    periodStart?: string;
+    periodEnd?: string;
+  }): Promise<DatabaseResult<DhikrStatsData[]>> {
+    try {
+      // Aggregated live from sessions; period bounds are the user's calendar days
+      let query = `
+        SELECT
+          dhikr_type,
+          SUM(count) AS total_count,
+          COUNT(*) AS session_count,
+          AVG(CASE WHEN session_end IS NOT NULL
+            THEN (julianday(session_end) - julianday(session_start)) * 86400 END) AS average_session_duration,
+          MIN(date) AS period_start,
+          MAX(date) AS period_end
+        FROM dhikr_sessions
+        WHERE user_id = ?
+      `;
+      const params: any[] = [userId];
+
+      if (filters?.dhikrType) {
+        query += ' AND dhikr_type = ?';
+        params.push(filters.dhikrType);
+      }
+      if (filters?.periodStart) {
+        query += ' AND date >= ?';
+        params.push(filters.periodStart);
+      }
+      if (filters?.periodEnd) {
+        query += ' AND date <= ?';
+        params.push(filters.periodEnd);
+      }
+
+      query += ' GROUP BY dhikr_type ORDER BY dhikr_type';
+
+      const rows = this.db.prepare(query).all(...params) as any[];
+      const now = this.getCurrentTimestamp();
+
+      return this.formatSuccessResult(rows.map(row => ({
+        id: this.generateId(),
+        userId,
+        dhikrType: row.dhikr_type,
+        periodType: filters?.periodType || 'daily',
+        periodStart: filters?.periodStart || row.period_start,
+        periodEnd: filters?.periodEnd || row.period_end,
+        totalCount: row.total_count,
+        sessionCount: row.session_count,
+        averageSessionDuration: row.average_session_duration === null ? null : Math.round(row.average_session_duration),
+        createdAt: now,
+        updatedAt: now
+      })));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  // Sync operations
+  async createSyncOperation(data: {
+    userId: string;
+    operationId: string;
+    deviceId?: string | null;
+    type: string;
+    entity: string;
+    entityId?: string | null;
+    status: 'applied' | 'conflict';
+    result: Record<string, any>;
+    clientTimestamp: string;
+  }): Promise<DatabaseResult<SyncOperationData>> {
+    try {
+      const id = this.generateId();
+      this.db.prepare(`
+        INSERT INTO sync_operations (
+          id, user_id, operation_id, device_id, type, entity, entity_id,
+          status, result, client_timestamp, processed_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id,
+        data.userId,
+        data.operationId,
+        data.deviceId || null,
+        data.type,
+        data.entity,
+        data.entityId || null,
+        data.status,
+        JSON.stringify(data.result),
+        data.clientTimestamp,
+        this.getCurrentTimestamp()
+      );
+
+      const row = this.db.prepare('SELECT * FROM sync_operations WHERE id = ?').get(id) as SyncOperationRow;
+      return this.formatSuccessResult(this.mapSyncOperationRow(row)!);
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getSyncOperation(userId: string, operationId: string): Promise<DatabaseResult<SyncOperationData | null>> {
+    try {
+      const row = this.db.prepare(
+        'SELECT * FROM sync_operations WHERE user_id = ? AND operation_id = ?'
+      ).get(userId, operationId) as SyncOperationRow | undefined;
+
+      return this.formatSuccessResult(this.mapSyncOperationRow(row || null));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getLatestSyncOperationForEntity(
+    userId: string,
+    entity: string,
+    entityId: string
+  ): Promise<DatabaseResult<SyncOperationData | null>> {
+    try {
+      const row = this.db.prepare(`
+        SELECT * FROM sync_operations
+        WHERE user_id = ? AND entity = ? AND entity_id = ? AND status = 'applied'
+        ORDER BY client_timestamp DESC
+        LIMIT 1
+      `).get(userId, entity, entityId) as SyncOperationRow | undefined;
+
+      return this.formatSuccessResult(this.mapSyncOperationRow(row || null));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  // Sync conflict operations
+  async createSyncConflict(data: {
+    id?: string;
+    userId: string;
+    deviceId?: string | null;
+    operationId: string;
+    operationType: string;
+    entity: string;
+    entityId?: string | null;
+    conflictType: 'timestamp' | 'version' | 'data';
+    clientData: Record<string, any>;
+    serverData: Record<string, any>;
+    clientTimestamp: string;
+    serverTimestamp: string;
+  }): Promise<DatabaseResult<SyncConflictData>> {
+    try {
+      const id = data.id || this.generateId();
+      this.db.prepare(`
+        INSERT INTO sync_conflicts (
+          id, user_id, device_id, operation_id, operation_type, entity, entity_id,
+          conflict_type, client_data, server_data, client_timestamp, server_timestamp, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id,
+        data.userId,
+        data.deviceId || null,
+        data.operationId,
+        data.operationType,
+        data.entity,
+        data.entityId || null,
+        data.conflictType,
+        JSON.stringify(data.clientData),
+        JSON.stringify(data.serverData),
+        data.clientTimestamp,
+        data.serverTimestamp,
+        this.getCurrentTimestamp()
+      );
+
+      const row = this.db.prepare('SELECT * FROM sync_conflicts WHERE id = ?').get(id) as SyncConflictRow;
+      return this.formatSuccessResult(this.mapSyncConflictRow(row)!);
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getSyncConflictById(id: string, userId: string): Promise<DatabaseResult<SyncConflictData | null>> {
+    try {
+      const row = this.db.prepare(
+        'SELECT * FROM sync_conflicts WHERE id = ? AND user_id = ?'
+      ).get(id, userId) as SyncConflictRow | undefined;
+
+      return this.formatSuccessResult(this.mapSyncConflictRow(row || null));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getPendingSyncConflicts(userId: string, deviceId?: string): Promise<DatabaseResult<SyncConflictData[]>> {
+    try {
+      let query = 'SELECT * FROM sync_conflicts WHERE user_id = ? AND resolved_at IS NULL';
+      const params: any[] = [userId];
+
+      if (deviceId) {
+        query += ' AND device_id = ?';
+        params.push(deviceId);
+      }
+
+      query += ' ORDER BY created_at ASC';
+
+      const rows = this.db.prepare(query).all(...params) as SyncConflictRow[];
+      return this.formatSuccessResult(rows.map(row => this.mapSyncConflictRow(row)!));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async resolveSyncConflict(
+    id: string,
+    userId: string,
+    resolution: {
+      resolution: 'client' | 'server' | 'merge';
+      resolvedData?: Record<string, any> | null;
+    }
+  ): Promise<DatabaseResult<SyncConflictData>> {
+    try {
+      const result = this.db.prepare(`
+        UPDATE sync_conflicts
+        SET resolution = ?, resolved_data = ?, resolved_at = ?
+        WHERE id = ? AND user_id = ?
+      `).run(
+        resolution.resolution,
+        resolution.resolvedData ? JSON.stringify(resolution.resolvedData) : null,
+        this.getCurrentTimestamp(),
+        id,
+        userId
+      );
+
+      if (result.changes === 0) {
+        return this.formatResult(null, new Error('Sync conflict not found'));
+      }
+
+      const row = this.db.prepare('SELECT * FROM sync_conflicts WHERE id = ?').get(id) as SyncConflictRow;
+      return this.formatSuccessResult(this.mapSyncConflictRow(row)!);
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  // Sync device operations
+  async upsertSyncDevice(data: {
+    userId: string;
+    deviceId: string;
+    lastAttemptAt: string;
+    lastSuccessfulSyncAt?: string | null;
+    lastErrorCount: number;
+  }): Promise<DatabaseResult<SyncDeviceData>> {
+    try {
+      this.db.prepare(`
+        INSERT INTO sync_devices (
+          user_id, device_id, last_attempt_at, last_successful_sync_at, last_error_count
+        ) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(user_id, device_id) DO UPDATE SET
+          last_attempt_at = excluded.last_attempt_at,
+          last_successful_sync_at = COALESCE(excluded.last_successful_sync_at, sync_devices.last_successful_sync_at),
+          last_error_count = excluded.last_error_count
+      `).run(
+        data.userId,
+        data.deviceId,
+        data.lastAttemptAt,
+        data.lastSuccessfulSyncAt || null,
+        data.lastErrorCount
+      );
+
+      const row = this.db.prepare(
+        'SELECT * FROM sync_devices WHERE user_id = ? AND device_id = ?'
+      ).get(data.userId, data.deviceId) as SyncDeviceRow;
+      return this.formatSuccessResult(this.mapSyncDeviceRow(row)!);
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getSyncDevicesByUser(userId: string): Promise<DatabaseResult<SyncDeviceData[]>> {
+    try {
+      const rows = this.db.prepare(
+        'SELECT * FROM sync_devices WHERE user_id = ? ORDER BY last_attempt_at DESC'
+      ).all(userId) as SyncDeviceRow[];
+
+      return this.formatSuccessResult(rows.map(row => this.mapSyncDeviceRow(row)!));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  // Sync delta pull
+  async getSyncChanges(
+    userId: string,
+    entity: SyncChangeEntity,
+    window: SyncChangeWindow
+  ): Promise<DatabaseResult<SyncChangeData[]>> {
+    try {
+      // Rows store a mix of ISO and datetime('now') timestamps, so compare them normalized
+      const changedAt = `strftime('%Y-%m-%dT%H:%M:%fZ', COALESCE(updated_at, created_at))`;
+      const values: any[] = [userId, window.until];
+      let sinceClause = '';
+      if (window.since) {
+        sinceClause = `AND ${changedAt} > ?`;
+        values.push(window.since);
+      }
+      let afterClause = '';
+      if (window.after) {
+        afterClause = `AND (${changedAt} > ? OR (${changedAt} = ? AND id > ?))`;
+        values.push(window.after.changedAt, window.after.changedAt, window.after.id);
+      }
+      values.push(window.limit);
+
+      const rows = this.db.prepare(`
+        SELECT *,
+          strftime('%Y-%m-%dT%H:%M:%fZ', created_at) AS sync_created_at,
+          ${changedAt} AS sync_updated_at
+        FROM ${SYNC_CHANGE_TABLES[entity]}
+        WHERE user_id = ? AND ${changedAt} <= ? ${sinceClause} ${afterClause}
+        ORDER BY sync_updated_at, id
+        LIMIT ?
+      `).all(...values) as any[];
+
+      return this.formatSuccessResult(rows.map(row => ({
+        entity,
+        entityId: row.id,
+        data: this.mapSyncChangeRow(entity, row),
+        createdAt: row.sync_created_at,
+        updatedAt: row.sync_updated_at
+      })));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getSyncTombstones(userId: string, window: SyncChangeWindow): Promise<DatabaseResult<SyncTombstoneData[]>> {
+    try {
+      const values: any[] = [userId, window.until];
+      let sinceClause = '';
+      if (window.since) {
+        sinceClause = 'AND deleted_at > ?';
+        values.push(window.since);
+      }
+      let afterClause = '';
+      if (window.after) {
+        afterClause = 'AND (deleted_at > ? OR (deleted_at = ? AND id > ?))';
+        values.push(window.after.changedAt, window.after.changedAt, window.after.id);
+      }
+      values.push(window.limit);
+
+      const rows = this.db.prepare(`
+        SELECT * FROM sync_tombstones
+        WHERE user_id = ? AND deleted_at <= ? ${sinceClause} ${afterClause}
+        ORDER BY deleted_at, id
+        LIMIT ?
+      `).all(...values) as SyncTombstoneRow[];
+
+      return this.formatSuccessResult(rows.map(row => this.mapSyncTombstoneRow(row)!));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getSyncEntityUpdatedAt(
+    userId: string,
+    entity: SyncChangeEntity,
+    entityId: string
+  ): Promise<DatabaseResult<string | null>> {
+    try {
+      const row = this.db.prepare(`
+        SELECT strftime('%Y-%m-%dT%H:%M:%fZ', COALESCE(updated_at, created_at)) AS sync_updated_at
+        FROM ${SYNC_CHANGE_TABLES[entity]}
+        WHERE id = ? AND user_id = ?
+      `).get(entityId, userId) as { sync_updated_at: string } | undefined;
+
+      return this.formatSuccessResult(row?.sync_updated_at ?? null);
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  // Gamification operations
+  async getAchievements(): Promise<DatabaseResult<AchievementData[]>> {
+    try {
+      const rows = this.db.prepare(
+        'SELECT * FROM achievements ORDER BY condition_type, condition_target'
+      ).all() as AchievementRow[];
+
+      return this.formatSuccessResult(rows.map(row => this.mapAchievementRow(row)));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getUserStats(userId: string): Promise<DatabaseResult<UserStatsData | null>> {
+    try {
+      const row = this.db.prepare('SELECT * FROM user_stats WHERE user_id = ?').get(userId) as UserStatsRow | undefined;
+
+      return this.formatSuccessResult(row ? this.mapUserStatsRow(row) : null);
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async upsertUserStats(data: UserStatsData): Promise<DatabaseResult<UserStatsData>> {
+    try {
+      this.db.prepare(`
+        INSERT INTO user_stats (
+          user_id, total_khayr_points, current_streak, longest_streak, habits_completed,
+          plans_completed, level, achievements, last_active_on, last_updated
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(user_id) DO UPDATE SET
+          total_khayr_points = excluded.total_khayr_points,
+          current_streak = excluded.current_streak,
+          longest_streak = excluded.longest_streak,
+          habits_completed = excluded.habits_completed,
+          plans_completed = excluded.plans_completed,
+          level = excluded.level,
+          achievements = excluded.achievements,
+          last_active_on = excluded.last_active_on,
+          last_updated = excluded.last_updated
+      `).run(
+        data.userId,
+        data.totalKhayrPoints,
+        data.currentStreak,
+        data.longestStreak,
+        data.habitsCompleted,
+        data.plansCompleted,
+        data.level,
+        JSON.stringify(data.achievements),
+        data.lastActiveOn,
+        data.lastUpdated || this.getCurrentTimestamp()
+      );
+
+      const row = this.db.prepare('SELECT * FROM user_stats WHERE user_id = ?').get(data.userId) as UserStatsRow;
+      return this.formatSuccessResult(this.mapUserStatsRow(row));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  // Circle operations
+  async createCircle(data: {
+    creatorId: string;
+    name: string;
+    description?: string | null;
+    maxMembers: number;
+    isAnonymous: boolean;
+    sharedGoal?: string | null;
+    inviteCode: string;
+  }): Promise<DatabaseResult<CircleData>> {
+    try {
+      const id = this.generateId();
+      const now = this.getCurrentTimestamp();
+
+      // The creator is always the first member
+      const transaction = this.db.transaction(() => {
+        this.db.prepare(`
+          INSERT INTO circles (
+            id, name, description, creator_id, max_members, is_anonymous, shared_goal, invite_code, status, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'active', ?)
+        `).run(
+          id,
+          data.name,
+          data.description || null,
+          data.creatorId,
+          data.maxMembers,
+          data.isAnonymous ? 1 : 0,
+          data.sharedGoal || null,
+          data.inviteCode,
+          now
+        );
+
+        this.db.prepare(`
+          INSERT INTO circle_memberships (id, circle_id, user_id, role, joined_at)
+          VALUES (?, ?, ?, 'creator', ?)
+        `).run(this.generateId(), id, data.creatorId, now);
+      });
+
+      transaction();
+
+      const row = this.db.prepare('SELECT * FROM circles WHERE id = ?').get(id);
+      return this.formatSuccessResult(this.mapCircleRow(row));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getCircleById(id: string): Promise<DatabaseResult<CircleData | null>> {
+    try {
+      const row = this.db.prepare('SELECT * FROM circles WHERE id = ?').get(id);
+      return this.formatSuccessResult(row ? this.mapCircleRow(row) : null);
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getCircleByInviteCode(inviteCode: string): Promise<DatabaseResult<CircleData | null>> {
+    try {
+      const row = this.db.prepare('SELECT * FROM circles WHERE invite_code = ?').get(inviteCode);
+      return this.formatSuccessResult(row ? this.mapCircleRow(row) : null);
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getCirclesByUserId(userId: string): Promise<DatabaseResult<CircleData[]>> {
+    try {
+      const rows = this.db.prepare(`
+        SELECT c.* FROM circles c
+        JOIN circle_memberships cm ON cm.circle_id = c.id
+        WHERE cm.user_id = ?
+        ORDER BY c.created_at DESC
+      `).all(userId);
+
+      return this.formatSuccessResult(rows.map(row => this.mapCircleRow(row)));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async updateCircle(
+    id: string,
+    updates: {
+      name?: string;
+      description?: string | null;
+      sharedGoal?: string | null;
+      status?: CircleStatus;
+    }
+  ): Promise<DatabaseResult<CircleData>> {
+    try {
+      const fields: string[] = [];
+      const values: any[] = [];
+
+      if (updates.name !== undefined) {
+        fields.push('name = ?');
+        values.push(updates.name);
+      }
+      if (updates.description !== undefined) {
+        fields.push('description = ?');
+        values.push(updates.description);
+      }
+      if (updates.sharedGoal !== undefined) {
+        fields.push('shared_goal = ?');
+        values.push(updates.sharedGoal);
+      }
+      if (updates.status !== undefined) {
+        fields.push('status = ?');
+        values.push(updates.status);
+      }
+
+      if (fields.length > 0) {
+        this.db.prepare(`UPDATE circles SET ${fields.join(', ')} WHERE id = ?`).run(...values, id);
+      }
+
+      const row = this.db.prepare('SELECT * FROM circles WHERE id = ?').get(id);
+      if (!row) {
+        return this.formatResult(null, new Error('Circle not found'));
+      }
+
+      return this.formatSuccessResult(this.mapCircleRow(row));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getCircleMembers(circleId: string): Promise<DatabaseResult<CircleMemberData[]>> {
+    try {
+      const rows = this.db.prepare(`
+        SELECT cm.*, p.display_name FROM circle_memberships cm
+        LEFT JOIN profiles p ON p.user_id = cm.user_id
+        WHERE cm.circle_id = ?
+        ORDER BY cm.joined_at ASC
+      `).all(circleId);
+
+      return this.formatSuccessResult(rows.map(row => this.mapCircleMemberRow(row)));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async addCircleMember(data: {
+    circleId: string;
+    userId: string;
+    role: CircleRole;
+  }): Promise<DatabaseResult<CircleMemberData>> {
+    try {
+      const id = this.generateId();
+
+      this.db.prepare(`
+        INSERT INTO circle_memberships (id, circle_id, user_id, role, joined_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(id, data.circleId, data.userId, data.role, this.getCurrentTimestamp());
+
+      const row = this.db.prepare(`
+        SELECT cm.*, p.display_name FROM circle_memberships cm
+        LEFT JOIN profiles p ON p.user_id = cm.user_id
+        WHERE cm.id = ?
+      `).get(id);
+
+      return this.formatSuccessResult(this.mapCircleMemberRow(row));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async removeCircleMember(circleId: string, userId: string): Promise<DatabaseResult<void>> {
+    try {
+      this.db.prepare('DELETE FROM circle_memberships WHERE circle_id = ? AND user_id = ?').run(circleId, userId);
+      return this.formatSuccessResult(undefined);
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async createCircleEncouragement(data: {
+    circleId: string;
+    fromUserId: string;
+    toUserId?: string | null;
+    message: string;
+    type: CircleEncouragementType;
+  }): Promise<DatabaseResult<CircleEncouragementData>> {
+    try {
+      const id = this.generateId();
+
+      this.db.prepare(`
+        INSERT INTO circle_encouragements (id, circle_id, from_user_id, to_user_id, message, type, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id,
+        data.circleId,
+        data.fromUserId,
+        data.toUserId || null,
+        data.message,
+        data.type,
+        this.getCurrentTimestamp()
+      );
+
+      const row = this.db.prepare('SELECT * FROM circle_encouragements WHERE id = ?').get(id);
+      return this.formatSuccessResult(this.mapCircleEncouragementRow(row));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getCircleEncouragements(
+    circleId: string,
+    filters: { limit?: number; offset?: number } = {}
+  ): Promise<DatabaseResult<CircleEncouragementData[]>> {
+    try {
+      const rows = this.db.prepare(`
+        SELECT * FROM circle_encouragements
+        WHERE circle_id = ?
+        ORDER BY created_at DESC
+        LIMIT ? OFFSET ?
+      `).all(circleId, filters.limit ?? 20, filters.offset ?? 0);
+
+      return this.formatSuccessResult(rows.map(row => this.mapCircleEncouragementRow(row)));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getCircleProgress(circleId: string, from: string, to: string): Promise<DatabaseResult<CircleProgressData>> {
+    try {
+      const row = this.db.prepare(`
+        SELECT COUNT(hc.id) AS completions, COUNT(DISTINCT hc.user_id) AS active_members
+        FROM habit_completions hc
+        JOIN circle_memberships cm ON cm.user_id = hc.user_id
+        WHERE cm.circle_id = ? AND hc.completed_on >= ? AND hc.completed_on <= ?
+      `).get(circleId, from, to) as { completions: number; active_members: number };
+
+      return this.formatSuccessResult({
+        completions: row.completions,
+        activeMembers: row.active_members
+      });
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async createNotifications(
+    notifications: Array<{
+      userId: string;
+      type: NotificationTypeData;
+      title: string;
+      body: string;
+      data: Record<string, unknown>;
+      dedupeKey: string;
+      scheduledFor: string;
+    }>
+  ): Promise<DatabaseResult<number>> {
+    try {
+      const insert = this.db.prepare(`
+        INSERT OR IGNORE INTO notifications (id, user_id, type, title, body, data, dedupe_key, scheduled_for, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      const createdAt = this.getCurrentTimestamp();
+
+      const insertAll = this.db.transaction(() => {
+        let created = 0;
+        for (const notification of notifications) {
+          created += insert.run(
+            this.generateId(),
+            notification.userId,
+            notification.type,
+            notification.title,
+            notification.body,
+            JSON.stringify(notification.data),
+            notification.dedupeKey,
+            notification.scheduledFor,
+            createdAt
+          ).changes;
+        }
+        return created;
+      });
+
+      return this.formatSuccessResult(insertAll());
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getDueNotifications(before: string, limit: number): Promise<DatabaseResult<NotificationData[]>> {
+    try {
+      const rows = this.db.prepare(`
+        SELECT * FROM notifications
+        WHERE status = 'pending' AND scheduled_for <= ?
+        ORDER BY scheduled_for ASC
+        LIMIT ?
+      `).all(before, limit);
+
+      return this.formatSuccessResult(rows.map(row => this.mapNotificationRow(row)));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getNotificationsByUser(
+    userId: string,
+    filters: { status?: NotificationStatusData; limit?: number; offset?: number } = {}
+  ): Promise<DatabaseResult<NotificationData[]>> {
+    try {
+      let query = 'SELECT * FROM notifications WHERE user_id = ?';
+      const params: any[] = [userId];
+
+      if (filters.status) {
+        query += ' AND status = ?';
+        params.push(filters.status);
+      }
+
+      query += ' ORDER BY scheduled_for DESC LIMIT ? OFFSET ?';
+      params.push(filters.limit ?? 20, filters.offset ?? 0);
+
+      const rows = this.db.prepare(query).all(...params);
+      return this.formatSuccessResult(rows.map(row => this.mapNotificationRow(row)));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async updateNotificationDelivery(
+    id: string,
+    updates: {
+      status: NotificationStatusData;
+      attempts: number;
+      channel: string | null;
+      lastError: string | null;
+      sentAt: string | null;
+    }
+  ): Promise<DatabaseResult<void>> {
+    try {
+      this.db.prepare(`
+        UPDATE notifications
+        SET status = ?, attempts = ?, channel = ?, last_error = ?, sent_at = ?
+        WHERE id = ?
+      `).run(updates.status, updates.attempts, updates.channel, updates.lastError, updates.sentAt, id);
+
+      return this.formatSuccessResult(undefined);
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getReminderUserIds(): Promise<DatabaseResult<string[]>> {
+    try {
+      const rows = this.db.prepare(`
+        SELECT user_id FROM user_preferences
+        UNION
+        SELECT user_id FROM intentions WHERE status = 'active' AND reminder_enabled = 1
+      `).all() as Array<{ user_id: string }>;
+
+      return this.formatSuccessResult(rows.map(row => row.user_id));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async upsertPushSubscription(data: {
+    userId: string;
+    endpoint: string;
+    p256dh: string;
+    auth: string;
+    deviceId?: string | null;
+    userAgent?: string | null;
+  }): Promise<DatabaseResult<PushSubscriptionData>> {
+    try {
+      this.db.prepare(`
+        INSERT INTO push_subscriptions (id, user_id, endpoint, p256dh, auth, device_id, user_agent, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(endpoint) DO UPDATE SET
+          user_id = excluded.user_id,
+          p256dh = excluded.p256dh,
+          auth = excluded.auth,
+          device_id = excluded.device_id,
+          user_agent = excluded.user_agent
+      `).run(
+        this.generateId(),
+        data.userId,
+        data.endpoint,
+        data.p256dh,
+        data.auth,
+        data.deviceId || null,
+        data.userAgent || null,
+        this.getCurrentTimestamp()
+      );
+
+      const row = this.db.prepare('SELECT * FROM push_subscriptions WHERE endpoint = ?').get(data.endpoint);
+      return this.formatSuccessResult(this.mapPushSubscriptionRow(row));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async getPushSubscriptionsByUser(userId: string): Promise<DatabaseResult<PushSubscriptionData[]>> {
+    try {
+      const rows = this.db.prepare(`
+        SELECT * FROM push_subscriptions WHERE user_id = ? ORDER BY created_at ASC
+      `).all(userId);
+
+      return this.formatSuccessResult(rows.map(row => this.mapPushSubscriptionRow(row)));
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async deletePushSubscription(userId: string, endpoint: string): Promise<DatabaseResult<boolean>> {
+    try {
+      const result = this.db.prepare('DELETE FROM push_subscriptions WHERE user_id = ? AND endpoint = ?').run(userId, endpoint);
+      return this.formatSuccessResult(result.changes > 0);
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  async deletePushSubscriptionByEndpoint(endpoint: string): Promise<DatabaseResult<void>> {
+    try {
+      this.db.prepare('DELETE FROM push_subscriptions WHERE endpoint = ?').run(endpoint);
+      return this.formatSuccessResult(undefined);
+    } catch (error) {
+      return this.formatResult(null, error as Error);
+    }
+  }
+
+  private mapPushSubscriptionRow(row: any): PushSubscriptionData {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      endpoint: row.endpoint,
+      p256dh: row.p256dh,
+      auth: row.auth,
+      deviceId: row.device_id,
+      userAgent: row.user_agent,
+      createdAt: row.created_at
+    };
+  }
+
+  private mapNotificationRow(row: any): NotificationData {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      type: row.type,
+      title: row.title,
+      body: row.body,
+      data: row.data ? JSON.parse(row.data) : {},
+      dedupeKey: row.dedupe_key,
+      scheduledFor: row.scheduled_for,
+      status: row.status,
+      attempts: row.attempts,
+      channel: row.channel,
+      lastError: row.last_error,
+      sentAt: row.sent_at,
+      createdAt: row.created_at
+    };
+  }
+
+  private mapCircleRow(row: any): CircleData {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      creatorId: row.creator_id,
+      maxMembers: row.max_members,
+      isAnonymous: Boolean(row.is_anonymous),
+      sharedGoal: row.shared_goal,
+      inviteCode: row.invite_code,
+      status: row.status,
+      createdAt: row.created_at
+    };
+  }
+
+  private mapCircleMemberRow(row: any): CircleMemberData {
+    return {
+      id: row.id,
+      circleId: row.circle_id,
+      userId: row.user_id,
+      role: row.role,
+      displayName: row.display_name || null,
+      joinedAt: row.joined_at
+    };
+  }
+
+  private mapCircleEncouragementRow(row: any): CircleEncouragementData {
+    return {
+      id: row.id,
+      circleId: row.circle_id,
+      fromUserId: row.from_user_id,
+      toUserId: row.to_user_id,
+      message: row.message,
+      type: row.type,
+      createdAt: row.created_at
+    };
+  }
+
+  private mapAchievementRow(row: AchievementRow): AchievementData {
+    return {
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      icon: row.icon,
+      conditionType: row.condition_type,
+      conditionTarget: row.condition_target,
+      khayrReward: row.khayr_reward
+    };
+  }
+
+  private mapUserStatsRow(row: UserStatsRow): UserStatsData {
+    return {
+      userId: row.user_id,
+      totalKhayrPoints: row.total_khayr_points,
+      currentStreak: row.current_streak,
+      longestStreak: row.longest_streak,
+      habitsCompleted: row.habits_completed,
+      plansCompleted: row.plans_completed,
+      level: row.level,
+      achievements: row.achievements ? JSON.parse(row.achievements) : [],
+      lastActiveOn: row.last_active_on,
+      lastUpdated: row.last_updated
+    };
+  }
+
+  private mapSyncChangeRow(entity: SyncChangeEntity, row: any): Record<string, any> {
+    switch (entity) {
+      case 'habit':
+        return this.mapHabitRow({ ...row, schedule: JSON.parse(row.schedule) })!;
+      case 'journal':
+        return this.mapJournalRow({ ...row, tags: JSON.parse(row.tags || '[]') })!;
+      case 'checkin':
+        return this.mapStoredCheckinRow(row)!;
+      case 'intention':
+        return this.mapIntentionRow(row)!;
+      case 'dhikr':
+        return this.mapDhikrSessionRow(row)!;
+    }
+  }
+
+  private mapSurveyResultRow(row: SurveyResultRow | undefined): SurveyResultData | null {
+    if (!row) return null;
+    return {
+      id: row.id,
+      userId: row.user_id,
+      attemptNumber: row.attempt_number,
+      diseaseScores: JSON.parse(row.disease_scores),
+      criticalDiseases: JSON.parse(row.critical_diseases),
+      reflectionAnswers: JSON.parse(row.reflection_answers),
+      personalizedHabits: JSON.parse(row.personalized_habits),
+      tazkiyahPlan: JSON.parse(row.tazkiyah_plan),
+      radarChartData: row.radar_chart_data ? JSON.parse(row.radar_chart_data) : null,
+      generatedAt: row.generated_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapSurveyProgressRow(row: SurveyProgressRow | undefined): SurveyProgressData | null {
+    if (!row) return null;
+    return {
+      userId: row.user_id,
+      attemptNumber: row.attempt_number,
+      currentPhase: row.current_phase,
+      phase1Completed: Boolean(row.phase_1_completed),
+      phase2Completed: Boolean(row.phase_2_completed),
+      reflectionCompleted: Boolean(row.reflection_completed),
+      resultsGenerated: Boolean(row.results_generated),
+      startedAt: row.started_at,
+      lastUpdated: row.last_updated
+    };
+  }
+
   private mapSurveyResponseRow(row: any): any {
     if (!row) return null;
     return {
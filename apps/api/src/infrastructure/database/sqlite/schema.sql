@@ -21,14 +21,83 @@ CREATE TABLE IF NOT EXISTS user_preferences (
   user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
   language TEXT DEFAULT 'en' CHECK (language IN ('en', 'ar', 'ur')),
   location TEXT, -- JSON object with lat, lng, city, country
-  prayer_calculation_method TEXT DEFAULT 'ISNA' CHECK (prayer_calculation_method IN ('ISNA', 'MWL', 'Egypt', 'Makkah', 'Karachi', 'Tehran', 'Jafari')),
+  prayer_calculation_method TEXT DEFAULT 'MuslimWorldLeague' CHECK (prayer_calculation_method IN ('MuslimWorldLeague', 'Egyptian', 'Karachi', 'UmmAlQura', 'Dubai', 'MoonsightingCommittee', 'NorthAmerica', 'Kuwait', 'Qatar', 'Singapore', 'Tehran', 'Turkey', 'Jafari')),
   notification_settings TEXT DEFAULT '{}', -- JSON object for notification preferences
   privacy_settings TEXT DEFAULT '{}', -- JSON object for privacy preferences
   display_settings TEXT DEFAULT '{}', -- JSON object for display preferences
+  habit_settings TEXT DEFAULT '{}', -- JSON object for habit preferences
+  calendar_settings TEXT DEFAULT '{}', -- JSON object for Hijri calendar preferences
+  prayer_settings TEXT DEFAULT '{}', -- JSON object for Asr madhab, high-latitude rule and minute adjustments
   updated_at TEXT NOT NULL DEFAULT (datetime('now')),
   created_at TEXT NOT NULL DEFAULT (datetime('now'))
 );
 
+-- User stats for gamification (khayr points, levels, unlocked achievements)
+CREATE TABLE IF NOT EXISTS user_stats (
+  user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  total_khayr_points INTEGER DEFAULT 0 NOT NULL,
+  current_streak INTEGER DEFAULT 0 NOT NULL,
+  longest_streak INTEGER DEFAULT 0 NOT NULL,
+  habits_completed INTEGER DEFAULT 0 NOT NULL,
+  plans_completed INTEGER DEFAULT 0 NOT NULL,
+  level INTEGER DEFAULT 1 NOT NULL,
+  achievements TEXT DEFAULT '[]', -- JSON array of unlocked achievement ids
+  last_active_on TEXT, -- YYYY-MM-DD of the latest day with a completion
+  last_updated TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Achievements reference table (static data)
+CREATE TABLE IF NOT EXISTS achievements (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  icon TEXT NOT NULL,
+  condition_type TEXT CHECK (condition_type IN ('streak', 'habits_completed', 'plans_completed', 'consistency')) NOT NULL,
+  condition_target INTEGER NOT NULL,
+  khayr_reward INTEGER NOT NULL
+);
+
+INSERT OR IGNORE INTO achievements VALUES
+  ('first_habit', 'First Step', 'Complete your first habit', '🌱', 'habits_completed', 1, 50),
+  ('week_streak', 'Weekly Warrior', 'Maintain a 7-day streak', '🔥', 'streak', 7, 100),
+  ('month_streak', 'Steadfast Soul', 'Maintain a 30-day streak', '💪', 'streak', 30, 300),
+  ('hundred_habits', 'Habit Master', 'Complete 100 habits', '⭐', 'habits_completed', 100, 500),
+  ('first_plan', 'Journey Begins', 'Complete your first tazkiyah plan', '🌿', 'plans_completed', 1, 75),
+  ('consistency_king', 'Consistent Spirit', 'Complete habits for 21 consecutive days', '👑', 'consistency', 21, 250);
+
+-- Companionship circles (3-7 members, optionally anonymous)
+CREATE TABLE IF NOT EXISTS circles (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  name TEXT NOT NULL CHECK (length(name) >= 3 AND length(name) <= 100),
+  description TEXT CHECK (length(description) <= 500),
+  creator_id TEXT REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  max_members INTEGER NOT NULL CHECK (max_members >= 3 AND max_members <= 7),
+  is_anonymous INTEGER DEFAULT 0 NOT NULL, -- BOOLEAN as INTEGER in SQLite
+  shared_goal TEXT CHECK (length(shared_goal) <= 200),
+  invite_code TEXT UNIQUE NOT NULL,
+  status TEXT CHECK (status IN ('active', 'archived')) DEFAULT 'active',
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS circle_memberships (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  circle_id TEXT REFERENCES circles(id) ON DELETE CASCADE NOT NULL,
+  user_id TEXT REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT CHECK (role IN ('creator', 'member')) DEFAULT 'member',
+  joined_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(circle_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS circle_encouragements (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  circle_id TEXT REFERENCES circles(id) ON DELETE CASCADE NOT NULL,
+  from_user_id TEXT REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  to_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  message TEXT NOT NULL CHECK (length(message) >= 1 AND length(message) <= 300),
+  type TEXT CHECK (type IN ('dua', 'encouragement', 'reminder')) NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
 -- Content snippets (admin-seeded)
 CREATE TABLE IF NOT EXISTS content_snippets (
   id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
@@ -39,6 +108,17 @@ CREATE TABLE IF NOT EXISTS content_snippets (
   created_at TEXT NOT NULL DEFAULT (datetime('now'))
 );
 
+-- Content translations (Arabic originals and translations of content snippets)
+CREATE TABLE IF NOT EXISTS content_translations (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  content_id TEXT REFERENCES content_snippets(id) ON DELETE CASCADE NOT NULL,
+  locale TEXT CHECK (locale IN ('en', 'ar')) NOT NULL,
+  text TEXT NOT NULL,
+  ref TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(content_id, locale)
+);
+
 -- Plans table
 CREATE TABLE IF NOT EXISTS plans (
   id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
@@ -61,7 +141,8 @@ CREATE TABLE IF NOT EXISTS habits (
   schedule TEXT NOT NULL, -- JSON as TEXT in SQLite
   streak_count INTEGER DEFAULT 0 NOT NULL,
   last_completed_on TEXT, -- ISO date string
-  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT
 );
 
 -- Habit completions table
@@ -78,11 +159,15 @@ CREATE TABLE IF NOT EXISTS checkins (
   id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
   user_id TEXT REFERENCES users(id) ON DELETE CASCADE NOT NULL,
   date TEXT NOT NULL, -- ISO date string
+  session TEXT NOT NULL DEFAULT 'evening' CHECK (session IN ('morning', 'evening')),
   mood INTEGER CHECK (mood >= -2 AND mood <= 2),
   intention TEXT,
   reflection TEXT,
+  gratitude TEXT DEFAULT '[]', -- JSON array of up to 3 items
+  improvements TEXT,
   created_at TEXT NOT NULL DEFAULT (datetime('now')),
-  UNIQUE(user_id, date)
+  updated_at TEXT,
+  UNIQUE(user_id, date, session)
 );
 
 -- Journals table
@@ -91,7 +176,8 @@ CREATE TABLE IF NOT EXISTS journals (
   user_id TEXT REFERENCES users(id) ON DELETE CASCADE NOT NULL,
   content TEXT NOT NULL,
   tags TEXT, -- JSON array as TEXT
-  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT
 );
 
 -- Intentions table
@@ -122,6 +208,7 @@ CREATE TABLE IF NOT EXISTS prayer_times (
   country TEXT,
   timezone TEXT,
   calculation_method TEXT NOT NULL DEFAULT 'MuslimWorldLeague',
+  calculation_settings TEXT DEFAULT '{}', -- JSON object for Asr madhab, high-latitude rule and minute adjustments
   date TEXT NOT NULL, -- ISO date string (YYYY-MM-DD)
   fajr TEXT NOT NULL, -- ISO datetime string
   sunrise TEXT NOT NULL, -- ISO datetime string
@@ -139,6 +226,11 @@ CREATE TABLE IF NOT EXISTS prayer_times (
 CREATE INDEX IF NOT EXISTS idx_plans_user_status ON plans(user_id, status);
 CREATE INDEX IF NOT EXISTS idx_habits_user ON habits(user_id);
 CREATE INDEX IF NOT EXISTS idx_habit_completions_habit ON habit_completions(habit_id);
+CREATE INDEX IF NOT EXISTS idx_habit_completions_user_date ON habit_completions(user_id, completed_on);
+CREATE INDEX IF NOT EXISTS idx_circles_creator ON circles(creator_id);
+CREATE INDEX IF NOT EXISTS idx_circle_memberships_circle ON circle_memberships(circle_id);
+CREATE INDEX IF NOT EXISTS idx_circle_memberships_user ON circle_memberships(user_id);
+CREATE INDEX IF NOT EXISTS idx_circle_encouragements_circle ON circle_encouragements(circle_id, created_at);
 CREATE INDEX IF NOT EXISTS idx_checkins_user_date ON checkins(user_id, date);
 CREATE INDEX IF NOT EXISTS idx_journals_user ON journals(user_id);
 CREATE INDEX IF NOT EXISTS idx_journals_user_created ON journals(user_id, created_at);
@@ -254,7 +346,8 @@ CREATE TABLE IF NOT EXISTS survey_responses (
 -- Survey results table - stores final analysis and recommendations
 CREATE TABLE IF NOT EXISTS survey_results (
     id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
-    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE UNIQUE,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    attempt_number INTEGER NOT NULL DEFAULT 1 CHECK (attempt_number >= 1), -- one row per survey attempt
     disease_scores TEXT NOT NULL, -- JSON as TEXT in SQLite
     critical_diseases TEXT NOT NULL, -- JSON as TEXT in SQLite
     reflection_answers TEXT NOT NULL, -- JSON as TEXT in SQLite
@@ -262,12 +355,14 @@ CREATE TABLE IF NOT EXISTS survey_results (
     tazkiyah_plan TEXT NOT NULL, -- JSON as TEXT in SQLite
     radar_chart_data TEXT, -- JSON as TEXT in SQLite
     generated_at TEXT DEFAULT (datetime('now')) NOT NULL,
-    updated_at TEXT DEFAULT (datetime('now')) NOT NULL
+    updated_at TEXT DEFAULT (datetime('now')) NOT NULL,
+    UNIQUE(user_id, attempt_number)
 );
 
 -- Survey progress table - tracks user progression through survey phases
 CREATE TABLE IF NOT EXISTS survey_progress (
     user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    attempt_number INTEGER NOT NULL DEFAULT 1, -- the attempt in progress, incremented by a retake
     current_phase INTEGER NOT NULL DEFAULT 0 CHECK (current_phase BETWEEN 0 AND 4),
     phase_1_completed INTEGER DEFAULT 0, -- BOOLEAN as INTEGER in SQLite
     phase_2_completed INTEGER DEFAULT 0, -- BOOLEAN as INTEGER in SQLite
@@ -277,9 +372,243 @@ CREATE TABLE IF NOT EXISTS survey_progress (
     last_updated TEXT DEFAULT (datetime('now')) NOT NULL
 );
 
+-- Survey question bank: versioned phase 1 and 2 questions, one bank active at a time
+CREATE TABLE IF NOT EXISTS survey_question_banks (
+    version INTEGER PRIMARY KEY CHECK (version >= 1),
+    is_active INTEGER NOT NULL DEFAULT 0, -- BOOLEAN as INTEGER in SQLite
+    description TEXT,
+    created_at TEXT DEFAULT (datetime('now')) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS survey_questions (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    bank_version INTEGER NOT NULL REFERENCES survey_question_banks(version) ON DELETE CASCADE,
+    question_key TEXT NOT NULL CHECK (length(question_key) <= 50), -- survey_responses.question_id, kept across versions for the same question
+    disease TEXT NOT NULL CHECK (disease IN ('envy', 'arrogance', 'selfDeception', 'lust', 'anger', 'malice', 'backbiting', 'suspicion', 'loveOfDunya', 'laziness', 'despair')),
+    phase_number INTEGER NOT NULL CHECK (phase_number IN (1, 2)),
+    category TEXT NOT NULL CHECK (category IN ('inner', 'behavioral')),
+    display_order INTEGER NOT NULL,
+    created_at TEXT DEFAULT (datetime('now')) NOT NULL,
+    UNIQUE(bank_version, question_key)
+);
+
+CREATE TABLE IF NOT EXISTS survey_question_translations (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    question_id TEXT NOT NULL REFERENCES survey_questions(id) ON DELETE CASCADE,
+    locale TEXT NOT NULL CHECK (locale IN ('en', 'ar')),
+    title TEXT NOT NULL,
+    prompt TEXT NOT NULL,
+    UNIQUE(question_id, locale)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_survey_question_banks_active ON survey_question_banks(is_active) WHERE is_active = 1;
+
+-- Version 1: the original eleven questions, one per disease
+INSERT OR IGNORE INTO survey_question_banks (version, is_active, description) VALUES
+  (1, 1, 'Original survey, one question per disease');
+
+INSERT OR IGNORE INTO survey_questions (bank_version, question_key, disease, phase_number, category, display_order) VALUES
+  (1, 'envy', 'envy', 1, 'inner', 1),
+  (1, 'arrogance', 'arrogance', 1, 'inner', 2),
+  (1, 'selfDeception', 'selfDeception', 1, 'inner', 3),
+  (1, 'lust', 'lust', 1, 'inner', 4),
+  (1, 'anger', 'anger', 2, 'behavioral', 5),
+  (1, 'malice', 'malice', 2, 'behavioral', 6),
+  (1, 'backbiting', 'backbiting', 2, 'behavioral', 7),
+  (1, 'suspicion', 'suspicion', 2, 'behavioral', 8),
+  (1, 'loveOfDunya', 'loveOfDunya', 2, 'behavioral', 9),
+  (1, 'laziness', 'laziness', 2, 'behavioral', 10),
+  (1, 'despair', 'despair', 2, 'behavioral', 11);
+
+INSERT OR IGNORE INTO survey_question_translations (question_id, locale, title, prompt)
+SELECT q.id, t.column2, t.column3, t.column4
+FROM (VALUES
+  ('envy', 'en', 'Envy and Jealousy', 'How often do you feel envious or jealous when you see others succeed or have things you want?'),
+  ('arrogance', 'en', 'Pride and Arrogance', 'How often do you feel superior to others or look down on people you consider beneath you?'),
+  ('selfDeception', 'en', 'Self-Deception', 'How often do you justify your mistakes or wrongdoings instead of acknowledging them honestly?'),
+  ('lust', 'en', 'Inappropriate Desires', 'How often do you struggle with controlling inappropriate desires or sexual thoughts?'),
+  ('anger', 'en', 'Anger and Irritability', 'How often do you lose your temper or become angry in your daily interactions?'),
+  ('malice', 'en', 'Hatred and Resentment', 'How often do you hold grudges or feel lasting resentment toward people who have wronged you?'),
+  ('backbiting', 'en', 'Gossip and Backbiting', 'How often do you speak negatively about people behind their backs or engage in gossip?'),
+  ('suspicion', 'en', 'Suspicion and Doubt', 'How often do you assume the worst about others'' intentions or motives without evidence?'),
+  ('loveOfDunya', 'en', 'Attachment to Worldly Things', 'How often do you find yourself overly focused on material possessions or worldly status?'),
+  ('laziness', 'en', 'Spiritual Laziness', 'How often do you delay or avoid acts of worship, good deeds, or spiritual practices?'),
+  ('despair', 'en', 'Hopelessness and Despair', 'How often do you feel hopeless about your spiritual progress or Allah''s mercy?'),
+  ('envy', 'ar', 'الحسد والغيرة', 'كم مرة تشعر بالحسد أو الغيرة عندما ترى الآخرين ينجحون أو يمتلكون أشياء تريدها؟'),
+  ('arrogance', 'ar', 'الكبر والغرور', 'كم مرة تشعر بالتفوق على الآخرين أو تنظر باستعلاء للأشخاص الذين تعتبرهم أقل منك؟'),
+  ('selfDeception', 'ar', 'خداع النفس', 'كم مرة تبرر أخطاءك أو أفعالك الخاطئة بدلاً من الاعتراف بها بصدق؟'),
+  ('lust', 'ar', 'الشهوات المحرمة', 'كم مرة تجد صعوبة في التحكم في الرغبات غير المناسبة أو الأفكار الجنسية؟'),
+  ('anger', 'ar', 'الغضب والانفعال', 'كم مرة تفقد أعصابك أو تغضب في تفاعلاتك اليومية؟'),
+  ('malice', 'ar', 'الحقد والضغينة', 'كم مرة تحمل الضغائن أو تشعر بالحقد المستمر تجاه الأشخاص الذين أساؤوا إليك؟'),
+  ('backbiting', 'ar', 'الغيبة والنميمة', 'كم مرة تتحدث بالسوء عن الناس في غيابهم أو تشارك في النميمة؟'),
+  ('suspicion', 'ar', 'سوء الظن والشك', 'كم مرة تفترض الأسوأ حول نوايا أو دوافع الآخرين دون دليل؟'),
+  ('loveOfDunya', 'ar', 'حب الدنيا والتعلق بها', 'كم مرة تجد نفسك مهتماً بشكل مفرط بالممتلكات المادية أو المكانة الدنيوية؟'),
+  ('laziness', 'ar', 'الكسل الروحي', 'كم مرة تؤجل أو تتجنب أعمال العبادة أو الأعمال الصالحة أو الممارسات الروحية؟'),
+  ('despair', 'ar', 'اليأس والقنوط', 'كم مرة تشعر باليأس من تقدمك الروحي أو من رحمة الله؟')
+) t
+JOIN survey_questions q ON q.bank_version = 1 AND q.question_key = t.column1;
+
 -- Survey table indexes
 CREATE INDEX IF NOT EXISTS idx_survey_responses_user_phase ON survey_responses(user_id, phase_number);
 CREATE INDEX IF NOT EXISTS idx_survey_responses_user ON survey_responses(user_id);
 CREATE INDEX IF NOT EXISTS idx_survey_results_user ON survey_results(user_id);
 CREATE INDEX IF NOT EXISTS idx_survey_progress_user ON survey_progress(user_id);
-CREATE INDEX IF NOT EXISTS idx_survey_progress_phase ON survey_progress(current_phase);
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_survey_progress_phase ON survey_progress(current_phase);
+-- Sync operations log - one row per offline queue operation applied by /sync/batch
+-- Keyed by the client-generated operation id so retried batches are idempotent
+CREATE TABLE IF NOT EXISTS sync_operations (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    operation_id TEXT NOT NULL,
+    device_id TEXT,
+    type TEXT NOT NULL,
+    entity TEXT NOT NULL,
+    entity_id TEXT,
+    status TEXT NOT NULL CHECK (status IN ('applied', 'conflict')),
+    result TEXT NOT NULL, -- JSON as TEXT in SQLite
+    client_timestamp TEXT NOT NULL,
+    processed_at TEXT DEFAULT (datetime('now')) NOT NULL,
+    UNIQUE(user_id, operation_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_operations_user_entity ON sync_operations(user_id, entity, entity_id);
+
+-- Sync conflicts - operations the server could not apply without a user decision
+CREATE TABLE IF NOT EXISTS sync_conflicts (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    device_id TEXT,
+    operation_id TEXT NOT NULL,
+    operation_type TEXT NOT NULL,
+    entity TEXT NOT NULL,
+    entity_id TEXT,
+    conflict_type TEXT NOT NULL CHECK (conflict_type IN ('timestamp', 'version', 'data')),
+    client_data TEXT NOT NULL, -- JSON as TEXT in SQLite
+    server_data TEXT NOT NULL, -- JSON as TEXT in SQLite
+    client_timestamp TEXT NOT NULL,
+    server_timestamp TEXT NOT NULL,
+    resolution TEXT CHECK (resolution IN ('client', 'server', 'merge')),
+    resolved_data TEXT, -- JSON as TEXT in SQLite
+    created_at TEXT DEFAULT (datetime('now')) NOT NULL,
+    resolved_at TEXT
+);
+
+-- Notifications - queue of planned reminders and their delivery status
+-- dedupe_key identifies a reminder per user (e.g. prayer:fajr:2024-03-01) so re-planning never queues it twice
+CREATE TABLE IF NOT EXISTS notifications (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  user_id TEXT REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  type TEXT CHECK (type IN ('prayer', 'fajr_reminder', 'daily_reminder', 'habit_streak', 'intention')) NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  data TEXT DEFAULT '{}', -- JSON object as TEXT
+  dedupe_key TEXT NOT NULL,
+  scheduled_for TEXT NOT NULL, -- ISO datetime string
+  status TEXT CHECK (status IN ('pending', 'sent', 'failed', 'expired')) DEFAULT 'pending' NOT NULL,
+  attempts INTEGER DEFAULT 0 NOT NULL,
+  channel TEXT,
+  last_error TEXT,
+  sent_at TEXT, -- ISO datetime string
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(user_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_status_scheduled ON notifications(status, scheduled_for);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_scheduled ON notifications(user_id, scheduled_for);
+
+-- Push subscriptions - Web Push endpoints, one per browser/device
+-- The endpoint is unique: a browser that re-subscribes, or a new user on the same device, replaces the old row
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  user_id TEXT REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  endpoint TEXT UNIQUE NOT NULL,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  device_id TEXT,
+  user_agent TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions(user_id);
+
+-- Sync devices - last sync attempt and last successful sync per device
+CREATE TABLE IF NOT EXISTS sync_devices (
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    device_id TEXT NOT NULL,
+    last_attempt_at TEXT NOT NULL,
+    last_successful_sync_at TEXT,
+    last_error_count INTEGER DEFAULT 0 NOT NULL,
+    PRIMARY KEY (user_id, device_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_conflicts_user_pending ON sync_conflicts(user_id, resolved_at);
+CREATE INDEX IF NOT EXISTS idx_sync_conflicts_user_device ON sync_conflicts(user_id, device_id);
+
+-- Sync tombstones - deleted entities kept so /sync/changes can report deletions
+-- user_id has no foreign key: the triggers below also fire while a user is being deleted
+CREATE TABLE IF NOT EXISTS sync_tombstones (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id TEXT NOT NULL,
+    entity TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    deleted_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_tombstones_user_deleted ON sync_tombstones(user_id, deleted_at);
+
+CREATE TRIGGER IF NOT EXISTS trg_habits_tombstone AFTER DELETE ON habits
+BEGIN
+  INSERT INTO sync_tombstones (user_id, entity, entity_id) VALUES (OLD.user_id, 'habit', OLD.id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_journals_tombstone AFTER DELETE ON journals
+BEGIN
+  INSERT INTO sync_tombstones (user_id, entity, entity_id) VALUES (OLD.user_id, 'journal', OLD.id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_checkins_tombstone AFTER DELETE ON checkins
+BEGIN
+  INSERT INTO sync_tombstones (user_id, entity, entity_id) VALUES (OLD.user_id, 'checkin', OLD.id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_intentions_tombstone AFTER DELETE ON intentions
+BEGIN
+  INSERT INTO sync_tombstones (user_id, entity, entity_id) VALUES (OLD.user_id, 'intention', OLD.id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_dhikr_sessions_tombstone AFTER DELETE ON dhikr_sessions
+BEGIN
+  INSERT INTO sync_tombstones (user_id, entity, entity_id) VALUES (OLD.user_id, 'dhikr', OLD.id);
+END;
+
+-- Journal full-text search
+-- The index holds text passed through search_normalize(), which the client registers on every
+-- connection, while highlights are cut from the original journals rows. Marks (Mn, Mc) count as
+-- token characters so harakat stay inside their word and token positions line up in both.
+CREATE VIRTUAL TABLE IF NOT EXISTS journals_fts USING fts5(
+  content,
+  tags,
+  content = 'journals',
+  content_rowid = 'rowid',
+  tokenize = "porter unicode61 remove_diacritics 2 categories 'L* N* Co Mn Mc'"
+);
+
+CREATE TRIGGER IF NOT EXISTS trg_journals_fts_insert AFTER INSERT ON journals
+BEGIN
+  INSERT INTO journals_fts (rowid, content, tags)
+  VALUES (NEW.rowid, search_normalize(NEW.content), search_normalize(NEW.tags));
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_journals_fts_delete AFTER DELETE ON journals
+BEGIN
+  INSERT INTO journals_fts (journals_fts, rowid, content, tags)
+  VALUES ('delete', OLD.rowid, search_normalize(OLD.content), search_normalize(OLD.tags));
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_journals_fts_update AFTER UPDATE OF content, tags ON journals
+BEGIN
+  INSERT INTO journals_fts (journals_fts, rowid, content, tags)
+  VALUES ('delete', OLD.rowid, search_normalize(OLD.content), search_normalize(OLD.tags));
+  INSERT INTO journals_fts (rowid, content, tags)
+  VALUES (NEW.rowid, search_normalize(NEW.content), search_normalize(NEW.tags));
+END;
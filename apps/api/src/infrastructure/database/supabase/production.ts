@@ -7,10 +7,53 @@ import {
   Habit,
   HabitCompletion,
   Checkin,
+  CheckinSession,
   JournalEntry,
 } from '@sakinah/types';
 import { BaseDatabaseClient } from '../base';
-import { DatabaseResult } from '../types';
+import {
+  DatabaseResult,
+  ContentTranslationData,
+  SyncOperationData,
+  SyncConflictData,
+  SyncDeviceData,
+  SyncChangeEntity,
+  SyncChangeWindow,
+  SyncChangeData,
+  SyncTombstoneData,
+  IntentionData,
+  DhikrSessionData,
+  DhikrStatsData,
+  UserPreferencesData,
+  AchievementData,
+  UserStatsData,
+  CircleData,
+  CircleMemberData,
+  CircleEncouragementData,
+  CircleProgressData,
+  CircleRole,
+  CircleStatus,
+  CircleEncouragementType,
+  NotificationData,
+  NotificationStatusData,
+  NotificationTypeData,
+  PushSubscriptionData,
+  SurveyQuestionBankData,
+  JournalSearchFilters,
+  JournalSearchData
+} from '../types';
+import { HIGHLIGHT_START, HIGHLIGHT_END, formatHighlight } from '../journalSearch';
+
+const SYNC_CHANGE_TABLES: Record<SyncChangeEntity, string> = {
+  habit: 'habits',
+  journal: 'journals',
+  checkin: 'checkins',
+  intention: 'intentions',
+  dhikr: 'dhikr_sessions'
+};
+
+// Matches the default PostgREST max-rows cap
+const HABIT_PAGE_SIZE = 1000;
 
 export class ProductionDatabaseClient extends BaseDatabaseClient {
   private _supabaseClient: SupabaseClient | null = null;
@@ -176,6 +219,30 @@ export class ProductionDatabaseClient extends BaseDatabaseClient {
     }
   }
 
+  async getContentTranslations(contentIds: string[], locale: 'en' | 'ar'): Promise<DatabaseResult<ContentTranslationData[]>> {
+    try {
+      if (contentIds.length === 0) {
+        return this.formatSuccessResult([]);
+      }
+
+      const { data, error } = await this.supabaseClient
+        .from('content_translations')
+        .select('content_id, locale, text, ref')
+        .eq('locale', locale)
+        .in('content_id', contentIds);
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult((data || []).map(row => ({
+        contentId: row.content_id,
+        locale: row.locale,
+        text: row.text,
+        ref: row.ref
+      })));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
   // Plan operations
   async createPlan(planData: {
     userId: string;
@@ -295,6 +362,29 @@ export class ProductionDatabaseClient extends BaseDatabaseClient {
     }
   }
 
+  async getAllHabits(): Promise<DatabaseResult<Habit[]>> {
+    try {
+      // PostgREST caps each response, so read the table a page at a time until a short page comes back
+      const results: Habit[] = [];
+      for (let offset = 0; ; offset += HABIT_PAGE_SIZE) {
+        const { data, error } = await this.supabaseClient
+          .from('habits')
+          .select('*')
+          .order('created_at')
+          .order('id')
+          .range(offset, offset + HABIT_PAGE_SIZE - 1);
+
+        if (error) return this.formatErrorResult(error.message);
+        const page = data || [];
+        results.push(...page.map(row => this.mapHabitRow(row)!).filter(Boolean));
+        if (page.length < HABIT_PAGE_SIZE) break;
+      }
+      return this.formatSuccessResult(results);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
   async getHabitById(id: string): Promise<DatabaseResult<Habit | null>> {
     try {
       const { data, error } = await this.supabaseClient
@@ -412,9 +502,12 @@ export class ProductionDatabaseClient extends BaseDatabaseClient {
   async createCheckin(checkinData: {
     userId: string;
     date: string;
+    session?: CheckinSession;
     mood?: number;
     intention?: string;
     reflection?: string;
+    gratitude?: string[];
+    improvements?: string;
   }): Promise<DatabaseResult<Checkin>> {
     try {
       const { data, error } = await this.supabaseClient
@@ -422,9 +515,12 @@ export class ProductionDatabaseClient extends BaseDatabaseClient {
         .insert({
           user_id: checkinData.userId,
           date: checkinData.date,
+          session: checkinData.session || 'evening',
           mood: checkinData.mood || null,
           intention: checkinData.intention || null,
           reflection: checkinData.reflection || null,
+          gratitude: checkinData.gratitude || [],
+          improvements: checkinData.improvements || null,
         })
         .select()
         .single();
@@ -436,13 +532,14 @@ export class ProductionDatabaseClient extends BaseDatabaseClient {
     }
   }
 
-  async getCheckinByDate(userId: string, date: string): Promise<DatabaseResult<Checkin | null>> {
+  async getCheckinByDate(userId: string, date: string, session: CheckinSession): Promise<DatabaseResult<Checkin | null>> {
     try {
       const { data, error } = await this.supabaseClient
         .from('checkins')
         .select('*')
         .eq('user_id', userId)
         .eq('date', date)
+        .eq('session', session)
         .maybeSingle();
 
       if (error && error.code !== 'PGRST116') return this.formatErrorResult(error.message);
@@ -459,6 +556,8 @@ export class ProductionDatabaseClient extends BaseDatabaseClient {
       mood?: number;
       intention?: string;
       reflection?: string;
+      gratitude?: string[];
+      improvements?: string;
     }
   ): Promise<DatabaseResult<Checkin>> {
     try {
@@ -466,6 +565,8 @@ export class ProductionDatabaseClient extends BaseDatabaseClient {
       if (updates.mood !== undefined) updateData.mood = updates.mood;
       if (updates.intention !== undefined) updateData.intention = updates.intention;
       if (updates.reflection !== undefined) updateData.reflection = updates.reflection;
+      if (updates.gratitude !== undefined) updateData.gratitude = updates.gratitude || [];
+      if (updates.improvements !== undefined) updateData.improvements = updates.improvements;
 
       const { data, error } = await this.supabaseClient
         .from('checkins')
@@ -508,7 +609,10 @@ export class ProductionDatabaseClient extends BaseDatabaseClient {
 
       const orderBy = filters?.orderBy || 'date';
       const orderDirection = filters?.orderDirection || 'DESC';
-      query = query.order(orderBy, { ascending: orderDirection === 'ASC' });
+      // 'evening' sorts after 'morning', so sessions follow the date's direction
+      query = query
+        .order(orderBy, { ascending: orderDirection === 'ASC' })
+        .order('session', { ascending: orderDirection === 'ASC' });
 
       if (filters?.limit) {
         query = query.limit(filters.limit);
@@ -637,6 +741,51 @@ export class ProductionDatabaseClient extends BaseDatabaseClient {
     }
   }
 
+  async searchJournals(userId: string, filters: JournalSearchFilters): Promise<DatabaseResult<JournalSearchData>> {
+    try {
+      const { query, tags, from, to, page = 1, limit = 20, sortBy, sortOrder = 'desc' } = filters;
+      const offset = (page - 1) * limit;
+
+      const search = (resultLimit: number, resultOffset: number) =>
+        this.supabaseClient.rpc('search_journals', {
+          search_user_id: userId,
+          search_query: query?.trim() || null,
+          search_tags: tags && tags.length > 0 ? tags.map(tag => tag.toLowerCase()) : null,
+          created_from: from || null,
+          created_to: to || null,
+          sort_by: sortBy || null,
+          sort_order: sortOrder,
+          highlight_start: HIGHLIGHT_START,
+          highlight_end: HIGHLIGHT_END,
+          result_limit: resultLimit,
+          result_offset: resultOffset
+        });
+
+      const { data, error } = await search(limit, offset);
+      if (error) return this.formatErrorResult(error.message);
+
+      const rows = (data as any[]) || [];
+      const hits = rows.map(row => ({
+        entry: this.mapJournalRow(row)!,
+        rank: Number(row.rank),
+        highlight: formatHighlight(row.highlight)
+      }));
+
+      if (rows.length > 0 || offset === 0) {
+        return this.formatSuccessResult({ hits, total: rows.length > 0 ? Number(rows[0].total_count) : 0 });
+      }
+
+      // A page past the end carries no total_count, so read it from the first match
+      const { data: firstMatch, error: countError } = await search(1, 0);
+      if (countError) return this.formatErrorResult(countError.message);
+
+      const firstRows = (firstMatch as any[]) || [];
+      return this.formatSuccessResult({ hits, total: firstRows.length > 0 ? Number(firstRows[0].total_count) : 0 });
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
   async getJournalById(id: string): Promise<DatabaseResult<JournalEntry | null>> {
     try {
       const { data, error } = await this.supabaseClient
@@ -692,6 +841,1404 @@ export class ProductionDatabaseClient extends BaseDatabaseClient {
     }
   }
 
+  // Intention operations
+  async createIntention(intentionData: {
+    userId: string;
+    text: string;
+    description?: string | null;
+    priority?: 'low' | 'medium' | 'high';
+    status?: 'active' | 'completed' | 'archived';
+    targetDate?: string | null;
+    completedAt?: string | null;
+    reminderEnabled?: boolean;
+    reminderTime?: string | null;
+    reminderDaysOfWeek?: number[] | null;
+    tags?: string[];
+  }): Promise<DatabaseResult<IntentionData>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('intentions')
+        .insert({
+          user_id: intentionData.userId,
+          text: intentionData.text,
+          description: intentionData.description || null,
+          priority: intentionData.priority || 'medium',
+          status: intentionData.status || 'active',
+          target_date: intentionData.targetDate || null,
+          completed_at: intentionData.completedAt || null,
+          reminder_enabled: intentionData.reminderEnabled || false,
+          reminder_time: intentionData.reminderTime || null,
+          reminder_days_of_week: intentionData.reminderDaysOfWeek || null,
+          tags: intentionData.tags || [],
+        })
+        .select()
+        .single();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapIntentionRow(data)!);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getIntentionById(id: string): Promise<DatabaseResult<IntentionData | null>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('intentions')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapIntentionRow(data));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async updateIntention(
+    id: string,
+    userId: string,
+    updates: {
+      text?: string;
+      description?: string | null;
+      priority?: 'low' | 'medium' | 'high';
+      status?: 'active' | 'completed' | 'archived';
+      targetDate?: string | null;
+      completedAt?: string | null;
+      reminderEnabled?: boolean;
+      reminderTime?: string | null;
+      reminderDaysOfWeek?: number[] | null;
+      tags?: string[];
+    }
+  ): Promise<DatabaseResult<IntentionData>> {
+    try {
+      const updateData: any = {};
+      if (updates.text !== undefined) updateData.text = updates.text;
+      if (updates.description !== undefined) updateData.description = updates.description;
+      if (updates.priority !== undefined) updateData.priority = updates.priority;
+      if (updates.status !== undefined) updateData.status = updates.status;
+      if (updates.targetDate !== undefined) updateData.target_date = updates.targetDate;
+      if (updates.completedAt !== undefined) updateData.completed_at = updates.completedAt;
+      if (updates.reminderEnabled !== undefined) updateData.reminder_enabled = updates.reminderEnabled;
+      if (updates.reminderTime !== undefined) updateData.reminder_time = updates.reminderTime;
+      if (updates.reminderDaysOfWeek !== undefined) updateData.reminder_days_of_week = updates.reminderDaysOfWeek;
+      if (updates.tags !== undefined) updateData.tags = updates.tags;
+
+      const { data, error } = await this.supabaseClient
+        .from('intentions')
+        .update(updateData)
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapIntentionRow(data)!);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  // Dhikr session operations
+  async createDhikrSession(sessionData: {
+    userId: string;
+    dhikrType: string;
+    dhikrText: string;
+    count?: number;
+    targetCount?: number;
+    date: string;
+    sessionStart?: string;
+    sessionEnd?: string;
+    notes?: string;
+    tags?: string[];
+  }): Promise<DatabaseResult<DhikrSessionData>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('dhikr_sessions')
+        .insert({
+          user_id: sessionData.userId,
+          dhikr_type: sessionData.dhikrType,
+          dhikr_text: sessionData.dhikrText,
+          count: sessionData.count || 0,
+          target_count: sessionData.targetCount || null,
+          date: sessionData.date,
+          ...(sessionData.sessionStart && { session_start: sessionData.sessionStart }),
+          session_end: sessionData.sessionEnd || null,
+          notes: sessionData.notes || null,
+          tags: sessionData.tags || [],
+        })
+        .select()
+        .single();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapDhikrSessionRow(data)!);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getDhikrSessionById(id: string): Promise<DatabaseResult<DhikrSessionData | null>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('dhikr_sessions')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapDhikrSessionRow(data));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getDhikrSessionsByDate(userId: string, date: string): Promise<DatabaseResult<DhikrSessionData[]>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('dhikr_sessions')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('date', date)
+        .order('session_start', { ascending: true });
+
+      if (error) return this.formatErrorResult(error.message);
+      const sessions = (data || []).map(row => this.mapDhikrSessionRow(row)).filter(Boolean) as DhikrSessionData[];
+      return this.formatSuccessResult(sessions);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async updateDhikrSession(
+    id: string,
+    userId: string,
+    updates: {
+      count?: number;
+      targetCount?: number;
+      sessionEnd?: string;
+      notes?: string;
+      tags?: string[];
+    }
+  ): Promise<DatabaseResult<DhikrSessionData>> {
+    try {
+      const updateData: any = {};
+      if (updates.count !== undefined) updateData.count = updates.count;
+      if (updates.targetCount !== undefined) updateData.target_count = updates.targetCount;
+      if (updates.sessionEnd !== undefined) updateData.session_end = updates.sessionEnd;
+      if (updates.notes !== undefined) updateData.notes = updates.notes;
+      if (updates.tags !== undefined) updateData.tags = updates.tags;
+
+      const { data, error } = await this.supabaseClient
+        .from('dhikr_sessions')
+        .update(updateData)
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapDhikrSessionRow(data)!);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async incrementDhikrCount(id: string, userId: string, increment: number = 1): Promise<DatabaseResult<DhikrSessionData>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .rpc('increment_dhikr_count', { session_id: id, session_user_id: userId, amount: increment })
+        .single();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapDhikrSessionRow(data as any)!);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getDhikrStatsByUser(userId: string, filters?: {
+    dhikrType?: string;
+    periodType?: 'daily' | 'weekly' | 'monthly';
+    periodStart?: string;
+    periodEnd?: string;
+  }): Promise<DatabaseResult<DhikrStatsData[]>> {
+    try {
+      // Aggregated live from sessions; period bounds are the user's calendar days
+      let query = this.supabaseClient
+        .from('dhikr_sessions')
+        .select('dhikr_type, count, date, session_start, session_end')
+        .eq('user_id', userId);
+
+      if (filters?.dhikrType) {
+        query = query.eq('dhikr_type', filters.dhikrType);
+      }
+      if (filters?.periodStart) {
+        query = query.gte('date', filters.periodStart);
+      }
+      if (filters?.periodEnd) {
+        query = query.lte('date', filters.periodEnd);
+      }
+
+      const { data, error } = await query;
+      if (error) return this.formatErrorResult(error.message);
+
+      const groups = new Map<string, {
+        totalCount: number;
+        sessionCount: number;
+        durations: number[];
+        periodStart: string;
+        periodEnd: string;
+      }>();
+
+      for (const row of data || []) {
+        const group = groups.get(row.dhikr_type) || {
+          totalCount: 0,
+          sessionCount: 0,
+          durations: [],
+          periodStart: row.date,
+          periodEnd: row.date
+        };
+
+        group.totalCount += row.count;
+        group.sessionCount++;
+        if (row.session_end) {
+          group.durations.push((new Date(row.session_end).getTime() - new Date(row.session_start).getTime()) / 1000);
+        }
+        if (row.date < group.periodStart) group.periodStart = row.date;
+        if (row.date > group.periodEnd) group.periodEnd = row.date;
+
+        groups.set(row.dhikr_type, group);
+      }
+
+      const now = this.getCurrentTimestamp();
+      const stats: DhikrStatsData[] = [...groups.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([dhikrType, group]) => ({
+          id: this.generateId(),
+          userId,
+          dhikrType,
+          periodType: filters?.periodType || 'daily',
+          periodStart: filters?.periodStart || group.periodStart,
+          periodEnd: filters?.periodEnd || group.periodEnd,
+          totalCount: group.totalCount,
+          sessionCount: group.sessionCount,
+          averageSessionDuration: group.durations.length > 0
+            ? Math.round(group.durations.reduce((sum, d) => sum + d, 0) / group.durations.length)
+            : null,
+          createdAt: now,
+          updatedAt: now
+        }));
+
+      return this.formatSuccessResult(stats);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  // User preferences operations
+  async getUserPreferences(userId: string): Promise<DatabaseResult<UserPreferencesData | null>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('user_preferences')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) return this.formatErrorResult(error.message);
+      if (!data) return this.formatSuccessResult(null);
+
+      return this.formatSuccessResult(this.mapUserPreferencesRow(data));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async createUserPreferences(preferences: UserPreferencesData): Promise<DatabaseResult<UserPreferencesData>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('user_preferences')
+        .insert({ user_id: preferences.userId, ...this.toUserPreferencesRow(preferences) })
+        .select()
+        .single();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapUserPreferencesRow(data));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async updateUserPreferences(userId: string, updates: Partial<UserPreferencesData>): Promise<DatabaseResult<UserPreferencesData>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('user_preferences')
+        .update(this.toUserPreferencesRow(updates))
+        .eq('user_id', userId)
+        .select()
+        .maybeSingle();
+
+      if (error) return this.formatErrorResult(error.message);
+      if (!data) return this.formatErrorResult('User preferences not found');
+      return this.formatSuccessResult(this.mapUserPreferencesRow(data));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async upsertUserPreferences(preferences: UserPreferencesData): Promise<DatabaseResult<UserPreferencesData>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('user_preferences')
+        .upsert({ user_id: preferences.userId, ...this.toUserPreferencesRow(preferences) }, { onConflict: 'user_id' })
+        .select()
+        .single();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapUserPreferencesRow(data));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  // Sync operations
+  async createSyncOperation(syncData: {
+    userId: string;
+    operationId: string;
+    deviceId?: string | null;
+    type: string;
+    entity: string;
+    entityId?: string | null;
+    status: 'applied' | 'conflict';
+    result: Record<string, any>;
+    clientTimestamp: string;
+  }): Promise<DatabaseResult<SyncOperationData>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('sync_operations')
+        .insert({
+          user_id: syncData.userId,
+          operation_id: syncData.operationId,
+          device_id: syncData.deviceId || null,
+          type: syncData.type,
+          entity: syncData.entity,
+          entity_id: syncData.entityId || null,
+          status: syncData.status,
+          result: syncData.result,
+          client_timestamp: syncData.clientTimestamp,
+        })
+        .select()
+        .single();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapSyncOperationRow(data)!);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getSyncOperation(userId: string, operationId: string): Promise<DatabaseResult<SyncOperationData | null>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('sync_operations')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('operation_id', operationId)
+        .maybeSingle();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapSyncOperationRow(data));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getLatestSyncOperationForEntity(
+    userId: string,
+    entity: string,
+    entityId: string
+  ): Promise<DatabaseResult<SyncOperationData | null>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('sync_operations')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('entity', entity)
+        .eq('entity_id', entityId)
+        .eq('status', 'applied')
+        .order('client_timestamp', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapSyncOperationRow(data));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  // Sync conflict operations
+  async createSyncConflict(conflictData: {
+    id?: string;
+    userId: string;
+    deviceId?: string | null;
+    operationId: string;
+    operationType: string;
+    entity: string;
+    entityId?: string | null;
+    conflictType: 'timestamp' | 'version' | 'data';
+    clientData: Record<string, any>;
+    serverData: Record<string, any>;
+    clientTimestamp: string;
+    serverTimestamp: string;
+  }): Promise<DatabaseResult<SyncConflictData>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('sync_conflicts')
+        .insert({
+          id: conflictData.id,
+          user_id: conflictData.userId,
+          device_id: conflictData.deviceId || null,
+          operation_id: conflictData.operationId,
+          operation_type: conflictData.operationType,
+          entity: conflictData.entity,
+          entity_id: conflictData.entityId || null,
+          conflict_type: conflictData.conflictType,
+          client_data: conflictData.clientData,
+          server_data: conflictData.serverData,
+          client_timestamp: conflictData.clientTimestamp,
+          server_timestamp: conflictData.serverTimestamp,
+        })
+        .select()
+        .single();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapSyncConflictRow(data)!);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getSyncConflictById(id: string, userId: string): Promise<DatabaseResult<SyncConflictData | null>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('sync_conflicts')
+        .select('*')
+        .eq('id', id)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapSyncConflictRow(data));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getPendingSyncConflicts(userId: string, deviceId?: string): Promise<DatabaseResult<SyncConflictData[]>> {
+    try {
+      let query = this.supabaseClient
+        .from('sync_conflicts')
+        .select('*')
+        .eq('user_id', userId)
+        .is('resolved_at', null);
+
+      if (deviceId) {
+        query = query.eq('device_id', deviceId);
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: true });
+
+      if (error) return this.formatErrorResult(error.message);
+      const conflicts = (data || []).map(row => this.mapSyncConflictRow(row)).filter(Boolean) as SyncConflictData[];
+      return this.formatSuccessResult(conflicts);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async resolveSyncConflict(
+    id: string,
+    userId: string,
+    resolution: {
+      resolution: 'client' | 'server' | 'merge';
+      resolvedData?: Record<string, any> | null;
+    }
+  ): Promise<DatabaseResult<SyncConflictData>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('sync_conflicts')
+        .update({
+          resolution: resolution.resolution,
+          resolved_data: resolution.resolvedData || null,
+          resolved_at: this.getCurrentTimestamp(),
+        })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapSyncConflictRow(data)!);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  // Sync device operations
+  async upsertSyncDevice(deviceData: {
+    userId: string;
+    deviceId: string;
+    lastAttemptAt: string;
+    lastSuccessfulSyncAt?: string | null;
+    lastErrorCount: number;
+  }): Promise<DatabaseResult<SyncDeviceData>> {
+    try {
+      const upsertData: any = {
+        user_id: deviceData.userId,
+        device_id: deviceData.deviceId,
+        last_attempt_at: deviceData.lastAttemptAt,
+        last_error_count: deviceData.lastErrorCount,
+      };
+      if (deviceData.lastSuccessfulSyncAt) {
+        upsertData.last_successful_sync_at = deviceData.lastSuccessfulSyncAt;
+      }
+
+      const { data, error } = await this.supabaseClient
+        .from('sync_devices')
+        .upsert(upsertData, { onConflict: 'user_id,device_id' })
+        .select()
+        .single();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapSyncDeviceRow(data)!);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getSyncDevicesByUser(userId: string): Promise<DatabaseResult<SyncDeviceData[]>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('sync_devices')
+        .select('*')
+        .eq('user_id', userId)
+        .order('last_attempt_at', { ascending: false });
+
+      if (error) return this.formatErrorResult(error.message);
+      const devices = (data || []).map(row => this.mapSyncDeviceRow(row)).filter(Boolean) as SyncDeviceData[];
+      return this.formatSuccessResult(devices);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  // Sync delta pull
+  async getSyncChanges(
+    userId: string,
+    entity: SyncChangeEntity,
+    window: SyncChangeWindow
+  ): Promise<DatabaseResult<SyncChangeData[]>> {
+    try {
+      let query = this.supabaseClient
+        .from(SYNC_CHANGE_TABLES[entity])
+        .select('*')
+        .eq('user_id', userId)
+        .lte('updated_at', window.until);
+
+      if (window.since) {
+        query = query.gt('updated_at', window.since);
+      }
+      if (window.after) {
+        const { changedAt, id } = window.after;
+        query = query.or(`updated_at.gt."${changedAt}",and(updated_at.eq."${changedAt}",id.gt."${id}")`);
+      }
+
+      const { data, error } = await query
+        .order('updated_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(window.limit);
+
+      if (error) return this.formatErrorResult(error.message);
+      const changes = (data || []).map(row => ({
+        entity,
+        entityId: row.id,
+        data: this.mapSyncChangeRow(entity, row),
+        createdAt: new Date(row.created_at).toISOString(),
+        updatedAt: new Date(row.updated_at).toISOString()
+      }));
+      return this.formatSuccessResult(changes);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getSyncTombstones(userId: string, window: SyncChangeWindow): Promise<DatabaseResult<SyncTombstoneData[]>> {
+    try {
+      let query = this.supabaseClient
+        .from('sync_tombstones')
+        .select('*')
+        .eq('user_id', userId)
+        .lte('deleted_at', window.until);
+
+      if (window.since) {
+        query = query.gt('deleted_at', window.since);
+      }
+      if (window.after) {
+        const { changedAt, id } = window.after;
+        query = query.or(`deleted_at.gt."${changedAt}",and(deleted_at.eq."${changedAt}",id.gt."${id}")`);
+      }
+
+      const { data, error } = await query
+        .order('deleted_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(window.limit);
+
+      if (error) return this.formatErrorResult(error.message);
+      const tombstones = (data || []).map(row => this.mapSyncTombstoneRow({
+        ...row,
+        deleted_at: new Date(row.deleted_at).toISOString()
+      })!);
+      return this.formatSuccessResult(tombstones);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getSyncEntityUpdatedAt(
+    userId: string,
+    entity: SyncChangeEntity,
+    entityId: string
+  ): Promise<DatabaseResult<string | null>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from(SYNC_CHANGE_TABLES[entity])
+        .select('created_at, updated_at')
+        .eq('id', entityId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) return this.formatErrorResult(error.message);
+      const changedAt = data?.updated_at ?? data?.created_at;
+      return this.formatSuccessResult(changedAt ? new Date(changedAt).toISOString() : null);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  // Gamification operations
+  async getAchievements(): Promise<DatabaseResult<AchievementData[]>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('achievements')
+        .select('*')
+        .order('condition_type', { ascending: true })
+        .order('condition_target', { ascending: true });
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult((data || []).map(row => this.mapAchievementRow(row)));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getUserStats(userId: string): Promise<DatabaseResult<UserStatsData | null>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('user_stats')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(data ? this.mapUserStatsRow(data) : null);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async upsertUserStats(stats: UserStatsData): Promise<DatabaseResult<UserStatsData>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('user_stats')
+        .upsert({
+          user_id: stats.userId,
+          total_khayr_points: stats.totalKhayrPoints,
+          current_streak: stats.currentStreak,
+          longest_streak: stats.longestStreak,
+          habits_completed: stats.habitsCompleted,
+          plans_completed: stats.plansCompleted,
+          level: stats.level,
+          achievements: stats.achievements,
+          last_active_on: stats.lastActiveOn,
+          last_updated: stats.lastUpdated || new Date().toISOString()
+        }, { onConflict: 'user_id' })
+        .select()
+        .single();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapUserStatsRow(data));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  // Circle operations
+  async createCircle(circle: {
+    creatorId: string;
+    name: string;
+    description?: string | null;
+    maxMembers: number;
+    isAnonymous: boolean;
+    sharedGoal?: string | null;
+    inviteCode: string;
+  }): Promise<DatabaseResult<CircleData>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('circles')
+        .insert({
+          creator_id: circle.creatorId,
+          name: circle.name,
+          description: circle.description || null,
+          max_members: circle.maxMembers,
+          is_anonymous: circle.isAnonymous,
+          shared_goal: circle.sharedGoal || null,
+          invite_code: circle.inviteCode
+        })
+        .select()
+        .single();
+
+      if (error) return this.formatErrorResult(error.message);
+
+      // The creator is always the first member
+      const { error: membershipError } = await this.supabaseClient
+        .from('circle_memberships')
+        .insert({ circle_id: data.id, user_id: circle.creatorId, role: 'creator' });
+
+      if (membershipError) {
+        await this.supabaseClient.from('circles').delete().eq('id', data.id);
+        return this.formatErrorResult(membershipError.message);
+      }
+
+      return this.formatSuccessResult(this.mapCircleRow(data));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getCircleById(id: string): Promise<DatabaseResult<CircleData | null>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('circles')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(data ? this.mapCircleRow(data) : null);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getCircleByInviteCode(inviteCode: string): Promise<DatabaseResult<CircleData | null>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('circles')
+        .select('*')
+        .eq('invite_code', inviteCode)
+        .maybeSingle();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(data ? this.mapCircleRow(data) : null);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getCirclesByUserId(userId: string): Promise<DatabaseResult<CircleData[]>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('circles')
+        .select('*, circle_memberships!inner(user_id)')
+        .eq('circle_memberships.user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult((data || []).map(row => this.mapCircleRow(row)));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async updateCircle(
+    id: string,
+    updates: {
+      name?: string;
+      description?: string | null;
+      sharedGoal?: string | null;
+      status?: CircleStatus;
+    }
+  ): Promise<DatabaseResult<CircleData>> {
+    try {
+      const updateData: Record<string, any> = {};
+      if (updates.name !== undefined) updateData.name = updates.name;
+      if (updates.description !== undefined) updateData.description = updates.description;
+      if (updates.sharedGoal !== undefined) updateData.shared_goal = updates.sharedGoal;
+      if (updates.status !== undefined) updateData.status = updates.status;
+
+      const { data, error } = await this.supabaseClient
+        .from('circles')
+        .update(updateData)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapCircleRow(data));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getCircleMembers(circleId: string): Promise<DatabaseResult<CircleMemberData[]>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('circle_memberships')
+        .select('*')
+        .eq('circle_id', circleId)
+        .order('joined_at', { ascending: true });
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.withMemberDisplayNames(data || []);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async addCircleMember(member: {
+    circleId: string;
+    userId: string;
+    role: CircleRole;
+  }): Promise<DatabaseResult<CircleMemberData>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('circle_memberships')
+        .insert({ circle_id: member.circleId, user_id: member.userId, role: member.role })
+        .select()
+        .single();
+
+      if (error) return this.formatErrorResult(error.message);
+
+      const membersResult = await this.withMemberDisplayNames([data]);
+      if (membersResult.error) return this.formatErrorResult(membersResult.error.message);
+      return this.formatSuccessResult(membersResult.data![0]);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async removeCircleMember(circleId: string, userId: string): Promise<DatabaseResult<void>> {
+    try {
+      const { error } = await this.supabaseClient
+        .from('circle_memberships')
+        .delete()
+        .eq('circle_id', circleId)
+        .eq('user_id', userId);
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(undefined);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async createCircleEncouragement(encouragement: {
+    circleId: string;
+    fromUserId: string;
+    toUserId?: string | null;
+    message: string;
+    type: CircleEncouragementType;
+  }): Promise<DatabaseResult<CircleEncouragementData>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('circle_encouragements')
+        .insert({
+          circle_id: encouragement.circleId,
+          from_user_id: encouragement.fromUserId,
+          to_user_id: encouragement.toUserId || null,
+          message: encouragement.message,
+          type: encouragement.type
+        })
+        .select()
+        .single();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapCircleEncouragementRow(data));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getCircleEncouragements(
+    circleId: string,
+    filters: { limit?: number; offset?: number } = {}
+  ): Promise<DatabaseResult<CircleEncouragementData[]>> {
+    try {
+      const limit = filters.limit ?? 20;
+      const offset = filters.offset ?? 0;
+
+      const { data, error } = await this.supabaseClient
+        .from('circle_encouragements')
+        .select('*')
+        .eq('circle_id', circleId)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult((data || []).map(row => this.mapCircleEncouragementRow(row)));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getCircleProgress(circleId: string, from: string, to: string): Promise<DatabaseResult<CircleProgressData>> {
+    try {
+      const { data: members, error: membersError } = await this.supabaseClient
+        .from('circle_memberships')
+        .select('user_id')
+        .eq('circle_id', circleId);
+
+      if (membersError) return this.formatErrorResult(membersError.message);
+
+      const memberIds = (members || []).map(member => member.user_id);
+      if (memberIds.length === 0) {
+        return this.formatSuccessResult({ completions: 0, activeMembers: 0 });
+      }
+
+      const { data, error } = await this.supabaseClient
+        .from('habit_completions')
+        .select('user_id')
+        .in('user_id', memberIds)
+        .gte('completed_on', from)
+        .lte('completed_on', to);
+
+      if (error) return this.formatErrorResult(error.message);
+
+      const completions = data || [];
+      return this.formatSuccessResult({
+        completions: completions.length,
+        activeMembers: new Set(completions.map(row => row.user_id)).size
+      });
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  // Notification operations
+  async createNotifications(
+    notifications: Array<{
+      userId: string;
+      type: NotificationTypeData;
+      title: string;
+      body: string;
+      data: Record<string, unknown>;
+      dedupeKey: string;
+      scheduledFor: string;
+    }>
+  ): Promise<DatabaseResult<number>> {
+    try {
+      if (notifications.length === 0) return this.formatSuccessResult(0);
+
+      const { data, error } = await this.supabaseClient
+        .from('notifications')
+        .upsert(
+          notifications.map(notification => ({
+            user_id: notification.userId,
+            type: notification.type,
+            title: notification.title,
+            body: notification.body,
+            data: notification.data,
+            dedupe_key: notification.dedupeKey,
+            scheduled_for: notification.scheduledFor
+          })),
+          { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true }
+        )
+        .select('id');
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult((data || []).length);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getDueNotifications(before: string, limit: number): Promise<DatabaseResult<NotificationData[]>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('notifications')
+        .select('*')
+        .eq('status', 'pending')
+        .lte('scheduled_for', before)
+        .order('scheduled_for', { ascending: true })
+        .limit(limit);
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult((data || []).map(row => this.mapNotificationRow(row)));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getNotificationsByUser(
+    userId: string,
+    filters: { status?: NotificationStatusData; limit?: number; offset?: number } = {}
+  ): Promise<DatabaseResult<NotificationData[]>> {
+    try {
+      const limit = filters.limit ?? 20;
+      const offset = filters.offset ?? 0;
+
+      let query = this.supabaseClient
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (filters.status) {
+        query = query.eq('status', filters.status);
+      }
+
+      const { data, error } = await query
+        .order('scheduled_for', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult((data || []).map(row => this.mapNotificationRow(row)));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async updateNotificationDelivery(
+    id: string,
+    updates: {
+      status: NotificationStatusData;
+      attempts: number;
+      channel: string | null;
+      lastError: string | null;
+      sentAt: string | null;
+    }
+  ): Promise<DatabaseResult<void>> {
+    try {
+      const { error } = await this.supabaseClient
+        .from('notifications')
+        .update({
+          status: updates.status,
+          attempts: updates.attempts,
+          channel: updates.channel,
+          last_error: updates.lastError,
+          sent_at: updates.sentAt
+        })
+        .eq('id', id);
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(undefined);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getReminderUserIds(): Promise<DatabaseResult<string[]>> {
+    try {
+      const [preferences, intentions] = await Promise.all([
+        this.supabaseClient.from('user_preferences').select('user_id'),
+        this.supabaseClient
+          .from('intentions')
+          .select('user_id')
+          .eq('status', 'active')
+          .eq('reminder_enabled', true)
+      ]);
+
+      if (preferences.error) return this.formatErrorResult(preferences.error.message);
+      if (intentions.error) return this.formatErrorResult(intentions.error.message);
+
+      const userIds = new Set([...(preferences.data || []), ...(intentions.data || [])].map(row => row.user_id));
+      return this.formatSuccessResult([...userIds]);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  // Survey question bank operations
+  async getSurveyQuestionBank(version?: number): Promise<DatabaseResult<SurveyQuestionBankData | null>> {
+    try {
+      const query = this.supabaseClient
+        .from('survey_question_banks')
+        .select('version, is_active, survey_questions(*, survey_question_translations(locale, title, prompt))');
+
+      const { data, error } = await (version === undefined
+        ? query.eq('is_active', true)
+        : query.eq('version', version)
+      ).maybeSingle();
+
+      if (error) return this.formatErrorResult(error.message);
+      if (!data) return this.formatSuccessResult(null);
+
+      const questions = [...((data as any).survey_questions || [])]
+        .sort((a: any, b: any) => a.phase_number - b.phase_number || a.display_order - b.display_order);
+
+      return this.formatSuccessResult({
+        version: data.version,
+        isActive: data.is_active,
+        questions: questions.map((row: any) => ({
+          id: row.id,
+          questionId: row.question_key,
+          disease: row.disease,
+          phase: row.phase_number,
+          category: row.category,
+          order: row.display_order,
+          title: Object.fromEntries((row.survey_question_translations || []).map((t: any) => [t.locale, t.title])),
+          prompt: Object.fromEntries((row.survey_question_translations || []).map((t: any) => [t.locale, t.prompt]))
+        }))
+      });
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  // Push subscription operations
+  async upsertPushSubscription(subscription: {
+    userId: string;
+    endpoint: string;
+    p256dh: string;
+    auth: string;
+    deviceId?: string | null;
+    userAgent?: string | null;
+  }): Promise<DatabaseResult<PushSubscriptionData>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('push_subscriptions')
+        .upsert({
+          user_id: subscription.userId,
+          endpoint: subscription.endpoint,
+          p256dh: subscription.p256dh,
+          auth: subscription.auth,
+          device_id: subscription.deviceId || null,
+          user_agent: subscription.userAgent || null
+        }, { onConflict: 'endpoint' })
+        .select()
+        .single();
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(this.mapPushSubscriptionRow(data));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async getPushSubscriptionsByUser(userId: string): Promise<DatabaseResult<PushSubscriptionData[]>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('push_subscriptions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult((data || []).map(row => this.mapPushSubscriptionRow(row)));
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async deletePushSubscription(userId: string, endpoint: string): Promise<DatabaseResult<boolean>> {
+    try {
+      const { data, error } = await this.supabaseClient
+        .from('push_subscriptions')
+        .delete()
+        .eq('user_id', userId)
+        .eq('endpoint', endpoint)
+        .select('id');
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult((data || []).length > 0);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  async deletePushSubscriptionByEndpoint(endpoint: string): Promise<DatabaseResult<void>> {
+    try {
+      const { error } = await this.supabaseClient
+        .from('push_subscriptions')
+        .delete()
+        .eq('endpoint', endpoint);
+
+      if (error) return this.formatErrorResult(error.message);
+      return this.formatSuccessResult(undefined);
+    } catch (e) {
+      return this.formatErrorResult(String(e));
+    }
+  }
+
+  private mapPushSubscriptionRow(row: any): PushSubscriptionData {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      endpoint: row.endpoint,
+      p256dh: row.p256dh,
+      auth: row.auth,
+      deviceId: row.device_id,
+      userAgent: row.user_agent,
+      createdAt: row.created_at
+    };
+  }
+
+  private mapNotificationRow(row: any): NotificationData {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      type: row.type,
+      title: row.title,
+      body: row.body,
+      data: row.data || {},
+      dedupeKey: row.dedupe_key,
+      scheduledFor: row.scheduled_for,
+      status: row.status,
+      attempts: row.attempts,
+      channel: row.channel,
+      lastError: row.last_error,
+      sentAt: row.sent_at,
+      createdAt: row.created_at
+    };
+  }
+
+  private mapCircleRow(row: any): CircleData {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      creatorId: row.creator_id,
+      maxMembers: row.max_members,
+      isAnonymous: row.is_anonymous,
+      sharedGoal: row.shared_goal,
+      inviteCode: row.invite_code,
+      status: row.status,
+      createdAt: row.created_at
+    };
+  }
+
+  // Memberships reference users, not profiles, so names are looked up separately
+  private async withMemberDisplayNames(rows: any[]): Promise<DatabaseResult<CircleMemberData[]>> {
+    if (rows.length === 0) return this.formatSuccessResult([]);
+
+    const { data, error } = await this.supabaseClient
+      .from('profiles')
+      .select('user_id, display_name')
+      .in('user_id', rows.map(row => row.user_id));
+
+    if (error) return this.formatErrorResult(error.message);
+
+    const names = new Map((data || []).map(profile => [profile.user_id, profile.display_name]));
+    return this.formatSuccessResult(rows.map(row => this.mapCircleMemberRow(row, names.get(row.user_id))));
+  }
+
+  private mapCircleMemberRow(row: any, displayName?: string | null): CircleMemberData {
+    return {
+      id: row.id,
+      circleId: row.circle_id,
+      userId: row.user_id,
+      role: row.role,
+      displayName: displayName || null,
+      joinedAt: row.joined_at
+    };
+  }
+
+  private mapCircleEncouragementRow(row: any): CircleEncouragementData {
+    return {
+      id: row.id,
+      circleId: row.circle_id,
+      fromUserId: row.from_user_id,
+      toUserId: row.to_user_id,
+      message: row.message,
+      type: row.type,
+      createdAt: row.created_at
+    };
+  }
+
+  private mapAchievementRow(row: any): AchievementData {
+    return {
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      icon: row.icon,
+      conditionType: row.condition_type,
+      conditionTarget: row.condition_target,
+      khayrReward: row.khayr_reward
+    };
+  }
+
+  private mapUserPreferencesRow(row: any): UserPreferencesData {
+    return {
+      userId: row.user_id,
+      language: row.locale || 'en',
+      prayerCalculationMethod: row.prayer_calculation_method,
+      notificationSettings: row.notification_settings || {},
+      privacySettings: row.privacy_settings || {},
+      displaySettings: { theme: row.theme_preference || 'auto' },
+      habitSettings: row.habit_settings || {},
+      calendarSettings: row.calendar_settings || {},
+      prayerSettings: row.prayer_settings || {},
+      updatedAt: row.updated_at,
+      createdAt: row.created_at
+    };
+  }
+
+  // Only the theme of the display settings has a column; location is not stored
+  private toUserPreferencesRow(preferences: Partial<UserPreferencesData>): Record<string, any> {
+    const row: Record<string, any> = {
+      locale: preferences.language,
+      prayer_calculation_method: preferences.prayerCalculationMethod,
+      notification_settings: preferences.notificationSettings,
+      privacy_settings: preferences.privacySettings,
+      theme_preference: preferences.displaySettings?.theme,
+      habit_settings: preferences.habitSettings,
+      calendar_settings: preferences.calendarSettings,
+      prayer_settings: preferences.prayerSettings
+    };
+
+    return Object.fromEntries(Object.entries(row).filter(([, value]) => value !== undefined));
+  }
+
+  private mapUserStatsRow(row: any): UserStatsData {
+    return {
+      userId: row.user_id,
+      totalKhayrPoints: row.total_khayr_points,
+      currentStreak: row.current_streak,
+      longestStreak: row.longest_streak,
+      habitsCompleted: row.habits_completed,
+      plansCompleted: row.plans_completed,
+      level: row.level,
+      achievements: row.achievements || [],
+      lastActiveOn: row.last_active_on,
+      lastUpdated: row.last_updated
+    };
+  }
+
+  private mapSyncChangeRow(entity: SyncChangeEntity, row: any): Record<string, any> {
+    switch (entity) {
+      case 'habit':
+        return this.mapHabitRow(row)!;
+      case 'journal':
+        return this.mapJournalRow(row)!;
+      case 'checkin':
+        return this.mapCheckinRow(row)!;
+      case 'intention':
+        return this.mapIntentionRow(row)!;
+      case 'dhikr':
+        return this.mapDhikrSessionRow(row)!;
+    }
+  }
+
   // Health & cleanup
   async healthCheck(): Promise<{
     status: 'ok' | 'error';
@@ -6,6 +6,7 @@ import {
   Habit,
   HabitCompletion,
   Checkin,
+  CheckinSession,
   JournalEntry,
 } from '@sakinah/types';
 
@@ -38,6 +39,13 @@ export interface ContentSnippetRow {
   created_at: string;
 }
 
+export interface ContentTranslationData {
+  contentId: string;
+  locale: 'en' | 'ar';
+  text: string;
+  ref: string | null;
+}
+
 export interface PlanRow {
   id: string;
   user_id: string;
@@ -72,9 +80,12 @@ export interface CheckinRow {
   id: string;
   user_id: string;
   date: string;
+  session: CheckinSession;
   mood: number | null;
   intention: string | null;
   reflection: string | null;
+  gratitude: string[] | null;
+  improvements: string | null;
   created_at: string;
 }
 
@@ -103,6 +114,21 @@ export interface IntentionRow {
   updated_at: string;
 }
 
+export type CalculationMethodName =
+  | 'MuslimWorldLeague'
+  | 'Egyptian'
+  | 'Karachi'
+  | 'UmmAlQura'
+  | 'Dubai'
+  | 'MoonsightingCommittee'
+  | 'NorthAmerica'
+  | 'Kuwait'
+  | 'Qatar'
+  | 'Singapore'
+  | 'Tehran'
+  | 'Turkey'
+  | 'Jafari';
+
 export interface PrayerTimesRow {
   id: string;
   user_id: string;
@@ -112,6 +138,7 @@ export interface PrayerTimesRow {
   country: string | null;
   timezone: string | null;
   calculation_method: string;
+  calculation_settings: string; // JSON string
   date: string;
   fajr: string;
   sunrise: string;
@@ -125,6 +152,13 @@ export interface PrayerTimesRow {
   created_at: string;
 }
 
+// Asr madhab, high-latitude rule and per-prayer minute adjustments
+export interface CalculationSettingsData {
+  asrMadhab?: 'Shafi' | 'Hanafi';
+  highLatitudeRule?: 'MiddleOfTheNight' | 'SeventhOfTheNight' | 'TwilightAngle';
+  adjustments?: Partial<Record<'fajr' | 'sunrise' | 'dhuhr' | 'asr' | 'maghrib' | 'isha', number>>;
+}
+
 // Domain type for PrayerTimes
 export interface PrayerTimesData {
   id: string;
@@ -137,6 +171,7 @@ export interface PrayerTimesData {
     timezone?: string;
   };
   calculationMethod: string;
+  calculationSettings: CalculationSettingsData;
   date: string;
   prayerTimes: {
     fajr: string;
@@ -177,10 +212,13 @@ export interface UserPreferencesRow {
   user_id: string;
   language: 'en' | 'ar' | 'ur';
   location: string | null; // JSON string
-  prayer_calculation_method: 'ISNA' | 'MWL' | 'Egypt' | 'Makkah' | 'Karachi' | 'Tehran' | 'Jafari';
+  prayer_calculation_method: CalculationMethodName;
   notification_settings: string; // JSON string
   privacy_settings: string; // JSON string
   display_settings: string; // JSON string
+  habit_settings: string; // JSON string
+  calendar_settings: string; // JSON string
+  prayer_settings: string; // JSON string
   updated_at: string;
   created_at: string;
 }
@@ -240,7 +278,7 @@ export interface UserPreferencesData {
     city?: string;
     country?: string;
   };
-  prayerCalculationMethod: 'ISNA' | 'MWL' | 'Egypt' | 'Makkah' | 'Karachi' | 'Tehran' | 'Jafari';
+  prayerCalculationMethod: CalculationMethodName;
   notificationSettings: {
     fajrReminder?: boolean;
     dailyReminder?: boolean;
@@ -258,6 +296,13 @@ export interface UserPreferencesData {
     fontSize?: 'small' | 'medium' | 'large';
     showArabicWithTranslation?: boolean;
   };
+  habitSettings: {
+    completionGraceDays?: number;
+  };
+  calendarSettings: {
+    hijriAdjustment?: number;
+  };
+  prayerSettings: CalculationSettingsData;
   updatedAt: string;
   createdAt: string;
 }
@@ -364,6 +409,7 @@ export interface SurveyResponseRow {
 export interface SurveyResultRow {
   id: string;
   user_id: string;
+  attempt_number: number;
   disease_scores: string; // JSONB stored as string
   critical_diseases: string; // JSONB stored as string
   reflection_answers: string; // JSONB stored as string
@@ -376,6 +422,7 @@ export interface SurveyResultRow {
 
 export interface SurveyProgressRow {
   user_id: string;
+  attempt_number: number;
   current_phase: number;
   phase_1_completed: number; // BOOLEAN as INTEGER
   phase_2_completed: number; // BOOLEAN as INTEGER
@@ -385,6 +432,23 @@ export interface SurveyProgressRow {
   last_updated: string;
 }
 
+export interface SurveyQuestionRow {
+  id: string;
+  bank_version: number;
+  question_key: string;
+  disease: string;
+  phase_number: number;
+  category: string;
+  display_order: number;
+}
+
+export interface SurveyQuestionTranslationRow {
+  question_id: string;
+  locale: string;
+  title: string;
+  prompt: string;
+}
+
 // Domain types for Survey
 export interface SurveyResponseData {
   id: string;
@@ -400,6 +464,7 @@ export interface SurveyResponseData {
 export interface SurveyResultData {
   id: string;
   userId: string;
+  attemptNumber: number;
   diseaseScores: Record<string, number>;
   criticalDiseases: string[];
   reflectionAnswers: {
@@ -415,6 +480,7 @@ export interface SurveyResultData {
 
 export interface SurveyProgressData {
   userId: string;
+  attemptNumber: number;
   currentPhase: number;
   phase1Completed: boolean;
   phase2Completed: boolean;
@@ -424,7 +490,287 @@ export interface SurveyProgressData {
   lastUpdated: string;
 }
 
+export interface SurveyQuestionData {
+  id: string;
+  questionId: string;
+  disease: string;
+  phase: number;
+  category: string;
+  order: number;
+  title: Record<string, string>; // by locale
+  prompt: Record<string, string>; // by locale
+}
+
+export interface SurveyQuestionBankData {
+  version: number;
+  isActive: boolean;
+  questions: SurveyQuestionData[];
+}
+
+export interface SyncOperationRow {
+  id: string;
+  user_id: string;
+  operation_id: string;
+  device_id: string | null;
+  type: string;
+  entity: string;
+  entity_id: string | null;
+  status: 'applied' | 'conflict';
+  result: string; // JSON string in SQLite, JSONB in Postgres
+  client_timestamp: string;
+  processed_at: string;
+}
+
+export interface SyncOperationData {
+  id: string;
+  userId: string;
+  operationId: string;
+  deviceId: string | null;
+  type: string;
+  entity: string;
+  entityId: string | null;
+  status: 'applied' | 'conflict';
+  result: Record<string, any>;
+  clientTimestamp: string;
+  processedAt: string;
+}
+
+export interface SyncConflictRow {
+  id: string;
+  user_id: string;
+  device_id: string | null;
+  operation_id: string;
+  operation_type: string;
+  entity: string;
+  entity_id: string | null;
+  conflict_type: 'timestamp' | 'version' | 'data';
+  client_data: string; // JSON string in SQLite, JSONB in Postgres
+  server_data: string; // JSON string in SQLite, JSONB in Postgres
+  client_timestamp: string;
+  server_timestamp: string;
+  resolution: 'client' | 'server' | 'merge' | null;
+  resolved_data: string | null;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+export interface SyncConflictData {
+  id: string;
+  userId: string;
+  deviceId: string | null;
+  operationId: string;
+  operationType: string;
+  entity: string;
+  entityId: string | null;
+  conflictType: 'timestamp' | 'version' | 'data';
+  clientData: Record<string, any>;
+  serverData: Record<string, any>;
+  clientTimestamp: string;
+  serverTimestamp: string;
+  resolution: 'client' | 'server' | 'merge' | null;
+  resolvedData: Record<string, any> | null;
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+export interface SyncDeviceRow {
+  user_id: string;
+  device_id: string;
+  last_attempt_at: string;
+  last_successful_sync_at: string | null;
+  last_error_count: number;
+}
+
+export interface SyncDeviceData {
+  userId: string;
+  deviceId: string;
+  lastAttemptAt: string;
+  lastSuccessfulSyncAt: string | null;
+  lastErrorCount: number;
+}
+
+export type SyncChangeEntity = 'habit' | 'journal' | 'checkin' | 'intention' | 'dhikr';
+
+// Window of a delta pull - changes after `since` (exclusive) up to `until` (inclusive),
+// continuing after the (changedAt, id) position of the previous page
+export interface SyncChangeWindow {
+  since?: string;
+  until: string;
+  limit: number;
+  after?: { changedAt: string; id: string };
+}
+
+export interface SyncChangeData {
+  entity: SyncChangeEntity;
+  entityId: string;
+  data: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SyncTombstoneRow {
+  id: string;
+  user_id: string;
+  entity: SyncChangeEntity;
+  entity_id: string;
+  deleted_at: string;
+}
+
+export interface SyncTombstoneData {
+  id: string;
+  userId: string;
+  entity: SyncChangeEntity;
+  entityId: string;
+  deletedAt: string;
+}
+
 // Unified interface for all database operations
+// Gamification
+export type AchievementConditionType = 'streak' | 'habits_completed' | 'plans_completed' | 'consistency';
+
+export interface AchievementRow {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  condition_type: AchievementConditionType;
+  condition_target: number;
+  khayr_reward: number;
+}
+
+export interface AchievementData {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  conditionType: AchievementConditionType;
+  conditionTarget: number;
+  khayrReward: number;
+}
+
+export interface UserStatsRow {
+  user_id: string;
+  total_khayr_points: number;
+  current_streak: number;
+  longest_streak: number;
+  habits_completed: number;
+  plans_completed: number;
+  level: number;
+  achievements: string; // JSON array of unlocked achievement ids
+  last_active_on: string | null; // YYYY-MM-DD
+  last_updated: string;
+}
+
+export interface UserStatsData {
+  userId: string;
+  totalKhayrPoints: number;
+  currentStreak: number;
+  longestStreak: number;
+  habitsCompleted: number;
+  plansCompleted: number;
+  level: number;
+  achievements: string[];
+  lastActiveOn: string | null;
+  lastUpdated: string;
+}
+
+export type CircleStatus = 'active' | 'archived';
+export type CircleRole = 'creator' | 'member';
+export type CircleEncouragementType = 'dua' | 'encouragement' | 'reminder';
+
+export interface CircleData {
+  id: string;
+  name: string;
+  description: string | null;
+  creatorId: string;
+  maxMembers: number;
+  isAnonymous: boolean;
+  sharedGoal: string | null;
+  inviteCode: string;
+  status: CircleStatus;
+  createdAt: string;
+}
+
+export interface CircleMemberData {
+  id: string;
+  circleId: string;
+  userId: string;
+  role: CircleRole;
+  displayName: string | null;
+  joinedAt: string;
+}
+
+export interface CircleEncouragementData {
+  id: string;
+  circleId: string;
+  fromUserId: string;
+  toUserId: string | null;
+  message: string;
+  type: CircleEncouragementType;
+  createdAt: string;
+}
+
+/** Habit completions of all circle members between two days, never broken down per member */
+export interface CircleProgressData {
+  completions: number;
+  activeMembers: number;
+}
+
+export type NotificationTypeData = 'prayer' | 'fajr_reminder' | 'daily_reminder' | 'habit_streak' | 'intention';
+export type NotificationStatusData = 'pending' | 'sent' | 'failed' | 'expired';
+
+export interface NotificationData {
+  id: string;
+  userId: string;
+  type: NotificationTypeData;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  dedupeKey: string;
+  scheduledFor: string;
+  status: NotificationStatusData;
+  attempts: number;
+  channel: string | null;
+  lastError: string | null;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+export interface PushSubscriptionData {
+  id: string;
+  userId: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  deviceId: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+export type JournalSearchSort = 'relevance' | 'createdAt' | 'content';
+
+export interface JournalSearchFilters {
+  query?: string;
+  tags?: string[];
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+  sortBy?: JournalSearchSort;
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface JournalSearchHitData {
+  entry: JournalEntry;
+  rank: number;
+  highlight: string | null;
+}
+
+export interface JournalSearchData {
+  hits: JournalSearchHitData[];
+  total: number;
+}
+
 export interface IDatabaseClient {
   // User operations
   getUserById(id: string): Promise<DatabaseResult<User | null>>;
@@ -446,6 +792,7 @@ export interface IDatabaseClient {
   getContentSnippetById(id: string): Promise<DatabaseResult<ContentSnippet | null>>;
   getContentSnippetsByTags(tags: string[]): Promise<DatabaseResult<ContentSnippet[]>>;
   getAllContentSnippets(): Promise<DatabaseResult<ContentSnippet[]>>;
+  getContentTranslations(contentIds: string[], locale: 'en' | 'ar'): Promise<DatabaseResult<ContentTranslationData[]>>;
 
   // Plan operations
   createPlan(data: {
@@ -468,6 +815,7 @@ export interface IDatabaseClient {
     schedule: any;
   }): Promise<DatabaseResult<Habit>>;
   getHabitsByUserId(userId: string): Promise<DatabaseResult<Habit[]>>;
+  getAllHabits(): Promise<DatabaseResult<Habit[]>>;
   getHabitById(id: string): Promise<DatabaseResult<Habit | null>>;
   updateHabitStreak(
     id: string,
@@ -493,11 +841,14 @@ export interface IDatabaseClient {
   createCheckin(data: {
     userId: string;
     date: string;
+    session?: CheckinSession;
     mood?: number;
     intention?: string;
     reflection?: string;
+    gratitude?: string[];
+    improvements?: string;
   }): Promise<DatabaseResult<Checkin>>;
-  getCheckinByDate(userId: string, date: string): Promise<DatabaseResult<Checkin | null>>;
+  getCheckinByDate(userId: string, date: string, session: CheckinSession): Promise<DatabaseResult<Checkin | null>>;
   updateCheckin(
     id: string,
     userId: string,
@@ -505,6 +856,8 @@ export interface IDatabaseClient {
       mood?: number;
       intention?: string;
       reflection?: string;
+      gratitude?: string[];
+      improvements?: string;
     }
   ): Promise<DatabaseResult<Checkin>>;
   getCheckinsByUser(
@@ -543,6 +896,7 @@ export interface IDatabaseClient {
       sortOrder?: 'asc' | 'desc';
     }
   ): Promise<DatabaseResult<{ entries: JournalEntry[]; pagination: any }>>;
+  searchJournals(userId: string, filters: JournalSearchFilters): Promise<DatabaseResult<JournalSearchData>>;
   getJournalById(id: string): Promise<DatabaseResult<JournalEntry | null>>;
   updateJournal(
     id: string,
@@ -623,6 +977,7 @@ export interface IDatabaseClient {
     country?: string;
     timezone?: string;
     calculationMethod: string;
+    calculationSettings?: CalculationSettingsData;
     date: string; // YYYY-MM-DD
     fajr: string; // ISO datetime
     sunrise: string; // ISO datetime
@@ -845,6 +1200,7 @@ export interface IDatabaseClient {
   // Survey results operations
   createSurveyResult(data: {
     userId: string;
+    attemptNumber?: number;
     diseaseScores: Record<string, number>;
     criticalDiseases: string[];
     reflectionAnswers: {
@@ -855,7 +1211,8 @@ export interface IDatabaseClient {
     tazkiyahPlan: any;
     radarChartData?: any;
   }): Promise<DatabaseResult<SurveyResultData>>;
-  getSurveyResultByUserId(userId: string): Promise<DatabaseResult<SurveyResultData | null>>;
+  getSurveyResultByUserId(userId: string): Promise<DatabaseResult<SurveyResultData | null>>; // latest attempt
+  getSurveyResultsByUserId(userId: string): Promise<DatabaseResult<SurveyResultData[]>>; // oldest attempt first
   getSurveyResultById(id: string): Promise<DatabaseResult<SurveyResultData | null>>;
   updateSurveyResult(
     userId: string,
@@ -876,6 +1233,7 @@ export interface IDatabaseClient {
   // Survey progress operations
   createSurveyProgress(data: {
     userId: string;
+    attemptNumber?: number;
     currentPhase?: number;
     phase1Completed?: boolean;
     phase2Completed?: boolean;
@@ -886,6 +1244,8 @@ export interface IDatabaseClient {
   updateSurveyProgress(
     userId: string,
     updates: {
+      attemptNumber?: number;
+      startedAt?: string;
       currentPhase?: number;
       phase1Completed?: boolean;
       phase2Completed?: boolean;
@@ -907,6 +1267,162 @@ export interface IDatabaseClient {
     progress: SurveyProgressData | null;
   }>>;
 
+  // Survey question bank operations
+  getSurveyQuestionBank(version?: number): Promise<DatabaseResult<SurveyQuestionBankData | null>>; // active bank when no version is given
+
+  // Sync operations
+  createSyncOperation(data: {
+    userId: string;
+    operationId: string;
+    deviceId?: string | null;
+    type: string;
+    entity: string;
+    entityId?: string | null;
+    status: 'applied' | 'conflict';
+    result: Record<string, any>;
+    clientTimestamp: string;
+  }): Promise<DatabaseResult<SyncOperationData>>;
+  getSyncOperation(userId: string, operationId: string): Promise<DatabaseResult<SyncOperationData | null>>;
+  getLatestSyncOperationForEntity(
+    userId: string,
+    entity: string,
+    entityId: string
+  ): Promise<DatabaseResult<SyncOperationData | null>>;
+
+  // Sync conflict operations
+  createSyncConflict(data: {
+    id?: string;
+    userId: string;
+    deviceId?: string | null;
+    operationId: string;
+    operationType: string;
+    entity: string;
+    entityId?: string | null;
+    conflictType: 'timestamp' | 'version' | 'data';
+    clientData: Record<string, any>;
+    serverData: Record<string, any>;
+    clientTimestamp: string;
+    serverTimestamp: string;
+  }): Promise<DatabaseResult<SyncConflictData>>;
+  getSyncConflictById(id: string, userId: string): Promise<DatabaseResult<SyncConflictData | null>>;
+  getPendingSyncConflicts(userId: string, deviceId?: string): Promise<DatabaseResult<SyncConflictData[]>>;
+  resolveSyncConflict(
+    id: string,
+    userId: string,
+    resolution: {
+      resolution: 'client' | 'server' | 'merge';
+      resolvedData?: Record<string, any> | null;
+    }
+  ): Promise<DatabaseResult<SyncConflictData>>;
+
+  // Sync device operations
+  upsertSyncDevice(data: {
+    userId: string;
+    deviceId: string;
+    lastAttemptAt: string;
+    lastSuccessfulSyncAt?: string | null;
+    lastErrorCount: number;
+  }): Promise<DatabaseResult<SyncDeviceData>>;
+  getSyncDevicesByUser(userId: string): Promise<DatabaseResult<SyncDeviceData[]>>;
+
+  // Sync delta pull
+  getSyncChanges(
+    userId: string,
+    entity: SyncChangeEntity,
+    window: SyncChangeWindow
+  ): Promise<DatabaseResult<SyncChangeData[]>>;
+  getSyncTombstones(userId: string, window: SyncChangeWindow): Promise<DatabaseResult<SyncTombstoneData[]>>;
+  getSyncEntityUpdatedAt(userId: string, entity: SyncChangeEntity, entityId: string): Promise<DatabaseResult<string | null>>;
+
+  // Gamification operations
+  getAchievements(): Promise<DatabaseResult<AchievementData[]>>;
+  getUserStats(userId: string): Promise<DatabaseResult<UserStatsData | null>>;
+  upsertUserStats(data: UserStatsData): Promise<DatabaseResult<UserStatsData>>;
+
+  // Circle operations
+  createCircle(data: {
+    creatorId: string;
+    name: string;
+    description?: string | null;
+    maxMembers: number;
+    isAnonymous: boolean;
+    sharedGoal?: string | null;
+    inviteCode: string;
+  }): Promise<DatabaseResult<CircleData>>;
+  getCircleById(id: string): Promise<DatabaseResult<CircleData | null>>;
+  getCircleByInviteCode(inviteCode: string): Promise<DatabaseResult<CircleData | null>>;
+  getCirclesByUserId(userId: string): Promise<DatabaseResult<CircleData[]>>;
+  updateCircle(
+    id: string,
+    updates: {
+      name?: string;
+      description?: string | null;
+      sharedGoal?: string | null;
+      status?: CircleStatus;
+    }
+  ): Promise<DatabaseResult<CircleData>>;
+  getCircleMembers(circleId: string): Promise<DatabaseResult<CircleMemberData[]>>;
+  addCircleMember(data: {
+    circleId: string;
+    userId: string;
+    role: CircleRole;
+  }): Promise<DatabaseResult<CircleMemberData>>;
+  removeCircleMember(circleId: string, userId: string): Promise<DatabaseResult<void>>;
+  createCircleEncouragement(data: {
+    circleId: string;
+    fromUserId: string;
+    toUserId?: string | null;
+    message: string;
+    type: CircleEncouragementType;
+  }): Promise<DatabaseResult<CircleEncouragementData>>;
+  getCircleEncouragements(
+    circleId: string,
+    filters?: { limit?: number; offset?: number }
+  ): Promise<DatabaseResult<CircleEncouragementData[]>>;
+  getCircleProgress(circleId: string, from: string, to: string): Promise<DatabaseResult<CircleProgressData>>;
+
+  // Notification operations
+  createNotifications(
+    notifications: Array<{
+      userId: string;
+      type: NotificationTypeData;
+      title: string;
+      body: string;
+      data: Record<string, unknown>;
+      dedupeKey: string;
+      scheduledFor: string;
+    }>
+  ): Promise<DatabaseResult<number>>;
+  getDueNotifications(before: string, limit: number): Promise<DatabaseResult<NotificationData[]>>;
+  getNotificationsByUser(
+    userId: string,
+    filters?: { status?: NotificationStatusData; limit?: number; offset?: number }
+  ): Promise<DatabaseResult<NotificationData[]>>;
+  updateNotificationDelivery(
+    id: string,
+    updates: {
+      status: NotificationStatusData;
+      attempts: number;
+      channel: string | null;
+      lastError: string | null;
+      sentAt: string | null;
+    }
+  ): Promise<DatabaseResult<void>>;
+  getReminderUserIds(): Promise<DatabaseResult<string[]>>;
+
+  // Push subscription operations
+  upsertPushSubscription(data: {
+    userId: string;
+    endpoint: string;
+    p256dh: string;
+    auth: string;
+    deviceId?: string | null;
+    userAgent?: string | null;
+  }): Promise<DatabaseResult<PushSubscriptionData>>;
+  getPushSubscriptionsByUser(userId: string): Promise<DatabaseResult<PushSubscriptionData[]>>;
+  deletePushSubscription(userId: string, endpoint: string): Promise<DatabaseResult<boolean>>;
+  deletePushSubscriptionByEndpoint(endpoint: string): Promise<DatabaseResult<void>>;
+
   // Health & cleanup
   healthCheck(): Promise<{
     status: 'ok' | 'error';
@@ -165,24 +165,32 @@ export type Database = {
           id: string;
           user_id: string;
           date: string;
+          session: 'morning' | 'evening';
           mood: number | null;
           intention: string | null;
           reflection: string | null;
+          gratitude: string[];
+          improvements: string | null;
           created_at: string;
         };
         Insert: {
           id?: string;
           user_id: string;
           date: string;
+          session?: 'morning' | 'evening';
           mood?: number | null;
           intention?: string | null;
           reflection?: string | null;
+          gratitude?: string[];
+          improvements?: string | null;
           created_at?: string;
         };
         Update: {
           mood?: number | null;
           intention?: string | null;
           reflection?: string | null;
+          gratitude?: string[];
+          improvements?: string | null;
         };
       };
       journals: {
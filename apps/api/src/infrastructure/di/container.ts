@@ -9,11 +9,18 @@ import {
   ICheckinRepository,
   IJournalRepository,
   IPrayerTimesRepository,
-  IIntentionRepository
+  IIntentionRepository,
+  ISyncRepository,
+  IProfileRepository,
+  IAchievementRepository,
+  ICircleRepository,
+  INotificationRepository,
+  IPushSubscriptionRepository
 } from '@/domain/repositories';
 import { IOnboardingRepository } from '@/domain/repositories/IOnboardingRepository';
 import { IDhikrRepository } from '@/domain/repositories/IDhikrRepository';
 import { ISurveyRepository } from '@/domain/repositories/ISurveyRepository';
+import { ISurveyQuestionRepository } from '@/domain/repositories/ISurveyQuestionRepository';
 import { ContentRepositoryAdapter } from '../repos/ContentRepositoryAdapter';
 import { PlanRepository } from '../repos/PlanRepository';
 import { HabitRepositoryAdapter } from '../repos/HabitRepositoryAdapter';
@@ -24,14 +31,34 @@ import { IntentionRepositoryAdapter } from '../repos/IntentionRepositoryAdapter'
 import { DhikrRepositoryAdapter } from '../repos/DhikrRepositoryAdapter';
 import { OnboardingRepositoryAdapter } from '../repos/OnboardingRepositoryAdapter';
 import { SurveyRepositoryAdapter } from '../repos/SurveyRepositoryAdapter';
+import { SurveyQuestionRepositoryAdapter } from '../repos/SurveyQuestionRepositoryAdapter';
+import { SyncRepositoryAdapter } from '../repos/SyncRepositoryAdapter';
+import { ProfileRepositoryAdapter } from '../repos/ProfileRepositoryAdapter';
+import { AchievementRepositoryAdapter } from '../repos/AchievementRepositoryAdapter';
+import { CircleRepositoryAdapter } from '../repos/CircleRepositoryAdapter';
+import { NotificationRepositoryAdapter } from '../repos/NotificationRepositoryAdapter';
+import { PushSubscriptionRepositoryAdapter } from '../repos/PushSubscriptionRepositoryAdapter';
+import { INotificationChannel } from '@/domain/services/INotificationChannel';
+import { LogNotificationChannel } from '../notifications/LogNotificationChannel';
+import { WebPushNotificationChannel } from '../notifications/WebPushNotificationChannel';
+import { WebPushSender, getVapidConfig } from '../notifications/WebPushSender';
+import { NotificationScheduler } from '../notifications/NotificationScheduler';
 import { IAiProvider } from '@/domain/providers/IAiProvider';
+import { IProgressRecommender } from '@/domain/providers/IProgressRecommender';
 import { getAIProvider } from '../ai/factory';
+import { RulesAiProviderAdapter } from '../ai/RulesAiProviderAdapter';
+import { ICitationGuardrail } from '@/domain/services/ICitationGuardrail';
+import { CitationGuardrail } from '../ai/CitationGuardrail';
 import { SuggestPlanUseCase } from '@/application/usecases/SuggestPlanUseCase';
 import { LogCheckinUseCase } from '@/application/usecases/LogCheckinUseCase';
+import { GetGratitudeHistoryUseCase } from '@/application/usecases/GetGratitudeHistoryUseCase';
+import { GetEveningReviewUseCase } from '@/application/usecases/GetEveningReviewUseCase';
 import { ToggleHabitUseCase } from '@/application/usecases/ToggleHabitUseCase';
+import { RecalculateHabitStreaksUseCase } from '@/application/usecases/RecalculateHabitStreaksUseCase';
 import { ManageJournalUseCase } from '@/application/usecases/ManageJournalUseCase';
 import { GetPrayerTimesUseCase } from '@/application/usecases/GetPrayerTimesUseCase';
 import { GetPrayerTimesRangeUseCase } from '@/application/usecases/GetPrayerTimesRangeUseCase';
+import { GetPrayerTimetableUseCase } from '@/application/usecases/GetPrayerTimetableUseCase';
 import {
   CreateIntentionUseCase,
   UpdateIntentionUseCase,
@@ -49,12 +76,47 @@ import {
   GetDhikrStatsUseCase,
   GetDhikrTypesUseCase
 } from '@/application/usecases/dhikr';
+import {
+  ProcessSyncOperationUseCase,
+  ResolveSyncConflictUseCase,
+  GetSyncStatusUseCase,
+  GetSyncChangesUseCase
+} from '@/application/usecases/sync';
+import {
+  UpdateUserStatsUseCase,
+  GetAchievementsUseCase,
+  GetUserStatsUseCase
+} from '@/application/usecases/achievements';
+import {
+  CreateCircleUseCase,
+  GetCirclesUseCase,
+  GetCircleUseCase,
+  JoinCircleUseCase,
+  LeaveCircleUseCase,
+  UpdateCircleUseCase,
+  ArchiveCircleUseCase,
+  SendEncouragementUseCase,
+  GetEncouragementsUseCase
+} from '@/application/usecases/circles';
+import { GetHijriCalendarUseCase } from '@/application/usecases/calendar';
+import { AnalyzeProgressUseCase } from '@/application/usecases/progress';
+import {
+  ScheduleRemindersUseCase,
+  DeliverDueNotificationsUseCase,
+  GetNotificationsUseCase,
+  SavePushSubscriptionUseCase,
+  DeletePushSubscriptionUseCase
+} from '@/application/usecases/notifications';
 import { ValidateSurveyProgressUseCase } from '@/application/usecases/ValidateSurveyProgressUseCase';
 import { SubmitPhase1UseCase } from '@/application/usecases/SubmitPhase1UseCase';
 import { SubmitPhase2UseCase } from '@/application/usecases/SubmitPhase2UseCase';
 import { SubmitReflectionUseCase } from '@/application/usecases/SubmitReflectionUseCase';
 import { GenerateResultsUseCase } from '@/application/usecases/GenerateResultsUseCase';
 import { CreateHabitsFromSurveyUseCase } from '@/application/usecases/CreateHabitsFromSurveyUseCase';
+import { StartSurveyRetakeUseCase } from '@/application/usecases/StartSurveyRetakeUseCase';
+import { GetSurveyHistoryUseCase } from '@/application/usecases/GetSurveyHistoryUseCase';
+import { GetSurveyQuestionBankUseCase } from '@/application/usecases/GetSurveyQuestionBankUseCase';
+import { ExportSurveyResultUseCase } from '@/application/usecases/ExportSurveyResultUseCase';
 import { ISurveyAiProvider } from '@/domain/providers/ISurveyAiProvider';
 import { getSurveyAIProvider } from '../ai/surveyFactory';
 // Cache service imports removed - not used in this file
@@ -80,6 +142,12 @@ export async function configureDependencies(): Promise<void> {
     useFactory: () => getAIProvider()
   });
 
+  // Infrastructure - Every AI reference is checked against the content library
+  container.register<ICitationGuardrail>('ICitationGuardrail', CitationGuardrail);
+
+  // Infrastructure - Progress recommendations always come from the rules engine
+  container.register<IProgressRecommender>('IProgressRecommender', RulesAiProviderAdapter);
+
   // Infrastructure - Survey AI Provider
   container.register<ISurveyAiProvider>('ISurveyAiProvider', {
     useFactory: () => getSurveyAIProvider()
@@ -91,6 +159,17 @@ export async function configureDependencies(): Promise<void> {
   //   useValue: CacheFactory.getInstance()
   // });
 
+  // Infrastructure - Notification Channels (every registered channel receives each notification)
+  // Web Push when VAPID keys are configured, otherwise reminders are only logged
+  const vapid = getVapidConfig();
+  if (vapid) {
+    container.registerInstance<WebPushSender>('WebPushSender', new WebPushSender(vapid));
+    container.registerSingleton<INotificationChannel>('INotificationChannel', WebPushNotificationChannel);
+  } else {
+    container.registerSingleton<INotificationChannel>('INotificationChannel', LogNotificationChannel);
+  }
+  container.registerSingleton<NotificationScheduler>('NotificationScheduler', NotificationScheduler);
+
   // Repositories
   container.register<IContentRepository>('IContentRepository', ContentRepositoryAdapter);
   container.register<IPlanRepository>('IPlanRepository', PlanRepository);
@@ -102,6 +181,13 @@ export async function configureDependencies(): Promise<void> {
   container.register<IDhikrRepository>('IDhikrRepository', DhikrRepositoryAdapter);
   container.register<IOnboardingRepository>('IOnboardingRepository', OnboardingRepositoryAdapter);
   container.register<ISurveyRepository>('ISurveyRepository', SurveyRepositoryAdapter);
+  container.register<ISurveyQuestionRepository>('ISurveyQuestionRepository', SurveyQuestionRepositoryAdapter);
+  container.register<ISyncRepository>('ISyncRepository', SyncRepositoryAdapter);
+  container.register<IProfileRepository>('IProfileRepository', ProfileRepositoryAdapter);
+  container.register<IAchievementRepository>('IAchievementRepository', AchievementRepositoryAdapter);
+  container.register<ICircleRepository>('ICircleRepository', CircleRepositoryAdapter);
+  container.register<INotificationRepository>('INotificationRepository', NotificationRepositoryAdapter);
+  container.register<IPushSubscriptionRepository>('IPushSubscriptionRepository', PushSubscriptionRepositoryAdapter);
   container.register('IUserPreferencesRepository', {
     useClass: (await import('../repos/UserPreferencesRepository')).UserPreferencesRepository
   });
@@ -109,10 +195,14 @@ export async function configureDependencies(): Promise<void> {
   // Use Cases
   container.register<SuggestPlanUseCase>('SuggestPlanUseCase', SuggestPlanUseCase);
   container.register<LogCheckinUseCase>('LogCheckinUseCase', LogCheckinUseCase);
+  container.register<GetGratitudeHistoryUseCase>('GetGratitudeHistoryUseCase', GetGratitudeHistoryUseCase);
+  container.register<GetEveningReviewUseCase>('GetEveningReviewUseCase', GetEveningReviewUseCase);
   container.register<ToggleHabitUseCase>('ToggleHabitUseCase', ToggleHabitUseCase);
+  container.register<RecalculateHabitStreaksUseCase>('RecalculateHabitStreaksUseCase', RecalculateHabitStreaksUseCase);
   container.register<ManageJournalUseCase>('ManageJournalUseCase', ManageJournalUseCase);
   container.register<GetPrayerTimesUseCase>('GetPrayerTimesUseCase', GetPrayerTimesUseCase);
   container.register<GetPrayerTimesRangeUseCase>('GetPrayerTimesRangeUseCase', GetPrayerTimesRangeUseCase);
+  container.register<GetPrayerTimetableUseCase>('GetPrayerTimetableUseCase', GetPrayerTimetableUseCase);
 
   // Intention Use Cases
   container.register<CreateIntentionUseCase>('CreateIntentionUseCase', CreateIntentionUseCase);
@@ -131,6 +221,41 @@ export async function configureDependencies(): Promise<void> {
   container.register<GetDhikrStatsUseCase>('GetDhikrStatsUseCase', GetDhikrStatsUseCase);
   container.register<GetDhikrTypesUseCase>('GetDhikrTypesUseCase', GetDhikrTypesUseCase);
 
+  // Sync Use Cases
+  container.register<ProcessSyncOperationUseCase>('ProcessSyncOperationUseCase', ProcessSyncOperationUseCase);
+  container.register<ResolveSyncConflictUseCase>('ResolveSyncConflictUseCase', ResolveSyncConflictUseCase);
+  container.register<GetSyncStatusUseCase>('GetSyncStatusUseCase', GetSyncStatusUseCase);
+  container.register<GetSyncChangesUseCase>('GetSyncChangesUseCase', GetSyncChangesUseCase);
+
+  // Achievement Use Cases
+  container.register<UpdateUserStatsUseCase>('UpdateUserStatsUseCase', UpdateUserStatsUseCase);
+  container.register<GetAchievementsUseCase>('GetAchievementsUseCase', GetAchievementsUseCase);
+  container.register<GetUserStatsUseCase>('GetUserStatsUseCase', GetUserStatsUseCase);
+
+  // Circle Use Cases
+  container.register<CreateCircleUseCase>('CreateCircleUseCase', CreateCircleUseCase);
+  container.register<GetCirclesUseCase>('GetCirclesUseCase', GetCirclesUseCase);
+  container.register<GetCircleUseCase>('GetCircleUseCase', GetCircleUseCase);
+  container.register<JoinCircleUseCase>('JoinCircleUseCase', JoinCircleUseCase);
+  container.register<LeaveCircleUseCase>('LeaveCircleUseCase', LeaveCircleUseCase);
+  container.register<UpdateCircleUseCase>('UpdateCircleUseCase', UpdateCircleUseCase);
+  container.register<ArchiveCircleUseCase>('ArchiveCircleUseCase', ArchiveCircleUseCase);
+  container.register<SendEncouragementUseCase>('SendEncouragementUseCase', SendEncouragementUseCase);
+  container.register<GetEncouragementsUseCase>('GetEncouragementsUseCase', GetEncouragementsUseCase);
+
+  // Calendar Use Cases
+  container.register<GetHijriCalendarUseCase>('GetHijriCalendarUseCase', GetHijriCalendarUseCase);
+
+  // Progress Use Cases
+  container.register<AnalyzeProgressUseCase>('AnalyzeProgressUseCase', AnalyzeProgressUseCase);
+
+  // Notification Use Cases
+  container.register<ScheduleRemindersUseCase>('ScheduleRemindersUseCase', ScheduleRemindersUseCase);
+  container.register<DeliverDueNotificationsUseCase>('DeliverDueNotificationsUseCase', DeliverDueNotificationsUseCase);
+  container.register<GetNotificationsUseCase>('GetNotificationsUseCase', GetNotificationsUseCase);
+  container.register<SavePushSubscriptionUseCase>('SavePushSubscriptionUseCase', SavePushSubscriptionUseCase);
+  container.register<DeletePushSubscriptionUseCase>('DeletePushSubscriptionUseCase', DeletePushSubscriptionUseCase);
+
   // Survey Use Cases
   container.register<ValidateSurveyProgressUseCase>('ValidateSurveyProgressUseCase', ValidateSurveyProgressUseCase);
   container.register<SubmitPhase1UseCase>('SubmitPhase1UseCase', SubmitPhase1UseCase);
@@ -138,6 +263,10 @@ export async function configureDependencies(): Promise<void> {
   container.register<SubmitReflectionUseCase>('SubmitReflectionUseCase', SubmitReflectionUseCase);
   container.register<GenerateResultsUseCase>('GenerateResultsUseCase', GenerateResultsUseCase);
   container.register<CreateHabitsFromSurveyUseCase>('CreateHabitsFromSurveyUseCase', CreateHabitsFromSurveyUseCase);
+  container.register<StartSurveyRetakeUseCase>('StartSurveyRetakeUseCase', StartSurveyRetakeUseCase);
+  container.register<GetSurveyHistoryUseCase>('GetSurveyHistoryUseCase', GetSurveyHistoryUseCase);
+  container.register<GetSurveyQuestionBankUseCase>('GetSurveyQuestionBankUseCase', GetSurveyQuestionBankUseCase);
+  container.register<ExportSurveyResultUseCase>('ExportSurveyResultUseCase', ExportSurveyResultUseCase);
 
   // Event Sourcing
   container.register<IEventStore>('IEventStore', SQLiteEventStore);
@@ -146,7 +275,7 @@ export async function configureDependencies(): Promise<void> {
   container.register<EventSourcedEventBus>('EventSourcedEventBus', EventSourcedEventBus);
 
   // Event Projections
-  container.register<HabitAnalyticsProjection>('HabitAnalyticsProjection', HabitAnalyticsProjection);
+  container.registerSingleton<HabitAnalyticsProjection>('HabitAnalyticsProjection', HabitAnalyticsProjection);
 
   // CQRS Module
   await CqrsModule.register();
@@ -1,6 +1,7 @@
 import { injectable } from 'tsyringe';
 import { IEventBus, IEventHandler } from '@/domain/events/IEventBus';
 import { DomainEvent } from '@/domain/events/base/DomainEvent';
+import { EventDispatcher } from '@/domain/events/EventDispatcher';
 import { logger } from '@/shared/logger';
 
 @injectable()
@@ -27,12 +28,20 @@ export class EventBusImpl implements IEventBus {
     });
 
     await Promise.allSettled(promises);
+
+    // Hand the event on to the application handlers registered at startup (HabitEventHandlers etc.)
+    try {
+      await EventDispatcher.getInstance().dispatch([event]);
+    } catch (error) {
+      logger.error(`Error dispatching event ${event.eventName}:`, error);
+    }
   }
 
   async publishEvents<T extends DomainEvent>(events: T[]): Promise<void> {
     // Publish events sequentially to maintain order
-    const promises = events.map(event => this.publish(event));
-    await Promise.allSettled(promises);
+    for (const event of events) {
+      await this.publish(event);
+    }
   }
 
   subscribe<T extends DomainEvent>(eventType: string, handler: IEventHandler<T>): void {
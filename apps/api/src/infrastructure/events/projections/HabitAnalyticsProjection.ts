@@ -28,6 +28,19 @@ interface DailyHabitStats {
   updatedAt: Date;
 }
 
+export interface HabitCompletionTime {
+  habitId: string;
+  completedOn: string; // user's calendar day (YYYY-MM-DD)
+  completedAt: Date;
+}
+
+export interface HabitStreakBreak {
+  habitId: string;
+  previousStreak: number;
+  daysMissed: number;
+  brokenAt: Date;
+}
+
 interface UserSpiritalJourney {
   userId: string;
   totalDaysActive: number;
@@ -114,6 +127,28 @@ export class HabitAnalyticsProjection {
       );
     `);
 
+    // When each completion was logged, for time-of-day analysis
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS habit_completion_log (
+        user_id TEXT NOT NULL,
+        habit_id TEXT NOT NULL,
+        completed_on TEXT NOT NULL,
+        completed_at TEXT NOT NULL,
+        UNIQUE(habit_id, completed_on)
+      );
+    `);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS habit_streak_breaks (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        user_id TEXT NOT NULL,
+        habit_id TEXT NOT NULL,
+        previous_streak INTEGER NOT NULL DEFAULT 0,
+        days_missed INTEGER NOT NULL DEFAULT 0,
+        broken_at TEXT NOT NULL
+      );
+    `);
+
     // Indexes for performance
     this.db.exec(`
       CREATE INDEX IF NOT EXISTS idx_habit_analytics_user_id ON habit_analytics(user_id);
@@ -121,6 +156,8 @@ export class HabitAnalyticsProjection {
       CREATE INDEX IF NOT EXISTS idx_daily_habit_stats_date ON daily_habit_stats(date);
       CREATE INDEX IF NOT EXISTS idx_daily_habit_stats_user_id ON daily_habit_stats(user_id);
       CREATE INDEX IF NOT EXISTS idx_user_journey_last_activity ON user_spiritual_journey(last_activity_at);
+      CREATE INDEX IF NOT EXISTS idx_habit_completion_log_user ON habit_completion_log(user_id, completed_on);
+      CREATE INDEX IF NOT EXISTS idx_habit_streak_breaks_user ON habit_streak_breaks(user_id, broken_at);
     `);
 
     logger.info('Habit analytics projection schema initialized');
@@ -141,6 +178,9 @@ export class HabitAnalyticsProjection {
         case 'HabitMilestoneReachedEvent':
           await this.handleMilestoneReached(event);
           break;
+        case 'HabitCompletionRevokedEvent':
+          await this.handleCompletionRevoked(event);
+          break;
         default:
           // Ignore events we don't handle
           break;
@@ -179,7 +219,8 @@ export class HabitAnalyticsProjection {
   }
 
   private async handleHabitCompleted(event: StoredEvent): Promise<void> {
-    const { habitId, userId, completionDate, streakCount } = event.eventData;
+    const { habitId, userId, completionDate, completedOn } = event.eventData;
+    const streakCount = event.eventData.newStreakCount ?? event.eventData.streakCount;
     const completionDateObj = new Date(completionDate);
 
     const transaction = this.db.transaction(() => {
@@ -205,8 +246,18 @@ export class HabitAnalyticsProjection {
         habitId
       );
 
+      this.db.prepare(`
+        INSERT OR REPLACE INTO habit_completion_log (user_id, habit_id, completed_on, completed_at)
+        VALUES (?, ?, ?, ?)
+      `).run(
+        userId,
+        habitId,
+        completedOn ?? completionDateObj.toISOString().split('T')[0],
+        completionDateObj.toISOString()
+      );
+
       // Update daily stats
-      this.updateDailyStats(userId, completionDateObj, 'completion');
+      this.updateDailyStats(userId, completedOn, completionDateObj, 'completion');
 
       // Update user spiritual journey
       this.updateUserJourney(userId, event.occurredAt, 'completion');
@@ -217,7 +268,8 @@ export class HabitAnalyticsProjection {
   }
 
   private async handleStreakBroken(event: StoredEvent): Promise<void> {
-    const { habitId, userId, previousStreak } = event.eventData;
+    const { habitId, userId, daysMissed } = event.eventData;
+    const previousStreak = event.eventData.previousStreakCount ?? event.eventData.previousStreak;
 
     const transaction = this.db.transaction(() => {
       // Update habit analytics - reset current streak
@@ -236,6 +288,11 @@ export class HabitAnalyticsProjection {
         habitId
       );
 
+      this.db.prepare(`
+        INSERT INTO habit_streak_breaks (user_id, habit_id, previous_streak, days_missed, broken_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(userId, habitId, previousStreak ?? 0, daysMissed ?? 0, event.occurredAt.toISOString());
+
       // Update user spiritual journey
       this.updateUserJourney(userId, event.occurredAt, 'streak_broken');
     });
@@ -245,11 +302,11 @@ export class HabitAnalyticsProjection {
   }
 
   private async handleMilestoneReached(event: StoredEvent): Promise<void> {
-    const { habitId, userId, milestoneType } = event.eventData;
+    const { habitId, userId, milestoneType, reachedOn } = event.eventData;
 
     const transaction = this.db.transaction(() => {
       // Update daily stats with spiritual moment
-      this.updateDailyStats(userId, event.occurredAt, 'milestone');
+      this.updateDailyStats(userId, reachedOn, event.occurredAt, 'milestone');
 
       // Update user spiritual journey
       this.updateUserJourney(userId, event.occurredAt, 'milestone');
@@ -259,8 +316,54 @@ export class HabitAnalyticsProjection {
     logger.debug(`Processed HabitMilestoneReachedEvent: ${milestoneType} for habit ${habitId}`);
   }
 
-  private updateDailyStats(userId: string, date: Date, action: 'completion' | 'milestone'): void {
-    const dateStr = date.toISOString().split('T')[0]; // YYYY-MM-DD
+  /**
+   * Daily stats are keyed by the user's calendar day carried on the event.
+   * Events stored before that field existed fall back to the UTC day.
+   */
+  private async handleCompletionRevoked(event: StoredEvent): Promise<void> {
+    const { habitId, userId, revokedOn, newStreakCount, lastCompletedOn } = event.eventData;
+
+    const transaction = this.db.transaction(() => {
+      // Roll the habit back to the state restored from its completion history
+      const updateHabitStmt = this.db.prepare(`
+        UPDATE habit_analytics SET
+          total_completions = MAX(total_completions - 1, 0),
+          current_streak = ?,
+          completion_rate = CAST(MAX(total_completions - 1, 0) AS REAL) /
+            (julianday('now') - julianday(created_at) + 1) * 100,
+          last_completed_at = ?,
+          updated_at = ?
+        WHERE user_id = ? AND habit_id = ?
+      `);
+
+      updateHabitStmt.run(
+        newStreakCount,
+        lastCompletedOn ? new Date(lastCompletedOn).toISOString() : null,
+        event.occurredAt.toISOString(),
+        userId,
+        habitId
+      );
+
+      if (revokedOn) {
+        this.db.prepare('DELETE FROM habit_completion_log WHERE habit_id = ? AND completed_on = ?')
+          .run(habitId, revokedOn);
+      }
+
+      this.updateDailyStats(userId, revokedOn, event.occurredAt, 'revocation');
+      this.updateUserJourney(userId, event.occurredAt, 'revocation');
+    });
+
+    transaction();
+    logger.debug(`Processed HabitCompletionRevokedEvent for habit ${habitId}`);
+  }
+
+  private updateDailyStats(
+    userId: string,
+    localDate: string | undefined,
+    date: Date,
+    action: 'completion' | 'milestone' | 'revocation'
+  ): void {
+    const dateStr = localDate ?? date.toISOString().split('T')[0]; // YYYY-MM-DD
 
     const updateStmt = this.db.prepare(`
       INSERT INTO daily_habit_stats (date, user_id, habits_completed, spiritual_moments, updated_at)
@@ -272,7 +375,7 @@ export class HabitAnalyticsProjection {
         updated_at = ?
     `);
 
-    const habitsIncrement = action === 'completion' ? 1 : 0;
+    const habitsIncrement = action === 'completion' ? 1 : action === 'revocation' ? -1 : 0;
     const milestonesIncrement = action === 'milestone' ? 1 : 0;
 
     updateStmt.run(
@@ -312,7 +415,7 @@ export class HabitAnalyticsProjection {
     `);
 
     const habitsCreated = action === 'habit_created' ? 1 : 0;
-    const completions = action === 'completion' ? 1 : 0;
+    const completions = action === 'completion' ? 1 : action === 'revocation' ? -1 : 0;
     const milestones = action === 'milestone' ? 1 : 0;
 
     updateStmt.run(
@@ -395,6 +498,38 @@ export class HabitAnalyticsProjection {
     }));
   }
 
+  /**
+   * Completions logged between two calendar days (YYYY-MM-DD, inclusive)
+   */
+  async getCompletionTimes(userId: string, fromDate: string, toDate: string): Promise<HabitCompletionTime[]> {
+    const rows = this.db.prepare(`
+      SELECT habit_id, completed_on, completed_at FROM habit_completion_log
+      WHERE user_id = ? AND completed_on >= ? AND completed_on <= ?
+      ORDER BY completed_on
+    `).all(userId, fromDate, toDate) as any[];
+
+    return rows.map(row => ({
+      habitId: row.habit_id,
+      completedOn: row.completed_on,
+      completedAt: new Date(row.completed_at)
+    }));
+  }
+
+  async getStreakBreaks(userId: string, from: Date, to: Date): Promise<HabitStreakBreak[]> {
+    const rows = this.db.prepare(`
+      SELECT habit_id, previous_streak, days_missed, broken_at FROM habit_streak_breaks
+      WHERE user_id = ? AND broken_at >= ? AND broken_at <= ?
+      ORDER BY broken_at
+    `).all(userId, from.toISOString(), to.toISOString()) as any[];
+
+    return rows.map(row => ({
+      habitId: row.habit_id,
+      previousStreak: row.previous_streak,
+      daysMissed: row.days_missed,
+      brokenAt: new Date(row.broken_at)
+    }));
+  }
+
   async getUserSpiritalJourney(userId: string): Promise<UserSpiritalJourney | null> {
     const stmt = this.db.prepare('SELECT * FROM user_spiritual_journey WHERE user_id = ?');
     const row = stmt.get(userId) as any;
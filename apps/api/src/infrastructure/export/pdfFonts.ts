@@ -0,0 +1,34 @@
+import { join } from 'path';
+import PDFDocument from 'pdfkit';
+
+export type PdfDocument = InstanceType<typeof PDFDocument>;
+
+// Amiri covers Latin and Arabic, so mixed English/Arabic documents need a single family.
+// Arabic shaping and right-to-left ordering come from fontkit, but only within a
+// single-script run: write Arabic and Latin text as separate text() calls.
+const FONTS_DIR = join(__dirname, '../../../assets/fonts');
+
+export const PDF_FONTS = {
+  regular: { name: 'Amiri', path: join(FONTS_DIR, 'Amiri-Regular.ttf') },
+  bold: { name: 'Amiri-Bold', path: join(FONTS_DIR, 'Amiri-Bold.ttf') }
+} as const;
+
+export function registerPdfFonts(doc: PdfDocument): void {
+  for (const font of Object.values(PDF_FONTS)) {
+    doc.registerFont(font.name, font.path);
+  }
+  doc.font(PDF_FONTS.regular.name);
+}
+
+/**
+ * Collects a finished document into a buffer; call once everything has been drawn
+ */
+export function toPdfBuffer(doc: PdfDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+    doc.end();
+  });
+}
@@ -0,0 +1,110 @@
+import { formatHijriDate } from '@/shared/hijri';
+import { PrayerTimetable, TimetablePrayer } from '@/application/usecases/GetPrayerTimetableUseCase';
+import { TIMETABLE_LABELS } from './timetableLabels';
+
+export const ICS_PRAYERS = ['fajr', 'dhuhr', 'asr', 'maghrib', 'isha'] as const;
+export type IcsPrayer = typeof ICS_PRAYERS[number];
+
+export const MAX_ALARM_MINUTES = 120;
+
+export interface IcsTimetableOptions {
+  // Minutes before each prayer to remind; prayers without an entry get no alarm
+  alarms?: Partial<Record<IcsPrayer, number>>;
+  generatedAt?: Date;
+}
+
+/**
+ * Renders a prayer timetable as an RFC 5545 calendar with one event per
+ * prayer, so it can be imported into or subscribed to from calendar apps
+ */
+export function renderPrayerTimetableIcs(timetable: PrayerTimetable, options: IcsTimetableOptions = {}): string {
+  const { location, locale } = timetable;
+  const dtstamp = toIcsDateTime(options.generatedAt ?? new Date());
+  const place = [location.city, location.country].filter(Boolean).join(', ')
+    || `${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}`;
+  const labels = TIMETABLE_LABELS[locale];
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Sakinah//Prayer Timetable//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`${labels.timetable} – ${place}`)}`,
+    `X-WR-TIMEZONE:${timetable.timezone}`
+  ];
+
+  for (const day of timetable.days) {
+    const hijriDate = formatHijriDate(day.hijri, locale);
+
+    for (const prayer of ICS_PRAYERS) {
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${eventUid(day.date, prayer, timetable)}`,
+        `DTSTAMP:${dtstamp}`,
+        `DTSTART:${toIcsDateTime(day.times[prayer])}`,
+        `SUMMARY:${escapeText(labels[prayer])}`,
+        `DESCRIPTION:${escapeText(hijriDate)}`,
+        `LOCATION:${escapeText(place)}`,
+        'TRANSP:TRANSPARENT'
+      );
+
+      const alarmMinutes = options.alarms?.[prayer];
+      if (alarmMinutes !== undefined) {
+        lines.push(
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `TRIGGER:-PT${alarmMinutes}M`,
+          `DESCRIPTION:${escapeText(labels[prayer])}`,
+          'END:VALARM'
+        );
+      }
+
+      lines.push('END:VEVENT');
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Stable per day, prayer and place, so re-importing a month updates events instead of duplicating them
+ */
+function eventUid(date: string, prayer: TimetablePrayer, timetable: PrayerTimetable): string {
+  const { latitude, longitude } = timetable.location;
+  return `${date}-${prayer}-${latitude.toFixed(4)}_${longitude.toFixed(4)}@sakinah`;
+}
+
+function toIcsDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Content lines are limited to 75 octets; longer ones continue on lines starting with a space
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      chunks.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
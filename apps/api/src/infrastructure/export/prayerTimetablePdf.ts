@@ -0,0 +1,181 @@
+import PDFDocument from 'pdfkit';
+import { HIJRI_MONTH_NAMES } from '@/shared/hijri';
+import {
+  PrayerTimetable,
+  PrayerTimetableDay,
+  TIMETABLE_PRAYERS
+} from '@/application/usecases/GetPrayerTimetableUseCase';
+import { PDF_FONTS, PdfDocument, registerPdfFonts, toPdfBuffer } from './pdfFonts';
+import { TIMETABLE_LABELS } from './timetableLabels';
+
+const MARGIN = 36;
+const PAGE_WIDTH = 595.28; // A4
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const ROW_HEIGHT = 19;
+const HEADER_HEIGHT = 32;
+const DATE_COLUMN_WIDTH = 64;
+const HIJRI_COLUMN_WIDTH = 99;
+const TIME_COLUMN_WIDTH = (CONTENT_WIDTH - DATE_COLUMN_WIDTH - HIJRI_COLUMN_WIDTH) / TIMETABLE_PRAYERS.length;
+
+const COLORS = {
+  text: '#1f2d24',
+  muted: '#5f7466',
+  rule: '#c9d6cc',
+  header: '#e3efe6',
+  friday: '#f3f8f4'
+};
+
+interface Column {
+  en: string;
+  ar: string;
+  width: number;
+  value: (day: PrayerTimetableDay) => string;
+}
+
+/**
+ * Renders a month of prayer times as a one-page printable A4 timetable with
+ * Hijri dates and English/Arabic headers
+ */
+export async function renderPrayerTimetablePdf(timetable: PrayerTimetable, generatedAt: Date = new Date()): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    info: {
+      Title: `${TIMETABLE_LABELS.en.timetable} ${timetable.month}`,
+      Subject: describePlace(timetable)
+    }
+  });
+  registerPdfFonts(doc);
+
+  const formatTime = timeFormatter(timetable.timezone);
+  const columns: Column[] = [
+    { en: TIMETABLE_LABELS.en.date, ar: TIMETABLE_LABELS.ar.date, width: DATE_COLUMN_WIDTH, value: formatDay },
+    {
+      en: TIMETABLE_LABELS.en.hijri,
+      ar: TIMETABLE_LABELS.ar.hijri,
+      width: HIJRI_COLUMN_WIDTH,
+      value: day => `${day.hijri.day} ${HIJRI_MONTH_NAMES.en[day.hijri.month - 1]}`
+    },
+    ...TIMETABLE_PRAYERS.map((prayer): Column => ({
+      en: TIMETABLE_LABELS.en[prayer],
+      ar: TIMETABLE_LABELS.ar[prayer],
+      width: TIME_COLUMN_WIDTH,
+      value: day => formatTime(day.times[prayer])
+    }))
+  ];
+
+  let y = drawTitle(doc, timetable);
+  y = drawHeaderRow(doc, columns, y);
+  for (const day of timetable.days) {
+    y = drawDayRow(doc, columns, day, y);
+  }
+  drawFooter(doc, timetable, generatedAt, y + 10);
+
+  return toPdfBuffer(doc);
+}
+
+function drawTitle(doc: PdfDocument, timetable: PrayerTimetable): number {
+  const monthName = new Date(`${timetable.month}-01T00:00:00.000Z`)
+    .toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+  doc.font(PDF_FONTS.bold.name).fontSize(18).fillColor(COLORS.text)
+    .text(`${TIMETABLE_LABELS.en.timetable} · ${monthName}`, MARGIN, MARGIN, { width: CONTENT_WIDTH, align: 'left' })
+    .text(TIMETABLE_LABELS.ar.timetable, MARGIN, MARGIN, { width: CONTENT_WIDTH, align: 'right' });
+
+  const subtitleY = MARGIN + 28;
+  doc.font(PDF_FONTS.regular.name).fontSize(10).fillColor(COLORS.muted)
+    .text(`${describePlace(timetable)} · ${describeHijriMonths(timetable, 'en')}`, MARGIN, subtitleY, {
+      width: CONTENT_WIDTH,
+      align: 'left'
+    })
+    .text(describeHijriMonths(timetable, 'ar'), MARGIN, subtitleY, { width: CONTENT_WIDTH, align: 'right' });
+
+  return subtitleY + 24;
+}
+
+function drawHeaderRow(doc: PdfDocument, columns: Column[], y: number): number {
+  doc.rect(MARGIN, y, CONTENT_WIDTH, HEADER_HEIGHT).fill(COLORS.header);
+
+  let x = MARGIN;
+  for (const column of columns) {
+    doc.font(PDF_FONTS.bold.name).fontSize(9).fillColor(COLORS.text)
+      .text(column.en, x, y + 3, { width: column.width, align: 'center' });
+    doc.font(PDF_FONTS.regular.name).fontSize(9)
+      .text(column.ar, x, y + 15, { width: column.width, align: 'center' });
+    x += column.width;
+  }
+
+  return y + HEADER_HEIGHT;
+}
+
+function drawDayRow(doc: PdfDocument, columns: Column[], day: PrayerTimetableDay, y: number): number {
+  if (new Date(`${day.date}T00:00:00.000Z`).getUTCDay() === 5) {
+    doc.rect(MARGIN, y, CONTENT_WIDTH, ROW_HEIGHT).fill(COLORS.friday);
+  }
+
+  let x = MARGIN;
+  doc.font(PDF_FONTS.regular.name).fontSize(10).fillColor(COLORS.text);
+  for (const column of columns) {
+    doc.text(column.value(day), x, y + 4, { width: column.width, align: 'center', lineBreak: false });
+    x += column.width;
+  }
+
+  doc.moveTo(MARGIN, y + ROW_HEIGHT).lineTo(MARGIN + CONTENT_WIDTH, y + ROW_HEIGHT)
+    .lineWidth(0.5).strokeColor(COLORS.rule).stroke();
+
+  return y + ROW_HEIGHT;
+}
+
+function drawFooter(doc: PdfDocument, timetable: PrayerTimetable, generatedAt: Date, y: number): void {
+  const { calculationMethod } = timetable;
+  const details = [
+    `Method: ${calculationMethod.method}`,
+    `Asr: ${calculationMethod.asrMadhab}`,
+    `Qibla: ${timetable.qiblaDirection.toFixed(1)}° from North`,
+    `Times in ${timetable.timezone}`,
+    `Generated ${generatedAt.toISOString().split('T')[0]}`
+  ];
+
+  doc.font(PDF_FONTS.regular.name).fontSize(8).fillColor(COLORS.muted)
+    .text(details.join(' · '), MARGIN, y, { width: CONTENT_WIDTH, align: 'left' });
+}
+
+function describePlace(timetable: PrayerTimetable): string {
+  const { city, country, latitude, longitude } = timetable.location;
+  return [city, country].filter(Boolean).join(', ') || `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`;
+}
+
+/**
+ * The Hijri month(s) a Gregorian month spans, e.g. "Sha'ban – Ramadan 1445 AH".
+ * The Arabic line carries month names only, since fontkit cannot reorder digits within Arabic runs.
+ */
+function describeHijriMonths(timetable: PrayerTimetable, locale: 'en' | 'ar'): string {
+  const first = timetable.days[0].hijri;
+  const last = timetable.days[timetable.days.length - 1].hijri;
+  const names = HIJRI_MONTH_NAMES[locale];
+  const months = first.month === last.month
+    ? names[first.month - 1]
+    : `${names[first.month - 1]} – ${names[last.month - 1]}`;
+
+  if (locale === 'ar') {
+    return months;
+  }
+  const years = first.year === last.year ? `${first.year}` : `${first.year}–${last.year}`;
+  return `${months} ${years} AH`;
+}
+
+function formatDay(day: PrayerTimetableDay): string {
+  const date = new Date(`${day.date}T00:00:00.000Z`);
+  return `${date.toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' })} ${date.getUTCDate()}`;
+}
+
+function timeFormatter(timezone: string): (date: Date) => string {
+  const formatter = new Intl.DateTimeFormat('en-GB', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZone: timezone
+  });
+
+  return date => Number.isNaN(date.getTime()) ? '–' : formatter.format(date);
+}
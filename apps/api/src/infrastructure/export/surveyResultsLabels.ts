@@ -0,0 +1,67 @@
+import { HijriLocale } from '@/shared/hijri';
+import { Disease } from '@/domain/entities/SurveyResult';
+
+type SurveyResultsSection =
+  | 'title'
+  | 'overview'
+  | 'scores'
+  | 'habits'
+  | 'plan'
+  | 'content'
+  | 'critical'
+  | 'moderate'
+  | 'strength';
+
+export const SURVEY_RESULTS_LABELS: Record<HijriLocale, Record<SurveyResultsSection, string>> = {
+  en: {
+    title: 'Tazkiyah Results',
+    overview: 'Spiritual Overview',
+    scores: 'Scores by Disease',
+    habits: 'Personalized Habits',
+    plan: 'Tazkiyah Plan',
+    content: 'Ayat & Ahadith',
+    critical: 'Critical',
+    moderate: 'Moderate',
+    strength: 'Strength'
+  },
+  ar: {
+    title: 'نتائج التزكية',
+    overview: 'نظرة روحية عامة',
+    scores: 'درجات أمراض القلب',
+    habits: 'العادات المقترحة',
+    plan: 'خطة التزكية',
+    content: 'آيات وأحاديث',
+    critical: 'حرج',
+    moderate: 'متوسط',
+    strength: 'قوة'
+  }
+};
+
+export const DISEASE_LABELS: Record<HijriLocale, Record<Disease, string>> = {
+  en: {
+    envy: 'Envy',
+    arrogance: 'Arrogance',
+    selfDeception: 'Self-Deception',
+    lust: 'Lust',
+    anger: 'Anger',
+    malice: 'Malice',
+    backbiting: 'Backbiting',
+    suspicion: 'Suspicion',
+    loveOfDunya: 'Love of Dunya',
+    laziness: 'Laziness',
+    despair: 'Despair'
+  },
+  ar: {
+    envy: 'الحسد',
+    arrogance: 'الكبر',
+    selfDeception: 'خداع النفس',
+    lust: 'الشهوة',
+    anger: 'الغضب',
+    malice: 'الحقد',
+    backbiting: 'الغيبة',
+    suspicion: 'سوء الظن',
+    loveOfDunya: 'حب الدنيا',
+    laziness: 'الكسل',
+    despair: 'اليأس'
+  }
+};
@@ -0,0 +1,295 @@
+import PDFDocument from 'pdfkit';
+import { DISEASES, Disease, SurveyResult } from '@/domain/entities/SurveyResult';
+import { ExportSurveyResultResponse, ExportedContent } from '@/application/usecases/ExportSurveyResultUseCase';
+import { PDF_FONTS, PdfDocument, registerPdfFonts, toPdfBuffer } from './pdfFonts';
+import { DISEASE_LABELS, SURVEY_RESULTS_LABELS } from './surveyResultsLabels';
+
+const MARGIN = 36;
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const SECTION_HEIGHT = 26;
+const RADAR_RADIUS = 105;
+const RADAR_LABEL_WIDTH = 90;
+const SCORE_ROW_HEIGHT = 20;
+const SCORE_NAME_WIDTH = 110;
+const SCORE_BAR_WIDTH = 200;
+const MAX_SCORE = 5;
+
+const COLORS = {
+  text: '#1f2d24',
+  muted: '#5f7466',
+  rule: '#c9d6cc',
+  header: '#e3efe6',
+  chart: '#2f7d4f',
+  critical: '#b4473a',
+  moderate: '#c98a2b',
+  strength: '#2f7d4f'
+};
+
+/**
+ * Renders a survey result as a printable A4 report: radar chart, per-disease
+ * scores, personalized habits, plan phases and the referenced ayat and ahadith
+ */
+export async function renderSurveyResultsPdf(
+  { result, content }: ExportSurveyResultResponse,
+  generatedAt: Date = new Date()
+): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    info: {
+      Title: `${SURVEY_RESULTS_LABELS.en.title} · Attempt ${result.attemptNumber}`,
+      Subject: `Survey result ${result.id.toString()}`
+    }
+  });
+  registerPdfFonts(doc);
+
+  let y = drawTitle(doc, result);
+  y = drawSectionHeading(doc, 'overview', y);
+  y = drawRadarChart(doc, result, y);
+  y = drawSectionHeading(doc, 'scores', y);
+  y = drawScores(doc, result, y);
+  if (result.personalizedHabits.length > 0) {
+    y = drawSectionHeading(doc, 'habits', y);
+    y = drawHabits(doc, result, y);
+  }
+  if (result.tazkiyahPlan.phases.length > 0) {
+    y = drawSectionHeading(doc, 'plan', y);
+    y = drawPlan(doc, result, y);
+  }
+  if (content.length > 0) {
+    y = drawSectionHeading(doc, 'content', y);
+    y = drawContent(doc, content, y);
+  }
+  drawFooter(doc, generatedAt, y + 10);
+
+  return toPdfBuffer(doc);
+}
+
+/**
+ * Starts a new page when the next block would run past the bottom margin
+ */
+function ensureSpace(doc: PdfDocument, y: number, height: number): number {
+  if (y + height <= PAGE_HEIGHT - MARGIN) {
+    return y;
+  }
+
+  doc.addPage();
+  return MARGIN;
+}
+
+function drawTitle(doc: PdfDocument, result: SurveyResult): number {
+  doc.font(PDF_FONTS.bold.name).fontSize(20).fillColor(COLORS.text)
+    .text(SURVEY_RESULTS_LABELS.en.title, MARGIN, MARGIN, { width: CONTENT_WIDTH, align: 'left' })
+    .text(SURVEY_RESULTS_LABELS.ar.title, MARGIN, MARGIN, { width: CONTENT_WIDTH, align: 'right' });
+
+  const subtitleY = MARGIN + 30;
+  const completedOn = result.generatedAt
+    .toLocaleDateString('en-US', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+  doc.font(PDF_FONTS.regular.name).fontSize(10).fillColor(COLORS.muted)
+    .text(`Attempt ${result.attemptNumber} · Completed ${completedOn}`, MARGIN, subtitleY, {
+      width: CONTENT_WIDTH,
+      align: 'left'
+    });
+
+  return subtitleY + 24;
+}
+
+function drawSectionHeading(
+  doc: PdfDocument,
+  section: keyof typeof SURVEY_RESULTS_LABELS.en,
+  y: number
+): number {
+  // Keep a heading together with at least the first lines of its section
+  const top = ensureSpace(doc, y + 8, SECTION_HEIGHT + 60);
+
+  doc.rect(MARGIN, top, CONTENT_WIDTH, SECTION_HEIGHT - 4).fill(COLORS.header);
+  doc.font(PDF_FONTS.bold.name).fontSize(12).fillColor(COLORS.text)
+    .text(SURVEY_RESULTS_LABELS.en[section], MARGIN + 8, top + 4, { width: CONTENT_WIDTH - 16, align: 'left' });
+  doc.font(PDF_FONTS.regular.name).fontSize(12)
+    .text(SURVEY_RESULTS_LABELS.ar[section], MARGIN + 8, top + 4, { width: CONTENT_WIDTH - 16, align: 'right' });
+
+  return top + SECTION_HEIGHT + 4;
+}
+
+/**
+ * One axis per disease with rings at each score; the polygon joins the
+ * scores, so a larger shape means stronger diseases of the heart
+ */
+function drawRadarChart(doc: PdfDocument, result: SurveyResult, y: number): number {
+  const top = ensureSpace(doc, y, RADAR_RADIUS * 2 + 50);
+  const centerX = PAGE_WIDTH / 2;
+  const centerY = top + RADAR_RADIUS + 20;
+  const scores = result.diseaseScores;
+
+  const pointAt = (index: number, radius: number): [number, number] => {
+    const angle = -Math.PI / 2 + (index * 2 * Math.PI) / DISEASES.length;
+    return [centerX + radius * Math.cos(angle), centerY + radius * Math.sin(angle)];
+  };
+
+  doc.lineWidth(0.5).strokeColor(COLORS.rule);
+  for (let ring = 1; ring <= MAX_SCORE; ring++) {
+    const radius = (RADAR_RADIUS * ring) / MAX_SCORE;
+    doc.polygon(...DISEASES.map((_, index) => pointAt(index, radius))).stroke();
+  }
+  DISEASES.forEach((_, index) => {
+    doc.moveTo(centerX, centerY).lineTo(...pointAt(index, RADAR_RADIUS)).stroke();
+  });
+
+  const scorePoints = DISEASES.map((disease, index) =>
+    pointAt(index, (RADAR_RADIUS * (scores.get(disease) ?? 0)) / MAX_SCORE)
+  );
+  doc.polygon(...scorePoints).lineWidth(1.5).fillOpacity(0.25)
+    .fillAndStroke(COLORS.chart, COLORS.chart);
+  doc.fillOpacity(1);
+  for (const [x, pointY] of scorePoints) {
+    doc.circle(x, pointY, 2.5).fill(COLORS.chart);
+  }
+
+  doc.font(PDF_FONTS.regular.name).fontSize(9).fillColor(COLORS.text);
+  DISEASES.forEach((disease, index) => {
+    const [x, labelY] = pointAt(index, RADAR_RADIUS + 10);
+    const horizontal = x - centerX;
+    const [labelX, align] = horizontal > 10
+      ? [x, 'left' as const]
+      : horizontal < -10
+        ? [x - RADAR_LABEL_WIDTH, 'right' as const]
+        : [x - RADAR_LABEL_WIDTH / 2, 'center' as const];
+    const offsetY = labelY < centerY - RADAR_RADIUS / 2 ? -10 : labelY > centerY + RADAR_RADIUS / 2 ? 0 : -5;
+
+    doc.text(`${DISEASE_LABELS.en[disease]} (${scores.get(disease) ?? '–'})`, labelX, labelY + offsetY, {
+      width: RADAR_LABEL_WIDTH,
+      align,
+      lineBreak: false
+    });
+  });
+
+  return centerY + RADAR_RADIUS + 24;
+}
+
+function drawScores(doc: PdfDocument, result: SurveyResult, y: number): number {
+  const scores = result.diseaseScores;
+  const critical = new Set(result.criticalDiseases);
+  const moderate = new Set(result.moderateDiseases);
+  const strengths = new Set(result.strengths);
+  const barX = MARGIN + SCORE_NAME_WIDTH;
+
+  const severityOf = (disease: Disease): 'critical' | 'moderate' | 'strength' | null => {
+    if (critical.has(disease)) return 'critical';
+    if (moderate.has(disease)) return 'moderate';
+    if (strengths.has(disease)) return 'strength';
+    return null;
+  };
+
+  for (const disease of DISEASES) {
+    y = ensureSpace(doc, y, SCORE_ROW_HEIGHT);
+    const score = scores.get(disease) ?? 0;
+    const severity = severityOf(disease);
+
+    doc.font(PDF_FONTS.regular.name).fontSize(10).fillColor(COLORS.text)
+      .text(DISEASE_LABELS.en[disease], MARGIN, y + 4, { width: SCORE_NAME_WIDTH, lineBreak: false });
+
+    doc.rect(barX, y + 7, SCORE_BAR_WIDTH, 8).fill(COLORS.header);
+    if (score > 0) {
+      doc.rect(barX, y + 7, (SCORE_BAR_WIDTH * score) / MAX_SCORE, 8)
+        .fill(severity ? COLORS[severity] : COLORS.muted);
+    }
+
+    doc.font(PDF_FONTS.regular.name).fontSize(10).fillColor(COLORS.text)
+      .text(`${score}/${MAX_SCORE}`, barX + SCORE_BAR_WIDTH + 8, y + 4, { width: 30, lineBreak: false });
+    if (severity) {
+      doc.fillColor(COLORS[severity])
+        .text(SURVEY_RESULTS_LABELS.en[severity], barX + SCORE_BAR_WIDTH + 40, y + 4, { width: 60, lineBreak: false });
+    }
+    doc.fillColor(COLORS.text)
+      .text(DISEASE_LABELS.ar[disease], MARGIN, y + 4, { width: CONTENT_WIDTH, align: 'right', lineBreak: false });
+
+    doc.moveTo(MARGIN, y + SCORE_ROW_HEIGHT).lineTo(MARGIN + CONTENT_WIDTH, y + SCORE_ROW_HEIGHT)
+      .lineWidth(0.5).strokeColor(COLORS.rule).stroke();
+    y += SCORE_ROW_HEIGHT;
+  }
+
+  return y;
+}
+
+function drawHabits(doc: PdfDocument, result: SurveyResult, y: number): number {
+  for (const habit of result.personalizedHabits) {
+    const details = `${DISEASE_LABELS.en[habit.targetDisease]} · ${habit.frequency} · ${habit.difficultyLevel} · ${habit.estimatedDuration}`;
+    y = drawParagraph(doc, habit.title, y, { bold: true, size: 11, gap: 1 });
+    y = drawParagraph(doc, details, y, { color: COLORS.muted, size: 9, gap: 1 });
+    y = drawParagraph(doc, habit.description, y, { gap: 8 });
+  }
+
+  return y;
+}
+
+function drawPlan(doc: PdfDocument, result: SurveyResult, y: number): number {
+  const plan = result.tazkiyahPlan;
+  y = drawParagraph(doc, `Expected duration: ${plan.expectedDuration}`, y, { color: COLORS.muted, size: 9, gap: 6 });
+
+  for (const phase of plan.phases) {
+    const targets = phase.targetDiseases.map(disease => DISEASE_LABELS.en[disease]).join(', ');
+    y = drawParagraph(doc, `Phase ${phase.phaseNumber}: ${phase.title}`, y, { bold: true, size: 11, gap: 1 });
+    y = drawParagraph(doc, [phase.duration, targets].filter(Boolean).join(' · '), y, { color: COLORS.muted, size: 9, gap: 1 });
+    y = drawParagraph(doc, phase.description, y, { gap: 4 });
+
+    for (const practice of phase.practices) {
+      y = drawParagraph(doc, `– ${practice.name} (${practice.frequency}): ${practice.description}`, y, { indent: 12, gap: 2 });
+    }
+    for (const checkpoint of phase.checkpoints) {
+      y = drawParagraph(doc, `• ${checkpoint}`, y, { indent: 12, color: COLORS.muted, size: 9, gap: 2 });
+    }
+    y += 6;
+  }
+
+  return y;
+}
+
+/**
+ * Arabic text sits on its own right-aligned line above the English, as
+ * fontkit only orders a single-script run right to left
+ */
+function drawContent(doc: PdfDocument, content: ExportedContent[], y: number): number {
+  for (const item of content) {
+    if (item.arabicText) {
+      doc.font(PDF_FONTS.regular.name).fontSize(14);
+      const height = doc.heightOfString(item.arabicText, { width: CONTENT_WIDTH, align: 'right' });
+      y = ensureSpace(doc, y, height);
+      doc.fillColor(COLORS.text).text(item.arabicText, MARGIN, y, { width: CONTENT_WIDTH, align: 'right' });
+      y += height + 2;
+    }
+    y = drawParagraph(doc, item.text, y, { gap: 1 });
+    y = drawParagraph(doc, item.ref, y, { color: COLORS.muted, size: 9, gap: 10 });
+  }
+
+  return y;
+}
+
+function drawParagraph(
+  doc: PdfDocument,
+  text: string,
+  y: number,
+  { bold = false, size = 10, color = COLORS.text, indent = 0, gap = 0 }:
+    { bold?: boolean; size?: number; color?: string; indent?: number; gap?: number }
+): number {
+  const width = CONTENT_WIDTH - indent;
+  doc.font(bold ? PDF_FONTS.bold.name : PDF_FONTS.regular.name).fontSize(size);
+  const height = doc.heightOfString(text, { width });
+  const top = ensureSpace(doc, y, height);
+
+  doc.fillColor(color).text(text, MARGIN + indent, top, { width, align: 'left' });
+
+  return top + height + gap;
+}
+
+function drawFooter(doc: PdfDocument, generatedAt: Date, y: number): void {
+  const top = ensureSpace(doc, y, 12);
+  doc.font(PDF_FONTS.regular.name).fontSize(8).fillColor(COLORS.muted)
+    .text(
+      `Sakinah · Generated ${generatedAt.toISOString().split('T')[0]} · Scores run from 1 (never) to 5 (always)`,
+      MARGIN,
+      top,
+      { width: CONTENT_WIDTH, align: 'left' }
+    );
+}
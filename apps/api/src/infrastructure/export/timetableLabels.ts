@@ -0,0 +1,27 @@
+import { HijriLocale } from '@/shared/hijri';
+import { TimetablePrayer } from '@/application/usecases/GetPrayerTimetableUseCase';
+
+export const TIMETABLE_LABELS: Record<HijriLocale, Record<TimetablePrayer | 'date' | 'hijri' | 'timetable', string>> = {
+  en: {
+    timetable: 'Prayer Times',
+    date: 'Date',
+    hijri: 'Hijri',
+    fajr: 'Fajr',
+    sunrise: 'Sunrise',
+    dhuhr: 'Dhuhr',
+    asr: 'Asr',
+    maghrib: 'Maghrib',
+    isha: 'Isha'
+  },
+  ar: {
+    timetable: 'مواقيت الصلاة',
+    date: 'التاريخ',
+    hijri: 'الهجري',
+    fajr: 'الفجر',
+    sunrise: 'الشروق',
+    dhuhr: 'الظهر',
+    asr: 'العصر',
+    maghrib: 'المغرب',
+    isha: 'العشاء'
+  }
+};
@@ -178,6 +178,7 @@ export async function surveyCompletionCheckMiddleware(
         status: 'completed',
         message: 'Survey has already been completed',
         redirect: '/onboarding/results',
+        retakeUrl: '/api/v1/onboarding/retake',
         progress: progress,
         traceId
       };
@@ -0,0 +1,27 @@
+import { injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { logger } from '@/shared/logger';
+import { Notification } from '@/domain/entities/Notification';
+import { INotificationChannel } from '@/domain/services/INotificationChannel';
+
+/**
+ * In-process channel that writes notifications to the log and keeps them in
+ * memory. Always succeeds, so it is the fallback channel and the one tests use.
+ */
+@injectable()
+export class LogNotificationChannel implements INotificationChannel {
+  readonly name = 'log';
+  readonly delivered: Notification[] = [];
+
+  async deliver(notification: Notification): Promise<Result<void>> {
+    this.delivered.push(notification);
+    logger.info('Notification delivered', {
+      channel: this.name,
+      userId: notification.userId.toString(),
+      type: notification.type,
+      title: notification.title,
+      scheduledFor: notification.scheduledFor.toISOString()
+    });
+    return Result.ok(undefined);
+  }
+}
@@ -0,0 +1,110 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { logger } from '@/shared/logger';
+import { INotificationRepository } from '@/domain/repositories/INotificationRepository';
+import {
+  ScheduleRemindersUseCase,
+  DeliverDueNotificationsUseCase,
+  DEFAULT_PLANNING_HORIZON_MINUTES
+} from '@/application/usecases/notifications';
+
+const TICK_INTERVAL_MS = 60 * 1000;
+// Planning windows overlap (every 15 minutes, an hour ahead), so a slow or missed run leaves no gaps
+const PLANNING_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Background loop that keeps every user's reminder queue filled and delivers
+ * whatever has fallen due. Runs in-process alongside the API server.
+ */
+@injectable()
+export class NotificationScheduler {
+  private interval?: NodeJS.Timeout;
+  private running = false;
+  private lastPlannedAt = 0;
+
+  constructor(
+    @inject('INotificationRepository') private readonly notificationRepository: INotificationRepository,
+    @inject('ScheduleRemindersUseCase') private readonly scheduleRemindersUseCase: ScheduleRemindersUseCase,
+    @inject('DeliverDueNotificationsUseCase') private readonly deliverDueNotificationsUseCase: DeliverDueNotificationsUseCase
+  ) {}
+
+  start(): void {
+    if (this.interval) {
+      logger.warn('Notification scheduler is already running');
+      return;
+    }
+
+    logger.info('Starting notification scheduler');
+    this.interval = setInterval(() => {
+      this.tick().catch(error => {
+        logger.error('Error in notification scheduler tick:', {}, error as Error);
+      });
+    }, TICK_INTERVAL_MS);
+    // Never keep the process alive just for reminders
+    this.interval.unref();
+
+    this.tick().catch(error => {
+      logger.error('Error in notification scheduler tick:', {}, error as Error);
+    });
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = undefined;
+      logger.info('Stopped notification scheduler');
+    }
+  }
+
+  /**
+   * Plans reminders when the last planning run is old enough, then delivers due notifications.
+   * A tick that is still running when the next one starts is left to finish.
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      if (now.getTime() - this.lastPlannedAt >= PLANNING_INTERVAL_MS) {
+        await this.planAll(now);
+        this.lastPlannedAt = now.getTime();
+      }
+
+      const deliveryResult = await this.deliverDueNotificationsUseCase.execute({ now });
+      if (Result.isError(deliveryResult)) {
+        logger.error('Failed to deliver due notifications', {}, deliveryResult.error);
+      } else if (deliveryResult.value.sent + deliveryResult.value.failed + deliveryResult.value.expired > 0) {
+        logger.info('Delivered due notifications', { ...deliveryResult.value });
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async planAll(now: Date): Promise<void> {
+    const userIdsResult = await this.notificationRepository.findUserIdsWithReminders();
+    if (Result.isError(userIdsResult)) {
+      logger.error('Failed to load users with reminders', {}, userIdsResult.error);
+      return;
+    }
+
+    const until = new Date(now.getTime() + DEFAULT_PLANNING_HORIZON_MINUTES * 60 * 1000);
+    let queued = 0;
+
+    // One user's bad data (e.g. an invalid location) must not stop everyone else's reminders
+    for (const userId of userIdsResult.value) {
+      const result = await this.scheduleRemindersUseCase.execute({ userId, from: now, until });
+      if (Result.isError(result)) {
+        logger.warn('Failed to plan reminders', { userId, error: result.error.message });
+      } else {
+        queued += result.value;
+      }
+    }
+
+    if (queued > 0) {
+      logger.info('Queued reminders', { queued, users: userIdsResult.value.length });
+    }
+  }
+}
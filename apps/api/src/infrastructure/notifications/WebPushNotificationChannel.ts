@@ -0,0 +1,84 @@
+import { inject, injectable } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { logger } from '@/shared/logger';
+import { Notification, NotificationType, NOTIFICATION_EXPIRY_MINUTES } from '@/domain/entities/Notification';
+import { IPushSubscriptionRepository } from '@/domain/repositories/IPushSubscriptionRepository';
+import { INotificationChannel } from '@/domain/services/INotificationChannel';
+import { PushMessage, WebPushSender } from './WebPushSender';
+
+// Screens the service worker opens when a notification is clicked
+const NOTIFICATION_URLS: Record<NotificationType, string> = {
+  prayer: '/dashboard#prayer-times',
+  fajr_reminder: '/dashboard#prayer-times',
+  daily_reminder: '/dashboard#dhikr',
+  habit_streak: '/habits',
+  intention: '/dashboard#intention'
+};
+
+/**
+ * The message the service worker's push handler receives for a notification
+ */
+export function toPushMessage(notification: Notification): PushMessage {
+  return {
+    payload: JSON.stringify({
+      id: notification.id.toString(),
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      tag: notification.dedupeKey,
+      url: NOTIFICATION_URLS[notification.type],
+      data: notification.data
+    }),
+    // A push service holding the message past its expiry would deliver a stale reminder
+    ttlSeconds: NOTIFICATION_EXPIRY_MINUTES * 60,
+    urgency: notification.type === 'prayer' || notification.type === 'fajr_reminder' ? 'high' : 'normal'
+  };
+}
+
+/**
+ * Delivers notifications to every device the user subscribed for Web Push.
+ * Succeeds when at least one device accepted the message.
+ */
+@injectable()
+export class WebPushNotificationChannel implements INotificationChannel {
+  readonly name = 'webpush';
+
+  constructor(
+    @inject('IPushSubscriptionRepository') private readonly subscriptionRepository: IPushSubscriptionRepository,
+    @inject('WebPushSender') private readonly sender: WebPushSender
+  ) {}
+
+  async deliver(notification: Notification): Promise<Result<void>> {
+    const subscriptionsResult = await this.subscriptionRepository.findByUserId(notification.userId);
+    if (Result.isError(subscriptionsResult)) {
+      return Result.error(subscriptionsResult.error);
+    }
+
+    const subscriptions = subscriptionsResult.value;
+    if (subscriptions.length === 0) {
+      return Result.error(new Error('No push subscriptions'));
+    }
+
+    const message = toPushMessage(notification);
+    const errors: string[] = [];
+    let sent = 0;
+
+    for (const subscription of subscriptions) {
+      const result = await this.sender.send(subscription, message);
+
+      if (Result.isError(result)) {
+        errors.push(result.error.message);
+      } else if (result.value === 'gone') {
+        await this.subscriptionRepository.deleteByEndpoint(subscription.endpoint);
+        logger.info('Removed expired push subscription', { userId: notification.userId.toString() });
+      } else {
+        sent++;
+      }
+    }
+
+    if (sent > 0) {
+      return Result.ok(undefined);
+    }
+    return Result.error(new Error(errors.length > 0 ? errors.join('; ') : 'All push subscriptions have expired'));
+  }
+}
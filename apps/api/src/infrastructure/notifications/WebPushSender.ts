@@ -0,0 +1,59 @@
+import webpush from 'web-push';
+import { Result } from '@/shared/result';
+import { PushSubscription } from '@/domain/entities/PushSubscription';
+
+export interface VapidConfig {
+  subject: string; // https: URL or mailto: address the push services can contact
+  publicKey: string;
+  privateKey: string;
+}
+
+/**
+ * VAPID keys from the environment, or null when Web Push is not set up.
+ * Generate a key pair with `npx web-push generate-vapid-keys`.
+ */
+export function getVapidConfig(): VapidConfig | null {
+  const { VAPID_SUBJECT, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY } = process.env;
+
+  if (!VAPID_SUBJECT || !VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) {
+    return null;
+  }
+
+  return { subject: VAPID_SUBJECT, publicKey: VAPID_PUBLIC_KEY, privateKey: VAPID_PRIVATE_KEY };
+}
+
+export interface PushMessage {
+  payload: string;
+  ttlSeconds: number;
+  urgency: 'normal' | 'high';
+}
+
+// 'gone' means the browser unsubscribed or the subscription expired, so the endpoint should be forgotten
+export type PushSendOutcome = 'sent' | 'gone';
+
+/**
+ * Sends encrypted, VAPID-signed messages to browser push services
+ */
+export class WebPushSender {
+  constructor(private readonly vapid: VapidConfig) {}
+
+  async send(subscription: PushSubscription, message: PushMessage): Promise<Result<PushSendOutcome>> {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: subscription.keys },
+        message.payload,
+        {
+          vapidDetails: this.vapid,
+          TTL: message.ttlSeconds,
+          urgency: message.urgency
+        }
+      );
+      return Result.ok('sent');
+    } catch (error) {
+      if (error instanceof webpush.WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+        return Result.ok('gone');
+      }
+      return Result.error(error as Error);
+    }
+  }
+}
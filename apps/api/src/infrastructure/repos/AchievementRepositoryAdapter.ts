@@ -0,0 +1,85 @@
+import { injectable, inject } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { IAchievementRepository } from '@/domain/repositories';
+import { Achievement } from '@/domain/entities/Achievement';
+import { UserStats } from '@/domain/entities/UserStats';
+import { UserId } from '@/domain/value-objects/UserId';
+import { IDatabaseClient, UserStatsData } from '../database/types';
+
+@injectable()
+export class AchievementRepositoryAdapter implements IAchievementRepository {
+  constructor(
+    @inject('IDatabaseClient') private db: IDatabaseClient
+  ) {}
+
+  async findAll(): Promise<Result<Achievement[]>> {
+    try {
+      const result = await this.db.getAchievements();
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok((result.data || []).map(data => Achievement.create(data)));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async getUserStats(userId: UserId): Promise<Result<UserStats>> {
+    try {
+      const result = await this.db.getUserStats(userId.toString());
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      if (!result.data) {
+        return Result.ok(UserStats.create({ userId: userId.toString() }));
+      }
+
+      return Result.ok(this.mapFromData(result.data));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async saveUserStats(stats: UserStats): Promise<Result<UserStats>> {
+    try {
+      const result = await this.db.upsertUserStats({
+        userId: stats.userId.toString(),
+        totalKhayrPoints: stats.totalKhayrPoints,
+        currentStreak: stats.currentStreak,
+        longestStreak: stats.longestStreak,
+        habitsCompleted: stats.habitsCompleted,
+        plansCompleted: stats.plansCompleted,
+        level: stats.level,
+        achievements: stats.achievements,
+        lastActiveOn: stats.lastActiveOn,
+        lastUpdated: stats.lastUpdated.toISOString()
+      });
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(this.mapFromData(result.data!));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  private mapFromData(data: UserStatsData): UserStats {
+    return UserStats.create({
+      userId: data.userId,
+      totalKhayrPoints: data.totalKhayrPoints,
+      currentStreak: data.currentStreak,
+      longestStreak: data.longestStreak,
+      habitsCompleted: data.habitsCompleted,
+      plansCompleted: data.plansCompleted,
+      achievements: data.achievements,
+      lastActiveOn: data.lastActiveOn,
+      lastUpdated: new Date(data.lastUpdated)
+    });
+  }
+}
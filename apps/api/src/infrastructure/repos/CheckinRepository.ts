@@ -1,4 +1,4 @@
-import { Checkin } from '@sakinah/types';
+import { Checkin, CheckinSession } from '@sakinah/types';
 import { Result } from '@/shared/result';
 import { RepositoryResultHandler } from '@/shared/repository-result-handler';
 import { CreateCheckinInput, UpdateCheckinInput } from './types';
@@ -18,9 +18,9 @@ export class CheckinRepository {
     });
   }
 
-  async getByDate(userId: string, date: string): Promise<Result<Checkin | null>> {
+  async getByDate(userId: string, date: string, session: CheckinSession): Promise<Result<Checkin | null>> {
     return RepositoryResultHandler.wrapOperation(async () => {
-      const result = await this.db.getCheckinByDate(userId, date);
+      const result = await this.db.getCheckinByDate(userId, date, session);
       const handled = RepositoryResultHandler.handleSingleResult(result);
       if (Result.isError(handled)) {
         throw handled.error;
@@ -1,7 +1,7 @@
 import { injectable, inject } from 'tsyringe';
 import { Result } from '@/shared/result';
 import { ICheckinRepository } from '@/domain/repositories';
-import { Checkin } from '@/domain/entities/Checkin';
+import { Checkin, CheckinSession } from '@/domain/entities/Checkin';
 import { UserId } from '@/domain/value-objects/UserId';
 import { CheckinId } from '@/domain/value-objects/CheckinId';
 import { IDatabaseClient } from '../database/types';
@@ -17,9 +17,12 @@ export class CheckinRepositoryAdapter implements ICheckinRepository {
       const result = await this.db.createCheckin({
         userId: checkin.userId.toString(),
         date: checkin.date.toISOString().split('T')[0],
+        session: checkin.session,
         mood: checkin.mood,
         intention: checkin.intention,
-        reflection: checkin.reflection
+        reflection: checkin.reflection,
+        gratitude: checkin.gratitude,
+        improvements: checkin.improvements
       });
 
       if (result.error) {
@@ -30,9 +33,12 @@ export class CheckinRepositoryAdapter implements ICheckinRepository {
         id: result.data!.id,
         userId: result.data!.userId,
         date: new Date(result.data!.date),
+        session: result.data!.session,
         mood: result.data!.mood,
         intention: result.data!.intention,
         reflection: result.data!.reflection,
+        gratitude: result.data!.gratitude,
+        improvements: result.data!.improvements,
         createdAt: new Date(result.data!.createdAt)
       });
 
@@ -51,11 +57,12 @@ export class CheckinRepositoryAdapter implements ICheckinRepository {
     }
   }
 
-  async findByUserAndDate(userId: UserId, date: Date): Promise<Result<Checkin | null>> {
+  async findByUserAndDate(userId: UserId, date: Date, session: CheckinSession): Promise<Result<Checkin | null>> {
     try {
       const result = await this.db.getCheckinByDate(
         userId.toString(),
-        date.toISOString().split('T')[0]
+        date.toISOString().split('T')[0],
+        session
       );
 
       if (result.error) {
@@ -70,9 +77,12 @@ export class CheckinRepositoryAdapter implements ICheckinRepository {
         id: result.data.id,
         userId: result.data.userId,
         date: new Date(result.data.date),
+        session: result.data.session,
         mood: result.data.mood,
         intention: result.data.intention,
         reflection: result.data.reflection,
+        gratitude: result.data.gratitude,
+        improvements: result.data.improvements,
         createdAt: new Date(result.data.createdAt)
       });
 
@@ -90,7 +100,9 @@ export class CheckinRepositoryAdapter implements ICheckinRepository {
         {
           mood: checkin.mood,
           intention: checkin.intention,
-          reflection: checkin.reflection
+          reflection: checkin.reflection,
+          gratitude: checkin.gratitude,
+          improvements: checkin.improvements
         }
       );
 
@@ -102,9 +114,12 @@ export class CheckinRepositoryAdapter implements ICheckinRepository {
         id: result.data!.id,
         userId: result.data!.userId,
         date: new Date(result.data!.date),
+        session: result.data!.session,
         mood: result.data!.mood,
         intention: result.data!.intention,
         reflection: result.data!.reflection,
+        gratitude: result.data!.gratitude,
+        improvements: result.data!.improvements,
         createdAt: new Date(result.data!.createdAt)
       });
 
@@ -140,9 +155,12 @@ export class CheckinRepositoryAdapter implements ICheckinRepository {
           id: data.id,
           userId: data.userId,
           date: new Date(data.date),
+          session: data.session,
           mood: data.mood,
           intention: data.intention,
           reflection: data.reflection,
+          gratitude: data.gratitude,
+          improvements: data.improvements,
           createdAt: new Date(data.createdAt)
         })
       );
@@ -189,9 +207,12 @@ export class CheckinRepositoryAdapter implements ICheckinRepository {
           id: data.id,
           userId: data.userId,
           date: new Date(data.date),
+          session: data.session,
           mood: data.mood,
           intention: data.intention,
           reflection: data.reflection,
+          gratitude: data.gratitude,
+          improvements: data.improvements,
           createdAt: new Date(data.createdAt)
         })
       );
@@ -222,9 +243,12 @@ export class CheckinRepositoryAdapter implements ICheckinRepository {
         id: data.id,
         userId: data.userId,
         date: new Date(data.date),
+        session: data.session,
         mood: data.mood,
         intention: data.intention,
         reflection: data.reflection,
+        gratitude: data.gratitude,
+        improvements: data.improvements,
         createdAt: new Date(data.createdAt)
       });
 
@@ -0,0 +1,237 @@
+import { injectable, inject } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { ICircleRepository, CircleProgress } from '@/domain/repositories';
+import { Circle, CircleMember } from '@/domain/entities/Circle';
+import { CircleEncouragement } from '@/domain/entities/CircleEncouragement';
+import { CircleId } from '@/domain/value-objects/CircleId';
+import { UserId } from '@/domain/value-objects/UserId';
+import { IDatabaseClient, CircleData, CircleEncouragementData } from '../database/types';
+
+@injectable()
+export class CircleRepositoryAdapter implements ICircleRepository {
+  constructor(
+    @inject('IDatabaseClient') private db: IDatabaseClient
+  ) {}
+
+  async create(circle: Circle): Promise<Result<Circle>> {
+    try {
+      const result = await this.db.createCircle({
+        creatorId: circle.creatorId.toString(),
+        name: circle.name,
+        description: circle.description,
+        maxMembers: circle.maxMembers,
+        isAnonymous: circle.isAnonymous,
+        sharedGoal: circle.sharedGoal,
+        inviteCode: circle.inviteCode
+      });
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return this.withMembers(result.data!);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async findById(id: CircleId): Promise<Result<Circle | null>> {
+    try {
+      const result = await this.db.getCircleById(id.toString());
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      if (!result.data) {
+        return Result.ok(null);
+      }
+
+      return this.withMembers(result.data);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async findByInviteCode(inviteCode: string): Promise<Result<Circle | null>> {
+    try {
+      const result = await this.db.getCircleByInviteCode(inviteCode);
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      if (!result.data) {
+        return Result.ok(null);
+      }
+
+      return this.withMembers(result.data);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async findByUserId(userId: UserId): Promise<Result<Circle[]>> {
+    try {
+      const result = await this.db.getCirclesByUserId(userId.toString());
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      const circles: Circle[] = [];
+      for (const data of result.data || []) {
+        const circleResult = await this.withMembers(data);
+        if (Result.isError(circleResult)) {
+          return circleResult;
+        }
+        circles.push(circleResult.value);
+      }
+
+      return Result.ok(circles);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async update(circle: Circle): Promise<Result<Circle>> {
+    try {
+      const result = await this.db.updateCircle(circle.id.toString(), {
+        name: circle.name,
+        description: circle.description,
+        sharedGoal: circle.sharedGoal,
+        status: circle.status
+      });
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return this.withMembers(result.data!);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async addMember(circleId: CircleId, member: CircleMember): Promise<Result<void>> {
+    try {
+      const result = await this.db.addCircleMember({
+        circleId: circleId.toString(),
+        userId: member.userId.toString(),
+        role: member.role
+      });
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(undefined);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async removeMember(circleId: CircleId, userId: UserId): Promise<Result<void>> {
+    try {
+      const result = await this.db.removeCircleMember(circleId.toString(), userId.toString());
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(undefined);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async createEncouragement(encouragement: CircleEncouragement): Promise<Result<CircleEncouragement>> {
+    try {
+      const result = await this.db.createCircleEncouragement({
+        circleId: encouragement.circleId.toString(),
+        fromUserId: encouragement.fromUserId.toString(),
+        toUserId: encouragement.toUserId?.toString() || null,
+        message: encouragement.message,
+        type: encouragement.type
+      });
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(this.mapEncouragement(result.data!));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async findEncouragements(
+    circleId: CircleId,
+    pagination?: { limit?: number; offset?: number }
+  ): Promise<Result<CircleEncouragement[]>> {
+    try {
+      const result = await this.db.getCircleEncouragements(circleId.toString(), pagination);
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok((result.data || []).map(data => this.mapEncouragement(data)));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async getProgress(circleId: CircleId, from: string, to: string): Promise<Result<CircleProgress>> {
+    try {
+      const result = await this.db.getCircleProgress(circleId.toString(), from, to);
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(result.data!);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  private async withMembers(data: CircleData): Promise<Result<Circle>> {
+    const membersResult = await this.db.getCircleMembers(data.id);
+
+    if (membersResult.error) {
+      return Result.error(new Error(membersResult.error.message));
+    }
+
+    return Result.ok(Circle.create({
+      id: data.id,
+      name: data.name,
+      description: data.description,
+      creatorId: data.creatorId,
+      maxMembers: data.maxMembers,
+      isAnonymous: data.isAnonymous,
+      sharedGoal: data.sharedGoal,
+      inviteCode: data.inviteCode,
+      status: data.status,
+      members: (membersResult.data || []).map(member => ({
+        userId: member.userId,
+        role: member.role,
+        displayName: member.displayName,
+        joinedAt: new Date(member.joinedAt)
+      })),
+      createdAt: new Date(data.createdAt)
+    }));
+  }
+
+  private mapEncouragement(data: CircleEncouragementData): CircleEncouragement {
+    return CircleEncouragement.create({
+      id: data.id,
+      circleId: data.circleId,
+      fromUserId: data.fromUserId,
+      toUserId: data.toUserId,
+      message: data.message,
+      type: data.type,
+      createdAt: new Date(data.createdAt)
+    });
+  }
+}
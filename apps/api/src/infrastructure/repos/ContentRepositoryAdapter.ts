@@ -1,6 +1,6 @@
 import { injectable, inject } from 'tsyringe';
 import { Result } from '@/shared/result';
-import { IContentRepository, ContentFilter } from '@/domain/repositories';
+import { IContentRepository, ContentFilter, ContentTranslation } from '@/domain/repositories';
 import { ContentSnippet, ContentType } from '@sakinah/types';
 import { IDatabaseClient } from '../database/types';
 import { Cacheable } from '../cache/decorators/Cacheable';
@@ -63,6 +63,20 @@ export class ContentRepositoryAdapter implements IContentRepository {
     }
   }
 
+  async findTranslations(contentIds: string[], locale: 'en' | 'ar'): Promise<Result<ContentTranslation[]>> {
+    try {
+      const result = await this.db.getContentTranslations(contentIds, locale);
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(result.data || []);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
   @Cacheable({
     key: (filter: ContentFilter) => {
       const parts = [];
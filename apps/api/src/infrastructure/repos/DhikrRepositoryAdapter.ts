@@ -141,6 +141,24 @@ export class DhikrRepositoryAdapter implements IDhikrRepository {
     }
   }
 
+  async incrementSessionCount(
+    id: DhikrSessionId,
+    userId: UserId,
+    increment: number
+  ): Promise<Result<DhikrSession, Error>> {
+    try {
+      const result = await this.db.incrementDhikrCount(id.toString(), userId.toString(), increment);
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(this.mapToDhikrSession(result.data!));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
   async deleteDhikrSession(id: DhikrSessionId, userId: UserId): Promise<Result<void, Error>> {
     try {
       const result = await this.db.deleteDhikrSession(id.toString(), userId.toString());
@@ -48,6 +48,17 @@ export class HabitRepository {
     });
   }
 
+  async getAllHabits(): Promise<Result<Habit[]>> {
+    return RepositoryResultHandler.wrapOperation(async () => {
+      const result = await this.db.getAllHabits();
+      const handled = RepositoryResultHandler.handleArrayResult(result);
+      if (Result.isError(handled)) {
+        throw handled.error;
+      }
+      return handled.value;
+    });
+  }
+
   async updateHabitStreak(id: string, userId: string, streakCount: number, lastCompletedOn?: string): Promise<Result<void>> {
     return RepositoryResultHandler.wrapOperation(async () => {
       // First verify the habit belongs to the user
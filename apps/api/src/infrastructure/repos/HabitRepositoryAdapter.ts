@@ -158,6 +158,40 @@ export class HabitRepositoryAdapter implements IHabitRepository {
     }
   }
 
+  async findAll(): Promise<Result<Habit[]>> {
+    try {
+      const result = await this.db.getAllHabits();
+
+      if (result.error) {
+        return Result.error(createAppError(
+          ErrorCode.DATABASE_ERROR,
+          result.error.message
+        ));
+      }
+
+      const habits = (result.data || []).map(h =>
+        Habit.create({
+          id: h.id,
+          userId: h.userId,
+          planId: h.planId,
+          title: h.title,
+          schedule: h.schedule,
+          streakCount: h.streakCount,
+          lastCompletedOn: h.lastCompletedOn ? new Date(h.lastCompletedOn) : undefined,
+          createdAt: new Date(h.createdAt)
+        })
+      );
+
+      return Result.ok(habits);
+    } catch (error) {
+      return Result.error(createAppError(
+        ErrorCode.DATABASE_ERROR,
+        error instanceof Error ? error.message : 'Unknown error occurred',
+        error instanceof Error ? error : undefined
+      ));
+    }
+  }
+
   async updateStreak(habit: Habit): Promise<Result<Habit>> {
     try {
       const result = await this.db.updateHabitStreak(
@@ -277,4 +311,26 @@ export class HabitRepositoryAdapter implements IHabitRepository {
       ));
     }
   }
-}
\ No newline at end of file
+
+  async findCompletionDates(habitId: HabitId): Promise<Result<Date[]>> {
+    try {
+      const result = await this.db.getHabitCompletionsByHabit(habitId.toString());
+
+      if (result.error) {
+        return Result.error(createAppError(
+          ErrorCode.DATABASE_ERROR,
+          result.error.message
+        ));
+      }
+
+      // completed_on is a calendar date, so read it as local midnight
+      return Result.ok((result.data || []).map(c => new Date(`${c.completedOn.split('T')[0]}T00:00:00.000Z`)));
+    } catch (error) {
+      return Result.error(createAppError(
+        ErrorCode.DATABASE_ERROR,
+        error instanceof Error ? error.message : 'Unknown error occurred',
+        error instanceof Error ? error : undefined
+      ));
+    }
+  }
+}
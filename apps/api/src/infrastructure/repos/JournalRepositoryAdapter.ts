@@ -1,6 +1,6 @@
 import { injectable, inject } from 'tsyringe';
 import { Result } from '@/shared/result';
-import { IJournalRepository } from '@/domain/repositories';
+import { IJournalRepository, JournalSearchQuery, JournalSearchResult } from '@/domain/repositories';
 import { JournalEntry } from '@/domain/entities/JournalEntry';
 import { UserId } from '@/domain/value-objects/UserId';
 import { JournalId } from '@/domain/value-objects/JournalId';
@@ -88,6 +88,41 @@ export class JournalRepositoryAdapter implements IJournalRepository {
     }
   }
 
+  async search(userId: UserId, query: JournalSearchQuery): Promise<Result<JournalSearchResult>> {
+    try {
+      const result = await this.db.searchJournals(userId.toString(), {
+        query: query.text,
+        tags: query.tags,
+        from: query.from?.toISOString(),
+        to: query.to?.toISOString(),
+        page: query.page,
+        limit: query.limit,
+        sortBy: query.sortBy,
+        sortOrder: query.sortOrder
+      });
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      const hits = (result.data?.hits || []).map(hit => ({
+        entry: JournalEntry.create({
+          id: hit.entry.id,
+          userId: hit.entry.userId,
+          content: hit.entry.content,
+          tags: hit.entry.tags || [],
+          createdAt: new Date(hit.entry.createdAt)
+        }),
+        rank: hit.rank,
+        highlight: hit.highlight
+      }));
+
+      return Result.ok({ hits, total: result.data?.total || 0 });
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
   async update(entry: JournalEntry): Promise<Result<JournalEntry>> {
     try {
       const result = await this.db.updateJournal(
@@ -0,0 +1,122 @@
+import { injectable, inject } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { INotificationRepository, NotificationFilters } from '@/domain/repositories';
+import { Notification } from '@/domain/entities/Notification';
+import { UserId } from '@/domain/value-objects/UserId';
+import { IDatabaseClient, NotificationData } from '../database/types';
+
+@injectable()
+export class NotificationRepositoryAdapter implements INotificationRepository {
+  constructor(
+    @inject('IDatabaseClient') private db: IDatabaseClient
+  ) {}
+
+  async enqueue(notifications: Notification[]): Promise<Result<number>> {
+    try {
+      if (notifications.length === 0) {
+        return Result.ok(0);
+      }
+
+      const result = await this.db.createNotifications(
+        notifications.map(notification => ({
+          userId: notification.userId.toString(),
+          type: notification.type,
+          title: notification.title,
+          body: notification.body,
+          data: notification.data,
+          dedupeKey: notification.dedupeKey,
+          scheduledFor: notification.scheduledFor.toISOString()
+        }))
+      );
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(result.data!);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async findDue(before: Date, limit: number): Promise<Result<Notification[]>> {
+    try {
+      const result = await this.db.getDueNotifications(before.toISOString(), limit);
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok((result.data || []).map(data => this.mapToEntity(data)));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async findByUserId(userId: UserId, filters: NotificationFilters = {}): Promise<Result<Notification[]>> {
+    try {
+      const result = await this.db.getNotificationsByUser(userId.toString(), filters);
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok((result.data || []).map(data => this.mapToEntity(data)));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async updateDelivery(notification: Notification): Promise<Result<void>> {
+    try {
+      const result = await this.db.updateNotificationDelivery(notification.id.toString(), {
+        status: notification.status,
+        attempts: notification.attempts,
+        channel: notification.channel,
+        lastError: notification.lastError,
+        sentAt: notification.sentAt?.toISOString() ?? null
+      });
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(undefined);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async findUserIdsWithReminders(): Promise<Result<string[]>> {
+    try {
+      const result = await this.db.getReminderUserIds();
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(result.data || []);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  private mapToEntity(data: NotificationData): Notification {
+    return Notification.create({
+      id: data.id,
+      userId: data.userId,
+      type: data.type,
+      title: data.title,
+      body: data.body,
+      data: data.data,
+      dedupeKey: data.dedupeKey,
+      scheduledFor: new Date(data.scheduledFor),
+      status: data.status,
+      attempts: data.attempts,
+      channel: data.channel,
+      lastError: data.lastError,
+      sentAt: data.sentAt ? new Date(data.sentAt) : null,
+      createdAt: new Date(data.createdAt)
+    });
+  }
+}
@@ -23,6 +23,7 @@ export class PrayerTimesRepositoryAdapter implements IPrayerTimesRepository {
         country: prayerTimes.location.country,
         timezone: prayerTimes.location.timezone,
         calculationMethod: prayerTimes.calculationMethod.method,
+        calculationSettings: prayerTimes.calculationMethod.settings,
         date: prayerTimes.date.toISOString().split('T')[0], // YYYY-MM-DD
         fajr: prayerTimes.prayerTimes.fajr.toISOString(),
         sunrise: prayerTimes.prayerTimes.sunrise.toISOString(),
@@ -183,7 +184,7 @@ export class PrayerTimesRepositoryAdapter implements IPrayerTimesRepository {
       timezone: data.location.timezone
     });
 
-    const calculationMethod = CalculationMethod.create(data.calculationMethod as any);
+    const calculationMethod = CalculationMethod.create(data.calculationMethod as any, data.calculationSettings);
 
     return PrayerTimes.create({
       id: data.id,
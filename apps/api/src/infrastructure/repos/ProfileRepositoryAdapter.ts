@@ -0,0 +1,27 @@
+import { injectable, inject } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { resolveTimezone } from '@/shared/timezone';
+import { IProfileRepository } from '@/domain/repositories';
+import { UserId } from '@/domain/value-objects/UserId';
+import { IDatabaseClient } from '../database/types';
+
+@injectable()
+export class ProfileRepositoryAdapter implements IProfileRepository {
+  constructor(
+    @inject('IDatabaseClient') private db: IDatabaseClient
+  ) {}
+
+  async getTimezone(userId: UserId): Promise<Result<string>> {
+    try {
+      const result = await this.db.getProfileByUserId(userId.toString());
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(resolveTimezone(result.data?.timezone));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { injectable, inject } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { IPushSubscriptionRepository } from '@/domain/repositories';
+import { PushSubscription } from '@/domain/entities/PushSubscription';
+import { UserId } from '@/domain/value-objects/UserId';
+import { IDatabaseClient, PushSubscriptionData } from '../database/types';
+
+@injectable()
+export class PushSubscriptionRepositoryAdapter implements IPushSubscriptionRepository {
+  constructor(
+    @inject('IDatabaseClient') private db: IDatabaseClient
+  ) {}
+
+  async save(subscription: PushSubscription): Promise<Result<PushSubscription>> {
+    try {
+      const result = await this.db.upsertPushSubscription({
+        userId: subscription.userId.toString(),
+        endpoint: subscription.endpoint,
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth,
+        deviceId: subscription.deviceId,
+        userAgent: subscription.userAgent
+      });
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(this.mapToEntity(result.data!));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async findByUserId(userId: UserId): Promise<Result<PushSubscription[]>> {
+    try {
+      const result = await this.db.getPushSubscriptionsByUser(userId.toString());
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok((result.data || []).map(data => this.mapToEntity(data)));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async delete(userId: UserId, endpoint: string): Promise<Result<boolean>> {
+    try {
+      const result = await this.db.deletePushSubscription(userId.toString(), endpoint);
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(result.data!);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async deleteByEndpoint(endpoint: string): Promise<Result<void>> {
+    try {
+      const result = await this.db.deletePushSubscriptionByEndpoint(endpoint);
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(undefined);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  private mapToEntity(data: PushSubscriptionData): PushSubscription {
+    return PushSubscription.create({
+      id: data.id,
+      userId: data.userId,
+      endpoint: data.endpoint,
+      keys: { p256dh: data.p256dh, auth: data.auth },
+      deviceId: data.deviceId,
+      userAgent: data.userAgent,
+      createdAt: new Date(data.createdAt)
+    });
+  }
+}
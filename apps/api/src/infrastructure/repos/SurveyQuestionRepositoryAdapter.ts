@@ -0,0 +1,61 @@
+import { injectable, inject } from 'tsyringe';
+import { Result } from '@/shared/result';
+import { ISurveyQuestionRepository } from '@/domain/repositories/ISurveyQuestionRepository';
+import { SurveyQuestionBank, SurveyQuestion } from '@/domain/entities/SurveyQuestionBank';
+import { Disease } from '@/domain/entities/SurveyResult';
+import { IDatabaseClient, SurveyQuestionBankData } from '../database/types';
+
+@injectable()
+export class SurveyQuestionRepositoryAdapter implements ISurveyQuestionRepository {
+  constructor(
+    @inject('IDatabaseClient') private db: IDatabaseClient
+  ) {}
+
+  async getActiveBank(): Promise<Result<SurveyQuestionBank>> {
+    try {
+      const result = await this.db.getSurveyQuestionBank();
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      if (!result.data) {
+        return Result.error(new Error('No survey question bank is active'));
+      }
+
+      return Result.ok(this.mapToEntity(result.data));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async getBank(version: number): Promise<Result<SurveyQuestionBank | null>> {
+    try {
+      const result = await this.db.getSurveyQuestionBank(version);
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(result.data ? this.mapToEntity(result.data) : null);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  private mapToEntity(data: SurveyQuestionBankData): SurveyQuestionBank {
+    return SurveyQuestionBank.create({
+      version: data.version,
+      questions: data.questions.map((question): SurveyQuestion => ({
+        id: question.id,
+        questionId: question.questionId,
+        disease: question.disease as Disease,
+        phase: question.phase as SurveyQuestion['phase'],
+        category: question.category as SurveyQuestion['category'],
+        order: question.order,
+        title: { en: question.title.en ?? question.questionId, ar: question.title.ar },
+        prompt: { en: question.prompt.en ?? '', ar: question.prompt.ar }
+      }))
+    });
+  }
+}
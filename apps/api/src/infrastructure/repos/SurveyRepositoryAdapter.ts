@@ -9,7 +9,7 @@ import { UserId } from '@/domain/value-objects/UserId';
 import { SurveyResponseId } from '@/domain/value-objects/SurveyResponseId';
 import { SurveyResultId } from '@/domain/value-objects/SurveyResultId';
 import { QuestionResponse } from '@/domain/value-objects/QuestionResponse';
-import { IDatabaseClient } from '../database/types';
+import { IDatabaseClient, SurveyResultData, SurveyProgressData } from '../database/types';
 
 @injectable()
 export class SurveyRepositoryAdapter implements ISurveyRepository {
@@ -229,6 +229,7 @@ export class SurveyRepositoryAdapter implements ISurveyRepository {
 
       const dbResult = await this.db.createSurveyResult({
         userId: result.userId.toString(),
+        attemptNumber: result.attemptNumber,
         diseaseScores: diseaseScoresRecord,
         criticalDiseases: result.criticalDiseases,
         reflectionAnswers: result.reflectionAnswers,
@@ -244,20 +245,7 @@ export class SurveyRepositoryAdapter implements ISurveyRepository {
         ));
       }
 
-      const created = SurveyResult.create({
-        id: dbResult.data!.id,
-        userId: dbResult.data!.userId,
-        diseaseScores: dbResult.data!.diseaseScores as Record<Disease, LikertScore>,
-        reflectionAnswers: {
-          strongestStruggle: dbResult.data!.reflectionAnswers.strongestStruggle || '',
-          dailyHabit: dbResult.data!.reflectionAnswers.dailyHabit || ''
-        } as ReflectionAnswer,
-        personalizedHabits: dbResult.data!.personalizedHabits,
-        tazkiyahPlan: dbResult.data!.tazkiyahPlan,
-        radarChartData: dbResult.data!.radarChartData,
-        generatedAt: new Date(dbResult.data!.generatedAt),
-        updatedAt: new Date(dbResult.data!.updatedAt)
-      });
+      const created = this.toSurveyResult(dbResult.data!);
 
       return Result.ok(created);
     } catch (error) {
@@ -284,20 +272,7 @@ export class SurveyRepositoryAdapter implements ISurveyRepository {
         return Result.ok(null);
       }
 
-      const surveyResult = SurveyResult.create({
-        id: dbResult.data.id,
-        userId: dbResult.data.userId,
-        diseaseScores: dbResult.data.diseaseScores as Record<Disease, LikertScore>,
-        reflectionAnswers: {
-          strongestStruggle: dbResult.data.reflectionAnswers.strongestStruggle || '',
-          dailyHabit: dbResult.data.reflectionAnswers.dailyHabit || ''
-        } as ReflectionAnswer,
-        personalizedHabits: dbResult.data.personalizedHabits,
-        tazkiyahPlan: dbResult.data.tazkiyahPlan,
-        radarChartData: dbResult.data.radarChartData,
-        generatedAt: new Date(dbResult.data.generatedAt),
-        updatedAt: new Date(dbResult.data.updatedAt)
-      });
+      const surveyResult = this.toSurveyResult(dbResult.data);
 
       return Result.ok(surveyResult);
     } catch (error) {
@@ -309,6 +284,27 @@ export class SurveyRepositoryAdapter implements ISurveyRepository {
     }
   }
 
+  async getSurveyResultHistory(userId: UserId): Promise<Result<SurveyResult[]>> {
+    try {
+      const dbResult = await this.db.getSurveyResultsByUserId(userId.toString());
+
+      if (dbResult.error) {
+        return Result.error(createAppError(
+          ErrorCode.DATABASE_ERROR,
+          dbResult.error.message
+        ));
+      }
+
+      return Result.ok(dbResult.data!.map(data => this.toSurveyResult(data)));
+    } catch (error) {
+      return Result.error(createAppError(
+        ErrorCode.DATABASE_ERROR,
+        error instanceof Error ? error.message : 'Unknown error occurred',
+        error instanceof Error ? error : undefined
+      ));
+    }
+  }
+
   async getSurveyResultById(id: SurveyResultId): Promise<Result<SurveyResult | null>> {
     try {
       const dbResult = await this.db.getSurveyResultById(id.toString());
@@ -324,20 +320,7 @@ export class SurveyRepositoryAdapter implements ISurveyRepository {
         return Result.ok(null);
       }
 
-      const surveyResult = SurveyResult.create({
-        id: dbResult.data.id,
-        userId: dbResult.data.userId,
-        diseaseScores: dbResult.data.diseaseScores as Record<Disease, LikertScore>,
-        reflectionAnswers: {
-          strongestStruggle: dbResult.data.reflectionAnswers.strongestStruggle || '',
-          dailyHabit: dbResult.data.reflectionAnswers.dailyHabit || ''
-        } as ReflectionAnswer,
-        personalizedHabits: dbResult.data.personalizedHabits,
-        tazkiyahPlan: dbResult.data.tazkiyahPlan,
-        radarChartData: dbResult.data.radarChartData,
-        generatedAt: new Date(dbResult.data.generatedAt),
-        updatedAt: new Date(dbResult.data.updatedAt)
-      });
+      const surveyResult = this.toSurveyResult(dbResult.data);
 
       return Result.ok(surveyResult);
     } catch (error) {
@@ -376,20 +359,7 @@ export class SurveyRepositoryAdapter implements ISurveyRepository {
         ));
       }
 
-      const updated = SurveyResult.create({
-        id: dbResult.data!.id,
-        userId: dbResult.data!.userId,
-        diseaseScores: dbResult.data!.diseaseScores as Record<Disease, LikertScore>,
-        reflectionAnswers: {
-          strongestStruggle: dbResult.data!.reflectionAnswers.strongestStruggle || '',
-          dailyHabit: dbResult.data!.reflectionAnswers.dailyHabit || ''
-        } as ReflectionAnswer,
-        personalizedHabits: dbResult.data!.personalizedHabits,
-        tazkiyahPlan: dbResult.data!.tazkiyahPlan,
-        radarChartData: dbResult.data!.radarChartData,
-        generatedAt: new Date(dbResult.data!.generatedAt),
-        updatedAt: new Date(dbResult.data!.updatedAt)
-      });
+      const updated = this.toSurveyResult(dbResult.data!);
 
       return Result.ok(updated);
     } catch (error) {
@@ -426,6 +396,7 @@ export class SurveyRepositoryAdapter implements ISurveyRepository {
     try {
       const result = await this.db.createSurveyProgress({
         userId: progress.userId.toString(),
+        attemptNumber: progress.attemptNumber,
         currentPhase: progress.currentPhase,
         phase1Completed: progress.phase1Completed,
         phase2Completed: progress.phase2Completed,
@@ -440,16 +411,7 @@ export class SurveyRepositoryAdapter implements ISurveyRepository {
         ));
       }
 
-      const created = SurveyProgress.create({
-        userId: result.data!.userId,
-        currentPhase: result.data!.currentPhase,
-        phase1Completed: result.data!.phase1Completed,
-        phase2Completed: result.data!.phase2Completed,
-        reflectionCompleted: result.data!.reflectionCompleted,
-        resultsGenerated: result.data!.resultsGenerated,
-        startedAt: new Date(result.data!.startedAt),
-        lastUpdated: new Date(result.data!.lastUpdated)
-      });
+      const created = this.toSurveyProgress(result.data!);
 
       return Result.ok(created);
     } catch (error) {
@@ -476,16 +438,7 @@ export class SurveyRepositoryAdapter implements ISurveyRepository {
         return Result.ok(null);
       }
 
-      const progress = SurveyProgress.create({
-        userId: result.data.userId,
-        currentPhase: result.data.currentPhase,
-        phase1Completed: result.data.phase1Completed,
-        phase2Completed: result.data.phase2Completed,
-        reflectionCompleted: result.data.reflectionCompleted,
-        resultsGenerated: result.data.resultsGenerated,
-        startedAt: new Date(result.data.startedAt),
-        lastUpdated: new Date(result.data.lastUpdated)
-      });
+      const progress = this.toSurveyProgress(result.data);
 
       return Result.ok(progress);
     } catch (error) {
@@ -502,6 +455,8 @@ export class SurveyRepositoryAdapter implements ISurveyRepository {
       const result = await this.db.updateSurveyProgress(
         progress.userId.toString(),
         {
+          attemptNumber: progress.attemptNumber,
+          startedAt: progress.startedAt.toISOString(),
           currentPhase: progress.currentPhase,
           phase1Completed: progress.phase1Completed,
           phase2Completed: progress.phase2Completed,
@@ -517,16 +472,7 @@ export class SurveyRepositoryAdapter implements ISurveyRepository {
         ));
       }
 
-      const updated = SurveyProgress.create({
-        userId: result.data!.userId,
-        currentPhase: result.data!.currentPhase,
-        phase1Completed: result.data!.phase1Completed,
-        phase2Completed: result.data!.phase2Completed,
-        reflectionCompleted: result.data!.reflectionCompleted,
-        resultsGenerated: result.data!.resultsGenerated,
-        startedAt: new Date(result.data!.startedAt),
-        lastUpdated: new Date(result.data!.lastUpdated)
-      });
+      const updated = this.toSurveyProgress(result.data!);
 
       return Result.ok(updated);
     } catch (error) {
@@ -684,34 +630,12 @@ export class SurveyRepositoryAdapter implements ISurveyRepository {
 
       let surveyResult: SurveyResult | null = null;
       if (result.data!.result) {
-        surveyResult = SurveyResult.create({
-          id: result.data!.result.id,
-          userId: result.data!.result.userId,
-          diseaseScores: result.data!.result.diseaseScores as Record<Disease, LikertScore>,
-          reflectionAnswers: {
-            strongestStruggle: result.data!.result.reflectionAnswers.strongestStruggle || '',
-            dailyHabit: result.data!.result.reflectionAnswers.dailyHabit || ''
-          } as ReflectionAnswer,
-          personalizedHabits: result.data!.result.personalizedHabits,
-          tazkiyahPlan: result.data!.result.tazkiyahPlan,
-          radarChartData: result.data!.result.radarChartData,
-          generatedAt: new Date(result.data!.result.generatedAt),
-          updatedAt: new Date(result.data!.result.updatedAt)
-        });
+        surveyResult = this.toSurveyResult(result.data!.result);
       }
 
       let progress: SurveyProgress | null = null;
       if (result.data!.progress) {
-        progress = SurveyProgress.create({
-          userId: result.data!.progress.userId,
-          currentPhase: result.data!.progress.currentPhase,
-          phase1Completed: result.data!.progress.phase1Completed,
-          phase2Completed: result.data!.progress.phase2Completed,
-          reflectionCompleted: result.data!.progress.reflectionCompleted,
-          resultsGenerated: result.data!.progress.resultsGenerated,
-          startedAt: new Date(result.data!.progress.startedAt),
-          lastUpdated: new Date(result.data!.progress.lastUpdated)
-        });
+        progress = this.toSurveyProgress(result.data!.progress);
       }
 
       return Result.ok({
@@ -739,4 +663,36 @@ export class SurveyRepositoryAdapter implements ISurveyRepository {
       'Survey completion stats not yet implemented'
     ));
   }
+
+  private toSurveyResult(data: SurveyResultData): SurveyResult {
+    return SurveyResult.create({
+      id: data.id,
+      userId: data.userId,
+      attemptNumber: data.attemptNumber,
+      diseaseScores: data.diseaseScores as Record<Disease, LikertScore>,
+      reflectionAnswers: {
+        strongestStruggle: data.reflectionAnswers.strongestStruggle || '',
+        dailyHabit: data.reflectionAnswers.dailyHabit || ''
+      } as ReflectionAnswer,
+      personalizedHabits: data.personalizedHabits,
+      tazkiyahPlan: data.tazkiyahPlan,
+      radarChartData: data.radarChartData,
+      generatedAt: new Date(data.generatedAt),
+      updatedAt: new Date(data.updatedAt)
+    });
+  }
+
+  private toSurveyProgress(data: SurveyProgressData): SurveyProgress {
+    return SurveyProgress.create({
+      userId: data.userId,
+      attemptNumber: data.attemptNumber,
+      currentPhase: data.currentPhase,
+      phase1Completed: data.phase1Completed,
+      phase2Completed: data.phase2Completed,
+      reflectionCompleted: data.reflectionCompleted,
+      resultsGenerated: data.resultsGenerated,
+      startedAt: new Date(data.startedAt),
+      lastUpdated: new Date(data.lastUpdated)
+    });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,314 @@
+import { injectable, inject } from 'tsyringe';
+import { Result } from '@/shared/result';
+import {
+  ISyncRepository,
+  SyncEntity,
+  SyncOperationRecord,
+  SyncConflictRecord,
+  SyncDeviceRecord,
+  SyncResolution,
+  SyncChangeEntity,
+  SyncChangeWindow,
+  SyncChangeRecord,
+  SyncTombstoneRecord
+} from '@/domain/repositories';
+import { UserId } from '@/domain/value-objects/UserId';
+import {
+  IDatabaseClient,
+  SyncOperationData,
+  SyncConflictData,
+  SyncDeviceData,
+  SyncChangeWindow as SyncChangeWindowData
+} from '../database/types';
+
+@injectable()
+export class SyncRepositoryAdapter implements ISyncRepository {
+  constructor(
+    @inject('IDatabaseClient') private db: IDatabaseClient
+  ) {}
+
+  async recordOperation(record: Omit<SyncOperationRecord, 'processedAt'>): Promise<Result<SyncOperationRecord>> {
+    try {
+      const result = await this.db.createSyncOperation({
+        userId: record.userId,
+        operationId: record.operationId,
+        deviceId: record.deviceId,
+        type: record.type,
+        entity: record.entity,
+        entityId: record.entityId,
+        status: record.status,
+        result: record.result,
+        clientTimestamp: record.clientTimestamp.toISOString()
+      });
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(this.mapDataToRecord(result.data!));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async findOperation(userId: UserId, operationId: string): Promise<Result<SyncOperationRecord | null>> {
+    try {
+      const result = await this.db.getSyncOperation(userId.toString(), operationId);
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(result.data ? this.mapDataToRecord(result.data) : null);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async findLatestAppliedForEntity(
+    userId: UserId,
+    entity: SyncEntity,
+    entityId: string
+  ): Promise<Result<SyncOperationRecord | null>> {
+    try {
+      const result = await this.db.getLatestSyncOperationForEntity(userId.toString(), entity, entityId);
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(result.data ? this.mapDataToRecord(result.data) : null);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async saveConflict(
+    conflict: Omit<SyncConflictRecord, 'resolution' | 'resolvedData' | 'createdAt' | 'resolvedAt'>
+  ): Promise<Result<SyncConflictRecord>> {
+    try {
+      const result = await this.db.createSyncConflict({
+        id: conflict.id,
+        userId: conflict.userId,
+        deviceId: conflict.deviceId,
+        operationId: conflict.operationId,
+        operationType: conflict.operationType,
+        entity: conflict.entity,
+        entityId: conflict.entityId,
+        conflictType: conflict.conflictType,
+        clientData: conflict.clientData,
+        serverData: conflict.serverData,
+        clientTimestamp: conflict.clientTimestamp.toISOString(),
+        serverTimestamp: conflict.serverTimestamp.toISOString()
+      });
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(this.mapConflictDataToRecord(result.data!));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async findConflictById(id: string, userId: UserId): Promise<Result<SyncConflictRecord | null>> {
+    try {
+      const result = await this.db.getSyncConflictById(id, userId.toString());
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(result.data ? this.mapConflictDataToRecord(result.data) : null);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async findPendingConflicts(userId: UserId, deviceId?: string): Promise<Result<SyncConflictRecord[]>> {
+    try {
+      const result = await this.db.getPendingSyncConflicts(userId.toString(), deviceId);
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok((result.data || []).map(data => this.mapConflictDataToRecord(data)));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async markConflictResolved(
+    id: string,
+    userId: UserId,
+    resolution: SyncResolution,
+    resolvedData?: Record<string, any> | null
+  ): Promise<Result<SyncConflictRecord>> {
+    try {
+      const result = await this.db.resolveSyncConflict(id, userId.toString(), {
+        resolution,
+        resolvedData
+      });
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(this.mapConflictDataToRecord(result.data!));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async recordDeviceSync(
+    userId: UserId,
+    deviceId: string,
+    attempt: { attemptedAt: Date; successful: boolean; errorCount: number }
+  ): Promise<Result<SyncDeviceRecord>> {
+    try {
+      const attemptedAt = attempt.attemptedAt.toISOString();
+      const result = await this.db.upsertSyncDevice({
+        userId: userId.toString(),
+        deviceId,
+        lastAttemptAt: attemptedAt,
+        lastSuccessfulSyncAt: attempt.successful ? attemptedAt : null,
+        lastErrorCount: attempt.errorCount
+      });
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(this.mapDeviceDataToRecord(result.data!));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async findDevices(userId: UserId): Promise<Result<SyncDeviceRecord[]>> {
+    try {
+      const result = await this.db.getSyncDevicesByUser(userId.toString());
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok((result.data || []).map(data => this.mapDeviceDataToRecord(data)));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async findChanges(
+    userId: UserId,
+    entity: SyncChangeEntity,
+    window: SyncChangeWindow
+  ): Promise<Result<SyncChangeRecord[]>> {
+    try {
+      const result = await this.db.getSyncChanges(userId.toString(), entity, this.mapWindow(window));
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok((result.data || []).map(data => ({
+        entity: data.entity,
+        entityId: data.entityId,
+        data: data.data,
+        createdAt: new Date(data.createdAt),
+        updatedAt: new Date(data.updatedAt)
+      })));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async findTombstones(userId: UserId, window: SyncChangeWindow): Promise<Result<SyncTombstoneRecord[]>> {
+    try {
+      const result = await this.db.getSyncTombstones(userId.toString(), this.mapWindow(window));
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok((result.data || []).map(data => ({
+        id: data.id,
+        entity: data.entity,
+        entityId: data.entityId,
+        deletedAt: new Date(data.deletedAt)
+      })));
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  async findEntityUpdatedAt(userId: UserId, entity: SyncChangeEntity, entityId: string): Promise<Result<Date | null>> {
+    try {
+      const result = await this.db.getSyncEntityUpdatedAt(userId.toString(), entity, entityId);
+
+      if (result.error) {
+        return Result.error(new Error(result.error.message));
+      }
+
+      return Result.ok(result.data ? new Date(result.data) : null);
+    } catch (error) {
+      return Result.error(error as Error);
+    }
+  }
+
+  private mapWindow(window: SyncChangeWindow): SyncChangeWindowData {
+    return {
+      ...(window.since && { since: window.since.toISOString() }),
+      until: window.until.toISOString(),
+      limit: window.limit,
+      ...(window.after && { after: { changedAt: window.after.changedAt.toISOString(), id: window.after.id } })
+    };
+  }
+
+  private mapDataToRecord(data: SyncOperationData): SyncOperationRecord {
+    return {
+      operationId: data.operationId,
+      userId: data.userId,
+      deviceId: data.deviceId,
+      type: data.type,
+      entity: data.entity as SyncEntity,
+      entityId: data.entityId,
+      status: data.status,
+      result: data.result,
+      clientTimestamp: new Date(data.clientTimestamp),
+      processedAt: new Date(data.processedAt)
+    };
+  }
+
+  private mapConflictDataToRecord(data: SyncConflictData): SyncConflictRecord {
+    return {
+      id: data.id,
+      userId: data.userId,
+      deviceId: data.deviceId,
+      operationId: data.operationId,
+      operationType: data.operationType,
+      entity: data.entity as SyncEntity,
+      entityId: data.entityId,
+      conflictType: data.conflictType,
+      clientData: data.clientData,
+      serverData: data.serverData,
+      clientTimestamp: new Date(data.clientTimestamp),
+      serverTimestamp: new Date(data.serverTimestamp),
+      resolution: data.resolution,
+      resolvedData: data.resolvedData,
+      createdAt: new Date(data.createdAt),
+      resolvedAt: data.resolvedAt ? new Date(data.resolvedAt) : null
+    };
+  }
+
+  private mapDeviceDataToRecord(data: SyncDeviceData): SyncDeviceRecord {
+    return {
+      deviceId: data.deviceId,
+      lastAttemptAt: new Date(data.lastAttemptAt),
+      lastSuccessfulSyncAt: data.lastSuccessfulSyncAt ? new Date(data.lastSuccessfulSyncAt) : null,
+      lastErrorCount: data.lastErrorCount
+    };
+  }
+}
@@ -108,7 +108,10 @@ export class UserPreferencesRepository implements IUserPreferencesRepository {
       data.privacySettings,
       data.displaySettings,
       new Date(data.updatedAt),
-      new Date(data.createdAt)
+      new Date(data.createdAt),
+      data.habitSettings,
+      data.calendarSettings,
+      data.prayerSettings
     );
   }
 
@@ -121,6 +124,9 @@ export class UserPreferencesRepository implements IUserPreferencesRepository {
       notificationSettings: entity.notificationSettings,
       privacySettings: entity.privacySettings,
       displaySettings: entity.displaySettings,
+      habitSettings: entity.habitSettings,
+      calendarSettings: entity.calendarSettings,
+      prayerSettings: entity.prayerSettings,
       updatedAt: entity.updatedAt.toISOString(),
       createdAt: entity.createdAt.toISOString()
     };
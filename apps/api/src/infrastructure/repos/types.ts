@@ -1,19 +1,24 @@
-import { HabitSchedule } from '@sakinah/types';
+import { CheckinSession, HabitSchedule } from '@sakinah/types';
 
 // Repository method input types for better type safety
 
 export interface CreateCheckinInput {
   userId: string;
   date: string;
+  session?: CheckinSession;
   mood?: number;
   intention?: string;
   reflection?: string;
+  gratitude?: string[];
+  improvements?: string;
 }
 
 export interface UpdateCheckinInput {
   mood?: number;
   intention?: string;
   reflection?: string;
+  gratitude?: string[];
+  improvements?: string;
 }
 
 export interface CreateHabitInput {
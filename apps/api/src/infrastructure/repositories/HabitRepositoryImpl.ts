@@ -86,6 +86,39 @@ export class HabitRepositoryImpl implements IHabitRepository {
     return Result.ok([]);
   }
 
+  async findAll(): Promise<Result<Habit[]>> {
+    try {
+      const result = await this.habitRepo.getAllHabits();
+
+      if (Result.isError(result)) {
+        return result;
+      }
+
+      const habits = result.value.map(rawHabit =>
+        Habit.create({
+          id: rawHabit.id,
+          userId: rawHabit.userId,
+          planId: rawHabit.planId,
+          title: rawHabit.title,
+          schedule: typeof rawHabit.schedule === 'string'
+            ? JSON.parse(rawHabit.schedule)
+            : rawHabit.schedule,
+          streakCount: rawHabit.streakCount || 0,
+          lastCompletedOn: rawHabit.lastCompletedOn ? new Date(rawHabit.lastCompletedOn) : null,
+          createdAt: rawHabit.createdAt ? new Date(rawHabit.createdAt) : new Date()
+        })
+      );
+
+      return Result.ok(habits);
+    } catch (error) {
+      return Result.error(createAppError(
+        ErrorCode.DATABASE_ERROR,
+        `Failed to find habits: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      ));
+    }
+  }
+
   async create(habit: Habit): Promise<Result<Habit>> {
     try {
       const createInput = {
@@ -185,4 +218,22 @@ export class HabitRepositoryImpl implements IHabitRepository {
       ));
     }
   }
-}
\ No newline at end of file
+
+  async findCompletionDates(habitId: HabitId): Promise<Result<Date[]>> {
+    try {
+      const result = await this.habitRepo.getHabitCompletions(habitId.toString());
+
+      if (Result.isError(result)) {
+        return result;
+      }
+
+      return Result.ok(result.value.map(date => new Date(`${date.split('T')[0]}T00:00:00.000Z`)));
+    } catch (error) {
+      return Result.error(createAppError(
+        ErrorCode.DATABASE_ERROR,
+        `Failed to find completions: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      ));
+    }
+  }
+}
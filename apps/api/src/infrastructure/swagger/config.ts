@@ -206,6 +206,108 @@ const schemas = {
       }
     },
     required: ['totalHabits', 'completedToday', 'averageStreak', 'longestStreak', 'completionRate', 'weeklyProgress']
+  },
+
+  // Check-in DTO Schema
+  CheckinDTO: {
+    type: 'object',
+    properties: {
+      id: {
+        type: 'string',
+        format: 'uuid',
+        description: 'Unique identifier for the check-in'
+      },
+      userId: {
+        type: 'string',
+        format: 'uuid',
+        description: 'ID of the user who owns this check-in'
+      },
+      date: {
+        type: 'string',
+        format: 'date',
+        description: 'Calendar day in the user\'s timezone'
+      },
+      session: {
+        type: 'string',
+        enum: ['morning', 'evening'],
+        description: 'Morning intention or evening muhasabah'
+      },
+      mood: {
+        type: 'integer',
+        minimum: -2,
+        maximum: 2,
+        nullable: true,
+        description: 'Spiritual mood rating'
+      },
+      intention: {
+        type: 'string',
+        nullable: true,
+        description: 'The day\'s intention (morning)'
+      },
+      reflection: {
+        type: 'string',
+        nullable: true,
+        description: 'Reflection on the day (evening)'
+      },
+      gratitude: {
+        type: 'array',
+        items: { type: 'string' },
+        maxItems: 3,
+        description: 'Things the user was grateful for (evening)'
+      },
+      improvements: {
+        type: 'string',
+        nullable: true,
+        description: 'What to improve tomorrow (evening)'
+      },
+      createdAt: {
+        type: 'string',
+        format: 'date-time'
+      }
+    },
+    required: ['id', 'userId', 'date', 'session', 'gratitude', 'createdAt']
+  },
+
+  // Streak of one check-in session
+  SessionStreak: {
+    type: 'object',
+    properties: {
+      current: {
+        type: 'integer',
+        minimum: 0,
+        description: 'Consecutive days up to today with this session done'
+      },
+      longest: {
+        type: 'integer',
+        minimum: 0,
+        description: 'Longest run of days with this session done'
+      }
+    },
+    required: ['current', 'longest']
+  },
+
+  // Check-in Streak Schema
+  CheckinStreak: {
+    type: 'object',
+    properties: {
+      current: {
+        type: 'integer',
+        minimum: 0,
+        description: 'Consecutive days up to today with either session done'
+      },
+      longest: {
+        type: 'integer',
+        minimum: 0,
+        description: 'Longest run of days with either session done'
+      },
+      morning: {
+        $ref: '#/components/schemas/SessionStreak'
+      },
+      evening: {
+        $ref: '#/components/schemas/SessionStreak'
+      }
+    },
+    required: ['current', 'longest', 'morning', 'evening']
   }
 };
 
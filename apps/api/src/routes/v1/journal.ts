@@ -36,11 +36,18 @@ const updateJournalEntryBodySchema = z.object({
   tags: z.array(z.string().max(50, 'Each tag must be 50 characters or less')).max(10, 'Maximum 10 tags allowed').optional()
 });
 
+const dateParamSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
 const searchJournalEntriesQuerySchema = z.object({
   q: z.string().min(1, 'Search query cannot be empty'),
   tags: z.string().optional(),
+  from: dateParamSchema.optional(),
+  to: dateParamSchema.optional(),
   page: z.string().optional().default('1'),
   limit: z.string().optional().default('20')
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: 'to must be on or after from',
+  path: ['to']
 });
 
 /**
@@ -159,6 +166,99 @@ router.get('/', authMiddleware, validateQuery(getJournalEntriesQuerySchema), asy
   }
 });
 
+/**
+ * @api {get} /api/v1/journal/search Search journal entries
+ * @apiVersion 1.0.0
+ * @apiName SearchJournalEntries
+ * @apiGroup Journal
+ * @apiDescription Full-text search ranked by relevance. Supports "quoted phrases" and -excluded words,
+ * and matches Arabic with or without harakat. Each entry carries a rank and an HTML-escaped highlight
+ * with matches wrapped in <mark>.
+ * @apiParam {String} q Search query
+ * @apiParam {String} [tags] Comma-separated list of tags to filter by
+ * @apiParam {String} [from] Earliest entry date (YYYY-MM-DD, inclusive, in the user's timezone)
+ * @apiParam {String} [to] Latest entry date (YYYY-MM-DD, inclusive, in the user's timezone)
+ * @apiParam {Number} [page=1] Page number for pagination
+ * @apiParam {Number} [limit=20] Number of entries per page (max 50)
+ */
+router.get('/search', authMiddleware, validateQuery(searchJournalEntriesQuerySchema), async (req: AuthRequest, res): Promise<void> => {
+  const traceId = getExpressTraceId(req);
+  const requestLogger = createRequestLogger(traceId, req.userId);
+
+  try {
+    const userId = req.userId!;
+    const {
+      q: query,
+      tags,
+      from,
+      to,
+      page,
+      limit
+    } = req.query as z.infer<typeof searchJournalEntriesQuerySchema>;
+
+    const searchTerm = query.trim();
+    const tagList = tags ? tags.split(',').map(t => t.trim()).filter(Boolean) : null;
+
+    // Validate pagination parameters
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(50, Math.max(1, parseInt(limit) || 20));
+
+    const useCase = container.resolve(ManageJournalUseCase);
+    const result = await useCase.searchEntries({
+      userId,
+      text: searchTerm,
+      tags: tagList ?? undefined,
+      from,
+      to,
+      page: pageNum,
+      limit: limitNum
+    });
+
+    if (Result.isError(result)) {
+      requestLogger.error('Error searching journal entries v1', { error: result.error, traceId });
+      const { response, status } = handleExpressError(
+        createAppError(ErrorCode.SERVER_ERROR, 'Failed to search journal entries'),
+        traceId
+      );
+      res.status(status).json(response);
+      return;
+    }
+
+    const { hits, total } = result.value;
+    const totalPages = Math.ceil(total / limitNum);
+
+    const responseData = {
+      entries: hits.map(hit => ({
+        ...hit.entry.toDTO(),
+        rank: hit.rank,
+        highlight: hit.highlight
+      })),
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      },
+      search: {
+        query: searchTerm,
+        tags: tagList,
+        from: from || null,
+        to: to || null
+      }
+    };
+
+    const successResponse = createSuccessResponse(responseData, traceId);
+    res.json(successResponse);
+
+  } catch (error) {
+    requestLogger.error('Unexpected error in search journal entries v1', { error, traceId });
+    const { response, status } = handleExpressError(error, traceId);
+    res.status(status).json(response);
+  }
+});
+
 /**
  * @api {get} /api/v1/journal/:id Get specific journal entry
  * @apiVersion 1.0.0
@@ -411,105 +511,4 @@ router.delete('/:id', authMiddleware, async (req: AuthRequest, res): Promise<voi
   }
 });
 
-/**
- * @api {get} /api/v1/journal/search Search journal entries
- * @apiVersion 1.0.0
- * @apiName SearchJournalEntries
- * @apiGroup Journal
- * @apiParam {String} q Search query
- * @apiParam {String} [tags] Comma-separated list of tags to filter by
- * @apiParam {Number} [page=1] Page number for pagination
- * @apiParam {Number} [limit=20] Number of entries per page (max 50)
- */
-router.get('/search', authMiddleware, validateQuery(searchJournalEntriesQuerySchema), async (req: AuthRequest, res): Promise<void> => {
-  const traceId = getExpressTraceId(req);
-  const requestLogger = createRequestLogger(traceId, req.userId);
-
-  try {
-    const userId = req.userId!;
-    const {
-      q: query,
-      tags,
-      page,
-      limit
-    } = req.query as z.infer<typeof searchJournalEntriesQuerySchema>;
-
-    const searchTerm = query.trim();
-
-    // Validate pagination parameters
-    const pageNum = Math.max(1, parseInt(page) || 1);
-    const limitNum = Math.min(50, Math.max(1, parseInt(limit) || 20));
-    const offset = (pageNum - 1) * limitNum;
-
-    const useCase = container.resolve(ManageJournalUseCase);
-    const result = await useCase.getUserEntries(userId, searchTerm);
-
-    if (Result.isError(result)) {
-      requestLogger.error('Error searching journal entries v1', { error: result.error, traceId });
-      const { response, status } = handleExpressError(
-        createAppError(ErrorCode.SERVER_ERROR, 'Failed to search journal entries'),
-        traceId
-      );
-      res.status(status).json(response);
-      return;
-    }
-
-    let entries = result.value;
-
-    // Apply tag filtering if specified
-    if (tags) {
-      const tagList = tags.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean);
-      if (tagList.length > 0) {
-        entries = entries.filter(entry =>
-          tagList.some(tag => entry.tags.includes(tag))
-        );
-      }
-    }
-
-    // Sort by relevance (entries with query in content first, then by creation date)
-    entries.sort((a, b) => {
-      const aContentMatch = a.content.toLowerCase().includes(searchTerm.toLowerCase());
-      const bContentMatch = b.content.toLowerCase().includes(searchTerm.toLowerCase());
-
-      if (aContentMatch && !bContentMatch) return -1;
-      if (!aContentMatch && bContentMatch) return 1;
-
-      // If both match or both don't match, sort by creation date (newest first)
-      return b.createdAt.getTime() - a.createdAt.getTime();
-    });
-
-    // Calculate pagination
-    const total = entries.length;
-    const totalPages = Math.ceil(total / limitNum);
-    const paginatedEntries = entries.slice(offset, offset + limitNum);
-
-    // Transform to DTOs
-    const entriesDTO = paginatedEntries.map(entry => entry.toDTO());
-
-    const responseData = {
-      entries: entriesDTO,
-      pagination: {
-        page: pageNum,
-        limit: limitNum,
-        total,
-        totalPages,
-        hasNextPage: pageNum < totalPages,
-        hasPrevPage: pageNum > 1
-      },
-      search: {
-        query: searchTerm,
-        tags: tags ? tags.split(',').map(t => t.trim()).filter(Boolean) : null
-      }
-    };
-
-    const successResponse = createSuccessResponse(responseData, traceId);
-    res.json(successResponse);
-
-  } catch (error) {
-    requestLogger.error('Unexpected error in search journal entries v1', { error, traceId });
-    const { response, status } = handleExpressError(error, traceId);
-    res.status(status).json(response);
-  }
-});
-
 export default router;
\ No newline at end of file
@@ -1,8 +1,8 @@
-import { Router } from 'express';
+import { Router, RequestHandler } from 'express';
 import { container } from 'tsyringe';
 import { z } from 'zod';
 import { authMiddleware } from '@/infrastructure/auth/middleware';
-import { validateBody } from '@/infrastructure/middleware/validation';
+import { validateBody, validateQuery } from '@/infrastructure/middleware/validation';
 import {
   surveyPhaseMiddleware,
   surveyCompletionCheckMiddleware
@@ -13,8 +13,12 @@ import { SubmitReflectionUseCase } from '@/application/usecases/SubmitReflection
 import { ValidateSurveyProgressUseCase } from '@/application/usecases/ValidateSurveyProgressUseCase';
 import { GenerateResultsUseCase } from '@/application/usecases/GenerateResultsUseCase';
 import { CreateHabitsFromSurveyUseCase } from '@/application/usecases/CreateHabitsFromSurveyUseCase';
-import { ISurveyRepository } from '@/domain/repositories/ISurveyRepository';
-import { UserId } from '@/domain/value-objects/UserId';
+import { StartSurveyRetakeUseCase } from '@/application/usecases/StartSurveyRetakeUseCase';
+import { GetSurveyHistoryUseCase } from '@/application/usecases/GetSurveyHistoryUseCase';
+import { GetSurveyQuestionBankUseCase } from '@/application/usecases/GetSurveyQuestionBankUseCase';
+import { ExportSurveyResultUseCase } from '@/application/usecases/ExportSurveyResultUseCase';
+import { SurveyQuestion, SurveyQuestionPhase } from '@/domain/entities/SurveyQuestionBank';
+import { renderSurveyResultsPdf } from '@/infrastructure/export/surveyResultsPdf';
 import { Result } from '@/shared/result';
 import {
   ErrorCode,
@@ -35,40 +39,47 @@ function getUserIdFromRequest(req: any): string {
   return req.userId;
 }
 
-// Validation schemas based on design document
-const Phase1Schema = z.object({
-  envyScore: z.number().int().min(1).max(5),
-  envyNote: z.string().max(1000).optional(),
-  arroganceScore: z.number().int().min(1).max(5),
-  arroganceNote: z.string().max(1000).optional(),
-  selfDeceptionScore: z.number().int().min(1).max(5),
-  selfDeceptionNote: z.string().max(1000).optional(),
-  lustScore: z.number().int().min(1).max(5),
-  lustNote: z.string().max(1000).optional()
-});
+// Phase 1 and 2 bodies carry `${questionId}Score` / `${questionId}Note` for each question of the active bank
+function buildPhaseSchema(questions: SurveyQuestion[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const question of questions) {
+    shape[`${question.questionId}Score`] = z.number().int().min(1).max(5);
+    shape[`${question.questionId}Note`] = z.string().max(1000).optional();
+  }
+  return z.object(shape);
+}
 
-const Phase2Schema = z.object({
-  angerScore: z.number().int().min(1).max(5),
-  angerNote: z.string().max(1000).optional(),
-  maliceScore: z.number().int().min(1).max(5),
-  maliceNote: z.string().max(1000).optional(),
-  backbitingScore: z.number().int().min(1).max(5),
-  backbitingNote: z.string().max(1000).optional(),
-  suspicionScore: z.number().int().min(1).max(5),
-  suspicionNote: z.string().max(1000).optional(),
-  loveOfDunyaScore: z.number().int().min(1).max(5),
-  loveOfDunyaNote: z.string().max(1000).optional(),
-  lazinessScore: z.number().int().min(1).max(5),
-  lazinessNote: z.string().max(1000).optional(),
-  despairScore: z.number().int().min(1).max(5),
-  despairNote: z.string().max(1000).optional()
-});
+function validatePhaseBody(phase: SurveyQuestionPhase): RequestHandler {
+  return async (req, res, next): Promise<void> => {
+    let schema: z.ZodTypeAny;
+
+    try {
+      const getQuestionBankUseCase = container.resolve(GetSurveyQuestionBankUseCase);
+      const bankResult = await getQuestionBankUseCase.execute();
+      if (Result.isError(bankResult)) {
+        throw bankResult.error;
+      }
+      schema = buildPhaseSchema(bankResult.value.questionsForPhase(phase));
+    } catch (error) {
+      const { response, status, headers } = handleExpressError(error, getExpressTraceId(req), 'Failed to load survey questions');
+      res.status(status).set(headers).json(response);
+      return;
+    }
+
+    validateBody(schema)(req, res, next);
+  };
+}
 
 const ReflectionSchema = z.object({
   strongestStruggle: z.string().min(10, 'Must be at least 10 characters').max(500, 'Cannot exceed 500 characters'),
   dailyHabit: z.string().min(10, 'Must be at least 10 characters').max(500, 'Cannot exceed 500 characters')
 });
 
+const HistoryQuerySchema = z.object({
+  from: z.coerce.number().int().min(1).optional(),
+  to: z.coerce.number().int().min(1).optional()
+});
+
 /**
  * @api {get} /api/v1/onboarding/welcome Survey introduction endpoint
  * @apiVersion 1.0.0
@@ -83,7 +94,13 @@ router.get('/welcome', authMiddleware, surveyPhaseMiddleware.welcome, async (req
   try {
     requestLogger.info('Fetching survey welcome information');
 
-    // Static welcome data based on requirements
+    const getQuestionBankUseCase = container.resolve(GetSurveyQuestionBankUseCase);
+    const bankResult = await getQuestionBankUseCase.execute();
+    if (Result.isError(bankResult)) {
+      throw bankResult.error;
+    }
+    const bank = bankResult.value;
+
     const welcomeData = {
       title: 'Tazkiyah Discovery Survey',
       titleAr: 'استبيان قراءة النفس',
@@ -96,8 +113,8 @@ router.get('/welcome', authMiddleware, surveyPhaseMiddleware.welcome, async (req
         'Create a structured spiritual development plan'
       ],
       phases: [
-        { number: 1, name: 'Inner Heart Diseases', questions: 4 },
-        { number: 2, name: 'Behavioral Manifestations', questions: 7 },
+        { number: 1, name: 'Inner Heart Diseases', questions: bank.questionsForPhase(1).length },
+        { number: 2, name: 'Behavioral Manifestations', questions: bank.questionsForPhase(2).length },
         { number: 3, name: 'Reflection & Personal Goals', questions: 2 },
         { number: 4, name: 'Results & Recommendations', questions: 0 }
       ],
@@ -129,7 +146,7 @@ router.get('/welcome', authMiddleware, surveyPhaseMiddleware.welcome, async (req
  * @apiGroup Onboarding
  * @apiDescription Submit Phase 1 survey responses (Inner Heart Diseases)
  */
-router.post('/phase1', authMiddleware, surveyCompletionCheckMiddleware, surveyPhaseMiddleware.phase1, validateBody(Phase1Schema), async (req, res): Promise<void> => {
+router.post('/phase1', authMiddleware, surveyCompletionCheckMiddleware, surveyPhaseMiddleware.phase1, validatePhaseBody(1), async (req, res): Promise<void> => {
   const traceId = getExpressTraceId(req);
   const requestLogger = createRequestLogger(traceId, (req as any).userId);
 
@@ -137,7 +154,7 @@ router.post('/phase1', authMiddleware, surveyCompletionCheckMiddleware, surveyPh
     const userId = getUserIdFromRequest(req);
     const phase1Data = req.body;
 
-    requestLogger.info('Submitting Phase 1 responses', { userId, questionCount: 4 });
+    requestLogger.info('Submitting Phase 1 responses', { userId });
 
     const useCase = container.resolve(SubmitPhase1UseCase);
     const result = await useCase.execute({ userId, phase1Data });
@@ -185,7 +202,7 @@ router.post('/phase1', authMiddleware, surveyCompletionCheckMiddleware, surveyPh
  * @apiGroup Onboarding
  * @apiDescription Submit Phase 2 survey responses (Behavioral Manifestations)
  */
-router.post('/phase2', authMiddleware, surveyCompletionCheckMiddleware, surveyPhaseMiddleware.phase2, validateBody(Phase2Schema), async (req, res): Promise<void> => {
+router.post('/phase2', authMiddleware, surveyCompletionCheckMiddleware, surveyPhaseMiddleware.phase2, validatePhaseBody(2), async (req, res): Promise<void> => {
   const traceId = getExpressTraceId(req);
   const requestLogger = createRequestLogger(traceId, (req as any).userId);
 
@@ -193,7 +210,7 @@ router.post('/phase2', authMiddleware, surveyCompletionCheckMiddleware, surveyPh
     const userId = getUserIdFromRequest(req);
     const phase2Data = req.body;
 
-    requestLogger.info('Submitting Phase 2 responses', { userId, questionCount: 7 });
+    requestLogger.info('Submitting Phase 2 responses', { userId });
 
     const useCase = container.resolve(SubmitPhase2UseCase);
     const result = await useCase.execute({ userId, phase2Data });
@@ -351,6 +368,102 @@ router.get('/results', authMiddleware, surveyPhaseMiddleware.results, async (req
   }
 });
 
+/**
+ * @api {post} /api/v1/onboarding/retake Start a survey retake
+ * @apiVersion 1.0.0
+ * @apiName StartRetake
+ * @apiGroup Onboarding
+ * @apiDescription Start a new survey attempt after the current one has results. Earlier results are kept.
+ */
+router.post('/retake', authMiddleware, async (req, res): Promise<void> => {
+  const traceId = getExpressTraceId(req);
+  const requestLogger = createRequestLogger(traceId, (req as any).userId);
+
+  try {
+    const userId = getUserIdFromRequest(req);
+    requestLogger.info('Starting survey retake', { userId });
+
+    const useCase = container.resolve(StartSurveyRetakeUseCase);
+    const result = await useCase.execute({ userId });
+
+    if (Result.isError(result)) {
+      requestLogger.error('Survey retake failed', { error: result.error, traceId });
+      const { response, status, headers } = handleExpressError(result.error, traceId);
+      res.status(status).set(headers).json(response);
+      return;
+    }
+
+    const responseData = {
+      retake: {
+        attemptNumber: result.value.attemptNumber,
+        previousResultId: result.value.previousResultId,
+        startedAt: result.value.progress.startedAt.toISOString()
+      },
+      progress: result.value.progress.toDTO(),
+      navigation: {
+        nextUrl: '/api/v1/onboarding/phase1',
+        currentStep: 1,
+        totalSteps: 4,
+        progressPercentage: 0
+      }
+    };
+
+    const successResponse = createSuccessResponse(responseData, traceId);
+    res.json(successResponse);
+  } catch (error) {
+    requestLogger.error('Error starting survey retake', { error, traceId });
+    const { response, status, headers } = handleExpressError(error, traceId, 'Failed to start survey retake');
+    res.status(status).set(headers).json(response);
+  }
+});
+
+/**
+ * @api {get} /api/v1/onboarding/results/history Get results of every survey attempt
+ * @apiVersion 1.0.0
+ * @apiName GetResultsHistory
+ * @apiGroup Onboarding
+ * @apiDescription List every survey attempt with its disease scores, and the per-disease score deltas
+ * between two attempts (by default the latest and the one before it)
+ * @apiParam {Number} [from] Attempt number to compare from
+ * @apiParam {Number} [to] Attempt number to compare to
+ */
+router.get('/results/history', authMiddleware, validateQuery(HistoryQuerySchema), async (req, res): Promise<void> => {
+  const traceId = getExpressTraceId(req);
+  const requestLogger = createRequestLogger(traceId, (req as any).userId);
+
+  try {
+    const userId = getUserIdFromRequest(req);
+    const { from, to } = req.query as z.infer<typeof HistoryQuerySchema>;
+    requestLogger.info('Fetching survey results history', { userId, from, to });
+
+    const useCase = container.resolve(GetSurveyHistoryUseCase);
+    const result = await useCase.execute({ userId, fromAttempt: from, toAttempt: to });
+
+    if (Result.isError(result)) {
+      requestLogger.error('Survey history fetch failed', { error: result.error, traceId });
+      const { response, status, headers } = handleExpressError(result.error, traceId);
+      res.status(status).set(headers).json(response);
+      return;
+    }
+
+    const responseData = {
+      attempts: result.value.attempts,
+      comparison: result.value.comparison,
+      metadata: {
+        totalAttempts: result.value.attempts.length,
+        fetchedAt: new Date().toISOString()
+      }
+    };
+
+    const successResponse = createSuccessResponse(responseData, traceId);
+    res.json(successResponse);
+  } catch (error) {
+    requestLogger.error('Error fetching survey history', { error, traceId });
+    const { response, status, headers } = handleExpressError(error, traceId, 'Failed to fetch survey history');
+    res.status(status).set(headers).json(response);
+  }
+});
+
 /**
  * @api {get} /api/v1/onboarding/progress Get current survey progress
  * @apiVersion 1.0.0
@@ -414,7 +527,8 @@ router.get('/progress', authMiddleware, async (req, res): Promise<void> => {
  * @apiVersion 1.0.0
  * @apiName ExportResultsPDF
  * @apiGroup Onboarding
- * @apiDescription Export survey results as PDF document
+ * @apiDescription Export one of the caller's survey results as a PDF report with the radar chart,
+ * per-disease scores, personalized habits, plan phases and the referenced ayat in Arabic
  */
 router.get('/export/pdf/:resultId', authMiddleware, async (req, res): Promise<void> => {
   const traceId = getExpressTraceId(req);
@@ -426,30 +540,23 @@ router.get('/export/pdf/:resultId', authMiddleware, async (req, res): Promise<vo
 
     requestLogger.info('Exporting results as PDF', { userId, resultId });
 
-    const surveyRepo = container.resolve<ISurveyRepository>('ISurveyRepository');
-    const result = await surveyRepo.getSurveyResult(new UserId(userId));
+    const exportUseCase = container.resolve(ExportSurveyResultUseCase);
+    const result = await exportUseCase.execute({ userId, resultId });
 
-    if (Result.isError(result) || !result.value) {
-      const { response, status, headers } = handleExpressError(
-        createAppError(ErrorCode.NOT_FOUND, 'Survey results not found'),
-        traceId
-      );
+    if (Result.isError(result)) {
+      requestLogger.warn('Survey result export failed', { resultId, error: result.error.message });
+      const { response, status, headers } = handleExpressError(result.error, traceId);
       res.status(status).set(headers).json(response);
       return;
     }
 
-    // For now, return JSON formatted for PDF generation
-    // In a real implementation, you would use a PDF library like puppeteer or jsPDF
-    const pdfData = {
-      title: 'Tazkiyah Discovery Survey Results',
-      generatedAt: new Date().toISOString(),
-      user: userId,
-      results: result.value.toDTO()
-    };
+    const pdf = await renderSurveyResultsPdf(result.value);
 
-    res.setHeader('Content-Type', 'application/json');
-    res.setHeader('Content-Disposition', 'attachment; filename="tazkiyah-results.json"');
-    res.json(pdfData);
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="tazkiyah-results-attempt-${result.value.result.attemptNumber}.pdf"`,
+      'X-Trace-Id': traceId
+    }).send(pdf);
 
   } catch (error) {
     requestLogger.error('Error exporting PDF', { error, traceId });
@@ -463,7 +570,7 @@ router.get('/export/pdf/:resultId', authMiddleware, async (req, res): Promise<vo
  * @apiVersion 1.0.0
  * @apiName ExportResultsJSON
  * @apiGroup Onboarding
- * @apiDescription Export survey results as JSON document
+ * @apiDescription Export one of the caller's survey results as JSON document
  */
 router.get('/export/json/:resultId', authMiddleware, async (req, res): Promise<void> => {
   const traceId = getExpressTraceId(req);
@@ -475,14 +582,12 @@ router.get('/export/json/:resultId', authMiddleware, async (req, res): Promise<v
 
     requestLogger.info('Exporting results as JSON', { userId, resultId });
 
-    const surveyRepo = container.resolve<ISurveyRepository>('ISurveyRepository');
-    const result = await surveyRepo.getSurveyResult(new UserId(userId));
+    const exportUseCase = container.resolve(ExportSurveyResultUseCase);
+    const result = await exportUseCase.execute({ userId, resultId });
 
-    if (Result.isError(result) || !result.value) {
-      const { response, status, headers } = handleExpressError(
-        createAppError(ErrorCode.NOT_FOUND, 'Survey results not found'),
-        traceId
-      );
+    if (Result.isError(result)) {
+      requestLogger.warn('Survey result export failed', { resultId, error: result.error.message });
+      const { response, status, headers } = handleExpressError(result.error, traceId);
       res.status(status).set(headers).json(response);
       return;
     }
@@ -494,11 +599,14 @@ router.get('/export/json/:resultId', authMiddleware, async (req, res): Promise<v
         version: '1.0',
         format: 'JSON'
       },
-      results: result.value.toDTO()
+      results: result.value.result.toDTO()
     };
 
     res.setHeader('Content-Type', 'application/json');
-    res.setHeader('Content-Disposition', 'attachment; filename="tazkiyah-results.json"');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="tazkiyah-results-attempt-${result.value.result.attemptNumber}.json"`
+    );
     res.json(exportData);
 
   } catch (error) {
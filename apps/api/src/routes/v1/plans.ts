@@ -11,6 +11,8 @@ import {
   createRequestLogger
 } from '@/shared/errors';
 import { IPlanRepository } from '@/domain/repositories';
+import { IEventBus } from '@/domain/events/IEventBus';
+import { PlanCompletedEvent } from '@/domain/events/PlanEvents';
 import { UserId } from '@/domain/value-objects/UserId';
 import { PlanId } from '@/domain/value-objects/PlanId';
 import { Plan } from '@/domain/entities/Plan';
@@ -348,6 +350,11 @@ router.patch('/:id/status', authMiddleware, validateBody(UpdatePlanStatusSchema)
       return;
     }
 
+    // Archiving an active plan completes it
+    if (status === 'archived' && planResult.value.status === 'active') {
+      await container.resolve<IEventBus>('IEventBus').publish(new PlanCompletedEvent(id, userId));
+    }
+
     requestLogger.info('Plan status updated successfully', { planId: id, status });
     const successResponse = createSuccessResponse({
       plan: result.value.toDTO(),
@@ -494,6 +501,11 @@ router.post('/:id/deactivate', authMiddleware, async (req, res): Promise<void> =
       return;
     }
 
+    // Archiving an active plan completes it
+    if (planResult.value.status === 'active') {
+      await container.resolve<IEventBus>('IEventBus').publish(new PlanCompletedEvent(id, userId));
+    }
+
     requestLogger.info('Plan deactivated successfully', { planId: id });
     const successResponse = createSuccessResponse({
       plan: result.value.toDTO(),
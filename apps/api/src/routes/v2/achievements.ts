@@ -0,0 +1,68 @@
+import express from 'express';
+import { container } from 'tsyringe';
+import { authMiddleware } from '@/infrastructure/auth/middleware';
+import { Result } from '@/shared/result';
+import { GetAchievementsUseCase } from '@/application/usecases/achievements';
+import {
+  ErrorCode,
+  createAppError,
+  handleExpressError,
+  getExpressTraceId,
+  createSuccessResponse,
+  createRequestLogger
+} from '@/shared/errors';
+
+const router = express.Router();
+
+/**
+ * @openapi
+ * /v2/achievements:
+ *   get:
+ *     summary: List achievements
+ *     description: All achievements with the current user's progress and whether each is unlocked
+ *     tags: [Achievements]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Achievements retrieved successfully
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/',
+  authMiddleware,
+  async (req: any, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+    const userId = req.userId;
+    const requestLogger = createRequestLogger(traceId, userId);
+
+    try {
+      const getAchievementsUseCase = container.resolve<GetAchievementsUseCase>('GetAchievementsUseCase');
+      const result = await getAchievementsUseCase.execute({ userId });
+
+      if (Result.isError(result)) {
+        const appError = createAppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve achievements');
+        const { response, status, headers } = handleExpressError(appError, traceId);
+
+        requestLogger.warn('Achievements retrieval failed', { error: result.error.message });
+
+        res.set(headers).status(status).json(response);
+        return;
+      }
+
+      requestLogger.info('Achievements retrieved successfully', {
+        unlocked: result.value.filter(achievement => achievement.unlocked).length
+      });
+
+      const successResponse = createSuccessResponse({ achievements: result.value }, traceId);
+      res.json(successResponse);
+    } catch (error) {
+      requestLogger.error('Error getting achievements', {}, error instanceof Error ? error : new Error(String(error)));
+
+      const { response, status, headers } = handleExpressError(error, traceId, 'Failed to retrieve achievements');
+      res.set(headers).status(status).json(response);
+    }
+  }
+);
+
+export default router;
@@ -11,6 +11,7 @@ import {
   createRequestLogger
 } from '@/shared/errors';
 import { SuggestPlanUseCase } from '@/application/usecases/SuggestPlanUseCase';
+import { AnalyzeProgressUseCase } from '@/application/usecases/progress';
 import { Result } from '@/shared/result';
 import { ValidationError } from '@/shared/errors';
 import { z } from 'zod';
@@ -42,9 +43,6 @@ const ExplainSchema = z.object({
 
 const AnalyzeProgressSchema = z.object({
   planId: z.string().min(1, 'Plan ID is required'),
-  completedHabits: z.array(z.string()).optional().default([]),
-  challenges: z.array(z.string()).optional().default([]),
-  reflections: z.string().optional().default(''),
   timeframe: z.enum(['7d', '30d', '90d', '1y']).optional().default('30d')
 });
 
@@ -247,7 +245,21 @@ router.post('/suggest-plan', authMiddleware, validateBody(SuggestPlanSchema), as
  *                 description: Additional context for the explanation
  *     responses:
  *       200:
- *         description: Explanation provided successfully
+ *         description: |
+ *           Explanation provided successfully. citations lists the content library
+ *           snippets backing the guidance (render ayah with AyahQuote, dua with DuaCard);
+ *           unverifiedRefs lists references that matched no snippet and were dropped.
+ *         content:
+ *           application/json:
+ *             example:
+ *               concept: "anger"
+ *               guidance: "Anger is from Shaytan. Cool it with wudu and remembrance."
+ *               citations:
+ *                 - snippetId: "6f1c2a9e-3b1d-4f5e-9a7c-2d8b4e6f0a11"
+ *                   type: "ayah"
+ *                   ref: "Surah Ali Imran 3:134"
+ *                   text: "And those who restrain anger and pardon people - and Allah loves those who do good."
+ *               unverifiedRefs: ["Hadith: Prophetic guidance on anger"]
  *       400:
  *         description: Validation error
  *       401:
@@ -277,6 +289,9 @@ router.post('/explain', authMiddleware, validateBody(ExplainSchema), async (req,
       duas: (response as any).duas || [],
       recommendations: (response as any).recommendations || [],
       relatedConcepts: (response as any).relatedConcepts || [],
+      // Library snippets the guidance cites; references that could not be verified are dropped
+      citations: response.citations || [],
+      unverifiedRefs: response.unverifiedRefs || [],
       metadata: {
         responseTime: new Date().toISOString(),
         version: '2.0',
@@ -303,7 +318,11 @@ router.post('/explain', authMiddleware, validateBody(ExplainSchema), async (req,
  * /api/v2/ai/analyze-progress:
  *   post:
  *     summary: Analyze spiritual progress and provide feedback (v2)
- *     description: Analyze user's spiritual development progress and provide personalized insights
+ *     description: |
+ *       Computes the user's progress over the timeframe from their own data: completion rates per habit
+ *       and per time of day, consistency and its trend against the previous period, streak breaks,
+ *       mood from check-ins and dhikr volume. Recommendations come from the rules engine and target
+ *       the weakest areas. Habit metrics cover the plan's habits; mood and dhikr cover the whole account.
  *     tags: [AI v2]
  *     security:
  *       - bearerAuth: []
@@ -319,16 +338,6 @@ router.post('/explain', authMiddleware, validateBody(ExplainSchema), async (req,
  *               planId:
  *                 type: string
  *                 description: ID of the plan to analyze
- *               completedHabits:
- *                 type: array
- *                 items:
- *                   type: string
- *               challenges:
- *                 type: array
- *                 items:
- *                   type: string
- *               reflections:
- *                 type: string
  *               timeframe:
  *                 type: string
  *                 enum: [7d, 30d, 90d, 1y]
@@ -336,6 +345,33 @@ router.post('/explain', authMiddleware, validateBody(ExplainSchema), async (req,
  *     responses:
  *       200:
  *         description: Progress analysis completed
+ *         content:
+ *           application/json:
+ *             example:
+ *               analysis:
+ *                 progress:
+ *                   overallScore: 64
+ *                   completionRate: 68
+ *                   consistencyScore: 57
+ *                   improvementAreas: [streak_breaks, dhikr]
+ *                   strengths: ['Consistent with "Pray Fajr on time" (93%)']
+ *                 metrics:
+ *                   period: { from: "2024-02-11", to: "2024-03-11", days: 30 }
+ *                   timeOfDay:
+ *                     peak: morning
+ *                   trend: { previousCompletionRate: 55, change: 13, direction: improving }
+ *                 weakestAreas:
+ *                   - { area: streak_breaks, severity: 0.6, habits: ["Read one page of Quran"] }
+ *                 insights: ["Most of your completions happen in the morning (71%)"]
+ *                 recommendations:
+ *                   - area: streak_breaks
+ *                     action: 'Turn on reminders for "Read one page of Quran" and complete it the same day you miss it next'
+ *                     guidance: "Missing once is human; returning quickly is tawbah in action."
+ *                 nextGoals: ['Extend your "Pray Fajr on time" streak from 12 to 30']
+ *               metadata:
+ *                 timeframe: 30d
+ *                 dataPoints: 84
+ *                 version: "2.0"
  *       400:
  *         description: Validation error
  *       401:
@@ -345,60 +381,53 @@ router.post('/explain', authMiddleware, validateBody(ExplainSchema), async (req,
  */
 router.post('/analyze-progress', authMiddleware, validateBody(AnalyzeProgressSchema), async (req, res): Promise<void> => {
   const traceId = getExpressTraceId(req);
-  const requestLogger = createRequestLogger(traceId, (req as any).userId);
+  const userId = (req as any).userId;
+  const requestLogger = createRequestLogger(traceId, userId);
 
   try {
-      const {
-          planId,
-      completedHabits,
-      challenges,
-      reflections,
-      timeframe
-    } = req.body;
-
-    // TODO: Implement progress analysis logic
-    // This would involve:
-    // 1. Fetching plan data
-    // 2. Analyzing completion patterns
-    // 3. Identifying trends and insights
-    // 4. Providing personalized recommendations
-
-    const analysis = {
-      progress: {
-        overallScore: 75, // Calculated based on habits completion
-        consistencyScore: 80,
-        improvementAreas: challenges,
-        strengths: ['Regular prayer times', 'Consistent dhikr']
-      },
-      insights: [
-        'Your consistency has improved by 15% this month',
-        'Morning habits show better completion rates',
-        'Consider adjusting evening routine for better success'
-      ],
-      recommendations: [
-        'Focus on one challenging habit at a time',
-        'Set reminders for difficult time slots',
-        'Celebrate small wins to maintain motivation'
-      ],
-      nextGoals: [
-        'Maintain current consistency for 2 weeks',
-        'Add one new micro-habit gradually',
-        'Increase dhikr frequency during commute'
-      ]
-    };
+    const { planId, timeframe } = req.body;
+
+    const useCase = container.resolve<AnalyzeProgressUseCase>('AnalyzeProgressUseCase');
+    const result = await useCase.execute({ userId, planId, timeframe });
+
+    if (Result.isError(result)) {
+      requestLogger.warn('Progress analysis failed', { error: result.error.message, planId, timeframe });
+      const { response, status, headers } = handleExpressError(
+        createAppError(ErrorCode.SERVER_ERROR, 'Failed to analyze progress', result.error),
+        traceId
+      );
+      res.status(status).set(headers).json(response);
+      return;
+    }
+
+    const report = result.value;
+    const { metrics } = report;
 
     // V2 response format
     const responseData = {
-      analysis,
+      analysis: {
+        progress: {
+          overallScore: metrics.overallScore,
+          completionRate: metrics.completionRate,
+          consistencyScore: metrics.consistencyScore,
+          improvementAreas: report.weakAreas.map(area => area.area),
+          strengths: report.strengths
+        },
+        metrics,
+        weakestAreas: report.weakAreas,
+        insights: report.insights,
+        recommendations: report.recommendations,
+        nextGoals: report.nextGoals
+      },
       metadata: {
         analyzedAt: new Date().toISOString(),
         timeframe,
-        dataPoints: completedHabits.length + challenges.length,
+        dataPoints: report.dataPoints,
         version: '2.0'
       }
     };
 
-    requestLogger.info('Progress analysis completed successfully', { planId, timeframe, dataPoints: completedHabits.length + challenges.length });
+    requestLogger.info('Progress analysis completed successfully', { planId, timeframe, dataPoints: report.dataPoints });
     const successResponse = createSuccessResponse(responseData, traceId);
     res.json(successResponse);
   } catch (error) {
@@ -456,7 +485,7 @@ router.get('/capabilities', authMiddleware, async (req, res): Promise<void> => {
         progressAnalysis: {
           available: true,
           timeframes: ['7d', '30d', '90d', '1y'],
-          metrics: ['consistency', 'improvement', 'challenges']
+          metrics: ['completion', 'consistency', 'timeOfDay', 'trend', 'streakBreaks', 'mood', 'dhikr']
         }
       },
       provider: {
@@ -0,0 +1,112 @@
+import express from 'express';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { authMiddleware } from '@/infrastructure/auth/middleware';
+import { validateQuery } from '@/infrastructure/middleware/validation';
+import { Result } from '@/shared/result';
+import { GetHijriCalendarUseCase } from '@/application/usecases/calendar';
+import {
+  ErrorCode,
+  createAppError,
+  handleExpressError,
+  getExpressTraceId,
+  createSuccessResponse,
+  createRequestLogger,
+  ValidationError
+} from '@/shared/errors';
+
+const router = express.Router();
+
+// Validation schemas
+const calendarDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+  .refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
+const hijriCalendarQuerySchema = z.object({
+  from: calendarDateSchema.optional(),
+  to: calendarDateSchema.optional()
+});
+
+/**
+ * @openapi
+ * /v2/calendar/hijri:
+ *   get:
+ *     summary: Hijri calendar
+ *     description: |
+ *       Umm al-Qura Hijri dates for each day from `from` to `to` (inclusive, at most 366 days),
+ *       shifted by the user's hijriAdjustment preference and with month names in their language.
+ *       Defaults to the 30 days starting today in the user's timezone.
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: from
+ *         in: query
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - name: to
+ *         in: query
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Hijri calendar retrieved successfully
+ *         content:
+ *           application/json:
+ *             example:
+ *               data:
+ *                 today:
+ *                   date: "2024-03-11"
+ *                   hijri: { year: 1445, month: 9, day: 1, monthName: "Ramadan" }
+ *                   formatted: "1 Ramadan 1445 AH"
+ *                   isWhiteDay: false
+ *                 days: []
+ *                 adjustment: 0
+ *                 locale: "en"
+ *       400:
+ *         description: Invalid or too long date range
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/hijri',
+  authMiddleware,
+  validateQuery(hijriCalendarQuerySchema),
+  async (req: any, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+    const userId = req.userId;
+    const requestLogger = createRequestLogger(traceId, userId);
+
+    try {
+      const { from, to } = req.query;
+
+      const getHijriCalendarUseCase = container.resolve<GetHijriCalendarUseCase>('GetHijriCalendarUseCase');
+      const result = await getHijriCalendarUseCase.execute({ userId, from, to });
+
+      if (Result.isError(result)) {
+        const appError = result.error instanceof ValidationError
+          ? createAppError(ErrorCode.VALIDATION_ERROR, result.error.message)
+          : createAppError(ErrorCode.SERVER_ERROR, 'Failed to retrieve Hijri calendar', result.error);
+        const { response, status, headers } = handleExpressError(appError, traceId);
+
+        requestLogger.warn('Hijri calendar retrieval failed', { error: result.error.message, from, to });
+
+        res.set(headers).status(status).json(response);
+        return;
+      }
+
+      const successResponse = createSuccessResponse(result.value, traceId);
+      res.json(successResponse);
+    } catch (error) {
+      requestLogger.error('Error getting Hijri calendar', {
+        query: req.query
+      }, error instanceof Error ? error : new Error(String(error)));
+
+      const { response, status, headers } = handleExpressError(error, traceId, 'Failed to retrieve Hijri calendar');
+      res.set(headers).status(status).json(response);
+    }
+  }
+);
+
+export default router;
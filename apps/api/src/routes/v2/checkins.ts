@@ -2,10 +2,15 @@ import express from 'express';
 import { container } from 'tsyringe';
 import { authMiddleware } from '@/infrastructure/auth/middleware';
 import { validateRequest, validateQuery } from '@/infrastructure/middleware/validation';
-import { LogCheckinUseCase } from '@/application/usecases/LogCheckinUseCase';
+import { LogCheckinUseCase, inferCheckinSession } from '@/application/usecases/LogCheckinUseCase';
+import { GetGratitudeHistoryUseCase } from '@/application/usecases/GetGratitudeHistoryUseCase';
+import { GetEveningReviewUseCase, EveningReview } from '@/application/usecases/GetEveningReviewUseCase';
+import { Checkin, CheckinSession, CHECKIN_PROMPTS, CHECKIN_SESSIONS } from '@/domain/entities/Checkin';
 import { ICheckinRepository } from '@/domain/repositories/ICheckinRepository';
+import { IProfileRepository } from '@/domain/repositories/IProfileRepository';
 import { UserId } from '@/domain/value-objects/UserId';
 import { Result } from '@/shared/result';
+import { DEFAULT_TIMEZONE, addDays, toLocalDateString } from '@/shared/timezone';
 import { z } from 'zod';
 import {
   ErrorCode,
@@ -19,13 +24,29 @@ import {
 const router = express.Router();
 
 // Validation schemas for v2
+const EVENING_FIELDS = ['reflection', 'gratitude', 'improvements'] as const;
+
 const createCheckinSchemaV2 = z.object({
+  session: z.enum(CHECKIN_SESSIONS).optional(),
   mood: z.number().min(-2).max(2).optional(),
   intention: z.string().max(500).optional(),
   reflection: z.string().max(1000).optional(),
   gratitude: z.array(z.string().max(200)).max(3).optional(),
   improvements: z.string().max(500).optional(),
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional()
+}).superRefine((body, ctx) => {
+  // The morning sets the intention, the evening reflects on it
+  const session = body.session ?? inferCheckinSession(body);
+  if (session === 'evening' && body.intention !== undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['intention'], message: 'intention belongs to the morning check-in' });
+  }
+  if (session === 'morning') {
+    for (const field of EVENING_FIELDS) {
+      if (body[field] !== undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `${field} belongs to the evening check-in` });
+      }
+    }
+  }
 });
 
 const getCheckinsSchema = z.object({
@@ -35,12 +56,21 @@ const getCheckinsSchema = z.object({
   offset: z.coerce.number().min(0).default(0)
 });
 
+const gratitudeHistorySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  themes: z.coerce.number().min(1).max(20).default(5)
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: 'to must be on or after from',
+  path: ['to']
+});
+
 /**
  * @openapi
  * /v2/checkins:
  *   post:
- *     summary: Create or update daily muhasabah (check-in)
- *     description: Submit daily spiritual reflection and self-accountability. Creates new entry or updates existing for the day.
+ *     summary: Create or update a morning or evening check-in
+ *     description: The morning check-in sets the day's intention; the evening muhasabah records the reflection, gratitude and improvements. Creates the session's entry for today or updates it. Without a session, a body with only an intention (and mood) is a morning check-in and anything else is an evening one.
  *     tags: [Check-ins]
  *     security:
  *       - bearerAuth: []
@@ -51,6 +81,11 @@ const getCheckinsSchema = z.object({
  *           schema:
  *             type: object
  *             properties:
+ *               session:
+ *                 type: string
+ *                 enum: [morning, evening]
+ *                 description: Which check-in of the day this is
+ *                 example: "evening"
  *               mood:
  *                 type: integer
  *                 minimum: -2
@@ -60,12 +95,12 @@ const getCheckinsSchema = z.object({
  *               intention:
  *                 type: string
  *                 maxLength: 500
- *                 description: Daily spiritual intention
+ *                 description: Daily spiritual intention (morning only)
  *                 example: "I intend to remember Allah more throughout the day"
  *               reflection:
  *                 type: string
  *                 maxLength: 1000
- *                 description: Evening reflection on spiritual progress
+ *                 description: Evening reflection on spiritual progress (evening only)
  *                 example: "Today I was more patient with my family and made extra dhikr"
  *               gratitude:
  *                 type: array
@@ -73,12 +108,12 @@ const getCheckinsSchema = z.object({
  *                   type: string
  *                   maxLength: 200
  *                 maxItems: 3
- *                 description: Three things to be grateful for
+ *                 description: Three things to be grateful for (evening only)
  *                 example: ["Good health", "Family support", "Guidance from Allah"]
  *               improvements:
  *                 type: string
  *                 maxLength: 500
- *                 description: Areas for improvement tomorrow
+ *                 description: Areas for improvement tomorrow (evening only)
  *                 example: "Be more consistent with prayer times"
  *               date:
  *                 type: string
@@ -86,11 +121,17 @@ const getCheckinsSchema = z.object({
  *                 description: Date for the check-in (defaults to today)
  *                 example: "2024-01-15"
  *           examples:
- *             complete_checkin:
- *               summary: Complete daily muhasabah
+ *             morning_checkin:
+ *               summary: Morning intention
  *               value:
+ *                 session: "morning"
  *                 mood: 1
  *                 intention: "I intend to be more patient today"
+ *             evening_checkin:
+ *               summary: Evening muhasabah
+ *               value:
+ *                 session: "evening"
+ *                 mood: 1
  *                 reflection: "Alhamdulillah, I was able to control my temper better"
  *                 gratitude: ["Health", "Family", "Islam"]
  *                 improvements: "Wake up earlier for Fajr"
@@ -105,17 +146,10 @@ const getCheckinsSchema = z.object({
  *                 data:
  *                   $ref: '#/components/schemas/CheckinDTO'
  *                 streak:
- *                   type: object
- *                   properties:
- *                     current:
- *                       type: integer
- *                       description: Current check-in streak
- *                     longest:
- *                       type: integer
- *                       description: Longest check-in streak
+ *                   $ref: '#/components/schemas/CheckinStreak'
  *                 isUpdate:
  *                   type: boolean
- *                   description: Whether this was an update to existing check-in
+ *                   description: Whether this updated the session's existing check-in for today
  *       400:
  *         $ref: '#/components/responses/ValidationError'
  *       401:
@@ -133,8 +167,10 @@ router.post('/',
 
     try {
       const { mood, intention, reflection, gratitude, improvements, date } = req.body;
+      const session: CheckinSession = req.body.session ?? inferCheckinSession(req.body);
 
       requestLogger.info('Creating/updating daily check-in', {
+        session,
         hasIntention: !!intention,
         hasReflection: !!reflection,
         hasGratitude: !!gratitude?.length,
@@ -143,30 +179,19 @@ router.post('/',
         date
       });
 
-      // Combine gratitude and improvements into reflection for storage compatibility
-      let combinedReflection = reflection || '';
-
-      if (gratitude && gratitude.length > 0) {
-        const gratitudeText = gratitude
-          .filter((item: string) => item.trim())
-          .map((item: string, index: number) => `${index + 1}. ${item}`)
-          .join('\n');
-
-        if (gratitudeText) {
-          combinedReflection += combinedReflection ? '\n\nGratitude:\n' + gratitudeText : 'Gratitude:\n' + gratitudeText;
-        }
-      }
-
-      if (improvements && improvements.trim()) {
-        combinedReflection += combinedReflection ? '\n\nImprovements:\n' + improvements : 'Improvements:\n' + improvements;
-      }
+      // Check if this is an update (the session's checkin already exists for the day)
+      const targetDate = date || toLocalDateString(new Date(), await getUserTimezone(userId, traceId));
+      const isUpdate = await checkIfCheckinExistsForDate(userId, targetDate, session, traceId);
 
       const logCheckinUseCase = container.resolve(LogCheckinUseCase);
       const result = await logCheckinUseCase.execute({
         userId,
+        session,
         mood,
         intention,
-        reflection: combinedReflection || undefined
+        reflection,
+        gratitude,
+        improvements
       });
 
       if (Result.isError(result)) {
@@ -184,10 +209,6 @@ router.post('/',
       // Calculate streak information
       const streakInfo = await calculateCheckinStreak(userId, traceId);
 
-      // Check if this was an update (check if checkin already existed for today)
-      const targetDate = date || new Date().toISOString().split('T')[0];
-      const isUpdate = await checkIfCheckinExistsForDate(userId, targetDate, traceId);
-
       const responseData = {
         data: result.value.toDTO(),
         streak: streakInfo,
@@ -271,12 +292,7 @@ router.post('/',
  *                     offset:
  *                       type: integer
  *                 streak:
- *                   type: object
- *                   properties:
- *                     current:
- *                       type: integer
- *                     longest:
- *                       type: integer
+ *                   $ref: '#/components/schemas/CheckinStreak'
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  *       500:
@@ -336,33 +352,90 @@ router.get('/',
  * @openapi
  * /v2/checkins/today:
  *   get:
- *     summary: Get today's check-in
- *     description: Retrieve the check-in for today, if it exists
+ *     summary: Get today's check-ins
+ *     description: Today's morning and evening check-ins, the prompts for each session, and the evening review of the morning intention and the day's habits
  *     tags: [Check-ins]
  *     security:
  *       - bearerAuth: []
  *     responses:
  *       200:
- *         description: Today's check-in retrieved successfully
+ *         description: Today's check-ins retrieved successfully
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
  *                 data:
- *                   oneOf:
- *                     - $ref: '#/components/schemas/CheckinDTO'
- *                     - type: null
+ *                   type: object
+ *                   properties:
+ *                     morning:
+ *                       oneOf:
+ *                         - $ref: '#/components/schemas/CheckinDTO'
+ *                         - type: null
+ *                     evening:
+ *                       oneOf:
+ *                         - $ref: '#/components/schemas/CheckinDTO'
+ *                         - type: null
  *                 hasCheckedIn:
  *                   type: boolean
- *                   description: Whether user has checked in today
- *                 streak:
+ *                   description: Whether user has checked in for either session today
+ *                 sessions:
  *                   type: object
+ *                   description: Which sessions are done today
  *                   properties:
- *                     current:
- *                       type: integer
- *                     longest:
- *                       type: integer
+ *                     morning:
+ *                       type: boolean
+ *                     evening:
+ *                       type: boolean
+ *                 prompts:
+ *                   type: object
+ *                   properties:
+ *                     morning:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     evening:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       description: Starts with prompts about the morning intention and missed habits
+ *                 review:
+ *                   type: object
+ *                   nullable: true
+ *                   description: What the evening muhasabah looks back on
+ *                   properties:
+ *                     morning:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         intention:
+ *                           type: string
+ *                           nullable: true
+ *                         mood:
+ *                           type: integer
+ *                           nullable: true
+ *                     habits:
+ *                       type: object
+ *                       properties:
+ *                         scheduled:
+ *                           type: integer
+ *                         completed:
+ *                           type: integer
+ *                         items:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               habitId:
+ *                                 type: string
+ *                               title:
+ *                                 type: string
+ *                               scheduled:
+ *                                 type: boolean
+ *                               completed:
+ *                                 type: boolean
+ *                 streak:
+ *                   $ref: '#/components/schemas/CheckinStreak'
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  *       500:
@@ -393,16 +466,31 @@ router.get('/today',
         return;
       }
 
+      const { morning, evening } = result.value;
       const streakInfo = await calculateCheckinStreak(userId, traceId);
+      const review = await getEveningReview(userId, traceId);
 
       const responseData = {
-        data: result.value ? result.value.toDTO() : null,
-        hasCheckedIn: !!result.value,
+        data: {
+          morning: morning ? morning.toDTO() : null,
+          evening: evening ? evening.toDTO() : null
+        },
+        hasCheckedIn: !!(morning || evening),
+        sessions: {
+          morning: !!morning,
+          evening: !!evening
+        },
+        prompts: {
+          morning: CHECKIN_PROMPTS.morning,
+          evening: review?.prompts ?? CHECKIN_PROMPTS.evening
+        },
+        review,
         streak: streakInfo
       };
 
       requestLogger.info('Today\'s check-in retrieved successfully', {
-        hasCheckedIn: !!result.value,
+        hasMorning: !!morning,
+        hasEvening: !!evening,
         currentStreak: streakInfo.current,
         longestStreak: streakInfo.longest
       });
@@ -422,7 +510,7 @@ router.get('/today',
  * /v2/checkins/streak:
  *   get:
  *     summary: Get check-in streak information
- *     description: Get current and longest check-in streaks
+ *     description: Get current and longest check-in streaks. A day counts towards the overall streak when either session was done; the morning and evening streaks count their own session.
  *     tags: [Check-ins]
  *     security:
  *       - bearerAuth: []
@@ -440,13 +528,17 @@ router.get('/today',
  *                 longest:
  *                   type: integer
  *                   description: Longest streak achieved
+ *                 morning:
+ *                   $ref: '#/components/schemas/SessionStreak'
+ *                 evening:
+ *                   $ref: '#/components/schemas/SessionStreak'
  *                 lastCheckinDate:
  *                   type: string
  *                   format: date
  *                   description: Date of last check-in
  *                 totalCheckins:
  *                   type: integer
- *                   description: Total number of check-ins
+ *                   description: Total number of check-ins, counting each session
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  *       500:
@@ -489,93 +581,255 @@ router.get('/streak',
   }
 );
 
+/**
+ * @openapi
+ * /v2/checkins/gratitude:
+ *   get:
+ *     summary: Get gratitude history
+ *     description: Gratitude items from check-ins in a date range, newest first, with the themes that come up most often. Defaults to the current month in the user's timezone.
+ *     tags: [Check-ins]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: from
+ *         in: query
+ *         description: Start date (YYYY-MM-DD), defaults to the first of the current month
+ *         schema:
+ *           type: string
+ *           format: date
+ *         example: "2024-01-01"
+ *       - name: to
+ *         in: query
+ *         description: End date inclusive (YYYY-MM-DD), defaults to today
+ *         schema:
+ *           type: string
+ *           format: date
+ *         example: "2024-01-31"
+ *       - name: themes
+ *         in: query
+ *         description: Maximum number of themes to return
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 20
+ *           default: 5
+ *     responses:
+ *       200:
+ *         description: Gratitude history retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 from:
+ *                   type: string
+ *                   format: date
+ *                 to:
+ *                   type: string
+ *                   format: date
+ *                 entries:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       date:
+ *                         type: string
+ *                         format: date
+ *                       items:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                 themes:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       theme:
+ *                         type: string
+ *                         example: "family"
+ *                       count:
+ *                         type: integer
+ *                         description: Gratitude items that mention the theme
+ *                       lastMentioned:
+ *                         type: string
+ *                         format: date
+ *                 totalItems:
+ *                   type: integer
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get('/gratitude',
+  authMiddleware,
+  validateQuery(gratitudeHistorySchema),
+  async (req: any, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+    const userId = req.userId;
+    const requestLogger = createRequestLogger(traceId, userId);
+
+    try {
+      const { from, to, themes } = req.query;
+
+      requestLogger.info('Getting gratitude history', { from, to, themes });
+
+      const gratitudeHistoryUseCase = container.resolve(GetGratitudeHistoryUseCase);
+      const result = await gratitudeHistoryUseCase.execute({ userId, from, to, themeLimit: themes });
+
+      if (Result.isError(result)) {
+        const error = createAppError(
+          ErrorCode.SERVER_ERROR,
+          'Failed to retrieve gratitude history',
+          (result as any).error
+        );
+        requestLogger.error('Error getting gratitude history', { result: result }, (result as any).error);
+        const { response, status, headers } = handleExpressError(error, traceId);
+        res.status(status).set(headers).json(response);
+        return;
+      }
+
+      requestLogger.info('Gratitude history retrieved successfully', {
+        entries: result.value.entries.length,
+        totalItems: result.value.totalItems
+      });
+
+      const successResponse = createSuccessResponse(result.value, traceId);
+      res.set('X-Trace-Id', traceId).json(successResponse);
+    } catch (error) {
+      requestLogger.error('Unexpected error in GET /v2/checkins/gratitude', {}, error as Error);
+      const { response, status, headers } = handleExpressError(error, traceId, 'Failed to retrieve gratitude history');
+      res.status(status).set(headers).json(response);
+    }
+  }
+);
+
 // Helper functions
 
-async function calculateCheckinStreak(userId: string, traceId?: string): Promise<{ current: number; longest: number }> {
+interface SessionStreak {
+  current: number;
+  longest: number;
+}
+
+interface CheckinStreak extends SessionStreak {
+  morning: SessionStreak;
+  evening: SessionStreak;
+}
+
+const EMPTY_STREAK: CheckinStreak = {
+  current: 0,
+  longest: 0,
+  morning: { current: 0, longest: 0 },
+  evening: { current: 0, longest: 0 }
+};
+
+async function calculateCheckinStreak(userId: string, traceId?: string): Promise<CheckinStreak> {
   const requestLogger = createRequestLogger(traceId || 'no-trace', userId);
   try {
     const checkinRepo = container.resolve<ICheckinRepository>('ICheckinRepository');
     const result = await checkinRepo.findAllByUser(new UserId(userId));
 
     if (!result.ok || result.value.length === 0) {
-      return { current: 0, longest: 0 };
+      return EMPTY_STREAK;
     }
 
-    const checkins = result.value;
+    const today = toLocalDateString(new Date(), await getUserTimezone(userId, traceId));
+    const datesOf = (checkins: Checkin[]) => checkins.map(checkin => checkin.date.toISOString().split('T')[0]);
 
-    // Sort by date descending
-    const sortedCheckins = checkins.sort((a, b) =>
-      new Date(b.date).getTime() - new Date(a.date).getTime()
-    );
+    // A day counts towards the overall streak when either session was done
+    return {
+      ...calculateStreak(datesOf(result.value), today),
+      morning: calculateStreak(datesOf(result.value.filter(checkin => checkin.session === 'morning')), today),
+      evening: calculateStreak(datesOf(result.value.filter(checkin => checkin.session === 'evening')), today)
+    };
+  } catch (error) {
+    requestLogger.error('Error calculating check-in streak', {}, error as Error);
+    return EMPTY_STREAK;
+  }
+}
 
-    // Calculate current streak (from today backwards)
-    let currentStreak = 0;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+function calculateStreak(dates: string[], today: string): SessionStreak {
+  // Check-in dates are calendar days (YYYY-MM-DD), compared as strings
+  const checkinDates = [...new Set(dates)];
 
-    let checkDate = new Date(today);
-    for (const checkin of sortedCheckins) {
-      const checkinDate = new Date(checkin.date);
-      checkinDate.setHours(0, 0, 0, 0);
+  // Sort by date descending
+  const sortedDates = [...checkinDates].sort().reverse();
 
-      if (checkinDate.getTime() === checkDate.getTime()) {
-        currentStreak++;
-        checkDate.setDate(checkDate.getDate() - 1);
-      } else if (checkinDate.getTime() < checkDate.getTime()) {
-        break;
-      }
-    }
+  // Calculate current streak (from the user's today backwards)
+  let currentStreak = 0;
+  let checkDate = today;
 
-    // Calculate longest streak
-    let longestStreak = 0;
-    let tempStreak = 0;
-    let previousDate: Date | null = null;
-
-    // Sort by date ascending for longest streak calculation
-    const ascendingCheckins = [...checkins].sort((a, b) =>
-      new Date(a.date).getTime() - new Date(b.date).getTime()
-    );
-
-    for (const checkin of ascendingCheckins) {
-      const checkinDate = new Date(checkin.date);
-      checkinDate.setHours(0, 0, 0, 0);
-
-      if (previousDate === null) {
-        tempStreak = 1;
-      } else {
-        const dayDiff = Math.floor((checkinDate.getTime() - previousDate.getTime()) / (1000 * 60 * 60 * 24));
-
-        if (dayDiff === 1) {
-          tempStreak++;
-        } else {
-          longestStreak = Math.max(longestStreak, tempStreak);
-          tempStreak = 1;
-        }
-      }
+  for (const checkinDate of sortedDates) {
+    if (checkinDate === checkDate) {
+      currentStreak++;
+      checkDate = addDays(checkDate, -1);
+    } else if (checkinDate < checkDate) {
+      break;
+    }
+  }
 
-      previousDate = checkinDate;
+  // Calculate longest streak
+  let longestStreak = 0;
+  let tempStreak = 0;
+  let previousDate: string | null = null;
+
+  // Sort by date ascending for longest streak calculation
+  for (const checkinDate of [...checkinDates].sort()) {
+    if (previousDate !== null && addDays(previousDate, 1) === checkinDate) {
+      tempStreak++;
+    } else {
+      longestStreak = Math.max(longestStreak, tempStreak);
+      tempStreak = 1;
     }
 
-    longestStreak = Math.max(longestStreak, tempStreak);
+    previousDate = checkinDate;
+  }
+
+  longestStreak = Math.max(longestStreak, tempStreak);
 
-    return { current: currentStreak, longest: longestStreak };
+  return { current: currentStreak, longest: longestStreak };
+}
+
+async function getEveningReview(userId: string, traceId?: string): Promise<EveningReview | null> {
+  const requestLogger = createRequestLogger(traceId || 'no-trace', userId);
+  try {
+    const eveningReviewUseCase = container.resolve(GetEveningReviewUseCase);
+    const result = await eveningReviewUseCase.execute({ userId });
+
+    return result.ok ? result.value : null;
   } catch (error) {
-    requestLogger.error('Error calculating check-in streak', {}, error as Error);
-    return { current: 0, longest: 0 };
+    requestLogger.error('Error getting evening review', {}, error as Error);
+    return null;
   }
 }
 
-async function checkIfCheckinExistsForDate(userId: string, date: string, traceId?: string): Promise<boolean> {
+async function getUserTimezone(userId: string, traceId?: string): Promise<string> {
   const requestLogger = createRequestLogger(traceId || 'no-trace', userId);
   try {
-    const checkinRepo = container.resolve<ICheckinRepository>('ICheckinRepository');
-    const targetDate = new Date(date);
-    targetDate.setHours(0, 0, 0, 0);
+    const profileRepo = container.resolve<IProfileRepository>('IProfileRepository');
+    const result = await profileRepo.getTimezone(new UserId(userId));
 
-    const result = await checkinRepo.findByUserAndDate(new UserId(userId), targetDate);
+    return result.ok ? result.value : DEFAULT_TIMEZONE;
+  } catch (error) {
+    requestLogger.error('Error getting user timezone', {}, error as Error);
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+async function checkIfCheckinExistsForDate(
+  userId: string,
+  date: string,
+  session: CheckinSession,
+  traceId?: string
+): Promise<boolean> {
+  const requestLogger = createRequestLogger(traceId || 'no-trace', userId);
+  try {
+    const checkinRepo = container.resolve<ICheckinRepository>('ICheckinRepository');
+    const result = await checkinRepo.findByUserAndDate(new UserId(userId), new Date(date), session);
     return result.ok && result.value !== null;
   } catch (error) {
-    requestLogger.error('Error checking if checkin exists for date', { date }, error as Error);
+    requestLogger.error('Error checking if checkin exists for date', { date, session }, error as Error);
     return false;
   }
 }
@@ -0,0 +1,476 @@
+import express from 'express';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { authMiddleware } from '@/infrastructure/auth/middleware';
+import { validateRequest, validateQuery } from '@/infrastructure/middleware/validation';
+import { Result } from '@/shared/result';
+import { MIN_CIRCLE_SIZE, MAX_CIRCLE_SIZE } from '@/domain/entities/Circle';
+import { UserId } from '@/domain/value-objects/UserId';
+import {
+  CreateCircleUseCase,
+  GetCirclesUseCase,
+  GetCircleUseCase,
+  JoinCircleUseCase,
+  LeaveCircleUseCase,
+  UpdateCircleUseCase,
+  ArchiveCircleUseCase,
+  SendEncouragementUseCase,
+  GetEncouragementsUseCase
+} from '@/application/usecases/circles';
+import {
+  ErrorCode,
+  createAppError,
+  handleExpressError,
+  getExpressTraceId,
+  createSuccessResponse,
+  createRequestLogger,
+  NotFoundError,
+  AuthorizationError,
+  ValidationError
+} from '@/shared/errors';
+
+const router = express.Router();
+
+// Validation schemas
+const createCircleSchema = z.object({
+  name: z.string().trim().min(3).max(100),
+  description: z.string().max(500).nullable().optional(),
+  maxMembers: z.number().int().min(MIN_CIRCLE_SIZE).max(MAX_CIRCLE_SIZE).optional(),
+  isAnonymous: z.boolean().optional(),
+  sharedGoal: z.string().max(200).nullable().optional()
+});
+
+const updateCircleSchema = z.object({
+  name: z.string().trim().min(3).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  sharedGoal: z.string().max(200).nullable().optional()
+});
+
+const joinCircleSchema = z.object({
+  inviteCode: z.string().trim().min(1, 'Invite code is required').max(20)
+});
+
+const listCirclesQuerySchema = z.object({
+  includeArchived: z.enum(['true', 'false']).optional()
+});
+
+const sendEncouragementSchema = z.object({
+  message: z.string().trim().min(1, 'Message is required').max(300, 'Message must be 300 characters or less'),
+  type: z.enum(['dua', 'encouragement', 'reminder']),
+  toUserId: z.string().uuid().nullable().optional()
+});
+
+const encouragementsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+/**
+ * Sends the error response for a failed circle use case
+ */
+function sendCircleError(res: express.Response, error: Error, message: string, traceId: string): void {
+  let appError;
+  if (error instanceof NotFoundError) {
+    appError = createAppError(ErrorCode.NOT_FOUND, error.message);
+  } else if (error instanceof AuthorizationError) {
+    appError = createAppError(ErrorCode.FORBIDDEN, error.message);
+  } else if (error instanceof ValidationError) {
+    appError = createAppError(ErrorCode.VALIDATION_ERROR, error.message);
+  } else {
+    appError = createAppError(ErrorCode.SERVER_ERROR, message, error);
+  }
+
+  const { response, status, headers } = handleExpressError(appError, traceId);
+  res.set(headers).status(status).json(response);
+}
+
+/**
+ * @openapi
+ * /v2/circles:
+ *   get:
+ *     summary: List my circles
+ *     description: Circles the current user belongs to. Archived circles are left out unless includeArchived=true.
+ *     tags: [Circles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Circles retrieved successfully
+ */
+router.get('/',
+  authMiddleware,
+  validateQuery(listCirclesQuerySchema),
+  async (req: any, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+    const userId = req.userId;
+    const requestLogger = createRequestLogger(traceId, userId);
+
+    try {
+      const useCase = container.resolve<GetCirclesUseCase>('GetCirclesUseCase');
+      const result = await useCase.execute({ userId, includeArchived: req.query.includeArchived === 'true' });
+
+      if (Result.isError(result)) {
+        requestLogger.warn('Circles retrieval failed', { error: result.error.message });
+        sendCircleError(res, result.error, 'Failed to retrieve circles', traceId);
+        return;
+      }
+
+      const viewer = new UserId(userId);
+      res.json(createSuccessResponse({ circles: result.value.map(circle => circle.toDTO(viewer)) }, traceId));
+    } catch (error) {
+      requestLogger.error('Error listing circles', {}, error instanceof Error ? error : new Error(String(error)));
+      const { response, status, headers } = handleExpressError(error, traceId, 'Failed to retrieve circles');
+      res.set(headers).status(status).json(response);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v2/circles:
+ *   post:
+ *     summary: Create a circle
+ *     description: Creates a circle of 3-7 companions with the current user as its creator and returns its invite code.
+ *     tags: [Circles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Circle created
+ *       400:
+ *         description: Invalid circle details
+ */
+router.post('/',
+  authMiddleware,
+  validateRequest(createCircleSchema),
+  async (req: any, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+    const userId = req.userId;
+    const requestLogger = createRequestLogger(traceId, userId);
+
+    try {
+      const useCase = container.resolve<CreateCircleUseCase>('CreateCircleUseCase');
+      const result = await useCase.execute({ userId, ...req.body });
+
+      if (Result.isError(result)) {
+        requestLogger.warn('Circle creation failed', { error: result.error.message });
+        sendCircleError(res, result.error, 'Failed to create circle', traceId);
+        return;
+      }
+
+      requestLogger.info('Circle created', { circleId: result.value.id.toString() });
+      res.status(201).json(createSuccessResponse({ circle: result.value.toDTO(new UserId(userId)) }, traceId));
+    } catch (error) {
+      requestLogger.error('Error creating circle', {}, error instanceof Error ? error : new Error(String(error)));
+      const { response, status, headers } = handleExpressError(error, traceId, 'Failed to create circle');
+      res.set(headers).status(status).json(response);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v2/circles/join:
+ *   post:
+ *     summary: Join a circle by invite code
+ *     tags: [Circles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Joined the circle
+ *       400:
+ *         description: Circle is full or archived, or already a member
+ *       404:
+ *         description: No circle with this invite code
+ */
+router.post('/join',
+  authMiddleware,
+  validateRequest(joinCircleSchema),
+  async (req: any, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+    const userId = req.userId;
+    const requestLogger = createRequestLogger(traceId, userId);
+
+    try {
+      const useCase = container.resolve<JoinCircleUseCase>('JoinCircleUseCase');
+      const result = await useCase.execute({ userId, inviteCode: req.body.inviteCode });
+
+      if (Result.isError(result)) {
+        requestLogger.warn('Joining circle failed', { error: result.error.message });
+        sendCircleError(res, result.error, 'Failed to join circle', traceId);
+        return;
+      }
+
+      requestLogger.info('Joined circle', { circleId: result.value.id.toString() });
+      res.json(createSuccessResponse({ circle: result.value.toDTO(new UserId(userId)) }, traceId));
+    } catch (error) {
+      requestLogger.error('Error joining circle', {}, error instanceof Error ? error : new Error(String(error)));
+      const { response, status, headers } = handleExpressError(error, traceId, 'Failed to join circle');
+      res.set(headers).status(status).json(response);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v2/circles/{id}:
+ *   get:
+ *     summary: Get a circle with its aggregate progress
+ *     description: Progress is summed over the whole circle (today and the last seven days); individual members' streaks and counts are never returned.
+ *     tags: [Circles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Circle retrieved successfully
+ *       404:
+ *         description: Circle not found or not a member
+ */
+router.get('/:id',
+  authMiddleware,
+  async (req: any, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+    const userId = req.userId;
+    const requestLogger = createRequestLogger(traceId, userId);
+
+    try {
+      const useCase = container.resolve<GetCircleUseCase>('GetCircleUseCase');
+      const result = await useCase.execute({ userId, circleId: req.params.id });
+
+      if (Result.isError(result)) {
+        requestLogger.warn('Circle retrieval failed', { circleId: req.params.id, error: result.error.message });
+        sendCircleError(res, result.error, 'Failed to retrieve circle', traceId);
+        return;
+      }
+
+      res.json(createSuccessResponse({
+        circle: result.value.circle.toDTO(new UserId(userId)),
+        progress: result.value.progress
+      }, traceId));
+    } catch (error) {
+      requestLogger.error('Error getting circle', { circleId: req.params.id }, error instanceof Error ? error : new Error(String(error)));
+      const { response, status, headers } = handleExpressError(error, traceId, 'Failed to retrieve circle');
+      res.set(headers).status(status).json(response);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v2/circles/{id}:
+ *   patch:
+ *     summary: Update a circle's name, description or shared goal
+ *     tags: [Circles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Circle updated
+ *       403:
+ *         description: Only the creator can change the circle
+ */
+router.patch('/:id',
+  authMiddleware,
+  validateRequest(updateCircleSchema),
+  async (req: any, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+    const userId = req.userId;
+    const requestLogger = createRequestLogger(traceId, userId);
+
+    try {
+      const useCase = container.resolve<UpdateCircleUseCase>('UpdateCircleUseCase');
+      const result = await useCase.execute({ userId, circleId: req.params.id, ...req.body });
+
+      if (Result.isError(result)) {
+        requestLogger.warn('Circle update failed', { circleId: req.params.id, error: result.error.message });
+        sendCircleError(res, result.error, 'Failed to update circle', traceId);
+        return;
+      }
+
+      res.json(createSuccessResponse({ circle: result.value.toDTO(new UserId(userId)) }, traceId));
+    } catch (error) {
+      requestLogger.error('Error updating circle', { circleId: req.params.id }, error instanceof Error ? error : new Error(String(error)));
+      const { response, status, headers } = handleExpressError(error, traceId, 'Failed to update circle');
+      res.set(headers).status(status).json(response);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v2/circles/{id}/archive:
+ *   post:
+ *     summary: Archive a circle
+ *     tags: [Circles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Circle archived
+ *       403:
+ *         description: Only the creator can archive the circle
+ */
+router.post('/:id/archive',
+  authMiddleware,
+  async (req: any, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+    const userId = req.userId;
+    const requestLogger = createRequestLogger(traceId, userId);
+
+    try {
+      const useCase = container.resolve<ArchiveCircleUseCase>('ArchiveCircleUseCase');
+      const result = await useCase.execute({ userId, circleId: req.params.id });
+
+      if (Result.isError(result)) {
+        requestLogger.warn('Circle archive failed', { circleId: req.params.id, error: result.error.message });
+        sendCircleError(res, result.error, 'Failed to archive circle', traceId);
+        return;
+      }
+
+      requestLogger.info('Circle archived', { circleId: req.params.id });
+      res.json(createSuccessResponse({ circle: result.value.toDTO(new UserId(userId)) }, traceId));
+    } catch (error) {
+      requestLogger.error('Error archiving circle', { circleId: req.params.id }, error instanceof Error ? error : new Error(String(error)));
+      const { response, status, headers } = handleExpressError(error, traceId, 'Failed to archive circle');
+      res.set(headers).status(status).json(response);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v2/circles/{id}/leave:
+ *   post:
+ *     summary: Leave a circle
+ *     description: The creator can only leave once everyone else has; the last member out archives the circle.
+ *     tags: [Circles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Left the circle
+ */
+router.post('/:id/leave',
+  authMiddleware,
+  async (req: any, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+    const userId = req.userId;
+    const requestLogger = createRequestLogger(traceId, userId);
+
+    try {
+      const useCase = container.resolve<LeaveCircleUseCase>('LeaveCircleUseCase');
+      const result = await useCase.execute({ userId, circleId: req.params.id });
+
+      if (Result.isError(result)) {
+        requestLogger.warn('Leaving circle failed', { circleId: req.params.id, error: result.error.message });
+        sendCircleError(res, result.error, 'Failed to leave circle', traceId);
+        return;
+      }
+
+      requestLogger.info('Left circle', { circleId: req.params.id });
+      res.json(createSuccessResponse({ message: 'Left the circle' }, traceId));
+    } catch (error) {
+      requestLogger.error('Error leaving circle', { circleId: req.params.id }, error instanceof Error ? error : new Error(String(error)));
+      const { response, status, headers } = handleExpressError(error, traceId, 'Failed to leave circle');
+      res.set(headers).status(status).json(response);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v2/circles/{id}/encouragements:
+ *   get:
+ *     summary: List encouragements in a circle
+ *     description: Newest first. Senders and recipients are not named in anonymous circles.
+ *     tags: [Circles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Encouragements retrieved successfully
+ */
+router.get('/:id/encouragements',
+  authMiddleware,
+  validateQuery(encouragementsQuerySchema),
+  async (req: any, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+    const userId = req.userId;
+    const requestLogger = createRequestLogger(traceId, userId);
+
+    try {
+      const { limit, offset } = req.query as z.infer<typeof encouragementsQuerySchema>;
+
+      const useCase = container.resolve<GetEncouragementsUseCase>('GetEncouragementsUseCase');
+      const result = await useCase.execute({ userId, circleId: req.params.id, limit, offset });
+
+      if (Result.isError(result)) {
+        requestLogger.warn('Encouragements retrieval failed', { circleId: req.params.id, error: result.error.message });
+        sendCircleError(res, result.error, 'Failed to retrieve encouragements', traceId);
+        return;
+      }
+
+      const viewer = new UserId(userId);
+      const { circle, encouragements } = result.value;
+      res.json(createSuccessResponse({
+        encouragements: encouragements.map(encouragement => encouragement.toDTO(viewer, circle)),
+        pagination: { limit, offset }
+      }, traceId));
+    } catch (error) {
+      requestLogger.error('Error getting encouragements', { circleId: req.params.id }, error instanceof Error ? error : new Error(String(error)));
+      const { response, status, headers } = handleExpressError(error, traceId, 'Failed to retrieve encouragements');
+      res.set(headers).status(status).json(response);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v2/circles/{id}/encouragements:
+ *   post:
+ *     summary: Send an encouragement, dua or reminder
+ *     description: Sent to the whole circle, or to one member when toUserId is given.
+ *     tags: [Circles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Encouragement sent
+ */
+router.post('/:id/encouragements',
+  authMiddleware,
+  validateRequest(sendEncouragementSchema),
+  async (req: any, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+    const userId = req.userId;
+    const requestLogger = createRequestLogger(traceId, userId);
+
+    try {
+      const useCase = container.resolve<SendEncouragementUseCase>('SendEncouragementUseCase');
+      const result = await useCase.execute({ userId, circleId: req.params.id, ...req.body });
+
+      if (Result.isError(result)) {
+        requestLogger.warn('Sending encouragement failed', { circleId: req.params.id, error: result.error.message });
+        sendCircleError(res, result.error, 'Failed to send encouragement', traceId);
+        return;
+      }
+
+      requestLogger.info('Encouragement sent', { circleId: req.params.id, type: result.value.type });
+      res.status(201).json(createSuccessResponse({
+        encouragement: {
+          id: result.value.id,
+          message: result.value.message,
+          type: result.value.type,
+          createdAt: result.value.createdAt.toISOString()
+        }
+      }, traceId));
+    } catch (error) {
+      requestLogger.error('Error sending encouragement', { circleId: req.params.id }, error instanceof Error ? error : new Error(String(error)));
+      const { response, status, headers } = handleExpressError(error, traceId, 'Failed to send encouragement');
+      res.set(headers).status(status).json(response);
+    }
+  }
+);
+
+export default router;
@@ -197,7 +197,7 @@ router.post('/sessions',
  * /v2/dhikr/sessions:
  *   get:
  *     summary: Get user's dhikr sessions with filtering and pagination
- *     description: Retrieve dhikr sessions with optional filtering by type, date, and tags
+ *     description: Retrieve dhikr sessions with optional filtering by type, date, and tags. Each session carries the user's Hijri date for its day.
  *     tags: [Dhikr]
  *     security:
  *       - bearerAuth: []
@@ -339,7 +339,7 @@ router.get('/sessions',
         return;
       }
 
-      const { items, totalCount, page: currentPage, totalPages, hasNext, hasPrevious } = result.value;
+      const { items, totalCount, page: currentPage, totalPages, hasNext, hasPrevious, hijriDates } = result.value;
 
       requestLogger.info('Dhikr sessions retrieved successfully', {
         itemCount: items.length,
@@ -349,7 +349,7 @@ router.get('/sessions',
       });
 
       const responseData = {
-        data: items.map(session => session.toDTO()),
+        data: items.map(session => ({ ...session.toDTO(), hijriDate: hijriDates[session.date] })),
         pagination: {
           currentPage,
           itemsPerPage: items.length,
@@ -9,6 +9,7 @@ import {
   BulkCompleteHabitsCommand,
   DeleteHabitCommand
 } from '@/application/cqrs/commands/habit/HabitCommands';
+import { BulkCompletionResult } from '@/application/cqrs/commands/habit/HabitCommandHandlers';
 import {
   GetHabitByIdQuery,
   GetHabitsByUserQuery,
@@ -19,13 +20,15 @@ import {
 import { authMiddleware } from '@/infrastructure/auth/middleware';
 import { validateRequest } from '@/infrastructure/middleware/validation';
 import { z } from 'zod';
+import { Result } from '@/shared/result';
 import {
   ErrorCode,
   createAppError,
   handleExpressError,
   getExpressTraceId,
   createSuccessResponse,
-  createRequestLogger
+  createRequestLogger,
+  ValidationError
 } from '@/shared/errors';
 
 const router = express.Router();
@@ -40,16 +43,41 @@ const createHabitSchema = z.object({
   })
 });
 
+// Calendar day in the user's timezone, or an ISO datetime the command handlers read as the
+// user's local day; either is validated against their grace window by the handlers
+const habitDaySchema = z.union([
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  z.string().datetime({ offset: true })
+]);
+
+const habitCompletionSchema = z.object({
+  date: habitDaySchema.optional()
+}).default({});
+
 const completeHabitSchema = z.object({
   habitId: z.string().uuid(),
-  date: z.string().datetime().optional()
+  date: habitDaySchema.optional()
 });
 
 const bulkCompleteSchema = z.object({
   habitIds: z.array(z.string().uuid()).min(1),
-  date: z.string().datetime().optional()
+  date: habitDaySchema.optional()
 });
 
+/**
+ * Sends the error response for a failed complete/uncomplete command
+ */
+function sendHabitCommandError(res: express.Response, error: Error, message: string, traceId: string): void {
+  const { response, status, headers } = handleExpressError(
+    error instanceof ValidationError
+      ? createAppError(ErrorCode.VALIDATION_ERROR, error.message)
+      : createAppError(ErrorCode.SERVER_ERROR, message, error),
+    traceId
+  );
+
+  res.set(headers).status(status).json(response);
+}
+
 // Routes
 
 /**
@@ -472,28 +500,32 @@ router.get('/search', authMiddleware, async (req: any, res): Promise<void> => {
 
 /**
  * @route POST /api/v1/habits/:id/complete
- * @desc Complete a habit
+ * @desc Complete a habit, optionally for a past `date` (YYYY-MM-DD) within the user's grace window
  * @access Private
  */
 router.post('/:id/complete',
   authMiddleware,
+  validateRequest(habitCompletionSchema),
   async (req: any, res): Promise<void> => {
     const traceId = getExpressTraceId(req);
     const requestLogger = createRequestLogger(traceId, req.userId);
 
     try {
       const { id: habitId } = req.params;
-      const { date } = req.body || {};
+      const { date } = req.body;
       const userId = req.userId;
-      const completionDate = date ? new Date(date) : new Date();
 
-      requestLogger.info('Completing habit', { habitId, userId, date: completionDate.toISOString() });
+      requestLogger.info('Completing habit', { habitId, userId, date });
 
       const commandBus = container.resolve<CommandBus>('CommandBus');
-      const command = new CompleteHabitCommand(userId, habitId, completionDate);
+      const command = new CompleteHabitCommand(userId, habitId, date);
 
-      // TODO: Fix Result type handling when command bus implementation is complete
-      await commandBus.dispatch(command);
+      const result = await commandBus.dispatch<CompleteHabitCommand, Result<void>>(command);
+      if (Result.isError(result)) {
+        requestLogger.warn('Habit completion rejected', { habitId, date, error: result.error.message });
+        sendHabitCommandError(res, result.error, 'Failed to complete habit', traceId);
+        return;
+      }
 
       requestLogger.info('Habit completed successfully', { habitId });
 
@@ -517,28 +549,32 @@ router.post('/:id/complete',
 
 /**
  * @route POST /api/v1/habits/:id/incomplete
- * @desc Uncomplete a habit
+ * @desc Uncomplete a habit, optionally for a past `date` (YYYY-MM-DD) within the user's grace window
  * @access Private
  */
 router.post('/:id/incomplete',
   authMiddleware,
+  validateRequest(habitCompletionSchema),
   async (req: any, res): Promise<void> => {
     const traceId = getExpressTraceId(req);
     const requestLogger = createRequestLogger(traceId, req.userId);
 
     try {
       const { id: habitId } = req.params;
-      const { date } = req.body || {};
+      const { date } = req.body;
       const userId = req.userId;
-      const targetDate = date ? new Date(date) : new Date();
 
-      requestLogger.info('Uncompleting habit', { habitId, userId, date: targetDate.toISOString() });
+      requestLogger.info('Uncompleting habit', { habitId, userId, date });
 
       const commandBus = container.resolve<CommandBus>('CommandBus');
-      const command = new UncompleteHabitCommand(userId, habitId, targetDate);
+      const command = new UncompleteHabitCommand(userId, habitId, date);
 
-      // TODO: Fix Result type handling when command bus implementation is complete
-      await commandBus.dispatch(command);
+      const result = await commandBus.dispatch<UncompleteHabitCommand, Result<void>>(command);
+      if (Result.isError(result)) {
+        requestLogger.warn('Habit uncompletion rejected', { habitId, date, error: result.error.message });
+        sendHabitCommandError(res, result.error, 'Failed to uncomplete habit', traceId);
+        return;
+      }
 
       requestLogger.info('Habit uncompleted successfully', { habitId });
 
@@ -567,6 +603,7 @@ router.post('/:id/incomplete',
  */
 router.post('/complete',
   authMiddleware,
+  validateRequest(completeHabitSchema),
   async (req: any, res): Promise<void> => {
     const traceId = getExpressTraceId(req);
     const requestLogger = createRequestLogger(traceId, req.userId);
@@ -574,14 +611,18 @@ router.post('/complete',
     try {
       const { habitId, date } = req.body;
       const userId = req.userId;
-      const completionDate = date ? new Date(date) : new Date();
 
-      requestLogger.info('Completing habit (legacy endpoint)', { habitId, userId, date: completionDate.toISOString() });
+      requestLogger.info('Completing habit (legacy endpoint)', { habitId, userId, date });
 
       const commandBus = container.resolve<CommandBus>('CommandBus');
-      const command = new CompleteHabitCommand(userId, habitId, completionDate);
+      const command = new CompleteHabitCommand(userId, habitId, date);
 
-      await commandBus.dispatch(command);
+      const result = await commandBus.dispatch<CompleteHabitCommand, Result<void>>(command);
+      if (Result.isError(result)) {
+        requestLogger.warn('Habit completion rejected', { habitId, date, error: result.error.message });
+        sendHabitCommandError(res, result.error, 'Failed to complete habit', traceId);
+        return;
+      }
 
       requestLogger.info('Habit completed successfully', { habitId });
 
@@ -610,6 +651,7 @@ router.post('/complete',
  */
 router.post('/uncomplete',
   authMiddleware,
+  validateRequest(completeHabitSchema),
   async (req: any, res): Promise<void> => {
     const traceId = getExpressTraceId(req);
     const requestLogger = createRequestLogger(traceId, req.userId);
@@ -617,14 +659,18 @@ router.post('/uncomplete',
     try {
       const { habitId, date } = req.body;
       const userId = req.userId;
-      const targetDate = date ? new Date(date) : new Date();
 
-      requestLogger.info('Uncompleting habit (legacy endpoint)', { habitId, userId, date: targetDate.toISOString() });
+      requestLogger.info('Uncompleting habit (legacy endpoint)', { habitId, userId, date });
 
       const commandBus = container.resolve<CommandBus>('CommandBus');
-      const command = new UncompleteHabitCommand(userId, habitId, targetDate);
+      const command = new UncompleteHabitCommand(userId, habitId, date);
 
-      await commandBus.dispatch(command);
+      const result = await commandBus.dispatch<UncompleteHabitCommand, Result<void>>(command);
+      if (Result.isError(result)) {
+        requestLogger.warn('Habit uncompletion rejected', { habitId, date, error: result.error.message });
+        sendHabitCommandError(res, result.error, 'Failed to uncomplete habit', traceId);
+        return;
+      }
 
       requestLogger.info('Habit uncompleted successfully', { habitId });
 
@@ -661,28 +707,21 @@ router.post('/bulk-complete',
     try {
       const { habitIds, date } = req.body;
       const userId = req.userId;
-      const completionDate = date ? new Date(date) : new Date();
 
       requestLogger.info('Bulk completing habits', {
         userId,
         habitCount: habitIds.length,
-        date: completionDate.toISOString()
+        date
       });
 
       const commandBus = container.resolve<CommandBus>('CommandBus');
-      const command = new BulkCompleteHabitsCommand(userId, habitIds, completionDate);
-
-      const result = await commandBus.dispatch(command) as any;
-
-      if (result && result.ok === false) {
-        requestLogger.warn('Bulk completion failed', { error: result.error?.message });
+      const command = new BulkCompleteHabitsCommand(userId, habitIds, date);
 
-        const { response, status, headers } = handleExpressError(
-          createAppError(ErrorCode.VALIDATION_ERROR, result.error?.message || 'Bulk completion failed'),
-          traceId
-        );
+      const result = await commandBus.dispatch(command) as Result<BulkCompletionResult>;
 
-        res.set(headers).status(status).json(response);
+      if (Result.isError(result)) {
+        requestLogger.warn('Bulk completion failed', { error: result.error.message });
+        sendHabitCommandError(res, result.error, 'Failed to bulk complete habits', traceId);
         return;
       }
 
@@ -690,11 +729,12 @@ router.post('/bulk-complete',
       const queryBus = container.resolve<QueryBus>('QueryBus');
       (queryBus as any).invalidateCacheForUser?.(userId);
 
-      const completedCount = result?.value || 0;
-      requestLogger.info('Bulk completion successful', { completedCount });
+      const { completedCount, failures } = result.value;
+      requestLogger.info('Bulk completion finished', { completedCount, failedCount: failures.length });
 
       const response = createSuccessResponse({
         completedCount,
+        failures,
         message: `${completedCount} habits completed successfully`
       }, traceId);
 
@@ -11,6 +11,13 @@ import onboardingRoutes from './onboarding';
 import journalRoutes from './journal';
 import aiRoutes from './ai';
 import plansRoutes from './plans';
+import achievementsRoutes from './achievements';
+import meRoutes from './me';
+import circlesRoutes from './circles';
+import calendarRoutes from './calendar';
+import notificationsRoutes from './notifications';
+import pushRoutes from './push';
+import surveyRoutes from './survey';
 
 const router = express.Router();
 
@@ -30,5 +37,12 @@ router.use('/onboarding', onboardingRoutes);
 router.use('/journal', journalRoutes);
 router.use('/ai', aiRoutes);
 router.use('/plans', plansRoutes);
+router.use('/achievements', achievementsRoutes);
+router.use('/me', meRoutes);
+router.use('/circles', circlesRoutes);
+router.use('/calendar', calendarRoutes);
+router.use('/notifications', notificationsRoutes);
+router.use('/push', pushRoutes);
+router.use('/survey', surveyRoutes);
 
 export default router;
\ No newline at end of file
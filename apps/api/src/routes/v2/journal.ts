@@ -15,13 +15,20 @@ interface ExtendedAuthRequest extends AuthRequest {
 const router = express.Router();
 
 // Validation schemas
+const dateParamSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
 const getJournalQuerySchema = z.object({
   search: z.string().optional(),
   tags: z.string().optional(),
+  from: dateParamSchema.optional(),
+  to: dateParamSchema.optional(),
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(100).default(20),
-  sortBy: z.enum(['createdAt', 'content']).default('createdAt'),
+  sortBy: z.enum(['relevance', 'createdAt', 'content']).optional(),
   sortOrder: z.enum(['asc', 'desc']).default('desc')
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: 'to must be on or after from',
+  path: ['to']
 });
 
 const createJournalSchema = z.object({
@@ -39,23 +46,38 @@ const updateJournalSchema = z.object({
  * /v2/journal:
  *   get:
  *     summary: Get journal entries with enhanced filtering and pagination
- *     description: Retrieve user's journal entries with support for search, tag filtering, pagination, and sorting.
+ *     description: |
+ *       Retrieve user's journal entries with support for full-text search, tag and date filtering, pagination, and sorting.
+ *       Search matches Arabic with or without harakat and other forms of English words ("prayed" finds "praying").
+ *       Use "quotes" for a phrase and a leading minus to exclude a word. Matches are ranked and returned with a highlighted excerpt.
  *     tags: [Journal]
  *     security:
  *       - bearerAuth: []
  *     parameters:
  *       - name: search
  *         in: query
- *         description: Search term to filter entries by content
+ *         description: Full-text query over entry content and tags
  *         schema:
  *           type: string
- *           example: "grateful today"
+ *           example: "\"after fajr\" grateful -work"
  *       - name: tags
  *         in: query
- *         description: Comma-separated list of tags to filter entries
+ *         description: Comma-separated list of tags; entries with any of them match
  *         schema:
  *           type: string
  *           example: "gratitude,reflection"
+ *       - name: from
+ *         in: query
+ *         description: Earliest entry date (YYYY-MM-DD, inclusive, in the user's timezone)
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - name: to
+ *         in: query
+ *         description: Latest entry date (YYYY-MM-DD, inclusive, in the user's timezone)
+ *         schema:
+ *           type: string
+ *           format: date
  *       - name: page
  *         in: query
  *         description: Page number for pagination (starts from 1)
@@ -73,11 +95,10 @@ const updateJournalSchema = z.object({
  *           default: 20
  *       - name: sortBy
  *         in: query
- *         description: Field to sort entries by
+ *         description: Field to sort entries by; defaults to relevance when searching, otherwise createdAt
  *         schema:
  *           type: string
- *           enum: [createdAt, content]
- *           default: createdAt
+ *           enum: [relevance, createdAt, content]
  *       - name: sortOrder
  *         in: query
  *         description: Sort order
@@ -109,6 +130,13 @@ const updateJournalSchema = z.object({
  *                       createdAt:
  *                         type: string
  *                         format: date-time
+ *                       rank:
+ *                         type: number
+ *                         description: Relevance score, higher is better; 0 without a search
+ *                       highlight:
+ *                         type: string
+ *                         nullable: true
+ *                         description: HTML-escaped excerpt with matches wrapped in <mark>
  *                 pagination:
  *                   type: object
  *                   properties:
@@ -137,16 +165,24 @@ router.get('/', authMiddleware, validateQuery(getJournalQuerySchema), async (req
 
   try {
     const userId = req.userId!;
-    const { search, tags, page, limit, sortBy, sortOrder } = req.query as z.infer<typeof getJournalQuerySchema>;
+    const { search, tags, from, to, page, limit, sortBy, sortOrder } = req.query as z.infer<typeof getJournalQuerySchema>;
 
     requestLogger.info('Getting journal entries', {
-      search, tags, page, limit, sortBy, sortOrder
+      search, tags, from, to, page, limit, sortBy, sortOrder
     });
 
-    // For now, we'll use the existing use case and implement client-side pagination
-    // In a future enhancement, we'd extend the repository to support server-side pagination
     const useCase = container.resolve(ManageJournalUseCase);
-    const result = await useCase.getUserEntries(userId, search);
+    const result = await useCase.searchEntries({
+      userId,
+      text: search,
+      tags: tags ? tags.split(',').map(tag => tag.trim()).filter(Boolean) : undefined,
+      from,
+      to,
+      page,
+      limit,
+      sortBy,
+      sortOrder
+    });
 
     if ('error' in result && result.error) {
       requestLogger.error('Error getting journal entries', { error: result.error.message });
@@ -168,34 +204,13 @@ router.get('/', authMiddleware, validateQuery(getJournalQuerySchema), async (req
       return;
     }
 
-    let entries = result.value.map(e => e.toDTO());
-
-    // Apply tag filtering if specified
-    if (tags) {
-      const tagList = tags.split(',').map(tag => tag.trim().toLowerCase());
-      entries = entries.filter(entry =>
-        entry.tags && entry.tags.some(tag =>
-          tagList.includes(tag.toLowerCase())
-        )
-      );
-    }
-
-    // Apply sorting
-    entries.sort((a, b) => {
-      let comparison = 0;
-      if (sortBy === 'createdAt') {
-        comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-      } else if (sortBy === 'content') {
-        comparison = a.content.localeCompare(b.content);
-      }
-      return sortOrder === 'asc' ? comparison : -comparison;
-    });
-
-    // Apply pagination
-    const total = entries.length;
+    const { hits, total } = result.value;
     const totalPages = Math.ceil(total / limit);
-    const offset = (page - 1) * limit;
-    const paginatedEntries = entries.slice(offset, offset + limit);
+    const entries = hits.map(hit => ({
+      ...hit.entry.toDTO(),
+      rank: hit.rank,
+      highlight: hit.highlight
+    }));
 
     const pagination = {
       page,
@@ -207,14 +222,14 @@ router.get('/', authMiddleware, validateQuery(getJournalQuerySchema), async (req
     };
 
     requestLogger.info('Journal entries retrieved successfully', {
-      count: paginatedEntries.length,
+      count: entries.length,
       page,
       totalPages,
       total
     });
 
     const successResponse = createSuccessResponse({
-      entries: paginatedEntries,
+      entries,
       pagination
     }, traceId);
     res.json(successResponse);
@@ -0,0 +1,64 @@
+import express from 'express';
+import { container } from 'tsyringe';
+import { authMiddleware } from '@/infrastructure/auth/middleware';
+import { Result } from '@/shared/result';
+import { GetUserStatsUseCase } from '@/application/usecases/achievements';
+import {
+  ErrorCode,
+  createAppError,
+  handleExpressError,
+  getExpressTraceId,
+  createSuccessResponse,
+  createRequestLogger
+} from '@/shared/errors';
+
+const router = express.Router();
+
+/**
+ * @openapi
+ * /v2/me/stats:
+ *   get:
+ *     summary: Get gamification stats
+ *     description: Khayr points, level, streaks, completion counts and unlocked achievement ids for the current user
+ *     tags: [Achievements]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Stats retrieved successfully
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/stats',
+  authMiddleware,
+  async (req: any, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+    const userId = req.userId;
+    const requestLogger = createRequestLogger(traceId, userId);
+
+    try {
+      const getUserStatsUseCase = container.resolve<GetUserStatsUseCase>('GetUserStatsUseCase');
+      const result = await getUserStatsUseCase.execute({ userId });
+
+      if (Result.isError(result)) {
+        const appError = createAppError(ErrorCode.DATABASE_ERROR, 'Failed to retrieve user stats');
+        const { response, status, headers } = handleExpressError(appError, traceId);
+
+        requestLogger.warn('User stats retrieval failed', { error: result.error.message });
+
+        res.set(headers).status(status).json(response);
+        return;
+      }
+
+      const successResponse = createSuccessResponse({ stats: result.value.toDTO() }, traceId);
+      res.json(successResponse);
+    } catch (error) {
+      requestLogger.error('Error getting user stats', {}, error instanceof Error ? error : new Error(String(error)));
+
+      const { response, status, headers } = handleExpressError(error, traceId, 'Failed to retrieve user stats');
+      res.set(headers).status(status).json(response);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,119 @@
+import express from 'express';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { authMiddleware } from '@/infrastructure/auth/middleware';
+import { validateQuery } from '@/infrastructure/middleware/validation';
+import { Result } from '@/shared/result';
+import { GetNotificationsUseCase } from '@/application/usecases/notifications';
+import {
+  ErrorCode,
+  createAppError,
+  handleExpressError,
+  getExpressTraceId,
+  createSuccessResponse,
+  createRequestLogger
+} from '@/shared/errors';
+
+const router = express.Router();
+
+// Validation schemas
+const notificationsQuerySchema = z.object({
+  status: z.enum(['pending', 'sent', 'failed', 'expired']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+/**
+ * @openapi
+ * /v2/notifications:
+ *   get:
+ *     summary: List notifications
+ *     description: |
+ *       Reminders queued for the user from their notification settings, prayer times,
+ *       intention reminders and habit streaks, with their delivery status. Latest first.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: status
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [pending, sent, failed, expired]
+ *       - name: limit
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - name: offset
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Notifications retrieved successfully
+ *         content:
+ *           application/json:
+ *             example:
+ *               data:
+ *                 notifications:
+ *                   - id: "6f1c2a8e-0b1d-4c1e-9a55-2d0e4f3b7c11"
+ *                     type: "prayer"
+ *                     title: "Maghrib prayer"
+ *                     body: "It is time for Maghrib."
+ *                     data: { prayer: "maghrib", date: "2024-03-11" }
+ *                     scheduledFor: "2024-03-11T15:42:00.000Z"
+ *                     status: "sent"
+ *                     attempts: 1
+ *                     channel: "log"
+ *                     lastError: null
+ *                     sentAt: "2024-03-11T15:42:03.000Z"
+ *                     createdAt: "2024-03-11T15:00:00.000Z"
+ *                 pagination: { limit: 20, offset: 0 }
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/',
+  authMiddleware,
+  validateQuery(notificationsQuerySchema),
+  async (req: any, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+    const userId = req.userId;
+    const requestLogger = createRequestLogger(traceId, userId);
+
+    try {
+      const { status, limit, offset } = req.query as z.infer<typeof notificationsQuerySchema>;
+
+      const useCase = container.resolve<GetNotificationsUseCase>('GetNotificationsUseCase');
+      const result = await useCase.execute({ userId, status, limit, offset });
+
+      if (Result.isError(result)) {
+        const appError = createAppError(ErrorCode.SERVER_ERROR, 'Failed to retrieve notifications', result.error);
+        const { response, status: httpStatus, headers } = handleExpressError(appError, traceId);
+
+        requestLogger.warn('Notifications retrieval failed', { error: result.error.message });
+
+        res.set(headers).status(httpStatus).json(response);
+        return;
+      }
+
+      res.json(createSuccessResponse({
+        notifications: result.value.map(notification => notification.toDTO()),
+        pagination: { limit, offset }
+      }, traceId));
+    } catch (error) {
+      requestLogger.error('Error getting notifications', {
+        query: req.query
+      }, error instanceof Error ? error : new Error(String(error)));
+
+      const { response, status, headers } = handleExpressError(error, traceId, 'Failed to retrieve notifications');
+      res.set(headers).status(status).json(response);
+    }
+  }
+);
+
+export default router;
@@ -5,6 +5,7 @@ import { AuthRequest } from '@/infrastructure/auth/middleware';
 import { IOnboardingRepository } from '@/domain/repositories/IOnboardingRepository';
 import { OnboardingEntity, OnboardingStep, ONBOARDING_STEPS, ONBOARDING_FLOW } from '@/domain/entities/Onboarding';
 import { UserId } from '@/domain/value-objects/UserId';
+import { CALCULATION_METHODS } from '@/domain/value-objects/CalculationMethod';
 import { Result } from '@/shared/result';
 import {
   ErrorCode,
@@ -78,7 +79,7 @@ const CompleteStepSchema = z.object({
   data: z.object({
     language: z.enum(['en', 'ar', 'ur']).optional(),
     location: LocationSchema.optional(),
-    prayerCalculationMethod: z.enum(['ISNA', 'MWL', 'Egypt', 'Makkah', 'Karachi', 'Tehran', 'Jafari']).optional(),
+    prayerCalculationMethod: z.enum(CALCULATION_METHODS).optional(),
     notificationSettings: NotificationSettingsSchema.optional(),
     privacySettings: PrivacySettingsSchema.optional(),
     displaySettings: DisplaySettingsSchema.optional(),
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { container } from 'tsyringe';
 import { authMiddleware } from '@/infrastructure/auth/middleware';
 import { IPlanRepository } from '@/domain/repositories';
+import { IEventBus } from '@/domain/events/IEventBus';
+import { PlanCompletedEvent } from '@/domain/events/PlanEvents';
 import { UserId } from '@/domain/value-objects/UserId';
 import { PlanId } from '@/domain/value-objects/PlanId';
 import { Plan } from '@/domain/entities/Plan';
@@ -672,6 +674,11 @@ router.post('/:id/deactivate', authMiddleware, async (req, res): Promise<void> =
       return;
     }
 
+    // Archiving an active plan completes it
+    if (planResult.value.status === 'active') {
+      await container.resolve<IEventBus>('IEventBus').publish(new PlanCompletedEvent(id, userId));
+    }
+
     // V2 response format
     const responseData = {
       plan: result.value.toDTO(),
@@ -2,63 +2,81 @@ import express from 'express';
 import { container } from 'tsyringe';
 import { z } from 'zod';
 import { authMiddleware, AuthRequest } from '@/infrastructure/auth/middleware';
-import { validateRequest } from '@/infrastructure/middleware/validation';
+import { validateQuery } from '@/infrastructure/middleware/validation';
 import { GetPrayerTimesUseCase } from '@/application/usecases/GetPrayerTimesUseCase';
 import { GetPrayerTimesRangeUseCase } from '@/application/usecases/GetPrayerTimesRangeUseCase';
+import { GetPrayerTimetableUseCase, PrayerTimetable } from '@/application/usecases/GetPrayerTimetableUseCase';
+import { renderPrayerTimetableIcs, MAX_ALARM_MINUTES } from '@/infrastructure/export/prayerTimetableIcs';
+import { renderPrayerTimetablePdf } from '@/infrastructure/export/prayerTimetablePdf';
 import { Result } from '@/shared/result';
+import { CALCULATION_METHODS, MAX_PRAYER_ADJUSTMENT_MINUTES } from '@/domain/value-objects/CalculationMethod';
 import {
   ErrorCode,
   createAppError,
   handleExpressError,
   getExpressTraceId,
   createSuccessResponse,
-  createRequestLogger
+  createRequestLogger,
+  ValidationError
 } from '@/shared/errors';
 
 const router = express.Router();
 
 // Validation schemas
+const adjustmentMinutes = z.coerce.number().int()
+  .min(-MAX_PRAYER_ADJUSTMENT_MINUTES)
+  .max(MAX_PRAYER_ADJUSTMENT_MINUTES)
+  .optional();
+
+// Sent as e.g. ?asrMadhab=Hanafi&adjustments[isha]=5; when omitted the user's stored prayer settings apply
+const prayerSettingsQuery = {
+  asrMadhab: z.enum(['Shafi', 'Hanafi']).optional(),
+  highLatitudeRule: z.enum(['MiddleOfTheNight', 'SeventhOfTheNight', 'TwilightAngle']).optional(),
+  adjustments: z.object({
+    fajr: adjustmentMinutes,
+    sunrise: adjustmentMinutes,
+    dhuhr: adjustmentMinutes,
+    asr: adjustmentMinutes,
+    maghrib: adjustmentMinutes,
+    isha: adjustmentMinutes
+  }).optional()
+};
+
 const getPrayerTimesSchema = z.object({
-  latitude: z.number().min(-90).max(90),
-  longitude: z.number().min(-180).max(180),
+  latitude: z.coerce.number().min(-90).max(90).optional(),
+  longitude: z.coerce.number().min(-180).max(180).optional(),
   date: z.string().datetime().optional(),
-  calculationMethod: z.enum([
-    'MuslimWorldLeague',
-    'Egyptian',
-    'Karachi',
-    'UmmAlQura',
-    'Dubai',
-    'MoonsightingCommittee',
-    'NorthAmerica',
-    'Kuwait',
-    'Qatar',
-    'Singapore',
-    'Tehran',
-    'Turkey'
-  ]).optional(),
-  timezone: z.string().optional()
+  calculationMethod: z.enum(CALCULATION_METHODS).optional(),
+  timezone: z.string().optional(),
+  ...prayerSettingsQuery
 });
 
 const getPrayerTimesRangeSchema = z.object({
-  latitude: z.number().min(-90).max(90),
-  longitude: z.number().min(-180).max(180),
+  latitude: z.coerce.number().min(-90).max(90).optional(),
+  longitude: z.coerce.number().min(-180).max(180).optional(),
   startDate: z.string().datetime(),
   endDate: z.string().datetime(),
-  calculationMethod: z.enum([
-    'MuslimWorldLeague',
-    'Egyptian',
-    'Karachi',
-    'UmmAlQura',
-    'Dubai',
-    'MoonsightingCommittee',
-    'NorthAmerica',
-    'Kuwait',
-    'Qatar',
-    'Singapore',
-    'Tehran',
-    'Turkey'
-  ]).optional(),
-  timezone: z.string().optional()
+  calculationMethod: z.enum(CALCULATION_METHODS).optional(),
+  timezone: z.string().optional(),
+  ...prayerSettingsQuery
+});
+
+const getPrayerTimetableSchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be in YYYY-MM format').optional()
+});
+
+const alarmMinutes = z.coerce.number().int().min(0).max(MAX_ALARM_MINUTES).optional();
+
+// ?alarm=10 reminds before every prayer; alarms[fajr]=30 sets or overrides it per prayer
+const getPrayerTimetableIcsSchema = getPrayerTimetableSchema.extend({
+  alarm: alarmMinutes,
+  alarms: z.object({
+    fajr: alarmMinutes,
+    dhuhr: alarmMinutes,
+    asr: alarmMinutes,
+    maghrib: alarmMinutes,
+    isha: alarmMinutes
+  }).optional()
 });
 
 /**
@@ -73,8 +91,8 @@ const getPrayerTimesRangeSchema = z.object({
  *     parameters:
  *       - name: latitude
  *         in: query
- *         required: true
- *         description: Latitude of the location (-90 to 90)
+ *         required: false
+ *         description: Latitude of the location (-90 to 90). Defaults to the location saved in preferences.
  *         schema:
  *           type: number
  *           minimum: -90
@@ -82,8 +100,8 @@ const getPrayerTimesRangeSchema = z.object({
  *           example: 24.7136
  *       - name: longitude
  *         in: query
- *         required: true
- *         description: Longitude of the location (-180 to 180)
+ *         required: false
+ *         description: Longitude of the location (-180 to 180). Defaults to the location saved in preferences.
  *         schema:
  *           type: number
  *           minimum: -180
@@ -100,18 +118,46 @@ const getPrayerTimesRangeSchema = z.object({
  *       - name: calculationMethod
  *         in: query
  *         required: false
- *         description: Islamic calculation method for prayer times
+ *         description: Islamic calculation method for prayer times. Defaults to the method saved in preferences.
  *         schema:
  *           type: string
- *           enum: [MuslimWorldLeague, Egyptian, Karachi, UmmAlQura, Dubai, MoonsightingCommittee, NorthAmerica, Kuwait, Qatar, Singapore, Tehran, Turkey]
+ *           enum: [MuslimWorldLeague, Egyptian, Karachi, UmmAlQura, Dubai, MoonsightingCommittee, NorthAmerica, Kuwait, Qatar, Singapore, Tehran, Turkey, Jafari]
  *           default: MuslimWorldLeague
  *       - name: timezone
  *         in: query
  *         required: false
- *         description: Timezone for displaying local times (e.g., 'Asia/Riyadh')
+ *         description: Timezone for displaying local times (e.g., 'Asia/Riyadh'). Defaults to the profile timezone.
  *         schema:
  *           type: string
  *           example: "Asia/Riyadh"
+ *       - name: asrMadhab
+ *         in: query
+ *         required: false
+ *         description: Asr shadow length. Hanafi Asr is later. Defaults to the user's stored prayer settings, then Shafi.
+ *         schema:
+ *           type: string
+ *           enum: [Shafi, Hanafi]
+ *       - name: highLatitudeRule
+ *         in: query
+ *         required: false
+ *         description: How Fajr and Isha are bounded when twilight lasts all night. Defaults to the user's setting, then SeventhOfTheNight above 48° latitude.
+ *         schema:
+ *           type: string
+ *           enum: [MiddleOfTheNight, SeventhOfTheNight, TwilightAngle]
+ *       - name: adjustments
+ *         in: query
+ *         required: false
+ *         style: deepObject
+ *         description: Minutes added to each time (-60 to 60), e.g. adjustments[isha]=5. Merged over the user's stored adjustments.
+ *         schema:
+ *           type: object
+ *           properties:
+ *             fajr: { type: integer }
+ *             sunrise: { type: integer }
+ *             dhuhr: { type: integer }
+ *             asr: { type: integer }
+ *             maghrib: { type: integer }
+ *             isha: { type: integer }
  *     responses:
  *       200:
  *         description: Prayer times retrieved successfully
@@ -168,7 +214,7 @@ const getPrayerTimesRangeSchema = z.object({
  *                         name: "asr"
  *                         time: "2024-01-15T12:12:00.000Z"
  *                         localTime: "03:12 PM"
- *                       hijriDate: "6/7/1445 AH"
+ *                       hijriDate: "1 Ramadan 1445 AH"
  *                     qiblaDirection: 244.32
  *       400:
  *         description: Invalid request parameters
@@ -190,7 +236,7 @@ const getPrayerTimesRangeSchema = z.object({
  */
 router.get('/',
   authMiddleware,
-  validateRequest(getPrayerTimesSchema),
+  validateQuery(getPrayerTimesSchema),
   async (req: AuthRequest, res): Promise<void> => {
     const traceId = getExpressTraceId(req);
     const userId = req.userId!;
@@ -201,13 +247,16 @@ router.get('/',
         latitude,
         longitude,
         date,
-        calculationMethod = 'MuslimWorldLeague',
-        timezone
+        calculationMethod,
+        timezone,
+        asrMadhab,
+        highLatitudeRule,
+        adjustments
       } = req.query as any;
 
       requestLogger.info('Fetching prayer times', {
-        latitude: Number(latitude),
-        longitude: Number(longitude),
+        latitude,
+        longitude,
         calculationMethod,
         timezone,
         hasDate: !!date
@@ -217,11 +266,14 @@ router.get('/',
 
       const result = await getPrayerTimesUseCase.execute({
         userId,
-        latitude: Number(latitude),
-        longitude: Number(longitude),
+        latitude,
+        longitude,
         date: date ? new Date(date) : undefined,
         calculationMethod,
-        timezone
+        timezone,
+        asrMadhab,
+        highLatitudeRule,
+        adjustments
       });
 
       if (Result.isError(result)) {
@@ -284,16 +336,16 @@ router.get('/',
  *     parameters:
  *       - name: latitude
  *         in: query
- *         required: true
- *         description: Latitude of the location (-90 to 90)
+ *         required: false
+ *         description: Latitude of the location (-90 to 90). Defaults to the location saved in preferences.
  *         schema:
  *           type: number
  *           minimum: -90
  *           maximum: 90
  *       - name: longitude
  *         in: query
- *         required: true
- *         description: Longitude of the location (-180 to 180)
+ *         required: false
+ *         description: Longitude of the location (-180 to 180). Defaults to the location saved in preferences.
  *         schema:
  *           type: number
  *           minimum: -180
@@ -315,17 +367,45 @@ router.get('/',
  *       - name: calculationMethod
  *         in: query
  *         required: false
- *         description: Islamic calculation method for prayer times
+ *         description: Islamic calculation method for prayer times. Defaults to the method saved in preferences.
  *         schema:
  *           type: string
- *           enum: [MuslimWorldLeague, Egyptian, Karachi, UmmAlQura, Dubai, MoonsightingCommittee, NorthAmerica, Kuwait, Qatar, Singapore, Tehran, Turkey]
+ *           enum: [MuslimWorldLeague, Egyptian, Karachi, UmmAlQura, Dubai, MoonsightingCommittee, NorthAmerica, Kuwait, Qatar, Singapore, Tehran, Turkey, Jafari]
  *           default: MuslimWorldLeague
  *       - name: timezone
  *         in: query
  *         required: false
- *         description: Timezone for displaying local times
+ *         description: Timezone for displaying local times. Defaults to the profile timezone.
+ *         schema:
+ *           type: string
+ *       - name: asrMadhab
+ *         in: query
+ *         required: false
+ *         description: Asr shadow length. Hanafi Asr is later. Defaults to the user's stored prayer settings, then Shafi.
  *         schema:
  *           type: string
+ *           enum: [Shafi, Hanafi]
+ *       - name: highLatitudeRule
+ *         in: query
+ *         required: false
+ *         description: How Fajr and Isha are bounded when twilight lasts all night. Defaults to the user's setting, then SeventhOfTheNight above 48° latitude.
+ *         schema:
+ *           type: string
+ *           enum: [MiddleOfTheNight, SeventhOfTheNight, TwilightAngle]
+ *       - name: adjustments
+ *         in: query
+ *         required: false
+ *         style: deepObject
+ *         description: Minutes added to each time (-60 to 60), e.g. adjustments[isha]=5. Merged over the user's stored adjustments.
+ *         schema:
+ *           type: object
+ *           properties:
+ *             fajr: { type: integer }
+ *             sunrise: { type: integer }
+ *             dhuhr: { type: integer }
+ *             asr: { type: integer }
+ *             maghrib: { type: integer }
+ *             isha: { type: integer }
  *     responses:
  *       200:
  *         description: Prayer times range retrieved successfully
@@ -356,7 +436,7 @@ router.get('/',
  */
 router.get('/range',
   authMiddleware,
-  validateRequest(getPrayerTimesRangeSchema),
+  validateQuery(getPrayerTimesRangeSchema),
   async (req: AuthRequest, res): Promise<void> => {
     const traceId = getExpressTraceId(req);
     const userId = req.userId!;
@@ -368,8 +448,11 @@ router.get('/range',
         longitude,
         startDate,
         endDate,
-        calculationMethod = 'MuslimWorldLeague',
-        timezone
+        calculationMethod,
+        timezone,
+        asrMadhab,
+        highLatitudeRule,
+        adjustments
       } = req.query as any;
 
       const startDateObj = new Date(startDate);
@@ -377,8 +460,8 @@ router.get('/range',
       const daysDiff = Math.ceil((endDateObj.getTime() - startDateObj.getTime()) / (1000 * 60 * 60 * 24));
 
       requestLogger.info('Fetching prayer times range', {
-        latitude: Number(latitude),
-        longitude: Number(longitude),
+        latitude,
+        longitude,
         startDate,
         endDate,
         dayCount: daysDiff,
@@ -390,12 +473,15 @@ router.get('/range',
 
       const result = await getPrayerTimesRangeUseCase.execute({
         userId,
-        latitude: Number(latitude),
-        longitude: Number(longitude),
+        latitude,
+        longitude,
         startDate: startDateObj,
         endDate: endDateObj,
         calculationMethod,
-        timezone
+        timezone,
+        asrMadhab,
+        highLatitudeRule,
+        adjustments
       });
 
       if (Result.isError(result)) {
@@ -449,6 +535,194 @@ router.get('/range',
   }
 );
 
+/**
+ * Loads the month's timetable for a download route, or sends the error response and returns null
+ */
+async function loadTimetable(req: AuthRequest, res: express.Response, format: 'ics' | 'pdf'): Promise<PrayerTimetable | null> {
+  const traceId = getExpressTraceId(req);
+  const userId = req.userId!;
+  const requestLogger = createRequestLogger(traceId, userId);
+  const { month } = req.query as any;
+
+  requestLogger.info('Exporting prayer timetable', { month, format });
+
+  const getPrayerTimetableUseCase = container.resolve<GetPrayerTimetableUseCase>('GetPrayerTimetableUseCase');
+  const result = await getPrayerTimetableUseCase.execute({ userId, month });
+
+  if (Result.isError(result)) {
+    requestLogger.warn('Prayer timetable export failed', { error: result.error.message, month, format });
+
+    const appError = result.error instanceof ValidationError
+      ? createAppError(ErrorCode.VALIDATION_ERROR, result.error.message)
+      : createAppError(ErrorCode.SERVER_ERROR, 'Failed to build prayer timetable', result.error);
+    const { response, status, headers } = handleExpressError(appError, traceId);
+
+    res.status(status).set(headers).json(response);
+    return null;
+  }
+
+  return result.value;
+}
+
+/**
+ * @openapi
+ * /v2/prayer-times/timetable.ics:
+ *   get:
+ *     summary: Monthly prayer timetable as iCalendar
+ *     description: |
+ *       One event per prayer (Fajr, Dhuhr, Asr, Maghrib, Isha) for each day of the month, calculated for the
+ *       location, method and prayer settings saved in the user's preferences. Events carry the Hijri date and
+ *       keep stable UIDs, so re-importing a month updates it instead of duplicating events.
+ *     tags: [Prayer Times]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: month
+ *         in: query
+ *         required: false
+ *         description: Month in YYYY-MM format. Defaults to the current month in the user's timezone.
+ *         schema:
+ *           type: string
+ *           example: "2024-03"
+ *       - name: alarm
+ *         in: query
+ *         required: false
+ *         description: Add a reminder this many minutes before every prayer (0-120)
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 120
+ *       - name: alarms
+ *         in: query
+ *         required: false
+ *         style: deepObject
+ *         explode: true
+ *         description: Reminder minutes per prayer, overriding `alarm`, e.g. `alarms[fajr]=30`
+ *         schema:
+ *           type: object
+ *           additionalProperties:
+ *             type: integer
+ *             minimum: 0
+ *             maximum: 120
+ *     responses:
+ *       200:
+ *         description: iCalendar file
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid month or alarm, or no location saved in preferences
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get('/timetable.ics',
+  authMiddleware,
+  validateQuery(getPrayerTimetableIcsSchema),
+  async (req: AuthRequest, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+
+    try {
+      const timetable = await loadTimetable(req, res, 'ics');
+      if (!timetable) {
+        return;
+      }
+
+      const { alarm, alarms } = req.query as any;
+      const ics = renderPrayerTimetableIcs(timetable, {
+        alarms: {
+          fajr: alarm,
+          dhuhr: alarm,
+          asr: alarm,
+          maghrib: alarm,
+          isha: alarm,
+          ...alarms
+        }
+      });
+
+      res.set({
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="prayer-times-${timetable.month}.ics"`,
+        'X-Trace-Id': traceId
+      }).send(ics);
+    } catch (error) {
+      createRequestLogger(traceId, req.userId).error('Unexpected error exporting prayer timetable', {
+        error: (error as Error).message
+      }, error as Error);
+
+      const { response, status, headers } = handleExpressError(error, traceId, 'Failed to export prayer timetable');
+      res.status(status).set(headers).json(response);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v2/prayer-times/timetable.pdf:
+ *   get:
+ *     summary: Printable monthly prayer timetable
+ *     description: |
+ *       One-page A4 timetable of Fajr, Sunrise, Dhuhr, Asr, Maghrib and Isha for each day of the month, with
+ *       Hijri dates and English/Arabic headers, for the location, method and prayer settings saved in the
+ *       user's preferences. Fridays are shaded.
+ *     tags: [Prayer Times]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: month
+ *         in: query
+ *         required: false
+ *         description: Month in YYYY-MM format. Defaults to the current month in the user's timezone.
+ *         schema:
+ *           type: string
+ *           example: "2024-03"
+ *     responses:
+ *       200:
+ *         description: PDF timetable
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid month, or no location saved in preferences
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get('/timetable.pdf',
+  authMiddleware,
+  validateQuery(getPrayerTimetableSchema),
+  async (req: AuthRequest, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+
+    try {
+      const timetable = await loadTimetable(req, res, 'pdf');
+      if (!timetable) {
+        return;
+      }
+
+      const pdf = await renderPrayerTimetablePdf(timetable);
+
+      res.set({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="prayer-times-${timetable.month}.pdf"`,
+        'X-Trace-Id': traceId
+      }).send(pdf);
+    } catch (error) {
+      createRequestLogger(traceId, req.userId).error('Unexpected error exporting prayer timetable', {
+        error: (error as Error).message
+      }, error as Error);
+
+      const { response, status, headers } = handleExpressError(error, traceId, 'Failed to export prayer timetable');
+      res.status(status).set(headers).json(response);
+    }
+  }
+);
+
 /**
  * @openapi
  * /v2/prayer-times/methods:
@@ -575,6 +849,12 @@ router.get('/methods', async (req, res): Promise<void> => {
         name: 'Turkey',
         description: 'Method used in Turkey',
         region: 'Turkey'
+      },
+      {
+        id: 'Jafari',
+        name: 'Shia Ithna-Ashari, Leva Institute, Qum',
+        description: 'Fajr at 16°, Maghrib at 4° and Isha at 14° below the horizon',
+        region: 'Iran, Iraq, Lebanon'
       }
     ];
 
@@ -0,0 +1,193 @@
+import express from 'express';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { authMiddleware } from '@/infrastructure/auth/middleware';
+import { validateRequest } from '@/infrastructure/middleware/validation';
+import { getVapidConfig } from '@/infrastructure/notifications/WebPushSender';
+import { Result } from '@/shared/result';
+import {
+  SavePushSubscriptionUseCase,
+  DeletePushSubscriptionUseCase
+} from '@/application/usecases/notifications';
+import {
+  ErrorCode,
+  createAppError,
+  handleExpressError,
+  getExpressTraceId,
+  createSuccessResponse,
+  createRequestLogger,
+  NotFoundError,
+  ValidationError
+} from '@/shared/errors';
+
+const router = express.Router();
+
+// Validation schemas
+const saveSubscriptionSchema = z.object({
+  endpoint: z.string().url().max(2048),
+  keys: z.object({
+    p256dh: z.string().min(1).max(256),
+    auth: z.string().min(1).max(256)
+  }),
+  deviceId: z.string().max(100).nullable().optional()
+});
+
+const deleteSubscriptionSchema = z.object({
+  endpoint: z.string().url().max(2048)
+});
+
+/**
+ * Sends the error response for a failed push subscription use case
+ */
+function sendPushError(res: express.Response, error: Error, message: string, traceId: string): void {
+  let appError;
+  if (error instanceof NotFoundError) {
+    appError = createAppError(ErrorCode.NOT_FOUND, error.message);
+  } else if (error instanceof ValidationError) {
+    appError = createAppError(ErrorCode.VALIDATION_ERROR, error.message);
+  } else {
+    appError = createAppError(ErrorCode.SERVER_ERROR, message, error);
+  }
+
+  const { response, status, headers } = handleExpressError(appError, traceId);
+  res.set(headers).status(status).json(response);
+}
+
+/**
+ * @openapi
+ * /v2/push/public-key:
+ *   get:
+ *     summary: Get the VAPID public key
+ *     description: |
+ *       The applicationServerKey browsers need to subscribe to Web Push.
+ *       enabled is false and publicKey null when the server has no VAPID keys configured.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Public key retrieved
+ *         content:
+ *           application/json:
+ *             example:
+ *               data:
+ *                 enabled: true
+ *                 publicKey: "BEl62iUYgUivxIkv69yViEuiBIa-Ib9-SkvMeAtA3LFgDzkrxZJjSgSnfckjBJuBkr3qBUYIHBQFLXYp5Nksh8U"
+ */
+router.get('/public-key',
+  authMiddleware,
+  async (req: any, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+    const vapid = getVapidConfig();
+
+    res.json(createSuccessResponse({
+      enabled: vapid !== null,
+      publicKey: vapid ? vapid.publicKey : null
+    }, traceId));
+  }
+);
+
+/**
+ * @openapi
+ * /v2/push/subscriptions:
+ *   post:
+ *     summary: Subscribe this device to push notifications
+ *     description: |
+ *       Stores the browser's PushSubscription. Subscribing an endpoint again replaces
+ *       the stored keys, so it is safe to call on every app start.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             endpoint: "https://fcm.googleapis.com/fcm/send/dGhpcyBpcyBhbiBleGFtcGxl"
+ *             keys:
+ *               p256dh: "BNcRdreALRFXTkOOUHK1EtK2wtaz5Ry4YfYCA_0QTpQtUbVlUls0VJXg7A8u-Ts1XbjhazAkj7I99e8QcYP7DkM"
+ *               auth: "tBHItJI5svbpez7KI4CCXg"
+ *             deviceId: "pixel-7"
+ *     responses:
+ *       201:
+ *         description: Subscription stored
+ *       400:
+ *         description: Invalid subscription
+ *   delete:
+ *     summary: Unsubscribe a device from push notifications
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             endpoint: "https://fcm.googleapis.com/fcm/send/dGhpcyBpcyBhbiBleGFtcGxl"
+ *     responses:
+ *       204:
+ *         description: Subscription removed
+ *       404:
+ *         description: No subscription for this endpoint
+ */
+router.post('/subscriptions',
+  authMiddleware,
+  validateRequest(saveSubscriptionSchema),
+  async (req: any, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+    const userId = req.userId;
+    const requestLogger = createRequestLogger(traceId, userId);
+
+    try {
+      const useCase = container.resolve<SavePushSubscriptionUseCase>('SavePushSubscriptionUseCase');
+      const result = await useCase.execute({
+        userId,
+        ...req.body,
+        userAgent: req.get('user-agent') || null
+      });
+
+      if (Result.isError(result)) {
+        requestLogger.warn('Push subscription failed', { error: result.error.message });
+        sendPushError(res, result.error, 'Failed to save push subscription', traceId);
+        return;
+      }
+
+      requestLogger.info('Push subscription saved', { subscriptionId: result.value.id.toString() });
+      res.status(201).json(createSuccessResponse({ subscription: result.value.toDTO() }, traceId));
+    } catch (error) {
+      requestLogger.error('Error saving push subscription', {}, error instanceof Error ? error : new Error(String(error)));
+      const { response, status, headers } = handleExpressError(error, traceId, 'Failed to save push subscription');
+      res.set(headers).status(status).json(response);
+    }
+  }
+);
+
+router.delete('/subscriptions',
+  authMiddleware,
+  validateRequest(deleteSubscriptionSchema),
+  async (req: any, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+    const userId = req.userId;
+    const requestLogger = createRequestLogger(traceId, userId);
+
+    try {
+      const useCase = container.resolve<DeletePushSubscriptionUseCase>('DeletePushSubscriptionUseCase');
+      const result = await useCase.execute({ userId, endpoint: req.body.endpoint });
+
+      if (Result.isError(result)) {
+        requestLogger.warn('Push unsubscription failed', { error: result.error.message });
+        sendPushError(res, result.error, 'Failed to remove push subscription', traceId);
+        return;
+      }
+
+      requestLogger.info('Push subscription removed');
+      res.status(204).send();
+    } catch (error) {
+      requestLogger.error('Error removing push subscription', {}, error instanceof Error ? error : new Error(String(error)));
+      const { response, status, headers } = handleExpressError(error, traceId, 'Failed to remove push subscription');
+      res.set(headers).status(status).json(response);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,72 @@
+import express from 'express';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+import { validateQuery } from '@/infrastructure/middleware/validation';
+import { Result } from '@/shared/result';
+import { GetSurveyQuestionBankUseCase } from '@/application/usecases/GetSurveyQuestionBankUseCase';
+import {
+  handleExpressError,
+  getExpressTraceId,
+  createSuccessResponse,
+  createRequestLogger
+} from '@/shared/errors';
+
+const router = express.Router();
+
+const QuestionsQuerySchema = z.object({
+  version: z.coerce.number().int().min(1).optional()
+});
+
+/**
+ * @openapi
+ * /v2/survey/questions:
+ *   get:
+ *     summary: Get survey questions
+ *     description: The Phase 1 and 2 questions of the active question bank, or of an earlier version, with English and Arabic titles and prompts
+ *     tags: [Survey]
+ *     parameters:
+ *       - name: version
+ *         in: query
+ *         description: Question bank version (defaults to the active bank)
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *     responses:
+ *       200:
+ *         description: Questions retrieved successfully
+ *       404:
+ *         description: Question bank version not found
+ */
+router.get('/questions',
+  validateQuery(QuestionsQuerySchema),
+  async (req, res): Promise<void> => {
+    const traceId = getExpressTraceId(req);
+    const requestLogger = createRequestLogger(traceId);
+
+    try {
+      const { version } = req.query as z.infer<typeof QuestionsQuerySchema>;
+
+      const getQuestionBankUseCase = container.resolve<GetSurveyQuestionBankUseCase>('GetSurveyQuestionBankUseCase');
+      const result = await getQuestionBankUseCase.execute({ version });
+
+      if (Result.isError(result)) {
+        const { response, status, headers } = handleExpressError(result.error, traceId, 'Failed to retrieve survey questions');
+
+        requestLogger.warn('Survey questions retrieval failed', { version, error: result.error.message });
+
+        res.set(headers).status(status).json(response);
+        return;
+      }
+
+      const successResponse = createSuccessResponse(result.value.toDTO(), traceId);
+      res.json(successResponse);
+    } catch (error) {
+      requestLogger.error('Error getting survey questions', {}, error instanceof Error ? error : new Error(String(error)));
+
+      const { response, status, headers } = handleExpressError(error, traceId, 'Failed to retrieve survey questions');
+      res.set(headers).status(status).json(response);
+    }
+  }
+);
+
+export default router;
@@ -1,7 +1,20 @@
 import express from 'express';
+import { container } from 'tsyringe';
 import { authMiddleware } from '@/infrastructure/auth/middleware';
-import { validateRequest } from '@/infrastructure/middleware/validation';
+import { validateRequest, validateQuery } from '@/infrastructure/middleware/validation';
 import { createRequestLogger } from '@/shared/logger';
+import { Result } from '@/shared/result';
+import {
+  ProcessSyncOperationUseCase,
+  ResolveSyncConflictUseCase,
+  GetSyncStatusUseCase,
+  GetSyncChangesUseCase,
+  generateSyncToken,
+  SyncOperation,
+  SyncOperationResult
+} from '@/application/usecases/sync';
+import { ISyncRepository } from '@/domain/repositories/ISyncRepository';
+import { UserId } from '@/domain/value-objects/UserId';
 import { z } from 'zod';
 import {
   ErrorCode,
@@ -17,8 +30,22 @@ const router = express.Router();
 const syncBatchSchema = z.object({
   operations: z.array(z.object({
     id: z.string(),
-    type: z.enum(['habit-toggle', 'journal-create', 'journal-delete', 'checkin-create']),
-    entity: z.enum(['habit', 'journal', 'checkin']),
+    type: z.enum([
+      'habit-toggle',
+      'journal-create',
+      'journal-delete',
+      'checkin-create',
+      'intention-create',
+      'intention-update',
+      'intention-complete',
+      'intention-archive',
+      'dhikr-create',
+      'dhikr-increment',
+      'dhikr-complete',
+      'plan-activate',
+      'plan-deactivate'
+    ]),
+    entity: z.enum(['habit', 'journal', 'checkin', 'intention', 'dhikr', 'plan']),
     operation: z.enum(['create', 'update', 'delete']),
     data: z.record(z.any()),
     clientTimestamp: z.string().datetime(),
@@ -29,31 +56,28 @@ const syncBatchSchema = z.object({
 });
 
 const conflictResolutionSchema = z.object({
-  conflictId: z.string(),
   resolution: z.enum(['client', 'server', 'merge']),
   mergedData: z.record(z.any()).optional()
+}).refine(data => data.resolution !== 'merge' || data.mergedData !== undefined, {
+  message: 'mergedData is required when resolution is merge',
+  path: ['mergedData']
 });
 
-interface SyncOperation {
-  id: string;
-  type: 'habit-toggle' | 'journal-create' | 'journal-delete' | 'checkin-create';
-  entity: 'habit' | 'journal' | 'checkin';
-  operation: 'create' | 'update' | 'delete';
-  data: Record<string, any>;
-  clientTimestamp: string;
-  retryCount: number;
-}
+const syncStatusQuerySchema = z.object({
+  deviceId: z.string().optional()
+});
 
-interface SyncResult {
-  success: boolean;
-  operationId: string;
-  serverTimestamp: string;
-  conflict?: {
-    id: string;
-    serverData: Record<string, any>;
-    clientData: Record<string, any>;
-    conflictType: 'timestamp' | 'version' | 'data';
-  };
+const syncChangesQuerySchema = z.object({
+  since: z.string().optional(),
+  until: z.string().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional().default(100)
+});
+
+// Devices that do not send a deviceId share one sync record per user
+const DEFAULT_DEVICE_ID = 'default';
+
+interface SyncResult extends SyncOperationResult {
   error?: {
     code: string;
     message: string;
@@ -63,7 +87,7 @@ interface SyncResult {
 interface SyncResponse {
   success: boolean;
   results: SyncResult[];
-  conflicts: any[];
+  conflicts: NonNullable<SyncResult['conflict']>[];
   nextSyncToken?: string;
   serverTimestamp: string;
   totalProcessed: number;
@@ -101,16 +125,33 @@ interface SyncResponse {
  *                       description: Unique operation ID from client
  *                     type:
  *                       type: string
- *                       enum: [habit-toggle, journal-create, journal-delete, checkin-create]
+ *                       enum:
+ *                         - habit-toggle
+ *                         - journal-create
+ *                         - journal-delete
+ *                         - checkin-create
+ *                         - intention-create
+ *                         - intention-update
+ *                         - intention-complete
+ *                         - intention-archive
+ *                         - dhikr-create
+ *                         - dhikr-increment
+ *                         - dhikr-complete
+ *                         - plan-activate
+ *                         - plan-deactivate
  *                     entity:
  *                       type: string
- *                       enum: [habit, journal, checkin]
+ *                       enum: [habit, journal, checkin, intention, dhikr, plan]
  *                     operation:
  *                       type: string
  *                       enum: [create, update, delete]
  *                     data:
  *                       type: object
- *                       description: Operation-specific data
+ *                       description: >
+ *                         Operation-specific data. Operations on an intention or dhikr session created
+ *                         offline may reference it by `createOperationId` instead of its id.
+ *                         `dhikr-increment` carries the number of new counts in `increment`, so counts
+ *                         made on several devices add together.
  *                     clientTimestamp:
  *                       type: string
  *                       format: date-time
@@ -145,8 +186,15 @@ interface SyncResponse {
  *                         type: string
  *                       serverTimestamp:
  *                         type: string
+ *                       entityId:
+ *                         type: string
+ *                         description: Server id of the affected entity
+ *                       replayed:
+ *                         type: boolean
+ *                         description: True when the operation id was already processed
  *                       conflict:
  *                         type: object
+ *                         description: Server and client snapshots for the ConflictResolver
  *                       error:
  *                         type: object
  *                 serverTimestamp:
@@ -174,8 +222,9 @@ router.post('/batch',
     const requestLogger = createRequestLogger(traceId);
 
     try {
-      const { operations, deviceId, lastSyncTimestamp } = req.body;
-      const userId = req.user.id;
+      const { operations, lastSyncTimestamp } = req.body;
+      const deviceId: string = req.body.deviceId || DEFAULT_DEVICE_ID;
+      const userId = req.userId;
 
       requestLogger.info('Starting batch sync', {
         userId,
@@ -185,7 +234,7 @@ router.post('/batch',
       });
 
       const results: SyncResult[] = [];
-      const conflicts: any[] = [];
+      const conflicts: SyncResponse['conflicts'] = [];
       let successCount = 0;
       let errorCount = 0;
       let conflictCount = 0;
@@ -193,7 +242,7 @@ router.post('/batch',
       // Process each operation
       for (const operation of operations) {
         try {
-          const result = await processSyncOperation(userId, operation, traceId);
+          const result = await processSyncOperation(userId, deviceId, operation, traceId);
 
           if (result.conflict) {
             conflicts.push(result.conflict);
@@ -243,6 +292,22 @@ router.post('/batch',
         response.nextSyncToken = generateSyncToken(userId);
       }
 
+      // Conflicts are persisted for later resolution, so only errors mark the sync as unsuccessful
+      const syncRepo = container.resolve<ISyncRepository>('ISyncRepository');
+      const deviceResult = await syncRepo.recordDeviceSync(new UserId(userId), deviceId, {
+        attemptedAt: new Date(),
+        successful: errorCount === 0,
+        errorCount
+      });
+
+      if (Result.isError(deviceResult)) {
+        requestLogger.warn('Failed to record device sync', {
+          userId,
+          deviceId,
+          error: deviceResult.error.message
+        });
+      }
+
       requestLogger.info('Batch sync completed', {
         userId,
         totalProcessed: operations.length,
@@ -256,7 +321,7 @@ router.post('/batch',
 
     } catch (error) {
       requestLogger.error('Batch sync failed', {
-        userId: req.user?.id,
+        userId: req.userId,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
 
@@ -301,11 +366,13 @@ router.post('/batch',
  *                 description: Required when resolution is 'merge'
  *     responses:
  *       200:
- *         description: Conflict resolved successfully
+ *         description: Conflict resolved and the chosen data applied
  *       400:
  *         description: Invalid resolution data
  *       404:
  *         description: Conflict not found
+ *       409:
+ *         description: Conflict was already resolved
  *       500:
  *         description: Internal server error
  */
@@ -318,8 +385,8 @@ router.post('/conflicts/:conflictId/resolve',
 
     try {
       const { conflictId } = req.params;
-      const { resolution } = req.body;
-      const userId = req.user.id;
+      const { resolution, mergedData } = req.body;
+      const userId = req.userId;
 
       requestLogger.info('Resolving sync conflict', {
         userId,
@@ -327,27 +394,32 @@ router.post('/conflicts/:conflictId/resolve',
         resolution
       });
 
-      // TODO: Implement conflict resolution logic
-      // This would typically:
-      // 1. Retrieve conflict details from database
-      // 2. Apply the chosen resolution strategy
-      // 3. Update the affected entity
-      // 4. Remove the conflict from pending conflicts
+      const useCase = container.resolve(ResolveSyncConflictUseCase);
+      const result = await useCase.execute({ conflictId, userId, resolution, mergedData });
+
+      if (Result.isError(result)) {
+        const message = result.error.message;
+        const errorCode = message.includes('not found') ? ErrorCode.NOT_FOUND :
+                          message.includes('already resolved') ? ErrorCode.CONFLICT :
+                          message.includes('Unauthorized') ? ErrorCode.UNAUTHORIZED : ErrorCode.SERVER_ERROR;
+
+        requestLogger.error('Failed to apply conflict resolution', { userId, conflictId, error: message });
+        const { response, status, headers } = handleExpressError(
+          createAppError(errorCode, errorCode === ErrorCode.SERVER_ERROR ? 'Failed to resolve conflict' : message),
+          traceId
+        );
+        res.status(status).set(headers).json(response);
+        return;
+      }
 
-      // For now, return success placeholder
-      const responseData = {
-        conflictId,
-        resolution,
-        resolvedAt: new Date().toISOString(),
-        message: 'Conflict resolved successfully'
-      };
+      requestLogger.info('Sync conflict resolved', { userId, conflictId, resolution });
 
-      const successResponse = createSuccessResponse(responseData, traceId);
+      const successResponse = createSuccessResponse(result.value, traceId);
       res.json(successResponse);
 
     } catch (error) {
       requestLogger.error('Conflict resolution failed', {
-        userId: req.user?.id,
+        userId: req.userId,
         conflictId: req.params.conflictId,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
@@ -370,6 +442,13 @@ router.post('/conflicts/:conflictId/resolve',
  *     tags: [Sync]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - name: deviceId
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Only return conflicts raised by this device
  *     responses:
  *       200:
  *         description: Sync status retrieved successfully
@@ -382,41 +461,50 @@ router.post('/conflicts/:conflictId/resolve',
  *                   type: array
  *                 lastSyncTimestamp:
  *                   type: string
+ *                   nullable: true
  *                 totalConflicts:
  *                   type: number
+ *                 devices:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       deviceId:
+ *                         type: string
+ *                       lastSuccessfulSyncAt:
+ *                         type: string
+ *                         nullable: true
+ *                       lastAttemptAt:
+ *                         type: string
+ *                       lastErrorCount:
+ *                         type: number
  *                 syncHealth:
  *                   type: string
  *                   enum: [healthy, warning, error]
  */
-router.get('/status', authMiddleware, async (req: any, res): Promise<void> => {
+router.get('/status', authMiddleware, validateQuery(syncStatusQuerySchema), async (req: any, res): Promise<void> => {
   const traceId = getExpressTraceId(req);
   const requestLogger = createRequestLogger(traceId);
 
   try {
-    const userId = req.user.id;
-
-    requestLogger.info('Getting sync status', { userId });
-
-    // TODO: Implement actual sync status retrieval from database
-    // This would typically query:
-    // 1. Pending conflicts for user
-    // 2. Last successful sync timestamp
-    // 3. Sync health metrics
-
-    const syncStatus = {
-      pendingConflicts: [],
-      lastSyncTimestamp: new Date().toISOString(),
-      totalConflicts: 0,
-      syncHealth: 'healthy' as const,
-      serverTimestamp: new Date().toISOString()
-    };
+    const userId = req.userId;
+    const { deviceId } = req.query;
 
-    const successResponse = createSuccessResponse(syncStatus, traceId);
+    requestLogger.info('Getting sync status', { userId, deviceId });
+
+    const useCase = container.resolve(GetSyncStatusUseCase);
+    const result = await useCase.execute(userId, deviceId);
+
+    if (Result.isError(result)) {
+      throw result.error;
+    }
+
+    const successResponse = createSuccessResponse(result.value, traceId);
     res.json(successResponse);
 
   } catch (error) {
     requestLogger.error('Failed to get sync status', {
-      userId: req.user?.id,
+      userId: req.userId,
       error: error instanceof Error ? error.message : 'Unknown error'
     });
 
@@ -428,11 +516,149 @@ router.get('/status', authMiddleware, async (req: any, res): Promise<void> => {
   }
 });
 
+/**
+ * @openapi
+ * /v2/sync/changes:
+ *   get:
+ *     summary: Pull server changes since a sync token
+ *     description: >
+ *       Return habits, journals, checkins, intentions and dhikr sessions created or updated
+ *       since the token, plus tombstones for deleted entities. Each page holds up to `limit`
+ *       changes per entity type; while `hasMore` is true request the next page with the same
+ *       `since`, `until` set to the returned `nextSyncToken` and `cursor` set to the returned
+ *       `nextCursor`.
+ *     tags: [Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: since
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Token from a previous sync; omit for a full pull
+ *       - name: until
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: nextSyncToken of the first page when fetching later pages
+ *       - name: cursor
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: nextCursor of the previous page when fetching later pages
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *           default: 100
+ *     responses:
+ *       200:
+ *         description: Changes retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 changes:
+ *                   type: object
+ *                   description: Created and updated entities keyed by habits, journals, checkins, intentions and dhikrSessions
+ *                   additionalProperties:
+ *                     type: object
+ *                     properties:
+ *                       created:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                       updated:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                 deleted:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       entity:
+ *                         type: string
+ *                         enum: [habit, journal, checkin, intention, dhikr]
+ *                       entityId:
+ *                         type: string
+ *                       deletedAt:
+ *                         type: string
+ *                         format: date-time
+ *                 page:
+ *                   type: number
+ *                 hasMore:
+ *                   type: boolean
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                 nextSyncToken:
+ *                   type: string
+ *                 serverTimestamp:
+ *                   type: string
+ *       400:
+ *         description: Invalid sync token or page cursor
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/changes', authMiddleware, validateQuery(syncChangesQuerySchema), async (req: any, res): Promise<void> => {
+  const traceId = getExpressTraceId(req);
+  const requestLogger = createRequestLogger(traceId);
+
+  try {
+    const userId = req.userId;
+    const { since, until, cursor, limit } = req.query;
+
+    requestLogger.info('Pulling sync changes', { userId, since, cursor, limit });
+
+    const useCase = container.resolve(GetSyncChangesUseCase);
+    const result = await useCase.execute({ userId, since, until, cursor, limit });
+
+    if (Result.isError(result)) {
+      if (result.error.message.includes('Invalid sync token') || result.error.message.includes('Invalid page cursor')) {
+        const { response, status, headers } = handleExpressError(
+          createAppError(ErrorCode.VALIDATION_ERROR, result.error.message),
+          traceId
+        );
+        res.status(status).set(headers).json(response);
+        return;
+      }
+
+      throw result.error;
+    }
+
+    const successResponse = createSuccessResponse(result.value, traceId);
+    res.json(successResponse);
+
+  } catch (error) {
+    requestLogger.error('Failed to pull sync changes', {
+      userId: req.userId,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+
+    const { response, status } = handleExpressError(
+      createAppError(ErrorCode.SERVER_ERROR, 'Failed to retrieve sync changes'),
+      traceId
+    );
+    res.status(status).json(response);
+  }
+});
+
 /**
  * Process a single sync operation
  */
 async function processSyncOperation(
   userId: string,
+  deviceId: string | undefined,
   operation: SyncOperation,
   traceId: string
 ): Promise<SyncResult> {
@@ -445,149 +671,35 @@ async function processSyncOperation(
     entity: operation.entity
   });
 
-  const serverTimestamp = new Date().toISOString();
+  const useCase = container.resolve(ProcessSyncOperationUseCase);
+  const result = await useCase.execute({ userId, deviceId, operation });
 
-  try {
-    // TODO: Implement actual operation processing based on type
-    switch (operation.type) {
-      case 'habit-toggle':
-        return await processHabitToggle(userId, operation, serverTimestamp);
-
-      case 'journal-create':
-        return await processJournalCreate(userId, operation, serverTimestamp);
-
-      case 'journal-delete':
-        return await processJournalDelete(userId, operation, serverTimestamp);
-
-      case 'checkin-create':
-        return await processCheckinCreate(userId, operation, serverTimestamp);
-
-      default:
-        throw new Error(`Unsupported operation type: ${operation.type}`);
-    }
-
-  } catch (error) {
+  if (Result.isError(result)) {
     requestLogger.error('Sync operation processing failed', {
       userId,
       operationId: operation.id,
-      error: error instanceof Error ? error.message : 'Unknown error'
+      error: result.error.message
     });
 
     return {
       success: false,
       operationId: operation.id,
-      serverTimestamp,
+      serverTimestamp: new Date().toISOString(),
       error: {
         code: 'OPERATION_FAILED',
-        message: error instanceof Error ? error.message : 'Unknown error'
+        message: result.error.message
       }
     };
   }
-}
-
-/**
- * Process habit toggle operation
- */
-async function processHabitToggle(
-  userId: string,
-  operation: SyncOperation,
-  serverTimestamp: string
-): Promise<SyncResult> {
-
-  // TODO: Implement actual habit toggle logic
-  // This would typically:
-  // 1. Validate the habit exists and belongs to user
-  // 2. Check for conflicts (e.g., if habit was modified on server after client timestamp)
-  // 3. Apply the toggle operation
-  // 4. Update habit completion state and streak
-
-  // For now, return success placeholder
-  return {
-    success: true,
-    operationId: operation.id,
-    serverTimestamp
-  };
-}
-
-/**
- * Process journal entry creation
- */
-async function processJournalCreate(
-  userId: string,
-  operation: SyncOperation,
-  serverTimestamp: string
-): Promise<SyncResult> {
-
-  // TODO: Implement actual journal creation logic
-  // This would typically:
-  // 1. Validate journal entry data
-  // 2. Check for duplicate entries (by client-generated ID)
-  // 3. Create the journal entry
-  // 4. Return the server-generated ID
-
-  // For now, return success placeholder
-  return {
-    success: true,
-    operationId: operation.id,
-    serverTimestamp
-  };
-}
-
-/**
- * Process journal entry deletion
- */
-async function processJournalDelete(
-  userId: string,
-  operation: SyncOperation,
-  serverTimestamp: string
-): Promise<SyncResult> {
-
-  // TODO: Implement actual journal deletion logic
-  // This would typically:
-  // 1. Validate the journal entry exists and belongs to user
-  // 2. Check if entry was already deleted
-  // 3. Perform soft delete or hard delete based on business rules
-
-  // For now, return success placeholder
-  return {
-    success: true,
-    operationId: operation.id,
-    serverTimestamp
-  };
-}
-
-/**
- * Process checkin creation
- */
-async function processCheckinCreate(
-  userId: string,
-  operation: SyncOperation,
-  serverTimestamp: string
-): Promise<SyncResult> {
-
-  // TODO: Implement actual checkin creation logic
-  // This would typically:
-  // 1. Validate checkin data
-  // 2. Check for duplicate checkins for the same date
-  // 3. Create or update the checkin entry
-  // 4. Calculate streak and other metrics
-
-  // For now, return success placeholder
-  return {
-    success: true,
-    operationId: operation.id,
-    serverTimestamp
-  };
-}
 
+  if (result.value.replayed) {
+    requestLogger.info('Replayed previously processed sync operation', {
+      userId,
+      operationId: operation.id
+    });
+  }
 
-/**
- * Generate sync token for next sync
- */
-function generateSyncToken(userId: string): string {
-  const timestamp = Date.now();
-  const random = Math.random().toString(36).substr(2, 9);
-  return `${userId}_${timestamp}_${random}`;
+  return result.value;
 }
 
 export default router;
\ No newline at end of file
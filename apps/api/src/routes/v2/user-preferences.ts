@@ -3,7 +3,8 @@ import { container } from 'tsyringe';
 import { AuthRequest } from '@/infrastructure/auth/middleware';
 import { validateRequest, validateBody } from '@/infrastructure/middleware/validation';
 import { IUserPreferencesRepository } from '@/infrastructure/repos/UserPreferencesRepository';
-import { UserPreferencesEntity } from '@/domain/entities/UserPreferences';
+import { UserPreferencesEntity, MAX_COMPLETION_GRACE_DAYS, MAX_HIJRI_ADJUSTMENT } from '@/domain/entities/UserPreferences';
+import { CALCULATION_METHODS, MAX_PRAYER_ADJUSTMENT_MINUTES } from '@/domain/value-objects/CalculationMethod';
 import { Result } from '@/shared/result';
 import { ErrorCode, createAppError, handleExpressError, getExpressTraceId, createSuccessResponse, createRequestLogger } from '@/shared/errors';
 import { z } from 'zod';
@@ -48,13 +49,39 @@ const DisplaySettingsSchema = z.object({
   showArabicWithTranslation: z.boolean().optional()
 });
 
+const HabitSettingsSchema = z.object({
+  completionGraceDays: z.number().int().min(0).max(MAX_COMPLETION_GRACE_DAYS).optional()
+});
+
+const CalendarSettingsSchema = z.object({
+  hijriAdjustment: z.number().int().min(-MAX_HIJRI_ADJUSTMENT).max(MAX_HIJRI_ADJUSTMENT).optional()
+});
+
+const AdjustmentMinutesSchema = z.number().int().min(-MAX_PRAYER_ADJUSTMENT_MINUTES).max(MAX_PRAYER_ADJUSTMENT_MINUTES).optional();
+
+const PrayerSettingsSchema = z.object({
+  asrMadhab: z.enum(['Shafi', 'Hanafi']).optional(),
+  highLatitudeRule: z.enum(['MiddleOfTheNight', 'SeventhOfTheNight', 'TwilightAngle']).optional(),
+  adjustments: z.object({
+    fajr: AdjustmentMinutesSchema,
+    sunrise: AdjustmentMinutesSchema,
+    dhuhr: AdjustmentMinutesSchema,
+    asr: AdjustmentMinutesSchema,
+    maghrib: AdjustmentMinutesSchema,
+    isha: AdjustmentMinutesSchema
+  }).optional()
+});
+
 const UpdatePreferencesSchema = z.object({
   language: z.enum(['en', 'ar', 'ur']).optional(),
   location: LocationSchema.optional(),
-  prayerCalculationMethod: z.enum(['ISNA', 'MWL', 'Egypt', 'Makkah', 'Karachi', 'Tehran', 'Jafari']).optional(),
+  prayerCalculationMethod: z.enum(CALCULATION_METHODS).optional(),
   notificationSettings: NotificationSettingsSchema.optional(),
   privacySettings: PrivacySettingsSchema.optional(),
-  displaySettings: DisplaySettingsSchema.optional()
+  displaySettings: DisplaySettingsSchema.optional(),
+  habitSettings: HabitSettingsSchema.optional(),
+  calendarSettings: CalendarSettingsSchema.optional(),
+  prayerSettings: PrayerSettingsSchema.optional()
 });
 
 const UpdateLanguageSchema = z.object({
@@ -197,6 +224,18 @@ router.put('/preferences', validateRequest(UpdatePreferencesSchema), async (req:
       preferences.updateDisplaySettings(updates.displaySettings);
     }
 
+    if (updates.habitSettings) {
+      preferences.updateHabitSettings(updates.habitSettings);
+    }
+
+    if (updates.calendarSettings) {
+      preferences.updateCalendarSettings(updates.calendarSettings);
+    }
+
+    if (updates.prayerSettings) {
+      preferences.updatePrayerSettings(updates.prayerSettings);
+    }
+
     // Upsert the preferences
     const result = await repository.upsert(preferences);
 
@@ -7,6 +7,7 @@ import { CacheFactory } from './infrastructure/cache/factory';
 import { PrometheusMetricsProvider } from './infrastructure/observability/PrometheusMetricsProvider';
 import { EventDispatcher } from './domain/events/EventDispatcher';
 import { HabitEventHandlers } from './application/event-handlers/HabitEventHandlers';
+import { PlanEventHandlers } from './application/event-handlers/PlanEventHandlers';
 import { container } from './infrastructure/di/container';
 import { EventProjectionManager } from './infrastructure/events/EventProjectionManager';
 import { metricsMiddleware, errorLoggingMiddleware } from './infrastructure/middleware/observability';
@@ -25,6 +26,7 @@ export async function createApp(): Promise<Express> {
   // Initialize event handlers
   const eventDispatcher = EventDispatcher.getInstance();
   HabitEventHandlers.registerAll(eventDispatcher);
+  PlanEventHandlers.registerAll(eventDispatcher);
 
   // Start event projections
   const projectionManager = container.resolve<EventProjectionManager>('IEventProjectionStore');
@@ -12,6 +12,9 @@ export enum ErrorCode {
   VALIDATION_ERROR = 'validation_error',
   MALFORMED_REQUEST = 'malformed_request',
 
+  // Forbidden (403)
+  FORBIDDEN = 'forbidden',
+
   // Not Found (404)
   NOT_FOUND = 'not_found',
   USER_NOT_FOUND = 'user_not_found',
@@ -112,6 +115,9 @@ export const ErrorCodeToStatus: Record<ErrorCode, number> = {
   [ErrorCode.VALIDATION_ERROR]: 400,
   [ErrorCode.MALFORMED_REQUEST]: 400,
 
+  // Forbidden (403)
+  [ErrorCode.FORBIDDEN]: 403,
+
   // Not Found (404)
   [ErrorCode.NOT_FOUND]: 404,
   [ErrorCode.USER_NOT_FOUND]: 404,
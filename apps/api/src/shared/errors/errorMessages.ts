@@ -14,6 +14,9 @@ export const ERROR_MESSAGES: Record<ErrorCode, string> = {
   [ErrorCode.VALIDATION_ERROR]: 'The information provided does not meet the requirements.',
   [ErrorCode.MALFORMED_REQUEST]: 'The request format is invalid. Please try again.',
 
+  // Forbidden (403)
+  [ErrorCode.FORBIDDEN]: 'You do not have permission to do this.',
+
   // Not Found (404)
   [ErrorCode.NOT_FOUND]: 'The requested resource was not found.',
   [ErrorCode.USER_NOT_FOUND]: 'User account not found. Please check your credentials.',
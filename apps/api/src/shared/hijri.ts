@@ -0,0 +1,90 @@
+/**
+ * Hijri (Umm al-Qura) calendar helpers.
+ *
+ * Conversion uses the ICU islamic-umalqura calendar, which carries the
+ * official Umm al-Qura month tables for 1300–1600 AH and falls back to the
+ * tabular civil calendar outside that range. Gregorian input is a calendar
+ * day (YYYY-MM-DD) in the user's timezone, as produced by shared/timezone.
+ */
+
+import { addDays } from './timezone';
+
+export type HijriLocale = 'en' | 'ar';
+
+export interface HijriDate {
+  year: number;
+  month: number; // 1 = Muharram … 12 = Dhu al-Hijjah
+  day: number;
+}
+
+export const HIJRI_MONTH_NAMES: Record<HijriLocale, readonly string[]> = {
+  en: [
+    'Muharram',
+    'Safar',
+    'Rabi al-Awwal',
+    'Rabi al-Thani',
+    'Jumada al-Ula',
+    'Jumada al-Akhirah',
+    'Rajab',
+    "Sha'ban",
+    'Ramadan',
+    'Shawwal',
+    "Dhu al-Qa'dah",
+    'Dhu al-Hijjah'
+  ],
+  ar: [
+    'مُحَرَّم',
+    'صَفَر',
+    'رَبِيع الأَوَّل',
+    'رَبِيع الثَّانِي',
+    'جُمَادَى الأُولَى',
+    'جُمَادَى الآخِرَة',
+    'رَجَب',
+    'شَعْبَان',
+    'رَمَضَان',
+    'شَوَّال',
+    'ذُو القَعْدَة',
+    'ذُو الحِجَّة'
+  ]
+};
+
+const formatter = new Intl.DateTimeFormat('en-u-ca-islamic-umalqura-nu-latn', {
+  timeZone: 'UTC',
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric'
+});
+
+/**
+ * Maps any app language onto a locale with Hijri month names, defaulting to English
+ */
+export function resolveHijriLocale(language?: string | null): HijriLocale {
+  return language === 'ar' ? 'ar' : 'en';
+}
+
+/**
+ * Umm al-Qura date of a YYYY-MM-DD calendar day, shifted by the user's
+ * moon-sighting adjustment in days
+ */
+export function toHijri(dateString: string, adjustment: number = 0): HijriDate {
+  const shifted = addDays(dateString, adjustment);
+  const parts = formatter.formatToParts(new Date(`${shifted}T00:00:00.000Z`));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)!.value);
+
+  return { year: part('year'), month: part('month'), day: part('day') };
+}
+
+/**
+ * e.g. "1 Ramadan 1445 AH" or "1 رَمَضَان 1445 هـ"
+ */
+export function formatHijriDate(date: HijriDate, locale: HijriLocale = 'en'): string {
+  const era = locale === 'ar' ? 'هـ' : 'AH';
+  return `${date.day} ${HIJRI_MONTH_NAMES[locale][date.month - 1]} ${date.year} ${era}`;
+}
+
+/**
+ * The 13th, 14th and 15th of each Hijri month, on which voluntary fasting is sunnah
+ */
+export function isWhiteDay(date: HijriDate): boolean {
+  return date.day >= 13 && date.day <= 15;
+}
@@ -0,0 +1,120 @@
+/**
+ * Calendar-day helpers for user timezones.
+ *
+ * Date-only values (habit completions, check-in dates, dhikr session dates)
+ * are stored as YYYY-MM-DD and carried around as Dates at UTC midnight, so
+ * `toISOString().split('T')[0]` on them yields the user's calendar day.
+ */
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+const dateTimeFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getDateTimeFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = dateTimeFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23'
+    });
+    dateTimeFormatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the timezone if it is a known IANA name, otherwise UTC
+ */
+export function resolveTimezone(timezone?: string | null): string {
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) of an instant as seen in the given timezone
+ */
+export function toLocalDateString(date: Date, timezone: string = DEFAULT_TIMEZONE): string {
+  const parts = getFormatter(resolveTimezone(timezone)).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)!.value;
+
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+/**
+ * Calendar day of an instant in the given timezone, as a Date at UTC midnight
+ */
+export function toLocalDate(date: Date, timezone: string = DEFAULT_TIMEZONE): Date {
+  return new Date(`${toLocalDateString(date, timezone)}T00:00:00.000Z`);
+}
+
+/**
+ * Hour of the day (0-23) of an instant on the wall clock of the given timezone
+ */
+export function toLocalHour(date: Date, timezone: string = DEFAULT_TIMEZONE): number {
+  const parts = getDateTimeFormatter(resolveTimezone(timezone)).formatToParts(date);
+  return Number(parts.find(p => p.type === 'hour')!.value);
+}
+
+/**
+ * Shifts a YYYY-MM-DD calendar day by a number of days
+ */
+export function addDays(dateString: string, days: number): string {
+  const date = new Date(`${dateString}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Instant at which a wall-clock time (HH:mm) falls on a calendar day in the given timezone.
+ * A time skipped by a daylight-saving jump moves forward by the jump, e.g. 02:30 becomes 03:30.
+ */
+export function toInstant(dateString: string, time: string, timezone: string = DEFAULT_TIMEZONE): Date {
+  const resolved = resolveTimezone(timezone);
+  const wallClock = Date.parse(`${dateString}T${time}:00.000Z`);
+  const estimate = wallClock - utcOffsetAt(wallClock, resolved);
+
+  // Across a DST change the offset at the answer can differ from the offset at the estimate
+  const offset = utcOffsetAt(estimate, resolved);
+  const instant = wallClock - offset;
+
+  // In a skipped hour neither offset reproduces the wall time; the estimate lands just after the jump
+  return new Date(utcOffsetAt(instant, resolved) === offset ? instant : estimate);
+}
+
+function utcOffsetAt(timestamp: number, timezone: string): number {
+  const parts = getDateTimeFormatter(timezone).formatToParts(new Date(timestamp));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)!.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+
+  return wallClock - Math.floor(timestamp / 1000) * 1000;
+}
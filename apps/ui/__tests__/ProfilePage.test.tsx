@@ -126,7 +126,7 @@ describe('ProfilePage', () => {
       data: {
         language: 'en',
         location: null,
-        prayerCalculationMethod: 'ISNA',
+        prayerCalculationMethod: 'NorthAmerica',
         notificationSettings: {
           fajrReminder: true,
           dailyReminder: true,
@@ -211,7 +211,7 @@ describe('ProfilePage', () => {
       expect(mockPreferencesService.updatePreferences).toHaveBeenCalledWith(
         expect.objectContaining({
           language: 'en',
-          prayerCalculationMethod: 'ISNA'
+          prayerCalculationMethod: 'NorthAmerica'
         })
       );
     });
@@ -322,7 +322,7 @@ describe('ProfilePage', () => {
 
     // Change to Muslim World League
     const prayerMethodSelect = screen.getByDisplayValue('🇺🇸 ISNA (Islamic Society of North America)');
-    fireEvent.change(prayerMethodSelect, { target: { value: 'MWL' } });
+    fireEvent.change(prayerMethodSelect, { target: { value: 'MuslimWorldLeague' } });
 
     // Submit form
     const saveButton = screen.getByText('Save Changes');
@@ -331,7 +331,7 @@ describe('ProfilePage', () => {
     await waitFor(() => {
       expect(mockPreferencesService.updatePreferences).toHaveBeenCalledWith(
         expect.objectContaining({
-          prayerCalculationMethod: 'MWL'
+          prayerCalculationMethod: 'MuslimWorldLeague'
         })
       );
     });
@@ -11,6 +11,22 @@ jest.mock('next/navigation');
 jest.mock('@/components/survey/hooks/useSurveyState');
 jest.mock('@/components/survey/hooks/useSurveyLanguage');
 jest.mock('@/components/survey/hooks/useSurveyValidation');
+jest.mock('@/components/survey/hooks/useSurveyQuestions', () => ({
+  useSurveyQuestions: () => ({
+    questions: [
+      { id: 'q5', questionId: 'anger', disease: 'anger', phase: 2, category: 'behavioral', order: 5, title: { en: 'Anger and Irritability' }, prompt: { en: '' } },
+      { id: 'q6', questionId: 'malice', disease: 'malice', phase: 2, category: 'behavioral', order: 6, title: { en: 'Hatred and Resentment' }, prompt: { en: '' } },
+      { id: 'q7', questionId: 'backbiting', disease: 'backbiting', phase: 2, category: 'behavioral', order: 7, title: { en: 'Gossip and Backbiting' }, prompt: { en: '' } },
+      { id: 'q8', questionId: 'suspicion', disease: 'suspicion', phase: 2, category: 'behavioral', order: 8, title: { en: 'Suspicion and Doubt' }, prompt: { en: '' } },
+      { id: 'q9', questionId: 'loveOfDunya', disease: 'loveOfDunya', phase: 2, category: 'behavioral', order: 9, title: { en: 'Attachment to Worldly Things' }, prompt: { en: '' } },
+      { id: 'q10', questionId: 'laziness', disease: 'laziness', phase: 2, category: 'behavioral', order: 10, title: { en: 'Spiritual Laziness' }, prompt: { en: '' } },
+      { id: 'q11', questionId: 'despair', disease: 'despair', phase: 2, category: 'behavioral', order: 11, title: { en: 'Hopelessness and Despair' }, prompt: { en: '' } }
+    ],
+    version: 1,
+    isLoading: false,
+    error: null
+  }),
+}));
 jest.mock('framer-motion', () => ({
   motion: {
     div: ({ children, ...props }: any) => <div {...props}>{children}</div>,
@@ -18,6 +34,8 @@ jest.mock('framer-motion', () => ({
   },
 }));
 
+const PHASE2_QUESTION_IDS = ['anger', 'malice', 'backbiting', 'suspicion', 'loveOfDunya', 'laziness', 'despair'];
+
 const mockRouter = {
   push: jest.fn(),
 };
@@ -86,7 +104,7 @@ describe('Phase2Page', () => {
   it('sets current phase to 2 on mount', () => {
     render(<Phase2Page />);
 
-    expect(mockSurveyState.setCurrentPhase).toHaveBeenCalledWith(2);
+    expect(mockSurveyState.setCurrentPhase).toHaveBeenCalledWith(2, PHASE2_QUESTION_IDS);
   });
 
   it('shows progress indicator with correct phase and percentage', () => {
@@ -144,7 +162,7 @@ describe('Phase2Page', () => {
     fireEvent.click(continueButton);
 
     await waitFor(() => {
-      expect(mockSurveyState.saveToAPI).toHaveBeenCalledWith(2);
+      expect(mockSurveyState.saveToAPI).toHaveBeenCalledWith(2, PHASE2_QUESTION_IDS);
       expect(mockRouter.push).toHaveBeenCalledWith('/onboarding/reflection');
     });
   });
@@ -224,7 +242,7 @@ describe('Phase2Page', () => {
     fireEvent.click(continueButton);
 
     await waitFor(() => {
-      expect(mockSurveyState.saveToAPI).toHaveBeenCalledWith(2);
+      expect(mockSurveyState.saveToAPI).toHaveBeenCalledWith(2, PHASE2_QUESTION_IDS);
       expect(consoleSpy).toHaveBeenCalledWith('Failed to save Phase 2 responses');
       expect(mockRouter.push).not.toHaveBeenCalled();
     });
@@ -49,6 +49,20 @@ jest.mock('@/components/survey/hooks/useSurveyValidation', () => ({
   })),
 }));
 
+jest.mock('@/components/survey/hooks/useSurveyQuestions', () => ({
+  useSurveyQuestions: () => ({
+    questions: [
+      { id: 'q1', questionId: 'envy', disease: 'envy', phase: 1, category: 'inner', order: 1, title: { en: 'Envy and Jealousy' }, prompt: { en: '' } },
+      { id: 'q2', questionId: 'arrogance', disease: 'arrogance', phase: 1, category: 'inner', order: 2, title: { en: 'Pride and Arrogance' }, prompt: { en: '' } },
+      { id: 'q3', questionId: 'selfDeception', disease: 'selfDeception', phase: 1, category: 'inner', order: 3, title: { en: 'Self-Deception' }, prompt: { en: '' } },
+      { id: 'q4', questionId: 'lust', disease: 'lust', phase: 1, category: 'inner', order: 4, title: { en: 'Inappropriate Desires' }, prompt: { en: '' } }
+    ],
+    version: 1,
+    isLoading: false,
+    error: null
+  }),
+}));
+
 jest.mock('@/components/survey/hooks/useSurveyState', () => ({
   useSurveyState: () => ({
     state: {
@@ -313,7 +327,7 @@ describe('Phase1Page', () => {
       fireEvent.click(continueButton);
 
       await waitFor(() => {
-        expect(mockSaveToAPI).toHaveBeenCalledWith(1);
+        expect(mockSaveToAPI).toHaveBeenCalledWith(1, ['envy', 'arrogance', 'selfDeception', 'lust']);
       });
     });
 
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PushSubscriptionService } from '../../lib/services/push-subscription-service';
+
+vi.mock('../../lib/auth-utils', () => ({
+  AuthUtils: {
+    getAuthTokenWithFallback: vi.fn().mockResolvedValue('test-token')
+  }
+}));
+
+const subscriptionJson = {
+  endpoint: 'https://push.example.com/device-1',
+  keys: { p256dh: 'p256dh-key', auth: 'auth-key' }
+};
+
+const subscription = {
+  endpoint: subscriptionJson.endpoint,
+  toJSON: () => subscriptionJson,
+  unsubscribe: vi.fn().mockResolvedValue(true)
+};
+
+const pushManager = {
+  getSubscription: vi.fn(),
+  subscribe: vi.fn()
+};
+
+const fetchMock = vi.fn();
+
+describe('PushSubscriptionService', () => {
+  let service: PushSubscriptionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('NEXT_PUBLIC_API_URL', 'https://api.example.com/api');
+
+    const notification = { permission: 'granted', requestPermission: vi.fn().mockResolvedValue('granted') };
+    vi.stubGlobal('Notification', notification);
+    vi.stubGlobal('window', {
+      PushManager: class {},
+      Notification: notification,
+      atob: (value: string) => Buffer.from(value, 'base64').toString('binary')
+    });
+    vi.stubGlobal('navigator', { serviceWorker: { ready: Promise.resolve({ pushManager }) } });
+    vi.stubGlobal('fetch', fetchMock);
+
+    pushManager.getSubscription.mockResolvedValue(subscription);
+    fetchMock.mockImplementation(async (url: string) => ({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      json: async () => url.endsWith('/public-key')
+        ? { data: { enabled: true, publicKey: 'BPublicKey' } }
+        : { data: {} }
+    }));
+
+    service = new PushSubscriptionService();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('fetches the key and saves the subscription on the API with the auth token', async () => {
+    const result = await service.subscribe();
+
+    expect(result.success).toBe(true);
+    expect(fetchMock).toHaveBeenCalledWith('https://api.example.com/api/v2/push/public-key', {
+      headers: { Authorization: 'Bearer test-token' }
+    });
+    expect(fetchMock).toHaveBeenCalledWith('https://api.example.com/api/v2/push/subscriptions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: 'Bearer test-token'
+      },
+      body: JSON.stringify(subscriptionJson)
+    });
+  });
+
+  it('removes the subscription from the API with the auth token', async () => {
+    const result = await service.unsubscribe();
+
+    expect(result.success).toBe(true);
+    expect(fetchMock).toHaveBeenCalledWith('https://api.example.com/api/v2/push/subscriptions', {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: 'Bearer test-token'
+      },
+      body: JSON.stringify({ endpoint: subscriptionJson.endpoint })
+    });
+    expect(subscription.unsubscribe).toHaveBeenCalled();
+  });
+
+  it('re-saves the current subscription after the browser rotates it', async () => {
+    const result = await service.resyncSubscription();
+
+    expect(result.success).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith('https://api.example.com/api/v2/push/subscriptions', expect.objectContaining({
+      method: 'POST',
+      headers: expect.objectContaining({ Authorization: 'Bearer test-token' })
+    }));
+  });
+
+  it('does not resync when notification permission was never granted', async () => {
+    vi.stubGlobal('Notification', { permission: 'default' });
+
+    const result = await service.resyncSubscription();
+
+    expect(result.success).toBe(true);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
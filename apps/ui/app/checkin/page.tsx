@@ -18,6 +18,9 @@ import {
   SentimentVerySatisfied
 } from '@mui/icons-material';
 
+type CheckinSession = 'morning' | 'evening';
+
+// Used until the server's prompts arrive, or if they can't be loaded
 const REFLECTION_PROMPTS = [
   'What am I most grateful for today?',
   'How did I serve Allah today?',
@@ -29,6 +32,20 @@ const REFLECTION_PROMPTS = [
   'How was my character with family and friends?',
 ];
 
+interface EveningReview {
+  morning: { intention: string | null; mood: number | null } | null;
+  habits: {
+    scheduled: number;
+    completed: number;
+    items: { habitId: string; title: string; scheduled: boolean; completed: boolean }[];
+  };
+}
+
+interface GratitudeTheme {
+  theme: string;
+  count: number;
+}
+
 interface StreakInfo {
   current: number;
   longest: number;
@@ -38,6 +55,7 @@ interface StreakInfo {
 
 
 export default function CheckinPage() {
+  const [session, setSession] = useState<CheckinSession>(() => (new Date().getHours() < 15 ? 'morning' : 'evening'));
   const [intention, setIntention] = useState('');
   const [reflection, setReflection] = useState('');
   const [mood, setMood] = useState<number>(0);
@@ -48,8 +66,11 @@ export default function CheckinPage() {
   const [randomPrompt, setRandomPrompt] = useState('');
   const [successMessage, setSuccessMessage] = useState('');
   const [streakInfo, setStreakInfo] = useState<StreakInfo | null>(null);
-  const [hasCheckedInToday, setHasCheckedInToday] = useState(false);
-  const [isUpdate, setIsUpdate] = useState(false);
+  const [completedSessions, setCompletedSessions] = useState<Record<CheckinSession, boolean>>({ morning: false, evening: false });
+  const [sessionMoods, setSessionMoods] = useState<Record<CheckinSession, number>>({ morning: 0, evening: 0 });
+  const [eveningPrompts, setEveningPrompts] = useState<string[]>([]);
+  const [review, setReview] = useState<EveningReview | null>(null);
+  const [gratitudeThemes, setGratitudeThemes] = useState<GratitudeTheme[]>([]);
   const { error, handleError, clearError } = useErrorHandler();
 
   useEffect(() => {
@@ -68,40 +89,26 @@ export default function CheckinPage() {
       // Get today's checkin
       const todayResponse = await api.getTodayCheckin(token) as any;
 
-        if (todayResponse.hasCheckedIn && todayResponse.data) {
-          setHasCheckedInToday(true);
-          setIsUpdate(true);
-
-          // Parse the reflection to extract gratitude and improvements
-          const checkinData = todayResponse.data;
-          if (checkinData.reflection) {
-            const parts = checkinData.reflection.split('\n\n');
-            let mainReflection = '';
-            const extractedGratitude: string[] = ['', '', ''];
-            let extractedImprovements = '';
-
-            for (const part of parts) {
-              if (part.startsWith('Gratitude:')) {
-                const gratitudeLines = part.replace('Gratitude:\n', '').split('\n');
-                gratitudeLines.forEach((line: string, index: number) => {
-                  if (index < 3) {
-                    extractedGratitude[index] = line.replace(/^\d+\.\s*/, '');
-                  }
-                });
-              } else if (part.startsWith('Improvements:')) {
-                extractedImprovements = part.replace('Improvements:\n', '');
-              } else {
-                mainReflection = part;
-              }
-            }
-
-            setReflection(mainReflection);
-            setGratitude(extractedGratitude);
-            setImprovements(extractedImprovements);
-          }
-
-          if (checkinData.mood !== undefined) setMood(checkinData.mood);
-          if (checkinData.intention) setIntention(checkinData.intention);
+        const morningCheckin = todayResponse.data?.morning;
+        const eveningCheckin = todayResponse.data?.evening;
+        setCompletedSessions({ morning: !!morningCheckin, evening: !!eveningCheckin });
+        setSessionMoods({ morning: morningCheckin?.mood ?? 0, evening: eveningCheckin?.mood ?? 0 });
+
+        if (morningCheckin?.intention) setIntention(morningCheckin.intention);
+        if (eveningCheckin) {
+          const savedGratitude: string[] = eveningCheckin.gratitude || [];
+          setReflection(eveningCheckin.reflection || '');
+          setGratitude([0, 1, 2].map(index => savedGratitude[index] || ''));
+          setImprovements(eveningCheckin.improvements || '');
+        }
+        setMood((session === 'morning' ? morningCheckin : eveningCheckin)?.mood ?? 0);
+
+        // The evening prompts start from the morning intention and today's habits
+        if (todayResponse.prompts?.evening?.length) {
+          setEveningPrompts(todayResponse.prompts.evening);
+        }
+        if (todayResponse.review) {
+          setReview(todayResponse.review);
         }
 
         // Set streak info
@@ -114,6 +121,12 @@ export default function CheckinPage() {
         if (streakResponse) {
           setStreakInfo(streakResponse);
         }
+
+        // What the user has been grateful for this month
+        const gratitudeResponse = await api.getGratitudeHistory(token) as any;
+        if (gratitudeResponse?.themes) {
+          setGratitudeThemes(gratitudeResponse.themes);
+        }
     } catch (error) {
       console.error('Error loading today\'s checkin:', error);
     } finally {
@@ -121,6 +134,13 @@ export default function CheckinPage() {
     }
   };
 
+  const switchSession = (next: CheckinSession) => {
+    setSessionMoods(moods => ({ ...moods, [session]: mood }));
+    setMood(sessionMoods[next]);
+    setSession(next);
+    setSuccessMessage('');
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -130,13 +150,16 @@ export default function CheckinPage() {
     try {
       const token = await AuthUtils.getAuthTokenWithFallback();
 
-      const checkinData = {
-        intention,
-        reflection,
-        gratitude: gratitude.filter(g => g.trim()),
-        improvements,
-        mood,
-      };
+      // Each session only sends its own fields
+      const checkinData = session === 'morning'
+        ? { session, intention, mood }
+        : {
+            session,
+            reflection,
+            gratitude: gratitude.filter(g => g.trim()),
+            improvements,
+            mood,
+          };
 
       const response = await api.createCheckin(checkinData, token);
 
@@ -145,22 +168,14 @@ export default function CheckinPage() {
         setStreakInfo((response as any).streak);
       }
 
-      // Update the isUpdate flag
-      if ((response as any).isUpdate !== undefined) {
-        setIsUpdate((response as any).isUpdate);
-        setHasCheckedInToday(true);
-      }
-
-      // Reset form
-      setIntention('');
-      setReflection('');
-      setMood(0);
-      setGratitude(['', '', '']);
-      setImprovements('');
+      setCompletedSessions(sessions => ({ ...sessions, [session]: true }));
+      setSessionMoods(moods => ({ ...moods, [session]: mood }));
 
-      const message = (response as any).isUpdate
-        ? 'Alhamdulillah! Your muhasabah has been updated. May Allah accept your continued self-reflection.'
-        : 'Barakallahu feeki! Your muhasabah has been saved. May Allah accept your self-reflection and grant you spiritual growth.';
+      const message = session === 'morning'
+        ? 'Barakallahu feeki! Your intention for today is set. May Allah make it easy for you to fulfil it.'
+        : (response as any).isUpdate
+          ? 'Alhamdulillah! Your muhasabah has been updated. May Allah accept your continued self-reflection.'
+          : 'Barakallahu feeki! Your muhasabah has been saved. May Allah accept your self-reflection and grant you spiritual growth.';
       setSuccessMessage(message);
     } catch (error) {
       handleError(error, 'Saving Muhasabah');
@@ -171,6 +186,28 @@ export default function CheckinPage() {
 
   const moodIcons = [SentimentDissatisfied, SentimentNeutral, SentimentSatisfied, SentimentVerySatisfied, AutoAwesome];
   const moodLabels = ['Struggling', 'Neutral', 'Content', 'Happy', 'Blessed'];
+  const isUpdate = completedSessions[session];
+  const sessionLabels: Record<CheckinSession, string> = { morning: 'Morning Intention', evening: 'Evening Muhasabah' };
+
+  const renderMoodPicker = () => (
+    <div className="flex justify-between items-center">
+      {moodIcons.map((IconComponent, index) => (
+        <button
+          key={index}
+          type="button"
+          onClick={() => setMood(index - 2)}
+          className={`p-3 rounded-full transition-all ${
+            mood === index - 2
+              ? 'bg-primary-100 ring-2 ring-primary-400'
+              : 'hover:bg-gray-100'
+          }`}
+        >
+          <IconComponent sx={{ fontSize: 32, color: mood === index - 2 ? '#166534' : '#6b7280' }} />
+          <div className="text-xs text-gray-600">{moodLabels[index]}</div>
+        </button>
+      ))}
+    </div>
+  );
 
   return (
     <PageContainer
@@ -213,13 +250,15 @@ export default function CheckinPage() {
                     <p className="text-2xl font-bold text-amber-900">{streakInfo.totalCheckins}</p>
                   </div>
                 )}
-                {hasCheckedInToday && (
+                {(completedSessions.morning || completedSessions.evening) && (
                   <div>
                     <p className="text-sm text-amber-600">Today's Status</p>
-                    <div className="flex items-center gap-1">
-                      <CheckCircle sx={{ color: '#16a34a', fontSize: 20 }} />
-                      <p className="text-lg font-semibold text-green-600">Completed</p>
-                    </div>
+                    {(['morning', 'evening'] as const).filter(name => completedSessions[name]).map(name => (
+                      <div key={name} className="flex items-center gap-1">
+                        <CheckCircle sx={{ color: '#16a34a', fontSize: 20 }} />
+                        <p className="text-sm font-semibold text-green-600">{sessionLabels[name]}</p>
+                      </div>
+                    ))}
                   </div>
                 )}
               </div>
@@ -271,7 +310,31 @@ export default function CheckinPage() {
           </div>
         ) : (
         <form onSubmit={handleSubmit} className="space-y-8">
-          {/* Morning Intention */}
+          {/* Session */}
+          <div className="flex justify-center gap-2">
+            {(['morning', 'evening'] as const).map(name => {
+              const Icon = name === 'morning' ? WbSunny : NightlightRound;
+              return (
+                <button
+                  key={name}
+                  type="button"
+                  onClick={() => switchSession(name)}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-full border transition-colors ${
+                    session === name
+                      ? 'bg-emerald-600 border-emerald-600 text-white'
+                      : 'border-sage-200 text-sage-700 hover:bg-sage-50'
+                  }`}
+                >
+                  <Icon sx={{ fontSize: 20 }} />
+                  {sessionLabels[name]}
+                  {completedSessions[name] && <CheckCircle sx={{ fontSize: 18 }} />}
+                </button>
+              );
+            })}
+          </div>
+
+          {session === 'morning' ? (
+          /* Morning Intention */
           <div className="card-islamic rounded-xl p-6 shadow-lg">
             <div className="flex items-center gap-2 mb-4">
               <WbSunny sx={{ color: '#166534', fontSize: 24 }} />
@@ -290,8 +353,47 @@ export default function CheckinPage() {
                   rows={3}
                 />
               </div>
+
+              {/* Mood Check */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-3">
+                  How are you feeling spiritually this morning?
+                </label>
+                {renderMoodPicker()}
+              </div>
             </div>
           </div>
+          ) : (
+          <>
+          {/* Looking back on the morning */}
+          {review && (review.morning?.intention || review.habits.items.length > 0) && (
+            <div className="card-islamic rounded-xl p-6 shadow-lg">
+              <div className="flex items-center gap-2 mb-4">
+                <WbSunny sx={{ color: '#166534', fontSize: 24 }} />
+                <h2 className="text-xl font-semibold text-sage-900">Your Day So Far</h2>
+              </div>
+              {review.morning?.intention && (
+                <p className="text-sage-700 mb-4">
+                  This morning you intended: <span className="italic">"{review.morning.intention}"</span>
+                </p>
+              )}
+              {review.habits.items.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-2">
+                    Habits kept: {review.habits.completed} of {review.habits.scheduled}
+                  </p>
+                  <ul className="space-y-1">
+                    {review.habits.items.map(item => (
+                      <li key={item.habitId} className="flex items-center gap-2 text-sm text-gray-700">
+                        <CheckCircle sx={{ fontSize: 18, color: item.completed ? '#16a34a' : '#d1d5db' }} />
+                        {item.title}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
 
           {/* Evening Reflection */}
           <div className="card-islamic rounded-xl p-6 shadow-lg">
@@ -305,30 +407,21 @@ export default function CheckinPage() {
               <label className="block text-sm font-medium text-gray-700 mb-3">
                 How are you feeling spiritually today?
               </label>
-              <div className="flex justify-between items-center">
-                {moodIcons.map((IconComponent, index) => (
-                  <button
-                    key={index}
-                    type="button"
-                    onClick={() => setMood(index - 2)}
-                    className={`p-3 rounded-full transition-all ${
-                      mood === index - 2
-                        ? 'bg-primary-100 ring-2 ring-primary-400'
-                        : 'hover:bg-gray-100'
-                    }`}
-                  >
-                    <IconComponent sx={{ fontSize: 32, color: mood === index - 2 ? '#166534' : '#6b7280' }} />
-                    <div className="text-xs text-gray-600">{moodLabels[index]}</div>
-                  </button>
-                ))}
-              </div>
+              {renderMoodPicker()}
             </div>
 
             {/* Reflection */}
             <div className="mb-6">
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Reflect on your day: {randomPrompt}
+                Reflect on your day: {eveningPrompts[0] ?? randomPrompt}
               </label>
+              {eveningPrompts.length > 1 && (
+                <ul className="mb-2 list-disc list-inside text-sm text-gray-500">
+                  {eveningPrompts.slice(1, 3).map(prompt => (
+                    <li key={prompt}>{prompt}</li>
+                  ))}
+                </ul>
+              )}
               <textarea
                 value={reflection}
                 onChange={(e) => setReflection(e.target.value)}
@@ -357,6 +450,16 @@ export default function CheckinPage() {
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 mb-2"
                 />
               ))}
+              {gratitudeThemes.length > 0 && (
+                <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                  <span>This month you've been grateful for:</span>
+                  {gratitudeThemes.map(theme => (
+                    <span key={theme.theme} className="px-2 py-1 bg-primary-50 text-primary-700 rounded-full">
+                      {theme.theme} × {theme.count}
+                    </span>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Improvements */}
@@ -373,6 +476,8 @@ export default function CheckinPage() {
               />
             </div>
           </div>
+          </>
+          )}
 
           {/* Submit */}
           <button
@@ -380,7 +485,11 @@ export default function CheckinPage() {
             disabled={loading}
             className="w-full btn-primary py-4 text-lg disabled:opacity-50"
           >
-            {loading ? 'Saving...' : (isUpdate ? 'Update Muhasabah' : 'Complete Muhasabah')}
+            {loading
+              ? 'Saving...'
+              : session === 'morning'
+                ? (isUpdate ? 'Update Intention' : 'Set Intention')
+                : (isUpdate ? 'Update Muhasabah' : 'Complete Muhasabah')}
           </button>
         </form>
         )}
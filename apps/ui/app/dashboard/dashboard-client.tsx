@@ -61,6 +61,12 @@ interface DhikrSession {
   date: string;
 }
 
+interface HijriDay {
+  date: string;
+  formatted: string;
+  isWhiteDay: boolean;
+}
+
 interface Intention {
   id: string;
   text: string;
@@ -94,6 +100,7 @@ export default function DashboardClient({ userId }: DashboardClientProps) {
   const [activePlans, setActivePlans] = useState<PlanData[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [selectedLocation, setSelectedLocation] = useState<Location | null>(null);
+  const [hijriDay, setHijriDay] = useState<HijriDay | null>(null);
   const [prayerTimes, setPrayerTimes] = useState<PrayerTime[]>([
     { name: 'Fajr' as const, time: '5:30', passed: true },
     { name: 'Dhuhr' as const, time: '12:45', passed: true },
@@ -154,7 +161,8 @@ export default function DashboardClient({ userId }: DashboardClientProps) {
       await Promise.allSettled([
         loadActivePlans(token),
         loadTodayIntention(token),
-        loadDhikrSession(token)
+        loadDhikrSession(token),
+        loadHijriDate(token)
       ]);
     } catch (error) {
       console.error('Error initializing dashboard:', error);
@@ -341,6 +349,22 @@ export default function DashboardClient({ userId }: DashboardClientProps) {
     }
   };
 
+  const loadHijriDate = async (token: string) => {
+    try {
+      const response = await apiService.get('v2/calendar/hijri', {
+        authToken: token,
+        cacheTTL: 300000 // 5 minutes cache, the date only changes at midnight
+      });
+      const responseData = response.data as any;
+
+      if (responseData?.data?.today) {
+        setHijriDay(responseData.data.today);
+      }
+    } catch (error) {
+      console.error('Error loading Hijri date:', error);
+    }
+  };
+
   const loadDhikrSession = async (token: string) => {
     try {
       const today = new Date().toISOString().split('T')[0];
@@ -599,7 +623,7 @@ export default function DashboardClient({ userId }: DashboardClientProps) {
     >
 
           {/* Prayer Times - Enhanced Card Design */}
-          <div className="mb-16">
+          <div id="prayer-times" className="mb-16">
             <div className="relative overflow-hidden max-w-5xl mx-auto">
               <div className="absolute inset-0 bg-gradient-to-br from-emerald-50/80 via-sage-50/60 to-gold-50/40 rounded-2xl"></div>
               <div className="relative bg-white/95 backdrop-blur-sm rounded-2xl border border-emerald-100/50 shadow-lg overflow-hidden">
@@ -613,6 +637,14 @@ export default function DashboardClient({ userId }: DashboardClientProps) {
                     <div className="flex-1">
                       <h2 className="text-xl font-semibold text-sage-800">{t('todaysPrayers')}</h2>
                       <p className="text-sm text-sage-600">{t('prayersDescription')}</p>
+                      {hijriDay && (
+                        <p className="text-xs text-emerald-700 mt-1">
+                          {hijriDay.formatted}
+                          {hijriDay.isWhiteDay && (
+                            <span className="ml-2 px-2 py-0.5 bg-gold-50 text-gold-700 rounded-full">{t('whiteDay')}</span>
+                          )}
+                        </p>
+                      )}
                     </div>
 
                     {/* Location Selector */}
@@ -1094,7 +1126,7 @@ export default function DashboardClient({ userId }: DashboardClientProps) {
                 />
 
                 {/* Daily Intention */}
-                <div className="relative">
+                <div id="intention" className="relative">
                   <div className="absolute -inset-1 bg-gradient-to-r from-emerald-200/30 to-gold-200/30 rounded-2xl blur-sm"></div>
                   <div className="relative bg-white/95 backdrop-blur-sm rounded-2xl border border-emerald-100/50 shadow-lg overflow-hidden">
                     <div className="p-6">
@@ -1191,7 +1223,7 @@ export default function DashboardClient({ userId }: DashboardClientProps) {
                 </div>
 
                 {/* Dhikr Counter */}
-                <div className="relative">
+                <div id="dhikr" className="relative">
                   <div className="absolute -inset-1 bg-gradient-to-r from-gold-200/30 to-emerald-200/30 rounded-2xl blur-sm"></div>
                   <div className="relative bg-white/95 backdrop-blur-sm rounded-2xl border border-gold-100/50 shadow-lg overflow-hidden">
                     <div className="p-6">
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
 import PageContainer from '@/components/PageContainer';
@@ -10,7 +10,10 @@ import NavigationButtons from '@/components/survey/ui/NavigationButtons';
 import { useSurveyLanguage } from '@/components/survey/hooks/useSurveyLanguage';
 import { useSurveyValidation } from '@/components/survey/hooks/useSurveyValidation';
 import { useSurveyState } from '@/components/survey/hooks/useSurveyState';
+import { useSurveyQuestions } from '@/components/survey/hooks/useSurveyQuestions';
 import { getQuestionsByPhase } from '@/components/survey/data/surveyQuestions';
+import { SurveyLoadingState } from '@/components/survey/SkeletonLoader';
+import { SurveyErrorMessage } from '@/components/survey/SurveyErrorMessage';
 import type { LikertScore } from '@sakinah/types';
 
 export default function Phase2Page() {
@@ -27,8 +30,10 @@ export default function Phase2Page() {
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [autoSaveStatus, setAutoSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
 
-  // Get Phase 2 questions
-  const phase2Questions = getQuestionsByPhase(2);
+  // Get Phase 2 questions from the active question bank
+  const { questions, isLoading: questionsLoading, error: questionsError } = useSurveyQuestions();
+  const phase2Questions = useMemo(() => getQuestionsByPhase(questions, 2), [questions]);
+  const phase2QuestionIds = useMemo(() => phase2Questions.map(q => q.questionId), [phase2Questions]);
 
   // Convert state responses to validation format
   const validationResponses = Object.fromEntries(
@@ -40,6 +45,7 @@ export default function Phase2Page() {
 
   const { validation, canAdvanceToNextPhase } = useSurveyValidation({
     currentPhase: 2,
+    questions,
     responses: validationResponses,
   });
 
@@ -54,7 +60,7 @@ export default function Phase2Page() {
       if (hasUnsavedChanges && Object.keys(state.responses).length > 0) {
         setAutoSaveStatus('saving');
         try {
-          await saveToAPI(2);
+          await saveToAPI(2, phase2QuestionIds);
           setAutoSaveStatus('saved');
           setHasUnsavedChanges(false);
           setTimeout(() => setAutoSaveStatus('idle'), 2000);
@@ -66,7 +72,7 @@ export default function Phase2Page() {
     }, 1000); // Auto-save after 1 second of inactivity
 
     return () => clearTimeout(timeoutId);
-  }, [state.responses, hasUnsavedChanges, saveToAPI]);
+  }, [state.responses, hasUnsavedChanges, saveToAPI, phase2QuestionIds]);
 
   const handleResponseChange = (questionId: string, score: LikertScore) => {
     const existingNote = state.responses[questionId]?.note || '';
@@ -93,7 +99,7 @@ export default function Phase2Page() {
     }
 
     // Save before proceeding
-    const saveSuccess = await saveToAPI(2);
+    const saveSuccess = await saveToAPI(2, phase2QuestionIds);
     if (saveSuccess) {
       router.push('/onboarding/reflection');
     } else {
@@ -132,7 +138,24 @@ export default function Phase2Page() {
   ).length;
 
   // Progress calculation: 50% base (Phase 1 completed) + up to 25% for Phase 2 completion
-  const currentProgress = 50 + (completedQuestions / phase2Questions.length) * 25;
+  const currentProgress = 50 + (phase2Questions.length > 0 ? completedQuestions / phase2Questions.length : 0) * 25;
+
+  if (questionsLoading) {
+    return <SurveyLoadingState />;
+  }
+
+  if (questionsError) {
+    return (
+      <PageContainer maxWidth="lg" padding="lg" className="min-h-screen">
+        <SurveyErrorMessage
+          errorCode="network_error"
+          message={questionsError}
+          onRetry={() => window.location.reload()}
+          className="max-w-3xl mx-auto"
+        />
+      </PageContainer>
+    );
+  }
 
   return (
     <PageContainer
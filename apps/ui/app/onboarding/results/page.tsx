@@ -5,9 +5,12 @@ import { useRouter } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
 import PageContainer from '@/components/PageContainer';
 import ProgressIndicator from '@/components/survey/ui/ProgressIndicator';
+import RadarChart from '@/components/survey/RadarChart';
 import { useSurveyLanguage } from '@/components/survey/hooks/useSurveyLanguage';
-import type { SurveyResults, Disease } from '@sakinah/types';
+import { useSurveyState } from '@/components/survey/hooks/useSurveyState';
+import type { SurveyResults, SurveyHistory, Disease } from '@sakinah/types';
 import { buildApiUrl } from '@/lib/utils/apiUrl';
+import { AuthUtils } from '@/lib/auth-utils';
 
 // Helper function to transform diseases into positive virtues
 const getSpiritualVirtues = () => {
@@ -57,11 +60,16 @@ const getGrowthIndicator = (score: number) => {
 export default function ResultsPage() {
   const router = useRouter();
   const { language, t, translations } = useSurveyLanguage();
+  const { clearState } = useSurveyState();
 
   const [results, setResults] = useState<SurveyResults | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'overview' | 'habits' | 'plan'>('overview');
+  const [history, setHistory] = useState<SurveyHistory | null>(null);
+  const [isStartingRetake, setIsStartingRetake] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<'pdf' | 'json' | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   // Load results from API
   useEffect(() => {
@@ -78,6 +86,20 @@ export default function ResultsPage() {
         if (response.ok) {
           const data = await response.json();
           setResults(data.data.results);
+
+          // Earlier attempts are optional context, so a failure here is not shown
+          const token = await AuthUtils.getAuthTokenWithFallback();
+          const historyResponse = await fetch(buildApiUrl('/v1/onboarding/results/history'), {
+            method: 'GET',
+            headers: {
+              'Content-Type': 'application/json',
+              Authorization: `Bearer ${token}`,
+            },
+          });
+          if (historyResponse.ok) {
+            const historyData = await historyResponse.json();
+            setHistory({ attempts: historyData.data.attempts, comparison: historyData.data.comparison });
+          }
         } else {
           setError('Failed to load results. Please try again.');
         }
@@ -102,8 +124,14 @@ export default function ResultsPage() {
     if (!results) return;
 
     try {
+      setExportingFormat(format);
+      setExportError(null);
+      const token = await AuthUtils.getAuthTokenWithFallback();
       const response = await fetch(buildApiUrl(`/v1/onboarding/export/${format}/${results.id}`), {
         method: 'GET',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
       });
 
       if (response.ok) {
@@ -112,14 +140,46 @@ export default function ResultsPage() {
         const a = document.createElement('a');
         a.style.display = 'none';
         a.href = url;
-        a.download = `tazkiyah-results.${format}`;
+        a.download = `tazkiyah-results-attempt-${results.attemptNumber}.${format}`;
         document.body.appendChild(a);
         a.click();
         window.URL.revokeObjectURL(url);
         document.body.removeChild(a);
+      } else {
+        setExportError(translations.results.actions.exportFailed);
       }
     } catch (error) {
       console.error(`Error exporting ${format}:`, error);
+      setExportError(translations.results.actions.exportFailed);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const handleRetake = async () => {
+    try {
+      setIsStartingRetake(true);
+      const token = await AuthUtils.getAuthTokenWithFallback();
+      const response = await fetch(buildApiUrl('/v1/onboarding/retake'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        // The new attempt starts from blank answers, not the previous ones
+        clearState();
+        router.push('/onboarding/phase1');
+      } else {
+        setError('Could not start a new attempt. Please try again.');
+      }
+    } catch (error) {
+      console.error('Error starting retake:', error);
+      setError('An error occurred while starting a new attempt.');
+    } finally {
+      setIsStartingRetake(false);
     }
   };
 
@@ -508,6 +568,72 @@ export default function ResultsPage() {
                 })}
               </div>
 
+              {/* Progress Since Previous Attempt */}
+              {history?.comparison && (() => {
+                const comparison = history.comparison;
+                const previous = history.attempts.find(attempt => attempt.attemptNumber === comparison.fromAttempt);
+                const virtues = getSpiritualVirtues();
+                const chartData = comparison.deltas.map(delta => ({
+                  label: virtues[delta.disease]?.name ?? delta.disease,
+                  labelAr: virtues[delta.disease]?.name ?? delta.disease,
+                  value: delta.current,
+                  maxValue: 5,
+                  color: delta.current >= 4 ? '#f43f5e' : delta.current === 3 ? '#3b82f6' : '#10b981',
+                  category: (delta.current >= 4 ? 'critical' : delta.current === 3 ? 'moderate' : 'strength') as 'critical' | 'moderate' | 'strength'
+                }));
+
+                return (
+                  <motion.div
+                    className="bg-white rounded-3xl p-8 border border-emerald-100 shadow-lg shadow-slate-100"
+                    initial={{ opacity: 0, y: 30 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.8 }}
+                  >
+                    <div className="text-center mb-6">
+                      <h3 className="text-xl font-semibold text-emerald-800 mb-2">
+                        Your Progress Since Attempt {comparison.fromAttempt}
+                      </h3>
+                      <p className="text-slate-600 text-sm">
+                        {comparison.daysBetween} days between attempts · {comparison.improved.length} improved · {comparison.worsened.length} need renewed attention
+                      </p>
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-center">
+                      <RadarChart
+                        data={chartData}
+                        previousValues={previous ? comparison.deltas.map(delta => delta.previous) : undefined}
+                        previousLabel={`Attempt ${comparison.fromAttempt}`}
+                        showValues={false}
+                        language={language}
+                      />
+
+                      <div className="space-y-2">
+                        {[...comparison.deltas]
+                          .sort((a, b) => a.delta - b.delta)
+                          .map(delta => (
+                            <div
+                              key={delta.disease}
+                              className="flex items-center justify-between rounded-xl px-4 py-2 bg-slate-50"
+                            >
+                              <span className="text-slate-700 text-sm font-medium">
+                                {virtues[delta.disease]?.icon} {virtues[delta.disease]?.name ?? delta.disease}
+                              </span>
+                              <span className="text-sm text-slate-500">
+                                {delta.previous} → {delta.current}
+                                <span className={`ml-3 font-semibold ${
+                                  delta.delta < 0 ? 'text-emerald-600' : delta.delta > 0 ? 'text-rose-600' : 'text-slate-400'
+                                }`}>
+                                  {delta.delta < 0 ? `▲ ${Math.abs(delta.delta)}` : delta.delta > 0 ? `▼ ${delta.delta}` : '–'}
+                                </span>
+                              </span>
+                            </div>
+                          ))}
+                      </div>
+                    </div>
+                  </motion.div>
+                );
+              })()}
+
               {/* Spiritual Insights Section */}
               <motion.div
                 className="bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 rounded-3xl p-8 border border-blue-100 relative overflow-hidden"
@@ -1070,7 +1196,8 @@ export default function ResultsPage() {
           <div className="flex flex-wrap items-center justify-center gap-4">
             <motion.button
               onClick={() => handleExport('pdf')}
-              className="bg-gradient-to-r from-rose-500 to-pink-500 hover:from-rose-600 hover:to-pink-600 text-white px-8 py-4 rounded-2xl font-medium transition-all duration-300 flex items-center gap-3 shadow-lg hover:shadow-xl transform hover:scale-105"
+              disabled={exportingFormat !== null}
+              className="bg-gradient-to-r from-rose-500 to-pink-500 hover:from-rose-600 hover:to-pink-600 text-white px-8 py-4 rounded-2xl font-medium transition-all duration-300 flex items-center gap-3 shadow-lg hover:shadow-xl transform hover:scale-105 disabled:opacity-60"
               whileHover={{ y: -2 }}
               whileTap={{ scale: 0.98 }}
             >
@@ -1080,7 +1207,8 @@ export default function ResultsPage() {
 
             <motion.button
               onClick={() => handleExport('json')}
-              className="bg-gradient-to-r from-blue-500 to-cyan-500 hover:from-blue-600 hover:to-cyan-600 text-white px-8 py-4 rounded-2xl font-medium transition-all duration-300 flex items-center gap-3 shadow-lg hover:shadow-xl transform hover:scale-105"
+              disabled={exportingFormat !== null}
+              className="bg-gradient-to-r from-blue-500 to-cyan-500 hover:from-blue-600 hover:to-cyan-600 text-white px-8 py-4 rounded-2xl font-medium transition-all duration-300 flex items-center gap-3 shadow-lg hover:shadow-xl transform hover:scale-105 disabled:opacity-60"
               whileHover={{ y: -2 }}
               whileTap={{ scale: 0.98 }}
             >
@@ -1088,6 +1216,17 @@ export default function ResultsPage() {
 {translations.results.actions.exportData}
             </motion.button>
 
+            <motion.button
+              onClick={() => void handleRetake()}
+              disabled={isStartingRetake}
+              className="bg-white border border-emerald-200 hover:border-emerald-300 text-emerald-700 px-8 py-4 rounded-2xl font-medium transition-all duration-300 flex items-center gap-3 shadow-lg hover:shadow-xl transform hover:scale-105 disabled:opacity-60"
+              whileHover={{ y: -2 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              <span className="text-xl">🔄</span>
+              {isStartingRetake ? 'Starting...' : 'Retake Survey'}
+            </motion.button>
+
             <motion.button
               onClick={() => router.push('/dashboard')}
               className="bg-gradient-to-r from-emerald-500 to-teal-500 hover:from-emerald-600 hover:to-teal-600 text-white px-8 py-4 rounded-2xl font-medium transition-all duration-300 flex items-center gap-3 shadow-lg hover:shadow-xl transform hover:scale-105"
@@ -1099,6 +1238,12 @@ export default function ResultsPage() {
             </motion.button>
           </div>
 
+          {exportError && (
+            <p className="text-center text-sm text-red-600" role="alert">
+              {exportError}
+            </p>
+          )}
+
           {/* Gentle Encouragement */}
           <div className="text-center max-w-2xl mx-auto">
             <p className={`text-slate-500 text-sm ${language === 'ar' ? 'arabic-body' : ''}`}>
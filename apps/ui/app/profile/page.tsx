@@ -6,6 +6,7 @@ import { createClient } from '@/lib/supabase-browser';
 import { useRouter } from 'next/navigation';
 import PageContainer from '@/components/PageContainer';
 import { UserPreferencesService, Language, PrayerCalculationMethod, Location } from '@/lib/services/user-preferences-service';
+import { PushSubscriptionService } from '@/lib/services/push-subscription-service';
 import { LocationSelector } from '@/components/LocationSelector';
 import {
   Person,
@@ -14,6 +15,7 @@ import {
   Public,
   Lock,
   Notifications,
+  NotificationsActive,
   WbSunny,
   MenuBook,
   LocalFireDepartment,
@@ -33,7 +35,7 @@ export default function ProfilePage() {
     timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
     language: 'en' as Language,
     location: null as Location | null,
-    prayerCalculationMethod: 'ISNA' as PrayerCalculationMethod,
+    prayerCalculationMethod: 'MuslimWorldLeague' as PrayerCalculationMethod,
     notifications: {
       fajr: true,
       daily_reminder: true,
@@ -54,6 +56,10 @@ export default function ProfilePage() {
   const [error, setError] = useState<string>('');
   const [success, setSuccess] = useState<string>('');
   const [preferencesService] = useState(() => new UserPreferencesService());
+  const [pushService] = useState(() => new PushSubscriptionService());
+  const [pushSupported, setPushSupported] = useState(false);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [pushUpdating, setPushUpdating] = useState(false);
 
   const router = useRouter();
   const supabase = createClient();
@@ -62,6 +68,28 @@ export default function ProfilePage() {
     loadProfile();
   }, []);
 
+  useEffect(() => {
+    if (pushService.isSupported()) {
+      setPushSupported(true);
+      pushService.isSubscribed().then(setPushEnabled).catch(() => setPushEnabled(false));
+    }
+  }, [pushService]);
+
+  // Push subscriptions belong to this device, so the toggle applies immediately rather than on save
+  const togglePush = async (enabled: boolean) => {
+    setPushUpdating(true);
+    setError('');
+
+    const result = enabled ? await pushService.subscribe() : await pushService.unsubscribe();
+    if (result.success) {
+      setPushEnabled(enabled);
+    } else {
+      setError(enabled ? t('pushEnableFailed') : t('pushDisableFailed'));
+    }
+
+    setPushUpdating(false);
+  };
+
   const loadProfile = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -337,11 +365,17 @@ export default function ProfilePage() {
                       onChange={(e) => setProfile(prev => ({ ...prev, prayerCalculationMethod: e.target.value as any }))}
                       className="w-full px-4 py-3 bg-white border border-sage-200 rounded-xl focus:ring-2 focus:ring-emerald-300/50 focus:border-emerald-300 transition-all duration-200 text-sage-800"
                     >
-                      <option value="ISNA">ISNA (Islamic Society of North America)</option>
-                      <option value="MWL">Muslim World League</option>
-                      <option value="Egypt">Egyptian General Authority</option>
-                      <option value="Makkah">Umm Al-Qura, Makkah</option>
+                      <option value="MuslimWorldLeague">Muslim World League</option>
+                      <option value="NorthAmerica">ISNA (Islamic Society of North America)</option>
+                      <option value="Egyptian">Egyptian General Authority</option>
+                      <option value="UmmAlQura">Umm Al-Qura, Makkah</option>
                       <option value="Karachi">University of Islamic Sciences, Karachi</option>
+                      <option value="Dubai">Dubai</option>
+                      <option value="MoonsightingCommittee">Moonsighting Committee</option>
+                      <option value="Kuwait">Kuwait</option>
+                      <option value="Qatar">Qatar</option>
+                      <option value="Singapore">Singapore</option>
+                      <option value="Turkey">Diyanet, Turkey</option>
                       <option value="Tehran">Institute of Geophysics, Tehran</option>
                       <option value="Jafari">Shia Ithna-Ashari</option>
                     </select>
@@ -400,6 +434,27 @@ export default function ProfilePage() {
                 </div>
 
                 <div className="space-y-5">
+                  {pushSupported && (
+                    <div className="flex items-center justify-between p-4 rounded-xl bg-emerald-50/50 border border-emerald-100 transition-all duration-200 hover:bg-emerald-50">
+                      <div className="flex items-center gap-3">
+                        <div><NotificationsActive sx={{ fontSize: 20, color: '#059669' }} /></div>
+                        <div>
+                          <h4 className="font-medium text-sage-800">{t('pushNotifications')}</h4>
+                          <p className="text-sm text-sage-600">{t('pushDescription')}</p>
+                        </div>
+                      </div>
+                      <label className="relative inline-flex items-center cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={pushEnabled}
+                          disabled={pushUpdating}
+                          onChange={(e) => togglePush(e.target.checked)}
+                          className="sr-only peer"
+                        />
+                        <div className="w-11 h-6 bg-sage-200 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-emerald-300/50 rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-emerald-500 peer-checked:shadow-md peer-disabled:opacity-50"></div>
+                      </label>
+                    </div>
+                  )}
                   {[
                     {
                       key: 'fajr',
@@ -1,6 +1,7 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import { PushSubscriptionService } from '@/lib/services/push-subscription-service';
 
 export function PWARegistration() {
   useEffect(() => {
@@ -30,12 +31,19 @@ export function PWARegistration() {
           });
 
           // Handle service worker messages
+          const pushService = new PushSubscriptionService();
           navigator.serviceWorker.addEventListener('message', (event) => {
             if (event.data && event.data.type === 'SYNC_SUCCESS') {
               console.log('Background sync completed successfully');
             }
+            if (event.data && event.data.type === 'PUSH_SUBSCRIPTION_CHANGED') {
+              pushService.resyncSubscription();
+            }
           });
 
+          // Pick up a subscription the browser rotated while no page was open
+          pushService.resyncSubscription();
+
         } catch (error) {
           console.error('Service Worker registration failed:', error);
         }
@@ -44,12 +52,7 @@ export function PWARegistration() {
       registerSW();
     }
 
-    // Request notification permission
-    if ('Notification' in window && Notification.permission === 'default') {
-      Notification.requestPermission().then((permission) => {
-        console.log('Notification permission:', permission);
-      });
-    }
+    // Notification permission is requested from the profile page when the user turns on push notifications
 
     // Handle app install prompt
     let deferredPrompt: any = null;
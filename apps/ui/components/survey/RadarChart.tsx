@@ -20,6 +20,8 @@ interface RadarChartProps {
   showLabels?: boolean;
   showValues?: boolean;
   language?: 'en' | 'ar';
+  previousValues?: number[]; // scores from an earlier attempt, in the same order as data
+  previousLabel?: string;
 }
 
 export default function RadarChart({
@@ -29,7 +31,9 @@ export default function RadarChart({
   animated = true,
   showLabels = true,
   showValues = true,
-  language = 'en'
+  language = 'en',
+  previousValues,
+  previousLabel = 'Previous attempt'
 }: RadarChartProps) {
   const [isVisible, setIsVisible] = useState(false);
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
@@ -90,6 +94,7 @@ export default function RadarChart({
 
   // Generate data polygon
   const dataPoints = generatePoints(data.map(d => d.value));
+  const previousPoints = previousValues?.length === data.length ? generatePoints(previousValues) : null;
 
   // Generate label positions
   const labelPositions = data.map((item, index) => {
@@ -200,6 +205,20 @@ export default function RadarChart({
           {/* Axis Lines */}
           {axisLines}
 
+          {/* Previous Attempt Polygon */}
+          {previousPoints && (
+            <motion.polygon
+              points={previousPoints}
+              fill="none"
+              stroke="rgb(148 163 184)"
+              strokeWidth="2"
+              strokeDasharray="6 4"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: isVisible ? 0.9 : 0 }}
+              transition={{ delay: 0.5, duration: 0.5 }}
+            />
+          )}
+
           {/* Data Polygon */}
           <motion.polygon
             points={dataPoints}
@@ -317,6 +336,11 @@ export default function RadarChart({
               <div className="text-xs text-sage-600">
                 Score: {data[hoveredIndex].value}/5
               </div>
+              {previousPoints && (
+                <div className="text-xs text-slate-500">
+                  {previousLabel}: {previousValues![hoveredIndex]}/5
+                </div>
+              )}
               <div className={`text-xs font-medium ${
                 data[hoveredIndex].category === 'critical' ? 'text-red-600' :
                 data[hoveredIndex].category === 'moderate' ? 'text-amber-600' :
@@ -331,6 +355,19 @@ export default function RadarChart({
         </AnimatePresence>
       </motion.div>
 
+      {previousPoints && (
+        <div className="mt-4 flex items-center gap-6 text-xs text-sage-600">
+          <span className="flex items-center gap-2">
+            <span className="inline-block w-5 border-t-2 border-emerald-600" />
+            Current
+          </span>
+          <span className="flex items-center gap-2">
+            <span className="inline-block w-5 border-t-2 border-dashed border-slate-400" />
+            {previousLabel}
+          </span>
+        </div>
+      )}
+
       {/* Legend */}
       {showValues && (
         <motion.div
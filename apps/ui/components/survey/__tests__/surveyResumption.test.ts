@@ -6,6 +6,8 @@ import type { LikertScore } from '@sakinah/types';
 global.fetch = jest.fn();
 
 // Mock localStorage
+const PHASE1_QUESTION_IDS = ['envy', 'arrogance', 'selfDeception', 'lust'];
+
 const localStorageMock = {
   getItem: jest.fn(),
   setItem: jest.fn(),
@@ -370,7 +372,7 @@ describe('Survey Resumption Functionality', () => {
       // Save to API
       let saveResult: boolean;
       await act(async () => {
-        saveResult = await result.current.saveToAPI(1);
+        saveResult = await result.current.saveToAPI(1, PHASE1_QUESTION_IDS);
       });
 
       expect(saveResult!).toBe(true);
@@ -417,7 +419,7 @@ describe('Survey Resumption Functionality', () => {
       // Attempt to save to API should fail gracefully
       let saveResult: boolean;
       await act(async () => {
-        saveResult = await result.current.saveToAPI(1);
+        saveResult = await result.current.saveToAPI(1, PHASE1_QUESTION_IDS);
       });
 
       expect(saveResult!).toBe(false);
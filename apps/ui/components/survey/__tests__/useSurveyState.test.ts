@@ -6,6 +6,9 @@ import type { LikertScore } from '@sakinah/types';
 global.fetch = jest.fn();
 
 // Mock localStorage
+const PHASE1_QUESTION_IDS = ['envy', 'arrogance', 'selfDeception', 'lust'];
+const PHASE2_QUESTION_IDS = ['anger', 'malice', 'backbiting', 'suspicion', 'loveOfDunya', 'laziness', 'despair'];
+
 const localStorageMock = {
   getItem: jest.fn(),
   setItem: jest.fn(),
@@ -254,7 +257,7 @@ describe('useSurveyState', () => {
 
       let saveResult: boolean;
       await act(async () => {
-        saveResult = await result.current.saveToAPI(1);
+        saveResult = await result.current.saveToAPI(1, PHASE1_QUESTION_IDS);
       });
 
       expect(saveResult!).toBe(true);
@@ -297,7 +300,7 @@ describe('useSurveyState', () => {
 
       let saveResult: boolean;
       await act(async () => {
-        saveResult = await result.current.saveToAPI(2);
+        saveResult = await result.current.saveToAPI(2, PHASE2_QUESTION_IDS);
       });
 
       expect(saveResult!).toBe(true);
@@ -358,7 +361,7 @@ describe('useSurveyState', () => {
 
       let saveResult: boolean;
       await act(async () => {
-        saveResult = await result.current.saveToAPI(1);
+        saveResult = await result.current.saveToAPI(1, PHASE1_QUESTION_IDS);
       });
 
       expect(saveResult!).toBe(false);
@@ -382,7 +385,7 @@ describe('useSurveyState', () => {
 
       let saveResult: boolean;
       await act(async () => {
-        saveResult = await result.current.saveToAPI(1);
+        saveResult = await result.current.saveToAPI(1, PHASE1_QUESTION_IDS);
       });
 
       expect(saveResult!).toBe(false);
@@ -404,7 +407,7 @@ describe('useSurveyState', () => {
 
       let saveResult: boolean;
       await act(async () => {
-        saveResult = await result.current.saveToAPI(1);
+        saveResult = await result.current.saveToAPI(1, PHASE1_QUESTION_IDS);
       });
 
       expect(saveResult!).toBe(false);
@@ -432,7 +435,7 @@ describe('useSurveyState', () => {
 
       // Start the save operation
       const savePromise = act(async () => {
-        return result.current.saveToAPI(1);
+        return result.current.saveToAPI(1, PHASE1_QUESTION_IDS);
       });
 
       // Check loading state is true during the operation
@@ -0,0 +1,61 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { SurveyQuestionBank } from '@sakinah/types';
+import type { SurveyQuestion } from '../types';
+import { buildApiUrl } from '@/lib/utils/apiUrl';
+
+interface UseSurveyQuestionsReturn {
+  questions: SurveyQuestion[];
+  version: number | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+const NO_QUESTIONS: SurveyQuestion[] = [];
+
+export function useSurveyQuestions(): UseSurveyQuestionsReturn {
+  const [bank, setBank] = useState<SurveyQuestionBank | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchQuestions = async () => {
+      try {
+        const response = await fetch(buildApiUrl('/v2/survey/questions'));
+        if (!response.ok) {
+          throw new Error(`Failed to load survey questions: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        if (!cancelled) {
+          setBank(data.data);
+        }
+      } catch (err) {
+        console.error('Failed to load survey questions:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load survey questions');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchQuestions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return {
+    questions: bank?.questions ?? NO_QUESTIONS,
+    version: bank?.version ?? null,
+    isLoading,
+    error
+  };
+}
@@ -27,7 +27,7 @@ interface UseSurveyStateReturn {
   updateReflection: (field: 'strongestStruggle' | 'dailyHabit', value: string) => void;
   setCurrentPhase: (phase: number) => void;
   clearState: () => void;
-  saveToAPI: (phase: number) => Promise<boolean>;
+  saveToAPI: (phase: number, questionIds?: string[]) => Promise<boolean>;
   isLoading: boolean;
   lastSaved: Date | null;
 }
@@ -135,7 +135,7 @@ export function useSurveyState(): UseSurveyStateReturn {
     });
   }, []);
 
-  const saveToAPI = useCallback(async (phase: number): Promise<boolean> => {
+  const saveToAPI = useCallback(async (phase: number, questionIds: string[] = []): Promise<boolean> => {
     setIsLoading(true);
 
     let endpoint = '';
@@ -143,38 +143,13 @@ export function useSurveyState(): UseSurveyStateReturn {
 
     try {
 
-      if (phase === 1) {
-        endpoint = buildApiUrl('/v1/onboarding/phase1');
-        // Transform responses to Phase 1 format
-        payload = {
-          envyScore: state.responses.envy?.score,
-          envyNote: state.responses.envy?.note || '',
-          arroganceScore: state.responses.arrogance?.score,
-          arroganceNote: state.responses.arrogance?.note || '',
-          selfDeceptionScore: state.responses.selfDeception?.score,
-          selfDeceptionNote: state.responses.selfDeception?.note || '',
-          lustScore: state.responses.lust?.score,
-          lustNote: state.responses.lust?.note || ''
-        };
-      } else if (phase === 2) {
-        endpoint = buildApiUrl('/v1/onboarding/phase2');
-        // Transform responses to Phase 2 format
-        payload = {
-          angerScore: state.responses.anger?.score,
-          angerNote: state.responses.anger?.note || '',
-          maliceScore: state.responses.malice?.score,
-          maliceNote: state.responses.malice?.note || '',
-          backbitingScore: state.responses.backbiting?.score,
-          backbitingNote: state.responses.backbiting?.note || '',
-          suspicionScore: state.responses.suspicion?.score,
-          suspicionNote: state.responses.suspicion?.note || '',
-          loveOfDunyaScore: state.responses.loveOfDunya?.score,
-          loveOfDunyaNote: state.responses.loveOfDunya?.note || '',
-          lazinessScore: state.responses.laziness?.score,
-          lazinessNote: state.responses.laziness?.note || '',
-          despairScore: state.responses.despair?.score,
-          despairNote: state.responses.despair?.note || ''
-        };
+      if (phase === 1 || phase === 2) {
+        endpoint = buildApiUrl(`/v1/onboarding/phase${phase}`);
+        // One score and note per question of the phase, keyed by question id
+        payload = Object.fromEntries(questionIds.flatMap(questionId => [
+          [`${questionId}Score`, state.responses[questionId]?.score],
+          [`${questionId}Note`, state.responses[questionId]?.note || '']
+        ]));
       } else if (phase === 3) {
         endpoint = buildApiUrl('/v1/onboarding/reflection');
         payload = state.reflectionAnswers;
@@ -183,15 +158,10 @@ export function useSurveyState(): UseSurveyStateReturn {
       // Check if all required scores are present (notes are optional)
       let hasAllRequired = true;
 
-      if (phase === 1) {
-        const requiredScores = [payload.envyScore, payload.arroganceScore, payload.selfDeceptionScore, payload.lustScore];
-        hasAllRequired = requiredScores.every(score => score !== undefined && score !== null);
-      } else if (phase === 2) {
-        const requiredScores = [
-          payload.angerScore, payload.maliceScore, payload.backbitingScore,
-          payload.suspicionScore, payload.loveOfDunyaScore, payload.lazinessScore, payload.despairScore
-        ];
-        hasAllRequired = requiredScores.every(score => score !== undefined && score !== null);
+      if (phase === 1 || phase === 2) {
+        hasAllRequired = questionIds.length > 0 && questionIds.every(questionId =>
+          payload[`${questionId}Score`] !== undefined && payload[`${questionId}Score`] !== null
+        );
       } else if (phase === 3) {
         hasAllRequired = payload.strongestStruggle && payload.dailyHabit;
       }
@@ -2,11 +2,12 @@
 
 import { useMemo } from 'react';
 import type { LikertScore } from '@sakinah/types';
-import type { SurveyValidationState, PhaseValidation, SurveyNavigation } from '../types';
+import type { SurveyQuestion, SurveyValidationState, PhaseValidation, SurveyNavigation } from '../types';
 import { getQuestionsByPhase, getTotalQuestions } from '@/components/survey';
 
 interface SurveyValidationHookProps {
   currentPhase: number;
+  questions: SurveyQuestion[]; // the active bank's phase 1 and 2 questions
   responses: Record<string, { score: LikertScore; note?: string }>;
   reflectionAnswers?: {
     strongestStruggle: string;
@@ -27,13 +28,14 @@ interface UseSurveyValidationReturn {
 
 export function useSurveyValidation({
   currentPhase,
+  questions,
   responses,
   reflectionAnswers
 }: SurveyValidationHookProps): UseSurveyValidationReturn {
   const validation = useMemo((): SurveyValidationState => {
     const errors: string[] = [];
     const warnings: string[] = [];
-    const totalQuestions = getTotalQuestions();
+    const totalQuestions = getTotalQuestions(questions);
     const completedQuestions = Object.keys(responses).filter(questionId =>
       responses[questionId]?.score !== undefined
     ).length;
@@ -63,14 +65,14 @@ export function useSurveyValidation({
 
     const missingRequired: string[] = [];
     if (currentPhase === 1) {
-      const phase1Questions = getQuestionsByPhase(1);
+      const phase1Questions = getQuestionsByPhase(questions, 1);
       phase1Questions.forEach(q => {
         if (!responses[q.questionId]?.score) {
           missingRequired.push(q.questionId);
         }
       });
     } else if (currentPhase === 2) {
-      const phase2Questions = getQuestionsByPhase(2);
+      const phase2Questions = getQuestionsByPhase(questions, 2);
       phase2Questions.forEach(q => {
         if (!responses[q.questionId]?.score) {
           missingRequired.push(q.questionId);
@@ -86,22 +88,22 @@ export function useSurveyValidation({
       totalQuestions,
       missingRequired
     };
-  }, [currentPhase, responses, reflectionAnswers]);
+  }, [currentPhase, questions, responses, reflectionAnswers]);
 
   const phaseValidation = useMemo((): PhaseValidation => {
     let requiredQuestions: string[] = [];
     let answeredQuestions: string[] = [];
 
     if (currentPhase === 1 || currentPhase === 2) {
-      const phaseQuestions = getQuestionsByPhase(currentPhase as 1 | 2);
+      const phaseQuestions = getQuestionsByPhase(questions, currentPhase as 1 | 2);
       requiredQuestions = phaseQuestions.map(q => q.questionId);
       answeredQuestions = requiredQuestions.filter(questionId =>
         responses[questionId]?.score !== undefined
       );
     } else if (currentPhase === 3) {
       // Reflection phase - check if all previous phases are complete
-      const phase1Questions = getQuestionsByPhase(1);
-      const phase2Questions = getQuestionsByPhase(2);
+      const phase1Questions = getQuestionsByPhase(questions, 1);
+      const phase2Questions = getQuestionsByPhase(questions, 2);
       requiredQuestions = [...phase1Questions, ...phase2Questions].map(q => q.questionId);
       answeredQuestions = requiredQuestions.filter(questionId =>
         responses[questionId]?.score !== undefined
@@ -118,7 +120,7 @@ export function useSurveyValidation({
       answeredQuestions,
       missingQuestions
     };
-  }, [currentPhase, responses]);
+  }, [currentPhase, questions, responses]);
 
   const navigation = useMemo((): SurveyNavigation => {
     const totalPhases = 4; // Welcome, Phase1, Phase2, Reflection
@@ -129,14 +131,14 @@ export function useSurveyValidation({
 
     if (currentPhase === 1) {
       // Can advance to Phase 2 if Phase 1 is complete
-      const phase1Complete = getQuestionsByPhase(1).every(q =>
+      const phase1Complete = getQuestionsByPhase(questions, 1).every(q =>
         responses[q.questionId]?.score !== undefined
       );
       canGoNext = phase1Complete;
       nextPhase = phase1Complete ? 2 : null;
     } else if (currentPhase === 2) {
       // Can advance to Reflection if Phase 2 is complete
-      const phase2Complete = getQuestionsByPhase(2).every(q =>
+      const phase2Complete = getQuestionsByPhase(questions, 2).every(q =>
         responses[q.questionId]?.score !== undefined
       );
       canGoNext = phase2Complete;
@@ -171,13 +173,13 @@ export function useSurveyValidation({
       totalPhases,
       progressPercentage
     };
-  }, [currentPhase, responses, reflectionAnswers]);
+  }, [currentPhase, questions, responses, reflectionAnswers]);
 
   const canAdvanceToNextPhase = navigation.canGoNext;
 
   const getPhaseCompletionPercentage = (phase: number): number => {
     if (phase === 1 || phase === 2) {
-      const phaseQuestions = getQuestionsByPhase(phase as 1 | 2);
+      const phaseQuestions = getQuestionsByPhase(questions, phase as 1 | 2);
       const completedInPhase = phaseQuestions.filter(q =>
         responses[q.questionId]?.score !== undefined
       ).length;
@@ -192,7 +194,7 @@ export function useSurveyValidation({
   };
 
   const getOverallCompletionPercentage = (): number => {
-    const allQuestions = [...getQuestionsByPhase(1), ...getQuestionsByPhase(2)];
+    const allQuestions = [...getQuestionsByPhase(questions, 1), ...getQuestionsByPhase(questions, 2)];
     const completedQuestions = allQuestions.filter(q =>
       responses[q.questionId]?.score !== undefined
     ).length;
@@ -207,7 +209,7 @@ export function useSurveyValidation({
 
   const getMissingQuestions = (phase: number): string[] => {
     if (phase === 1 || phase === 2) {
-      const phaseQuestions = getQuestionsByPhase(phase as 1 | 2);
+      const phaseQuestions = getQuestionsByPhase(questions, phase as 1 | 2);
       return phaseQuestions
         .filter(q => !responses[q.questionId]?.score)
         .map(q => q.questionId);
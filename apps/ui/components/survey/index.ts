@@ -7,10 +7,10 @@ export { default as NavigationButtons } from './NavigationButtons';
 // Survey-specific hooks and utilities
 export { useSurveyLanguage } from './hooks/useSurveyLanguage';
 export { useSurveyValidation } from './hooks/useSurveyValidation';
+export { useSurveyQuestions } from './hooks/useSurveyQuestions';
 
 // Survey data and utilities
 export {
-  surveyQuestions,
   getQuestionsByPhase,
   getQuestionById,
   getQuestionByOrder,
@@ -1,15 +1,9 @@
-import type { LikertScore, Disease } from '@sakinah/types';
+import type { LikertScore, SurveyQuestion } from '@sakinah/types';
 
 export type SurveyLanguage = 'en' | 'ar';
 
-export interface SurveyQuestion {
-  id: string;
-  questionId: string;
-  disease: Disease;
-  phase: 1 | 2;
-  category: 'inner' | 'behavioral';
-  order: number;
-}
+// Served by the active question bank (GET /v2/survey/questions)
+export type { SurveyQuestion };
 
 export interface SurveyValidationState {
   isValid: boolean;
@@ -28,7 +28,7 @@ export default function QuestionCard({
   autoSave = true,
   className = ''
 }: QuestionCardProps) {
-  const { language, translations } = useSurveyLanguage();
+  const { language } = useSurveyLanguage();
   const [isExpanded, setIsExpanded] = useState(false);
   const [showNote, setShowNote] = useState(!!note || value === 4 || value === 5);
 
@@ -97,8 +97,8 @@ export default function QuestionCard({
     }
   };
 
-  const title = translations.questions[question.questionId as keyof typeof translations.questions]?.title || question.questionId;
-  const questionText = translations.questions[question.questionId as keyof typeof translations.questions]?.question || '';
+  const title = question.title[language] || question.title.en;
+  const questionText = question.prompt[language] || question.prompt.en;
   const isAnswered = value !== null;
 
   return (
@@ -128,6 +128,7 @@ export const api = {
 
   // Check-ins - Using latest functionality
   createCheckin: async (data: {
+    session?: 'morning' | 'evening';
     mood?: number;
     intention?: string;
     reflection?: string;
@@ -159,6 +160,15 @@ export const api = {
     return response.data;
   },
 
+  getGratitudeHistory: async (token: string, params?: {
+    from?: string;
+    to?: string;
+    themes?: number;
+  }) => {
+    const response = await apiService.get('checkins/gratitude', { params, authToken: token });
+    return response.data;
+  },
+
   // Content
   getContent: async (params?: { tags?: string; type?: string }) => {
     return serviceApi.getContent(params);
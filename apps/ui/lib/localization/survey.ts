@@ -98,6 +98,7 @@ export interface SurveyTranslations {
     actions: {
       saveJourney: string;
       exportData: string;
+      exportFailed: string;
       beginPractice: string;
     };
     insights: {
@@ -281,6 +282,7 @@ export const surveyTranslations: Record<SurveyLanguage, SurveyTranslations> = {
       actions: {
         saveJourney: 'Save My Journey',
         exportData: 'Export Data',
+        exportFailed: 'Could not export your results. Please try again.',
         beginPractice: 'Begin My Practice'
       },
       insights: {
@@ -503,6 +505,7 @@ export const surveyTranslations: Record<SurveyLanguage, SurveyTranslations> = {
       actions: {
         saveJourney: 'احفظ رحلتي',
         exportData: 'تصدير البيانات',
+        exportFailed: 'تعذر تصدير نتائجك. يرجى المحاولة مرة أخرى.',
         beginPractice: 'ابدأ ممارستي'
       },
       insights: {
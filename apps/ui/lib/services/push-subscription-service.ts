@@ -0,0 +1,167 @@
+'use client';
+
+import { BaseService } from './base-service';
+import { EnhancedServiceResult } from '../utils/service-result';
+import { AuthUtils } from '../auth-utils';
+import { buildApiUrl } from '../utils/apiUrl';
+
+interface PushPublicKey {
+  enabled: boolean;
+  publicKey: string | null;
+}
+
+/**
+ * Convert the server's base64url VAPID key into the applicationServerKey format
+ */
+function urlBase64ToUint8Array(base64String: string): Uint8Array<ArrayBuffer> {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export class PushSubscriptionService extends BaseService {
+  constructor() {
+    super('PushSubscriptionService');
+  }
+
+  /**
+   * Whether this browser can receive Web Push notifications
+   */
+  isSupported(): boolean {
+    return typeof window !== 'undefined'
+      && 'serviceWorker' in navigator
+      && 'PushManager' in window
+      && 'Notification' in window;
+  }
+
+  /**
+   * Whether this device currently has a push subscription
+   */
+  async isSubscribed(): Promise<boolean> {
+    if (!this.isSupported()) {
+      return false;
+    }
+
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription();
+    return subscription !== null;
+  }
+
+  /**
+   * Ask for notification permission and register this device for reminders
+   */
+  async subscribe(): Promise<EnhancedServiceResult<void>> {
+    return this.executeOperation(async () => {
+      if (!this.isSupported()) {
+        throw new Error('Push notifications are not supported in this browser');
+      }
+
+      const keyResponse = await fetch(buildApiUrl('/v2/push/public-key'), {
+        headers: await this.authHeaders(),
+      });
+      if (!keyResponse.ok) {
+        throw new Error(`Failed to fetch push key: ${keyResponse.statusText}`);
+      }
+
+      const { data } = await keyResponse.json() as { data: PushPublicKey };
+      if (!data.enabled || !data.publicKey) {
+        throw new Error('Push notifications are not available');
+      }
+
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') {
+        throw new Error('Notification permission was not granted');
+      }
+
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription()
+        ?? await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(data.publicKey),
+        });
+
+      await this.saveSubscription(subscription);
+      return undefined;
+    }, 'subscribe', 0);
+  }
+
+  /**
+   * Send this device's current subscription to the server again. The service
+   * worker cannot authenticate, so when the browser rotates the subscription
+   * the page re-saves it, on the worker's message or on the next launch.
+   */
+  async resyncSubscription(): Promise<EnhancedServiceResult<void>> {
+    return this.executeOperation(async () => {
+      if (!this.isSupported() || Notification.permission !== 'granted') {
+        return undefined;
+      }
+
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription();
+      if (subscription) {
+        await this.saveSubscription(subscription);
+      }
+
+      return undefined;
+    }, 'resyncSubscription', 0);
+  }
+
+  /**
+   * Stop push notifications on this device
+   */
+  async unsubscribe(): Promise<EnhancedServiceResult<void>> {
+    return this.executeOperation(async () => {
+      if (!this.isSupported()) {
+        return undefined;
+      }
+
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription();
+      if (!subscription) {
+        return undefined;
+      }
+
+      const response = await fetch(buildApiUrl('/v2/push/subscriptions'), {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+          ...await this.authHeaders(),
+        },
+        body: JSON.stringify({ endpoint: subscription.endpoint }),
+      });
+
+      // 404 means the server already forgot this device
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Failed to remove push subscription: ${response.statusText}`);
+      }
+
+      await subscription.unsubscribe();
+      return undefined;
+    }, 'unsubscribe', 0);
+  }
+
+  private async saveSubscription(subscription: PushSubscription): Promise<void> {
+    const response = await fetch(buildApiUrl('/v2/push/subscriptions'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...await this.authHeaders(),
+      },
+      body: JSON.stringify(subscription.toJSON()),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to save push subscription: ${response.statusText}`);
+    }
+  }
+
+  private async authHeaders(): Promise<Record<string, string>> {
+    const token = await AuthUtils.getAuthTokenWithFallback();
+    return { Authorization: `Bearer ${token}` };
+  }
+}
@@ -4,7 +4,20 @@ import { BaseService } from './base-service';
 import { EnhancedServiceResult } from '../utils/service-result';
 
 export type Language = 'en' | 'ar' | 'ur';
-export type PrayerCalculationMethod = 'ISNA' | 'MWL' | 'Egypt' | 'Makkah' | 'Karachi' | 'Tehran' | 'Jafari';
+export type PrayerCalculationMethod =
+  | 'MuslimWorldLeague'
+  | 'Egyptian'
+  | 'Karachi'
+  | 'UmmAlQura'
+  | 'Dubai'
+  | 'MoonsightingCommittee'
+  | 'NorthAmerica'
+  | 'Kuwait'
+  | 'Qatar'
+  | 'Singapore'
+  | 'Tehran'
+  | 'Turkey'
+  | 'Jafari';
 
 export interface Location {
   lat: number;
@@ -109,7 +122,7 @@ export class UserPreferencesService extends BaseService {
         city: 'London',
         country: 'UK'
       },
-      prayerCalculationMethod: 'ISNA',
+      prayerCalculationMethod: 'MuslimWorldLeague',
       notificationSettings: {
         fajrReminder: true,
         dailyReminder: true,
@@ -315,8 +315,13 @@ self.addEventListener('push', (event) => {
       body: data.body || 'Time for your spiritual practice',
       icon: '/icons/icon-192x192.png',
       badge: '/icons/badge-72x72.png',
+      // Reminders share a tag with their dedupe key so a redelivered push replaces rather than stacks
       tag: data.tag || 'spiritual-reminder',
-      data: data.url || '/',
+      data: {
+        url: data.url || '/',
+        type: data.type,
+        ...data.data
+      },
       actions: [
         {
           action: 'open',
@@ -327,7 +332,7 @@ self.addEventListener('push', (event) => {
           title: 'Dismiss'
         }
       ],
-      requireInteraction: data.requireInteraction || false
+      requireInteraction: data.requireInteraction || data.type === 'prayer' || false
     };
 
     event.waitUntil(
@@ -336,18 +341,43 @@ self.addEventListener('push', (event) => {
   }
 });
 
-// Handle notification clicks
+// Handle notification clicks: focus an open window on the reminder's screen, or open one
 self.addEventListener('notificationclick', (event) => {
   event.notification.close();
 
   if (event.action === 'open' || !event.action) {
+    const targetUrl = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
     event.waitUntil(
-      clients.openWindow(event.notification.data || '/')
+      clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients) => {
+        const client = windowClients.find((windowClient) => 'focus' in windowClient);
+        if (client) {
+          return client.navigate(targetUrl).then((navigated) => (navigated || client).focus());
+        }
+        return clients.openWindow(targetUrl);
+      })
     );
   }
   // 'dismiss' action just closes the notification
 });
 
+// Re-subscribe when the browser rotates the subscription. The worker has no auth token,
+// so open pages save the new subscription, and pages opened later re-save it on launch
+self.addEventListener('pushsubscriptionchange', (event) => {
+  const oldSubscription = event.oldSubscription;
+  if (!oldSubscription) {
+    return;
+  }
+
+  event.waitUntil(
+    self.registration.pushManager.subscribe(oldSubscription.options)
+      .then(() => clients.matchAll({ type: 'window', includeUncontrolled: true }))
+      .then((windowClients) => {
+        windowClients.forEach((client) => client.postMessage({ type: 'PUSH_SUBSCRIPTION_CHANGED' }));
+      })
+  );
+});
+
 // Handle notification close
 self.addEventListener('notificationclose', (event) => {
   console.log('Notification closed:', event.notification.tag);
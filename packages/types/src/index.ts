@@ -73,13 +73,18 @@ export const HabitCompletionSchema = z.object({
 });
 
 // Check-in Types
+export const CheckinSessionEnum = z.enum(['morning', 'evening']);
+
 export const CheckinSchema = z.object({
   id: z.string().uuid(),
   userId: z.string().uuid(),
   date: z.string(),
+  session: CheckinSessionEnum,
   mood: z.number().min(-2).max(2).optional(),
   intention: z.string().optional(),
   reflection: z.string().optional(),
+  gratitude: z.array(z.string()).max(3).optional(),
+  improvements: z.string().optional(),
   createdAt: z.string().datetime(),
 });
 
@@ -104,9 +109,12 @@ export const SuggestPlanResponseSchema = z.object({
 });
 
 export const CreateCheckinInputSchema = z.object({
+  session: CheckinSessionEnum.optional(),
   mood: z.number().min(-2).max(2).optional(),
   intention: z.string().max(500).optional(),
   reflection: z.string().max(1000).optional(),
+  gratitude: z.array(z.string().max(200)).max(3).optional(),
+  improvements: z.string().max(500).optional(),
 });
 
 export const ToggleHabitInputSchema = z.object({
@@ -130,6 +138,7 @@ export type ContentType = z.infer<typeof ContentTypeEnum>;
 export type Plan = z.infer<typeof PlanSchema>;
 export type PlanKind = z.infer<typeof PlanKindEnum>;
 export type PlanStatus = z.infer<typeof PlanStatusEnum>;
+export type CheckinSession = z.infer<typeof CheckinSessionEnum>;
 export type MicroHabit = z.infer<typeof MicroHabitSchema>;
 export type Habit = z.infer<typeof HabitSchema>;
 export type HabitSchedule = z.infer<typeof HabitScheduleSchema>;
@@ -178,35 +187,34 @@ export const SurveyResponseSchema = z.object({
   createdAt: z.string().datetime(),
 });
 
-// Survey Phase Request Types
-export const Phase1RequestSchema = z.object({
-  envyScore: LikertScoreEnum,
-  envyNote: z.string().optional(),
-  arroganceScore: LikertScoreEnum,
-  arroganceNote: z.string().optional(),
-  selfDeceptionScore: LikertScoreEnum,
-  selfDeceptionNote: z.string().optional(),
-  lustScore: LikertScoreEnum,
-  lustNote: z.string().optional(),
-});
-
-export const Phase2RequestSchema = z.object({
-  angerScore: LikertScoreEnum,
-  angerNote: z.string().optional(),
-  maliceScore: LikertScoreEnum,
-  maliceNote: z.string().optional(),
-  backbitingScore: LikertScoreEnum,
-  backbitingNote: z.string().optional(),
-  suspicionScore: LikertScoreEnum,
-  suspicionNote: z.string().optional(),
-  loveOfDunyaScore: LikertScoreEnum,
-  loveOfDunyaNote: z.string().optional(),
-  lazinessScore: LikertScoreEnum,
-  lazinessNote: z.string().optional(),
-  despairScore: LikertScoreEnum,
-  despairNote: z.string().optional(),
+// Survey Question Bank Types
+export const SurveyQuestionCategoryEnum = z.enum(['inner', 'behavioral']);
+
+export const LocalizedTextSchema = z.object({
+  en: z.string(),
+  ar: z.string().optional(),
+});
+
+export const SurveyQuestionSchema = z.object({
+  id: z.string(),
+  questionId: z.string().min(1).max(50), // answered as `${questionId}Score` and `${questionId}Note`
+  disease: DiseaseEnum,
+  phase: z.union([z.literal(1), z.literal(2)]),
+  category: SurveyQuestionCategoryEnum,
+  order: z.number().int(),
+  title: LocalizedTextSchema,
+  prompt: LocalizedTextSchema,
 });
 
+export const SurveyQuestionBankSchema = z.object({
+  version: z.number().int().min(1),
+  questions: z.array(SurveyQuestionSchema),
+});
+
+// Survey Phase Request Types
+// Phase 1 and 2 bodies are generated from the active question bank, so only their shape is fixed here
+export const PhaseRequestSchema = z.record(z.union([LikertScoreEnum, z.string()]).optional());
+
 export const ReflectionRequestSchema = z.object({
   strongestStruggle: z.string().min(10).max(500),
   dailyHabit: z.string().min(10).max(500),
@@ -283,6 +291,7 @@ export const ExportOptionSchema = z.object({
 export const SurveyResultsSchema = z.object({
   id: z.string().uuid(),
   userId: z.string().uuid(),
+  attemptNumber: z.number().int().min(1).default(1),
   diseaseScores: z.record(DiseaseEnum, LikertScoreEnum),
   categorizedDiseases: CategorizedDiseasesSchema,
   reflectionAnswers: z.object({
@@ -300,6 +309,7 @@ export const SurveyResultsSchema = z.object({
 // Survey Progress Types
 export const SurveyProgressSchema = z.object({
   userId: z.string().uuid(),
+  attemptNumber: z.number().int().min(1).default(1),
   currentPhase: z.number().min(0).max(4),
   phase1Completed: z.boolean().default(false),
   phase2Completed: z.boolean().default(false),
@@ -309,6 +319,36 @@ export const SurveyProgressSchema = z.object({
   lastUpdated: z.string().datetime(),
 });
 
+// Survey Retake Types
+export const DiseaseScoreDeltaSchema = z.object({
+  disease: DiseaseEnum,
+  previous: LikertScoreEnum,
+  current: LikertScoreEnum,
+  delta: z.number(), // negative means the disease weighs less on the heart than before
+});
+
+export const SurveyAttemptSchema = z.object({
+  id: z.string().uuid(),
+  attemptNumber: z.number().int().min(1),
+  diseaseScores: z.record(DiseaseEnum, LikertScoreEnum),
+  criticalDiseases: z.array(DiseaseEnum),
+  generatedAt: z.string().datetime(),
+});
+
+export const SurveyComparisonSchema = z.object({
+  fromAttempt: z.number().int().min(1),
+  toAttempt: z.number().int().min(1),
+  daysBetween: z.number().int(),
+  deltas: z.array(DiseaseScoreDeltaSchema),
+  improved: z.array(DiseaseEnum),
+  worsened: z.array(DiseaseEnum),
+});
+
+export const SurveyHistorySchema = z.object({
+  attempts: z.array(SurveyAttemptSchema),
+  comparison: SurveyComparisonSchema.nullable(),
+});
+
 // Preview Types (for reflection phase)
 export const ReflectionPreviewSchema = z.object({
   personalizedHabits: z.array(z.string()),
@@ -347,9 +387,12 @@ export type LikertScore = z.infer<typeof LikertScoreEnum>;
 export type Disease = z.infer<typeof DiseaseEnum>;
 export type SignupRequest = z.infer<typeof SignupRequestSchema>;
 export type QuestionResponse = z.infer<typeof QuestionResponseSchema>;
+export type SurveyQuestionCategory = z.infer<typeof SurveyQuestionCategoryEnum>;
+export type LocalizedText = z.infer<typeof LocalizedTextSchema>;
+export type SurveyQuestion = z.infer<typeof SurveyQuestionSchema>;
+export type SurveyQuestionBank = z.infer<typeof SurveyQuestionBankSchema>;
 export type SurveyResponse = z.infer<typeof SurveyResponseSchema>;
-export type Phase1Request = z.infer<typeof Phase1RequestSchema>;
-export type Phase2Request = z.infer<typeof Phase2RequestSchema>;
+export type PhaseRequest = z.infer<typeof PhaseRequestSchema>;
 export type ReflectionRequest = z.infer<typeof ReflectionRequestSchema>;
 export type PersonalizedHabit = z.infer<typeof PersonalizedHabitSchema>;
 export type Practice = z.infer<typeof PracticeSchema>;
@@ -361,6 +404,10 @@ export type ChartData = z.infer<typeof ChartDataSchema>;
 export type ExportOption = z.infer<typeof ExportOptionSchema>;
 export type SurveyResults = z.infer<typeof SurveyResultsSchema>;
 export type SurveyProgress = z.infer<typeof SurveyProgressSchema>;
+export type DiseaseScoreDelta = z.infer<typeof DiseaseScoreDeltaSchema>;
+export type SurveyAttempt = z.infer<typeof SurveyAttemptSchema>;
+export type SurveyComparison = z.infer<typeof SurveyComparisonSchema>;
+export type SurveyHistory = z.infer<typeof SurveyHistorySchema>;
 export type ReflectionPreview = z.infer<typeof ReflectionPreviewSchema>;
 export type SurveyProgressResponse = z.infer<typeof SurveyProgressResponseSchema>;
 export type Phase1Response = z.infer<typeof Phase1ResponseSchema>;
@@ -0,0 +1,30 @@
+-- Offline Sync Schema
+-- This migration adds the server-side log used by /sync/batch
+
+-- Sync operations log - one row per offline queue operation that was applied
+-- Keyed by the client-generated operation id so retried batches are idempotent
+CREATE TABLE sync_operations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    operation_id VARCHAR(100) NOT NULL,
+    device_id VARCHAR(100),
+    type VARCHAR(50) NOT NULL,
+    entity VARCHAR(20) NOT NULL,
+    entity_id UUID,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('applied', 'conflict')),
+    result JSONB NOT NULL, -- SyncResult returned to the client
+    client_timestamp TIMESTAMPTZ NOT NULL,
+    processed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+    UNIQUE(user_id, operation_id)
+);
+
+-- Indexes for performance
+CREATE INDEX idx_sync_operations_user_entity ON sync_operations(user_id, entity, entity_id);
+
+-- Enable RLS
+ALTER TABLE sync_operations ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies - Users can only see their own sync history
+CREATE POLICY "Users can manage own sync operations" ON sync_operations
+  FOR ALL USING (auth.uid() = user_id);
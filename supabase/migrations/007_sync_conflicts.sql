@@ -0,0 +1,48 @@
+-- Sync Conflict Store
+-- This migration persists unresolved sync conflicts and per-device sync state
+
+-- Sync conflicts - operations the server could not apply without a user decision
+CREATE TABLE sync_conflicts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    device_id VARCHAR(100),
+    operation_id VARCHAR(100) NOT NULL,
+    operation_type VARCHAR(50) NOT NULL,
+    entity VARCHAR(20) NOT NULL,
+    entity_id UUID,
+    conflict_type VARCHAR(20) NOT NULL CHECK (conflict_type IN ('timestamp', 'version', 'data')),
+    client_data JSONB NOT NULL, -- Snapshot sent by the device
+    server_data JSONB NOT NULL, -- Snapshot held by the server when the conflict was detected
+    client_timestamp TIMESTAMPTZ NOT NULL,
+    server_timestamp TIMESTAMPTZ NOT NULL,
+    resolution VARCHAR(10) CHECK (resolution IN ('client', 'server', 'merge')),
+    resolved_data JSONB,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    resolved_at TIMESTAMPTZ
+);
+
+-- Sync devices - last sync attempt and last successful sync per device
+CREATE TABLE sync_devices (
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    device_id VARCHAR(100) NOT NULL,
+    last_attempt_at TIMESTAMPTZ NOT NULL,
+    last_successful_sync_at TIMESTAMPTZ,
+    last_error_count INTEGER DEFAULT 0 NOT NULL,
+
+    PRIMARY KEY (user_id, device_id)
+);
+
+-- Indexes for performance
+CREATE INDEX idx_sync_conflicts_user_pending ON sync_conflicts(user_id) WHERE resolved_at IS NULL;
+CREATE INDEX idx_sync_conflicts_user_device ON sync_conflicts(user_id, device_id);
+
+-- Enable RLS
+ALTER TABLE sync_conflicts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sync_devices ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies - Users can only manage their own sync state
+CREATE POLICY "Users can manage own sync conflicts" ON sync_conflicts
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own sync devices" ON sync_devices
+  FOR ALL USING (auth.uid() = user_id);
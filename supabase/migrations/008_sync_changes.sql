@@ -0,0 +1,142 @@
+-- Sync Delta Pull
+-- This migration tracks entity changes and deletions for /sync/changes
+
+-- Intentions and dhikr sessions were only defined for the development SQLite database
+CREATE TABLE IF NOT EXISTS intentions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    text TEXT NOT NULL,
+    description TEXT,
+    priority VARCHAR(10) DEFAULT 'medium' NOT NULL CHECK (priority IN ('low', 'medium', 'high')),
+    status VARCHAR(20) DEFAULT 'active' NOT NULL CHECK (status IN ('active', 'completed', 'archived')),
+    target_date DATE,
+    completed_at TIMESTAMPTZ,
+    reminder_enabled BOOLEAN DEFAULT FALSE NOT NULL,
+    reminder_time VARCHAR(5), -- HH:MM
+    reminder_days_of_week INTEGER[],
+    tags TEXT[] DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS dhikr_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    dhikr_type VARCHAR(50) DEFAULT 'general' NOT NULL,
+    dhikr_text TEXT NOT NULL,
+    count INTEGER DEFAULT 0 NOT NULL,
+    target_count INTEGER,
+    date DATE NOT NULL,
+    session_start TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    session_end TIMESTAMPTZ,
+    notes TEXT,
+    tags TEXT[] DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Track the last change of entities that were previously insert-only
+ALTER TABLE habits ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+ALTER TABLE journals ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+ALTER TABLE checkins ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+
+UPDATE habits SET updated_at = created_at WHERE updated_at IS NULL;
+UPDATE journals SET updated_at = created_at WHERE updated_at IS NULL;
+UPDATE checkins SET updated_at = created_at WHERE updated_at IS NULL;
+
+ALTER TABLE habits ALTER COLUMN updated_at SET DEFAULT NOW();
+ALTER TABLE journals ALTER COLUMN updated_at SET DEFAULT NOW();
+ALTER TABLE checkins ALTER COLUMN updated_at SET DEFAULT NOW();
+
+CREATE TRIGGER update_habits_updated_at
+  BEFORE UPDATE ON habits
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_journals_updated_at
+  BEFORE UPDATE ON journals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_checkins_updated_at
+  BEFORE UPDATE ON checkins
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_intentions_updated_at
+  BEFORE UPDATE ON intentions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_dhikr_sessions_updated_at
+  BEFORE UPDATE ON dhikr_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Sync tombstones - deleted entities kept so devices can drop their local copies
+-- user_id has no foreign key: the triggers below also fire while a user is being deleted
+CREATE TABLE sync_tombstones (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    entity VARCHAR(20) NOT NULL,
+    entity_id UUID NOT NULL,
+    deleted_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Runs as the owner so deletes made under RLS can still write tombstones
+CREATE OR REPLACE FUNCTION record_sync_tombstone()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO sync_tombstones (user_id, entity, entity_id)
+  VALUES (OLD.user_id, TG_ARGV[0], OLD.id);
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER habits_sync_tombstone
+  AFTER DELETE ON habits
+  FOR EACH ROW
+  EXECUTE FUNCTION record_sync_tombstone('habit');
+
+CREATE TRIGGER journals_sync_tombstone
+  AFTER DELETE ON journals
+  FOR EACH ROW
+  EXECUTE FUNCTION record_sync_tombstone('journal');
+
+CREATE TRIGGER checkins_sync_tombstone
+  AFTER DELETE ON checkins
+  FOR EACH ROW
+  EXECUTE FUNCTION record_sync_tombstone('checkin');
+
+CREATE TRIGGER intentions_sync_tombstone
+  AFTER DELETE ON intentions
+  FOR EACH ROW
+  EXECUTE FUNCTION record_sync_tombstone('intention');
+
+CREATE TRIGGER dhikr_sessions_sync_tombstone
+  AFTER DELETE ON dhikr_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION record_sync_tombstone('dhikr');
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_intentions_user ON intentions(user_id);
+CREATE INDEX IF NOT EXISTS idx_dhikr_sessions_user_date ON dhikr_sessions(user_id, date);
+CREATE INDEX idx_habits_user_updated ON habits(user_id, updated_at);
+CREATE INDEX idx_journals_user_updated ON journals(user_id, updated_at);
+CREATE INDEX idx_checkins_user_updated ON checkins(user_id, updated_at);
+CREATE INDEX idx_sync_tombstones_user_deleted ON sync_tombstones(user_id, deleted_at);
+
+-- Enable RLS
+ALTER TABLE intentions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dhikr_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sync_tombstones ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies - Users can only see their own data
+CREATE POLICY "Users can manage own intentions" ON intentions
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own dhikr sessions" ON dhikr_sessions
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own sync tombstones" ON sync_tombstones
+  FOR SELECT USING (auth.uid() = user_id);
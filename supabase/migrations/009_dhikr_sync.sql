@@ -0,0 +1,16 @@
+-- Dhikr Offline Sync
+-- Counts from several devices are added in place so concurrent increments never overwrite each other
+
+CREATE OR REPLACE FUNCTION increment_dhikr_count(
+  session_id UUID,
+  session_user_id UUID,
+  amount INTEGER DEFAULT 1
+)
+RETURNS SETOF dhikr_sessions AS $$
+  UPDATE dhikr_sessions
+  SET count = count + amount
+  WHERE id = session_id AND user_id = session_user_id
+  RETURNING *;
+$$ LANGUAGE sql;
+
+COMMENT ON FUNCTION increment_dhikr_count IS 'Atomically adds to a dhikr session count and returns the updated session';
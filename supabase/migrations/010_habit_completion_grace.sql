@@ -0,0 +1,7 @@
+-- Habit Completion Grace Window
+-- How many past days a user may still tick off (or undo) a habit, e.g. yesterday's Fajr dhikr the next morning
+
+ALTER TABLE user_preferences
+  ADD COLUMN habit_settings JSONB DEFAULT '{"completionGraceDays": 1}' NOT NULL;
+
+COMMENT ON COLUMN user_preferences.habit_settings IS 'Habit preferences; completionGraceDays is the number of days before today a completion may be logged';
@@ -0,0 +1,18 @@
+-- Achievements Engine
+-- user_stats is now maintained by the API from habit domain events, which also handles undone completions,
+-- so the insert-only trigger from 002 would double count
+
+DROP TRIGGER IF EXISTS trigger_update_user_stats_habit ON habit_completions;
+DROP FUNCTION IF EXISTS update_user_stats_on_habit_completion();
+
+-- Latest day with a completion, used to track the consecutive-day (consistency) run
+ALTER TABLE user_stats
+  ADD COLUMN last_active_on DATE;
+
+COMMENT ON COLUMN user_stats.current_streak IS 'Consecutive days with at least one habit completion';
+COMMENT ON COLUMN user_stats.longest_streak IS 'Longest streak reached by any single habit';
+
+-- Users created before 002 never got a stats row
+INSERT INTO user_stats (user_id)
+SELECT id FROM users
+ON CONFLICT (user_id) DO NOTHING;
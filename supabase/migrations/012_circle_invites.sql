@@ -0,0 +1,21 @@
+-- Circle Invites
+-- Circles are joined with a short invite code shared by an existing member
+
+ALTER TABLE circles
+  ADD COLUMN invite_code TEXT;
+
+UPDATE circles
+SET invite_code = upper(substr(md5(random()::text || id::text), 1, 8))
+WHERE invite_code IS NULL;
+
+ALTER TABLE circles
+  ALTER COLUMN invite_code SET NOT NULL,
+  ADD CONSTRAINT circles_invite_code_key UNIQUE (invite_code);
+
+-- Members can leave a circle (002 only allowed joining)
+CREATE POLICY "Users can leave circles" ON circle_memberships
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Circle progress sums members' completions per day range
+CREATE INDEX IF NOT EXISTS idx_habit_completions_user_date ON habit_completions(user_id, completed_on);
+CREATE INDEX IF NOT EXISTS idx_circle_encouragements_created ON circle_encouragements(circle_id, created_at DESC);
@@ -0,0 +1,11 @@
+-- Hijri Calendar Adjustment
+-- Umm al-Qura dates can differ by a day or two from local moon sighting, so users may shift them
+
+ALTER TABLE user_preferences
+  ADD COLUMN calendar_settings JSONB DEFAULT '{"hijriAdjustment": 0}' NOT NULL;
+
+ALTER TABLE user_preferences
+  ADD CONSTRAINT user_preferences_hijri_adjustment_range
+  CHECK (COALESCE((calendar_settings->>'hijriAdjustment')::int, 0) BETWEEN -2 AND 2);
+
+COMMENT ON COLUMN user_preferences.calendar_settings IS 'Calendar preferences; hijriAdjustment is the number of days (-2 to 2) added to the Umm al-Qura date';
@@ -0,0 +1,15 @@
+-- Prayer Time Settings
+-- Asr madhab, high-latitude rule and the per-prayer minute offsets local masjids publish
+
+ALTER TABLE user_preferences
+  ADD COLUMN prayer_settings JSONB DEFAULT '{"asrMadhab": "Shafi"}' NOT NULL;
+
+ALTER TABLE user_preferences
+  ADD CONSTRAINT user_preferences_asr_madhab_check
+  CHECK (COALESCE(prayer_settings->>'asrMadhab', 'Shafi') IN ('Shafi', 'Hanafi'));
+
+ALTER TABLE user_preferences
+  ADD CONSTRAINT user_preferences_high_latitude_rule_check
+  CHECK (COALESCE(prayer_settings->>'highLatitudeRule', 'MiddleOfTheNight') IN ('MiddleOfTheNight', 'SeventhOfTheNight', 'TwilightAngle'));
+
+COMMENT ON COLUMN user_preferences.prayer_settings IS 'Prayer time preferences; asrMadhab (Shafi/Hanafi), highLatitudeRule (unset picks one from latitude) and adjustments, minutes added per prayer';
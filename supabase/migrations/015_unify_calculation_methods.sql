@@ -0,0 +1,31 @@
+-- Unify Calculation Methods
+-- Preferences used their own method names (ISNA, MWL, Egypt, Makkah, ...); store the
+-- prayer-times calculation method names instead so the saved preference drives /prayer-times
+
+UPDATE user_preferences
+SET prayer_calculation_method = CASE prayer_calculation_method
+  WHEN 'ISNA' THEN 'NorthAmerica'
+  WHEN 'MWL' THEN 'MuslimWorldLeague'
+  WHEN 'Egypt' THEN 'Egyptian'
+  WHEN 'Makkah' THEN 'UmmAlQura'
+  ELSE prayer_calculation_method
+END
+WHERE prayer_calculation_method IN ('ISNA', 'MWL', 'Egypt', 'Makkah');
+
+UPDATE user_preferences
+SET prayer_calculation_method = 'MuslimWorldLeague'
+WHERE prayer_calculation_method IS NULL
+   OR prayer_calculation_method NOT IN (
+     'MuslimWorldLeague', 'Egyptian', 'Karachi', 'UmmAlQura', 'Dubai', 'MoonsightingCommittee',
+     'NorthAmerica', 'Kuwait', 'Qatar', 'Singapore', 'Tehran', 'Turkey', 'Jafari'
+   );
+
+ALTER TABLE user_preferences
+  ALTER COLUMN prayer_calculation_method SET DEFAULT 'MuslimWorldLeague';
+
+ALTER TABLE user_preferences
+  ADD CONSTRAINT user_preferences_prayer_calculation_method_check
+  CHECK (prayer_calculation_method IN (
+    'MuslimWorldLeague', 'Egyptian', 'Karachi', 'UmmAlQura', 'Dubai', 'MoonsightingCommittee',
+    'NorthAmerica', 'Kuwait', 'Qatar', 'Singapore', 'Tehran', 'Turkey', 'Jafari'
+  ));
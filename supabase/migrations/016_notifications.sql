@@ -0,0 +1,33 @@
+-- Notification Queue
+-- Reminders planned from prayer times, notification settings, intentions and habits,
+-- delivered by the API's notification scheduler
+
+CREATE TABLE notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('prayer', 'fajr_reminder', 'daily_reminder', 'habit_streak', 'intention')),
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    data JSONB DEFAULT '{}'::jsonb NOT NULL,
+    dedupe_key VARCHAR(150) NOT NULL, -- e.g. prayer:fajr:2024-03-01, so re-planning never queues a reminder twice
+    scheduled_for TIMESTAMPTZ NOT NULL,
+    status VARCHAR(10) DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'sent', 'failed', 'expired')),
+    attempts INTEGER DEFAULT 0 NOT NULL,
+    channel VARCHAR(50),
+    last_error TEXT,
+    sent_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+    UNIQUE (user_id, dedupe_key)
+);
+
+-- Indexes for performance
+CREATE INDEX idx_notifications_pending_scheduled ON notifications(scheduled_for) WHERE status = 'pending';
+CREATE INDEX idx_notifications_user_scheduled ON notifications(user_id, scheduled_for DESC);
+
+-- Enable RLS
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies - Users can read their own notifications; the scheduler writes with the service role
+CREATE POLICY "Users can view own notifications" ON notifications
+  FOR SELECT USING (auth.uid() = user_id);
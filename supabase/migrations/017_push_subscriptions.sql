@@ -0,0 +1,23 @@
+-- Push Subscriptions
+-- Web Push endpoints per browser/device, used to deliver queued notifications
+
+CREATE TABLE push_subscriptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    endpoint TEXT NOT NULL UNIQUE, -- A browser that re-subscribes, or a new user on the device, replaces the old row
+    p256dh TEXT NOT NULL,
+    auth TEXT NOT NULL,
+    device_id VARCHAR(100),
+    user_agent TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for performance
+CREATE INDEX idx_push_subscriptions_user ON push_subscriptions(user_id);
+
+-- Enable RLS
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies - Users can only manage their own subscriptions
+CREATE POLICY "Users can manage own push subscriptions" ON push_subscriptions
+  FOR ALL USING (auth.uid() = user_id);
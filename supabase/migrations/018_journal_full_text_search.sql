@@ -0,0 +1,115 @@
+-- Journal Full-Text Search
+-- Replaces the English-only content index with one that handles Arabic and English entries,
+-- and a search function that ranks matches and returns highlighted snippets
+
+-- Harakat, Quranic marks and tatweel split words in the default parser, and writers use the alef,
+-- alef maqsura and ta marbuta forms interchangeably. Kept in step with normalizeSearchText() in the API.
+CREATE OR REPLACE FUNCTION normalize_arabic(input TEXT)
+RETURNS TEXT AS $$
+  SELECT translate(
+    regexp_replace(input, '[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]', '', 'g'),
+    U&'\0622\0623\0625\0671\0649\0629',
+    U&'\0627\0627\0627\0627\064A\0647'
+  )
+$$ LANGUAGE sql IMMUTABLE STRICT;
+
+-- English words are stemmed as English, everything else with the Arabic stemmer
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'journal_search') THEN
+    CREATE TEXT SEARCH CONFIGURATION journal_search (COPY = simple);
+    ALTER TEXT SEARCH CONFIGURATION journal_search
+      ALTER MAPPING FOR asciiword, asciihword, hword_asciipart WITH english_stem;
+    ALTER TEXT SEARCH CONFIGURATION journal_search
+      ALTER MAPPING FOR word, hword, hword_part WITH arabic_stem;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION journal_search_vector(content TEXT, tags TEXT[])
+RETURNS tsvector AS $$
+  SELECT setweight(to_tsvector('journal_search', normalize_arabic(content)), 'A')
+      || setweight(to_tsvector('journal_search', normalize_arabic(coalesce(array_to_string(tags, ' '), ''))), 'B')
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE journals ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (journal_search_vector(content, tags)) STORED;
+
+DROP INDEX IF EXISTS idx_journals_content_search;
+CREATE INDEX IF NOT EXISTS idx_journals_search_vector ON journals USING gin(search_vector);
+
+-- Runs as the caller, so row level security still limits results to the user's own journals.
+-- An empty query filters by tags and dates only and returns no highlight.
+CREATE OR REPLACE FUNCTION search_journals(
+  search_user_id UUID,
+  search_query TEXT DEFAULT NULL,
+  search_tags TEXT[] DEFAULT NULL,
+  created_from TIMESTAMPTZ DEFAULT NULL,
+  created_to TIMESTAMPTZ DEFAULT NULL,
+  sort_by TEXT DEFAULT NULL,
+  sort_order TEXT DEFAULT 'desc',
+  highlight_start TEXT DEFAULT '<b>',
+  highlight_end TEXT DEFAULT '</b>',
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  content TEXT,
+  tags TEXT[],
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  rank REAL,
+  highlight TEXT,
+  total_count BIGINT
+) AS $$
+  WITH query AS (
+    SELECT CASE
+      WHEN coalesce(trim(search_query), '') = '' THEN NULL
+      ELSE websearch_to_tsquery('journal_search', normalize_arabic(search_query))
+    END AS tsquery
+  ),
+  matches AS (
+    SELECT
+      j.*,
+      q.tsquery,
+      CASE WHEN q.tsquery IS NULL THEN 0 ELSE ts_rank_cd(j.search_vector, q.tsquery) END AS score,
+      coalesce(sort_by, CASE WHEN q.tsquery IS NULL THEN 'createdAt' ELSE 'relevance' END) AS sort_key
+    FROM journals j
+    CROSS JOIN query q
+    WHERE j.user_id = search_user_id
+      AND (q.tsquery IS NULL OR j.search_vector @@ q.tsquery)
+      AND (search_tags IS NULL OR EXISTS (
+        SELECT 1 FROM unnest(j.tags) AS tag WHERE lower(tag) = ANY(search_tags)
+      ))
+      AND (created_from IS NULL OR j.created_at >= created_from)
+      AND (created_to IS NULL OR j.created_at < created_to)
+  )
+  SELECT
+    m.id,
+    m.user_id,
+    m.content,
+    m.tags,
+    m.created_at,
+    m.updated_at,
+    m.score::REAL,
+    -- Headlines are cut from the normalized text so diacritized words are still marked
+    CASE WHEN m.tsquery IS NULL THEN NULL ELSE ts_headline(
+      'journal_search',
+      normalize_arabic(m.content),
+      m.tsquery,
+      format('StartSel=%s, StopSel=%s, MaxWords=24, MinWords=12, MaxFragments=1', highlight_start, highlight_end)
+    ) END,
+    count(*) OVER ()
+  FROM matches m
+  ORDER BY
+    CASE WHEN m.sort_key = 'relevance' AND sort_order = 'asc' THEN m.score END ASC,
+    CASE WHEN m.sort_key = 'relevance' AND sort_order <> 'asc' THEN m.score END DESC,
+    CASE WHEN m.sort_key = 'content' AND sort_order = 'asc' THEN m.content END ASC,
+    CASE WHEN m.sort_key = 'content' AND sort_order <> 'asc' THEN m.content END DESC,
+    CASE WHEN m.sort_key = 'createdAt' AND sort_order = 'asc' THEN m.created_at END ASC,
+    m.created_at DESC
+  LIMIT result_limit OFFSET result_offset;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION search_journals IS 'Ranked full-text search over a user''s journals with tag, date range and highlight support';
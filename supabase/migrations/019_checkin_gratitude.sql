@@ -0,0 +1,43 @@
+-- Check-in Gratitude and Improvements
+-- Gratitude items and improvements get their own columns instead of being appended to the reflection
+
+ALTER TABLE checkins ADD COLUMN IF NOT EXISTS gratitude TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE checkins ADD COLUMN IF NOT EXISTS improvements TEXT;
+
+ALTER TABLE checkins ADD CONSTRAINT checkins_gratitude_max_items
+  CHECK (coalesce(array_length(gratitude, 1), 0) <= 3);
+
+-- Split existing reflections stored as
+--   <reflection>\n\nGratitude:\n1. <item>\n2. <item>\n\nImprovements:\n<text>
+-- Kept in step with splitLegacyReflection() in the API.
+WITH without_improvements AS (
+  SELECT
+    id,
+    substring(reflection FROM '(?:^|\n\n)Improvements:\n(.*)$') AS improvements,
+    regexp_replace(reflection, '(^|\n\n)Improvements:\n.*$', '') AS remaining
+  FROM checkins
+  WHERE reflection ~ '(^|\n\n)(Gratitude|Improvements):\n'
+),
+sections AS (
+  SELECT
+    id,
+    improvements,
+    substring(remaining FROM '(?:^|\n\n)Gratitude:\n(.*)$') AS gratitude_block,
+    regexp_replace(remaining, '(^|\n\n)Gratitude:\n.*$', '') AS reflection
+  FROM without_improvements
+)
+UPDATE checkins c SET
+  reflection = nullif(btrim(s.reflection, E' \n'), ''),
+  improvements = nullif(btrim(s.improvements, E' \n'), ''),
+  gratitude = ARRAY(
+    SELECT item
+    FROM unnest(string_to_array(coalesce(s.gratitude_block, ''), E'\n')) AS line,
+      LATERAL btrim(regexp_replace(line, '^\d+\.\s*', '')) AS item
+    WHERE item <> ''
+    LIMIT 3
+  )
+FROM sections s
+WHERE c.id = s.id;
+
+COMMENT ON COLUMN checkins.gratitude IS 'Up to three things the user was grateful for that day';
+COMMENT ON COLUMN checkins.improvements IS 'What the user wants to improve tomorrow';
@@ -0,0 +1,18 @@
+-- Morning and Evening Check-in Sessions
+-- A day can hold a morning intention and an evening muhasabah instead of one check-in
+
+ALTER TABLE checkins ADD COLUMN IF NOT EXISTS session TEXT NOT NULL DEFAULT 'evening'
+  CHECK (session IN ('morning', 'evening'));
+
+-- A check-in with nothing but an intention was a morning check-in
+UPDATE checkins
+SET session = 'morning'
+WHERE intention IS NOT NULL
+  AND reflection IS NULL
+  AND improvements IS NULL
+  AND coalesce(array_length(gratitude, 1), 0) = 0;
+
+ALTER TABLE checkins DROP CONSTRAINT IF EXISTS checkins_user_id_date_key;
+ALTER TABLE checkins ADD CONSTRAINT checkins_user_id_date_session_key UNIQUE (user_id, date, session);
+
+COMMENT ON COLUMN checkins.session IS 'morning sets the day''s intention, evening is the muhasabah';
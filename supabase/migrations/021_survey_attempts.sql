@@ -0,0 +1,15 @@
+-- Survey Retakes
+-- Keep the results of every survey attempt instead of one per user, so scores can be compared over time
+
+ALTER TABLE survey_progress ADD COLUMN IF NOT EXISTS attempt_number INTEGER NOT NULL DEFAULT 1
+  CHECK (attempt_number >= 1);
+
+-- Existing results were each user's first attempt
+ALTER TABLE survey_results ADD COLUMN IF NOT EXISTS attempt_number INTEGER NOT NULL DEFAULT 1
+  CHECK (attempt_number >= 1);
+
+ALTER TABLE survey_results DROP CONSTRAINT IF EXISTS survey_results_user_id_key;
+ALTER TABLE survey_results ADD CONSTRAINT survey_results_user_id_attempt_number_key UNIQUE (user_id, attempt_number);
+
+COMMENT ON COLUMN survey_progress.attempt_number IS 'The attempt in progress, incremented when the user starts a retake';
+COMMENT ON COLUMN survey_results.attempt_number IS '1 for the first survey, one more for each retake';
@@ -0,0 +1,95 @@
+-- Versioned Survey Question Bank
+-- Moves the phase 1 and 2 questions out of the code so a bank can ask several questions per disease
+
+CREATE TABLE survey_question_banks (
+    version INTEGER PRIMARY KEY CHECK (version >= 1),
+    is_active BOOLEAN NOT NULL DEFAULT FALSE,
+    description TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Only one bank is answered at a time
+CREATE UNIQUE INDEX idx_survey_question_banks_active ON survey_question_banks(is_active) WHERE is_active;
+
+CREATE TABLE survey_questions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    bank_version INTEGER NOT NULL REFERENCES survey_question_banks(version) ON DELETE CASCADE,
+    question_key VARCHAR(50) NOT NULL,
+    disease TEXT NOT NULL CHECK (disease IN ('envy', 'arrogance', 'selfDeception', 'lust', 'anger', 'malice', 'backbiting', 'suspicion', 'loveOfDunya', 'laziness', 'despair')),
+    phase_number INTEGER NOT NULL CHECK (phase_number IN (1, 2)),
+    category TEXT NOT NULL CHECK (category IN ('inner', 'behavioral')),
+    display_order INTEGER NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+    UNIQUE(bank_version, question_key)
+);
+
+CREATE TABLE survey_question_translations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    question_id UUID NOT NULL REFERENCES survey_questions(id) ON DELETE CASCADE,
+    locale TEXT NOT NULL CHECK (locale IN ('en', 'ar')),
+    title TEXT NOT NULL,
+    prompt TEXT NOT NULL,
+
+    UNIQUE(question_id, locale)
+);
+
+COMMENT ON COLUMN survey_questions.question_key IS 'Stored as survey_responses.question_id; keep it when carrying a question into a new version so in-progress answers still count';
+
+ALTER TABLE survey_question_banks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE survey_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE survey_question_translations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Survey question banks are public" ON survey_question_banks
+  FOR SELECT USING (true);
+
+CREATE POLICY "Survey questions are public" ON survey_questions
+  FOR SELECT USING (true);
+
+CREATE POLICY "Survey question translations are public" ON survey_question_translations
+  FOR SELECT USING (true);
+
+-- Version 1: the original eleven questions, one per disease
+INSERT INTO survey_question_banks (version, is_active, description) VALUES
+  (1, TRUE, 'Original survey, one question per disease');
+
+INSERT INTO survey_questions (bank_version, question_key, disease, phase_number, category, display_order) VALUES
+  (1, 'envy', 'envy', 1, 'inner', 1),
+  (1, 'arrogance', 'arrogance', 1, 'inner', 2),
+  (1, 'selfDeception', 'selfDeception', 1, 'inner', 3),
+  (1, 'lust', 'lust', 1, 'inner', 4),
+  (1, 'anger', 'anger', 2, 'behavioral', 5),
+  (1, 'malice', 'malice', 2, 'behavioral', 6),
+  (1, 'backbiting', 'backbiting', 2, 'behavioral', 7),
+  (1, 'suspicion', 'suspicion', 2, 'behavioral', 8),
+  (1, 'loveOfDunya', 'loveOfDunya', 2, 'behavioral', 9),
+  (1, 'laziness', 'laziness', 2, 'behavioral', 10),
+  (1, 'despair', 'despair', 2, 'behavioral', 11);
+
+INSERT INTO survey_question_translations (question_id, locale, title, prompt)
+SELECT q.id, t.locale, t.title, t.prompt
+FROM (VALUES
+  ('envy', 'en', 'Envy and Jealousy', 'How often do you feel envious or jealous when you see others succeed or have things you want?'),
+  ('arrogance', 'en', 'Pride and Arrogance', 'How often do you feel superior to others or look down on people you consider beneath you?'),
+  ('selfDeception', 'en', 'Self-Deception', 'How often do you justify your mistakes or wrongdoings instead of acknowledging them honestly?'),
+  ('lust', 'en', 'Inappropriate Desires', 'How often do you struggle with controlling inappropriate desires or sexual thoughts?'),
+  ('anger', 'en', 'Anger and Irritability', 'How often do you lose your temper or become angry in your daily interactions?'),
+  ('malice', 'en', 'Hatred and Resentment', 'How often do you hold grudges or feel lasting resentment toward people who have wronged you?'),
+  ('backbiting', 'en', 'Gossip and Backbiting', 'How often do you speak negatively about people behind their backs or engage in gossip?'),
+  ('suspicion', 'en', 'Suspicion and Doubt', 'How often do you assume the worst about others'' intentions or motives without evidence?'),
+  ('loveOfDunya', 'en', 'Attachment to Worldly Things', 'How often do you find yourself overly focused on material possessions or worldly status?'),
+  ('laziness', 'en', 'Spiritual Laziness', 'How often do you delay or avoid acts of worship, good deeds, or spiritual practices?'),
+  ('despair', 'en', 'Hopelessness and Despair', 'How often do you feel hopeless about your spiritual progress or Allah''s mercy?'),
+  ('envy', 'ar', 'الحسد والغيرة', 'كم مرة تشعر بالحسد أو الغيرة عندما ترى الآخرين ينجحون أو يمتلكون أشياء تريدها؟'),
+  ('arrogance', 'ar', 'الكبر والغرور', 'كم مرة تشعر بالتفوق على الآخرين أو تنظر باستعلاء للأشخاص الذين تعتبرهم أقل منك؟'),
+  ('selfDeception', 'ar', 'خداع النفس', 'كم مرة تبرر أخطاءك أو أفعالك الخاطئة بدلاً من الاعتراف بها بصدق؟'),
+  ('lust', 'ar', 'الشهوات المحرمة', 'كم مرة تجد صعوبة في التحكم في الرغبات غير المناسبة أو الأفكار الجنسية؟'),
+  ('anger', 'ar', 'الغضب والانفعال', 'كم مرة تفقد أعصابك أو تغضب في تفاعلاتك اليومية؟'),
+  ('malice', 'ar', 'الحقد والضغينة', 'كم مرة تحمل الضغائن أو تشعر بالحقد المستمر تجاه الأشخاص الذين أساؤوا إليك؟'),
+  ('backbiting', 'ar', 'الغيبة والنميمة', 'كم مرة تتحدث بالسوء عن الناس في غيابهم أو تشارك في النميمة؟'),
+  ('suspicion', 'ar', 'سوء الظن والشك', 'كم مرة تفترض الأسوأ حول نوايا أو دوافع الآخرين دون دليل؟'),
+  ('loveOfDunya', 'ar', 'حب الدنيا والتعلق بها', 'كم مرة تجد نفسك مهتماً بشكل مفرط بالممتلكات المادية أو المكانة الدنيوية؟'),
+  ('laziness', 'ar', 'الكسل الروحي', 'كم مرة تؤجل أو تتجنب أعمال العبادة أو الأعمال الصالحة أو الممارسات الروحية؟'),
+  ('despair', 'ar', 'اليأس والقنوط', 'كم مرة تشعر باليأس من تقدمك الروحي أو من رحمة الله؟')
+) AS t(question_key, locale, title, prompt)
+JOIN survey_questions q ON q.bank_version = 1 AND q.question_key = t.question_key;